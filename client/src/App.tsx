@@ -20,6 +20,8 @@ import Profile from './pages/Profile';
 import UserProfile from './pages/UserProfile';
 import Social from './pages/Social';
 import Followers from './pages/Followers';
+import Trades from './pages/Trades';
+import Banlists from './pages/Banlists';
 import News from './pages/News';
 import Admin from './pages/Admin';
 import AdminLogs from './pages/AdminLogs';
@@ -28,6 +30,7 @@ import DuelRoom from './pages/DuelRoom';
 import EngineDuelRoom from './pages/EngineDuelRoom';
 import DuelMatchLobby from './pages/DuelMatchLobby';
 import DuelSpectate from './pages/DuelSpectate';
+import DuelReplayViewer from './pages/DuelReplayViewer';
 import DuelLobby from './pages/DuelLobby';
 
 // Protected route wrapper
@@ -144,6 +147,22 @@ const AppRoutes = () => {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/trades"
+        element={
+          <ProtectedRoute>
+            <Trades />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/banlists"
+        element={
+          <ProtectedRoute>
+            <Banlists />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/admin"
         element={
@@ -223,6 +242,26 @@ const AppRoutes = () => {
         }
       />
 
+      {/* Rejeu pas à pas d'une partie finie, reconstruite par le moteur. */}
+      <Route
+        path="/duel/:id/replay"
+        element={
+          <ProtectedRoute>
+            <DuelReplayViewer />
+          </ProtectedRoute>
+        }
+      />
+
+      {/* Ligne de combo d'un deck, rejouée par le même écran. */}
+      <Route
+        path="/decks/:deckId/combo-lines/:lineId"
+        element={
+          <ProtectedRoute>
+            <DuelReplayViewer />
+          </ProtectedRoute>
+        }
+      />
+
       {/* Landing publique : Home v2 si non logué, sinon redirection vers la collection */}
       <Route path="/" element={user ? <Navigate to="/collection" /> : <Home />} />
       <Route path="*" element={<Navigate to="/" />} />
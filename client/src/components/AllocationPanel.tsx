@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import type { CardAllocation } from '../../../shared/types';
+
+const CUT_PANEL = 'polygon(0 0,calc(100% - 18px) 0,100% 18px,100% 100%,0 100%)';
+
+interface AllocationPanelProps {
+  allocation: CardAllocation[];
+}
+
+/**
+ * Cartes sur-allouées : plusieurs decks montés réclament plus d'exemplaires
+ * que la collection n'en contient. Rien à afficher quand tout tombe juste.
+ */
+export default function AllocationPanel({ allocation }: AllocationPanelProps) {
+  const [open, setOpen] = useState(false);
+  const over = allocation.filter((a) => a.over_committed);
+  if (over.length === 0) return null;
+
+  return (
+    <div
+      style={{
+        marginTop: 20,
+        padding: '14px 18px',
+        background: 'color-mix(in srgb, var(--danger) 8%, var(--panel))',
+        border: '1px solid var(--danger)',
+        clipPath: CUT_PANEL,
+      }}>
+      <button
+        onClick={() => setOpen((o) => !o)}
+        aria-expanded={open}
+        style={{
+          width: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          gap: 10,
+          background: 'transparent',
+          border: 0,
+          padding: 0,
+          color: 'var(--danger)',
+          fontFamily: "'Orbitron', sans-serif",
+          fontSize: 11,
+          fontWeight: 700,
+          letterSpacing: '0.14em',
+          textTransform: 'uppercase',
+          cursor: 'pointer',
+          textAlign: 'left',
+        }}>
+        <span style={{ flex: 1 }}>
+          ⚠ {over.length} carte{over.length > 1 ? 's' : ''} sur-allouée{over.length > 1 ? 's' : ''} entre tes
+          decks montés
+        </span>
+        <span>{open ? '−' : '+'}</span>
+      </button>
+
+      {open && (
+        <div style={{ marginTop: 12, display: 'flex', flexDirection: 'column', gap: 10 }}>
+          {over.map((a) => (
+            <div key={a.card_id} style={{ display: 'flex', gap: 12, alignItems: 'flex-start', fontSize: 13 }}>
+              {a.image_url_small && (
+                <img src={a.image_url_small} alt="" style={{ width: 30, height: 44, objectFit: 'cover' }} />
+              )}
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ color: 'var(--text)' }}>
+                  {a.name}{' '}
+                  <span style={{ color: 'var(--danger)', fontFamily: "'Orbitron', sans-serif", fontSize: 11 }}>
+                    {a.allocated} / {a.owned}
+                  </span>
+                </div>
+                <div style={{ fontSize: 11, color: 'var(--text-muted)' }}>
+                  {a.decks
+                    .filter((d) => d.is_built)
+                    .map((d) => `${d.name} ×${d.quantity}`)
+                    .join(' · ')}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,9 @@ import api, { getImageUrl } from '../services/api';
 import ThemeToggle from './ThemeToggle';
 import { MillenniumMark } from './decor/Icons';
 
+const eur = (n: number) =>
+  n.toLocaleString('fr-FR', { style: 'currency', currency: 'EUR', maximumFractionDigits: 2 });
+
 const AppNavbar = () => {
   const { user, logout } = useAuth();
   const location = useLocation();
@@ -94,6 +97,10 @@ const AppNavbar = () => {
       navigate(`/user/${notification.from_user_id}`);
     } else if (['like', 'dislike', 'comment', 'reply'].includes(notification.type) && notification.deck_id && !isNaN(notification.deck_id)) {
       navigate(`/decks/${notification.deck_id}`);
+    } else if (notification.type.startsWith('trade_') && notification.trade_id) {
+      navigate(`/trades?id=${notification.trade_id}`);
+    } else if (notification.type === 'price_alert') {
+      navigate('/trades?tab=binder');
     }
   };
 
@@ -112,6 +119,18 @@ const AppNavbar = () => {
         return `${username} a commente sur ${deckName}`;
       case 'reply':
         return `${username} a repondu a votre commentaire`;
+      case 'trade_offer':
+        return `${username} vous propose un echange`;
+      case 'trade_counter':
+        return `${username} a fait une contre-offre`;
+      case 'trade_accepted':
+        return `${username} a accepte votre echange`;
+      case 'trade_declined':
+        return `${username} a refuse votre echange`;
+      case 'trade_cancelled':
+        return `${username} a annule son offre d'echange`;
+      case 'price_alert':
+        return `${notification.card?.name || 'Une carte recherchee'} est a ${eur(notification.price_eur ?? 0)} sur Cardmarket`;
       default:
         return 'Nouvelle notification';
     }
@@ -144,6 +163,7 @@ const AppNavbar = () => {
     { to: '/decks', label: 'Decks' },
     { to: '/duels', label: 'Duels' },
     { to: '/social', label: 'Social' },
+    { to: '/trades', label: 'Échanges' },
     { to: '/actualites', label: 'Actualités' },
   ];
 
@@ -0,0 +1,373 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Deck } from '../../../shared/types';
+import type { DuelBotPolicyId, DuelBotPolicyInfo } from '../../../shared/duelView';
+import api from '../services/api';
+import duelApi from '../services/duelApi';
+
+const CUT_PANEL = 'polygon(0 0,calc(100% - 22px) 0,100% 22px,100% 100%,22px 100%,0 calc(100% - 22px))';
+const CUT_BTN = 'polygon(0 0,100% 0,100% 100%,95% 100%,95% 90%,85% 90%,85% 100%,8% 100%,0 70%)';
+const CUT_SM = 'polygon(6px 0,100% 0,100% calc(100% - 6px),calc(100% - 6px) 100%,0 100%,0 6px)';
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+}
+
+type FirstPlayer = 'random' | 'me' | 'bot';
+
+const LABEL_STYLE = {
+  display: 'block',
+  fontFamily: "'Orbitron', sans-serif",
+  fontSize: 10,
+  letterSpacing: '0.2em',
+  textTransform: 'uppercase' as const,
+  color: '#A99C86',
+  marginBottom: 8,
+};
+
+const SELECT_STYLE = {
+  width: '100%',
+  height: 40,
+  padding: '0 10px',
+  background: '#1A1510',
+  border: '1px solid #3A2E1C',
+  color: '#F5EFE0',
+  fontFamily: "'Orbitron', sans-serif",
+  fontSize: 11,
+};
+
+/** Bouton à bascule des choix exclusifs (politique, premier joueur). */
+const choiceStyle = (active: boolean) => ({
+  padding: '10px 12px',
+  border: `1px solid ${active ? '#F5C518' : '#3A2E1C'}`,
+  background: active ? 'linear-gradient(135deg,rgba(245,197,24,.18),rgba(168,85,247,.1))' : '#1A1510',
+  color: active ? '#F5C518' : '#F5EFE0',
+  fontFamily: "'Orbitron', sans-serif",
+  cursor: 'pointer',
+  textAlign: 'left' as const,
+  clipPath: CUT_SM,
+  display: 'flex',
+  flexDirection: 'column' as const,
+  gap: 4,
+});
+
+/**
+ * BotDuelModal — duel moteur en solo contre le bot.
+ * Même panneau que ChallengeModal ; pas de défi à envoyer : le duel est créé
+ * prêt à jouer et on entre directement dans l'arène.
+ * Le bot joue l'un de mes decks ou un deck public.
+ */
+const BotDuelModal = ({ open, onClose }: Props) => {
+  const navigate = useNavigate();
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [publicDecks, setPublicDecks] = useState<Deck[]>([]);
+  const [policies, setPolicies] = useState<DuelBotPolicyInfo[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [deckId, setDeckId] = useState<number | null>(null);
+  const [botDeckId, setBotDeckId] = useState<number | null>(null);
+  const [policy, setPolicy] = useState<DuelBotPolicyId>('rules');
+  const [firstPlayer, setFirstPlayer] = useState<FirstPlayer>('random');
+  const [rulesMode, setRulesMode] = useState<'standard' | 'free'>('standard');
+
+  useEffect(() => {
+    if (!open) return;
+    setLoading(true);
+    Promise.all([
+      api.get('/decks').then((res) => (res.data.data || res.data || []) as Deck[]),
+      api
+        .get('/decks/public', { params: { limit: 30, sort: 'likes' } })
+        .then((res) => (res.data.data || []) as Deck[])
+        .catch(() => [] as Deck[]),
+      duelApi.botPolicies().catch(() => [] as DuelBotPolicyInfo[]),
+    ])
+      .then(([mine, shared, available]) => {
+        const mineIds = new Set(mine.map((d) => d.id));
+        setDecks(mine);
+        setPublicDecks(shared.filter((d) => !mineIds.has(d.id)));
+        setPolicies(available);
+        setDeckId(mine[0]?.id ?? null);
+        setBotDeckId(mine[0]?.id ?? shared[0]?.id ?? null);
+      })
+      .catch(() => setDecks([]))
+      .finally(() => setLoading(false));
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) return;
+    const onEsc = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', onEsc);
+    return () => document.removeEventListener('keydown', onEsc);
+  }, [open, onClose]);
+
+  const handleSubmit = async () => {
+    if (!deckId || !botDeckId) return;
+    setSubmitting(true);
+    try {
+      const duel = await duelApi.challengeBot({
+        deck_id: deckId,
+        bot_deck_id: botDeckId,
+        policy,
+        go_first: firstPlayer === 'random' ? undefined : firstPlayer === 'me',
+        rules_mode: rulesMode,
+      });
+      onClose();
+      navigate(`/duel/${duel.id}`);
+    } catch (err) {
+      // Erreur toast gérée par api interceptor
+      console.error(err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!open) return null;
+
+  const blocked = submitting || loading || !deckId || !botDeckId;
+
+  return (
+    <div
+      onClick={onClose}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 100,
+        background: 'rgba(11,9,6,.82)',
+        backdropFilter: 'blur(6px)',
+        display: 'grid',
+        placeItems: 'center',
+        padding: 20,
+      }}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          position: 'relative',
+          width: '100%',
+          maxWidth: 500,
+          background: 'linear-gradient(160deg,#1A1510,#0D0A06)',
+          border: '1px solid #A855F7',
+          padding: '32px 30px 26px',
+          clipPath: CUT_PANEL,
+          boxShadow: '0 30px 60px rgba(0,0,0,.7), 0 0 40px rgba(168,85,247,.2)',
+        }}>
+        <div style={{ position: 'relative' }}>
+          <div
+            style={{
+              fontFamily: "'Cormorant Garamond', serif",
+              fontStyle: 'italic',
+              fontSize: 11,
+              letterSpacing: '0.32em',
+              color: '#F5C518',
+              textTransform: 'uppercase',
+            }}>
+            — Entraînement —
+          </div>
+          <h2
+            style={{
+              margin: '8px 0 0',
+              fontFamily: "'Orbitron', sans-serif",
+              fontSize: 26,
+              fontWeight: 900,
+              letterSpacing: '0.02em',
+              textTransform: 'uppercase',
+              color: '#F5EFE0',
+              lineHeight: 1.05,
+            }}>
+            Affronter le bot
+          </h2>
+
+          {loading ? (
+            <div
+              style={{
+                marginTop: 22,
+                height: 44,
+                border: '1px dashed #3A2E1C',
+                display: 'grid',
+                placeItems: 'center',
+                color: '#A99C86',
+                fontSize: 13,
+              }}>
+              Chargement des grimoires…
+            </div>
+          ) : decks.length === 0 ? (
+            <div
+              style={{
+                marginTop: 22,
+                padding: '14px 16px',
+                border: '1px solid #FF4D6D',
+                background: 'rgba(255,77,109,.08)',
+                color: '#FF9AAF',
+                fontSize: 13,
+              }}>
+              Tu n'as aucun deck. Crée-en un dans « Mes Decks » pour affronter le bot.
+            </div>
+          ) : (
+            <>
+              <div style={{ marginTop: 22, display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 12 }}>
+                <div>
+                  <label style={LABEL_STYLE}>Ton deck</label>
+                  <select
+                    value={deckId ?? ''}
+                    onChange={(e) => setDeckId(Number(e.target.value))}
+                    style={SELECT_STYLE}>
+                    {decks.map((d) => (
+                      <option key={d.id} value={d.id}>
+                        {d.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label style={LABEL_STYLE}>Deck du bot</label>
+                  <select
+                    value={botDeckId ?? ''}
+                    onChange={(e) => setBotDeckId(Number(e.target.value))}
+                    style={SELECT_STYLE}>
+                    <optgroup label="Mes decks">
+                      {decks.map((d) => (
+                        <option key={d.id} value={d.id}>
+                          {d.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                    {publicDecks.length > 0 && (
+                      <optgroup label="Decks publics">
+                        {publicDecks.map((d) => (
+                          <option key={d.id} value={d.id}>
+                            {d.name}
+                            {d.user?.username ? ` · @${d.user.username}` : ''}
+                          </option>
+                        ))}
+                      </optgroup>
+                    )}
+                  </select>
+                </div>
+              </div>
+
+              {policies.length > 0 && (
+                <div style={{ marginTop: 20 }}>
+                  <label style={LABEL_STYLE}>Style de jeu</label>
+                  <div style={{ display: 'grid', gridTemplateColumns: `repeat(${policies.length}, 1fr)`, gap: 8 }}>
+                    {policies.map((p) => (
+                      <button key={p.id} type="button" onClick={() => setPolicy(p.id)} style={choiceStyle(policy === p.id)}>
+                        <span style={{ fontSize: 12, fontWeight: 700, letterSpacing: '0.1em', textTransform: 'uppercase' }}>
+                          {p.label}
+                        </span>
+                        <span style={{ fontSize: 10, color: policy === p.id ? '#F5EFE0' : '#A99C86', letterSpacing: '0.05em' }}>
+                          {p.description}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div style={{ marginTop: 20 }}>
+                <label style={LABEL_STYLE}>Qui commence</label>
+                <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 8 }}>
+                  {(
+                    [
+                      { id: 'random', label: 'Au hasard' },
+                      { id: 'me', label: 'Moi' },
+                      { id: 'bot', label: 'Le bot' },
+                    ] as const
+                  ).map((o) => (
+                    <button key={o.id} type="button" onClick={() => setFirstPlayer(o.id)} style={choiceStyle(firstPlayer === o.id)}>
+                      <span style={{ fontSize: 11, fontWeight: 700, letterSpacing: '0.1em', textTransform: 'uppercase' }}>
+                        {o.label}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div style={{ marginTop: 20 }}>
+                <label style={LABEL_STYLE}>Regles du duel</label>
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8 }}>
+                  {(['standard', 'free'] as const).map((mode) => (
+                    <button key={mode} type="button" onClick={() => setRulesMode(mode)} style={choiceStyle(rulesMode === mode)}>
+                      <span style={{ fontSize: 11, fontWeight: 700, letterSpacing: '0.1em', textTransform: 'uppercase' }}>
+                        {mode === 'standard' ? 'Standard' : 'Libre'}
+                      </span>
+                      <span style={{ fontSize: 10, color: '#A99C86', letterSpacing: '0.05em' }}>
+                        {mode === 'standard' ? 'Banlist TCG · max 3' : 'Aucune restriction'}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+
+          {/* Actions */}
+          <div style={{ marginTop: 26, display: 'flex', gap: 12, justifyContent: 'flex-end', flexWrap: 'wrap' }}>
+            <button
+              onClick={onClose}
+              disabled={submitting}
+              style={{
+                height: 44,
+                padding: '0 20px',
+                background: 'transparent',
+                border: '1px solid #3A2E1C',
+                color: '#A99C86',
+                fontFamily: "'Orbitron', sans-serif",
+                fontSize: 11,
+                letterSpacing: '0.14em',
+                textTransform: 'uppercase',
+                fontWeight: 700,
+                cursor: submitting ? 'not-allowed' : 'pointer',
+                clipPath: CUT_SM,
+              }}>
+              Annuler
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={blocked}
+              style={{
+                height: 46,
+                padding: '0 24px',
+                position: 'relative',
+                isolation: 'isolate',
+                border: 0,
+                background: 'transparent',
+                color: '#0B0906',
+                fontFamily: "'Orbitron', sans-serif",
+                fontWeight: 700,
+                fontSize: 12,
+                letterSpacing: '0.14em',
+                textTransform: 'uppercase',
+                cursor: blocked ? 'not-allowed' : 'pointer',
+                opacity: blocked ? 0.5 : 1,
+              }}>
+              <span
+                style={{
+                  position: 'absolute',
+                  inset: 0,
+                  background: '#A855F7',
+                  transform: 'translate(5px,0)',
+                  clipPath: CUT_BTN,
+                  zIndex: -1,
+                }}
+              />
+              <span
+                style={{
+                  position: 'absolute',
+                  inset: 0,
+                  background: '#F5C518',
+                  clipPath: CUT_BTN,
+                  zIndex: -1,
+                }}
+              />
+              {submitting ? 'Ouverture…' : 'Entrer dans l’arène'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BotDuelModal;
@@ -1,8 +1,9 @@
 import { useState, useEffect, useRef } from 'react';
 import toast from 'react-hot-toast';
-import { Deck } from '../../../shared/types';
+import { Banlist, Deck } from '../../../shared/types';
 import api from '../services/api';
 import duelApi from '../services/duelApi';
+import { banlistApi } from '../services/banlistApi';
 
 const CUT_PANEL = 'polygon(0 0,calc(100% - 22px) 0,100% 22px,100% 100%,22px 100%,0 calc(100% - 22px))';
 const CUT_BTN = 'polygon(0 0,100% 0,100% 100%,95% 100%,95% 90%,85% 90%,85% 100%,8% 100%,0 70%)';
@@ -30,6 +31,9 @@ const ChallengeModal = ({ open, onClose, opponent, onSuccess }: Props) => {
   // 'standard' = banlist TCG appliquee (max 3, Limited, Forbidden).
   // 'free' = aucune restriction hors tailles minimum du deck.
   const [rulesMode, setRulesMode] = useState<'standard' | 'free'>('standard');
+  // Banlist du mode standard, figée au défi ; null = dernière liste TCG.
+  const [banlists, setBanlists] = useState<Banlist[]>([]);
+  const [banlistId, setBanlistId] = useState<number | null>(null);
   const deckRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -44,6 +48,7 @@ const ChallengeModal = ({ open, onClose, opponent, onSuccess }: Props) => {
       })
       .catch(() => setDecks([]))
       .finally(() => setLoading(false));
+    banlistApi.list().then(setBanlists).catch(() => setBanlists([]));
   }, [open]);
 
   useEffect(() => {
@@ -75,6 +80,7 @@ const ChallengeModal = ({ open, onClose, opponent, onSuccess }: Props) => {
         opponent_id: opponent.id,
         challenger_deck_id: selectedDeckId,
         rules_mode: rulesMode,
+        format: rulesMode === 'standard' && banlistId ? banlistId : undefined,
       });
       toast.success(`Défi envoyé à @${opponent.username}`);
       onClose();
@@ -347,7 +353,7 @@ const ChallengeModal = ({ open, onClose, opponent, onSuccess }: Props) => {
                 const label = mode === 'standard' ? 'Standard' : 'Libre';
                 const desc =
                   mode === 'standard'
-                    ? 'Banlist TCG · max 3'
+                    ? 'Banlist · max 3'
                     : 'Aucune restriction';
                 return (
                   <button
@@ -390,6 +396,29 @@ const ChallengeModal = ({ open, onClose, opponent, onSuccess }: Props) => {
                 );
               })}
             </div>
+            {rulesMode === 'standard' && banlists.length > 0 && (
+              <select
+                value={banlistId ?? ''}
+                onChange={(e) => setBanlistId(e.target.value ? Number(e.target.value) : null)}
+                style={{
+                  marginTop: 8,
+                  width: '100%',
+                  height: 36,
+                  padding: '0 10px',
+                  background: '#1A1510',
+                  border: '1px solid #3A2E1C',
+                  color: '#F5EFE0',
+                  fontFamily: "'Orbitron', sans-serif",
+                  fontSize: 11,
+                }}>
+                <option value="">Banlist TCG actuelle</option>
+                {banlists.map((b) => (
+                  <option key={b.id} value={b.id}>
+                    {b.name}
+                  </option>
+                ))}
+              </select>
+            )}
           </div>
 
           {/* Actions */}
@@ -0,0 +1,335 @@
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import api from '../services/api';
+
+interface CollectionImportModalProps {
+  open: boolean;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+type RowStatus = 'new' | 'increment' | 'unresolved' | 'invalid';
+
+interface ImportRow {
+  line: number;
+  status: RowStatus;
+  set_code?: string;
+  rarity?: string;
+  language?: string;
+  condition?: string | null;
+  edition?: string | null;
+  quantity?: number;
+  card?: { id: number; card_id: string; name: string };
+  current_quantity?: number;
+  new_quantity?: number;
+  error?: string;
+}
+
+interface ImportResult {
+  dry_run: boolean;
+  summary: Record<RowStatus, number>;
+  written: number;
+  rows: ImportRow[];
+}
+
+const CUT_SM = 'polygon(6px 0,100% 0,100% calc(100% - 6px),calc(100% - 6px) 100%,0 100%,0 6px)';
+const CUT_MODAL = 'polygon(0 0,calc(100% - 20px) 0,100% 20px,100% 100%,20px 100%,0 calc(100% - 20px))';
+
+const STATUS_META: Record<RowStatus, { label: string; color: string }> = {
+  new: { label: 'Nouvelle', color: 'var(--success)' },
+  increment: { label: 'Quantité +', color: 'var(--gold)' },
+  unresolved: { label: 'Introuvable', color: 'var(--violet-soft)' },
+  invalid: { label: 'Invalide', color: 'var(--danger)' },
+};
+
+/**
+ * Import CSV de la collection en deux temps : aperçu (dry-run) ligne par
+ * ligne, puis confirmation qui écrit les lignes résolues en une transaction.
+ */
+const CollectionImportModal = ({ open, onClose, onImported }: CollectionImportModalProps) => {
+  const [content, setContent] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setContent('');
+      setFileName('');
+      setPreview(null);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', onKey);
+    return () => document.removeEventListener('keydown', onKey);
+  }, [open, onClose]);
+
+  if (!open) return null;
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setFileName(file.name);
+    setContent(await file.text());
+    setPreview(null);
+  };
+
+  const run = async (dryRun: boolean) => {
+    if (!content.trim()) {
+      toast.error('Choisis un fichier CSV');
+      return;
+    }
+    setLoading(true);
+    try {
+      const { data } = await api.post<ImportResult>('/collection/import', { content, dry_run: dryRun });
+      if (dryRun) {
+        setPreview(data);
+      } else {
+        toast.success(`${data.written} ligne${data.written > 1 ? 's' : ''} importée${data.written > 1 ? 's' : ''}`);
+        onImported();
+        onClose();
+      }
+    } catch {
+      // toast déjà émis par l'intercepteur axios
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const writable = preview ? preview.summary.new + preview.summary.increment : 0;
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="collection-import-title"
+      onClick={onClose}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(3,2,1,.86)',
+        backdropFilter: 'blur(8px)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 100,
+        padding: 16,
+      }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          background: 'linear-gradient(160deg,var(--panel),var(--bg))',
+          border: '1px solid var(--border)',
+          boxShadow: '0 40px 80px rgba(0,0,0,.6),0 0 60px rgba(245,197,24,.08)',
+          padding: 32,
+          maxWidth: 760,
+          width: '100%',
+          maxHeight: '90vh',
+          overflowY: 'auto',
+          clipPath: CUT_MODAL,
+        }}
+      >
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
+          <div>
+            <div
+              style={{
+                fontFamily: "'Cormorant Garamond', serif",
+                fontStyle: 'italic',
+                fontSize: 11,
+                letterSpacing: '0.3em',
+                color: 'var(--gold)',
+                textTransform: 'uppercase',
+              }}
+            >
+              — Import en masse —
+            </div>
+            <h2
+              id="collection-import-title"
+              style={{
+                margin: '6px 0 0',
+                fontFamily: "'Orbitron', sans-serif",
+                fontSize: 22,
+                fontWeight: 900,
+                letterSpacing: '0.04em',
+                textTransform: 'uppercase',
+                color: 'var(--text)',
+              }}
+            >
+              Importer un CSV
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Fermer"
+            style={{
+              background: 'transparent',
+              border: 0,
+              color: 'var(--text-muted)',
+              fontSize: 26,
+              cursor: 'pointer',
+              lineHeight: 1,
+            }}
+          >
+            ×
+          </button>
+        </div>
+
+        <p
+          style={{
+            margin: '14px 0 18px',
+            padding: '12px 14px',
+            background: 'rgba(168,85,247,.08)',
+            borderLeft: '3px solid var(--violet)',
+            fontFamily: "'Rajdhani', sans-serif",
+            fontSize: 13,
+            lineHeight: 1.5,
+            color: 'var(--text-muted)',
+          }}
+        >
+          Colonnes : <code>set_code</code>, <code>rarity</code>, <code>language</code>,{' '}
+          <code>quantity</code>, <code>condition</code> et <code>edition</code> (facultatives). Les
+          quantités s'ajoutent à celles déjà en collection.
+        </p>
+
+        <label
+          style={{
+            display: 'inline-flex',
+            alignItems: 'center',
+            gap: 10,
+            padding: '10px 16px',
+            border: '1px solid var(--border)',
+            background: 'var(--bg-elev)',
+            color: 'var(--text)',
+            fontFamily: "'Orbitron', sans-serif",
+            fontSize: 11,
+            letterSpacing: '0.12em',
+            textTransform: 'uppercase',
+            cursor: 'pointer',
+            clipPath: CUT_SM,
+          }}
+        >
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            style={{ display: 'none' }}
+          />
+          {fileName || 'Choisir un fichier'}
+        </label>
+
+        {preview && (
+          <div style={{ marginTop: 20 }}>
+            <div style={{ display: 'flex', gap: 14, flexWrap: 'wrap', marginBottom: 12 }}>
+              {(Object.keys(STATUS_META) as RowStatus[]).map((s) => (
+                <span
+                  key={s}
+                  style={{
+                    fontFamily: "'Orbitron', sans-serif",
+                    fontSize: 11,
+                    letterSpacing: '0.08em',
+                    color: STATUS_META[s].color,
+                  }}
+                >
+                  {STATUS_META[s].label} : {preview.summary[s]}
+                </span>
+              ))}
+            </div>
+            <div style={{ maxHeight: 320, overflowY: 'auto', border: '1px solid var(--border)' }}>
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 13 }}>
+                <thead>
+                  <tr style={{ color: 'var(--text-muted)', textAlign: 'left' }}>
+                    <th style={{ padding: '6px 8px' }}>Ligne</th>
+                    <th style={{ padding: '6px 8px' }}>Carte</th>
+                    <th style={{ padding: '6px 8px' }}>Rareté</th>
+                    <th style={{ padding: '6px 8px' }}>Quantité</th>
+                    <th style={{ padding: '6px 8px' }}>Statut</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.map((r) => (
+                    <tr key={r.line} style={{ borderTop: '1px solid var(--border)', color: 'var(--text)' }}>
+                      <td style={{ padding: '6px 8px', color: 'var(--text-dim)' }}>{r.line}</td>
+                      <td style={{ padding: '6px 8px' }}>
+                        {r.card?.name || r.set_code || '—'}
+                        {r.card && (
+                          <div style={{ fontSize: 11, color: 'var(--text-dim)' }}>
+                            {r.set_code} · {r.language}
+                            {r.condition ? ` · ${r.condition}` : ''}
+                            {r.edition ? ` · ${r.edition}` : ''}
+                          </div>
+                        )}
+                      </td>
+                      <td style={{ padding: '6px 8px' }}>{r.rarity || '—'}</td>
+                      <td style={{ padding: '6px 8px' }}>
+                        {r.new_quantity !== undefined
+                          ? `${r.current_quantity} → ${r.new_quantity}`
+                          : r.quantity ?? '—'}
+                      </td>
+                      <td style={{ padding: '6px 8px', color: STATUS_META[r.status].color }}>
+                        {STATUS_META[r.status].label}
+                        {r.error && (
+                          <div style={{ fontSize: 11, color: 'var(--text-muted)' }}>{r.error}</div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <div style={{ display: 'flex', gap: 10, marginTop: 22 }}>
+          <button
+            onClick={() => run(true)}
+            disabled={loading || !content}
+            style={{
+              flex: 1,
+              height: 44,
+              background: 'var(--bg-elev)',
+              color: 'var(--text)',
+              border: '1px solid var(--border)',
+              fontFamily: "'Orbitron', sans-serif",
+              fontSize: 11,
+              letterSpacing: '0.12em',
+              textTransform: 'uppercase',
+              cursor: loading || !content ? 'not-allowed' : 'pointer',
+              opacity: loading || !content ? 0.6 : 1,
+              clipPath: CUT_SM,
+            }}
+          >
+            {loading && !preview ? 'Analyse...' : 'Aperçu'}
+          </button>
+          <button
+            onClick={() => run(false)}
+            disabled={loading || !preview || writable === 0}
+            style={{
+              flex: 1,
+              height: 44,
+              background: 'var(--gold)',
+              color: 'var(--bg)',
+              border: 0,
+              fontFamily: "'Orbitron', sans-serif",
+              fontSize: 11,
+              fontWeight: 700,
+              letterSpacing: '0.12em',
+              textTransform: 'uppercase',
+              cursor: loading || !preview || writable === 0 ? 'not-allowed' : 'pointer',
+              opacity: loading || !preview || writable === 0 ? 0.6 : 1,
+              clipPath: CUT_SM,
+            }}
+          >
+            {preview ? `Importer ${writable} ligne${writable > 1 ? 's' : ''}` : 'Importer'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CollectionImportModal;
@@ -0,0 +1,215 @@
+import { useEffect, useState } from 'react';
+import api from '../services/api';
+import type { CollectionValuePoint, PriceMover } from '../../../shared/types';
+
+interface ValueHistoryResponse {
+  days: number;
+  history: CollectionValuePoint[];
+  gainers: PriceMover[];
+  losers: PriceMover[];
+}
+
+const PERIODS = [
+  { days: 30, label: '30 j' },
+  { days: 90, label: '90 j' },
+  { days: 365, label: '1 an' },
+];
+
+const CUT_PANEL = 'polygon(0 0,100% 0,100% calc(100% - 14px),calc(100% - 14px) 100%,14px 100%,0 calc(100% - 14px))';
+const CUT_CHIP = 'polygon(0 0,calc(100% - 8px) 0,100% 100%,8px 100%)';
+
+const CHART_W = 640;
+const CHART_H = 160;
+
+const eur = (n: number) =>
+  n.toLocaleString('fr-FR', { style: 'currency', currency: 'EUR', maximumFractionDigits: 2 });
+
+/** Courbe SVG maison — pas de lib de graphes pour une seule courbe. */
+const ValueChart = ({ points }: { points: CollectionValuePoint[] }) => {
+  const values = points.map((p) => p.total_value_eur);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+  const x = (i: number) => (points.length === 1 ? CHART_W / 2 : (i / (points.length - 1)) * CHART_W);
+  const y = (v: number) => CHART_H - 8 - ((v - min) / span) * (CHART_H - 16);
+  const line = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(i).toFixed(1)},${y(p.total_value_eur).toFixed(1)}`).join(' ');
+  const area = `${line} L${x(points.length - 1).toFixed(1)},${CHART_H} L${x(0).toFixed(1)},${CHART_H} Z`;
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_W} ${CHART_H}`}
+      preserveAspectRatio="none"
+      role="img"
+      aria-label="Évolution de la valeur de la collection"
+      style={{ width: '100%', height: CHART_H, display: 'block' }}>
+      <defs>
+        <linearGradient id="collection-value-fill" x1="0" y1="0" x2="0" y2="1">
+          <stop offset="0%" stopColor="var(--gold)" stopOpacity={0.35} />
+          <stop offset="100%" stopColor="var(--gold)" stopOpacity={0} />
+        </linearGradient>
+      </defs>
+      <path d={area} fill="url(#collection-value-fill)" />
+      <path d={line} fill="none" stroke="var(--gold)" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+};
+
+const MoverList = ({ title, movers, color }: { title: string; movers: PriceMover[]; color: string }) => (
+  <div style={{ flex: 1, minWidth: 220 }}>
+    <div
+      style={{
+        fontFamily: "'Orbitron', sans-serif",
+        fontSize: 9,
+        letterSpacing: '0.2em',
+        textTransform: 'uppercase',
+        color: 'var(--text-muted)',
+        marginBottom: 8,
+      }}>
+      {title}
+    </div>
+    {movers.length === 0 ? (
+      <div style={{ fontSize: 13, color: 'var(--text-dim)' }}>—</div>
+    ) : (
+      movers.map((m) => (
+        <div key={m.card_id} style={{ display: 'flex', alignItems: 'center', gap: 10, padding: '5px 0' }}>
+          {m.image_url_small && (
+            <img src={m.image_url_small} alt="" style={{ width: 24, height: 35, objectFit: 'cover' }} />
+          )}
+          <div style={{ flex: 1, minWidth: 0 }}>
+            <div
+              style={{
+                fontSize: 13,
+                color: 'var(--text)',
+                whiteSpace: 'nowrap',
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+              }}>
+              {m.name}
+            </div>
+            <div style={{ fontSize: 11, color: 'var(--text-dim)' }}>
+              {eur(m.old_price_eur)} → {eur(m.new_price_eur)} × {m.quantity}
+            </div>
+          </div>
+          <div style={{ fontFamily: "'Orbitron', sans-serif", fontSize: 12, color }}>
+            {m.delta_eur > 0 ? '+' : ''}
+            {eur(m.delta_eur)}
+          </div>
+        </div>
+      ))
+    )}
+  </div>
+);
+
+/**
+ * Valeur de la collection dans le temps (photo quotidienne côté serveur) et
+ * cartes qui ont le plus fait bouger l'aiguille sur la période.
+ */
+const CollectionValuePanel = () => {
+  const [days, setDays] = useState(90);
+  const [data, setData] = useState<ValueHistoryResponse | null>(null);
+
+  useEffect(() => {
+    api
+      .get<ValueHistoryResponse>('/collection/value-history', { params: { days } })
+      .then((r) => setData(r.data))
+      .catch(() => setData(null));
+  }, [days]);
+
+  const history = data?.history || [];
+  const first = history[0]?.total_value_eur ?? 0;
+  const last = history[history.length - 1]?.total_value_eur ?? 0;
+  const delta = last - first;
+  const deltaPct = first > 0 ? (delta / first) * 100 : 0;
+
+  return (
+    <div
+      style={{
+        marginTop: 30,
+        padding: '20px 22px',
+        background: 'linear-gradient(135deg,var(--panel),var(--panel-2))',
+        border: '1px solid var(--border)',
+        clipPath: CUT_PANEL,
+      }}>
+      <div style={{ display: 'flex', alignItems: 'flex-start', gap: 12, flexWrap: 'wrap' }}>
+        <div style={{ flex: 1 }}>
+          <div
+            style={{
+              fontFamily: "'Orbitron', sans-serif",
+              fontSize: 9,
+              letterSpacing: '0.2em',
+              color: 'var(--text-muted)',
+              textTransform: 'uppercase',
+            }}>
+            Valeur de la collection
+          </div>
+          <div style={{ display: 'flex', alignItems: 'baseline', gap: 12, marginTop: 4 }}>
+            <span
+              style={{
+                fontFamily: "'Orbitron', sans-serif",
+                fontSize: 26,
+                fontWeight: 700,
+                color: 'var(--text)',
+                fontVariantNumeric: 'tabular-nums',
+              }}>
+              {eur(last)}
+            </span>
+            {history.length > 1 && (
+              <span
+                style={{
+                  fontFamily: "'Orbitron', sans-serif",
+                  fontSize: 12,
+                  color: delta >= 0 ? 'var(--success)' : 'var(--danger)',
+                }}>
+                {delta >= 0 ? '+' : ''}
+                {eur(delta)} ({deltaPct >= 0 ? '+' : ''}
+                {deltaPct.toFixed(1)} %)
+              </span>
+            )}
+          </div>
+        </div>
+        <div style={{ display: 'flex', gap: 6 }}>
+          {PERIODS.map((p) => {
+            const on = p.days === days;
+            return (
+              <button
+                key={p.days}
+                onClick={() => setDays(p.days)}
+                style={{
+                  padding: '6px 14px',
+                  border: 0,
+                  background: on ? 'var(--gold)' : 'var(--bg-elev)',
+                  color: on ? 'var(--bg)' : 'var(--text-muted)',
+                  fontFamily: "'Orbitron', sans-serif",
+                  fontSize: 10,
+                  letterSpacing: '0.12em',
+                  cursor: 'pointer',
+                  clipPath: CUT_CHIP,
+                }}>
+                {p.label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div style={{ marginTop: 16 }}>
+        {history.length === 0 ? (
+          <div style={{ padding: '30px 0', textAlign: 'center', fontSize: 13, color: 'var(--text-dim)' }}>
+            Pas encore d'historique — la valeur est relevée une fois par jour.
+          </div>
+        ) : (
+          <ValueChart points={history} />
+        )}
+      </div>
+
+      {data && (data.gainers.length > 0 || data.losers.length > 0) && (
+        <div style={{ marginTop: 18, display: 'flex', gap: 24, flexWrap: 'wrap' }}>
+          <MoverList title="Plus fortes hausses" movers={data.gainers} color="var(--success)" />
+          <MoverList title="Plus fortes baisses" movers={data.losers} color="var(--danger)" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CollectionValuePanel;
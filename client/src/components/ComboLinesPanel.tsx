@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import api from '../services/api';
+import GoldfishModal from './GoldfishModal';
+import type { Deck, DeckComboLine } from '../../../shared/types';
+
+const CUT_PANEL =
+  'polygon(0 0,calc(100% - 18px) 0,100% 18px,100% 100%,0 100%)';
+const CUT_SM = 'polygon(6px 0,100% 0,100% calc(100% - 6px),calc(100% - 6px) 100%,0 100%,0 6px)';
+
+const buttonStyle = {
+  padding: '5px 10px',
+  background: 'transparent',
+  color: 'var(--text-muted)',
+  border: '1px solid var(--border)',
+  fontSize: 11,
+  cursor: 'pointer',
+  clipPath: CUT_SM,
+};
+
+interface ComboLinesPanelProps {
+  deck: Deck;
+  /** Utilisateur connecté, s'il y en a un. */
+  userId?: number;
+}
+
+/**
+ * Lignes de combo enregistrées depuis le labo goldfish : chacune se revoit
+ * pas à pas, avec la même graine, la même main et les mêmes décisions. Tout
+ * le monde peut les revoir ; on les enregistre depuis le labo (propriétaire
+ * du deck), qu'on ouvre d'ici.
+ */
+export default function ComboLinesPanel({ deck, userId }: ComboLinesPanelProps) {
+  const navigate = useNavigate();
+  const [lines, setLines] = useState<DeckComboLine[]>([]);
+  const [labOpen, setLabOpen] = useState(false);
+
+  useEffect(() => {
+    if (!userId) return;
+    api
+      .get<{ lines: DeckComboLine[] }>(`/decks/${deck.id}/combo-lines`)
+      .then((r) => setLines(r.data.lines))
+      .catch(() => setLines([]));
+  }, [deck.id, userId]);
+
+  const remove = async (line: DeckComboLine) => {
+    try {
+      await api.delete(`/decks/${deck.id}/combo-lines/${line.id}`);
+      setLines((prev) => prev.filter((l) => l.id !== line.id));
+    } catch {
+      // toast déjà émis par l'intercepteur axios
+    }
+  };
+
+  if (!userId) return null;
+
+  return (
+    <div
+      style={{
+        background: 'var(--panel)',
+        border: '1px solid var(--border)',
+        clipPath: CUT_PANEL,
+        padding: '18px 20px',
+      }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 10, marginBottom: 12 }}>
+        <h3
+          style={{
+            fontFamily: "'Orbitron', sans-serif",
+            fontSize: 12,
+            fontWeight: 700,
+            letterSpacing: '0.16em',
+            textTransform: 'uppercase',
+            color: 'var(--gold)',
+            margin: 0,
+          }}>
+          Lignes de combo
+        </h3>
+        <span style={{ flex: 1, height: 1, background: 'var(--border)' }} />
+        <button onClick={() => setLabOpen(true)} style={{ ...buttonStyle, color: 'var(--gold)', borderColor: 'var(--gold)' }}>
+          Ouvrir le labo
+        </button>
+      </div>
+
+      {lines.length === 0 && (
+        <p style={{ fontSize: 12, color: 'var(--text-dim)', margin: 0 }}>
+          Déroule tes combos sur le vrai moteur face à un adversaire qui ne joue rien, puis enregistre les lignes qui
+          marchent.
+        </p>
+      )}
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+        {lines.map((line) => (
+          <div
+            key={line.id}
+            style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 12, borderTop: '1px solid rgba(58,46,28,.6)', paddingTop: 6 }}>
+            <span style={{ color: 'var(--text)', fontSize: 13 }}>{line.name}</span>
+            <span style={{ color: 'var(--text-muted)' }}>
+              {line.decisions} décision{line.decisions > 1 ? 's' : ''} · {line.go_first ? 'en premier' : 'en second'}
+              {line.opening_hand.length > 0 ? ` · main choisie (${line.opening_hand.length})` : ''} · @{line.user.username}
+            </span>
+            <span style={{ flex: 1 }} />
+            <button onClick={() => navigate(`/decks/${deck.id}/combo-lines/${line.id}`)} style={buttonStyle}>
+              Revoir
+            </button>
+            {(deck.user_id === userId || line.user.id === userId) && (
+              <button
+                onClick={() => remove(line)}
+                title="Supprimer cette ligne"
+                style={{ background: 'transparent', border: 0, color: 'var(--text-dim)', cursor: 'pointer' }}>
+                ×
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <GoldfishModal open={labOpen} onClose={() => setLabOpen(false)} deck={deck} />
+    </div>
+  );
+}
@@ -0,0 +1,351 @@
+import { useEffect, useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+import api from '../services/api';
+import { formatOdds } from '../utils/drawOdds';
+import type {
+  Deck,
+  DeckCardRole,
+  DeckConsistency,
+  DeckConsistencySample,
+  DeckConsistencyScenario,
+} from '../../../shared/types';
+
+const CUT_PANEL =
+  'polygon(0 0,calc(100% - 18px) 0,100% 18px,100% 100%,0 100%)';
+const CUT_SM = 'polygon(6px 0,100% 0,100% calc(100% - 6px),calc(100% - 6px) 100%,0 100%,0 6px)';
+
+const ROLES: Array<{ id: DeckCardRole; short: string; label: string; color: string }> = [
+  { id: 'starter', short: 'S', label: 'Starter', color: 'var(--gold)' },
+  { id: 'extender', short: 'E', label: 'Extender', color: 'var(--cyan)' },
+  { id: 'handtrap', short: 'HT', label: 'Hand-trap', color: 'var(--violet)' },
+  { id: 'brick', short: 'B', label: 'Brique', color: 'var(--danger)' },
+];
+
+const buttonStyle = {
+  padding: '5px 10px',
+  background: 'transparent',
+  color: 'var(--text-muted)',
+  border: '1px solid var(--border)',
+  fontSize: 11,
+  cursor: 'pointer',
+  clipPath: CUT_SM,
+};
+
+const headStyle = {
+  fontFamily: "'Orbitron', sans-serif",
+  fontSize: 9,
+  letterSpacing: '0.16em',
+  textTransform: 'uppercase' as const,
+  color: 'var(--text-dim)',
+  fontWeight: 400,
+};
+
+interface ConsistencyPanelProps {
+  deck: Deck;
+  isOwner: boolean;
+}
+
+/**
+ * Consistance de la main de départ : le propriétaire donne un rôle aux cartes
+ * du Main et décrit les mains qu'il veut ouvrir, le serveur calcule les
+ * probabilités exactes en premier (5 cartes) et en second (6). Le tirage
+ * Monte-Carlo sert de contre-épreuve et montre des mains d'exemple.
+ */
+export default function ConsistencyPanel({ deck, isOwner }: ConsistencyPanelProps) {
+  const [analysis, setAnalysis] = useState<DeckConsistency | null>(null);
+  const [sample, setSample] = useState<DeckConsistencySample | null>(null);
+  const [sampling, setSampling] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [draftRoles, setDraftRoles] = useState<Record<number, DeckCardRole[]>>({});
+  const [newScenario, setNewScenario] = useState<{ label: string; mins: Partial<Record<DeckCardRole, number>>; noBrick: boolean }>({
+    label: '',
+    mins: {},
+    noBrick: false,
+  });
+
+  const mainCards = useMemo(() => {
+    const byId = new Map<number, { card_id: number; name: string; quantity: number }>();
+    for (const dc of deck.main_deck || []) {
+      const cur = byId.get(dc.card_id);
+      if (cur) cur.quantity += dc.quantity;
+      else byId.set(dc.card_id, { card_id: dc.card_id, name: dc.card?.name || `Carte #${dc.card_id}`, quantity: dc.quantity });
+    }
+    return [...byId.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }, [deck.main_deck]);
+
+  useEffect(() => {
+    setSample(null);
+    api
+      .get<DeckConsistency>(`/decks/${deck.id}/consistency`)
+      .then((r) => setAnalysis(r.data))
+      .catch(() => setAnalysis(null));
+  }, [deck.id, deck.updated_at]);
+
+  useEffect(() => {
+    if (!editing || !analysis) return;
+    setDraftRoles(Object.fromEntries(analysis.roles.map((r) => [r.card_id, r.roles])));
+  }, [editing, analysis]);
+
+  const save = async (body: { roles?: Array<{ card_id: number; roles: DeckCardRole[] }>; scenarios?: DeckConsistencyScenario[] | null }) => {
+    try {
+      const r = await api.put<DeckConsistency>(`/decks/${deck.id}/consistency`, body);
+      setAnalysis(r.data);
+      setSample(null);
+      return true;
+    } catch {
+      // toast déjà émis par l'intercepteur axios
+      return false;
+    }
+  };
+
+  const saveRoles = async () => {
+    const roles = mainCards.map((c) => ({ card_id: c.card_id, roles: draftRoles[c.card_id] || [] }));
+    if (await save({ roles })) {
+      setEditing(false);
+      toast.success('Rôles enregistrés');
+    }
+  };
+
+  const toggleRole = (cardId: number, role: DeckCardRole) =>
+    setDraftRoles((prev) => {
+      const cur = prev[cardId] || [];
+      return { ...prev, [cardId]: cur.includes(role) ? cur.filter((r) => r !== role) : [...cur, role] };
+    });
+
+  const addScenario = async () => {
+    if (!analysis) return;
+    const requirements = [
+      ...ROLES.filter((r) => newScenario.mins[r.id]).map((r) => ({ role: r.id, min: newScenario.mins[r.id]! })),
+      ...(newScenario.noBrick ? [{ role: 'brick' as const, max: 0 }] : []),
+    ];
+    if (!newScenario.label.trim() || requirements.length === 0) {
+      toast.error('Donne un nom et au moins une condition');
+      return;
+    }
+    if (await save({ scenarios: [...analysis.scenarios, { label: newScenario.label.trim(), requirements }] })) {
+      setNewScenario({ label: '', mins: {}, noBrick: false });
+    }
+  };
+
+  const removeScenario = (index: number) => {
+    if (!analysis) return;
+    const rest = analysis.scenarios.filter((_, i) => i !== index);
+    save({ scenarios: rest.length > 0 ? rest : null });
+  };
+
+  const simulate = async () => {
+    setSampling(true);
+    try {
+      const r = await api.get<DeckConsistencySample>(`/decks/${deck.id}/consistency/sample`, { params: { trials: 10000 } });
+      setSample(r.data);
+    } catch {
+      // toast déjà émis par l'intercepteur axios
+    } finally {
+      setSampling(false);
+    }
+  };
+
+  if (!analysis || analysis.deck_size === 0) return null;
+
+  const hasRoles = analysis.roles.length > 0;
+  const roleOf = (id: DeckCardRole) => ROLES.find((r) => r.id === id)!;
+
+  return (
+    <div
+      style={{
+        background: 'var(--panel)',
+        border: '1px solid var(--border)',
+        clipPath: CUT_PANEL,
+        padding: '18px 20px',
+      }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 10, marginBottom: 12 }}>
+        <h3
+          style={{
+            fontFamily: "'Orbitron', sans-serif",
+            fontSize: 12,
+            fontWeight: 700,
+            letterSpacing: '0.16em',
+            textTransform: 'uppercase',
+            color: 'var(--gold)',
+            margin: 0,
+          }}>
+          Consistance
+        </h3>
+        <span style={{ flex: 1, height: 1, background: 'var(--border)' }} />
+      </div>
+
+      <div style={{ fontSize: 12, color: 'var(--text-muted)', marginBottom: 10 }}>
+        {ROLES.map((r) => `${analysis.role_counts[r.id]} ${r.label.toLowerCase()}`).join(' · ')} sur {analysis.deck_size}
+      </div>
+
+      {!hasRoles && (
+        <p style={{ fontSize: 12, color: 'var(--text-dim)', margin: '0 0 10px' }}>
+          {isOwner ? 'Donne un rôle à tes cartes pour calculer tes ouvertures.' : "Le propriétaire n'a pas encore donné de rôle aux cartes."}
+        </p>
+      )}
+
+      {hasRoles && (
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 13 }}>
+          <thead>
+            <tr>
+              <th style={{ ...headStyle, textAlign: 'left' }}>Main de départ</th>
+              <th style={{ ...headStyle, textAlign: 'right' }}>1er</th>
+              <th style={{ ...headStyle, textAlign: 'right' }}>2e</th>
+              {isOwner && !analysis.default_scenarios && <th />}
+            </tr>
+          </thead>
+          <tbody>
+            {analysis.results.map((res, i) => {
+              const simulated = sample?.results[i];
+              return (
+                <tr key={`${res.label}-${i}`} style={{ borderTop: '1px solid rgba(58,46,28,.6)' }}>
+                  <td style={{ padding: '6px 0', color: 'var(--text)' }}>{res.label}</td>
+                  {(['going_first', 'going_second'] as const).map((k) => (
+                    <td key={k} style={{ textAlign: 'right', fontVariantNumeric: 'tabular-nums', color: 'var(--gold)' }}>
+                      {formatOdds(res[k])}
+                      {simulated && (
+                        <div style={{ fontSize: 10, color: 'var(--text-dim)' }}>≈ {formatOdds(simulated[k])}</div>
+                      )}
+                    </td>
+                  ))}
+                  {isOwner && !analysis.default_scenarios && (
+                    <td style={{ textAlign: 'right' }}>
+                      <button
+                        onClick={() => removeScenario(i)}
+                        title="Supprimer ce scénario"
+                        style={{ background: 'transparent', border: 0, color: 'var(--text-dim)', cursor: 'pointer' }}>
+                        ×
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginTop: 12 }}>
+        {hasRoles && (
+          <button onClick={simulate} disabled={sampling} style={{ ...buttonStyle, opacity: sampling ? 0.6 : 1 }}>
+            {sampling ? 'Simulation…' : 'Simuler 10 000 mains'}
+          </button>
+        )}
+        {isOwner && (
+          <button onClick={() => setEditing(!editing)} style={{ ...buttonStyle, color: 'var(--gold)', borderColor: 'var(--gold)' }}>
+            {editing ? 'Fermer' : 'Rôles et scénarios'}
+          </button>
+        )}
+      </div>
+
+      {sample && sample.hands.length > 0 && (
+        <div style={{ marginTop: 12, display: 'flex', flexDirection: 'column', gap: 6 }}>
+          <div style={headStyle}>Mains tirées ({sample.trials.toLocaleString('fr-FR')} essais)</div>
+          {sample.hands.map((hand, i) => (
+            <div key={i} style={{ fontSize: 12, color: 'var(--text-muted)' }}>
+              <span style={{ color: 'var(--text-dim)' }}>{hand.going_first ? '1er' : '2e'} · </span>
+              {hand.cards.map((c, j) => (
+                <span key={j}>
+                  {j > 0 && ', '}
+                  <span style={{ color: c.roles[0] ? roleOf(c.roles[0]).color : 'var(--text-muted)' }}>{c.name}</span>
+                </span>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editing && (
+        <div style={{ marginTop: 14, paddingTop: 12, borderTop: '1px dashed var(--border)' }}>
+          <div style={{ maxHeight: 300, overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: 4 }}>
+            {mainCards.map((c) => (
+              <div key={c.card_id} style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12 }}>
+                <span style={{ flex: 1, minWidth: 0, color: 'var(--text)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {c.quantity}× {c.name}
+                </span>
+                {ROLES.map((r) => {
+                  const on = (draftRoles[c.card_id] || []).includes(r.id);
+                  return (
+                    <button
+                      key={r.id}
+                      title={r.label}
+                      onClick={() => toggleRole(c.card_id, r.id)}
+                      style={{
+                        minWidth: 28,
+                        padding: '2px 4px',
+                        background: on ? r.color : 'transparent',
+                        color: on ? 'var(--on-gold)' : 'var(--text-dim)',
+                        border: `1px solid ${on ? r.color : 'var(--border)'}`,
+                        fontSize: 10,
+                        fontWeight: 700,
+                        cursor: 'pointer',
+                      }}>
+                      {r.short}
+                    </button>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+          <button onClick={saveRoles} style={{ ...buttonStyle, marginTop: 10, color: 'var(--gold)', borderColor: 'var(--gold)' }}>
+            Enregistrer les rôles
+          </button>
+
+          <div style={{ marginTop: 16, display: 'flex', flexDirection: 'column', gap: 8 }}>
+            <div style={headStyle}>Nouveau scénario</div>
+            <input
+              value={newScenario.label}
+              onChange={(e) => setNewScenario({ ...newScenario, label: e.target.value })}
+              placeholder="2 starters + 1 hand-trap"
+              maxLength={60}
+              style={{
+                padding: '7px 10px',
+                background: 'var(--bg-sunken)',
+                border: '1px solid var(--border)',
+                color: 'var(--text)',
+                fontSize: 13,
+              }}
+            />
+            <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', fontSize: 12, color: 'var(--text-muted)' }}>
+              {ROLES.filter((r) => r.id !== 'brick').map((r) => (
+                <label key={r.id} style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                  {r.label} ≥
+                  <select
+                    value={newScenario.mins[r.id] ?? 0}
+                    onChange={(e) =>
+                      setNewScenario({ ...newScenario, mins: { ...newScenario.mins, [r.id]: Number(e.target.value) } })
+                    }
+                    style={{ background: 'var(--bg-sunken)', color: 'var(--text)', border: '1px solid var(--border)' }}>
+                    {[0, 1, 2, 3].map((n) => (
+                      <option key={n} value={n}>
+                        {n}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+              <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                <input
+                  type="checkbox"
+                  checked={newScenario.noBrick}
+                  onChange={(e) => setNewScenario({ ...newScenario, noBrick: e.target.checked })}
+                />
+                aucune brique
+              </label>
+            </div>
+            <div style={{ display: 'flex', gap: 8 }}>
+              <button onClick={addScenario} style={buttonStyle}>
+                Ajouter
+              </button>
+              {!analysis.default_scenarios && (
+                <button onClick={() => save({ scenarios: null })} style={buttonStyle}>
+                  Scénarios par défaut
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import api from '../services/api';
+import type { DeckSection, DeckVersion, DeckVersionDiff, DeckVersionSource } from '../../../shared/types';
+
+const CUT_PANEL =
+  'polygon(0 0,calc(100% - 18px) 0,100% 18px,100% 100%,0 100%)';
+const CUT_SM = 'polygon(6px 0,100% 0,100% calc(100% - 6px),calc(100% - 6px) 100%,0 100%,0 6px)';
+
+const SOURCE_LABEL: Record<DeckVersionSource, string> = {
+  initial: 'Version d\'origine',
+  edit: 'Édition',
+  replace: 'Éditeur',
+  import: 'Import .ydk',
+  clear: 'Deck vidé',
+  restore: 'Restauration',
+  fork: 'Fork',
+};
+
+const SECTION_LABEL: Record<DeckSection, string> = { main: 'Main', extra: 'Extra', side: 'Side' };
+
+const totals = (diff?: DeckVersionDiff) => {
+  let added = 0;
+  let removed = 0;
+  for (const s of Object.values(diff || {})) {
+    added += s.added.reduce((n, c) => n + c.quantity, 0);
+    removed += s.removed.reduce((n, c) => n + c.quantity, 0);
+  }
+  return { added, removed };
+};
+
+interface DeckChangelogPanelProps {
+  /** Deck consulté par id (DeckView) — active la comparaison avec la version actuelle. */
+  deckId?: number;
+  /** Deck consulté par lien de partage (DeckShare, accès invité). */
+  shareToken?: string;
+  /** Propriétaire : peut restaurer une version. */
+  canRestore?: boolean;
+  onRestored?: () => void;
+}
+
+/** Cartes ajoutées / retirées par section (changelog, comparaison, amont d'un fork). */
+export function DiffList({ diff }: { diff: DeckVersionDiff }) {
+  const sections = (Object.keys(SECTION_LABEL) as DeckSection[]).filter(
+    (s) => diff[s].added.length > 0 || diff[s].removed.length > 0
+  );
+  if (sections.length === 0) {
+    return <p style={{ fontSize: 12, color: 'var(--text-dim)', margin: '6px 0 0' }}>Aucun changement.</p>;
+  }
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 6, marginTop: 8 }}>
+      {sections.map((s) => (
+        <div key={s}>
+          <div
+            style={{
+              fontFamily: "'Orbitron', sans-serif",
+              fontSize: 9,
+              letterSpacing: '0.16em',
+              textTransform: 'uppercase',
+              color: 'var(--text-dim)',
+              marginBottom: 2,
+            }}>
+            {SECTION_LABEL[s]}
+          </div>
+          {diff[s].added.map((c) => (
+            <div key={`+${c.card_code}`} style={{ fontSize: 12, color: 'var(--success)' }}>
+              + {c.quantity}× {c.name}
+            </div>
+          ))}
+          {diff[s].removed.map((c) => (
+            <div key={`-${c.card_code}`} style={{ fontSize: 12, color: 'var(--danger)' }}>
+              − {c.quantity}× {c.name}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Historique du deck : une entrée par sauvegarde, avec les cartes ajoutées et
+ * retirées depuis la version précédente. Le propriétaire peut comparer une
+ * version au contenu actuel et la restaurer — la restauration crée elle-même
+ * une nouvelle version, rien n'est perdu.
+ */
+export default function DeckChangelogPanel({ deckId, shareToken, canRestore, onRestored }: DeckChangelogPanelProps) {
+  const [versions, setVersions] = useState<DeckVersion[] | null>(null);
+  const [open, setOpen] = useState<number | null>(null);
+  const [compare, setCompare] = useState<{ version: number; changes: DeckVersionDiff } | null>(null);
+  const [restoring, setRestoring] = useState<number | null>(null);
+
+  const url = shareToken ? `/decks/shared/${shareToken}/versions` : `/decks/${deckId}/versions`;
+
+  const load = () => {
+    api
+      .get<{ versions: DeckVersion[] }>(url)
+      .then((r) => setVersions(r.data.versions))
+      .catch(() => setVersions(null));
+  };
+
+  useEffect(load, [url]);
+
+  const compareWithCurrent = async (version: number) => {
+    if (compare?.version === version) {
+      setCompare(null);
+      return;
+    }
+    try {
+      const r = await api.get<{ changes: DeckVersionDiff }>(`/decks/${deckId}/versions/diff`, {
+        params: { from: version },
+      });
+      setCompare({ version, changes: r.data.changes });
+    } catch {
+      // toast déjà émis par l'intercepteur axios
+    }
+  };
+
+  const restore = async (version: number) => {
+    if (!window.confirm(`Restaurer la version ${version} ? Le contenu actuel restera dans l'historique.`)) return;
+    setRestoring(version);
+    try {
+      await api.post(`/decks/${deckId}/versions/${version}/restore`);
+      toast.success(`Version ${version} restaurée`);
+      setCompare(null);
+      load();
+      onRestored?.();
+    } catch {
+      // toast déjà émis par l'intercepteur axios
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  if (!versions || versions.length === 0) return null;
+
+  const latest = versions[0].version;
+
+  return (
+    <div
+      style={{
+        background: 'var(--panel)',
+        border: '1px solid var(--border)',
+        clipPath: CUT_PANEL,
+        padding: '18px 20px',
+      }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 10, marginBottom: 12 }}>
+        <h3
+          style={{
+            fontFamily: "'Orbitron', sans-serif",
+            fontSize: 12,
+            fontWeight: 700,
+            letterSpacing: '0.16em',
+            textTransform: 'uppercase',
+            color: 'var(--gold)',
+            margin: 0,
+          }}>
+          Historique
+        </h3>
+        <span style={{ flex: 1, height: 1, background: 'var(--border)' }} />
+      </div>
+
+      <div style={{ maxHeight: 360, overflowY: 'auto', display: 'flex', flexDirection: 'column' }}>
+        {versions.map((v) => {
+          const { added, removed } = totals(v.changes);
+          const expanded = open === v.version;
+          return (
+            <div
+              key={v.id}
+              style={{
+                position: 'relative',
+                padding: '0 0 12px 18px',
+                borderLeft: '1px solid var(--border)',
+                marginLeft: 4,
+              }}>
+              <span
+                style={{
+                  position: 'absolute',
+                  left: -4,
+                  top: 4,
+                  width: 7,
+                  height: 7,
+                  background: v.version === latest ? 'var(--gold)' : 'var(--border)',
+                  transform: 'rotate(45deg)',
+                }}
+              />
+              <button
+                onClick={() => setOpen(expanded ? null : v.version)}
+                style={{
+                  all: 'unset',
+                  cursor: 'pointer',
+                  display: 'flex',
+                  alignItems: 'baseline',
+                  gap: 8,
+                  width: '100%',
+                  fontSize: 13,
+                }}>
+                <span style={{ fontFamily: "'Orbitron', sans-serif", fontSize: 11, color: 'var(--gold)' }}>
+                  v{v.version}
+                </span>
+                <span style={{ color: 'var(--text)', flex: 1, minWidth: 0 }}>
+                  {SOURCE_LABEL[v.source]}
+                  {v.restored_from ? ` de la v${v.restored_from}` : ''}
+                </span>
+                <span style={{ fontSize: 12, color: 'var(--success)' }}>+{added}</span>
+                <span style={{ fontSize: 12, color: 'var(--danger)' }}>−{removed}</span>
+              </button>
+              <div style={{ fontSize: 11, color: 'var(--text-dim)' }}>
+                {new Date(v.created_at).toLocaleString('fr-FR', { dateStyle: 'short', timeStyle: 'short' })}
+                {v.created_by ? ` · ${v.created_by.username}` : ''} · {v.main_count}/{v.extra_count}/{v.side_count}
+              </div>
+
+              {expanded && v.changes && <DiffList diff={v.changes} />}
+
+              {expanded && deckId && v.version !== latest && (
+                <div style={{ display: 'flex', gap: 8, marginTop: 8 }}>
+                  <button
+                    onClick={() => compareWithCurrent(v.version)}
+                    style={{
+                      padding: '5px 10px',
+                      background: 'transparent',
+                      color: 'var(--text-muted)',
+                      border: '1px solid var(--border)',
+                      fontSize: 11,
+                      cursor: 'pointer',
+                      clipPath: CUT_SM,
+                    }}>
+                    {compare?.version === v.version ? 'Masquer' : 'Comparer à l\'actuelle'}
+                  </button>
+                  {canRestore && (
+                    <button
+                      onClick={() => restore(v.version)}
+                      disabled={restoring !== null}
+                      style={{
+                        padding: '5px 10px',
+                        background: 'transparent',
+                        color: 'var(--gold)',
+                        border: '1px solid var(--gold)',
+                        fontSize: 11,
+                        cursor: restoring !== null ? 'not-allowed' : 'pointer',
+                        opacity: restoring !== null ? 0.6 : 1,
+                        clipPath: CUT_SM,
+                      }}>
+                      {restoring === v.version ? 'Restauration…' : 'Restaurer'}
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {expanded && compare?.version === v.version && (
+                <div style={{ marginTop: 6, paddingTop: 6, borderTop: '1px dashed var(--border)' }}>
+                  <div style={{ fontSize: 11, color: 'var(--text-dim)' }}>De la v{v.version} à aujourd'hui :</div>
+                  <DiffList diff={compare.changes} />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import api from '../services/api';
+import { DiffList } from './DeckChangelogPanel';
+import type { Deck, DeckForkNode, DeckUpstreamChanges } from '../../../shared/types';
+
+const CUT_PANEL =
+  'polygon(0 0,calc(100% - 18px) 0,100% 18px,100% 100%,0 100%)';
+
+interface DeckForksPanelProps {
+  deck: Deck;
+  isOwner: boolean;
+}
+
+function ForkTree({ nodes, depth = 0 }: { nodes: DeckForkNode[]; depth?: number }) {
+  return (
+    <>
+      {nodes.map((n) => (
+        <div key={n.id} style={{ marginLeft: depth * 14 }}>
+          <div style={{ display: 'flex', alignItems: 'baseline', gap: 6, fontSize: 13, padding: '3px 0' }}>
+            <span style={{ color: 'var(--text-dim)' }}>{depth > 0 ? '└' : '·'}</span>
+            <Link to={`/decks/${n.id}`} style={{ color: 'var(--text)', textDecoration: 'none' }}>
+              {n.name}
+            </Link>
+            <span style={{ fontSize: 11, color: 'var(--violet)' }}>@{n.user.username}</span>
+            {!n.is_public && <span style={{ fontSize: 10, color: 'var(--text-dim)' }}>privé</span>}
+          </div>
+          {n.children.length > 0 && <ForkTree nodes={n.children} depth={depth + 1} />}
+        </div>
+      ))}
+    </>
+  );
+}
+
+/**
+ * Forks du deck : arbre des copies (forks de forks compris) et, pour le
+ * propriétaire d'un fork, ce que l'auteur de l'original a changé depuis.
+ */
+export default function DeckForksPanel({ deck, isOwner }: DeckForksPanelProps) {
+  const [forks, setForks] = useState<DeckForkNode[]>([]);
+  const [upstream, setUpstream] = useState<DeckUpstreamChanges | null>(null);
+
+  const trackUpstream = isOwner && !!deck.forked_from;
+
+  useEffect(() => {
+    if (!deck.forks_count) {
+      setForks([]);
+      return;
+    }
+    api
+      .get<{ forks: DeckForkNode[] }>(`/decks/${deck.id}/forks`)
+      .then((r) => setForks(r.data.forks))
+      .catch(() => setForks([]));
+  }, [deck.id, deck.forks_count]);
+
+  useEffect(() => {
+    if (!trackUpstream) {
+      setUpstream(null);
+      return;
+    }
+    api
+      .get<DeckUpstreamChanges>(`/decks/${deck.id}/upstream`)
+      .then((r) => setUpstream(r.data))
+      .catch(() => setUpstream(null));
+  }, [deck.id, trackUpstream]);
+
+  if (forks.length === 0 && !upstream) return null;
+
+  const upToDate = upstream && upstream.upstream_version === upstream.forked_from_version;
+
+  return (
+    <div
+      style={{
+        background: 'var(--panel)',
+        border: '1px solid var(--border)',
+        clipPath: CUT_PANEL,
+        padding: '18px 20px',
+      }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 10, marginBottom: 12 }}>
+        <h3
+          style={{
+            fontFamily: "'Orbitron', sans-serif",
+            fontSize: 12,
+            fontWeight: 700,
+            letterSpacing: '0.16em',
+            textTransform: 'uppercase',
+            color: 'var(--gold)',
+            margin: 0,
+          }}>
+          Forks
+        </h3>
+        <span style={{ flex: 1, height: 1, background: 'var(--border)' }} />
+        {!!deck.forks_count && (
+          <span style={{ fontFamily: "'Orbitron', sans-serif", fontSize: 11, color: 'var(--text-muted)' }}>
+            {deck.forks_count}
+          </span>
+        )}
+      </div>
+
+      {upstream && (
+        <div style={{ marginBottom: forks.length > 0 ? 14 : 0 }}>
+          <div style={{ fontSize: 13, color: 'var(--text-muted)' }}>
+            Depuis ton fork,{' '}
+            <Link to={`/decks/${upstream.upstream.id}`} style={{ color: 'var(--violet)', textDecoration: 'none' }}>
+              {upstream.upstream.name}
+            </Link>{' '}
+            {upToDate ? "n'a pas changé." : `est passé de la v${upstream.forked_from_version ?? 0} à la v${upstream.upstream_version} :`}
+          </div>
+          {!upToDate && <DiffList diff={upstream.changes} />}
+        </div>
+      )}
+
+      {forks.length > 0 && (
+        <div style={{ maxHeight: 280, overflowY: 'auto' }}>
+          <ForkTree nodes={forks} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import api from '../services/api';
+
+const CUT_PANEL =
+  'polygon(0 0,calc(100% - 18px) 0,100% 18px,100% 100%,0 100%)';
+const CUT_SM = 'polygon(6px 0,100% 0,100% calc(100% - 6px),calc(100% - 6px) 100%,0 100%,0 6px)';
+
+interface DeckPrintPanelProps {
+  deckId: number;
+  deckName: string;
+}
+
+/**
+ * Exports du deck. Pour les tournois : decklist d'inscription façon Konami, en
+ * noms anglais (officiels) ou français, et planches de proxys 3 × 3 au format
+ * réel pour tester sans les cartes. Pour partager : l'image du deck, la même
+ * que l'aperçu des liens de partage.
+ */
+export default function DeckPrintPanel({ deckId, deckName }: DeckPrintPanelProps) {
+  const [lang, setLang] = useState<'en' | 'fr'>('en');
+  const [proxies, setProxies] = useState(false);
+  const [busy, setBusy] = useState<'pdf' | 'image' | null>(null);
+
+  const base = deckName.replace(/[^\w\- ]+/g, '').trim() || 'deck';
+
+  const download = async (kind: 'pdf' | 'image') => {
+    setBusy(kind);
+    try {
+      const response = await api.get<Blob>(`/decks/${deckId}/${kind}`, {
+        params: kind === 'pdf' ? { lang, proxies } : { format: 'png' },
+        responseType: 'blob',
+      });
+      const url = URL.createObjectURL(response.data);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = kind === 'pdf' ? `${base}-${proxies ? 'decklist-proxys' : 'decklist'}.pdf` : `${base}.png`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      // toast déjà émis par l'intercepteur axios
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const buttonStyle = (kind: 'pdf' | 'image') => ({
+    flex: 1,
+    height: 36,
+    background: 'var(--bg-elev)',
+    color: 'var(--text-muted)',
+    border: '1px solid var(--border)',
+    fontFamily: "'Orbitron', sans-serif",
+    fontSize: 10,
+    letterSpacing: '0.12em',
+    textTransform: 'uppercase' as const,
+    cursor: busy ? 'wait' : 'pointer',
+    opacity: busy === kind ? 0.6 : 1,
+    clipPath: CUT_SM,
+  });
+
+  const langButton = (value: 'en' | 'fr', label: string) => (
+    <button
+      onClick={() => setLang(value)}
+      style={{
+        flex: 1,
+        padding: '6px 10px',
+        background: lang === value ? 'rgba(245,197,24,.12)' : 'transparent',
+        color: lang === value ? 'var(--gold)' : 'var(--text-muted)',
+        border: `1px solid ${lang === value ? 'var(--gold)' : 'var(--border)'}`,
+        fontSize: 12,
+        cursor: 'pointer',
+        clipPath: CUT_SM,
+      }}>
+      {label}
+    </button>
+  );
+
+  return (
+    <div
+      style={{
+        background: 'var(--panel)',
+        border: '1px solid var(--border)',
+        clipPath: CUT_PANEL,
+        padding: '18px 20px',
+      }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 10, marginBottom: 12 }}>
+        <h3
+          style={{
+            fontFamily: "'Orbitron', sans-serif",
+            fontSize: 12,
+            fontWeight: 700,
+            letterSpacing: '0.16em',
+            textTransform: 'uppercase',
+            color: 'var(--gold)',
+            margin: 0,
+          }}>
+          Exporter
+        </h3>
+        <span style={{ flex: 1, height: 1, background: 'var(--border)' }} />
+      </div>
+
+      <div style={{ display: 'flex', gap: 8 }}>
+        {langButton('en', 'Noms anglais')}
+        {langButton('fr', 'Noms français')}
+      </div>
+
+      <label
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 8,
+          marginTop: 12,
+          fontSize: 12,
+          color: 'var(--text-muted)',
+          cursor: 'pointer',
+        }}>
+        <input type="checkbox" checked={proxies} onChange={(e) => setProxies(e.target.checked)} />
+        Ajouter les planches de proxys (9 cartes par page A4)
+      </label>
+
+      <div style={{ display: 'flex', gap: 8, marginTop: 14 }}>
+        <button onClick={() => download('pdf')} disabled={busy !== null} style={buttonStyle('pdf')}>
+          {busy === 'pdf' ? 'Génération…' : 'Decklist PDF'}
+        </button>
+        <button onClick={() => download('image')} disabled={busy !== null} style={buttonStyle('image')}>
+          {busy === 'image' ? 'Génération…' : 'Image .png'}
+        </button>
+      </div>
+    </div>
+  );
+}
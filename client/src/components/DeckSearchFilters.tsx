@@ -0,0 +1,189 @@
+import { useEffect, useState } from 'react';
+import api from '../services/api';
+import { useDebounce } from '../hooks/useDebounce';
+import type { Card } from '../../../shared/types';
+
+const CUT_SM = 'polygon(6px 0,100% 0,100% calc(100% - 6px),calc(100% - 6px) 100%,0 100%,0 6px)';
+
+/** Filtres de contenu et de collection de `GET /decks/public`, sous forme de paramètres d'URL. */
+export interface DeckSearchValues {
+  include: string[];
+  exclude: string[];
+  minOwned: number | null;
+  maxMissing: number | null;
+}
+
+interface DeckSearchFiltersProps {
+  value: DeckSearchValues;
+  onChange: (next: DeckSearchValues) => void;
+}
+
+const OWNED_STEPS = [50, 75, 90, 100];
+
+const labelStyle = {
+  fontFamily: "'Orbitron', sans-serif",
+  fontSize: 9,
+  letterSpacing: '0.16em',
+  textTransform: 'uppercase' as const,
+  color: 'var(--text-dim)',
+};
+
+const inputStyle = {
+  padding: '7px 10px',
+  background: 'var(--bg-sunken)',
+  border: '1px solid var(--border)',
+  color: 'var(--text)',
+  fontSize: 13,
+};
+
+/**
+ * « Qu'est-ce que je peux monter ce soir ? » : cartes jouées / exclues, part
+ * minimale du deck déjà possédée et budget maximal pour les manquantes.
+ */
+export default function DeckSearchFilters({ value, onChange }: DeckSearchFiltersProps) {
+  const [term, setTerm] = useState('');
+  const debouncedTerm = useDebounce(term, 350);
+  const [results, setResults] = useState<Card[]>([]);
+  // Passcode → nom, pour afficher les filtres venus d'un lien
+  const [names, setNames] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (debouncedTerm.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+    api
+      .get<{ cards: Card[] }>('/collection/catalog', { params: { q: debouncedTerm.trim() } })
+      .then((r) => setResults(r.data.cards))
+      .catch(() => setResults([]));
+  }, [debouncedTerm]);
+
+  useEffect(() => {
+    for (const code of [...value.include, ...value.exclude]) {
+      if (names[code]) continue;
+      api
+        .get<{ cards: Card[] }>('/collection/catalog', { params: { q: code } })
+        .then((r) => r.data.cards[0] && setNames((n) => ({ ...n, [code]: r.data.cards[0].name })))
+        .catch(() => {});
+    }
+  }, [value.include, value.exclude]);
+
+  const pick = (card: Card, list: 'include' | 'exclude') => {
+    const other = list === 'include' ? 'exclude' : 'include';
+    setNames((n) => ({ ...n, [card.card_id]: card.name }));
+    onChange({
+      ...value,
+      [list]: [...value[list].filter((c) => c !== card.card_id), card.card_id],
+      [other]: value[other].filter((c) => c !== card.card_id),
+    });
+    setTerm('');
+    setResults([]);
+  };
+
+  const drop = (code: string) =>
+    onChange({
+      ...value,
+      include: value.include.filter((c) => c !== code),
+      exclude: value.exclude.filter((c) => c !== code),
+    });
+
+  const chip = (code: string, excluded: boolean) => (
+    <button
+      key={`${excluded ? '-' : '+'}${code}`}
+      onClick={() => drop(code)}
+      title="Retirer ce filtre"
+      style={{
+        padding: '5px 10px',
+        border: `1px solid ${excluded ? 'var(--danger)' : 'var(--success)'}`,
+        background: 'transparent',
+        color: excluded ? 'var(--danger)' : 'var(--success)',
+        fontSize: 12,
+        cursor: 'pointer',
+        clipPath: CUT_SM,
+      }}>
+      {excluded ? 'sans' : 'avec'} {names[code] || `#${code}`} ×
+    </button>
+  );
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 10 }}>
+      <div style={{ display: 'flex', gap: 16, flexWrap: 'wrap', alignItems: 'flex-end' }}>
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4, position: 'relative', flex: '1 1 260px' }}>
+          <span style={labelStyle}>Cartes jouées</span>
+          <input
+            value={term}
+            onChange={(e) => setTerm(e.target.value)}
+            placeholder="Cendres de Fleur, Nibiru…"
+            style={inputStyle}
+          />
+          {results.length > 0 && (
+            <div
+              style={{
+                position: 'absolute',
+                top: '100%',
+                left: 0,
+                right: 0,
+                zIndex: 30,
+                background: 'var(--panel)',
+                border: '1px solid var(--border)',
+                maxHeight: 260,
+                overflowY: 'auto',
+              }}>
+              {results.map((card) => (
+                <div
+                  key={card.card_id}
+                  style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '6px 10px', fontSize: 13 }}>
+                  <span style={{ flex: 1, minWidth: 0, color: 'var(--text)' }}>{card.name}</span>
+                  <button
+                    onClick={() => pick(card, 'include')}
+                    style={{ background: 'transparent', border: 0, color: 'var(--success)', cursor: 'pointer', fontSize: 12 }}>
+                    + avec
+                  </button>
+                  <button
+                    onClick={() => pick(card, 'exclude')}
+                    style={{ background: 'transparent', border: 0, color: 'var(--danger)', cursor: 'pointer', fontSize: 12 }}>
+                    − sans
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </label>
+
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span style={labelStyle}>Déjà possédé</span>
+          <select
+            value={value.minOwned ?? ''}
+            onChange={(e) => onChange({ ...value, minOwned: e.target.value ? Number(e.target.value) : null })}
+            style={inputStyle}>
+            <option value="">Peu importe</option>
+            {OWNED_STEPS.map((p) => (
+              <option key={p} value={p}>
+                {p === 100 ? 'Tout' : `≥ ${p} %`}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <span style={labelStyle}>Manquant max (€)</span>
+          <input
+            type="number"
+            min={0}
+            value={value.maxMissing ?? ''}
+            onChange={(e) => onChange({ ...value, maxMissing: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) })}
+            placeholder="—"
+            style={{ ...inputStyle, width: 110 }}
+          />
+        </label>
+      </div>
+
+      {(value.include.length > 0 || value.exclude.length > 0) && (
+        <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap' }}>
+          {value.include.map((code) => chip(code, false))}
+          {value.exclude.map((code) => chip(code, true))}
+        </div>
+      )}
+    </div>
+  );
+}
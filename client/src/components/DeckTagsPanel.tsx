@@ -0,0 +1,177 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import api from '../services/api';
+import type { Deck } from '../../../shared/types';
+
+const CUT_PANEL =
+  'polygon(0 0,calc(100% - 18px) 0,100% 18px,100% 100%,0 100%)';
+const CUT_SM = 'polygon(6px 0,100% 0,100% calc(100% - 6px),calc(100% - 6px) 100%,0 100%,0 6px)';
+
+interface DeckTagsPanelProps {
+  deck: Deck;
+  isOwner: boolean;
+  onSaved: (tags: string[]) => void;
+}
+
+/**
+ * Archétypes détectés (avec leur part du Main + Extra, pour les hybrides) et
+ * tags libres du propriétaire. Chaque entrée mène aux decks publics filtrés.
+ */
+export default function DeckTagsPanel({ deck, isOwner, onSaved }: DeckTagsPanelProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const split = deck.archetype_split || [];
+  const tags = deck.tags || [];
+
+  useEffect(() => {
+    setDraft(tags.join(', '));
+  }, [deck.id, editing]);
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const next = draft.split(',').map((t) => t.trim()).filter(Boolean);
+      const r = await api.put<{ deck: Deck }>(`/decks/${deck.id}`, { tags: next });
+      onSaved(r.data.deck.tags || []);
+      setEditing(false);
+      toast.success('Tags enregistrés');
+    } catch {
+      // toast déjà émis par l'intercepteur axios
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (split.length === 0 && tags.length === 0 && !isOwner) return null;
+
+  return (
+    <div
+      style={{
+        background: 'var(--panel)',
+        border: '1px solid var(--border)',
+        clipPath: CUT_PANEL,
+        padding: '18px 20px',
+      }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 10, marginBottom: 12 }}>
+        <h3
+          style={{
+            fontFamily: "'Orbitron', sans-serif",
+            fontSize: 12,
+            fontWeight: 700,
+            letterSpacing: '0.16em',
+            textTransform: 'uppercase',
+            color: 'var(--gold)',
+            margin: 0,
+          }}>
+          Archétypes
+        </h3>
+        <span style={{ flex: 1, height: 1, background: 'var(--border)' }} />
+      </div>
+
+      {split.length === 0 ? (
+        <p style={{ fontSize: 12, color: 'var(--text-dim)', margin: 0 }}>Aucun archétype dominant.</p>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+          {split.map((s) => (
+            <div key={s.name}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 13 }}>
+                <Link
+                  to={`/social?archetype=${encodeURIComponent(s.name)}`}
+                  style={{
+                    color: deck.archetypes?.includes(s.name) ? 'var(--text)' : 'var(--text-muted)',
+                    textDecoration: 'none',
+                  }}>
+                  {s.name}
+                </Link>
+                <span style={{ fontSize: 11, color: 'var(--text-dim)' }}>
+                  {s.copies} · {Math.round(s.share * 100)} %
+                </span>
+              </div>
+              <div style={{ height: 3, background: 'var(--border)', marginTop: 3 }}>
+                <div style={{ width: `${Math.round(s.share * 100)}%`, height: '100%', background: 'var(--gold)' }} />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div style={{ marginTop: 14, display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center' }}>
+        {tags.map((t) => (
+          <Link
+            key={t}
+            to={`/social?tag=${encodeURIComponent(t)}`}
+            style={{ fontSize: 12, color: 'var(--violet)', textDecoration: 'none' }}>
+            #{t}
+          </Link>
+        ))}
+        {isOwner && !editing && (
+          <button
+            onClick={() => setEditing(true)}
+            style={{
+              padding: '4px 10px',
+              background: 'transparent',
+              color: 'var(--text-muted)',
+              border: '1px solid var(--border)',
+              fontSize: 11,
+              cursor: 'pointer',
+              clipPath: CUT_SM,
+            }}>
+            {tags.length > 0 ? 'Modifier les tags' : 'Ajouter des tags'}
+          </button>
+        )}
+      </div>
+
+      {editing && (
+        <div style={{ marginTop: 10, display: 'flex', flexDirection: 'column', gap: 8 }}>
+          <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && save()}
+            placeholder="budget, going second, locals…"
+            style={{
+              padding: '8px 10px',
+              background: 'var(--bg-sunken)',
+              border: '1px solid var(--border)',
+              color: 'var(--text)',
+              fontSize: 13,
+            }}
+          />
+          <div style={{ fontSize: 11, color: 'var(--text-dim)' }}>8 tags maximum, séparés par des virgules.</div>
+          <div style={{ display: 'flex', gap: 8 }}>
+            <button
+              onClick={save}
+              disabled={saving}
+              style={{
+                padding: '5px 10px',
+                background: 'transparent',
+                color: 'var(--gold)',
+                border: '1px solid var(--gold)',
+                fontSize: 11,
+                cursor: saving ? 'not-allowed' : 'pointer',
+                opacity: saving ? 0.6 : 1,
+                clipPath: CUT_SM,
+              }}>
+              {saving ? 'Enregistrement…' : 'Enregistrer'}
+            </button>
+            <button
+              onClick={() => setEditing(false)}
+              style={{
+                padding: '5px 10px',
+                background: 'transparent',
+                color: 'var(--text-muted)',
+                border: '1px solid var(--border)',
+                fontSize: 11,
+                cursor: 'pointer',
+                clipPath: CUT_SM,
+              }}>
+              Annuler
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,437 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { Deck } from '../../../shared/types';
+import api from '../services/api';
+import duelApi from '../services/duelApi';
+
+const CUT_PANEL = 'polygon(0 0,calc(100% - 22px) 0,100% 22px,100% 100%,22px 100%,0 calc(100% - 22px))';
+const CUT_BTN = 'polygon(0 0,100% 0,100% 100%,95% 100%,95% 90%,85% 90%,85% 100%,8% 100%,0 70%)';
+const CUT_SM = 'polygon(6px 0,100% 0,100% calc(100% - 6px),calc(100% - 6px) 100%,0 100%,0 6px)';
+
+/** Même plafond que le serveur : main de départ et première pioche. */
+const MAX_OPENING_HAND = 6;
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+  /** Deck imposé (ouverture depuis la fiche d'un deck) ; sinon le joueur choisit. */
+  deck?: Deck;
+}
+
+type HandMode = 'seed' | 'chosen';
+
+interface HandCard {
+  code: number;
+  name: string;
+  quantity: number;
+}
+
+const LABEL_STYLE = {
+  display: 'block',
+  fontFamily: "'Orbitron', sans-serif",
+  fontSize: 10,
+  letterSpacing: '0.2em',
+  textTransform: 'uppercase' as const,
+  color: '#A99C86',
+  marginBottom: 8,
+};
+
+const SELECT_STYLE = {
+  width: '100%',
+  height: 40,
+  padding: '0 10px',
+  background: '#1A1510',
+  border: '1px solid #3A2E1C',
+  color: '#F5EFE0',
+  fontFamily: "'Orbitron', sans-serif",
+  fontSize: 11,
+};
+
+/** Bouton à bascule des choix exclusifs (premier joueur, main de départ). */
+const choiceStyle = (active: boolean) => ({
+  padding: '10px 12px',
+  border: `1px solid ${active ? '#F5C518' : '#3A2E1C'}`,
+  background: active ? 'linear-gradient(135deg,rgba(245,197,24,.18),rgba(168,85,247,.1))' : '#1A1510',
+  color: active ? '#F5C518' : '#F5EFE0',
+  fontFamily: "'Orbitron', sans-serif",
+  cursor: 'pointer',
+  textAlign: 'left' as const,
+  clipPath: CUT_SM,
+  display: 'flex',
+  flexDirection: 'column' as const,
+  gap: 4,
+});
+
+const chipStyle = (accent: string, disabled = false) => ({
+  padding: '4px 8px',
+  border: `1px solid ${accent}`,
+  background: '#1A1510',
+  color: disabled ? '#5A4E3C' : '#F5EFE0',
+  fontSize: 11,
+  cursor: disabled ? 'not-allowed' : 'pointer',
+  clipPath: CUT_SM,
+});
+
+/**
+ * GoldfishModal — labo de combos sur le vrai moteur.
+ * Même panneau que BotDuelModal : le duel est créé prêt à jouer face au
+ * goldfish, qui ne fait rien. La main de départ se choisit carte par carte,
+ * ou se tire avec une graine — même nombre, même main, pour toute l'équipe.
+ */
+const GoldfishModal = ({ open, onClose, deck }: Props) => {
+  const navigate = useNavigate();
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [publicDecks, setPublicDecks] = useState<Deck[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [deckId, setDeckId] = useState<number | null>(deck?.id ?? null);
+  const [detail, setDetail] = useState<Deck | null>(deck ?? null);
+  const [goFirst, setGoFirst] = useState(true);
+  const [handMode, setHandMode] = useState<HandMode>('seed');
+  const [hand, setHand] = useState<number[]>([]);
+  const [seed, setSeed] = useState('');
+
+  useEffect(() => {
+    if (!open || deck) return;
+    setLoading(true);
+    Promise.all([
+      api.get('/decks').then((res) => (res.data.data || res.data || []) as Deck[]),
+      api
+        .get('/decks/public', { params: { limit: 30, sort: 'likes' } })
+        .then((res) => (res.data.data || []) as Deck[])
+        .catch(() => [] as Deck[]),
+    ])
+      .then(([mine, shared]) => {
+        const mineIds = new Set(mine.map((d) => d.id));
+        setDecks(mine);
+        setPublicDecks(shared.filter((d) => !mineIds.has(d.id)));
+        setDeckId(mine[0]?.id ?? shared[0]?.id ?? null);
+      })
+      .catch(() => setDecks([]))
+      .finally(() => setLoading(false));
+  }, [open, deck]);
+
+  // Le contenu du deck, pour choisir la main : la liste n'a pas les cartes.
+  useEffect(() => {
+    setHand([]);
+    if (!open || !deckId) return;
+    if (deck && deck.id === deckId) {
+      setDetail(deck);
+      return;
+    }
+    setDetail(null);
+    api
+      .get(`/decks/${deckId}`)
+      .then((res) => setDetail(res.data.deck as Deck))
+      .catch(() => setDetail(null));
+  }, [open, deckId, deck]);
+
+  useEffect(() => {
+    if (!open) return;
+    const onEsc = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', onEsc);
+    return () => document.removeEventListener('keydown', onEsc);
+  }, [open, onClose]);
+
+  const mainCards = useMemo<HandCard[]>(() => {
+    const byCode = new Map<number, HandCard>();
+    for (const dc of detail?.main_deck || []) {
+      const code = Number(dc.card?.card_id);
+      if (!Number.isInteger(code) || code <= 0) continue;
+      const cur = byCode.get(code);
+      if (cur) cur.quantity += dc.quantity;
+      else byCode.set(code, { code, name: dc.card?.name_fr || dc.card?.name || `#${code}`, quantity: dc.quantity });
+    }
+    return [...byCode.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }, [detail]);
+
+  const nameOf = (code: number) => mainCards.find((c) => c.code === code)?.name ?? `#${code}`;
+  const left = (card: HandCard) => card.quantity - hand.filter((c) => c === card.code).length;
+
+  const handleSubmit = async () => {
+    if (!deckId) return;
+    const seedValue = seed.trim() === '' ? undefined : Number(seed);
+    if (seedValue !== undefined && !Number.isSafeInteger(seedValue)) {
+      toast.error('La graine doit être un nombre entier');
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const duel = await duelApi.startGoldfish({
+        deck_id: deckId,
+        go_first: goFirst,
+        opening_hand: handMode === 'chosen' ? hand : undefined,
+        seed: seedValue,
+      });
+      onClose();
+      navigate(`/duel/${duel.id}`);
+    } catch (err) {
+      // Erreur toast gérée par api interceptor
+      console.error(err);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!open) return null;
+
+  const blocked = submitting || loading || !deckId;
+
+  return (
+    <div
+      onClick={onClose}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 100,
+        background: 'rgba(11,9,6,.82)',
+        backdropFilter: 'blur(6px)',
+        display: 'grid',
+        placeItems: 'center',
+        padding: 20,
+      }}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          position: 'relative',
+          width: '100%',
+          maxWidth: 540,
+          maxHeight: '92vh',
+          overflowY: 'auto',
+          background: 'linear-gradient(160deg,#1A1510,#0D0A06)',
+          border: '1px solid #A855F7',
+          padding: '32px 30px 26px',
+          clipPath: CUT_PANEL,
+          boxShadow: '0 30px 60px rgba(0,0,0,.7), 0 0 40px rgba(168,85,247,.2)',
+        }}>
+        <div
+          style={{
+            fontFamily: "'Cormorant Garamond', serif",
+            fontStyle: 'italic',
+            fontSize: 11,
+            letterSpacing: '0.32em',
+            color: '#F5C518',
+            textTransform: 'uppercase',
+          }}>
+          — Entraînement —
+        </div>
+        <h2
+          style={{
+            margin: '8px 0 0',
+            fontFamily: "'Orbitron', sans-serif",
+            fontSize: 26,
+            fontWeight: 900,
+            letterSpacing: '0.02em',
+            textTransform: 'uppercase',
+            color: '#F5EFE0',
+            lineHeight: 1.05,
+          }}>
+          Labo de combos
+        </h2>
+        <p style={{ margin: '8px 0 0', color: '#A99C86', fontSize: 12 }}>
+          Ton deck face à un adversaire qui ne joue rien. Annule n'importe quelle décision, enregistre les lignes
+          qui marchent.
+        </p>
+
+        {loading ? (
+          <div
+            style={{
+              marginTop: 22,
+              height: 44,
+              border: '1px dashed #3A2E1C',
+              display: 'grid',
+              placeItems: 'center',
+              color: '#A99C86',
+              fontSize: 13,
+            }}>
+            Chargement des grimoires…
+          </div>
+        ) : (
+          <>
+            {!deck && (
+              <div style={{ marginTop: 22 }}>
+                <label style={LABEL_STYLE}>Deck</label>
+                <select value={deckId ?? ''} onChange={(e) => setDeckId(Number(e.target.value))} style={SELECT_STYLE}>
+                  <optgroup label="Mes decks">
+                    {decks.map((d) => (
+                      <option key={d.id} value={d.id}>
+                        {d.name}
+                      </option>
+                    ))}
+                  </optgroup>
+                  {publicDecks.length > 0 && (
+                    <optgroup label="Decks publics">
+                      {publicDecks.map((d) => (
+                        <option key={d.id} value={d.id}>
+                          {d.name}
+                          {d.user?.username ? ` · @${d.user.username}` : ''}
+                        </option>
+                      ))}
+                    </optgroup>
+                  )}
+                </select>
+              </div>
+            )}
+
+            <div style={{ marginTop: 20 }}>
+              <label style={LABEL_STYLE}>Qui commence</label>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8 }}>
+                {[
+                  { first: true, label: 'Moi' },
+                  { first: false, label: 'Le goldfish' },
+                ].map((o) => (
+                  <button key={o.label} type="button" onClick={() => setGoFirst(o.first)} style={choiceStyle(goFirst === o.first)}>
+                    <span style={{ fontSize: 11, fontWeight: 700, letterSpacing: '0.1em', textTransform: 'uppercase' }}>
+                      {o.label}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div style={{ marginTop: 20 }}>
+              <label style={LABEL_STYLE}>Main de départ</label>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8 }}>
+                {(['seed', 'chosen'] as const).map((mode) => (
+                  <button key={mode} type="button" onClick={() => setHandMode(mode)} style={choiceStyle(handMode === mode)}>
+                    <span style={{ fontSize: 11, fontWeight: 700, letterSpacing: '0.1em', textTransform: 'uppercase' }}>
+                      {mode === 'seed' ? 'Tirage' : 'Choisie'}
+                    </span>
+                    <span style={{ fontSize: 10, color: '#A99C86', letterSpacing: '0.05em' }}>
+                      {mode === 'seed' ? 'Au hasard, ou fixé par une graine' : `Jusqu'à ${MAX_OPENING_HAND} cartes, dans l'ordre de pioche`}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {handMode === 'chosen' && (
+              <div style={{ marginTop: 14 }}>
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, minHeight: 28 }}>
+                  {hand.length === 0 && (
+                    <span style={{ color: '#5A4E3C', fontSize: 12 }}>Clique les cartes à piocher, dans l'ordre.</span>
+                  )}
+                  {hand.map((code, i) => (
+                    <button
+                      key={`${code}-${i}`}
+                      type="button"
+                      title="Retirer"
+                      onClick={() => setHand(hand.filter((_, j) => j !== i))}
+                      style={chipStyle('#F5C518')}>
+                      {i + 1}. {nameOf(code)} ×
+                    </button>
+                  ))}
+                </div>
+                <div
+                  style={{
+                    marginTop: 10,
+                    maxHeight: 160,
+                    overflowY: 'auto',
+                    display: 'flex',
+                    flexWrap: 'wrap',
+                    gap: 6,
+                    padding: 8,
+                    border: '1px solid #3A2E1C',
+                  }}>
+                  {!detail && <span style={{ color: '#A99C86', fontSize: 12 }}>Chargement du deck…</span>}
+                  {mainCards.map((card) => {
+                    const disabled = left(card) <= 0 || hand.length >= MAX_OPENING_HAND;
+                    return (
+                      <button
+                        key={card.code}
+                        type="button"
+                        disabled={disabled}
+                        onClick={() => setHand([...hand, card.code])}
+                        style={chipStyle('#3A2E1C', disabled)}>
+                        {card.name} · {left(card)}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            <div style={{ marginTop: 20 }}>
+              <label style={LABEL_STYLE}>Graine (facultatif)</label>
+              <input
+                value={seed}
+                onChange={(e) => setSeed(e.target.value.replace(/[^\d-]/g, ''))}
+                placeholder="ex. 1234 — même graine, même mélange"
+                inputMode="numeric"
+                style={{ ...SELECT_STYLE, fontFamily: 'inherit', fontSize: 13 }}
+              />
+            </div>
+          </>
+        )}
+
+        {/* Actions */}
+        <div style={{ marginTop: 26, display: 'flex', gap: 12, justifyContent: 'flex-end', flexWrap: 'wrap' }}>
+          <button
+            onClick={onClose}
+            disabled={submitting}
+            style={{
+              height: 44,
+              padding: '0 20px',
+              background: 'transparent',
+              border: '1px solid #3A2E1C',
+              color: '#A99C86',
+              fontFamily: "'Orbitron', sans-serif",
+              fontSize: 11,
+              letterSpacing: '0.14em',
+              textTransform: 'uppercase',
+              fontWeight: 700,
+              cursor: submitting ? 'not-allowed' : 'pointer',
+              clipPath: CUT_SM,
+            }}>
+            Annuler
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={blocked}
+            style={{
+              height: 46,
+              padding: '0 24px',
+              position: 'relative',
+              isolation: 'isolate',
+              border: 0,
+              background: 'transparent',
+              color: '#0B0906',
+              fontFamily: "'Orbitron', sans-serif",
+              fontWeight: 700,
+              fontSize: 12,
+              letterSpacing: '0.14em',
+              textTransform: 'uppercase',
+              cursor: blocked ? 'not-allowed' : 'pointer',
+              opacity: blocked ? 0.5 : 1,
+            }}>
+            <span
+              style={{
+                position: 'absolute',
+                inset: 0,
+                background: '#A855F7',
+                transform: 'translate(5px,0)',
+                clipPath: CUT_BTN,
+                zIndex: -1,
+              }}
+            />
+            <span
+              style={{
+                position: 'absolute',
+                inset: 0,
+                background: '#F5C518',
+                clipPath: CUT_BTN,
+                zIndex: -1,
+              }}
+            />
+            {submitting ? 'Ouverture…' : 'Ouvrir le labo'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GoldfishModal;
@@ -0,0 +1,253 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import binderApi from '../services/binderApi';
+import TradeBinderPanel from './TradeBinderPanel';
+import type { BinderMatch, TradeableCard, TradeBinder, WantListEntry } from '../../../shared/types';
+
+const CUT_PANEL = 'polygon(0 0,calc(100% - 18px) 0,100% 18px,100% 100%,0 100%)';
+const CUT_SM = 'polygon(6px 0,100% 0,100% calc(100% - 6px),calc(100% - 6px) 100%,0 100%,0 6px)';
+
+interface MyBinderPanelProps {
+  /** Ouvre le composeur d'offre avec ce partenaire présélectionné. */
+  onPropose: (partnerId: number) => void;
+}
+
+const sectionTitle: React.CSSProperties = {
+  fontFamily: "'Orbitron', sans-serif",
+  fontSize: 12,
+  letterSpacing: '0.18em',
+  textTransform: 'uppercase',
+  color: 'var(--gold)',
+  margin: '28px 0 12px',
+};
+
+const names = (cards: TradeableCard[]) => [...new Set(cards.map((c) => c.name))].join(', ');
+
+/**
+ * Onglet « Classeur » de `/trades` : ma liste de recherche (ajout par code,
+ * prix cible optionnel pour les alertes), mes cartes à l'échange (marquées
+ * depuis la collection) et les abonnements dont le classeur croise le mien.
+ */
+
+/** Saisie « 4,50 » ou « 4.50 » ; vide = pas d'alerte, NaN = saisie invalide. */
+const parsePrice = (raw: string): number | null => (raw.trim() ? Number(raw.replace(',', '.')) : null);
+
+export default function MyBinderPanel({ onPropose }: MyBinderPanelProps) {
+  const [binder, setBinder] = useState<TradeBinder | null>(null);
+  const [matches, setMatches] = useState<BinderMatch[]>([]);
+  const [code, setCode] = useState('');
+  const [quantity, setQuantity] = useState(1);
+  const [target, setTarget] = useState('');
+  const [adding, setAdding] = useState(false);
+
+  const refreshMatches = () => binderApi.getMatches().then(setMatches).catch(() => setMatches([]));
+
+  useEffect(() => {
+    binderApi.getMine().then(setBinder).catch(() => setBinder(null));
+    refreshMatches();
+  }, []);
+
+  const addWant = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!code.trim() || adding) return;
+    const targetPrice = parsePrice(target);
+    if (Number.isNaN(targetPrice)) {
+      toast.error('Prix cible invalide');
+      return;
+    }
+    setAdding(true);
+    try {
+      setBinder(await binderApi.setWant({ code: code.trim() }, quantity, targetPrice));
+      setCode('');
+      setQuantity(1);
+      setTarget('');
+      refreshMatches();
+    } catch {
+      // toast déjà émis par l'intercepteur axios
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const editTarget = async (want: WantListEntry) => {
+    const raw = window.prompt(
+      `Prix cible pour ${want.name} (€). Laisse vide pour couper l'alerte.`,
+      want.target_price_eur !== null ? String(want.target_price_eur) : ''
+    );
+    if (raw === null) return;
+    const targetPrice = parsePrice(raw);
+    if (Number.isNaN(targetPrice)) {
+      toast.error('Prix cible invalide');
+      return;
+    }
+    try {
+      setBinder(await binderApi.setWant({ card_id: want.card_id }, want.quantity, targetPrice));
+    } catch {
+      // toast déjà émis par l'intercepteur axios
+    }
+  };
+
+  const removeWant = async (cardId: number) => {
+    try {
+      await binderApi.removeWant(cardId);
+      setBinder((b) => (b ? { ...b, wants: b.wants.filter((w) => w.card_id !== cardId) } : b));
+      refreshMatches();
+      toast.success('Retirée de ta liste de recherche');
+    } catch {
+      // toast déjà émis par l'intercepteur axios
+    }
+  };
+
+  return (
+    <div>
+      <form onSubmit={addWant} style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginBottom: 18 }}>
+        <input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="Code de la carte recherchée (ex. 14558127 ou LOB-005)"
+          style={{
+            flex: 1,
+            minWidth: 240,
+            height: 38,
+            padding: '0 12px',
+            background: 'var(--bg-elev)',
+            border: '1px solid var(--border)',
+            color: 'var(--text)',
+            fontSize: 13,
+          }}
+        />
+        <input
+          type="number"
+          min={1}
+          max={99}
+          value={quantity}
+          onChange={(e) => setQuantity(Math.max(1, Math.min(99, Number(e.target.value) || 1)))}
+          aria-label="Quantité recherchée"
+          style={{
+            width: 70,
+            height: 38,
+            padding: '0 10px',
+            background: 'var(--bg-elev)',
+            border: '1px solid var(--border)',
+            color: 'var(--text)',
+            fontSize: 13,
+          }}
+        />
+        <input
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          inputMode="decimal"
+          placeholder="Prix cible €"
+          aria-label="Prix cible en euros (optionnel)"
+          style={{
+            width: 120,
+            height: 38,
+            padding: '0 10px',
+            background: 'var(--bg-elev)',
+            border: '1px solid var(--border)',
+            color: 'var(--text)',
+            fontSize: 13,
+          }}
+        />
+        <button
+          type="submit"
+          disabled={adding || !code.trim()}
+          style={{
+            height: 38,
+            padding: '0 18px',
+            background: 'var(--gold)',
+            color: 'var(--bg)',
+            border: 0,
+            fontFamily: "'Orbitron', sans-serif",
+            fontSize: 10,
+            fontWeight: 700,
+            letterSpacing: '0.12em',
+            textTransform: 'uppercase',
+            cursor: adding ? 'wait' : 'pointer',
+            clipPath: CUT_SM,
+          }}>
+          Rechercher
+        </button>
+      </form>
+
+      {binder && <TradeBinderPanel binder={binder} onRemoveWant={removeWant} onEditTarget={editTarget} />}
+      <p style={{ fontSize: 12, color: 'var(--text-dim)', margin: '10px 0 0' }}>
+        Marque des exemplaires « à l'échange » depuis le détail d'une carte de ta{' '}
+        <Link to="/collection" style={{ color: 'var(--gold)' }}>collection</Link>. Avec un prix cible, tu es
+        prévenu quand la cote Cardmarket l'atteint.
+      </p>
+
+      <div style={sectionTitle}>Correspondances</div>
+      {matches.length === 0 ? (
+        <div
+          style={{
+            padding: '30px 20px',
+            textAlign: 'center',
+            border: '1px dashed var(--border)',
+            color: 'var(--text-muted)',
+            fontSize: 14,
+          }}>
+          Aucun de tes abonnements n'a ce que tu cherches, ni ne cherche ce que tu proposes.
+        </div>
+      ) : (
+        <div style={{ display: 'grid', gap: 10 }}>
+          {matches.map((m) => (
+            <div
+              key={m.user.id}
+              style={{
+                background: 'var(--panel)',
+                border: '1px solid var(--border)',
+                clipPath: CUT_PANEL,
+                padding: '14px 18px',
+                display: 'flex',
+                alignItems: 'center',
+                gap: 14,
+                flexWrap: 'wrap',
+              }}>
+              <div style={{ flex: 1, minWidth: 220 }}>
+                <Link
+                  to={`/user/${m.user.id}`}
+                  style={{ fontFamily: "'Orbitron', sans-serif", fontSize: 13, fontWeight: 700, color: 'var(--text)' }}>
+                  @{m.user.username}
+                </Link>
+                {m.they_have.length > 0 && (
+                  <div style={{ marginTop: 4, fontSize: 12, color: 'var(--text-muted)' }}>
+                    <span style={{ color: 'var(--success)' }}>Propose</span> {names(m.they_have)}
+                  </div>
+                )}
+                {m.they_want.length > 0 && (
+                  <div style={{ marginTop: 2, fontSize: 12, color: 'var(--text-muted)' }}>
+                    <span style={{ color: 'var(--violet)' }}>Cherche</span> {names(m.they_want)}
+                  </div>
+                )}
+              </div>
+              {m.is_mutual ? (
+                <button
+                  onClick={() => onPropose(m.user.id!)}
+                  style={{
+                    height: 34,
+                    padding: '0 14px',
+                    background: 'var(--gold)',
+                    color: 'var(--bg)',
+                    border: 0,
+                    fontFamily: "'Orbitron', sans-serif",
+                    fontSize: 10,
+                    fontWeight: 700,
+                    letterSpacing: '0.12em',
+                    textTransform: 'uppercase',
+                    cursor: 'pointer',
+                    clipPath: CUT_SM,
+                  }}>
+                  Proposer un échange
+                </button>
+              ) : (
+                <span style={{ fontSize: 11, color: 'var(--text-dim)' }}>Ne te suit pas encore</span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { DuelPuzzle } from '../../../shared/duelView';
+import duelApi from '../services/duelApi';
+
+const CUT_PANEL = 'polygon(0 0,calc(100% - 22px) 0,100% 22px,100% 100%,22px 100%,0 calc(100% - 22px))';
+const CUT_SM = 'polygon(6px 0,100% 0,100% calc(100% - 6px),calc(100% - 6px) 100%,0 100%,0 6px)';
+
+interface Props {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * PuzzleModal — la bibliothèque de puzzles.
+ * Même panneau que GoldfishModal : chaque puzzle montre sa difficulté, mes
+ * essais et s'il est résolu ; « Jouer » ouvre un nouveau duel sur le moteur,
+ * plateaux déjà posés, et compte un essai.
+ */
+const PuzzleModal = ({ open, onClose }: Props) => {
+  const navigate = useNavigate();
+  const [puzzles, setPuzzles] = useState<DuelPuzzle[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [startingId, setStartingId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setLoading(true);
+    duelApi
+      .listPuzzles()
+      .then(setPuzzles)
+      .catch(() => setPuzzles([]))
+      .finally(() => setLoading(false));
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) return;
+    const onEsc = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', onEsc);
+    return () => document.removeEventListener('keydown', onEsc);
+  }, [open, onClose]);
+
+  const play = async (puzzle: DuelPuzzle) => {
+    setStartingId(puzzle.id);
+    try {
+      const duel = await duelApi.startPuzzle(puzzle.id);
+      onClose();
+      navigate(`/duel/${duel.id}`);
+    } catch (err) {
+      // Erreur toast gérée par api interceptor
+      console.error(err);
+    } finally {
+      setStartingId(null);
+    }
+  };
+
+  if (!open) return null;
+
+  const solvedCount = puzzles.filter((p) => p.progress?.solvedAt).length;
+
+  return (
+    <div
+      onClick={onClose}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 100,
+        background: 'rgba(11,9,6,.82)',
+        backdropFilter: 'blur(6px)',
+        display: 'grid',
+        placeItems: 'center',
+        padding: 20,
+      }}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          position: 'relative',
+          width: '100%',
+          maxWidth: 580,
+          maxHeight: '92vh',
+          overflowY: 'auto',
+          background: 'linear-gradient(160deg,#1A1510,#0D0A06)',
+          border: '1px solid #22D3EE',
+          padding: '32px 30px 26px',
+          clipPath: CUT_PANEL,
+          boxShadow: '0 30px 60px rgba(0,0,0,.7), 0 0 40px rgba(34,211,238,.18)',
+        }}>
+        <div
+          style={{
+            fontFamily: "'Cormorant Garamond', serif",
+            fontStyle: 'italic',
+            fontSize: 11,
+            letterSpacing: '0.32em',
+            color: '#F5C518',
+            textTransform: 'uppercase',
+          }}>
+          — Entraînement —
+        </div>
+        <h2
+          style={{
+            margin: '8px 0 0',
+            fontFamily: "'Orbitron', sans-serif",
+            fontSize: 26,
+            fontWeight: 900,
+            letterSpacing: '0.02em',
+            textTransform: 'uppercase',
+            color: '#F5EFE0',
+            lineHeight: 1.05,
+          }}>
+          Puzzles
+        </h2>
+        <p style={{ margin: '8px 0 0', color: '#A99C86', fontSize: 12 }}>
+          Un plateau posé, un seul tour pour gagner. L'adversaire ne fait rien : le piège, c'est le plateau.
+          {puzzles.length > 0 && ` ${solvedCount}/${puzzles.length} résolus.`}
+        </p>
+
+        {loading ? (
+          <div
+            style={{
+              marginTop: 22,
+              height: 44,
+              border: '1px dashed #3A2E1C',
+              display: 'grid',
+              placeItems: 'center',
+              color: '#A99C86',
+              fontSize: 13,
+            }}>
+            Chargement des puzzles…
+          </div>
+        ) : puzzles.length === 0 ? (
+          <div
+            style={{
+              marginTop: 22,
+              padding: '24px 12px',
+              border: '1px dashed #3A2E1C',
+              textAlign: 'center',
+              color: '#A99C86',
+              fontSize: 13,
+            }}>
+            Aucun puzzle pour l'instant.
+          </div>
+        ) : (
+          <div style={{ marginTop: 22, display: 'flex', flexDirection: 'column', gap: 10 }}>
+            {puzzles.map((p) => {
+              const solved = !!p.progress?.solvedAt;
+              const attempts = p.progress?.attempts ?? 0;
+              return (
+                <div
+                  key={p.id}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 14,
+                    padding: '12px 14px',
+                    border: `1px solid ${solved ? '#22C55E' : '#3A2E1C'}`,
+                    background: '#1A1510',
+                    clipPath: CUT_SM,
+                  }}>
+                  <div style={{ flex: 1, minWidth: 0 }}>
+                    <div
+                      style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: 8,
+                        fontFamily: "'Orbitron', sans-serif",
+                        fontSize: 12,
+                        fontWeight: 700,
+                        letterSpacing: '0.06em',
+                        color: '#F5EFE0',
+                      }}>
+                      {p.title}
+                      {solved && <span style={{ color: '#22C55E', fontSize: 10 }}>✓ RÉSOLU</span>}
+                    </div>
+                    {p.description && (
+                      <div style={{ marginTop: 4, color: '#A99C86', fontSize: 12 }}>{p.description}</div>
+                    )}
+                    <div style={{ marginTop: 6, display: 'flex', gap: 12, fontSize: 10, color: '#5A4E3C' }}>
+                      <span title={`Difficulté ${p.difficulty}/5`} style={{ color: '#F5C518', letterSpacing: '0.1em' }}>
+                        {'★'.repeat(p.difficulty)}
+                        <span style={{ color: '#3A2E1C' }}>{'★'.repeat(5 - p.difficulty)}</span>
+                      </span>
+                      <span>
+                        {attempts === 0 ? 'Jamais tenté' : `${attempts} essai${attempts > 1 ? 's' : ''}`}
+                      </span>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => play(p)}
+                    disabled={startingId !== null}
+                    style={{
+                      height: 36,
+                      padding: '0 16px',
+                      border: '1px solid #22D3EE',
+                      background: 'rgba(34,211,238,.12)',
+                      color: '#67E8F9',
+                      fontFamily: "'Orbitron', sans-serif",
+                      fontSize: 10,
+                      letterSpacing: '0.14em',
+                      textTransform: 'uppercase',
+                      fontWeight: 700,
+                      cursor: startingId !== null ? 'not-allowed' : 'pointer',
+                      opacity: startingId !== null && startingId !== p.id ? 0.5 : 1,
+                      clipPath: CUT_SM,
+                      flexShrink: 0,
+                    }}>
+                    {startingId === p.id ? 'Ouverture…' : solved ? 'Rejouer' : 'Jouer'}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div style={{ marginTop: 26, display: 'flex', justifyContent: 'flex-end' }}>
+          <button
+            onClick={onClose}
+            style={{
+              height: 44,
+              padding: '0 20px',
+              background: 'transparent',
+              border: '1px solid #3A2E1C',
+              color: '#A99C86',
+              fontFamily: "'Orbitron', sans-serif",
+              fontSize: 11,
+              letterSpacing: '0.14em',
+              textTransform: 'uppercase',
+              fontWeight: 700,
+              cursor: 'pointer',
+              clipPath: CUT_SM,
+            }}>
+            Fermer
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PuzzleModal;
@@ -0,0 +1,214 @@
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import api from '../services/api';
+import binderApi from '../services/binderApi';
+import type { DeckShortfall } from '../../../shared/types';
+
+const CUT_PANEL =
+  'polygon(0 0,calc(100% - 18px) 0,100% 18px,100% 100%,0 100%)';
+const CUT_SM = 'polygon(6px 0,100% 0,100% calc(100% - 6px),calc(100% - 6px) 100%,0 100%,0 6px)';
+
+const eur = (n: number) =>
+  n.toLocaleString('fr-FR', { style: 'currency', currency: 'EUR', maximumFractionDigits: 2 });
+
+interface ShoppingListPanelProps {
+  deckId: number;
+}
+
+/**
+ * Liste d'achats : ce qui manque dans la collection pour monter le deck, avec
+ * l'impression la moins chère et le coût estimé. Exportable en texte ou CSV,
+ * ou reportable dans la liste de recherche du classeur d'échange.
+ */
+export default function ShoppingListPanel({ deckId }: ShoppingListPanelProps) {
+  const [committed, setCommitted] = useState(false);
+  const [data, setData] = useState<DeckShortfall | null>(null);
+
+  useEffect(() => {
+    api
+      .get<DeckShortfall>(`/decks/${deckId}/shortfall`, { params: { committed } })
+      .then((r) => setData(r.data))
+      .catch(() => setData(null));
+  }, [deckId, committed]);
+
+  const download = async (format: 'csv' | 'txt') => {
+    try {
+      const response = await api.get<Blob>(`/decks/${deckId}/shortfall`, {
+        params: { committed, format },
+        responseType: 'blob',
+      });
+      const url = URL.createObjectURL(response.data);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `liste-achats.${format}`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      // toast déjà émis par l'intercepteur axios
+    }
+  };
+
+  /** Reporte les manquants dans la liste de recherche du classeur d'échange. */
+  const addToWants = async () => {
+    if (!data) return;
+    try {
+      await binderApi.addWants(data.lines.map((l) => ({ card_id: l.card_id, quantity: l.missing })));
+      toast.success('Cartes ajoutées à ta liste de recherche');
+    } catch {
+      // toast déjà émis par l'intercepteur axios
+    }
+  };
+
+  if (!data) return null;
+
+  return (
+    <div
+      style={{
+        background: 'var(--panel)',
+        border: '1px solid var(--border)',
+        clipPath: CUT_PANEL,
+        padding: '18px 20px',
+      }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 10, marginBottom: 4 }}>
+        <h3
+          style={{
+            fontFamily: "'Orbitron', sans-serif",
+            fontSize: 12,
+            fontWeight: 700,
+            letterSpacing: '0.16em',
+            textTransform: 'uppercase',
+            color: 'var(--gold)',
+            margin: 0,
+          }}>
+          Liste d'achats
+        </h3>
+        <span style={{ flex: 1, height: 1, background: 'var(--border)' }} />
+      </div>
+
+      <label
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 8,
+          fontSize: 12,
+          color: 'var(--text-muted)',
+          margin: '6px 0 12px',
+          cursor: 'pointer',
+        }}>
+        <input type="checkbox" checked={committed} onChange={(e) => setCommitted(e.target.checked)} />
+        Compter les cartes déjà utilisées dans mes autres decks montés
+      </label>
+
+      {data.lines.length === 0 ? (
+        <p style={{ fontSize: 13, color: 'var(--success)', margin: 0 }}>
+          Tu as tout ce qu'il faut pour monter ce deck.
+        </p>
+      ) : (
+        <>
+          <div
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'baseline',
+              marginBottom: 10,
+            }}>
+            <span style={{ fontSize: 13, color: 'var(--text-muted)' }}>
+              {data.missing_cards} carte{data.missing_cards > 1 ? 's' : ''} à acheter
+            </span>
+            <span
+              style={{
+                fontFamily: "'Orbitron', sans-serif",
+                fontSize: 16,
+                fontWeight: 700,
+                color: 'var(--text)',
+                fontVariantNumeric: 'tabular-nums',
+              }}>
+              {eur(data.total_cost_eur)}
+            </span>
+          </div>
+          {data.unpriced_cards > 0 && (
+            <div style={{ fontSize: 11, color: 'var(--text-dim)', marginBottom: 10 }}>
+              + {data.unpriced_cards} sans cote Cardmarket
+            </div>
+          )}
+
+          <div style={{ maxHeight: 280, overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: 6 }}>
+            {data.lines.map((l) => (
+              <div key={l.card_id} style={{ display: 'flex', alignItems: 'center', gap: 10, fontSize: 13 }}>
+                <span
+                  style={{
+                    fontFamily: "'Orbitron', sans-serif",
+                    fontSize: 11,
+                    color: 'var(--gold)',
+                    minWidth: 22,
+                  }}>
+                  {l.missing}×
+                </span>
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div
+                    style={{
+                      color: 'var(--text)',
+                      whiteSpace: 'nowrap',
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis',
+                    }}>
+                    {l.name}
+                  </div>
+                  {l.cheapest_printing && (
+                    <div style={{ fontSize: 11, color: 'var(--text-dim)' }}>
+                      {l.cheapest_printing.set_code} · {l.cheapest_printing.set_rarity}
+                    </div>
+                  )}
+                </div>
+                <span style={{ fontSize: 12, color: 'var(--text-muted)', fontVariantNumeric: 'tabular-nums' }}>
+                  {l.cost_eur !== null ? eur(l.cost_eur) : '—'}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div style={{ display: 'flex', gap: 8, marginTop: 14 }}>
+            {(['txt', 'csv'] as const).map((format) => (
+              <button
+                key={format}
+                onClick={() => download(format)}
+                style={{
+                  flex: 1,
+                  height: 36,
+                  background: 'var(--bg-elev)',
+                  color: 'var(--text-muted)',
+                  border: '1px solid var(--border)',
+                  fontFamily: "'Orbitron', sans-serif",
+                  fontSize: 10,
+                  letterSpacing: '0.12em',
+                  textTransform: 'uppercase',
+                  cursor: 'pointer',
+                  clipPath: CUT_SM,
+                }}>
+                Exporter .{format}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={addToWants}
+            style={{
+              width: '100%',
+              height: 36,
+              marginTop: 8,
+              background: 'transparent',
+              color: 'var(--gold)',
+              border: '1px solid var(--gold)',
+              fontFamily: "'Orbitron', sans-serif",
+              fontSize: 10,
+              letterSpacing: '0.12em',
+              textTransform: 'uppercase',
+              cursor: 'pointer',
+              clipPath: CUT_SM,
+            }}>
+            Ajouter à ma liste de recherche
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,296 @@
+import { useEffect, useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+import api from '../services/api';
+import { isExtraDeckCard } from '../../../shared/cards';
+import { applySidePlan, describeSidePlan } from '../../../shared/sidePlans';
+import type { Deck, DeckCard, DeckSidePlan, DeckSidePlanMove, DeckSidePlans } from '../../../shared/types';
+
+const CUT_PANEL =
+  'polygon(0 0,calc(100% - 18px) 0,100% 18px,100% 100%,0 100%)';
+const CUT_SM = 'polygon(6px 0,100% 0,100% calc(100% - 6px),calc(100% - 6px) 100%,0 100%,0 6px)';
+
+const buttonStyle = {
+  padding: '5px 10px',
+  background: 'transparent',
+  color: 'var(--text-muted)',
+  border: '1px solid var(--border)',
+  fontSize: 11,
+  cursor: 'pointer',
+  clipPath: CUT_SM,
+};
+
+const headStyle = {
+  fontFamily: "'Orbitron', sans-serif",
+  fontSize: 9,
+  letterSpacing: '0.16em',
+  textTransform: 'uppercase' as const,
+  color: 'var(--text-dim)',
+  fontWeight: 400,
+};
+
+interface PlanCard {
+  card_id: number;
+  name: string;
+  quantity: number;
+}
+
+/** Une ligne par carte, quantités cumulées, triée par nom. */
+function groupCards(cards: DeckCard[]): PlanCard[] {
+  const byId = new Map<number, PlanCard>();
+  for (const dc of cards) {
+    const cur = byId.get(dc.card_id);
+    if (cur) cur.quantity += dc.quantity;
+    else byId.set(dc.card_id, { card_id: dc.card_id, name: dc.card?.name || `Carte #${dc.card_id}`, quantity: dc.quantity });
+  }
+  return [...byId.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+const toMoves = (counts: Record<number, number>): DeckSidePlanMove[] =>
+  Object.entries(counts)
+    .filter(([, n]) => n > 0)
+    .map(([id, quantity]) => ({ card_id: Number(id), quantity }));
+
+const toCounts = (moves: DeckSidePlanMove[]): Record<number, number> =>
+  Object.fromEntries(moves.map((m) => [m.card_id, m.quantity]));
+
+interface SidePlansPanelProps {
+  deck: Deck;
+}
+
+/**
+ * Plans de side par matchup (« vs Snake-Eye : -2 Maxx "C", +2 Droll »),
+ * réservés au propriétaire. Ils reviennent en un clic dans l'écran de
+ * sideboard entre deux manches d'un match. Le bilan (tailles, cartes
+ * manquantes) est recalculé en direct avec les règles du serveur.
+ */
+export default function SidePlansPanel({ deck }: SidePlansPanelProps) {
+  const [plans, setPlans] = useState<DeckSidePlans['plans']>([]);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<{ name: string; out: Record<number, number>; in: Record<number, number> }>({
+    name: '',
+    out: {},
+    in: {},
+  });
+
+  const outCards = useMemo(
+    () => groupCards([...(deck.main_deck || []), ...(deck.extra_deck || [])]),
+    [deck.main_deck, deck.extra_deck]
+  );
+  const sideCards = useMemo(() => groupCards(deck.side_deck || []), [deck.side_deck]);
+
+  useEffect(() => {
+    api
+      .get<DeckSidePlans>(`/decks/${deck.id}/side-plans`)
+      .then((r) => setPlans(r.data.plans))
+      .catch(() => setPlans([]));
+  }, [deck.id, deck.updated_at]);
+
+  // Même calcul que le serveur, pour afficher le bilan avant d'enregistrer
+  const preview = useMemo(() => {
+    const all = [...(deck.main_deck || []), ...(deck.extra_deck || []), ...(deck.side_deck || [])];
+    const cards = new Map(all.map((dc) => [dc.card_id, dc.card]));
+    const expand = (list: DeckCard[] = []) => list.flatMap((dc) => Array(dc.quantity).fill(dc.card_id));
+    return applySidePlan(
+      { main: expand(deck.main_deck), extra: expand(deck.extra_deck), side: expand(deck.side_deck) },
+      { name: draft.name, out: toMoves(draft.out), in: toMoves(draft.in) },
+      {
+        isExtra: (id) => {
+          const card = cards.get(id);
+          return card ? isExtraDeckCard(card) : false;
+        },
+        nameOf: (id) => cards.get(id)?.name || `#${id}`,
+      }
+    );
+  }, [deck.main_deck, deck.extra_deck, deck.side_deck, draft]);
+
+  const save = async (next: DeckSidePlan[]) => {
+    try {
+      const r = await api.put<DeckSidePlans>(`/decks/${deck.id}/side-plans`, {
+        plans: next.map(({ name, out, in: cardsIn }) => ({ name, out, in: cardsIn })),
+      });
+      setPlans(r.data.plans);
+      return true;
+    } catch {
+      // toast déjà émis par l'intercepteur axios
+      return false;
+    }
+  };
+
+  const savePlan = async () => {
+    const name = draft.name.trim();
+    const plan = { name, out: toMoves(draft.out), in: toMoves(draft.in) };
+    if (!name || plan.out.length + plan.in.length === 0) {
+      toast.error('Donne un nom et au moins un échange');
+      return;
+    }
+    // Même nom : le plan est remplacé à sa place
+    const exists = plans.some((p) => p.name.toLowerCase() === name.toLowerCase());
+    const next = exists
+      ? plans.map((p) => (p.name.toLowerCase() === name.toLowerCase() ? plan : p))
+      : [...plans, plan];
+    if (await save(next)) {
+      setDraft({ name: '', out: {}, in: {} });
+      toast.success(`Plan « ${name} » enregistré`);
+    }
+  };
+
+  const editPlan = (plan: DeckSidePlan) => {
+    setDraft({ name: plan.name, out: toCounts(plan.out), in: toCounts(plan.in) });
+    setEditing(true);
+  };
+
+  const nameOf = (id: number) =>
+    outCards.find((c) => c.card_id === id)?.name || sideCards.find((c) => c.card_id === id)?.name || `#${id}`;
+  const movesLabel = (moves: DeckSidePlanMove[], sign: string) =>
+    moves.map((m) => `${sign}${m.quantity} ${nameOf(m.card_id)}`).join(', ');
+
+  if (sideCards.length === 0 && plans.length === 0) return null;
+
+  const stepper = (key: 'out' | 'in', card: PlanCard) => {
+    const value = draft[key][card.card_id] || 0;
+    const set = (n: number) => setDraft({ ...draft, [key]: { ...draft[key], [card.card_id]: n } });
+    return (
+      <div key={card.card_id} style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12 }}>
+        <span
+          style={{
+            flex: 1,
+            minWidth: 0,
+            color: value > 0 ? 'var(--text)' : 'var(--text-muted)',
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+            whiteSpace: 'nowrap',
+          }}>
+          {card.quantity}× {card.name}
+        </span>
+        <button onClick={() => set(Math.max(0, value - 1))} disabled={value === 0} style={{ ...buttonStyle, padding: '1px 7px' }}>
+          −
+        </button>
+        <span
+          style={{
+            minWidth: 22,
+            textAlign: 'center',
+            fontVariantNumeric: 'tabular-nums',
+            color: value > 0 ? (key === 'out' ? 'var(--danger)' : 'var(--success)') : 'var(--text-dim)',
+          }}>
+          {value > 0 ? `${key === 'out' ? '-' : '+'}${value}` : '0'}
+        </span>
+        <button
+          onClick={() => set(Math.min(card.quantity, value + 1))}
+          disabled={value >= card.quantity}
+          style={{ ...buttonStyle, padding: '1px 7px' }}>
+          +
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div
+      style={{
+        background: 'var(--panel)',
+        border: '1px solid var(--border)',
+        clipPath: CUT_PANEL,
+        padding: '18px 20px',
+      }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 10, marginBottom: 12 }}>
+        <h3
+          style={{
+            fontFamily: "'Orbitron', sans-serif",
+            fontSize: 12,
+            fontWeight: 700,
+            letterSpacing: '0.16em',
+            textTransform: 'uppercase',
+            color: 'var(--gold)',
+            margin: 0,
+          }}>
+          Plans de side
+        </h3>
+        <span style={{ flex: 1, height: 1, background: 'var(--border)' }} />
+      </div>
+
+      {plans.length === 0 && (
+        <p style={{ fontSize: 12, color: 'var(--text-dim)', margin: '0 0 10px' }}>
+          Prépare tes échanges par matchup : ils te seront proposés entre deux manches.
+        </p>
+      )}
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+        {plans.map((plan) => (
+          <div key={plan.name} style={{ fontSize: 12, borderTop: '1px solid rgba(58,46,28,.6)', paddingTop: 6 }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+              <button
+                onClick={() => editPlan(plan)}
+                title="Modifier ce plan"
+                style={{ background: 'transparent', border: 0, padding: 0, color: 'var(--text)', fontSize: 13, cursor: 'pointer' }}>
+                {plan.name}
+              </button>
+              <span style={{ color: 'var(--gold)', fontVariantNumeric: 'tabular-nums' }}>{describeSidePlan(plan)}</span>
+              <span style={{ flex: 1 }} />
+              <button
+                onClick={() => save(plans.filter((p) => p.name !== plan.name))}
+                title="Supprimer ce plan"
+                style={{ background: 'transparent', border: 0, color: 'var(--text-dim)', cursor: 'pointer' }}>
+                ×
+              </button>
+            </div>
+            {plan.out.length > 0 && <div style={{ color: 'var(--text-muted)' }}>{movesLabel(plan.out, '-')}</div>}
+            {plan.in.length > 0 && <div style={{ color: 'var(--text-muted)' }}>{movesLabel(plan.in, '+')}</div>}
+            {plan.problems.map((p) => (
+              <div key={p} style={{ color: 'var(--danger)' }}>
+                {p}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={() => setEditing(!editing)}
+        style={{ ...buttonStyle, marginTop: 12, color: 'var(--gold)', borderColor: 'var(--gold)' }}>
+        {editing ? 'Fermer' : 'Nouveau plan'}
+      </button>
+
+      {editing && (
+        <div style={{ marginTop: 14, paddingTop: 12, borderTop: '1px dashed var(--border)', display: 'flex', flexDirection: 'column', gap: 8 }}>
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="vs Snake-Eye"
+            maxLength={60}
+            style={{
+              padding: '7px 10px',
+              background: 'var(--bg-sunken)',
+              border: '1px solid var(--border)',
+              color: 'var(--text)',
+              fontSize: 13,
+            }}
+          />
+          <div style={headStyle}>Sortir (Main / Extra)</div>
+          <div style={{ maxHeight: 220, overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: 4 }}>
+            {outCards.map((c) => stepper('out', c))}
+          </div>
+          <div style={headStyle}>Rentrer (Side)</div>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>{sideCards.map((c) => stepper('in', c))}</div>
+
+          <div style={{ fontSize: 12, color: 'var(--text-muted)' }}>
+            Après le side : Main {preview.sections.main.length} · Extra {preview.sections.extra.length} · Side{' '}
+            {preview.sections.side.length}
+          </div>
+          {preview.problems.map((p) => (
+            <div key={p} style={{ fontSize: 12, color: 'var(--danger)' }}>
+              {p}
+            </div>
+          ))}
+          <div style={{ display: 'flex', gap: 8 }}>
+            <button onClick={savePlan} style={{ ...buttonStyle, color: 'var(--gold)', borderColor: 'var(--gold)' }}>
+              Enregistrer le plan
+            </button>
+            <button onClick={() => setDraft({ name: '', out: {}, in: {} })} style={buttonStyle}>
+              Vider
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
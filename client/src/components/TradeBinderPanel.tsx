@@ -0,0 +1,160 @@
+import type { TradeBinder, WantListEntry } from '../../../shared/types';
+import { CONDITION_LABELS } from '../../../shared/collection';
+
+const CUT_PANEL =
+  'polygon(0 0,calc(100% - 18px) 0,100% 18px,100% 100%,0 100%)';
+const CUT_SM = 'polygon(6px 0,100% 0,100% calc(100% - 6px),calc(100% - 6px) 100%,0 100%,0 6px)';
+
+const eur = (n: number) =>
+  n.toLocaleString('fr-FR', { style: 'currency', currency: 'EUR', maximumFractionDigits: 2 });
+
+interface TradeBinderPanelProps {
+  binder: TradeBinder;
+  /** cards.id que je recherche : surligne ses cartes à l'échange qui m'intéressent. */
+  myWants?: Set<number>;
+  /** cards.id que j'ai à l'échange : surligne ses recherches que je peux satisfaire. */
+  myHaves?: Set<number>;
+  /** Fourni sur mon propre classeur : bouton de retrait sur chaque recherche. */
+  onRemoveWant?: (cardId: number) => void;
+  /** Fourni sur mon propre classeur : modification du prix cible d'une recherche. */
+  onEditTarget?: (want: WantListEntry) => void;
+}
+
+function Column({ title, children, empty }: { title: string; children: React.ReactNode[]; empty: string }) {
+  return (
+    <div
+      style={{
+        flex: 1,
+        minWidth: 260,
+        background: 'var(--panel)',
+        border: '1px solid var(--border)',
+        clipPath: CUT_PANEL,
+        padding: '16px 18px',
+      }}>
+      <div
+        style={{
+          fontFamily: "'Orbitron', sans-serif",
+          fontSize: 11,
+          fontWeight: 700,
+          letterSpacing: '0.16em',
+          textTransform: 'uppercase',
+          color: 'var(--gold)',
+          marginBottom: 10,
+        }}>
+        {title}
+      </div>
+      {children.length === 0 ? (
+        <p style={{ fontSize: 13, color: 'var(--text-dim)', margin: 0 }}>{empty}</p>
+      ) : (
+        <div style={{ maxHeight: 320, overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: 6 }}>
+          {children}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const rowStyle = (highlighted: boolean): React.CSSProperties => ({
+  display: 'flex',
+  alignItems: 'center',
+  gap: 10,
+  fontSize: 13,
+  padding: '4px 6px',
+  background: highlighted ? 'rgba(245,197,24,.08)' : 'transparent',
+  borderLeft: `2px solid ${highlighted ? 'var(--gold)' : 'transparent'}`,
+});
+
+/**
+ * Classeur d'échange : cartes à l'échange d'un côté, liste de recherche de
+ * l'autre. Les correspondances avec mon propre classeur sont surlignées.
+ */
+export default function TradeBinderPanel({
+  binder,
+  myWants,
+  myHaves,
+  onRemoveWant,
+  onEditTarget,
+}: TradeBinderPanelProps) {
+  return (
+    <div style={{ display: 'flex', gap: 18, flexWrap: 'wrap' }}>
+      <Column title="À l'échange" empty="Aucune carte proposée pour l'instant.">
+        {binder.haves.map((c) => (
+          <div key={c.user_card_id} style={rowStyle(!!myWants?.has(c.card_id))}>
+            <span style={{ fontFamily: "'Orbitron', sans-serif", fontSize: 11, color: 'var(--gold)', minWidth: 22 }}>
+              {c.quantity}×
+            </span>
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <div style={{ color: 'var(--text)', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                {c.name}
+              </div>
+              <div style={{ fontSize: 11, color: 'var(--text-dim)' }}>
+                {c.set_code} · {c.rarity} · {c.language} · {CONDITION_LABELS[c.condition] || c.condition}
+              </div>
+            </div>
+          </div>
+        ))}
+      </Column>
+
+      <Column title="Recherche" empty="Aucune carte recherchée.">
+        {binder.wants.map((w) => (
+          <div key={w.card_id} style={rowStyle(!!myHaves?.has(w.card_id))}>
+            <span style={{ fontFamily: "'Orbitron', sans-serif", fontSize: 11, color: 'var(--violet)', minWidth: 22 }}>
+              {w.quantity}×
+            </span>
+            <div
+              style={{
+                flex: 1,
+                minWidth: 0,
+                color: 'var(--text)',
+                whiteSpace: 'nowrap',
+                overflow: 'hidden',
+                textOverflow: 'ellipsis',
+              }}>
+              {w.name}
+            </div>
+            {onEditTarget && (
+              <button
+                onClick={() => onEditTarget(w)}
+                title={
+                  w.alerted_price_eur !== null
+                    ? `Alerte envoyée : ${eur(w.alerted_price_eur)}`
+                    : w.unit_price_eur !== null
+                      ? `Cote actuelle : ${eur(w.unit_price_eur)}`
+                      : undefined
+                }
+                style={{
+                  padding: '0 8px',
+                  height: 24,
+                  background: 'transparent',
+                  border: `1px solid ${w.alerted_price_eur !== null ? 'var(--success)' : 'var(--border)'}`,
+                  color: w.target_price_eur !== null ? 'var(--text)' : 'var(--text-dim)',
+                  fontSize: 11,
+                  fontVariantNumeric: 'tabular-nums',
+                  cursor: 'pointer',
+                  clipPath: CUT_SM,
+                }}>
+                {w.target_price_eur !== null ? `≤ ${eur(w.target_price_eur)}` : 'Alerte prix'}
+              </button>
+            )}
+            {onRemoveWant && (
+              <button
+                onClick={() => onRemoveWant(w.card_id)}
+                aria-label={`Retirer ${w.name}`}
+                style={{
+                  width: 24,
+                  height: 24,
+                  background: 'transparent',
+                  border: '1px solid var(--border)',
+                  color: 'var(--danger)',
+                  cursor: 'pointer',
+                  clipPath: CUT_SM,
+                }}>
+                ×
+              </button>
+            )}
+          </div>
+        ))}
+      </Column>
+    </div>
+  );
+}
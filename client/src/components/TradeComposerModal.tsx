@@ -0,0 +1,415 @@
+import { useEffect, useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+import { tradeApi } from '../services/tradeApi';
+import type { Trade, TradeableCard, TradeOfferLine, User } from '../../../shared/types';
+
+interface TradeComposerModalProps {
+  open: boolean;
+  onClose: () => void;
+  onSent: (trade: Trade) => void;
+  currentUserId: number;
+  /** Offre à laquelle on répond : le partenaire est fixé, les lots pré-remplis. */
+  counterOf?: Trade | null;
+  /** Partenaire présélectionné (ex. depuis une correspondance du classeur). */
+  initialPartnerId?: number | null;
+}
+
+type Side = 'mine' | 'theirs';
+type Picks = Record<number, number>; // user_card_id → quantité
+
+const CUT_SM = 'polygon(6px 0,100% 0,100% calc(100% - 6px),calc(100% - 6px) 100%,0 100%,0 6px)';
+const CUT_MODAL = 'polygon(0 0,calc(100% - 20px) 0,100% 20px,100% 100%,20px 100%,0 calc(100% - 20px))';
+
+const eur = (n: number) =>
+  n.toLocaleString('fr-FR', { style: 'currency', currency: 'EUR', maximumFractionDigits: 2 });
+
+const printingKey = (c: Pick<TradeableCard, 'card_id' | 'set_code' | 'rarity' | 'language' | 'condition' | 'edition'>) =>
+  `${c.card_id}|${c.set_code}|${c.rarity}|${c.language}|${c.condition}|${c.edition}`;
+
+/** Lots d'une offre existante retrouvés dans une collection, par clé d'impression. */
+function picksFrom(trade: Trade, fromUserId: number, cards: TradeableCard[]): Picks {
+  const byKey = new Map(cards.map((c) => [printingKey(c), c]));
+  const picks: Picks = {};
+  for (const item of trade.items) {
+    if (item.from_user_id !== fromUserId) continue;
+    const card = byKey.get(printingKey(item));
+    if (card) picks[card.user_card_id] = Math.min(item.quantity, card.quantity);
+  }
+  return picks;
+}
+
+const total = (cards: TradeableCard[], picks: Picks) =>
+  cards.reduce((s, c) => s + (picks[c.user_card_id] ? (c.unit_price_eur || 0) * picks[c.user_card_id] : 0), 0);
+
+const toLines = (picks: Picks): TradeOfferLine[] =>
+  Object.entries(picks)
+    .filter(([, q]) => q > 0)
+    .map(([id, quantity]) => ({ user_card_id: Number(id), quantity }));
+
+/**
+ * Composition d'une offre d'échange : deux colonnes (ma collection, la
+ * sienne), un compteur par ligne et l'équilibre estimé au prix Cardmarket.
+ * Sert aussi aux contre-offres, pré-remplies avec les lots de l'offre reçue.
+ */
+const TradeComposerModal = ({
+  open,
+  onClose,
+  onSent,
+  currentUserId,
+  counterOf,
+  initialPartnerId,
+}: TradeComposerModalProps) => {
+  const [partners, setPartners] = useState<User[]>([]);
+  const [partnerId, setPartnerId] = useState<number | null>(null);
+  const [cards, setCards] = useState<Record<Side, TradeableCard[]>>({ mine: [], theirs: [] });
+  const [picks, setPicks] = useState<Record<Side, Picks>>({ mine: {}, theirs: {} });
+  const [filter, setFilter] = useState<Record<Side, string>>({ mine: '', theirs: '' });
+  const [message, setMessage] = useState('');
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setPicks({ mine: {}, theirs: {} });
+    setFilter({ mine: '', theirs: '' });
+    setMessage('');
+    if (counterOf) {
+      setPartnerId(counterOf.proposer_id);
+    } else {
+      setPartnerId(initialPartnerId ?? null);
+      tradeApi.getPartners().then(setPartners).catch(() => setPartners([]));
+    }
+    tradeApi
+      .getCards(currentUserId)
+      .then((mine) => {
+        setCards((c) => ({ ...c, mine }));
+        if (counterOf) setPicks((p) => ({ ...p, mine: picksFrom(counterOf, currentUserId, mine) }));
+      })
+      .catch(() => undefined);
+  }, [open, counterOf, currentUserId, initialPartnerId]);
+
+  useEffect(() => {
+    if (!open || partnerId === null) {
+      setCards((c) => ({ ...c, theirs: [] }));
+      return;
+    }
+    tradeApi
+      .getCards(partnerId)
+      .then((theirs) => {
+        setCards((c) => ({ ...c, theirs }));
+        setPicks((p) => ({ ...p, theirs: counterOf ? picksFrom(counterOf, partnerId, theirs) : {} }));
+      })
+      .catch(() => setCards((c) => ({ ...c, theirs: [] })));
+  }, [open, partnerId, counterOf]);
+
+  useEffect(() => {
+    if (!open) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', onKey);
+    return () => document.removeEventListener('keydown', onKey);
+  }, [open, onClose]);
+
+  const gives = useMemo(() => total(cards.mine, picks.mine), [cards.mine, picks.mine]);
+  const receives = useMemo(() => total(cards.theirs, picks.theirs), [cards.theirs, picks.theirs]);
+
+  if (!open) return null;
+
+  const setQty = (side: Side, card: TradeableCard, quantity: number) => {
+    const q = Math.max(0, Math.min(card.quantity, quantity));
+    setPicks((p) => ({ ...p, [side]: { ...p[side], [card.user_card_id]: q } }));
+  };
+
+  const offered = toLines(picks.mine);
+  const requested = toLines(picks.theirs);
+  const canSend = partnerId !== null && offered.length + requested.length > 0 && !sending;
+
+  const send = async () => {
+    if (!canSend || partnerId === null) return;
+    setSending(true);
+    try {
+      const body = { offered, requested, message: message.trim() || undefined };
+      const trade = counterOf
+        ? await tradeApi.counter(counterOf.id, body)
+        : await tradeApi.create({ recipient_id: partnerId, ...body });
+      toast.success(counterOf ? 'Contre-offre envoyée' : 'Offre envoyée');
+      onSent(trade);
+      onClose();
+    } catch {
+      // toast déjà émis par l'intercepteur axios
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const partnerName = counterOf
+    ? counterOf.proposer?.username
+    : partners.find((p) => p.id === partnerId)?.username;
+
+  const renderSide = (side: Side, title: string) => {
+    const q = filter[side].trim().toLowerCase();
+    const list = q ? cards[side].filter((c) => c.name.toLowerCase().includes(q)) : cards[side];
+    return (
+      <div style={{ flex: 1, minWidth: 0 }}>
+        <div
+          style={{
+            fontFamily: "'Orbitron', sans-serif",
+            fontSize: 11,
+            fontWeight: 700,
+            letterSpacing: '0.14em',
+            textTransform: 'uppercase',
+            color: 'var(--gold)',
+            marginBottom: 8,
+          }}>
+          {title}
+        </div>
+        <input
+          value={filter[side]}
+          onChange={(e) => setFilter((f) => ({ ...f, [side]: e.target.value }))}
+          placeholder="Filtrer…"
+          style={{
+            width: '100%',
+            height: 34,
+            padding: '0 10px',
+            marginBottom: 8,
+            background: 'var(--bg-elev)',
+            border: '1px solid var(--border)',
+            color: 'var(--text)',
+            fontSize: 13,
+          }}
+        />
+        <div style={{ maxHeight: 300, overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: 6 }}>
+          {list.length === 0 && (
+            <p style={{ fontSize: 12, color: 'var(--text-dim)', margin: '8px 0' }}>Aucune carte.</p>
+          )}
+          {list.map((c) => {
+            const picked = picks[side][c.user_card_id] || 0;
+            return (
+              <div
+                key={c.user_card_id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 8,
+                  padding: '6px 8px',
+                  fontSize: 12,
+                  background: picked ? 'rgba(245,197,24,.08)' : 'transparent',
+                  border: `1px solid ${picked ? 'var(--gold)' : 'var(--border)'}`,
+                }}>
+                {c.image_url_small && (
+                  <img src={c.image_url_small} alt="" style={{ width: 26, height: 38, objectFit: 'cover' }} />
+                )}
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div style={{ color: 'var(--text)', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                    {c.name}
+                  </div>
+                  <div style={{ fontSize: 11, color: 'var(--text-dim)' }}>
+                    {c.set_code} · {c.rarity} · {c.condition} · ×{c.quantity}
+                    {c.unit_price_eur ? ` · ${eur(c.unit_price_eur)}` : ''}
+                    {c.for_trade > 0 && <span style={{ color: 'var(--gold)' }}> · {c.for_trade} à l'échange</span>}
+                  </div>
+                </div>
+                <button
+                  onClick={() => setQty(side, c, picked - 1)}
+                  disabled={picked === 0}
+                  aria-label="Retirer un exemplaire"
+                  style={{ width: 24, height: 24, background: 'var(--bg-elev)', border: '1px solid var(--border)', color: 'var(--text)', cursor: 'pointer' }}>
+                  −
+                </button>
+                <span style={{ minWidth: 16, textAlign: 'center', color: 'var(--text)', fontVariantNumeric: 'tabular-nums' }}>
+                  {picked}
+                </span>
+                <button
+                  onClick={() => setQty(side, c, picked + 1)}
+                  disabled={picked >= c.quantity}
+                  aria-label="Ajouter un exemplaire"
+                  style={{ width: 24, height: 24, background: 'var(--bg-elev)', border: '1px solid var(--border)', color: 'var(--text)', cursor: 'pointer' }}>
+                  +
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  const diff = receives - gives;
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="trade-composer-title"
+      onClick={onClose}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(3,2,1,.86)',
+        backdropFilter: 'blur(8px)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 100,
+        padding: 16,
+      }}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          background: 'linear-gradient(160deg,var(--panel),var(--bg))',
+          border: '1px solid var(--border)',
+          boxShadow: '0 40px 80px rgba(0,0,0,.6),0 0 60px rgba(245,197,24,.08)',
+          padding: 32,
+          maxWidth: 900,
+          width: '100%',
+          maxHeight: '90vh',
+          overflowY: 'auto',
+          clipPath: CUT_MODAL,
+        }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
+          <div>
+            <div
+              style={{
+                fontFamily: "'Cormorant Garamond', serif",
+                fontStyle: 'italic',
+                fontSize: 11,
+                letterSpacing: '0.3em',
+                color: 'var(--gold)',
+                textTransform: 'uppercase',
+              }}>
+              — {counterOf ? 'Contre-offre' : 'Nouvel échange'} —
+            </div>
+            <h2
+              id="trade-composer-title"
+              style={{
+                margin: '6px 0 0',
+                fontFamily: "'Orbitron', sans-serif",
+                fontSize: 22,
+                fontWeight: 900,
+                letterSpacing: '0.04em',
+                textTransform: 'uppercase',
+                color: 'var(--text)',
+              }}>
+              {partnerName ? `Échange avec @${partnerName}` : 'Proposer un échange'}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            aria-label="Fermer"
+            style={{
+              background: 'transparent',
+              border: 0,
+              color: 'var(--text-muted)',
+              fontSize: 26,
+              cursor: 'pointer',
+              lineHeight: 1,
+            }}>
+            ×
+          </button>
+        </div>
+
+        {!counterOf && (
+          <div style={{ margin: '18px 0' }}>
+            {partners.length === 0 ? (
+              <p style={{ fontSize: 13, color: 'var(--text-muted)', margin: 0 }}>
+                Les échanges se font entre abonnés mutuels : suis un duelliste qui te suit aussi.
+              </p>
+            ) : (
+              <select
+                value={partnerId ?? ''}
+                onChange={(e) => setPartnerId(e.target.value ? Number(e.target.value) : null)}
+                style={{
+                  height: 38,
+                  padding: '0 10px',
+                  background: 'var(--bg-elev)',
+                  border: '1px solid var(--border)',
+                  color: 'var(--text)',
+                  minWidth: 240,
+                }}>
+                <option value="">Choisir un partenaire…</option>
+                {partners.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    @{p.username}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+        )}
+
+        <div style={{ display: 'flex', gap: 20, flexWrap: 'wrap', marginTop: counterOf ? 18 : 0 }}>
+          {renderSide('mine', 'Je donne')}
+          {partnerId !== null && renderSide('theirs', `Je reçois de @${partnerName ?? '…'}`)}
+        </div>
+
+        <div
+          style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'baseline',
+            marginTop: 18,
+            padding: '12px 14px',
+            background: 'var(--bg-elev)',
+            border: '1px solid var(--border)',
+            fontSize: 13,
+            color: 'var(--text-muted)',
+          }}>
+          <span>
+            Je donne {eur(gives)} · je reçois {eur(receives)}
+          </span>
+          <span
+            style={{
+              fontFamily: "'Orbitron', sans-serif",
+              fontWeight: 700,
+              color: Math.abs(diff) < 0.01 ? 'var(--text)' : diff > 0 ? 'var(--success)' : 'var(--danger)',
+            }}>
+            {diff > 0 ? '+' : ''}
+            {eur(diff)}
+          </span>
+        </div>
+
+        <textarea
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          maxLength={500}
+          rows={2}
+          placeholder="Un mot pour accompagner l'offre (facultatif)"
+          style={{
+            width: '100%',
+            marginTop: 12,
+            padding: 10,
+            background: 'var(--bg-elev)',
+            border: '1px solid var(--border)',
+            color: 'var(--text)',
+            fontSize: 13,
+            resize: 'vertical',
+          }}
+        />
+
+        <button
+          onClick={send}
+          disabled={!canSend}
+          style={{
+            width: '100%',
+            height: 44,
+            marginTop: 14,
+            background: 'var(--gold)',
+            color: 'var(--bg)',
+            border: 0,
+            fontFamily: "'Orbitron', sans-serif",
+            fontSize: 11,
+            fontWeight: 700,
+            letterSpacing: '0.12em',
+            textTransform: 'uppercase',
+            cursor: canSend ? 'pointer' : 'not-allowed',
+            opacity: canSend ? 1 : 0.6,
+            clipPath: CUT_SM,
+          }}>
+          {counterOf ? 'Envoyer la contre-offre' : "Envoyer l'offre"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TradeComposerModal;
@@ -14,6 +14,9 @@ interface NotificationContextType {
   markAllAsRead: () => Promise<void>;
 }
 
+const eur = (n: number) =>
+  n.toLocaleString('fr-FR', { style: 'currency', currency: 'EUR', maximumFractionDigits: 2 });
+
 const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
 
 export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
@@ -103,6 +106,18 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
         return `${username} a commenté votre deck`;
       case 'reply':
         return `${username} a répondu à votre commentaire`;
+      case 'trade_offer':
+        return `${username} vous propose un échange`;
+      case 'trade_counter':
+        return `${username} a fait une contre-offre`;
+      case 'trade_accepted':
+        return `${username} a accepté votre échange`;
+      case 'trade_declined':
+        return `${username} a refusé votre échange`;
+      case 'trade_cancelled':
+        return `${username} a annulé son offre d'échange`;
+      case 'price_alert':
+        return `${notification.card?.name || 'Une carte recherchée'} est passée à ${eur(notification.price_eur ?? 0)} sur Cardmarket`;
       default:
         return 'Nouvelle notification';
     }
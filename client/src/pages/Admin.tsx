@@ -3,11 +3,12 @@ import { useNavigate, useSearchParams } from 'react-router-dom';
 import toast from 'react-hot-toast';
 import { useAuth } from '../context/AuthContext';
 import { adminApi, AdminStats, AdminUser, AdminDeck, AdminComment } from '../services/api';
+import type { DuelPuzzle } from '../../../shared/duelView';
 import AppNavbar from '../components/AppNavbar';
 import { useDebounce } from '../hooks/useDebounce';
 
-type Tab = 'dashboard' | 'users' | 'decks' | 'comments';
-const VALID_TABS: Tab[] = ['dashboard', 'users', 'decks', 'comments'];
+type Tab = 'dashboard' | 'users' | 'decks' | 'comments' | 'puzzles';
+const VALID_TABS: Tab[] = ['dashboard', 'users', 'decks', 'comments', 'puzzles'];
 
 const Admin = () => {
   const { user } = useAuth();
@@ -47,7 +48,7 @@ const Admin = () => {
         {/* Tabs */}
         <div className="border-b border-gray-200 mb-6 overflow-x-auto">
           <nav className="-mb-px flex gap-4">
-            {(['dashboard', 'users', 'decks', 'comments'] as Tab[]).map((t) => (
+            {VALID_TABS.map((t) => (
               <button
                 key={t}
                 onClick={() => setTab(t)}
@@ -61,6 +62,7 @@ const Admin = () => {
                 {t === 'users' && '👥 '}
                 {t === 'decks' && '🃏 '}
                 {t === 'comments' && '💬 '}
+                {t === 'puzzles' && '🧩 '}
                 {t}
               </button>
             ))}
@@ -71,6 +73,7 @@ const Admin = () => {
         {tab === 'users' && <UsersTab currentUserId={user.id} />}
         {tab === 'decks' && <DecksTab />}
         {tab === 'comments' && <CommentsTab />}
+        {tab === 'puzzles' && <PuzzlesTab />}
       </div>
     </div>
   );
@@ -556,6 +559,206 @@ const CommentsTab = () => {
   );
 };
 
+// ─── PUZZLES TAB ─────────────────────────────────────────────────
+
+/** Modèle de départ d'un nouveau puzzle : le format attendu par le serveur. */
+const EMPTY_SETUP = {
+  goal: 'win_this_turn',
+  player: { lp: 8000, hand: [], deck: [], extra: [], monsters: [], spells: [], graveyard: [], banished: [] },
+  opponent: { lp: 8000, hand: [], deck: [], extra: [], monsters: [], spells: [], graveyard: [], banished: [] },
+};
+
+interface PuzzleDraft {
+  id: number | null;
+  title: string;
+  description: string;
+  difficulty: number;
+  setup: string;
+}
+
+const PuzzlesTab = () => {
+  const [puzzles, setPuzzles] = useState<DuelPuzzle[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [draft, setDraft] = useState<PuzzleDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetch = () => {
+    setLoading(true);
+    adminApi.listPuzzles()
+      .then(setPuzzles)
+      .catch(() => toast.error('Erreur chargement puzzles'))
+      .finally(() => setLoading(false));
+  };
+
+  useEffect(() => { fetch(); }, []);
+
+  const edit = (p: DuelPuzzle | null) =>
+    setDraft({
+      id: p?.id ?? null,
+      title: p?.title ?? '',
+      description: p?.description ?? '',
+      difficulty: p?.difficulty ?? 1,
+      setup: JSON.stringify(p?.setup ?? EMPTY_SETUP, null, 2),
+    });
+
+  const handleSave = async () => {
+    if (!draft) return;
+    let setup: unknown;
+    try {
+      setup = JSON.parse(draft.setup);
+    } catch {
+      toast.error('Plateaux : JSON invalide');
+      return;
+    }
+    const payload = { title: draft.title, description: draft.description, difficulty: draft.difficulty, setup };
+    setSaving(true);
+    try {
+      if (draft.id) await adminApi.updatePuzzle(draft.id, payload);
+      else await adminApi.createPuzzle(payload);
+      toast.success(`Puzzle "${draft.title}" enregistré`);
+      setDraft(null);
+      fetch();
+    } catch (err: any) {
+      toast.error(err?.response?.data?.error || 'Erreur');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: number, title: string) => {
+    if (!confirm(`Supprimer le puzzle "${title}" ? Les essais des joueurs sont effacés.`)) return;
+    try {
+      await adminApi.deletePuzzle(id);
+      toast.success(`Puzzle "${title}" supprimé`);
+      fetch();
+    } catch (err: any) {
+      toast.error(err?.response?.data?.error || 'Erreur');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-4 border-b flex justify-between items-center gap-3">
+        <p className="text-sm text-gray-600">
+          Plateaux de départ en JSON : passcodes, zones de monstres (7 max, 5-6 = Extra Monster Zones) et de
+          magies/pièges (6 max, 5 = Terrain). Objectif : <code>win_this_turn</code>.
+        </p>
+        <button
+          onClick={() => edit(null)}
+          className="shrink-0 px-3 py-2 rounded-lg bg-purple-600 text-white text-sm font-semibold hover:bg-purple-700"
+        >
+          + Nouveau puzzle
+        </button>
+      </div>
+
+      {draft && (
+        <div className="p-4 border-b bg-gray-50 space-y-3">
+          <div className="flex gap-3">
+            <input
+              type="text"
+              value={draft.title}
+              onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+              placeholder="Titre"
+              maxLength={80}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-sm"
+            />
+            <select
+              value={draft.difficulty}
+              onChange={(e) => setDraft({ ...draft, difficulty: Number(e.target.value) })}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            >
+              {[1, 2, 3, 4, 5].map((d) => (
+                <option key={d} value={d}>Difficulté {d}</option>
+              ))}
+            </select>
+          </div>
+          <input
+            type="text"
+            value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            placeholder="Indice ou consigne (facultatif)"
+            maxLength={500}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-sm"
+          />
+          <textarea
+            value={draft.setup}
+            onChange={(e) => setDraft({ ...draft, setup: e.target.value })}
+            rows={16}
+            spellCheck={false}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none text-xs font-mono"
+          />
+          <div className="flex gap-2 justify-end">
+            <button onClick={() => setDraft(null)} className="px-3 py-1 border rounded text-sm">
+              Annuler
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving || !draft.title.trim()}
+              className="px-3 py-1 rounded bg-purple-600 text-white text-sm font-semibold disabled:opacity-30"
+            >
+              {saving ? 'Enregistrement…' : 'Enregistrer'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="p-8 text-center text-gray-500">Chargement…</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-500 text-xs uppercase">
+              <tr>
+                <th className="py-2 px-3 text-left">ID</th>
+                <th className="py-2 px-3 text-left">Titre</th>
+                <th className="py-2 px-3 text-right">Difficulté</th>
+                <th className="py-2 px-3 text-right">LP adverses</th>
+                <th className="py-2 px-3 text-left">Modifié</th>
+                <th className="py-2 px-3 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {puzzles.map((p) => (
+                <tr key={p.id} className="border-b hover:bg-gray-50">
+                  <td className="py-2 px-3">{p.id}</td>
+                  <td className="py-2 px-3">
+                    <div className="font-medium">{p.title}</div>
+                    {p.description && <div className="text-xs text-gray-500">{p.description}</div>}
+                  </td>
+                  <td className="py-2 px-3 text-right font-mono">{p.difficulty}</td>
+                  <td className="py-2 px-3 text-right font-mono">{p.setup.opponent.lp}</td>
+                  <td className="py-2 px-3 text-gray-500 text-xs">
+                    {new Date(p.updatedAt).toLocaleDateString('fr-FR')}
+                  </td>
+                  <td className="py-2 px-3 text-right space-x-2 whitespace-nowrap">
+                    <button
+                      onClick={() => edit(p)}
+                      className="text-purple-600 hover:text-purple-800 text-xs font-semibold"
+                    >
+                      Modifier
+                    </button>
+                    <button
+                      onClick={() => handleDelete(p.id, p.title)}
+                      className="text-red-600 hover:text-red-800 text-xs font-semibold"
+                    >
+                      Supprimer
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {puzzles.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="p-8 text-center text-gray-500">Aucun puzzle</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
 // ─── PAGINATION ──────────────────────────────────────────────────
 
 const Pagination = ({
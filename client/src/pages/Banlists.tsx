@@ -0,0 +1,357 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { useAuth } from '../context/AuthContext';
+import AppNavbar from '../components/AppNavbar';
+import { banlistApi } from '../services/banlistApi';
+import type { Banlist, BanlistFormat, BanlistImpact } from '../../../shared/types';
+
+/**
+ * `/banlists` — listes datées (TCG, OCG, GOAT, maison).
+ *
+ * Sélectionner une liste affiche ce qu'elle change par rapport à la
+ * précédente du même format, et lesquels de mes decks « banlist » elle rend
+ * illégaux (en tête ceux qui étaient encore légaux). L'import accepte le
+ * format `lflist.conf` d'EDOPro ; les listes officielles sont réservées aux
+ * admins, chacun peut publier une liste maison.
+ */
+
+const CUT_PANEL = 'polygon(0 0,calc(100% - 18px) 0,100% 18px,100% 100%,0 100%)';
+const CUT_SM = 'polygon(6px 0,100% 0,100% calc(100% - 6px),calc(100% - 6px) 100%,0 100%,0 6px)';
+
+const FORMAT_LABELS: Record<BanlistFormat, string> = {
+  tcg: 'TCG',
+  ocg: 'OCG',
+  goat: 'GOAT',
+  custom: 'Maison',
+};
+
+const LIMIT_LABELS = ['Interdite', 'Limitée', 'Semi-limitée', 'Illimitée'];
+const LIMIT_COLORS = ['var(--danger)', 'var(--gold)', 'var(--violet)', 'var(--success)'];
+
+const actionButton = (variant: 'gold' | 'ghost' | 'danger') => ({
+  height: 34,
+  padding: '0 14px',
+  background: variant === 'gold' ? 'var(--gold)' : 'var(--bg-elev)',
+  color: variant === 'gold' ? 'var(--bg)' : variant === 'danger' ? 'var(--danger)' : 'var(--text-muted)',
+  border: variant === 'gold' ? 0 : `1px solid ${variant === 'danger' ? 'var(--danger)' : 'var(--border)'}`,
+  fontFamily: "'Orbitron', sans-serif",
+  fontSize: 10,
+  fontWeight: 700,
+  letterSpacing: '0.12em',
+  textTransform: 'uppercase' as const,
+  cursor: 'pointer',
+  clipPath: CUT_SM,
+});
+
+const field = {
+  height: 36,
+  padding: '0 10px',
+  background: 'var(--bg-elev)',
+  border: '1px solid var(--border)',
+  color: 'var(--text)',
+  fontSize: 13,
+};
+
+const sectionTitle = {
+  fontSize: 11,
+  color: 'var(--text-dim)',
+  textTransform: 'uppercase' as const,
+  letterSpacing: '0.12em',
+  marginBottom: 8,
+};
+
+const formatDate = (iso: string) =>
+  new Date(`${iso}T00:00:00`).toLocaleDateString('fr-FR', { day: 'numeric', month: 'short', year: 'numeric' });
+
+function LimitBadge({ limit }: { limit: number }) {
+  return (
+    <span style={{ fontSize: 11, color: LIMIT_COLORS[limit] ?? 'var(--text-muted)', whiteSpace: 'nowrap' }}>
+      {LIMIT_LABELS[limit] ?? limit}
+    </span>
+  );
+}
+
+function ImportPanel({ staff, onImported }: { staff: boolean; onImported: (lists: Banlist[]) => void }) {
+  const [content, setContent] = useState('');
+  const [format, setFormat] = useState<BanlistFormat | ''>(staff ? '' : 'custom');
+  const [name, setName] = useState('');
+  const [date, setDate] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const readFile = async (file: File | undefined) => {
+    if (file) setContent(await file.text());
+  };
+
+  const submit = async () => {
+    setBusy(true);
+    try {
+      const lists = await banlistApi.importLflist({
+        content,
+        format: format || undefined,
+        name: name.trim() || undefined,
+        effective_date: date || undefined,
+      });
+      toast.success(lists.length > 1 ? `${lists.length} listes importées` : `« ${lists[0].name} » importée`);
+      setContent('');
+      setName('');
+      setDate('');
+      onImported(lists);
+    } catch {
+      // toast déjà émis par l'intercepteur axios
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div style={{ background: 'var(--panel)', border: '1px solid var(--border)', clipPath: CUT_PANEL, padding: '18px 20px' }}>
+      <div style={sectionTitle}>Importer un lflist.conf</div>
+      <input type="file" accept=".conf,.txt" onChange={(e) => readFile(e.target.files?.[0])} style={{ fontSize: 12 }} />
+      <textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        placeholder={'!2024.04 TCG\n#Forbidden\n14558127 0 --Ash Blossom & Joyous Spring'}
+        rows={6}
+        style={{ ...field, height: 'auto', width: '100%', marginTop: 10, padding: 10, fontFamily: 'monospace', resize: 'vertical' }}
+      />
+      <div style={{ display: 'flex', gap: 8, marginTop: 10, flexWrap: 'wrap' }}>
+        <select value={format} onChange={(e) => setFormat(e.target.value as BanlistFormat | '')} style={field}>
+          {staff && <option value="">Format déduit du nom</option>}
+          {(staff ? (['tcg', 'ocg', 'goat', 'custom'] as const) : (['custom'] as const)).map((f) => (
+            <option key={f} value={f}>
+              {FORMAT_LABELS[f]}
+            </option>
+          ))}
+        </select>
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Nom (sinon celui du fichier)" style={{ ...field, flex: 1, minWidth: 160 }} />
+        <input type="date" value={date} onChange={(e) => setDate(e.target.value)} style={field} title="Entrée en vigueur" />
+        <button onClick={submit} disabled={busy || !content.trim()} style={{ ...actionButton('gold'), height: 36, opacity: busy || !content.trim() ? 0.5 : 1 }}>
+          Importer
+        </button>
+      </div>
+      <p style={{ margin: '8px 0 0', fontSize: 11, color: 'var(--text-dim)' }}>
+        Une liste par `!Nom` ; le nom et la date ne s'appliquent qu'à un fichier d'une seule liste. 100 Ko maximum.
+      </p>
+    </div>
+  );
+}
+
+function ImpactPanel({ impact, onOpenDeck }: { impact: BanlistImpact; onOpenDeck: (id: number) => void }) {
+  const { banlist, previous, changes, decks } = impact;
+  return (
+    <div style={{ display: 'grid', gap: 16 }}>
+      <div>
+        <div style={sectionTitle}>
+          {previous ? `Changements depuis « ${previous.name} »` : banlist.format === 'custom' ? 'Cartes listées' : 'Première liste du format'}
+        </div>
+        {changes.length === 0 ? (
+          <div style={{ fontSize: 13, color: 'var(--text-dim)' }}>Aucun changement</div>
+        ) : (
+          changes.map((c) => (
+            <div key={c.card_code} style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 13, marginBottom: 4 }}>
+              <span style={{ flex: 1, color: 'var(--text)' }}>{c.name}</span>
+              <LimitBadge limit={c.from} />
+              <span style={{ color: 'var(--text-dim)' }}>→</span>
+              <LimitBadge limit={c.to} />
+            </div>
+          ))
+        )}
+      </div>
+
+      <div>
+        <div style={sectionTitle}>Mes decks concernés</div>
+        {decks.length === 0 ? (
+          <div style={{ fontSize: 13, color: 'var(--success)' }}>Tous tes decks « banlist » restent légaux.</div>
+        ) : (
+          decks.map((d) => (
+            <div key={d.deck_id} style={{ borderTop: '1px solid var(--border)', padding: '10px 0' }}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 6 }}>
+                <button
+                  onClick={() => onOpenDeck(d.deck_id)}
+                  style={{ background: 'none', border: 0, padding: 0, color: 'var(--text)', fontSize: 14, fontWeight: 600, cursor: 'pointer' }}>
+                  {d.deck_name}
+                </button>
+                {d.newly_broken && <span style={{ fontSize: 11, color: 'var(--danger)' }}>devient illégal</span>}
+              </div>
+              {d.violations.map((v) => (
+                <div key={v.card_code} style={{ display: 'flex', gap: 8, fontSize: 12, color: 'var(--text-muted)' }}>
+                  <span style={{ flex: 1 }}>{v.card_name}</span>
+                  <span>
+                    {v.count}× / max {v.limit}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+const Banlists = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedId = Number(searchParams.get('id')) || null;
+  const [banlists, setBanlists] = useState<Banlist[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [impact, setImpact] = useState<BanlistImpact | null>(null);
+  const staff = user?.role === 'admin' || user?.role === 'moderator';
+
+  const load = () =>
+    banlistApi
+      .list()
+      .then(setBanlists)
+      .catch(() => setBanlists([]))
+      .finally(() => setLoading(false));
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  useEffect(() => {
+    setImpact(null);
+    if (!selectedId) return;
+    banlistApi
+      .impact(selectedId)
+      .then(setImpact)
+      .catch(() => setImpact(null));
+  }, [selectedId]);
+
+  const grouped = useMemo(() => {
+    const out = new Map<BanlistFormat, Banlist[]>();
+    for (const b of banlists) out.set(b.format, [...(out.get(b.format) ?? []), b]);
+    return [...out];
+  }, [banlists]);
+
+  const select = (id: number | null) => setSearchParams(id ? { id: String(id) } : {});
+
+  const remove = async (banlist: Banlist) => {
+    if (!window.confirm(`Supprimer « ${banlist.name} » ?`)) return;
+    try {
+      await banlistApi.remove(banlist.id);
+      setBanlists((prev) => prev.filter((b) => b.id !== banlist.id));
+      if (selectedId === banlist.id) select(null);
+    } catch {
+      // toast déjà émis par l'intercepteur axios
+    }
+  };
+
+  if (!user) return null;
+
+  return (
+    <div style={{ minHeight: '100vh', background: 'var(--bg)' }}>
+      <AppNavbar />
+
+      <div style={{ maxWidth: 1000, margin: '0 auto', padding: '30px 20px 60px' }}>
+        <div style={{ marginBottom: 20 }}>
+          <div
+            style={{
+              fontFamily: "'Cormorant Garamond', serif",
+              fontStyle: 'italic',
+              fontSize: 12,
+              letterSpacing: '0.32em',
+              color: 'var(--gold)',
+              textTransform: 'uppercase',
+            }}>
+            — Tables de la loi —
+          </div>
+          <h1
+            style={{
+              margin: '10px 0 6px',
+              fontFamily: "'Orbitron', sans-serif",
+              fontSize: 'clamp(28px, 4vw, 42px)',
+              fontWeight: 900,
+              letterSpacing: '0.02em',
+              textTransform: 'uppercase',
+              color: 'var(--text)',
+            }}>
+            Banlists
+          </h1>
+          <p style={{ margin: 0, color: 'var(--text-muted)', fontSize: 14 }}>
+            Choisis une liste pour voir ce qu'elle change et lesquels de tes decks elle rend illégaux.
+          </p>
+        </div>
+
+        <div style={{ display: 'grid', gridTemplateColumns: 'minmax(240px, 1fr) 2fr', gap: 20, alignItems: 'start' }}>
+          <div style={{ display: 'grid', gap: 14 }}>
+            {loading ? (
+              <p style={{ color: 'var(--text-muted)' }}>Chargement…</p>
+            ) : grouped.length === 0 ? (
+              <div style={{ padding: '30px 16px', textAlign: 'center', border: '1px dashed var(--border)', color: 'var(--text-muted)', fontSize: 13 }}>
+                Aucune liste importée : la validation suit le statut TCG de chaque carte.
+              </div>
+            ) : (
+              grouped.map(([format, lists]) => (
+                <div key={format}>
+                  <div style={sectionTitle}>{FORMAT_LABELS[format]}</div>
+                  {lists.map((b) => {
+                    const on = b.id === selectedId;
+                    const canDelete = staff || (b.format === 'custom' && b.created_by === user.id);
+                    return (
+                      <div
+                        key={b.id}
+                        onClick={() => select(b.id)}
+                        style={{
+                          display: 'flex',
+                          alignItems: 'center',
+                          gap: 8,
+                          padding: '8px 10px',
+                          marginBottom: 4,
+                          cursor: 'pointer',
+                          background: on ? 'var(--bg-elev)' : 'transparent',
+                          borderLeft: `2px solid ${on ? 'var(--gold)' : 'transparent'}`,
+                        }}>
+                        <div style={{ flex: 1, minWidth: 0 }}>
+                          <div style={{ fontSize: 13, color: on ? 'var(--gold)' : 'var(--text)' }}>{b.name}</div>
+                          <div style={{ fontSize: 11, color: 'var(--text-dim)' }}>
+                            {formatDate(b.effective_date)} · {b.entry_count} carte{b.entry_count > 1 ? 's' : ''}
+                            {b.whitelist && ' · whitelist'}
+                          </div>
+                        </div>
+                        {canDelete && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              remove(b);
+                            }}
+                            title="Supprimer"
+                            style={{ background: 'none', border: 0, color: 'var(--text-dim)', cursor: 'pointer', fontSize: 14 }}>
+                            ×
+                          </button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              ))
+            )}
+          </div>
+
+          <div style={{ display: 'grid', gap: 20 }}>
+            {selectedId && (
+              <div style={{ background: 'var(--panel)', border: '1px solid var(--border)', clipPath: CUT_PANEL, padding: '18px 20px' }}>
+                {impact ? (
+                  <ImpactPanel impact={impact} onOpenDeck={(id) => navigate(`/decks/${id}/edit`)} />
+                ) : (
+                  <p style={{ margin: 0, color: 'var(--text-muted)' }}>Chargement…</p>
+                )}
+              </div>
+            )}
+            <ImportPanel
+              staff={staff}
+              onImported={(lists) => {
+                load();
+                select(lists[0].id);
+              }}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Banlists;
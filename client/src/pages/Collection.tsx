@@ -1,7 +1,15 @@
 import { useState, useEffect, useRef, FormEvent } from 'react';
 import { useDebounce } from '../hooks/useDebounce';
 import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
-import { UserCard, CollectionFilters, Card, CardLanguage } from '../../../shared/types';
+import { UserCard, CollectionFilters, Card, CardLanguage, CardCondition, CardEdition } from '../../../shared/types';
+import {
+  CARD_CONDITIONS,
+  CARD_EDITIONS,
+  CONDITION_LABELS,
+  EDITION_LABELS,
+  DEFAULT_CONDITION,
+  DEFAULT_EDITION,
+} from '../../../shared/collection';
 import api from '../services/api';
 import toast from 'react-hot-toast';
 import AppNavbar from '../components/AppNavbar';
@@ -10,6 +18,8 @@ import CornerOrnaments from '../components/decor/CornerOrnaments';
 import CardTile from '../components/decor/CardTile';
 import { GlyphPyramid } from '../components/decor/Glyphs';
 import { SearchIcon, ScanIcon, AddIcon } from '../components/decor/Icons';
+import CollectionImportModal from '../components/CollectionImportModal';
+import binderApi from '../services/binderApi';
 
 interface CardSet {
   set_name: string;
@@ -36,6 +46,19 @@ const CUT_STATS = 'polygon(0 0,100% 0,100% calc(100% - 14px),calc(100% - 14px) 1
 const CUT_CHIP = 'polygon(0 0,calc(100% - 8px) 0,100% 100%,8px 100%)';
 const CUT_INPUT = 'polygon(0 0,100% 0,100% calc(100% - 8px),calc(100% - 8px) 100%,0 100%)';
 
+const forTradeStepStyle = (disabled: boolean): React.CSSProperties => ({
+  width: 26,
+  height: 26,
+  background: 'transparent',
+  border: '1px solid var(--border)',
+  color: disabled ? 'var(--text-dim)' : 'var(--gold)',
+  cursor: disabled ? 'default' : 'pointer',
+  clipPath: CUT_SM,
+});
+
+const eur = (n: number) =>
+  n.toLocaleString('fr-FR', { style: 'currency', currency: 'EUR', maximumFractionDigits: 2 });
+
 const CHIPS = [
   { label: 'Toutes', filter: {} },
   { label: 'Monstres', filter: { type: 'Effect Monster' } },
@@ -60,6 +83,9 @@ const Collection = () => {
   const [collectionStats, setCollectionStats] = useState<{
     ultra_rares_count: number;
     total_value_eur: number;
+    cost_basis_eur: number;
+    unrealized_gain_eur: number;
+    cost_basis_cards: number;
     recent_added_30d: number;
     rarities: string[];
     rarity_counts: Record<string, number>;
@@ -74,6 +100,7 @@ const Collection = () => {
   const debouncedSearch = useDebounce(search, 500);
 
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   const [searchCode, setSearchCode] = useState('');
   const [searchedCard, setSearchedCard] = useState<Card | null>(null);
   const [availableSets, setAvailableSets] = useState<CardSet[]>([]);
@@ -81,6 +108,11 @@ const Collection = () => {
   const [selectedRarity, setSelectedRarity] = useState('');
   const [selectedLanguage, setSelectedLanguage] = useState<CardLanguage>('EN');
   const [quantity, setQuantity] = useState(1);
+  const [selectedCondition, setSelectedCondition] = useState<CardCondition>(DEFAULT_CONDITION);
+  const [selectedEdition, setSelectedEdition] = useState<CardEdition>(DEFAULT_EDITION);
+  const [purchasePrice, setPurchasePrice] = useState('');
+  const [purchaseDate, setPurchaseDate] = useState('');
+  const [notes, setNotes] = useState('');
   const [searchLoading, setSearchLoading] = useState(false);
   const [searchError, setSearchError] = useState('');
   const [selectedCardDetail, setSelectedCardDetail] = useState<UserCard | null>(null);
@@ -201,6 +233,11 @@ const Collection = () => {
         rarity: selectedRarity,
         language: selectedLanguage,
         quantity,
+        condition: selectedCondition,
+        edition: selectedEdition,
+        purchase_price_eur: purchasePrice ? parseFloat(purchasePrice.replace(',', '.')) : undefined,
+        purchase_date: purchaseDate || undefined,
+        notes: notes.trim() || undefined,
       });
       toast.success(`Carte ajoutée (${LANGUAGE_LABELS[selectedLanguage]})`);
       resetAddModal();
@@ -212,6 +249,34 @@ const Collection = () => {
     }
   };
 
+  /** Export CSV avec les filtres en cours (recherche, type, rareté). */
+  const handleExportCsv = async () => {
+    try {
+      const response = await api.get<Blob>('/collection/export', {
+        params: {
+          search: debouncedSearch || undefined,
+          type: type || undefined,
+          rarity: rarity || undefined,
+        },
+        responseType: 'blob',
+      });
+      const url = URL.createObjectURL(response.data);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'collection.csv';
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      // toast déjà émis par l'intercepteur axios
+    }
+  };
+
+  const handleImported = () => {
+    setPage(1);
+    fetchCards(1);
+    api.get('/collection/stats').then((r) => setCollectionStats(r.data)).catch(() => {});
+  };
+
   const resetAddModal = () => {
     setShowAddModal(false);
     setSearchCode('');
@@ -221,6 +286,11 @@ const Collection = () => {
     setSelectedRarity('');
     setSelectedLanguage('EN');
     setQuantity(1);
+    setSelectedCondition(DEFAULT_CONDITION);
+    setSelectedEdition(DEFAULT_EDITION);
+    setPurchasePrice('');
+    setPurchaseDate('');
+    setNotes('');
     setSearchError('');
   };
 
@@ -237,6 +307,17 @@ const Collection = () => {
     }
   };
 
+  const handleSetForTrade = async (userCard: UserCard, forTrade: number) => {
+    try {
+      const saved = await binderApi.setForTrade(userCard.id, forTrade);
+      const patch = (c: UserCard) => (c.id === userCard.id ? { ...c, for_trade: saved } : c);
+      setCards((prev) => prev.map(patch));
+      setSelectedCardDetail((prev) => (prev ? patch(prev) : prev));
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
   const stats = [
     {
       label: 'Cartes totales',
@@ -273,7 +354,10 @@ const Collection = () => {
             maximumFractionDigits: 0,
           })
         : '—',
-      trend: '',
+      // Plus-value latente, seulement si des prix d'achat ont été saisis
+      trend: collectionStats && collectionStats.cost_basis_cards > 0
+        ? `${collectionStats.unrealized_gain_eur >= 0 ? '+' : ''}${eur(collectionStats.unrealized_gain_eur)} / ${eur(collectionStats.cost_basis_eur)} payés`
+        : '',
       accent: 'var(--text)',
     },
   ];
@@ -498,6 +582,29 @@ const Collection = () => {
             <ScanIcon size={15} />
             Scanner
           </button>
+
+          {(['import', 'export'] as const).map((action) => (
+            <button
+              key={action}
+              onClick={action === 'import' ? () => setShowImportModal(true) : handleExportCsv}
+              title={action === 'export' ? 'Exporte la collection filtrée en CSV' : undefined}
+              style={{
+                height: 52,
+                padding: '0 18px',
+                border: '1px solid var(--border)',
+                background: 'var(--panel)',
+                color: 'var(--text-muted)',
+                fontFamily: "'Orbitron', sans-serif",
+                fontWeight: 700,
+                fontSize: 11,
+                letterSpacing: '0.12em',
+                textTransform: 'uppercase',
+                cursor: 'pointer',
+                clipPath: CUT_SM,
+              }}>
+              {action === 'import' ? 'Import CSV' : 'Export CSV'}
+            </button>
+          ))}
         </div>
 
         {/* Chips + select rareté */}
@@ -702,6 +809,12 @@ const Collection = () => {
         )}
       </div>
 
+      <CollectionImportModal
+        open={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        onImported={handleImported}
+      />
+
       {/* Modal Add — kept structurally but restyled */}
       {showAddModal && (
         <div
@@ -940,6 +1053,96 @@ const Collection = () => {
                     fontSize: 14,
                   }}
                 />
+                <div style={{ display: 'flex', gap: 8 }}>
+                  <select
+                    value={selectedCondition}
+                    onChange={(e) => setSelectedCondition(e.target.value as CardCondition)}
+                    aria-label="État"
+                    style={{
+                      flex: 1,
+                      minWidth: 0,
+                      padding: '10px 14px',
+                      background: 'var(--bg-elev)',
+                      border: '1px solid var(--border)',
+                      color: 'var(--text)',
+                      fontFamily: "'Rajdhani', sans-serif",
+                      fontSize: 14,
+                    }}>
+                    {CARD_CONDITIONS.map((c) => (
+                      <option key={c} value={c}>{CONDITION_LABELS[c]} ({c})</option>
+                    ))}
+                  </select>
+                  <select
+                    value={selectedEdition}
+                    onChange={(e) => setSelectedEdition(e.target.value as CardEdition)}
+                    aria-label="Édition"
+                    style={{
+                      flex: 1,
+                      minWidth: 0,
+                      padding: '10px 14px',
+                      background: 'var(--bg-elev)',
+                      border: '1px solid var(--border)',
+                      color: 'var(--text)',
+                      fontFamily: "'Rajdhani', sans-serif",
+                      fontSize: 14,
+                    }}>
+                    {CARD_EDITIONS.map((ed) => (
+                      <option key={ed} value={ed}>{EDITION_LABELS[ed]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div style={{ display: 'flex', gap: 8 }}>
+                  <input
+                    type="number"
+                    value={purchasePrice}
+                    onChange={(e) => setPurchasePrice(e.target.value)}
+                    min={0}
+                    step="0.01"
+                    placeholder="Prix d'achat € (unité)"
+                    style={{
+                      flex: 1,
+                      minWidth: 0,
+                      padding: '10px 14px',
+                      background: 'var(--bg-elev)',
+                      border: '1px solid var(--border)',
+                      color: 'var(--text)',
+                      fontFamily: "'Rajdhani', sans-serif",
+                      fontSize: 14,
+                    }}
+                  />
+                  <input
+                    type="date"
+                    value={purchaseDate}
+                    onChange={(e) => setPurchaseDate(e.target.value)}
+                    aria-label="Date d'achat"
+                    style={{
+                      flex: 1,
+                      minWidth: 0,
+                      padding: '10px 14px',
+                      background: 'var(--bg-elev)',
+                      border: '1px solid var(--border)',
+                      color: 'var(--text)',
+                      fontFamily: "'Rajdhani', sans-serif",
+                      fontSize: 14,
+                    }}
+                  />
+                </div>
+                <textarea
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  maxLength={500}
+                  rows={2}
+                  placeholder="Notes (facultatif)"
+                  style={{
+                    padding: '10px 14px',
+                    background: 'var(--bg-elev)',
+                    border: '1px solid var(--border)',
+                    color: 'var(--text)',
+                    fontFamily: "'Rajdhani', sans-serif",
+                    fontSize: 14,
+                    resize: 'vertical',
+                  }}
+                />
                 <div style={{ display: 'flex', gap: 8, marginTop: 8 }}>
                   <button
                     type="button"
@@ -1057,6 +1260,51 @@ const Collection = () => {
                 }}>
                 {selectedCardDetail.set_code} · {selectedCardDetail.card.type}
               </div>
+              <div style={{ marginTop: 8, fontSize: 13, color: 'var(--text-muted)' }}>
+                {CONDITION_LABELS[selectedCardDetail.condition] || selectedCardDetail.condition} ·{' '}
+                {EDITION_LABELS[selectedCardDetail.edition] || selectedCardDetail.edition} · ×{selectedCardDetail.quantity}
+                {selectedCardDetail.purchase_price_eur != null && (
+                  <>
+                    {' '}· payée {eur(selectedCardDetail.purchase_price_eur)}
+                    {selectedCardDetail.purchase_date &&
+                      ` le ${new Date(selectedCardDetail.purchase_date).toLocaleDateString('fr-FR')}`}
+                  </>
+                )}
+              </div>
+              {selectedCardDetail.notes && (
+                <p style={{ marginTop: 10, fontSize: 13, fontStyle: 'italic', color: 'var(--text-muted)' }}>
+                  {selectedCardDetail.notes}
+                </p>
+              )}
+              <div
+                style={{
+                  marginTop: 14,
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 10,
+                  fontFamily: "'Orbitron', sans-serif",
+                  fontSize: 10,
+                  letterSpacing: '0.16em',
+                  textTransform: 'uppercase',
+                  color: 'var(--text-muted)',
+                }}>
+                À l'échange
+                <button
+                  disabled={(selectedCardDetail.for_trade ?? 0) <= 0}
+                  onClick={() => handleSetForTrade(selectedCardDetail, (selectedCardDetail.for_trade ?? 0) - 1)}
+                  style={forTradeStepStyle((selectedCardDetail.for_trade ?? 0) <= 0)}>
+                  −
+                </button>
+                <span style={{ minWidth: 40, textAlign: 'center', color: 'var(--text)' }}>
+                  {selectedCardDetail.for_trade ?? 0} / {selectedCardDetail.quantity}
+                </span>
+                <button
+                  disabled={(selectedCardDetail.for_trade ?? 0) >= selectedCardDetail.quantity}
+                  onClick={() => handleSetForTrade(selectedCardDetail, (selectedCardDetail.for_trade ?? 0) + 1)}
+                  style={forTradeStepStyle((selectedCardDetail.for_trade ?? 0) >= selectedCardDetail.quantity)}>
+                  +
+                </button>
+              </div>
               {(selectedCardDetail.card.atk !== undefined || selectedCardDetail.card.def !== undefined) && (
                 <div style={{ marginTop: 22, display: 'flex', gap: 26, fontSize: 13 }}>
                   {selectedCardDetail.card.atk !== undefined && (
@@ -1,10 +1,12 @@
-import { useState, useEffect, FormEvent, useCallback } from 'react';
+import { useState, useEffect, FormEvent, useCallback, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useDebounce } from '../hooks/useDebounce';
 import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
-import { Deck, Card, DeckCard, UserCard, CollectionFilters } from '../../../shared/types';
+import { Deck, Card, DeckCard, UserCard, CollectionFilters, Banlist, DeckLegalityViolation } from '../../../shared/types';
 import { isExtraDeckCard } from '../../../shared/cards';
+import { checkDeckRules, describeViolation, type DeckRuleCard } from '../../../shared/deckRules';
 import api from '../services/api';
+import { banlistApi } from '../services/banlistApi';
 import toast from 'react-hot-toast';
 import AppNavbar from '../components/AppNavbar';
 import AppBackground from '../components/decor/AppBackground';
@@ -31,6 +33,12 @@ interface DeckCardWithCollection extends DeckCard {
   collectionQuantity?: number;
 }
 
+/** Réponse de `POST /decks/import/preview` : cartes résolues + passcodes inconnus. */
+interface ImportPreview {
+  entries: Array<{ card: Card; quantity: number; section: 'main' | 'extra' | 'side' }>;
+  unknown: number[];
+}
+
 
 const CUT_BTN = 'polygon(0 0,100% 0,100% 100%,95% 100%,95% 90%,85% 90%,85% 100%,8% 100%,0 70%)';
 const CUT_SM = 'polygon(6px 0,100% 0,100% calc(100% - 6px),calc(100% - 6px) 100%,0 100%,0 6px)';
@@ -51,12 +59,20 @@ const DeckEditor = () => {
   const [deckName, setDeckName] = useState('');
   const [isPublic, setIsPublic] = useState(false);
   const [respectBanlist, setRespectBanlist] = useState(true);
+  // Banlist de contrôle : null = statut TCG en cache sur chaque carte.
+  const [banlists, setBanlists] = useState<Banlist[]>([]);
+  const [banlistId, setBanlistId] = useState<number | null>(null);
+  const [banlistLimits, setBanlistLimits] = useState<{ whitelist: boolean; limits: Map<string, number> } | null>(null);
+  // Deck monté physiquement : ses cartes sont réservées dans la collection.
+  const [isBuilt, setIsBuilt] = useState(false);
   const [loading, setLoading] = useState(isEditing);
   const [saving, setSaving] = useState(false);
 
   const [mainDeck, setMainDeck] = useState<DeckCardWithCollection[]>([]);
   const [extraDeck, setExtraDeck] = useState<DeckCardWithCollection[]>([]);
-  const [sideDeckSize] = useState(0); // À venir — pas de side_deck côté API pour l'instant
+  // Le Side n'est pas encore éditable à la main : il vient de l'import .ydk /
+  // ydke:// ou du deck chargé, et il est conservé tel quel à la sauvegarde.
+  const [sideDeck, setSideDeck] = useState<DeckCardWithCollection[]>([]);
 
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<Card[]>([]);
@@ -75,6 +91,9 @@ const DeckEditor = () => {
   const [selectedCardDetail, setSelectedCardDetail] = useState<UserCard | null>(null);
 
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
+  // Violations par carte (règles communes, cf. shared/deckRules.ts) : les
+  // slots concernés sont encadrés en rouge.
+  const [violations, setViolations] = useState<DeckLegalityViolation[]>([]);
   // Disponibilite par carte : { [cards.id]: { owned, used_in_decks, available } }
   // `available` = possede toutes editions confondues MOINS utilise dans les autres decks.
   // Le deck en cours est exclu du calcul back (?exclude_deck=id).
@@ -84,6 +103,9 @@ const DeckEditor = () => {
   const [aiLoading, setAiLoading] = useState(false);
   const [aiSuggestions, setAiSuggestions] = useState<AISuggestion[]>([]);
   const [aiExplanation, setAiExplanation] = useState<string>('');
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [importContent, setImportContent] = useState('');
+  const [importing, setImporting] = useState(false);
 
   const loadMoreRef = useInfiniteScroll({
     loading: poolLoading,
@@ -111,9 +133,27 @@ const DeckEditor = () => {
     if (poolPage > 1) fetchPool(poolPage, false);
   }, [poolPage]);
 
+  useEffect(() => {
+    banlistApi.list().then(setBanlists).catch(() => setBanlists([]));
+  }, []);
+
+  useEffect(() => {
+    setBanlistLimits(null);
+    if (!banlistId) return;
+    banlistApi
+      .get(banlistId)
+      .then(({ banlist, entries }) =>
+        setBanlistLimits({
+          whitelist: banlist.whitelist,
+          limits: new Map(entries.map((e) => [e.card_code, e.limit])),
+        })
+      )
+      .catch(() => setBanlistId(null));
+  }, [banlistId]);
+
   useEffect(() => {
     validateDeck();
-  }, [mainDeck, extraDeck, respectBanlist]);
+  }, [mainDeck, extraDeck, sideDeck, respectBanlist, banlistLimits]);
 
   /**
    * Charge la disponibilite (owned - used dans autres decks).
@@ -145,6 +185,7 @@ const DeckEditor = () => {
       setDeckName(deck.name);
       setIsPublic(deck.is_public);
       setRespectBanlist(deck.respect_banlist);
+      setIsBuilt(!!deck.is_built);
       const dedupe = (cards: DeckCard[]): DeckCardWithCollection[] => {
         const m = new Map<string, DeckCardWithCollection>();
         for (const c of cards || []) {
@@ -157,6 +198,7 @@ const DeckEditor = () => {
       };
       setMainDeck(dedupe(deck.main_deck || []));
       setExtraDeck(dedupe(deck.extra_deck || []));
+      setSideDeck(dedupe(deck.side_deck || []));
     } catch (error) {
       console.error(error);
       toast.error('Impossible de charger le deck');
@@ -237,48 +279,67 @@ const DeckEditor = () => {
     [availability, getInDeckCount]
   );
 
-  const validateDeck = async () => {
+  /**
+   * Cartes sur-allouées si ce deck est monté : il en demande plus (side
+   * compris) que ce qui reste une fois servis les autres decks montés.
+   */
+  const overCommitted = useMemo(() => {
+    if (!isBuilt) return [];
+    const needed = new Map<number, { name: string; quantity: number }>();
+    for (const dc of [...mainDeck, ...extraDeck, ...sideDeck]) {
+      const e = needed.get(dc.card_id);
+      if (e) e.quantity += dc.quantity;
+      else needed.set(dc.card_id, { name: dc.card?.name || `#${dc.card_id}`, quantity: dc.quantity });
+    }
+    const out: Array<{ id: number; name: string; missing: number; owned: number; elsewhere: number }> = [];
+    for (const [id, { name, quantity }] of needed) {
+      const a = availability[id];
+      const free = a ? a.available : 0;
+      if (quantity > free) {
+        out.push({
+          id,
+          name,
+          missing: quantity - free,
+          owned: a?.owned ?? 0,
+          elsewhere: a?.used_in_decks ?? 0,
+        });
+      }
+    }
+    return out;
+  }, [isBuilt, mainDeck, extraDeck, sideDeck, availability]);
+
+  const validateDeck = () => {
+    // Mêmes règles que le serveur (`/decks/:id/validate`, lancement d'un duel),
+    // appliquées en local pour suivre l'édition en cours sans sauvegarder.
+    const toRule = (section: DeckRuleCard['section']) => (dc: DeckCardWithCollection): DeckRuleCard => ({
+      card_code: String(Number(dc.card?.card_id)),
+      name: dc.card?.name || `#${dc.card_id}`,
+      type: dc.card?.type,
+      frame_type: dc.card?.frame_type,
+      section,
+      quantity: dc.quantity,
+    });
+    const cards = [...mainDeck.map(toRule('main')), ...extraDeck.map(toRule('extra')), ...sideDeck.map(toRule('side'))];
+    // Banlist : liste choisie (passcode → limite) ou, à défaut,
+    // banlist_info.ban_tcg (déjà chargé avec chaque card).
+    const banTcg = new Map(
+      [...mainDeck, ...extraDeck, ...sideDeck].map((dc) => [String(Number(dc.card?.card_id)), dc.card?.banlist_info?.ban_tcg])
+    );
+    const limitOf = (card: DeckRuleCard): number => {
+      if (banlistLimits) return banlistLimits.limits.get(card.card_code) ?? (banlistLimits.whitelist ? 0 : 3);
+      const ban = banTcg.get(card.card_code);
+      return ban === 'Banned' ? 0 : ban === 'Limited' ? 1 : ban === 'Semi-Limited' ? 2 : 3;
+    };
+    const report = checkDeckRules(cards, respectBanlist ? { limitOf } : {});
+
     const errs: string[] = [];
-    const mainCount = mainDeck.reduce((s, c) => s + c.quantity, 0);
-    const extraCount = extraDeck.reduce((s, c) => s + c.quantity, 0);
+    const { mainDeckCount: mainCount, extraDeckCount: extraCount, sideDeckCount: sideCount } = report;
     if (mainCount < 40) errs.push(`Main : au moins 40 cartes (actuellement ${mainCount})`);
     if (mainCount > 60) errs.push(`Main : pas plus de 60 (actuellement ${mainCount})`);
     if (extraCount > 15) errs.push(`Extra : max 15 (actuellement ${extraCount})`);
-    const counts = new Map<string, number>();
-    [...mainDeck, ...extraDeck].forEach((dc) => {
-      const n = dc.card?.name || '';
-      if (n) counts.set(n, (counts.get(n) || 0) + dc.quantity);
-    });
-    counts.forEach((c, n) => {
-      if (c > 3) errs.push(`Max 3 copies de « ${n} » (actuellement ${c})`);
-    });
-    // Banlist TCG : détecte Forbidden / Limited / Semi-Limited en local sur
-    // banlist_info.ban_tcg (déjà chargé avec chaque card). Bloque à l'affichage
-    // et pas seulement au save — indispensable pour le moteur qui refusera
-    // désormais les decks illégaux via `checkEngineDeckStrict`.
-    const cardsByName = new Map<string, Card>();
-    [...mainDeck, ...extraDeck].forEach((dc) => {
-      if (dc.card && !cardsByName.has(dc.card.name)) cardsByName.set(dc.card.name, dc.card);
-    });
-    counts.forEach((c, n) => {
-      const card = cardsByName.get(n);
-      const ban = card?.banlist_info?.ban_tcg;
-      if (ban === 'Banned') errs.push(`Banlist : « ${n} » est Forbidden`);
-      else if (ban === 'Limited' && c > 1) errs.push(`Banlist : « ${n} » est Limitée (max 1, actuellement ${c})`);
-      else if (ban === 'Semi-Limited' && c > 2) errs.push(`Banlist : « ${n } » est Semi-Limitée (max 2, actuellement ${c})`);
-    });
-    if (respectBanlist && isEditing && deckId) {
-      try {
-        const response = await api.get(`/decks/${deckId}/validate`);
-        if (response.data.violations?.length) {
-          response.data.violations.forEach((v: any) =>
-            errs.push(`Banlist : ${v.card_name} (${v.status})`)
-          );
-        }
-      } catch {
-        /* endpoint optionnel */
-      }
-    }
+    if (sideCount > 15) errs.push(`Side : max 15 (actuellement ${sideCount})`);
+    report.violations.forEach((v) => errs.push(describeViolation(v)));
+    setViolations(report.violations);
     setValidationErrors(errs);
   };
 
@@ -416,6 +477,78 @@ const DeckEditor = () => {
     }
   };
 
+  /**
+   * Import .ydk / ydke:// — le serveur résout les passcodes et reclasse
+   * Main / Extra d'après le type réel. Rien n'est écrit avant « Sceller ».
+   */
+  const handleImport = async () => {
+    if (!importContent.trim()) {
+      toast.error('Colle un fichier .ydk ou une URL ydke://');
+      return;
+    }
+    setImporting(true);
+    try {
+      const { data } = await api.post<ImportPreview>('/decks/import/preview', { content: importContent });
+      const toDeckCards = (section: 'main' | 'extra' | 'side'): DeckCardWithCollection[] =>
+        data.entries
+          .filter((e) => e.section === section)
+          .map((e) => ({
+            id: Date.now() + Math.random(),
+            deck_id: parseInt(deckId || '0'),
+            card_id: e.card.id,
+            quantity: e.quantity,
+            is_extra_deck: section === 'extra',
+            is_side_deck: section === 'side',
+            created_at: new Date(),
+            card: e.card,
+          }));
+      setMainDeck(toDeckCards('main'));
+      setExtraDeck(toDeckCards('extra'));
+      setSideDeck(toDeckCards('side'));
+      setShowImportModal(false);
+      setImportContent('');
+      if (data.unknown.length > 0) {
+        toast.error(`Passcodes inconnus ignorés : ${data.unknown.join(', ')}`);
+      } else {
+        toast.success('Liste importée — scelle le deck pour l’enregistrer');
+      }
+    } catch {
+      /* toast déjà affiché par l'intercepteur */
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleImportFile = async (file?: File) => {
+    if (!file) return;
+    setImportContent(await file.text());
+  };
+
+  /** Export de la version enregistrée du deck (pas des modifications en cours). */
+  const handleExport = async (format: 'ydk' | 'ydke') => {
+    if (!deckId) return;
+    try {
+      if (format === 'ydke') {
+        const { data } = await api.get<{ url: string }>(`/decks/${deckId}/export`, { params: { format } });
+        await navigator.clipboard.writeText(data.url);
+        toast.success('URL ydke:// copiée');
+        return;
+      }
+      const { data } = await api.get<Blob>(`/decks/${deckId}/export`, {
+        params: { format },
+        responseType: 'blob',
+      });
+      const url = URL.createObjectURL(data);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${deckName || 'deck'}.ydk`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      /* toast déjà affiché par l'intercepteur */
+    }
+  };
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     if (!deckName.trim()) {
@@ -434,6 +567,7 @@ const DeckEditor = () => {
           name: deckName,
           is_public: isPublic,
           respect_banlist: respectBanlist,
+          is_built: isBuilt,
         });
       } else {
         const resp = await api.post('/decks', {
@@ -442,18 +576,29 @@ const DeckEditor = () => {
           respect_banlist: respectBanlist,
         });
         savedDeckId = resp.data.deck.id.toString();
+        if (isBuilt) await api.put(`/decks/${savedDeckId}`, { is_built: true });
       }
       if (savedDeckId) {
-        const map = new Map<string, { card_id: number; quantity: number; is_extra_deck: boolean }>();
+        const map = new Map<
+          string,
+          { card_id: number; quantity: number; is_extra_deck: boolean; is_side_deck: boolean }
+        >();
         const all = [
-          ...mainDeck.map((d) => ({ ...d, is_extra_deck: false })),
-          ...extraDeck.map((d) => ({ ...d, is_extra_deck: true })),
+          ...mainDeck.map((d) => ({ ...d, is_extra_deck: false, is_side_deck: false })),
+          ...extraDeck.map((d) => ({ ...d, is_extra_deck: true, is_side_deck: false })),
+          ...sideDeck.map((d) => ({ ...d, is_extra_deck: false, is_side_deck: true })),
         ];
         for (const dc of all) {
-          const k = `${dc.card_id}-${dc.is_extra_deck}`;
+          const k = `${dc.card_id}-${dc.is_extra_deck}-${dc.is_side_deck}`;
           const ex = map.get(k);
           if (ex) ex.quantity += dc.quantity;
-          else map.set(k, { card_id: dc.card_id, quantity: dc.quantity, is_extra_deck: dc.is_extra_deck });
+          else
+            map.set(k, {
+              card_id: dc.card_id,
+              quantity: dc.quantity,
+              is_extra_deck: dc.is_extra_deck,
+              is_side_deck: dc.is_side_deck,
+            });
         }
         // Un seul appel, validé puis écrit dans une transaction côté serveur.
         // L'ancienne boucle « DELETE puis un POST par carte » laissait le deck
@@ -493,6 +638,7 @@ const DeckEditor = () => {
 
   const mainCount = mainDeck.reduce((s, c) => s + c.quantity, 0);
   const extraCount = extraDeck.reduce((s, c) => s + c.quantity, 0);
+  const sideDeckSize = sideDeck.reduce((s, c) => s + c.quantity, 0);
   const chips: Array<string> = ['Monstres', 'Magies', 'Pièges'];
   const counters = [
     { label: 'Main', value: `${mainCount}/40`, bg: 'rgba(245,197,24,.1)', bord: 'rgba(245,197,24,.45)', color: 'var(--gold)' },
@@ -512,6 +658,16 @@ const DeckEditor = () => {
     return null;
   });
 
+  // Violation d'un exemplaire : erreur de section sur ce passcode, ou
+  // exemplaires en trop comptés par nom (artworks alternatifs compris).
+  const violationOf = (dc: DeckCardWithCollection, section: 'main' | 'extra'): string | undefined => {
+    const code = String(Number(dc.card?.card_id));
+    const found = violations.filter((v) =>
+      v.rule === 'section' ? v.section === section && v.card_code === code : v.card_name === dc.card?.name
+    );
+    return found.length ? found.map(describeViolation).join('\n') : undefined;
+  };
+
   return (
     <div style={{ minHeight: '100vh', position: 'relative', background: 'transparent' }}>
       <AppBackground />
@@ -547,6 +703,47 @@ const DeckEditor = () => {
             </h1>
           </div>
           <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap' }}>
+            <button
+              onClick={() => setShowImportModal(true)}
+              style={{
+                height: 46,
+                padding: '0 18px',
+                border: '1px solid var(--cyan)',
+                background: 'rgba(34,211,238,.08)',
+                color: 'var(--cyan)',
+                fontFamily: "'Orbitron', sans-serif",
+                fontSize: 11,
+                fontWeight: 700,
+                letterSpacing: '0.1em',
+                textTransform: 'uppercase',
+                cursor: 'pointer',
+                clipPath: CUT_SM,
+              }}>
+              Importer
+            </button>
+            {isEditing &&
+              (['ydk', 'ydke'] as const).map((format) => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(format)}
+                  title="Exporte la version enregistrée du deck"
+                  style={{
+                    height: 46,
+                    padding: '0 16px',
+                    border: '1px solid var(--border)',
+                    background: 'var(--panel)',
+                    color: 'var(--text-muted)',
+                    fontFamily: "'Orbitron', sans-serif",
+                    fontSize: 11,
+                    fontWeight: 700,
+                    letterSpacing: '0.1em',
+                    textTransform: 'uppercase',
+                    cursor: 'pointer',
+                    clipPath: CUT_SM,
+                  }}>
+                  {format === 'ydk' ? '.ydk' : 'ydke://'}
+                </button>
+              ))}
             <button
               onClick={() => setShowAIModal(true)}
               style={{
@@ -639,6 +836,33 @@ const DeckEditor = () => {
             <input type="checkbox" checked={respectBanlist} onChange={(e) => setRespectBanlist(e.target.checked)} />
             Respecter la banlist
           </label>
+          {banlists.length > 0 && (
+            <select
+              value={banlistId ?? ''}
+              onChange={(e) => setBanlistId(e.target.value ? Number(e.target.value) : null)}
+              title="Liste utilisée pour signaler les cartes interdites ou limitées"
+              style={{
+                height: 30,
+                padding: '0 8px',
+                background: 'var(--panel)',
+                border: '1px solid var(--border)',
+                color: 'var(--text-muted)',
+                fontSize: 12,
+              }}>
+              <option value="">Banlist TCG actuelle</option>
+              {banlists.map((b) => (
+                <option key={b.id} value={b.id}>
+                  {b.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <label
+            title="Seuls les decks montés réservent leurs cartes dans la collection"
+            style={{ display: 'flex', alignItems: 'center', gap: 8, color: 'var(--text-muted)', fontSize: 12 }}>
+            <input type="checkbox" checked={isBuilt} onChange={(e) => setIsBuilt(e.target.checked)} />
+            Monté physiquement
+          </label>
         </div>
 
         {validationErrors.length > 0 && (
@@ -657,6 +881,28 @@ const DeckEditor = () => {
           </div>
         )}
 
+        {overCommitted.length > 0 && (
+          <div
+            style={{
+              marginTop: 12,
+              padding: 14,
+              background: 'rgba(245,197,24,.06)',
+              border: '1px solid rgba(245,197,24,.4)',
+              color: 'var(--gold)',
+              fontSize: 13,
+            }}>
+            <div style={{ marginBottom: 6, fontWeight: 600 }}>
+              Deck monté : exemplaires déjà pris par tes autres decks montés
+            </div>
+            {overCommitted.map((o) => (
+              <div key={o.id}>
+                • {o.name} : il en manque {o.missing} ({o.owned} possédé{o.owned > 1 ? 's' : ''}, {o.elsewhere}{' '}
+                ailleurs)
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Grid 1fr/420 */}
         <div
           style={{
@@ -993,9 +1239,11 @@ const DeckEditor = () => {
               }}>
               {slots.map((s, i) => {
                 const filled = !!s;
+                const violation = s ? violationOf(s.dc, 'main') : undefined;
                 return (
                   <div
                     key={i}
+                    title={violation}
                     onClick={() => {
                       if (s?.dc) decrementCard(s.dc.id, false);
                     }}
@@ -1007,9 +1255,11 @@ const DeckEditor = () => {
                       background: filled
                         ? 'linear-gradient(150deg,var(--border-soft),var(--bg-elev))'
                         : 'rgba(255,255,255,.015)',
-                      border: filled
-                        ? '1px solid rgba(245,197,24,.4)'
-                        : '1px dashed rgba(245,197,24,.2)',
+                      border: violation
+                        ? '2px solid var(--danger)'
+                        : filled
+                          ? '1px solid rgba(245,197,24,.4)'
+                          : '1px dashed rgba(245,197,24,.2)',
                       overflow: 'hidden',
                     }}>
                     {filled && s?.dc.card?.card_images?.[0]?.image_url_small ? (
@@ -1066,10 +1316,12 @@ const DeckEditor = () => {
                     gridTemplateColumns: 'repeat(8, minmax(0, 1fr))',
                     gap: 6,
                   }}>
-                  {extraDeck.map((dc) =>
-                    Array.from({ length: dc.quantity }, (_, k) => (
+                  {extraDeck.map((dc) => {
+                    const violation = violationOf(dc, 'extra');
+                    return Array.from({ length: dc.quantity }, (_, k) => (
                       <div
                         key={`${dc.id}-${k}`}
+                        title={violation}
                         onClick={() => decrementCard(dc.id, true)}
                         style={{
                           aspectRatio: '59 / 86',
@@ -1077,7 +1329,7 @@ const DeckEditor = () => {
                           placeItems: 'center',
                           cursor: 'pointer',
                           background: 'linear-gradient(150deg,var(--border-soft),var(--bg-elev))',
-                          border: '1px solid rgba(168,85,247,.4)',
+                          border: violation ? '2px solid var(--danger)' : '1px solid rgba(168,85,247,.4)',
                           overflow: 'hidden',
                         }}>
                         {dc.card?.card_images?.[0]?.image_url_small ? (
@@ -1090,8 +1342,8 @@ const DeckEditor = () => {
                           <CardIcon size={14} style={{ color: 'var(--violet-soft)' }} />
                         )}
                       </div>
-                    ))
-                  )}
+                    ));
+                  })}
                 </div>
               </>
             )}
@@ -1209,6 +1461,122 @@ const DeckEditor = () => {
       </div>
 
       {/* AI modal */}
+      {showImportModal && (
+        <div
+          style={{
+            position: 'fixed',
+            inset: 0,
+            background: 'rgba(3,2,1,.86)',
+            backdropFilter: 'blur(8px)',
+            display: 'grid',
+            placeItems: 'center',
+            zIndex: 100,
+            padding: 20,
+          }}
+          onClick={() => setShowImportModal(false)}>
+          <div
+            onClick={(e) => e.stopPropagation()}
+            style={{
+              width: '100%',
+              maxWidth: 520,
+              padding: 32,
+              background: 'linear-gradient(160deg,var(--panel),var(--bg))',
+              border: '1px solid var(--border)',
+              clipPath: 'polygon(0 0,calc(100% - 22px) 0,100% 22px,100% 100%,22px 100%,0 calc(100% - 22px))',
+            }}>
+            <div
+              style={{
+                fontFamily: "'Cormorant Garamond', serif",
+                fontStyle: 'italic',
+                fontSize: 11,
+                letterSpacing: '0.3em',
+                color: 'var(--cyan)',
+                textTransform: 'uppercase',
+              }}>
+              — EDOPro · YGOProDeck —
+            </div>
+            <h2
+              style={{
+                margin: '6px 0 16px',
+                fontFamily: "'Orbitron', sans-serif",
+                fontSize: 24,
+                fontWeight: 900,
+                letterSpacing: '0.02em',
+                color: 'var(--text)',
+                textTransform: 'uppercase',
+              }}>
+              Importer une liste
+            </h2>
+            <input
+              type="file"
+              accept=".ydk,text/plain"
+              onChange={(e) => handleImportFile(e.target.files?.[0])}
+              style={{ marginBottom: 12, color: 'var(--text-muted)', fontSize: 12 }}
+            />
+            <textarea
+              value={importContent}
+              onChange={(e) => setImportContent(e.target.value)}
+              placeholder={'ydke://… ou contenu du fichier .ydk (#main, #extra, !side)'}
+              style={{
+                width: '100%',
+                minHeight: 140,
+                padding: 14,
+                background: 'var(--bg-elev)',
+                border: '1px solid var(--border)',
+                borderLeft: '2px solid var(--cyan)',
+                color: 'var(--text)',
+                fontFamily: 'monospace',
+                fontSize: 12,
+                outline: 'none',
+                resize: 'vertical',
+              }}
+            />
+            <div style={{ marginTop: 8, fontSize: 12, color: 'var(--text-muted)' }}>
+              Remplace le contenu actuel de l'éditeur.
+            </div>
+            <div style={{ display: 'flex', gap: 10, marginTop: 16 }}>
+              <button
+                onClick={() => setShowImportModal(false)}
+                style={{
+                  flex: 1,
+                  height: 44,
+                  background: 'var(--bg-elev)',
+                  color: 'var(--text-muted)',
+                  border: '1px solid var(--border)',
+                  fontFamily: "'Orbitron', sans-serif",
+                  fontSize: 11,
+                  letterSpacing: '0.12em',
+                  textTransform: 'uppercase',
+                  cursor: 'pointer',
+                  clipPath: CUT_SM,
+                }}>
+                Annuler
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={importing}
+                style={{
+                  flex: 1,
+                  height: 44,
+                  background: 'var(--cyan)',
+                  color: 'var(--bg)',
+                  border: 0,
+                  fontFamily: "'Orbitron', sans-serif",
+                  fontSize: 11,
+                  fontWeight: 700,
+                  letterSpacing: '0.12em',
+                  textTransform: 'uppercase',
+                  cursor: importing ? 'not-allowed' : 'pointer',
+                  opacity: importing ? 0.6 : 1,
+                  clipPath: CUT_SM,
+                }}>
+                {importing ? 'Lecture...' : 'Importer'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {showAIModal && (
         <div
           style={{
@@ -8,6 +8,7 @@ import AppBackground from '../components/decor/AppBackground';
 import CornerOrnaments from '../components/decor/CornerOrnaments';
 import CardTile from '../components/decor/CardTile';
 import { MillenniumMark, CardIcon } from '../components/decor/Icons';
+import DeckChangelogPanel from '../components/DeckChangelogPanel';
 
 const CUT_BTN = 'polygon(0 0,100% 0,100% 100%,95% 100%,95% 90%,85% 90%,85% 100%,8% 100%,0 70%)';
 const CUT_SM = 'polygon(6px 0,100% 0,100% calc(100% - 6px),calc(100% - 6px) 100%,0 100%,0 6px)';
@@ -54,8 +55,10 @@ const DeckShare = () => {
     if (!deck) return;
     setCopying(true);
     try {
-      await api.post(`/social/wishlist/${deck.id}`);
-      toast.success('Deck ajouté à ta wishlist');
+      // Fork par le lien : fonctionne aussi pour un deck partagé non public.
+      const response = await api.post<{ deck: Deck }>(`/decks/shared/${shareToken}/fork`);
+      toast.success('Deck forké dans tes decks');
+      navigate(`/decks/${response.data.deck.id}/edit`);
     } catch (error: any) {
       toast.error(error.response?.data?.message || 'Impossible');
     } finally {
@@ -498,6 +501,8 @@ const DeckShare = () => {
             </div>
           </div>
 
+          {shareToken && <DeckChangelogPanel shareToken={shareToken} />}
+
           {!user && (
             <div
               style={{
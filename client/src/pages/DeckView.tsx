@@ -10,6 +10,14 @@ import CornerOrnaments from '../components/decor/CornerOrnaments';
 import CardTile from '../components/decor/CardTile';
 import { CardIcon } from '../components/decor/Icons';
 import DrawOddsPanel from '../components/DrawOddsPanel';
+import ShoppingListPanel from '../components/ShoppingListPanel';
+import DeckChangelogPanel from '../components/DeckChangelogPanel';
+import DeckForksPanel from '../components/DeckForksPanel';
+import DeckTagsPanel from '../components/DeckTagsPanel';
+import ConsistencyPanel from '../components/ConsistencyPanel';
+import SidePlansPanel from '../components/SidePlansPanel';
+import ComboLinesPanel from '../components/ComboLinesPanel';
+import DeckPrintPanel from '../components/DeckPrintPanel';
 import ZoneViewer, { type ZoneKey } from '../components/ZoneViewer';
 
 const CUT_BTN = 'polygon(0 0,100% 0,100% 100%,95% 100%,95% 90%,85% 90%,85% 100%,8% 100%,0 70%)';
@@ -325,6 +333,17 @@ const DeckView = () => {
     }
   };
 
+  /** Copie le deck dans mes decks (fork) et ouvre l'éditeur sur la copie. */
+  const handleFork = async () => {
+    try {
+      const response = await api.post<{ deck: Deck }>(`/decks/${deckId}/fork`);
+      toast.success('Deck forké dans tes decks');
+      navigate(`/decks/${response.data.deck.id}/edit`);
+    } catch {
+      // toast déjà émis par l'intercepteur axios
+    }
+  };
+
   const handleCopyToWishlist = async () => {
     try {
       await api.post(`/social/wishlist/${deckId}`);
@@ -338,7 +357,10 @@ const DeckView = () => {
   const handleShare = async () => {
     try {
       const response = await api.post(`/decks/${deckId}/share`);
-      const url = `${window.location.origin}/deck/share/${response.data.share_token}`;
+      // Page d'aperçu côté API : porte les balises Open Graph (image du deck)
+      // et redirige vers /deck/share/:token
+      const apiOrigin = import.meta.env.VITE_API_URL || window.location.origin;
+      const url = `${apiOrigin}/api/decks/shared/${response.data.share_token}/preview`;
       await navigator.clipboard.writeText(url);
       toast.success('Lien copié dans le presse-papiers');
     } catch (error) {
@@ -372,12 +394,13 @@ const DeckView = () => {
   const isOwner = user?.id === deck.user_id;
 
   const deckMeta = [
-    { label: 'Archétype', value: (deck as any).archetype || '— À venir' },
+    { label: 'Archétype', value: deck.archetypes?.join(' / ') || '—' },
     { label: 'Format', value: 'TCG Advanced' },
     {
       label: 'Copié',
       value: stats && stats.copies_count > 0 ? `${stats.copies_count} fois` : '— À venir',
     },
+    { label: 'Forks', value: String(deck.forks_count ?? 0) },
     {
       label: 'Valeur du deck',
       value: stats
@@ -449,6 +472,17 @@ const DeckView = () => {
                   <span style={{ fontFamily: "'Orbitron', sans-serif", fontVariantNumeric: 'tabular-nums', color: 'var(--gold)' }}>
                     {mainCount} · {extraCount} · {sideCount}
                   </span>
+                  {deck.forked_from && (
+                    <>
+                      {' '}· forké de{' '}
+                      <Link
+                        to={`/decks/${deck.forked_from.id}`}
+                        style={{ color: 'var(--violet)', textDecoration: 'none' }}>
+                        {deck.forked_from.name}
+                      </Link>{' '}
+                      (@{deck.forked_from.user.username})
+                    </>
+                  )}
                 </div>
               </div>
               <button
@@ -1247,7 +1281,7 @@ const DeckView = () => {
                 </button>
               ) : (
                 <button
-                  onClick={handleCopyToWishlist}
+                  onClick={handleFork}
                   style={{
                     marginTop: 12,
                     width: '100%',
@@ -1283,7 +1317,23 @@ const DeckView = () => {
                       zIndex: -1,
                     }}
                   />
-                  Copier dans mes decks
+                  Forker dans mes decks
+                </button>
+              )}
+              {!isOwner && !deck.is_wishlisted && (
+                <button
+                  onClick={handleCopyToWishlist}
+                  style={{
+                    marginTop: 8,
+                    width: '100%',
+                    background: 'transparent',
+                    border: 0,
+                    color: 'var(--text-muted)',
+                    fontSize: 12,
+                    textDecoration: 'underline',
+                    cursor: 'pointer',
+                  }}>
+                  Ajouter à ma wishlist
                 </button>
               )}
 
@@ -1466,6 +1516,34 @@ const DeckView = () => {
               handCards={handCards}
               active={playMode !== null}
             />
+
+            {/* Archétypes détectés et tags du propriétaire */}
+            <DeckTagsPanel
+              deck={deck}
+              isOwner={isOwner}
+              onSaved={(tags) => setDeck((p) => (p ? { ...p, tags } : p))}
+            />
+
+            {/* Consistance de la main de départ selon les rôles des cartes */}
+            <ConsistencyPanel deck={deck} isOwner={isOwner} />
+
+            {/* Plans de side par matchup — propriétaire seulement */}
+            {isOwner && <SidePlansPanel deck={deck} />}
+
+            {/* Lignes du labo de combos — à revoir pas à pas, connecté seulement */}
+            <ComboLinesPanel deck={deck} userId={user?.id} />
+
+            {/* Ce qui manque dans la collection — connecté seulement */}
+            {user && <ShoppingListPanel deckId={deck.id} />}
+
+            {/* Decklist d'inscription et proxys en PDF, image du deck */}
+            <DeckPrintPanel deckId={deck.id} deckName={deck.name} />
+
+            {/* Historique des sauvegardes — restauration réservée au propriétaire */}
+            <DeckChangelogPanel deckId={deck.id} canRestore={isOwner} onRestored={fetchDeck} />
+
+            {/* Forks : arbre des copies, et changements de l'original pour un fork */}
+            <DeckForksPanel deck={deck} isOwner={isOwner} />
           </div>
         </div>
       ) : (
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Deck, DeckFilters } from '../../../shared/types';
+import { CardAllocation, Deck, DeckFilters } from '../../../shared/types';
 import api from '../services/api';
 import toast from 'react-hot-toast';
 import AppNavbar from '../components/AppNavbar';
@@ -8,6 +8,7 @@ import AppBackground from '../components/decor/AppBackground';
 import CornerOrnaments from '../components/decor/CornerOrnaments';
 import { GlyphPyramid } from '../components/decor/Glyphs';
 import { CardIcon } from '../components/decor/Icons';
+import AllocationPanel from '../components/AllocationPanel';
 
 interface WishlistItem {
   id: number;
@@ -35,6 +36,7 @@ const Decks = () => {
   const [loading, setLoading] = useState(true);
   const [respectBanlist, setRespectBanlist] = useState<string>('');
   const [isPublic, setIsPublic] = useState<string>('');
+  const [allocation, setAllocation] = useState<CardAllocation[]>([]);
 
   useEffect(() => {
     if (activeTab === 'mydecks') fetchDecks();
@@ -50,6 +52,7 @@ const Decks = () => {
       };
       const response = await api.get('/decks', { params });
       setDecks(response.data.data || response.data);
+      fetchAllocation();
     } catch (error) {
       console.error('Failed to fetch decks:', error);
     } finally {
@@ -57,6 +60,30 @@ const Decks = () => {
     }
   };
 
+  const fetchAllocation = async () => {
+    try {
+      const response = await api.get('/collection/allocation');
+      setAllocation(response.data?.cards || []);
+    } catch {
+      /* silencieux : pas d'alerte de sur-allocation, pas bloquant */
+    }
+  };
+
+  /** Monté / projet : seuls les decks montés immobilisent la collection. */
+  const handleToggleBuilt = async (deck: Deck) => {
+    try {
+      await api.put(`/decks/${deck.id}`, { is_built: !deck.is_built });
+      setDecks((prev) => prev.map((d) => (d.id === deck.id ? { ...d, is_built: !deck.is_built } : d)));
+      fetchAllocation();
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  /** Nombre de cartes sur-allouées auxquelles ce deck (monté) participe. */
+  const overCommittedIn = (deckId: number) =>
+    allocation.filter((a) => a.over_committed && a.decks.some((d) => d.id === deckId && d.is_built)).length;
+
   const fetchWishlist = async () => {
     setLoading(true);
     try {
@@ -146,44 +173,64 @@ const Decks = () => {
                   : `${wishlist.length} deck${wishlist.length > 1 ? 's' : ''} en tête`}
               </p>
             </div>
-            <button
-              onClick={() => navigate('/decks/new')}
-              style={{
-                height: 52,
-                padding: '0 26px',
-                position: 'relative',
-                isolation: 'isolate',
-                border: 0,
-                background: 'transparent',
-                color: 'var(--bg)',
-                fontFamily: "'Orbitron', sans-serif",
-                fontWeight: 700,
-                fontSize: 12,
-                letterSpacing: '0.12em',
-                textTransform: 'uppercase',
-                cursor: 'pointer',
-              }}>
-              <span
+            <div style={{ display: 'flex', alignItems: 'center', gap: 14 }}>
+              <button
+                onClick={() => navigate('/banlists')}
                 style={{
-                  position: 'absolute',
-                  inset: 0,
-                  background: 'var(--violet)',
-                  transform: 'translate(5px,0)',
+                  height: 52,
+                  padding: '0 20px',
+                  border: '1px solid var(--border)',
+                  background: 'var(--bg-elev)',
+                  color: 'var(--text-muted)',
+                  fontFamily: "'Orbitron', sans-serif",
+                  fontWeight: 700,
+                  fontSize: 11,
+                  letterSpacing: '0.12em',
+                  textTransform: 'uppercase',
+                  cursor: 'pointer',
                   clipPath: CUT_BTN,
-                  zIndex: -1,
-                }}
-              />
-              <span
+                }}>
+                Banlists
+              </button>
+              <button
+                onClick={() => navigate('/decks/new')}
                 style={{
-                  position: 'absolute',
-                  inset: 0,
-                  background: 'var(--gold)',
-                  clipPath: CUT_BTN,
-                  zIndex: -1,
-                }}
-              />
-              Fonder un deck
-            </button>
+                  height: 52,
+                  padding: '0 26px',
+                  position: 'relative',
+                  isolation: 'isolate',
+                  border: 0,
+                  background: 'transparent',
+                  color: 'var(--bg)',
+                  fontFamily: "'Orbitron', sans-serif",
+                  fontWeight: 700,
+                  fontSize: 12,
+                  letterSpacing: '0.12em',
+                  textTransform: 'uppercase',
+                  cursor: 'pointer',
+                }}>
+                <span
+                  style={{
+                    position: 'absolute',
+                    inset: 0,
+                    background: 'var(--violet)',
+                    transform: 'translate(5px,0)',
+                    clipPath: CUT_BTN,
+                    zIndex: -1,
+                  }}
+                />
+                <span
+                  style={{
+                    position: 'absolute',
+                    inset: 0,
+                    background: 'var(--gold)',
+                    clipPath: CUT_BTN,
+                    zIndex: -1,
+                  }}
+                />
+                Fonder un deck
+              </button>
+            </div>
           </div>
 
           {/* Tabs Mes decks / Wishlist */}
@@ -256,6 +303,8 @@ const Decks = () => {
           </div>
         )}
 
+        {activeTab === 'mydecks' && <AllocationPanel allocation={allocation} />}
+
         {loading ? (
           <div className="text-center py-16">
             <div
@@ -283,6 +332,7 @@ const Decks = () => {
               {(activeTab === 'mydecks' ? decks : wishlist.map((w) => w.deck)).map((deck) => {
                 const c = cardCount(deck);
                 const isWishlist = activeTab === 'wishlist';
+                const over = isWishlist ? 0 : overCommittedIn(deck.id);
                 return (
                   <div
                     key={deck.id}
@@ -356,6 +406,11 @@ const Decks = () => {
                       </span>
                       <span style={{ color: 'var(--magenta)' }}>♥ {deck.likes_count || 0}</span>
                     </div>
+                    {over > 0 && (
+                      <div style={{ marginTop: 6, fontSize: 11, color: 'var(--danger)' }}>
+                        ⚠ {over} carte{over > 1 ? 's' : ''} sur-allouée{over > 1 ? 's' : ''}
+                      </div>
+                    )}
                     {isWishlist && (
                       <div
                         style={{
@@ -394,6 +449,30 @@ const Decks = () => {
                             }}>
                             Éditer
                           </button>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleToggleBuilt(deck);
+                            }}
+                            title={
+                              deck.is_built
+                                ? 'Deck monté : ses cartes sont réservées dans la collection'
+                                : 'Projet : ne réserve aucune carte de la collection'
+                            }
+                            style={{
+                              padding: '6px 10px',
+                              background: deck.is_built ? 'rgba(245,197,24,.14)' : 'transparent',
+                              border: `1px solid ${deck.is_built ? 'var(--gold)' : 'var(--border)'}`,
+                              color: deck.is_built ? 'var(--gold)' : 'var(--text-muted)',
+                              fontFamily: "'Orbitron', sans-serif",
+                              fontSize: 9,
+                              letterSpacing: '0.12em',
+                              textTransform: 'uppercase',
+                              fontWeight: 700,
+                              cursor: 'pointer',
+                            }}>
+                            {deck.is_built ? 'Monté' : 'Projet'}
+                          </button>
                           <button
                             onClick={(e) => {
                               e.stopPropagation();
@@ -3,7 +3,9 @@ import { useNavigate, useParams } from 'react-router-dom';
 import toast from 'react-hot-toast';
 import { duelMatchApi } from '../services/duelMatchApi';
 import { useAuth } from '../context/AuthContext';
-import type { DuelMatch } from '../../../shared/types';
+import { isExtraDeckCard } from '../../../shared/cards';
+import { applySidePlan, describeSidePlan } from '../../../shared/sidePlans';
+import type { DeckSidePlans, DuelMatch } from '../../../shared/types';
 
 /**
  * Éditeur de side-deck entre deux manches — F4 du PLAN-DUEL-AMELIORATIONS.
@@ -21,6 +23,9 @@ import type { DuelMatch } from '../../../shared/types';
  * L'invariant : (main ∪ extra ∪ side) doit toujours contenir la même
  * composition qu'avant. Le back rejette toute soumission qui ajouterait ou
  * retirerait une carte — sinon le sideboard serait un vecteur de triche.
+ *
+ * Les plans de side du deck (« vs Snake-Eye ») s'appliquent en un clic au-dessus
+ * des colonnes : ils partent du deck de base, comme l'éditeur.
  */
 
 const cardImg = (cardId: number): string =>
@@ -30,6 +35,13 @@ interface CardEntry {
   cardId: number;    // cards.id interne
   passcode: number;  // cards.card_id (pour l'image)
   name: string;
+  extra: boolean;    // carte d'Extra Deck : revient à l'Extra, pas au Main
+}
+
+interface Composition {
+  main: CardEntry[];
+  extra: CardEntry[];
+  side: CardEntry[];
 }
 
 export default function DuelMatchLobby() {
@@ -45,6 +57,10 @@ export default function DuelMatchLobby() {
   const [extra, setExtra] = useState<CardEntry[]>([]);
   const [side, setSide] = useState<CardEntry[]>([]);
   const [saving, setSaving] = useState(false);
+  const [base, setBase] = useState<Composition | null>(null);
+  const [plans, setPlans] = useState<DeckSidePlans['plans']>([]);
+  // null : deck de base ; '' : retouché à la main après un plan
+  const [activePlan, setActivePlan] = useState<string | null>(null);
 
   const iSubmitted = user?.id ? submittedBy.includes(user.id) : false;
 
@@ -94,11 +110,23 @@ export default function DuelMatchLobby() {
             cardId: dc.card_id,
             passcode: Number(dc.card?.card_id ?? 0),
             name: dc.card?.name_fr || dc.card?.name || `carte #${dc.card_id}`,
+            extra: dc.card ? isExtraDeckCard(dc.card) : false,
           }));
         const flatten = (arr: any[]): CardEntry[] => arr.flatMap(toEntry);
-        setMain(flatten(deck.main_deck ?? []));
-        setExtra(flatten(deck.extra_deck ?? []));
-        setSide(flatten(deck.side_deck ?? []));
+        const composition = {
+          main: flatten(deck.main_deck ?? []),
+          extra: flatten(deck.extra_deck ?? []),
+          side: flatten(deck.side_deck ?? []),
+        };
+        setBase(composition);
+        setMain(composition.main);
+        setExtra(composition.extra);
+        setSide(composition.side);
+        // Plans de side : réservés au propriétaire, on est forcément celui-ci
+        axiosApi
+          .get<DeckSidePlans>(`/decks/${deckId}/side-plans`)
+          .then((r) => setPlans(r.data.plans))
+          .catch(() => setPlans([]));
       } catch (err: any) {
         toast.error("Chargement de la composition impossible");
       }
@@ -110,17 +138,53 @@ export default function DuelMatchLobby() {
     return games.length > 0 ? Math.min(3, games[games.length - 1].game_number + 1) : 2;
   }, [match]);
 
+  const applyPlan = (name: string | null): void => {
+    if (!base) return;
+    const plan = plans.find((p) => p.name === name);
+    if (!plan) {
+      setMain(base.main);
+      setExtra(base.extra);
+      setSide(base.side);
+      setActivePlan(null);
+      return;
+    }
+    const entries = new Map(
+      [...base.main, ...base.extra, ...base.side].map((c) => [c.cardId, c])
+    );
+    const ids = (list: CardEntry[]) => list.map((c) => c.cardId);
+    const { sections, problems } = applySidePlan(
+      { main: ids(base.main), extra: ids(base.extra), side: ids(base.side) },
+      plan,
+      {
+        isExtra: (id) => entries.get(id)?.extra ?? false,
+        nameOf: (id) => entries.get(id)?.name ?? `#${id}`,
+      }
+    );
+    if (problems.length > 0) {
+      toast.error(problems.join('\n'));
+      return;
+    }
+    const toEntries = (list: number[]) => list.map((id) => entries.get(id)!);
+    setMain(toEntries(sections.main));
+    setExtra(toEntries(sections.extra));
+    setSide(toEntries(sections.side));
+    setActivePlan(plan.name);
+  };
+
   const moveMainToSide = (idx: number): void => {
+    setActivePlan('');
     const [c] = main.splice(idx, 1);
     setMain([...main]);
     setSide([...side, c]);
   };
   const moveExtraToSide = (idx: number): void => {
+    setActivePlan('');
     const [c] = extra.splice(idx, 1);
     setExtra([...extra]);
     setSide([...side, c]);
   };
   const moveSideToMain = (idx: number): void => {
+    setActivePlan('');
     const [c] = side.splice(idx, 1);
     setSide([...side]);
     setMain([...main, c]);
@@ -208,6 +272,32 @@ export default function DuelMatchLobby() {
         </div>
       ) : (
         <div>
+          {plans.length > 0 && (
+            <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center', marginBottom: 16 }}>
+              <span style={{ opacity: 0.7, fontSize: 13 }}>Plans de side :</span>
+              <button
+                onClick={() => applyPlan(null)}
+                style={activePlan === null ? presetActive : presetStyle}
+              >
+                Deck de base
+              </button>
+              {plans.map((p) => (
+                <button
+                  key={p.name}
+                  onClick={() => applyPlan(p.name)}
+                  disabled={p.problems.length > 0}
+                  title={p.problems.length > 0 ? p.problems.join('\n') : undefined}
+                  style={{
+                    ...(activePlan === p.name ? presetActive : presetStyle),
+                    opacity: p.problems.length > 0 ? 0.4 : 1,
+                  }}
+                >
+                  {p.name} <span style={{ opacity: 0.7 }}>{describeSidePlan(p)}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
           <div style={colsStyle}>
             <Column
               title={`Main Deck (${main.length})`}
@@ -325,6 +415,21 @@ const cardBtnStyle: React.CSSProperties = {
   cursor: 'pointer',
 };
 
+const presetStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  background: 'transparent',
+  color: 'inherit',
+  border: '1px solid #444',
+  borderRadius: 6,
+  cursor: 'pointer',
+};
+
+const presetActive: React.CSSProperties = {
+  ...presetStyle,
+  borderColor: '#d4a017',
+  color: '#d4a017',
+};
+
 const btnPrimary: React.CSSProperties = {
   padding: '10px 24px',
   background: '#d4a017',
@@ -0,0 +1,429 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { duelEngineApi } from '../services/duelEngineApi';
+import { DuelField } from '../components/duel/DuelField';
+import type { DuelCardView, DuelReplay, DuelSideView } from '../../../shared/duelView';
+
+/**
+ * Rejeu pas à pas d'une partie finie.
+ *
+ * Le serveur reconstruit la partie dans le moteur (graine + journal) et
+ * renvoie une image par décision : plateau public, mains à part, lignes de
+ * journal apparues depuis l'image précédente. Tout se navigue ici, sans
+ * nouvel appel : lecture, pas à pas, saut à un tour.
+ *
+ * Les mains ne sont montrées qu'à la demande — par défaut on revoit la partie
+ * comme un spectateur l'aurait vue.
+ *
+ * Le même écran rejoue une ligne de combo enregistrée sur un deck
+ * (`/decks/:deckId/combo-lines/:lineId`) : même format, sans partie derrière.
+ */
+
+/** Une décision par seconde : assez lent pour suivre une chaîne. */
+const PLAY_INTERVAL_MS = 1000;
+
+const PHASE_LABELS: Record<string, string> = {
+  draw: 'Draw Phase',
+  standby: 'Standby Phase',
+  main1: 'Main Phase 1',
+  battle_start: 'Battle Phase',
+  battle_step: 'Battle Step',
+  damage: 'Damage Step',
+  damage_cal: 'Damage Calculation',
+  battle: 'Battle Phase',
+  main2: 'Main Phase 2',
+  end: 'End Phase',
+  unknown: '—',
+};
+
+const cardImage = (code: number): string =>
+  `https://images.ygoprodeck.com/images/cards_small/${code}.jpg`;
+
+export default function DuelReplayViewer() {
+  const { id, deckId, lineId } = useParams<{ id: string; deckId: string; lineId: string }>();
+  const duelId = Number(id);
+  const isLine = lineId !== undefined;
+  const navigate = useNavigate();
+  const back = () => navigate(isLine ? `/decks/${deckId}` : '/duels');
+
+  const [replay, setReplay] = useState<DuelReplay | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [revealHands, setRevealHands] = useState(false);
+  const [openZone, setOpenZone] = useState<{ kind: 'grave' | 'banished'; seat: 0 | 1 } | null>(null);
+
+  useEffect(() => {
+    if (!isLine && !Number.isFinite(duelId)) return;
+    (isLine ? duelEngineApi.comboLineReplay(Number(deckId), Number(lineId)) : duelEngineApi.replay(duelId))
+      .then((r) => {
+        setReplay(r);
+        setError(null);
+      })
+      .catch((err: any) => setError(err?.response?.data?.error?.message ?? 'Rejeu indisponible'));
+  }, [duelId, isLine, deckId, lineId]);
+
+  const last = replay ? replay.frames.length - 1 : 0;
+
+  const exportYrpx = async () => {
+    try {
+      const blob = await duelEngineApi.exportYrpx(duelId);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `duel-${duelId}.yrpX`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      // toast déjà émis par l'intercepteur axios
+    }
+  };
+
+  // Lecture : une image à la fois, arrêt automatique sur la dernière.
+  useEffect(() => {
+    if (!playing) return;
+    if (index >= last) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setIndex(index + 1), PLAY_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [playing, index, last]);
+
+  // ← / → pour le pas à pas, espace pour lecture/pause
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if ((e.target as HTMLElement)?.tagName === 'SELECT') return;
+      if (e.key === 'ArrowLeft') setIndex((i) => Math.max(0, i - 1));
+      else if (e.key === 'ArrowRight') setIndex((i) => Math.min(last, i + 1));
+      else if (e.key === ' ') {
+        e.preventDefault();
+        setPlaying((p) => !p);
+      } else return;
+      if (e.key !== ' ') setPlaying(false);
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [last]);
+
+  // Journal cumulé jusqu'à l'image courante
+  const log = useMemo(
+    () => (replay ? replay.frames.slice(0, index + 1).flatMap((f) => f.log).slice(-40) : []),
+    [replay, index]
+  );
+
+  if (error) {
+    return (
+      <div style={{ minHeight: '100vh', display: 'grid', placeItems: 'center', gap: 16 }}>
+        <p style={{ color: 'var(--text-muted)' }}>{error}</p>
+        <button type="button" onClick={back} style={btn('var(--gold)')}>
+          {isLine ? 'Retour au deck' : 'Retour aux duels'}
+        </button>
+      </div>
+    );
+  }
+  if (!replay) {
+    return (
+      <div style={{ minHeight: '100vh', display: 'grid', placeItems: 'center', color: 'var(--text-muted)' }}>
+        Reconstruction de la partie…
+      </div>
+    );
+  }
+
+  const frame = replay.frames[index];
+  const { board } = frame;
+  const step = (delta: number) => {
+    setPlaying(false);
+    setIndex((i) => Math.min(last, Math.max(0, i + delta)));
+  };
+  const zoneCards = openZone
+    ? (openZone.seat === 0 ? board.me : board.opponent)[openZone.kind === 'grave' ? 'graveyard' : 'banished']
+    : [];
+
+  return (
+    <div style={{ minHeight: '100vh', position: 'relative', background: 'transparent' }}>
+      <header style={header}>
+        <button type="button" onClick={back} style={ghostBtn}>
+          ← Retour
+        </button>
+        <div style={{ display: 'flex', alignItems: 'baseline', gap: 14 }}>
+          <strong style={{ fontFamily: "'Orbitron', sans-serif", letterSpacing: '0.12em' }}>
+            TOUR {board.turn}
+          </strong>
+          <span style={{ color: 'var(--gold)', fontWeight: 700 }}>{PHASE_LABELS[board.phase] ?? board.phase}</span>
+          <span style={{ color: 'var(--text-muted)', fontSize: 13 }}>
+            au tour de {replay.players[board.turnPlayer].username}
+          </span>
+          {board.chainLength > 0 && (
+            <span style={{ color: 'var(--magenta)', fontSize: 12 }}>chaîne · {board.chainLength}</span>
+          )}
+        </div>
+        <span style={{ fontSize: 12, color: 'var(--text-muted)' }}>
+          Rejeu · {replay.players[0].username} vs {replay.players[1].username}
+        </span>
+      </header>
+
+      {/* ── Contrôles */}
+      <div style={controls}>
+        <button type="button" onClick={() => step(-1)} disabled={index === 0} style={ghostBtn} title="Image précédente (←)">
+          ◀
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            if (index >= last) setIndex(0);
+            setPlaying(!playing);
+          }}
+          style={btn('var(--gold)')}
+          title="Lecture / pause (espace)">
+          {playing ? 'Pause' : 'Lecture'}
+        </button>
+        <button type="button" onClick={() => step(1)} disabled={index >= last} style={ghostBtn} title="Image suivante (→)">
+          ▶
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={last}
+          value={index}
+          onChange={(e) => {
+            setPlaying(false);
+            setIndex(Number(e.target.value));
+          }}
+          style={{ flex: 1, minWidth: 120 }}
+        />
+        <span style={{ fontSize: 12, color: 'var(--text-muted)', fontVariantNumeric: 'tabular-nums' }}>
+          {index + 1} / {last + 1}
+        </span>
+        <select
+          value={board.turn}
+          onChange={(e) => {
+            const target = replay.turns.find((t) => t.turn === Number(e.target.value));
+            if (target) {
+              setPlaying(false);
+              setIndex(target.frame);
+            }
+          }}
+          style={selectStyle}>
+          {replay.turns.map((t) => (
+            <option key={t.turn} value={t.turn}>
+              Tour {t.turn}
+            </option>
+          ))}
+        </select>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12, color: 'var(--text-muted)' }}>
+          <input type="checkbox" checked={revealHands} onChange={(e) => setRevealHands(e.target.checked)} />
+          Révéler les mains
+        </label>
+        {replay.complete && !isLine && (
+          <button type="button" onClick={exportYrpx} style={ghostBtn} title="Fichier de rejeu à ouvrir dans EDOPro">
+            .yrpX ↓
+          </button>
+        )}
+      </div>
+
+      {!replay.complete && (
+        <p style={{ margin: '0 20px', fontSize: 12, color: 'var(--danger)' }}>
+          Rejeu interrompu : {replay.error}. Les images suivantes n'ont pas pu être reconstruites.
+        </p>
+      )}
+
+      <div style={{ padding: 20, maxWidth: 1300, margin: '0 auto', display: 'flex', gap: 20, alignItems: 'flex-start' }}>
+        <div style={{ flex: 1, display: 'flex', flexDirection: 'column', gap: 10 }}>
+          <SideBanner name={replay.players[1].username} side={board.opponent} />
+          <HandStrip cards={frame.hands[1]} reveal={revealHands} />
+          <DuelField
+            board={board}
+            options={[]}
+            selectedIds={[]}
+            onOptionPicked={() => undefined}
+            onHover={() => undefined}
+            onCardMenu={() => undefined}
+            onOpenZone={(zone, side) => {
+              if (zone === 'extra') return;
+              setOpenZone({ kind: zone, seat: side === 'me' ? 0 : 1 });
+            }}
+          />
+          <HandStrip cards={frame.hands[0]} reveal={revealHands} />
+          <SideBanner name={replay.players[0].username} side={board.me} />
+        </div>
+
+        <aside style={{ width: 320, display: 'flex', flexDirection: 'column', gap: 12 }}>
+          <div style={panel}>
+            <h3 style={panelTitle}>Décision</h3>
+            {frame.decision ? (
+              <div style={{ fontSize: 13 }}>
+                <div style={{ color: 'var(--text-muted)' }}>
+                  {replay.players[frame.decision.seat].username} · {frame.decision.prompt || 'Décision'}
+                </div>
+                <div style={{ color: 'var(--gold)', marginTop: 4 }}>
+                  → {frame.decision.choice.join(', ') || '—'}
+                </div>
+              </div>
+            ) : (
+              <div style={{ fontSize: 13, color: 'var(--gold)' }}>
+                {replay.winner !== null
+                  ? `Victoire de ${replay.players[replay.winner].username}`
+                  : 'Fin de la partie'}
+                {replay.winReason ? ` (${replay.winReason})` : ''}
+              </div>
+            )}
+          </div>
+
+          {board.chain.length > 0 && (
+            <div style={panel}>
+              <h3 style={panelTitle}>Chaîne</h3>
+              <ol style={{ margin: 0, paddingLeft: 18, fontSize: 12 }}>
+                {board.chain.map((c) => (
+                  <li
+                    key={c.link}
+                    style={{ color: board.chainSolvingLink === c.link ? 'var(--magenta)' : 'var(--text)' }}>
+                    {c.name ?? `#${c.code}`} · {replay.players[c.controller].username}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
+          {openZone && (
+            <div style={panel}>
+              <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+                <h3 style={panelTitle}>
+                  {openZone.kind === 'grave' ? 'Cimetière' : 'Bannis'} · {replay.players[openZone.seat].username}
+                </h3>
+                <button
+                  type="button"
+                  onClick={() => setOpenZone(null)}
+                  style={{ background: 'transparent', border: 0, color: 'var(--text-dim)', cursor: 'pointer' }}>
+                  ×
+                </button>
+              </div>
+              {zoneCards.length === 0 ? (
+                <p style={{ margin: 0, fontSize: 12, color: 'var(--text-dim)' }}>Vide.</p>
+              ) : (
+                <ul style={{ margin: 0, padding: 0, listStyle: 'none', fontSize: 12 }}>
+                  {zoneCards.map((c, i) => (
+                    <li key={i}>{c.code ? c.name ?? `#${c.code}` : 'Face verso'}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div style={panel}>
+            <h3 style={panelTitle}>Déroulé</h3>
+            <ul style={{ margin: 0, padding: 0, listStyle: 'none', maxHeight: 320, overflowY: 'auto' }}>
+              {log.map((l, i) => (
+                <li key={i} style={{ padding: '2px 0', fontSize: 12 }}>
+                  {l.text}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </aside>
+      </div>
+    </div>
+  );
+}
+
+function SideBanner({ name, side }: { name: string; side: DuelSideView }) {
+  return (
+    <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 13, color: 'var(--text-muted)' }}>
+      <strong style={{ color: 'var(--text)' }}>{name}</strong>
+      <span>
+        {side.lp} LP · Main {side.handCount} · Deck {side.deckCount}
+      </span>
+    </div>
+  );
+}
+
+/** Main d'un joueur : illustrations si on la révèle, sinon son seul décompte. */
+function HandStrip({ cards, reveal }: { cards: DuelCardView[]; reveal: boolean }) {
+  if (!reveal) {
+    return (
+      <div style={{ textAlign: 'center', fontSize: 11, color: 'var(--text-dim)' }}>
+        Main : {cards.length} carte{cards.length > 1 ? 's' : ''}
+      </div>
+    );
+  }
+  return (
+    <div style={{ display: 'flex', gap: 6, justifyContent: 'center', minHeight: 60 }}>
+      {cards.map((c, i) => (
+        <img
+          key={`${c.code}-${i}`}
+          src={cardImage(c.code)}
+          alt={c.name ?? ''}
+          title={c.name}
+          style={{ width: 42, height: 61, objectFit: 'cover' }}
+        />
+      ))}
+    </div>
+  );
+}
+
+const header: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'space-between',
+  padding: '12px 20px',
+  borderBottom: '1px solid var(--border)',
+  background: 'var(--bg-elev)',
+};
+
+const controls: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: 10,
+  padding: '12px 20px',
+  flexWrap: 'wrap',
+};
+
+const panel: React.CSSProperties = {
+  background: 'var(--panel)',
+  border: '1px solid var(--border)',
+  padding: 16,
+};
+
+const panelTitle: React.CSSProperties = {
+  margin: '0 0 8px',
+  fontFamily: "'Orbitron', sans-serif",
+  fontSize: 11,
+  letterSpacing: '0.14em',
+  textTransform: 'uppercase',
+  color: 'var(--gold)',
+};
+
+const selectStyle: React.CSSProperties = {
+  padding: '7px 10px',
+  background: 'var(--bg-sunken)',
+  border: '1px solid var(--border)',
+  color: 'var(--text)',
+  fontSize: 12,
+};
+
+function btn(accent: string): React.CSSProperties {
+  return {
+    padding: '9px 14px',
+    background: accent,
+    color: 'var(--on-gold)',
+    border: 'none',
+    fontFamily: "'Orbitron', sans-serif",
+    fontSize: 11,
+    fontWeight: 700,
+    letterSpacing: '0.08em',
+    textTransform: 'uppercase',
+    cursor: 'pointer',
+  };
+}
+
+const ghostBtn: React.CSSProperties = {
+  padding: '9px 14px',
+  background: 'transparent',
+  color: 'var(--text-muted)',
+  border: '1px solid var(--border)',
+  fontSize: 11,
+  fontWeight: 600,
+  letterSpacing: '0.08em',
+  textTransform: 'uppercase',
+  cursor: 'pointer',
+};
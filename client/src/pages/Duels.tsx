@@ -5,7 +5,11 @@ import { useAuth } from '../context/AuthContext';
 import { Deck, Duel } from '../../../shared/types';
 import api, { getImageUrl } from '../services/api';
 import duelApi from '../services/duelApi';
+import { duelEngineApi } from '../services/duelEngineApi';
 import AppNavbar from '../components/AppNavbar';
+import BotDuelModal from '../components/BotDuelModal';
+import GoldfishModal from '../components/GoldfishModal';
+import PuzzleModal from '../components/PuzzleModal';
 import AppBackground from '../components/decor/AppBackground';
 import CornerOrnaments from '../components/decor/CornerOrnaments';
 import { GlyphPyramid } from '../components/decor/Glyphs';
@@ -33,6 +37,9 @@ const Duels = () => {
   const [loading, setLoading] = useState(true);
   const [incomingCount, setIncomingCount] = useState(0);
   const [showFlash, setShowFlash] = useState(false);
+  const [botOpen, setBotOpen] = useState(false);
+  const [labOpen, setLabOpen] = useState(false);
+  const [puzzleOpen, setPuzzleOpen] = useState(false);
 
   // Accept modal (inline)
   const [acceptFor, setAcceptFor] = useState<Duel | null>(null);
@@ -173,6 +180,20 @@ const Duels = () => {
     }
   };
 
+  const handleExportYrpx = async (duel: Duel) => {
+    try {
+      const blob = await duelEngineApi.exportYrpx(duel.id);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `duel-${duel.id}.yrpX`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      // toast déjà émis par l'intercepteur axios
+    }
+  };
+
   const formatDate = (d: Date | string) => {
     const date = new Date(d);
     const now = new Date();
@@ -530,7 +551,7 @@ const Duels = () => {
           )}
           {isFinished && (
             <button
-              onClick={() => navigate(`/duel/${d.id}`)}
+              onClick={() => navigate(d.engine_mode ? `/duel/${d.id}/replay` : `/duel/${d.id}`)}
               style={{
                 height: 40,
                 padding: '0 18px',
@@ -548,6 +569,27 @@ const Duels = () => {
               Revoir le duel
             </button>
           )}
+          {isFinished && d.engine_mode && (
+            <button
+              onClick={() => handleExportYrpx(d)}
+              title="Fichier de rejeu à ouvrir dans EDOPro"
+              style={{
+                height: 40,
+                padding: '0 18px',
+                border: '1px solid #3A2E1C',
+                background: 'transparent',
+                color: '#A99C86',
+                fontFamily: "'Orbitron', sans-serif",
+                fontSize: 10,
+                letterSpacing: '0.14em',
+                textTransform: 'uppercase',
+                fontWeight: 700,
+                cursor: 'pointer',
+                clipPath: CUT_SM,
+              }}>
+              .yrpX ↓
+            </button>
+          )}
         </div>
       </div>
     );
@@ -673,6 +715,60 @@ const Duels = () => {
                 ● M'a défié {incomingCount > 1 ? `(${incomingCount})` : ''}
               </button>
             )}
+
+            {/* Duel en solo, sans attendre de réponse */}
+            <button
+              onClick={() => setBotOpen(true)}
+              style={{
+                marginLeft: 'auto',
+                padding: '10px 18px',
+                border: '1px solid #A855F7',
+                background: 'rgba(168,85,247,.15)',
+                color: '#D8B4FE',
+                fontFamily: "'Orbitron', sans-serif",
+                fontSize: 11,
+                letterSpacing: '0.14em',
+                textTransform: 'uppercase',
+                fontWeight: 700,
+                cursor: 'pointer',
+                clipPath: CUT_CHIP,
+              }}>
+              Affronter le bot
+            </button>
+            <button
+              onClick={() => setLabOpen(true)}
+              style={{
+                padding: '10px 18px',
+                border: '1px solid #F5C518',
+                background: 'rgba(245,197,24,.1)',
+                color: '#F5C518',
+                fontFamily: "'Orbitron', sans-serif",
+                fontSize: 11,
+                letterSpacing: '0.14em',
+                textTransform: 'uppercase',
+                fontWeight: 700,
+                cursor: 'pointer',
+                clipPath: CUT_CHIP,
+              }}>
+              Labo de combos
+            </button>
+            <button
+              onClick={() => setPuzzleOpen(true)}
+              style={{
+                padding: '10px 18px',
+                border: '1px solid #22D3EE',
+                background: 'rgba(34,211,238,.1)',
+                color: '#67E8F9',
+                fontFamily: "'Orbitron', sans-serif",
+                fontSize: 11,
+                letterSpacing: '0.14em',
+                textTransform: 'uppercase',
+                fontWeight: 700,
+                cursor: 'pointer',
+                clipPath: CUT_CHIP,
+              }}>
+              Puzzles
+            </button>
           </div>
         </div>
 
@@ -719,6 +815,10 @@ const Duels = () => {
         )}
       </div>
 
+      <BotDuelModal open={botOpen} onClose={() => setBotOpen(false)} />
+      <GoldfishModal open={labOpen} onClose={() => setLabOpen(false)} />
+      <PuzzleModal open={puzzleOpen} onClose={() => setPuzzleOpen(false)} />
+
       {/* Modal Accept — pattern ChallengeModal */}
       {acceptFor && (
         <div
@@ -13,6 +13,7 @@ import type {
   DuelCardView,
   DuelChoice,
   DuelCombatLogEntry,
+  DuelLabHistory,
   DuelLogEntry,
   DuelPreGameState,
   DuelPrompt,
@@ -106,6 +107,8 @@ export default function EngineDuelRoom() {
   const [selection, setSelection] = useState<string[]>([]);
   const [phasesOpen, setPhasesOpen] = useState(false);
   const [confirmSurrender, setConfirmSurrender] = useState(false);
+  /** Labo de combos : panneau des décisions (retour arrière, enregistrement). */
+  const [labOpen, setLabOpen] = useState(false);
   /**
    * Confirmation « Terminer ton tour ? » — §C.3. Le check-box « Ne plus
    * demander cette partie » est purement local (pas persisté serveur).
@@ -257,7 +260,9 @@ export default function EngineDuelRoom() {
             ? 'Abandon'
             : reason === 'timeout'
               ? 'Temps écoulé'
-              : 'Fin de partie';
+              : reason === 'puzzle_failed'
+                ? 'Puzzle raté — le tour est passé'
+                : 'Fin de partie';
         toast.success(label, { duration: 4000 });
         // On rafraîchit pour récupérer le statut « finished » et le vainqueur.
         void refresh();
@@ -418,6 +423,29 @@ export default function EngineDuelRoom() {
     }
   };
 
+  /**
+   * Labo de combos : revient avant une décision (la dernière par défaut).
+   * Le serveur rejoue la partie jusque-là ; l'état d'arrivée remplace le nôtre.
+   */
+  const undo = async (seq?: number) => {
+    if (busyRef.current) return;
+    busyRef.current = true;
+    setBusy(true);
+    setCardMenu(null);
+    setSelection([]);
+    setChainConfirmed(false);
+    try {
+      setState(await duelEngineApi.labUndo(duelId, seq));
+      setLabOpen(false);
+    } catch {
+      // toast déjà émis par l'intercepteur axios
+      await refresh();
+    } finally {
+      busyRef.current = false;
+      setBusy(false);
+    }
+  };
+
   /**
    * Ouvre le menu contextuel d'une carte sans rien envoyer au serveur.
    *
@@ -607,9 +635,14 @@ export default function EngineDuelRoom() {
           <h2 style={{ color: iWon ? 'var(--gold)' : 'var(--text-muted)' }}>
             {iWon ? 'Victoire' : 'Défaite'}
           </h2>
-          <button type="button" onClick={() => navigate('/duels')} style={btn('var(--gold)')}>
-            Retour aux duels
-          </button>
+          <div style={{ display: 'flex', gap: 8 }}>
+            <button type="button" onClick={() => navigate(`/duel/${duelId}/replay`)} style={btn('var(--gold)')}>
+              Revoir la partie
+            </button>
+            <button type="button" onClick={() => navigate('/duels')} style={ghostBtn}>
+              Retour aux duels
+            </button>
+          </div>
         </div>
       );
     }
@@ -650,9 +683,22 @@ export default function EngineDuelRoom() {
           )}
         </div>
         <div style={{ display: 'flex', alignItems: 'center', gap: 12 }}>
-          {state.clocks && (
+          {state.clocks && !duel?.goldfish && !duel?.puzzle_id && (
             <ClockDisplay clocks={state.clocks} mySeat={board.seat} />
           )}
+          {duel?.puzzle_id && (
+            <span style={{ fontSize: 12, color: 'var(--cyan)', fontWeight: 700 }}>Puzzle · gagne ce tour</span>
+          )}
+          {duel?.goldfish && (
+            <>
+              <button type="button" disabled={busy} onClick={() => undo()} title="Annuler ma dernière décision" style={ghostBtn}>
+                ↶ Annuler
+              </button>
+              <button type="button" onClick={() => setLabOpen(true)} style={{ ...ghostBtn, color: 'var(--gold)', borderColor: 'var(--gold)' }}>
+                Labo
+              </button>
+            </>
+          )}
           <button
             type="button"
             onClick={() => setConfirmSurrender(true)}
@@ -668,6 +714,10 @@ export default function EngineDuelRoom() {
         </div>
       </header>
 
+      {labOpen && (
+        <LabPanel duelId={duelId} busy={busy} onUndo={undo} onClose={() => setLabOpen(false)} />
+      )}
+
       {confirmSurrender && (
         <Overlay onClose={() => setConfirmSurrender(false)}>
           <h4 style={{ margin: '0 0 8px', color: 'var(--danger, #d84a4a)' }}>Abandonner ?</h4>
@@ -2594,6 +2644,103 @@ function DrawAnimation({ event }: { event: DuelAnimationEvent }) {
   );
 }
 
+/**
+ * Labo de combos : mes décisions de la partie, chacune avec « revenir ici »,
+ * et l'enregistrement de la ligne sur le deck. L'historique est reconstruit
+ * par le serveur à l'ouverture du panneau.
+ */
+function LabPanel({
+  duelId,
+  busy,
+  onUndo,
+  onClose,
+}: {
+  duelId: number;
+  busy: boolean;
+  onUndo: (seq: number) => void;
+  onClose: () => void;
+}) {
+  const [history, setHistory] = useState<DuelLabHistory | null>(null);
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    duelEngineApi
+      .labHistory(duelId)
+      .then(setHistory)
+      .catch(() => setHistory({ duelId, decisions: [] }));
+  }, [duelId]);
+
+  const save = async () => {
+    if (!name.trim()) return;
+    setSaving(true);
+    try {
+      const line = await duelEngineApi.saveLabLine(duelId, name.trim());
+      toast.success(`Ligne « ${line.name} » enregistrée sur le deck`);
+      setName('');
+    } catch {
+      // toast déjà émis par l'intercepteur axios
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Overlay onClose={onClose}>
+      <h4 style={{ margin: '0 0 4px', color: 'var(--gold)' }}>Labo de combos</h4>
+      <p style={{ margin: 0, color: 'var(--text-muted)', fontSize: 12 }}>
+        Reviens avant n'importe laquelle de tes décisions : la partie est rejouée jusque-là.
+      </p>
+
+      <div style={sectionTitle}>Mes décisions</div>
+      <div style={{ maxHeight: 300, overflowY: 'auto', display: 'grid', gap: 4 }}>
+        {!history && <span style={{ color: 'var(--text-muted)', fontSize: 12 }}>Reconstruction…</span>}
+        {history?.decisions.length === 0 && (
+          <span style={{ color: 'var(--text-muted)', fontSize: 12 }}>Aucune décision pour l'instant.</span>
+        )}
+        {history?.decisions.map((d, i) => (
+          <div
+            key={d.seq}
+            style={{ display: 'flex', alignItems: 'center', gap: 10, padding: '4px 0', borderBottom: '1px solid var(--border)' }}>
+            <span style={{ fontSize: 11, color: 'var(--text-dim)', minWidth: 48 }}>
+              #{i + 1} · T{d.turn}
+            </span>
+            <span style={{ flex: 1, fontSize: 12 }}>
+              <span style={{ color: 'var(--text-muted)' }}>{d.prompt}</span> → {d.choice.join(', ')}
+            </span>
+            <button type="button" disabled={busy} onClick={() => onUndo(d.seq)} style={ghostBtn}>
+              Revenir ici
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div style={sectionTitle}>Enregistrer la ligne</div>
+      <div style={{ display: 'flex', gap: 8 }}>
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={60}
+          placeholder="ex. Main 1 carte — Snake-Eye Ash"
+          style={{
+            flex: 1,
+            padding: '8px 10px',
+            background: 'var(--bg-elev)',
+            border: '1px solid var(--border)',
+            color: 'var(--text)',
+          }}
+        />
+        <button type="button" disabled={saving || !name.trim()} onClick={save} style={btn('var(--gold)')}>
+          Enregistrer
+        </button>
+      </div>
+      <p style={{ margin: '6px 0 0', color: 'var(--text-dim)', fontSize: 11 }}>
+        Graine, main et décisions sont gardées : la ligne se rejoue pas à pas depuis la fiche du deck.
+      </p>
+    </Overlay>
+  );
+}
+
 function Overlay({ children, onClose }: { children: React.ReactNode; onClose: () => void }) {
   return (
     <div
@@ -9,6 +9,7 @@ import AppBackground from '../components/decor/AppBackground';
 import CornerOrnaments from '../components/decor/CornerOrnaments';
 import { GlyphEye } from '../components/decor/Glyphs';
 import { CardIcon, CheckIcon } from '../components/decor/Icons';
+import CollectionValuePanel from '../components/CollectionValuePanel';
 
 const CUT_SM = 'polygon(6px 0,100% 0,100% calc(100% - 6px),calc(100% - 6px) 100%,0 100%,0 6px)';
 const CUT_STATS = 'polygon(0 0,100% 0,100% calc(100% - 14px),calc(100% - 14px) 100%,14px 100%,0 calc(100% - 14px))';
@@ -387,6 +388,9 @@ const Profile = () => {
             })}
           </div>
 
+          {/* Valeur de la collection dans le temps */}
+          <CollectionValuePanel />
+
           {/* Edit form inline */}
           {editing && (
             <form
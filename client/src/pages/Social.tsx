@@ -3,13 +3,14 @@ import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { useDebounce } from '../hooks/useDebounce';
 import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
-import { Deck, User } from '../../../shared/types';
+import { Deck, DeckFacet, User } from '../../../shared/types';
 import api, { getImageUrl } from '../services/api';
 import toast from 'react-hot-toast';
 import AppNavbar from '../components/AppNavbar';
 import AppBackground from '../components/decor/AppBackground';
 import CornerOrnaments from '../components/decor/CornerOrnaments';
 import { CardIcon } from '../components/decor/Icons';
+import DeckSearchFilters, { type DeckSearchValues } from '../components/DeckSearchFilters';
 
 const CUT_SM = 'polygon(6px 0,100% 0,100% calc(100% - 6px),calc(100% - 6px) 100%,0 100%,0 6px)';
 const CUT_FEED = 'polygon(0 0,calc(100% - 20px) 0,100% 20px,100% 100%,20px 100%,0 calc(100% - 20px))';
@@ -30,7 +31,33 @@ const Social = () => {
   const [tab, setTab] = useState<'decks' | 'users'>(
     searchParams.get('tab') === 'users' ? 'users' : 'decks'
   );
-  const [sort, setSort] = useState<'populaires' | 'recents' | 'suivis'>('populaires');
+  const [sort, setSort] = useState<'populaires' | 'recents' | 'construire' | 'suivis'>('populaires');
+  // Filtres archétype / tag, dans l'URL pour partager « les decks Snake-Eye publics »
+  const archetype = searchParams.get('archetype') || '';
+  const tag = searchParams.get('tag') || '';
+  const listParam = (key: string) => (searchParams.get(key) || '').split(',').filter(Boolean);
+  const numberParam = (key: string) => (searchParams.get(key) ? Number(searchParams.get(key)) : null);
+  const deckSearch: DeckSearchValues = {
+    include: listParam('include'),
+    exclude: listParam('exclude'),
+    minOwned: numberParam('min_owned'),
+    maxMissing: numberParam('max_missing_eur'),
+  };
+  const hasDeckFilters =
+    !!archetype ||
+    !!tag ||
+    deckSearch.include.length > 0 ||
+    deckSearch.exclude.length > 0 ||
+    deckSearch.minOwned !== null ||
+    deckSearch.maxMissing !== null;
+  // Le budget se tape au clavier : on attend la fin de la saisie pour recharger
+  const deckQuery = useDebounce(
+    ['archetype', 'tag', 'include', 'exclude', 'min_owned', 'max_missing_eur']
+      .map((k) => `${k}=${searchParams.get(k) || ''}`)
+      .join('&'),
+    400
+  );
+  const [facets, setFacets] = useState<{ archetypes: DeckFacet[]; tags: DeckFacet[] }>({ archetypes: [], tags: [] });
 
   const [decks, setDecks] = useState<Deck[]>([]);
   const [decksLoading, setDecksLoading] = useState(false);
@@ -52,11 +79,15 @@ const Social = () => {
 
   useEffect(() => {
     fetchFollowing();
+    api
+      .get('/decks/archetypes')
+      .then((r) => setFacets(r.data))
+      .catch(() => {});
   }, []);
 
   useEffect(() => {
     if (tab === 'decks') fetchDecks(decksPage);
-  }, [decksPage, tab, sort]);
+  }, [decksPage, tab, sort, deckQuery]);
 
   useEffect(() => {
     if (tab === 'users') searchUsers();
@@ -75,18 +106,23 @@ const Social = () => {
   const fetchDecks = async (page: number) => {
     setDecksLoading(true);
     try {
-      const response = await api.get('/decks/public', { params: { page, limit: 12 } });
+      const response = await api.get('/decks/public', {
+        params: {
+          page,
+          limit: 12,
+          sort: sort === 'populaires' ? 'likes' : sort === 'construire' ? 'completion' : 'recent',
+          archetype: archetype || undefined,
+          tag: tag || undefined,
+          include: deckSearch.include.join(',') || undefined,
+          exclude: deckSearch.exclude.join(',') || undefined,
+          min_owned: deckSearch.minOwned ?? undefined,
+          max_missing_eur: deckSearch.maxMissing ?? undefined,
+        },
+      });
       const { data, total_pages } = response.data;
       let filtered = data.filter((d: Deck) => d.user_id !== user?.id);
-      // simple client-side sort
-      if (sort === 'populaires') {
-        filtered = [...filtered].sort((a: Deck, b: Deck) => (b.likes_count || 0) - (a.likes_count || 0));
-      } else if (sort === 'recents') {
-        filtered = [...filtered].sort(
-          (a: Deck, b: Deck) =>
-            new Date(b.created_at as any).getTime() - new Date(a.created_at as any).getTime()
-        );
-      } else if (sort === 'suivis') {
+      // Pas d'endpoint « suivis » : filtré ici, sur la page reçue
+      if (sort === 'suivis') {
         filtered = filtered.filter((d: Deck) => followingIds.has(d.user_id));
       }
       if (page === 1) setDecks(filtered);
@@ -156,6 +192,7 @@ const Social = () => {
   const sortTabs: Array<{ id: typeof sort; label: string }> = [
     { id: 'populaires', label: 'Populaires' },
     { id: 'recents', label: 'Récents' },
+    { id: 'construire', label: 'À construire' },
     { id: 'suivis', label: 'Suivis' },
   ];
 
@@ -168,6 +205,50 @@ const Social = () => {
     setSearchParams(params, { replace: true });
   };
 
+  const changeDeckSearch = (next: DeckSearchValues) => {
+    const params = new URLSearchParams(searchParams);
+    const set = (key: string, v: string | number | null) => {
+      if (v === null || v === '') params.delete(key);
+      else params.set(key, String(v));
+    };
+    set('include', next.include.join(','));
+    set('exclude', next.exclude.join(','));
+    set('min_owned', next.minOwned);
+    set('max_missing_eur', next.maxMissing);
+    setSearchParams(params, { replace: true });
+    setDecksPage(1);
+  };
+
+  // Un clic sur le filtre actif le retire.
+  const toggleFilter = (key: 'archetype' | 'tag', value: string) => {
+    const params = new URLSearchParams(searchParams);
+    if (params.get(key) === value) params.delete(key);
+    else params.set(key, value);
+    setSearchParams(params, { replace: true });
+    setDecksPage(1);
+  };
+
+  const filterChip = (key: 'archetype' | 'tag', f: DeckFacet) => {
+    const on = (key === 'archetype' ? archetype : tag) === f.name;
+    return (
+      <button
+        key={`${key}:${f.name}`}
+        onClick={() => toggleFilter(key, f.name)}
+        style={{
+          padding: '5px 11px',
+          border: `1px solid ${on ? (key === 'archetype' ? 'var(--gold)' : 'var(--violet)') : 'var(--border)'}`,
+          background: on ? (key === 'archetype' ? 'rgba(245,197,24,.14)' : 'rgba(168,85,247,.14)') : 'transparent',
+          color: on ? (key === 'archetype' ? 'var(--gold)' : 'var(--violet)') : 'var(--text-muted)',
+          fontSize: 12,
+          cursor: 'pointer',
+          clipPath: CUT_SM,
+        }}>
+        {key === 'tag' ? `#${f.name}` : f.name}
+        {f.count > 0 && <span style={{ marginLeft: 6, fontSize: 10, color: 'var(--text-dim)' }}>{f.count}</span>}
+      </button>
+    );
+  };
+
   return (
     <div style={{ minHeight: '100vh', position: 'relative', background: 'transparent' }}>
       <AppBackground />
@@ -294,6 +375,40 @@ const Social = () => {
 
         {tab === 'decks' && (
           <>
+            <div style={{ marginTop: 22 }}>
+              <DeckSearchFilters value={deckSearch} onChange={changeDeckSearch} />
+            </div>
+
+            {(facets.archetypes.length > 0 || facets.tags.length > 0 || archetype || tag) && (
+              <div style={{ marginTop: 22, display: 'flex', flexDirection: 'column', gap: 8 }}>
+                {[
+                  { key: 'archetype' as const, label: 'Archétypes', items: facets.archetypes, active: archetype },
+                  { key: 'tag' as const, label: 'Tags', items: facets.tags, active: tag },
+                ].map(
+                  (row) =>
+                    (row.items.length > 0 || row.active) && (
+                      <div key={row.key} style={{ display: 'flex', alignItems: 'center', gap: 6, flexWrap: 'wrap' }}>
+                        <span
+                          style={{
+                            width: 92,
+                            fontFamily: "'Orbitron', sans-serif",
+                            fontSize: 9,
+                            letterSpacing: '0.16em',
+                            textTransform: 'uppercase',
+                            color: 'var(--text-dim)',
+                          }}>
+                          {row.label}
+                        </span>
+                        {/* Filtre venu d'un lien, hors des plus fréquents : on l'affiche quand même */}
+                        {row.active && !row.items.some((f) => f.name === row.active) &&
+                          filterChip(row.key, { name: row.active, count: 0 })}
+                        {row.items.map((f) => filterChip(row.key, f))}
+                      </div>
+                    )
+                )}
+              </div>
+            )}
+
             <div
               style={{
                 marginTop: 30,
@@ -398,7 +513,7 @@ const Social = () => {
                           letterSpacing: '0.16em',
                           textTransform: 'uppercase',
                         }}>
-                        {(deck as any).archetype || 'Deck'}
+                        {deck.archetypes?.join(' · ') || 'Deck'}
                       </span>
                     </div>
 
@@ -416,6 +531,21 @@ const Social = () => {
                       <div style={{ marginTop: 6, fontSize: 14, color: 'var(--text-muted)' }}>
                         par <span style={{ color: 'var(--violet)' }}>@{deck.user?.username}</span>
                       </div>
+                      {!!deck.tags?.length && (
+                        <div style={{ marginTop: 8, display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+                          {deck.tags.map((t) => (
+                            <span
+                              key={t}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                toggleFilter('tag', t);
+                              }}
+                              style={{ fontSize: 12, color: 'var(--violet)', cursor: 'pointer' }}>
+                              #{t}
+                            </span>
+                          ))}
+                        </div>
+                      )}
                       <div style={{ marginTop: 14, display: 'flex', alignItems: 'center', gap: 18 }}>
                         <span
                           style={{
@@ -452,6 +582,29 @@ const Social = () => {
                           {c.main} · {c.extra} · {c.side}
                         </span>
                       </div>
+                      {deck.completion !== undefined && (
+                        <div style={{ marginTop: 12 }}>
+                          <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 12 }}>
+                            <span style={{ color: deck.completion === 100 ? 'var(--success)' : 'var(--text-muted)' }}>
+                              {deck.completion} % possédé
+                            </span>
+                            {!!deck.missing_value_eur && (
+                              <span style={{ color: 'var(--text-dim)' }}>
+                                {deck.missing_value_eur.toLocaleString('fr-FR', { style: 'currency', currency: 'EUR' })} manquants
+                              </span>
+                            )}
+                          </div>
+                          <div style={{ height: 3, background: 'var(--border)', marginTop: 4 }}>
+                            <div
+                              style={{
+                                width: `${deck.completion}%`,
+                                height: '100%',
+                                background: deck.completion === 100 ? 'var(--success)' : 'var(--gold)',
+                              }}
+                            />
+                          </div>
+                        </div>
+                      )}
                     </div>
                   </div>
                 );
@@ -476,7 +629,9 @@ const Social = () => {
 
             {!decksLoading && decks.length === 0 && (
               <div style={{ textAlign: 'center', padding: '60px 20px', color: 'var(--text-muted)', fontSize: 16 }}>
-                Aucun deck à découvrir pour le moment.
+                {hasDeckFilters
+                  ? 'Aucun deck public pour ces filtres.'
+                  : 'Aucun deck à découvrir pour le moment.'}
               </div>
             )}
           </>
@@ -0,0 +1,361 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { useAuth } from '../context/AuthContext';
+import AppNavbar from '../components/AppNavbar';
+import TradeComposerModal from '../components/TradeComposerModal';
+import MyBinderPanel from '../components/MyBinderPanel';
+import { tradeApi } from '../services/tradeApi';
+import { CONDITION_LABELS, EDITION_LABELS } from '../../../shared/collection';
+import type { Trade, TradeItem, TradeStatus } from '../../../shared/types';
+
+/**
+ * `/trades` — échanges de cartes avec les abonnés mutuels.
+ *
+ * Onglets : offres reçues en attente (accepter / refuser / contre-offre),
+ * offres envoyées en attente (annuler), historique et classeur d'échange
+ * (haves / wants et correspondances, `?tab=binder`). La liste suit les
+ * pushes `trade:updated` du serveur : pas de polling.
+ */
+
+type Tab = 'received' | 'sent' | 'history' | 'binder';
+
+const CUT_PANEL = 'polygon(0 0,calc(100% - 18px) 0,100% 18px,100% 100%,0 100%)';
+const CUT_SM = 'polygon(6px 0,100% 0,100% calc(100% - 6px),calc(100% - 6px) 100%,0 100%,0 6px)';
+
+const STATUS_META: Record<TradeStatus, { label: string; color: string }> = {
+  pending: { label: 'En attente', color: 'var(--gold)' },
+  accepted: { label: 'Conclu', color: 'var(--success)' },
+  declined: { label: 'Refusé', color: 'var(--danger)' },
+  cancelled: { label: 'Annulé', color: 'var(--text-dim)' },
+  countered: { label: 'Contre-offre', color: 'var(--violet)' },
+};
+
+const eur = (n: number) =>
+  n.toLocaleString('fr-FR', { style: 'currency', currency: 'EUR', maximumFractionDigits: 2 });
+
+const actionButton = (variant: 'gold' | 'ghost' | 'danger') => ({
+  height: 34,
+  padding: '0 14px',
+  background: variant === 'gold' ? 'var(--gold)' : 'var(--bg-elev)',
+  color: variant === 'gold' ? 'var(--bg)' : variant === 'danger' ? 'var(--danger)' : 'var(--text-muted)',
+  border: variant === 'gold' ? 0 : `1px solid ${variant === 'danger' ? 'var(--danger)' : 'var(--border)'}`,
+  fontFamily: "'Orbitron', sans-serif",
+  fontSize: 10,
+  fontWeight: 700,
+  letterSpacing: '0.12em',
+  textTransform: 'uppercase' as const,
+  cursor: 'pointer',
+  clipPath: CUT_SM,
+});
+
+function ItemList({ title, items }: { title: string; items: TradeItem[] }) {
+  return (
+    <div style={{ flex: 1, minWidth: 220 }}>
+      <div style={{ fontSize: 11, color: 'var(--text-dim)', textTransform: 'uppercase', letterSpacing: '0.12em', marginBottom: 6 }}>
+        {title}
+      </div>
+      {items.length === 0 ? (
+        <div style={{ fontSize: 13, color: 'var(--text-dim)' }}>Rien</div>
+      ) : (
+        items.map((i) => (
+          <div key={i.id} style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 13, marginBottom: 4 }}>
+            <span style={{ fontFamily: "'Orbitron', sans-serif", fontSize: 11, color: 'var(--gold)', minWidth: 22 }}>
+              {i.quantity}×
+            </span>
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <div style={{ color: 'var(--text)' }}>{i.name}</div>
+              <div style={{ fontSize: 11, color: 'var(--text-dim)' }}>
+                {i.set_code} · {i.rarity} · {CONDITION_LABELS[i.condition]} · {EDITION_LABELS[i.edition]}
+              </div>
+            </div>
+            <span style={{ fontSize: 12, color: 'var(--text-muted)', fontVariantNumeric: 'tabular-nums' }}>
+              {i.unit_price_eur ? eur(i.unit_price_eur * i.quantity) : '—'}
+            </span>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+const Trades = () => {
+  const { user } = useAuth();
+  const [searchParams] = useSearchParams();
+  const focusId = Number(searchParams.get('id')) || null;
+  const [trades, setTrades] = useState<Trade[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [tab, setTab] = useState<Tab>(searchParams.get('tab') === 'binder' ? 'binder' : 'received');
+  const [composerOpen, setComposerOpen] = useState(false);
+  const [counterOf, setCounterOf] = useState<Trade | null>(null);
+  const [partnerId, setPartnerId] = useState<number | null>(null);
+
+  const upsert = useCallback((trade: Trade) => {
+    setTrades((prev) => [trade, ...prev.filter((t) => t.id !== trade.id)]);
+  }, []);
+
+  useEffect(() => {
+    tradeApi
+      .list()
+      .then(setTrades)
+      .catch(() => setTrades([]))
+      .finally(() => setLoading(false));
+    return tradeApi.subscribe(({ trade }) => upsert(trade));
+  }, [upsert]);
+
+  // Arrivée depuis une notification : on ouvre l'onglet qui contient l'offre.
+  useEffect(() => {
+    const focused = trades.find((t) => t.id === focusId);
+    if (!focused || !user) return;
+    if (focused.status !== 'pending') setTab('history');
+    else setTab(focused.recipient_id === user.id ? 'received' : 'sent');
+  }, [focusId, trades.length]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const visible = useMemo(() => {
+    if (!user) return [];
+    return trades.filter((t) => {
+      if (tab === 'history') return t.status !== 'pending';
+      if (t.status !== 'pending') return false;
+      return tab === 'received' ? t.recipient_id === user.id : t.proposer_id === user.id;
+    });
+  }, [trades, tab, user]);
+
+  const pendingReceived = user
+    ? trades.filter((t) => t.status === 'pending' && t.recipient_id === user.id).length
+    : 0;
+
+  const respond = async (trade: Trade, action: 'accept' | 'decline' | 'cancel') => {
+    if (action === 'accept' && !window.confirm('Accepter ? Les cartes changent de collection immédiatement.')) return;
+    try {
+      upsert(await tradeApi.respond(trade.id, action));
+      if (action === 'accept') toast.success('Échange conclu — collection mise à jour');
+    } catch {
+      // toast déjà émis par l'intercepteur axios
+    }
+  };
+
+  if (!user) return null;
+
+  const renderTrade = (trade: Trade) => {
+    const iPropose = trade.proposer_id === user.id;
+    const other = iPropose ? trade.recipient : trade.proposer;
+    const gives = trade.items.filter((i) => i.from_user_id === user.id);
+    const receives = trade.items.filter((i) => i.from_user_id !== user.id);
+    // Balance vue depuis l'utilisateur courant : positif = il reçoit plus qu'il ne donne.
+    const diff = iPropose ? trade.balance.difference_eur : -trade.balance.difference_eur;
+    const meta = STATUS_META[trade.status];
+
+    return (
+      <div
+        key={trade.id}
+        style={{
+          background: 'var(--panel)',
+          border: `1px solid ${trade.id === focusId ? 'var(--gold)' : 'var(--border)'}`,
+          clipPath: CUT_PANEL,
+          padding: '18px 20px',
+        }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 10, marginBottom: 12, flexWrap: 'wrap' }}>
+          <span style={{ fontFamily: "'Orbitron', sans-serif", fontSize: 13, fontWeight: 700, color: 'var(--text)' }}>
+            {iPropose ? `Offre à @${other?.username}` : `Offre de @${other?.username}`}
+          </span>
+          {trade.parent_id && <span style={{ fontSize: 11, color: 'var(--violet)' }}>contre-offre</span>}
+          <span style={{ flex: 1 }} />
+          <span
+            style={{
+              fontFamily: "'Orbitron', sans-serif",
+              fontSize: 10,
+              letterSpacing: '0.12em',
+              textTransform: 'uppercase',
+              color: meta.color,
+            }}>
+            {meta.label}
+          </span>
+        </div>
+
+        {trade.message && (
+          <p style={{ margin: '0 0 12px', fontSize: 13, color: 'var(--text-muted)', fontStyle: 'italic' }}>
+            « {trade.message} »
+          </p>
+        )}
+
+        <div style={{ display: 'flex', gap: 20, flexWrap: 'wrap' }}>
+          <ItemList title="Je donne" items={gives} />
+          <ItemList title="Je reçois" items={receives} />
+        </div>
+
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 10,
+            marginTop: 14,
+            paddingTop: 12,
+            borderTop: '1px solid var(--border)',
+            flexWrap: 'wrap',
+          }}>
+          <span style={{ fontSize: 12, color: 'var(--text-muted)' }}>
+            Équilibre{' '}
+            <strong
+              style={{
+                color: Math.abs(diff) < 0.01 ? 'var(--text)' : diff > 0 ? 'var(--success)' : 'var(--danger)',
+              }}>
+              {diff > 0 ? '+' : ''}
+              {eur(diff)}
+            </strong>
+            {trade.balance.unpriced_cards > 0 && ` · ${trade.balance.unpriced_cards} sans cote`}
+          </span>
+          <span style={{ flex: 1 }} />
+          {trade.status === 'pending' && !iPropose && (
+            <>
+              <button onClick={() => respond(trade, 'accept')} style={actionButton('gold')}>
+                Accepter
+              </button>
+              <button
+                onClick={() => {
+                  setCounterOf(trade);
+                  setComposerOpen(true);
+                }}
+                style={actionButton('ghost')}>
+                Contre-offre
+              </button>
+              <button onClick={() => respond(trade, 'decline')} style={actionButton('danger')}>
+                Refuser
+              </button>
+            </>
+          )}
+          {trade.status === 'pending' && iPropose && (
+            <button onClick={() => respond(trade, 'cancel')} style={actionButton('danger')}>
+              Annuler
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div style={{ minHeight: '100vh', background: 'var(--bg)' }}>
+      <AppNavbar />
+
+      <div style={{ maxWidth: 900, margin: '0 auto', padding: '30px 20px 60px' }}>
+        <div style={{ display: 'flex', alignItems: 'flex-end', gap: 16, marginBottom: 20, flexWrap: 'wrap' }}>
+          <div style={{ flex: 1 }}>
+            <div
+              style={{
+                fontFamily: "'Cormorant Garamond', serif",
+                fontStyle: 'italic',
+                fontSize: 12,
+                letterSpacing: '0.32em',
+                color: 'var(--gold)',
+                textTransform: 'uppercase',
+              }}>
+              — Comptoir des duellistes —
+            </div>
+            <h1
+              style={{
+                margin: '10px 0 6px',
+                fontFamily: "'Orbitron', sans-serif",
+                fontSize: 'clamp(28px, 4vw, 42px)',
+                fontWeight: 900,
+                letterSpacing: '0.02em',
+                textTransform: 'uppercase',
+                color: 'var(--text)',
+              }}>
+              Échanges
+            </h1>
+            <p style={{ margin: 0, color: 'var(--text-muted)', fontSize: 14 }}>
+              Échange des cartes avec tes abonnés mutuels. Les collections sont mises à jour à l'acceptation.
+            </p>
+          </div>
+          <button
+            onClick={() => {
+              setCounterOf(null);
+              setPartnerId(null);
+              setComposerOpen(true);
+            }}
+            style={{ ...actionButton('gold'), height: 42, padding: '0 20px', fontSize: 11 }}>
+            Nouvel échange
+          </button>
+        </div>
+
+        <div style={{ display: 'flex', gap: 6, borderBottom: '1px solid var(--border)', marginBottom: 20 }}>
+          {(['received', 'sent', 'history', 'binder'] as const).map((t) => {
+            const on = tab === t;
+            const label =
+              t === 'received'
+                ? `Reçues (${pendingReceived})`
+                : t === 'sent'
+                  ? 'Envoyées'
+                  : t === 'history'
+                    ? 'Historique'
+                    : 'Classeur';
+            return (
+              <button
+                key={t}
+                onClick={() => setTab(t)}
+                style={{
+                  padding: '10px 18px',
+                  background: 'transparent',
+                  border: 0,
+                  borderBottom: `2px solid ${on ? 'var(--gold)' : 'transparent'}`,
+                  color: on ? 'var(--gold)' : 'var(--text-muted)',
+                  fontFamily: "'Orbitron', sans-serif",
+                  fontSize: 12,
+                  letterSpacing: '0.14em',
+                  textTransform: 'uppercase',
+                  fontWeight: on ? 700 : 500,
+                  cursor: 'pointer',
+                }}>
+                {label}
+              </button>
+            );
+          })}
+        </div>
+
+        {tab === 'binder' ? (
+          <MyBinderPanel
+            onPropose={(id) => {
+              setCounterOf(null);
+              setPartnerId(id);
+              setComposerOpen(true);
+            }}
+          />
+        ) : loading ? (
+          <p style={{ textAlign: 'center', color: 'var(--text-muted)' }}>Chargement…</p>
+        ) : visible.length === 0 ? (
+          <div
+            style={{
+              padding: '50px 20px',
+              textAlign: 'center',
+              border: '1px dashed var(--border)',
+              color: 'var(--text-muted)',
+            }}>
+            <p style={{ margin: 0, fontSize: 15 }}>
+              {tab === 'received'
+                ? 'Aucune offre en attente.'
+                : tab === 'sent'
+                  ? "Tu n'as envoyé aucune offre en attente."
+                  : 'Aucun échange terminé pour le moment.'}
+            </p>
+          </div>
+        ) : (
+          <div style={{ display: 'grid', gap: 12 }}>{visible.map(renderTrade)}</div>
+        )}
+      </div>
+
+      <TradeComposerModal
+        open={composerOpen}
+        onClose={() => setComposerOpen(false)}
+        onSent={(trade) => {
+          upsert(trade);
+          setTab('sent');
+        }}
+        currentUserId={user.id}
+        counterOf={counterOf}
+        initialPartnerId={partnerId}
+      />
+    </div>
+  );
+};
+
+export default Trades;
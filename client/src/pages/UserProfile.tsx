@@ -1,7 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
-import { User, Deck } from '../../../shared/types';
+import { User, Deck, TradeBinder } from '../../../shared/types';
 import api, { getImageUrl } from '../services/api';
 import toast from 'react-hot-toast';
 import AppNavbar from '../components/AppNavbar';
@@ -10,6 +10,8 @@ import CornerOrnaments from '../components/decor/CornerOrnaments';
 import { GlyphEye } from '../components/decor/Glyphs';
 import { CardIcon } from '../components/decor/Icons';
 import ChallengeModal from '../components/ChallengeModal';
+import TradeBinderPanel from '../components/TradeBinderPanel';
+import binderApi from '../services/binderApi';
 
 const CUT_BTN = 'polygon(0 0,100% 0,100% 100%,95% 100%,95% 90%,85% 90%,85% 100%,8% 100%,0 70%)';
 const CUT_SM = 'polygon(6px 0,100% 0,100% calc(100% - 6px),calc(100% - 6px) 100%,0 100%,0 6px)';
@@ -32,6 +34,8 @@ const UserProfile = () => {
   const [followLoading, setFollowLoading] = useState(false);
   const [stats, setStats] = useState({ followersCount: 0, followingCount: 0 });
   const [challengeOpen, setChallengeOpen] = useState(false);
+  const [binder, setBinder] = useState<TradeBinder | null>(null);
+  const [myBinder, setMyBinder] = useState<TradeBinder | null>(null);
 
   const isOwn = currentUser && parseInt(userId || '0') === currentUser.id;
 
@@ -39,6 +43,7 @@ const UserProfile = () => {
     if (userId) {
       fetchProfile();
       fetchDecks();
+      fetchBinders();
       if (!isOwn) checkFollowing();
     }
   }, [userId, currentUser]);
@@ -70,6 +75,20 @@ const UserProfile = () => {
     }
   };
 
+  /** Son classeur, et le mien pour surligner ce qui nous intéresse mutuellement. */
+  const fetchBinders = async () => {
+    try {
+      const [theirs, mine] = await Promise.all([
+        binderApi.getForUser(parseInt(userId!)),
+        isOwn ? Promise.resolve(null) : binderApi.getMine(),
+      ]);
+      setBinder(theirs);
+      setMyBinder(mine);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
   const checkFollowing = async () => {
     try {
       const response = await api.get('/social/following');
@@ -497,6 +516,42 @@ const UserProfile = () => {
               })}
             </div>
           )}
+
+          {binder && (binder.haves.length > 0 || binder.wants.length > 0) && (
+            <>
+              <div style={{ marginTop: 34, marginBottom: 18, display: 'flex', alignItems: 'center', gap: 10 }}>
+                <span
+                  style={{
+                    fontFamily: "'Orbitron', sans-serif",
+                    fontSize: 12,
+                    letterSpacing: '0.18em',
+                    textTransform: 'uppercase',
+                    color: 'var(--gold)',
+                  }}>
+                  Classeur d'échange
+                </span>
+                <span style={{ flex: 1, height: 1, background: 'linear-gradient(90deg,var(--border),transparent)' }} />
+                {!isOwn && (
+                  <Link
+                    to="/trades?tab=binder"
+                    style={{
+                      fontFamily: "'Orbitron', sans-serif",
+                      fontSize: 10,
+                      letterSpacing: '0.14em',
+                      textTransform: 'uppercase',
+                      color: 'var(--text-muted)',
+                    }}>
+                    Mes correspondances →
+                  </Link>
+                )}
+              </div>
+              <TradeBinderPanel
+                binder={binder}
+                myWants={myBinder ? new Set(myBinder.wants.map((w) => w.card_id)) : undefined}
+                myHaves={myBinder ? new Set(myBinder.haves.map((h) => h.card_id)) : undefined}
+              />
+            </>
+          )}
         </div>
       </div>
 
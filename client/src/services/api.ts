@@ -2,6 +2,7 @@ import axios, { AxiosInstance, AxiosError, InternalAxiosRequestConfig } from 'ax
 import toast from 'react-hot-toast';
 import { reportClientError } from './crashReporter';
 import { pushDebugError } from '../utils/debugBus';
+import type { DuelPuzzle } from '../../../shared/duelView';
 
 const API_URL = import.meta.env.VITE_API_URL || '';
 
@@ -185,6 +186,14 @@ export interface AdminLog {
   created_at: string;
 }
 
+export interface AdminPuzzleInput {
+  title: string;
+  description: string;
+  difficulty: number;
+  /** Validé côté serveur : structure, bornes et passcodes connus. */
+  setup: unknown;
+}
+
 export const adminApi = {
   stats: () => api.get<AdminStats>('/admin/stats').then((r) => r.data),
 
@@ -213,6 +222,16 @@ export const adminApi = {
 
   deleteComment: (id: number) => api.delete(`/admin/comments/${id}`).then((r) => r.data),
 
+  listPuzzles: () => api.get<{ puzzles: DuelPuzzle[] }>('/admin/puzzles').then((r) => r.data.puzzles),
+
+  createPuzzle: (payload: AdminPuzzleInput) =>
+    api.post<{ puzzle: DuelPuzzle }>('/admin/puzzles', payload).then((r) => r.data.puzzle),
+
+  updatePuzzle: (id: number, payload: AdminPuzzleInput) =>
+    api.put<{ puzzle: DuelPuzzle }>(`/admin/puzzles/${id}`, payload).then((r) => r.data.puzzle),
+
+  deletePuzzle: (id: number) => api.delete(`/admin/puzzles/${id}`).then((r) => r.data),
+
   listLogs: (params: {
     level?: AdminLogLevel;
     source?: AdminLogSource;
@@ -0,0 +1,50 @@
+/**
+ * Banlists — wrapper axios sur `/api/banlists`.
+ *
+ * Miroir de `server/src/routes/banlistRoutes.ts` :
+ *   GET    /api/banlists             → toutes les listes
+ *   GET    /api/banlists/:id         → une liste et ses limites
+ *   GET    /api/banlists/:id/impact  → changements et mes decks rendus illégaux
+ *   POST   /api/banlists/import      → import d'un `lflist.conf`
+ *   DELETE /api/banlists/:id
+ */
+
+import api from './api';
+import type { Banlist, BanlistEntry, BanlistFormat, BanlistImpact } from '../../../shared/types';
+
+export const banlistApi = {
+  list: async (): Promise<Banlist[]> => {
+    const r = await api.get<{ banlists: Banlist[] }>('/banlists');
+    return r.data.banlists;
+  },
+
+  get: async (id: number): Promise<{ banlist: Banlist; entries: BanlistEntry[] }> => {
+    const r = await api.get<{ banlist: Banlist; entries: BanlistEntry[] }>(`/banlists/${id}`);
+    return r.data;
+  },
+
+  impact: async (id: number): Promise<BanlistImpact> => {
+    const r = await api.get<BanlistImpact>(`/banlists/${id}/impact`);
+    return r.data;
+  },
+
+  /**
+   * `content` : texte d'un `lflist.conf`. `format`, `name` et `effective_date`
+   * (AAAA-MM-JJ) remplacent ceux déduits du nom, pour un fichier d'une seule liste.
+   */
+  importLflist: async (payload: {
+    content: string;
+    format?: BanlistFormat;
+    name?: string;
+    effective_date?: string;
+  }): Promise<Banlist[]> => {
+    const r = await api.post<{ banlists: Banlist[] }>('/banlists/import', payload);
+    return r.data.banlists;
+  },
+
+  remove: async (id: number): Promise<void> => {
+    await api.delete(`/banlists/${id}`);
+  },
+};
+
+export default banlistApi;
@@ -0,0 +1,65 @@
+/**
+ * Classeur d'échange — wrapper axios sur `/api/binder`.
+ *
+ * Miroir de `server/src/routes/binderRoutes.ts` :
+ *   GET    /api/binder/me                   → mon classeur
+ *   GET    /api/binder/matches              → abonnements dont le classeur croise le mien
+ *   GET    /api/binder/:userId              → classeur public d'un joueur
+ *   PUT    /api/binder/haves/:userCardId    → exemplaires à l'échange d'une ligne
+ *   PUT    /api/binder/wants                → ajoute / remplace une recherche
+ *   POST   /api/binder/wants/bulk           → ajout groupé (liste de courses)
+ *   DELETE /api/binder/wants/:cardId
+ */
+
+import api from './api';
+import type { BinderMatch, TradeBinder } from '../../../shared/types';
+
+export const binderApi = {
+  getMine: async (): Promise<TradeBinder> => {
+    const r = await api.get<{ binder: TradeBinder }>('/binder/me');
+    return r.data.binder;
+  },
+
+  getForUser: async (userId: number): Promise<TradeBinder> => {
+    const r = await api.get<{ binder: TradeBinder }>(`/binder/${userId}`);
+    return r.data.binder;
+  },
+
+  getMatches: async (): Promise<BinderMatch[]> => {
+    const r = await api.get<{ matches: BinderMatch[] }>('/binder/matches');
+    return r.data.matches;
+  },
+
+  setForTrade: async (userCardId: number, forTrade: number): Promise<number> => {
+    const r = await api.put<{ for_trade: number }>(`/binder/haves/${userCardId}`, { for_trade: forTrade });
+    return r.data.for_trade;
+  },
+
+  /**
+   * `card` : cards.id d'une carte connue, ou code (passcode / code set).
+   * `targetPriceEur` : alerte `price_alert` à ce prix ou en dessous ; null = aucune.
+   */
+  setWant: async (
+    card: { card_id: number } | { code: string },
+    quantity: number,
+    targetPriceEur: number | null = null
+  ): Promise<TradeBinder> => {
+    const r = await api.put<{ binder: TradeBinder }>('/binder/wants', {
+      ...card,
+      quantity,
+      target_price_eur: targetPriceEur,
+    });
+    return r.data.binder;
+  },
+
+  addWants: async (entries: Array<{ card_id: number; quantity: number }>): Promise<number> => {
+    const r = await api.post<{ added: number }>('/binder/wants/bulk', { entries });
+    return r.data.added;
+  },
+
+  removeWant: async (cardId: number): Promise<void> => {
+    await api.delete(`/binder/wants/${cardId}`);
+  },
+};
+
+export default binderApi;
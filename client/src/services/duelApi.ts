@@ -5,6 +5,7 @@ import type {
   DuelAction,
   DuelStatus,
 } from '../../../shared/types';
+import type { DuelBotPolicyId, DuelBotPolicyInfo, DuelPuzzle } from '../../../shared/duelView';
 
 /**
  * Wrappers HTTP pour /api/duels + helpers WebSocket (subscribe / join / leave).
@@ -17,8 +18,45 @@ export const duelApi = {
     challenger_deck_id?: number;
     /** 'standard' (defaut, banlist appliquee) ou 'free' (aucune restriction). */
     rules_mode?: 'standard' | 'free';
+    /** Banlist du mode 'standard' : id de liste ou clé de format (dernière TCG par défaut). */
+    format?: number | 'tcg' | 'ocg' | 'goat';
   }) => api.post<{ duel: Duel }>('/duels', payload).then((r) => r.data),
 
+  // ── Duel contre le bot (migration 033) ─────────────────────────────────
+  challengeBot: (payload: {
+    deck_id: number;
+    /** L'un de mes decks ou un deck public. */
+    bot_deck_id: number;
+    policy?: DuelBotPolicyId;
+    /** Absent : premier joueur tiré au sort. */
+    go_first?: boolean;
+    rules_mode?: 'standard' | 'free';
+    format?: number | 'tcg' | 'ocg' | 'goat';
+  }) => api.post<{ duel: Duel }>('/duels/bot', payload).then((r) => r.data.duel),
+
+  // ── Labo de combos (migration 034) ───────────────────────────────────
+  startGoldfish: (payload: {
+    /** L'un de mes decks ou un deck public. */
+    deck_id: number;
+    go_first?: boolean;
+    /** Passcodes à piocher en premier, dans l'ordre. */
+    opening_hand?: number[];
+    /** Fixe le mélange du reste du deck : même graine, même tirage. */
+    seed?: number;
+  }) => api.post<{ duel: Duel }>('/duels/goldfish', payload).then((r) => r.data.duel),
+
+  // ── Puzzles (migration 035) ──────────────────────────────────────────
+  listPuzzles: () =>
+    api.get<{ puzzles: DuelPuzzle[] }>('/duels/puzzles').then((r) => r.data.puzzles),
+
+  startPuzzle: (puzzleId: number) =>
+    api.post<{ duel: Duel }>(`/duels/puzzles/${puzzleId}/start`).then((r) => r.data.duel),
+
+  botPolicies: () =>
+    api
+      .get<{ policies: DuelBotPolicyInfo[] }>('/duels/bot/policies')
+      .then((r) => r.data.policies),
+
   listMine: (status?: DuelStatus) =>
     api
       .get<{ duels: Duel[] }>('/duels', { params: status ? { status } : {} })
@@ -1,9 +1,12 @@
 import api from './api';
 import socketService from './socket';
+import type { DeckComboLine } from '../../../shared/types';
 import type {
   DuelAnnounceSearchResult,
   DuelChoice,
+  DuelLabHistory,
   DuelPreGameState,
+  DuelReplay,
   DuelStateResponse,
 } from '../../../shared/duelView';
 
@@ -99,6 +102,39 @@ export const duelEngineApi = {
       .get<{ state: DuelStateResponse; spectator: true }>(`/duels/${duelId}/engine/spectate`)
       .then((r) => r.data.state),
 
+  /**
+   * Partie finie rejouée par le moteur, une image par décision. Les deux
+   * mains y figurent : c'est au front de ne les montrer qu'à la demande.
+   */
+  replay: (duelId: number) => api.get<DuelReplay>(`/duels/${duelId}/replay`).then((r) => r.data),
+
+  /** La même partie en fichier de rejeu EDOPro (`.yrpX`), à télécharger. */
+  exportYrpx: (duelId: number) =>
+    api.get<Blob>(`/duels/${duelId}/replay/yrpx`, { responseType: 'blob' }).then((r) => r.data),
+
+  /** Labo de combos : mes décisions, chacune avec son rang pour y revenir. */
+  labHistory: (duelId: number) =>
+    api.get<DuelLabHistory>(`/duels/${duelId}/engine/lab`).then((r) => r.data),
+
+  /**
+   * Labo de combos : revient avant la décision `seq` (par défaut la dernière).
+   * Le serveur reconstruit la partie ; on reçoit l'état d'arrivée.
+   */
+  labUndo: (duelId: number, seq?: number) =>
+    api.post<DuelStateResponse>(`/duels/${duelId}/engine/lab/undo`, { seq }).then((r) => r.data),
+
+  /** Labo de combos : enregistre la partie comme ligne du deck. */
+  saveLabLine: (duelId: number, name: string) =>
+    api
+      .post<{ line: DeckComboLine }>(`/duels/${duelId}/engine/lab/lines`, { name })
+      .then((r) => r.data.line),
+
+  /** Une ligne de combo d'un deck, rejouée image par image. */
+  comboLineReplay: (deckId: number, lineId: number) =>
+    api
+      .get<DuelReplay & { line: DeckComboLine }>(`/decks/${deckId}/combo-lines/${lineId}/replay`)
+      .then((r) => r.data),
+
   /**
    * Recherche de cartes déclarables pour l'invite ANNOUNCE_CARD.
    *
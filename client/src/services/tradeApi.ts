@@ -0,0 +1,69 @@
+/**
+ * Échanges — wrapper axios sur `/api/trades` + abonnement WebSocket.
+ *
+ * Miroir de `server/src/routes/tradeRoutes.ts` :
+ *   GET  /api/trades                         → offres envoyées et reçues
+ *   GET  /api/trades/partners                → abonnés mutuels
+ *   GET  /api/trades/partners/:userId/cards  → collection proposable
+ *   POST /api/trades                         → nouvelle offre
+ *   POST /api/trades/:id/counter|accept|decline|cancel
+ *
+ * Le serveur pousse `trade:updated` aux deux participants à chaque changement.
+ */
+
+import api from './api';
+import socketService from './socket';
+import type {
+  CreateTradeRequest,
+  Trade,
+  TradeOfferLine,
+  TradeStatus,
+  TradeableCard,
+  User,
+} from '../../../shared/types';
+
+export const tradeApi = {
+  list: async (status?: TradeStatus): Promise<Trade[]> => {
+    const r = await api.get<{ trades: Trade[] }>('/trades', { params: status ? { status } : undefined });
+    return r.data.trades;
+  },
+
+  getPartners: async (): Promise<User[]> => {
+    const r = await api.get<{ partners: User[] }>('/trades/partners');
+    return r.data.partners;
+  },
+
+  getCards: async (userId: number): Promise<TradeableCard[]> => {
+    const r = await api.get<{ cards: TradeableCard[] }>(`/trades/partners/${userId}/cards`);
+    return r.data.cards;
+  },
+
+  create: async (body: CreateTradeRequest): Promise<Trade> => {
+    const r = await api.post<{ trade: Trade }>('/trades', body);
+    return r.data.trade;
+  },
+
+  counter: async (
+    tradeId: number,
+    body: { offered: TradeOfferLine[]; requested: TradeOfferLine[]; message?: string }
+  ): Promise<Trade> => {
+    const r = await api.post<{ trade: Trade }>(`/trades/${tradeId}/counter`, body);
+    return r.data.trade;
+  },
+
+  respond: async (tradeId: number, action: 'accept' | 'decline' | 'cancel'): Promise<Trade> => {
+    const r = await api.post<{ trade: Trade }>(`/trades/${tradeId}/${action}`);
+    return r.data.trade;
+  },
+
+  subscribe: (onUpdated: (data: { trade: Trade }) => void): (() => void) => {
+    const socket = socketService.getSocket();
+    if (!socket) return () => {};
+    socket.on('trade:updated', onUpdated);
+    return () => {
+      socket.off('trade:updated', onUpdated);
+    };
+  },
+};
+
+export default tradeApi;
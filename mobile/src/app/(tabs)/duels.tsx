@@ -8,6 +8,7 @@ import {
   ActivityIndicator,
   Alert,
   RefreshControl,
+  TextInput,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useFocusEffect, useRouter } from 'expo-router';
@@ -19,11 +20,18 @@ import { AppHeader } from '@/components/decor/AppHeader';
 import CyberButton from '@/components/CyberButton';
 import { duelApi } from '@/services/duelApi';
 import { deckApi } from '@/services/deckApi';
-import type { Duel, DuelStatus, Deck } from '@/types';
+import type { Duel, DuelStatus, Deck, DuelBotPolicyId, DuelBotPolicyInfo, DuelPuzzle } from '@/types';
 
 type ChipStatus = DuelStatus;
 
 const STATUS_ORDER: ChipStatus[] = ['pending', 'active', 'finished'];
+
+type BotFirst = 'random' | 'me' | 'bot';
+const BOT_FIRST_LABEL: Record<BotFirst, string> = {
+  random: 'Au hasard',
+  me: 'Moi',
+  bot: 'Le bot',
+};
 const STATUS_LABEL: Record<ChipStatus, string> = {
   pending: 'En attente',
   pre_game: 'Pile ou face',
@@ -55,6 +63,42 @@ export default function DuelsScreen() {
     { open: false, decks: [], loading: false }
   );
 
+  // Duel contre le bot : decks (les miens + publics) et politiques chargés à
+  // l'ouverture du panneau, puis un seul POST qui crée le duel prêt à jouer.
+  const [botSetup, setBotSetup] = useState<{
+    open: boolean;
+    loading: boolean;
+    decks: Deck[];
+    publicDecks: Deck[];
+    policies: DuelBotPolicyInfo[];
+  }>({ open: false, loading: false, decks: [], publicDecks: [], policies: [] });
+  const [botChoice, setBotChoice] = useState<{
+    deckId: number | null;
+    botDeckId: number | null;
+    policy: DuelBotPolicyId;
+    first: BotFirst;
+  }>({ deckId: null, botDeckId: null, policy: 'rules', first: 'random' });
+  const [botSubmitting, setBotSubmitting] = useState(false);
+
+  // Labo de combos : le même deck des deux côtés, face au goldfish qui ne
+  // joue rien. Graine facultative pour retrouver un tirage.
+  const [labSetup, setLabSetup] = useState<{
+    open: boolean;
+    loading: boolean;
+    decks: Deck[];
+    publicDecks: Deck[];
+  }>({ open: false, loading: false, decks: [], publicDecks: [] });
+  const [labChoice, setLabChoice] = useState<{ deckId: number | null; meFirst: boolean; seed: string }>(
+    { deckId: null, meFirst: true, seed: '' }
+  );
+  const [labSubmitting, setLabSubmitting] = useState(false);
+
+  // Puzzles : la bibliothèque, avec mes essais ; « Jouer » ouvre le duel.
+  const [puzzles, setPuzzles] = useState<{ open: boolean; loading: boolean; list: DuelPuzzle[] }>(
+    { open: false, loading: false, list: [] }
+  );
+  const [puzzleStarting, setPuzzleStarting] = useState<number | null>(null);
+
   const fetchAll = useCallback(async () => {
     try {
       const list = await duelApi.listMine();
@@ -107,6 +151,111 @@ export default function DuelsScreen() {
     }
   };
 
+  const openBotSetup = async () => {
+    setBotSetup({ open: true, loading: true, decks: [], publicDecks: [], policies: [] });
+    try {
+      const [decks, shared, policies] = await Promise.all([
+        deckApi.listMine(),
+        deckApi.listPublic({ limit: 30 }).then((r) => r.data).catch(() => [] as Deck[]),
+        duelApi.botPolicies(),
+      ]);
+      const mine = new Set(decks.map((d) => d.id));
+      setBotSetup({
+        open: true,
+        loading: false,
+        decks,
+        publicDecks: shared.filter((d) => !mine.has(d.id)),
+        policies,
+      });
+      setBotChoice((c) => ({ ...c, deckId: decks[0]?.id ?? null, botDeckId: decks[0]?.id ?? shared[0]?.id ?? null }));
+    } catch (err: any) {
+      setBotSetup({ open: false, loading: false, decks: [], publicDecks: [], policies: [] });
+      Alert.alert('Erreur', err?.response?.data?.error || 'Impossible de charger tes decks');
+    }
+  };
+
+  const doDuelBot = async () => {
+    if (!botChoice.deckId || !botChoice.botDeckId) return;
+    setBotSubmitting(true);
+    try {
+      const duel = await duelApi.challengeBot({
+        deck_id: botChoice.deckId,
+        bot_deck_id: botChoice.botDeckId,
+        policy: botChoice.policy,
+        go_first: botChoice.first === 'random' ? undefined : botChoice.first === 'me',
+      });
+      setBotSetup({ open: false, loading: false, decks: [], publicDecks: [], policies: [] });
+      router.push(`/duel/engine/${duel.id}` as any);
+    } catch (err: any) {
+      Alert.alert('Erreur', err?.response?.data?.error || 'Impossible de lancer le duel');
+    } finally {
+      setBotSubmitting(false);
+    }
+  };
+
+  const openLabSetup = async () => {
+    setLabSetup({ open: true, loading: true, decks: [], publicDecks: [] });
+    try {
+      const [decks, shared] = await Promise.all([
+        deckApi.listMine(),
+        deckApi.listPublic({ limit: 30 }).then((r) => r.data).catch(() => [] as Deck[]),
+      ]);
+      const mine = new Set(decks.map((d) => d.id));
+      setLabSetup({ open: true, loading: false, decks, publicDecks: shared.filter((d) => !mine.has(d.id)) });
+      setLabChoice((c) => ({ ...c, deckId: decks[0]?.id ?? shared[0]?.id ?? null }));
+    } catch (err: any) {
+      setLabSetup({ open: false, loading: false, decks: [], publicDecks: [] });
+      Alert.alert('Erreur', err?.response?.data?.error || 'Impossible de charger tes decks');
+    }
+  };
+
+  const doLab = async () => {
+    if (!labChoice.deckId) return;
+    const seed = labChoice.seed.trim();
+    if (seed && !/^\d+$/.test(seed)) {
+      Alert.alert('Graine invalide', 'La graine est un nombre entier positif.');
+      return;
+    }
+    setLabSubmitting(true);
+    try {
+      const duel = await duelApi.startGoldfish({
+        deck_id: labChoice.deckId,
+        go_first: labChoice.meFirst,
+        seed: seed ? Number(seed) : undefined,
+      });
+      setLabSetup({ open: false, loading: false, decks: [], publicDecks: [] });
+      router.push(`/duel/engine/${duel.id}` as any);
+    } catch (err: any) {
+      Alert.alert('Erreur', err?.response?.data?.error || 'Impossible d\'ouvrir le labo');
+    } finally {
+      setLabSubmitting(false);
+    }
+  };
+
+  const openPuzzles = async () => {
+    setPuzzles({ open: true, loading: true, list: [] });
+    try {
+      const list = await duelApi.listPuzzles();
+      setPuzzles({ open: true, loading: false, list });
+    } catch (err: any) {
+      setPuzzles({ open: false, loading: false, list: [] });
+      Alert.alert('Erreur', err?.response?.data?.error || 'Impossible de charger les puzzles');
+    }
+  };
+
+  const doPuzzle = async (puzzle: DuelPuzzle) => {
+    setPuzzleStarting(puzzle.id);
+    try {
+      const duel = await duelApi.startPuzzle(puzzle.id);
+      setPuzzles({ open: false, loading: false, list: [] });
+      router.push(`/duel/engine/${duel.id}` as any);
+    } catch (err: any) {
+      Alert.alert('Erreur', err?.response?.data?.error || 'Impossible d\'ouvrir le puzzle');
+    } finally {
+      setPuzzleStarting(null);
+    }
+  };
+
   const doReject = (duel: Duel) => {
     Alert.alert(
       'Refuser le defi ?',
@@ -188,6 +337,27 @@ export default function DuelsScreen() {
           <Text style={styles.subtitle}>
             Retrouve tes defis, accepte, refuse ou reprends une partie en cours.
           </Text>
+          <CyberButton
+            label="Affronter le bot"
+            variant="secondary"
+            size="sm"
+            onPress={openBotSetup}
+            style={{ marginTop: 14, alignSelf: 'flex-start' }}
+          />
+          <CyberButton
+            label="Labo de combos"
+            variant="secondary"
+            size="sm"
+            onPress={openLabSetup}
+            style={{ marginTop: 8, alignSelf: 'flex-start' }}
+          />
+          <CyberButton
+            label="Puzzles"
+            variant="secondary"
+            size="sm"
+            onPress={openPuzzles}
+            style={{ marginTop: 8, alignSelf: 'flex-start' }}
+          />
 
           {/* Chips filtre */}
           <ScrollView
@@ -259,10 +429,13 @@ export default function DuelsScreen() {
                   meId={user?.id ?? -1}
                   onOpen={() => {
                     // Si le duel est active mais pas encore en pile ou face,
-                    // on repasse par la salle d'attente.
+                    // on repasse par la salle d'attente. Un duel moteur fini
+                    // s'ouvre sur son rejeu.
                     const target =
                       d.status === 'active' && !d.phase_pre_game && !d.first_player_id
                         ? `/duel/lobby/${d.id}`
+                        : d.status === 'finished' && d.engine_mode
+                        ? `/duel/replay/${d.id}`
                         : `/duel/${d.id}`;
                     router.push(target as any);
                   }}
@@ -323,10 +496,274 @@ export default function DuelsScreen() {
           </View>
         </View>
       )}
+
+      {/* Panneau « Affronter le bot » — même overlay que le picker de deck. */}
+      {botSetup.open && (
+        <View style={styles.overlay} pointerEvents="box-none">
+          <View style={styles.pickerPanel}>
+            <View style={styles.pickerHeader}>
+              <Text style={styles.pickerTitle}>Affronter le bot</Text>
+              <TouchableOpacity
+                onPress={() =>
+                  setBotSetup({ open: false, loading: false, decks: [], publicDecks: [], policies: [] })
+                }
+              >
+                <Text style={styles.pickerClose}>✕</Text>
+              </TouchableOpacity>
+            </View>
+            {botSetup.loading ? (
+              <View style={{ padding: 24, alignItems: 'center' }}>
+                <ActivityIndicator color={colors.gold} />
+              </View>
+            ) : botSetup.decks.length === 0 ? (
+              <Text style={[styles.emptyText, { padding: 14 }]}>
+                Aucun deck disponible. Cree-en un pour affronter le bot.
+              </Text>
+            ) : (
+              <ScrollView style={{ maxHeight: 460 }} contentContainerStyle={{ padding: 12, gap: 8 }}>
+                <Text style={styles.botLabel}>Ton deck</Text>
+                <View style={styles.botChips}>
+                  {botSetup.decks.map((d) => (
+                    <BotChip
+                      key={d.id}
+                      label={d.name}
+                      active={botChoice.deckId === d.id}
+                      onPress={() => setBotChoice((c) => ({ ...c, deckId: d.id }))}
+                      styles={styles}
+                      colors={colors}
+                    />
+                  ))}
+                </View>
+
+                <Text style={styles.botLabel}>Deck du bot</Text>
+                <View style={styles.botChips}>
+                  {[...botSetup.decks, ...botSetup.publicDecks].map((d) => (
+                    <BotChip
+                      key={d.id}
+                      label={d.user?.username && d.user_id !== user?.id ? `${d.name} · @${d.user.username}` : d.name}
+                      active={botChoice.botDeckId === d.id}
+                      onPress={() => setBotChoice((c) => ({ ...c, botDeckId: d.id }))}
+                      styles={styles}
+                      colors={colors}
+                    />
+                  ))}
+                </View>
+
+                <Text style={styles.botLabel}>Style de jeu</Text>
+                <View style={styles.botChips}>
+                  {botSetup.policies.map((p) => (
+                    <BotChip
+                      key={p.id}
+                      label={p.label}
+                      active={botChoice.policy === p.id}
+                      onPress={() => setBotChoice((c) => ({ ...c, policy: p.id }))}
+                      styles={styles}
+                      colors={colors}
+                    />
+                  ))}
+                </View>
+                <Text style={styles.pickerRowMeta}>
+                  {botSetup.policies.find((p) => p.id === botChoice.policy)?.description}
+                </Text>
+
+                <Text style={styles.botLabel}>Qui commence</Text>
+                <View style={styles.botChips}>
+                  {(Object.keys(BOT_FIRST_LABEL) as BotFirst[]).map((f) => (
+                    <BotChip
+                      key={f}
+                      label={BOT_FIRST_LABEL[f]}
+                      active={botChoice.first === f}
+                      onPress={() => setBotChoice((c) => ({ ...c, first: f }))}
+                      styles={styles}
+                      colors={colors}
+                    />
+                  ))}
+                </View>
+
+                <CyberButton
+                  label="Entrer dans l'arene"
+                  onPress={doDuelBot}
+                  loading={botSubmitting}
+                  disabled={!botChoice.deckId || !botChoice.botDeckId}
+                  cutColor={colors.panel}
+                  block
+                  style={{ marginTop: 10 }}
+                />
+              </ScrollView>
+            )}
+          </View>
+        </View>
+      )}
+
+      {/* Panneau « Labo de combos » — même overlay, sans choix de politique. */}
+      {labSetup.open && (
+        <View style={styles.overlay} pointerEvents="box-none">
+          <View style={styles.pickerPanel}>
+            <View style={styles.pickerHeader}>
+              <Text style={styles.pickerTitle}>Labo de combos</Text>
+              <TouchableOpacity
+                onPress={() => setLabSetup({ open: false, loading: false, decks: [], publicDecks: [] })}
+              >
+                <Text style={styles.pickerClose}>✕</Text>
+              </TouchableOpacity>
+            </View>
+            {labSetup.loading ? (
+              <View style={{ padding: 24, alignItems: 'center' }}>
+                <ActivityIndicator color={colors.gold} />
+              </View>
+            ) : labSetup.decks.length + labSetup.publicDecks.length === 0 ? (
+              <Text style={[styles.emptyText, { padding: 14 }]}>
+                Aucun deck disponible. Cree-en un pour ouvrir le labo.
+              </Text>
+            ) : (
+              <ScrollView style={{ maxHeight: 460 }} contentContainerStyle={{ padding: 12, gap: 8 }}>
+                <Text style={styles.pickerRowMeta}>
+                  Le goldfish joue le même deck et ne fait rien : annule tes décisions a volonte et
+                  enregistre les lignes qui marchent.
+                </Text>
+
+                <Text style={styles.botLabel}>Deck</Text>
+                <View style={styles.botChips}>
+                  {[...labSetup.decks, ...labSetup.publicDecks].map((d) => (
+                    <BotChip
+                      key={d.id}
+                      label={d.user?.username && d.user_id !== user?.id ? `${d.name} · @${d.user.username}` : d.name}
+                      active={labChoice.deckId === d.id}
+                      onPress={() => setLabChoice((c) => ({ ...c, deckId: d.id }))}
+                      styles={styles}
+                      colors={colors}
+                    />
+                  ))}
+                </View>
+
+                <Text style={styles.botLabel}>Qui commence</Text>
+                <View style={styles.botChips}>
+                  {[true, false].map((meFirst) => (
+                    <BotChip
+                      key={String(meFirst)}
+                      label={meFirst ? 'Moi' : 'Le goldfish'}
+                      active={labChoice.meFirst === meFirst}
+                      onPress={() => setLabChoice((c) => ({ ...c, meFirst }))}
+                      styles={styles}
+                      colors={colors}
+                    />
+                  ))}
+                </View>
+
+                <Text style={styles.botLabel}>Graine (facultative)</Text>
+                <TextInput
+                  value={labChoice.seed}
+                  onChangeText={(seed) => setLabChoice((c) => ({ ...c, seed }))}
+                  placeholder="Au hasard"
+                  placeholderTextColor={colors.textDim}
+                  keyboardType="number-pad"
+                  maxLength={15}
+                  style={styles.seedInput}
+                />
+
+                <CyberButton
+                  label="Ouvrir le labo"
+                  onPress={doLab}
+                  loading={labSubmitting}
+                  disabled={!labChoice.deckId}
+                  cutColor={colors.panel}
+                  block
+                  style={{ marginTop: 10 }}
+                />
+              </ScrollView>
+            )}
+          </View>
+        </View>
+      )}
+
+      {/* Panneau « Puzzles » — même overlay, une ligne par puzzle. */}
+      {puzzles.open && (
+        <View style={styles.overlay} pointerEvents="box-none">
+          <View style={styles.pickerPanel}>
+            <View style={styles.pickerHeader}>
+              <Text style={styles.pickerTitle}>Puzzles</Text>
+              <TouchableOpacity onPress={() => setPuzzles({ open: false, loading: false, list: [] })}>
+                <Text style={styles.pickerClose}>✕</Text>
+              </TouchableOpacity>
+            </View>
+            {puzzles.loading ? (
+              <View style={{ padding: 24, alignItems: 'center' }}>
+                <ActivityIndicator color={colors.gold} />
+              </View>
+            ) : puzzles.list.length === 0 ? (
+              <Text style={[styles.emptyText, { padding: 14 }]}>Aucun puzzle pour l'instant.</Text>
+            ) : (
+              <ScrollView style={{ maxHeight: 460 }} contentContainerStyle={{ padding: 10, gap: 8 }}>
+                <Text style={styles.pickerRowMeta}>
+                  Un plateau posé, un seul tour pour gagner. L'adversaire ne fait rien.
+                </Text>
+                {puzzles.list.map((p) => {
+                  const solved = !!p.progress?.solvedAt;
+                  const attempts = p.progress?.attempts ?? 0;
+                  return (
+                    <TouchableOpacity
+                      key={p.id}
+                      onPress={() => doPuzzle(p)}
+                      disabled={puzzleStarting !== null}
+                      activeOpacity={0.85}
+                      style={[styles.pickerRow, solved && { borderColor: colors.success }]}
+                    >
+                      <Text style={styles.pickerRowName} numberOfLines={1}>
+                        {p.title}
+                        {solved ? '  ✓' : ''}
+                      </Text>
+                      {!!p.description && <Text style={styles.pickerRowMeta}>{p.description}</Text>}
+                      <Text style={styles.pickerRowMeta}>
+                        {'★'.repeat(p.difficulty)} ·{' '}
+                        {puzzleStarting === p.id
+                          ? 'Ouverture…'
+                          : attempts === 0
+                            ? 'Jamais tenté'
+                            : `${attempts} essai${attempts > 1 ? 's' : ''}`}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+            )}
+          </View>
+        </View>
+      )}
     </View>
   );
 }
 
+// ─── BotChip sub-component ──────────────────────────────────────────────────
+
+function BotChip({
+  label,
+  active,
+  onPress,
+  styles,
+  colors,
+}: {
+  label: string;
+  active: boolean;
+  onPress: () => void;
+  styles: ReturnType<typeof makeStyles>;
+  colors: ReturnType<typeof useAppTheme>['colors'];
+}) {
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      activeOpacity={0.85}
+      style={[
+        styles.chip,
+        active && { borderColor: colors.gold, backgroundColor: 'rgba(245,197,24,0.10)' },
+      ]}
+    >
+      <Text style={[styles.chipText, active && { color: colors.gold }]} numberOfLines={1}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
 // ─── DuelCard sub-component ─────────────────────────────────────────────────
 
 interface DuelCardProps {
@@ -707,4 +1144,28 @@ const makeStyles = (t: Theme) =>
       fontSize: 11,
       color: t.colors.textMuted,
     },
+
+    // ─── Panneau « Affronter le bot » ─────────────────
+    botLabel: {
+      fontFamily: 'sans-serif',
+      fontSize: 10,
+      fontWeight: '700',
+      letterSpacing: 1.4,
+      textTransform: 'uppercase',
+      color: t.colors.textMuted,
+      marginTop: 6,
+    },
+    botChips: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 6,
+    },
+    seedInput: {
+      backgroundColor: t.colors.bgElev,
+      color: t.colors.text,
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      padding: 8,
+      borderRadius: 4,
+    },
   });
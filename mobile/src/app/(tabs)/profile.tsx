@@ -205,6 +205,12 @@ export default function ProfileScreen() {
                 activeOpacity={0.8}>
                 <Text style={styles.accountBtnAltText}>🔍  Rechercher un duelliste</Text>
               </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.accountBtnAlt}
+                onPress={() => router.push('/trades' as any)}
+                activeOpacity={0.8}>
+                <Text style={styles.accountBtnAltText}>⇄  Échanges de cartes</Text>
+              </TouchableOpacity>
               {/* Bascule de thème : la refonte v2 avait fait disparaître le seul
                   point d'entrée, qui vivait dans l'ancien en-tête de collection. */}
               <TouchableOpacity
@@ -10,11 +10,12 @@ import {
   RefreshControl,
   TextInput,
   Image,
+  ScrollView,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter, useFocusEffect } from 'expo-router';
 import { socialApi, type UserSearchResult, type FollowUser } from '@/services/socialApi';
-import type { Deck } from '@/types';
+import type { Deck, DeckFacet } from '@/types';
 import { useDebounce } from '@/hooks/useDebounce';
 import { useThemedStyles } from '@/theme/useThemedStyles';
 import { useAppTheme, type Theme } from '@/theme/ThemeContext';
@@ -24,12 +25,13 @@ import { ScanFAB } from '@/components/decor/ScanFAB';
 import { spacing } from '@/theme/palette';
 
 /** Modes de tri du feed — miroir des chips PhoneFrame l.386-390. */
-type SortMode = 'popular' | 'recent' | 'following';
+type SortMode = 'popular' | 'recent' | 'buildable' | 'following';
 type FeedTab = 'decks' | 'users';
 
 const SORT_OPTIONS: Array<{ key: SortMode; label: string }> = [
   { key: 'popular', label: 'Populaires' },
   { key: 'recent', label: 'Récents' },
+  { key: 'buildable', label: 'À monter' },
   { key: 'following', label: 'Suivis' },
 ];
 
@@ -47,12 +49,10 @@ const WASH_TINTS = [
   'rgba(255,46,136,0.12)', // rose
 ];
 
-/** Tags de section stylisés en top-right des cards — placeholder tant qu'on n'a
- *  pas de tags backend (thèmes, archétypes). */
-const TAG_POOL = ['Contrôle', 'Aggro', 'Combo', 'Mid-range', 'Stall', 'Burn'];
-
 const pickWash = (id: number) => WASH_TINTS[id % WASH_TINTS.length];
-const pickTag = (id: number) => TAG_POOL[id % TAG_POOL.length];
+
+/** Filtre archétype / tag du feed, fait côté back (GET /decks/public). */
+type FeedFilter = { kind: 'archetype' | 'tag'; name: string } | null;
 
 export default function SocialScreen() {
   const styles = useThemedStyles(makeStyles);
@@ -70,24 +70,43 @@ export default function SocialScreen() {
   const [search, setSearch] = useState('');
   const debouncedSearch = useDebounce(search, 400);
 
+  const [filter, setFilter] = useState<FeedFilter>(null);
+  const [facets, setFacets] = useState<{ archetypes: DeckFacet[]; tags: DeckFacet[] }>({
+    archetypes: [],
+    tags: [],
+  });
+
   // ── Fetch decks feed + set des IDs suivis (utile en mode « Suivis » côté
   //    client, faute d'endpoint /decks/feed dédié).
   const fetchDecksFeed = useCallback(async () => {
     setLoading(true);
     try {
-      const [feed, followList] = await Promise.all([
-        socialApi.feed({ page: 1, limit: 40, search: debouncedSearch || undefined }),
+      const [feed, followList, facetList] = await Promise.all([
+        socialApi.feed({
+          page: 1,
+          limit: 40,
+          search: debouncedSearch || undefined,
+          sort: sort === 'popular' ? 'likes' : sort === 'buildable' ? 'completion' : 'recent',
+          archetype: filter?.kind === 'archetype' ? filter.name : undefined,
+          tag: filter?.kind === 'tag' ? filter.name : undefined,
+        }),
         socialApi.getFollowing().catch(() => [] as FollowUser[]),
+        socialApi.facets().catch(() => null),
       ]);
       setDecks(feed.data);
       setFollowing(new Set(followList.map((f) => f.id)));
+      if (facetList) setFacets(facetList);
     } catch (err: any) {
       Alert.alert('Erreur', err?.response?.data?.error || 'Feed indisponible');
     } finally {
       setLoading(false);
       setRefreshing(false);
     }
-  }, [debouncedSearch]);
+  }, [debouncedSearch, filter, sort]);
+
+  const isFilter = (kind: 'archetype' | 'tag', name: string) => filter?.kind === kind && filter.name === name;
+  const toggleFilter = (kind: 'archetype' | 'tag', name: string) =>
+    setFilter(isFilter(kind, name) ? null : { kind, name });
 
   const fetchUsers = useCallback(async () => {
     setLoading(true);
@@ -113,18 +132,11 @@ export default function SocialScreen() {
     }, [tab, fetchDecksFeed, fetchUsers])
   );
 
-  const sortedDecks = useMemo(() => {
-    const arr = [...decks];
-    if (sort === 'popular') {
-      arr.sort((a, b) => (b.likes_count ?? 0) - (a.likes_count ?? 0));
-    } else if (sort === 'recent') {
-      arr.sort((a, b) => (b.created_at || '').localeCompare(a.created_at || ''));
-    } else {
-      // 'following' — on ne garde que les decks des users suivis
-      return arr.filter((d) => (d.user_id ? following.has(d.user_id) : false));
-    }
-    return arr;
-  }, [decks, sort, following]);
+  // Déjà trié par le back ; 'following' — on ne garde que les decks des users suivis
+  const sortedDecks = useMemo(
+    () => (sort === 'following' ? decks.filter((d) => (d.user_id ? following.has(d.user_id) : false)) : decks),
+    [decks, sort, following]
+  );
 
   const handleFollowToggle = async (u: UserSearchResult) => {
     const wasFollowing = following.has(u.id);
@@ -150,6 +162,15 @@ export default function SocialScreen() {
     }
   };
 
+  const renderFilterChip = (key: string, label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      onPress={onPress}
+      style={[styles.filterChip, active && { borderColor: colors.violet, backgroundColor: 'rgba(168,85,247,0.14)' }]}>
+      <Text style={[styles.filterChipLabel, active && { color: colors.violet }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
   // ─── Header + tabs
   const listHeader = (
     <View style={styles.contentPadding}>
@@ -207,6 +228,29 @@ export default function SocialScreen() {
         </View>
       )}
 
+      {/* Filtres archétype / tag — un second appui retire le filtre */}
+      {tab === 'decks' && (facets.archetypes.length > 0 || facets.tags.length > 0 || filter) && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.filterRow}>
+          {/* Filtre hors des plus fréquents : affiché quand même pour pouvoir le retirer */}
+          {filter &&
+            !(filter.kind === 'archetype' ? facets.archetypes : facets.tags).some((f) => f.name === filter.name) &&
+            renderFilterChip('active', filter.kind === 'tag' ? `#${filter.name}` : filter.name, true, () =>
+              setFilter(null)
+            )}
+          {facets.archetypes.map((f) =>
+            renderFilterChip(`a:${f.name}`, f.name, isFilter('archetype', f.name), () =>
+              toggleFilter('archetype', f.name)
+            )
+          )}
+          {facets.tags.map((f) =>
+            renderFilterChip(`t:${f.name}`, `#${f.name}`, isFilter('tag', f.name), () => toggleFilter('tag', f.name))
+          )}
+        </ScrollView>
+      )}
+
       {/* Recherche */}
       <View style={styles.searchWrap}>
         <Image
@@ -238,7 +282,7 @@ export default function SocialScreen() {
     const totalReactions = likes + (item.dislikes_count ?? 0);
     const ratio = totalReactions > 0 ? `${Math.round((likes / totalReactions) * 100)}%` : '—';
     const wash = pickWash(item.id);
-    const tag = pickTag(item.id);
+    const tag = item.archetypes?.join(' · ') || 'Deck';
 
     return (
       <TouchableOpacity
@@ -267,6 +311,17 @@ export default function SocialScreen() {
             par <Text style={{ color: colors.violet }}>@{authorName}</Text>
             {item.updated_at ? ' · maj récente' : ''}
           </Text>
+          {!!item.tags?.length && (
+            <Text style={styles.feedTags} numberOfLines={1}>
+              {item.tags.map((t) => `#${t}`).join('  ')}
+            </Text>
+          )}
+          {item.completion !== undefined && (
+            <Text style={[styles.feedTags, { color: item.completion === 100 ? colors.success : colors.textMuted }]}>
+              {item.completion} % possédé
+              {item.missing_value_eur ? ` · ${item.missing_value_eur.toFixed(2).replace('.', ',')} € manquants` : ''}
+            </Text>
+          )}
           <View style={styles.feedMetaRow}>
             <Text style={styles.feedLikes}>♥ {likes}</Text>
             <Text style={styles.feedComments}>◦ {comments}</Text>
@@ -322,7 +377,9 @@ export default function SocialScreen() {
   const emptyLabel = tab === 'decks'
     ? (sort === 'following'
         ? 'Suis quelques duellistes pour voir leurs decks apparaître ici.'
-        : 'Aucun deck public trouvé.')
+        : filter
+          ? 'Aucun deck public pour ce filtre.'
+          : 'Aucun deck public trouvé.')
     : 'Aucun duelliste trouvé.';
 
   return (
@@ -479,6 +536,24 @@ const makeStyles = (t: Theme) =>
       textTransform: 'uppercase',
     },
 
+    // ─── Filtres archétype / tag ────────────────────
+    filterRow: {
+      marginTop: 10,
+      gap: 6,
+    },
+    filterChip: {
+      paddingHorizontal: 10,
+      paddingVertical: 6,
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      backgroundColor: t.colors.panel,
+    },
+    filterChipLabel: {
+      fontFamily: 'sans-serif',
+      fontSize: 11,
+      color: t.colors.textMuted,
+    },
+
     // ─── Search ─────────────────────────────────────
     searchWrap: {
       marginTop: 12,
@@ -570,6 +645,11 @@ const makeStyles = (t: Theme) =>
       fontSize: 12,
       color: t.colors.textMuted,
     },
+    feedTags: {
+      marginTop: 4,
+      fontSize: 12,
+      color: t.colors.violet,
+    },
     feedMetaRow: {
       marginTop: 10,
       flexDirection: 'row',
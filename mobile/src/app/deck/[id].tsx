@@ -20,7 +20,6 @@ import { useAuth } from '@/context/AuthContext';
 import { deckApi } from '@/services/deckApi';
 import { socialApi } from '@/services/socialApi';
 import type { Deck, DeckCard, DeckComment, DeckStats } from '@/types';
-import { API_URL } from '@/config';
 import { useThemedStyles } from '@/theme/useThemedStyles';
 import { useAppTheme, type Theme } from '@/theme/ThemeContext';
 import CyberButton from '@/components/CyberButton';
@@ -29,6 +28,7 @@ import { CornerOrnaments } from '@/components/decor/CornerOrnaments';
 import { spacing } from '@/theme/palette';
 import PlaytestArena from '@/components/arena/PlaytestArena';
 import DrawOddsPanel from '@/components/arena/DrawOddsPanel';
+import ConsistencyPanel from '@/components/ConsistencyPanel';
 import { usePlaytest, type Playtest } from '@/components/arena/usePlaytest';
 import type { ZoneKey } from '@/components/arena/ZoneSheet';
 
@@ -141,10 +141,10 @@ export default function DeckViewScreen() {
       let token = deck.share_token;
       if (!token) {
         const res = await deckApi.generateShare(deckId);
-        token = res.shareToken;
+        token = res.share_token;
         await fetchAll();
       }
-      const url = `${API_URL}/deck/share/${token}`;
+      const url = deckApi.sharePreviewUrl(token);
       await Share.share({ message: `Regarde mon deck "${deck.name}" : ${url}`, url });
     } catch (err: any) {
       Alert.alert('Erreur', err?.response?.data?.error || 'Partage échoué');
@@ -465,6 +465,9 @@ export default function DeckViewScreen() {
               handCards={playtest.handCards}
               active={playtest.active}
             />
+
+            {/* ═══ CONSISTANCE ═══ mains de départ selon les rôles des cartes */}
+            <ConsistencyPanel deckId={deck.id} version={deck.updated_at} />
           </ScrollView>
         </KeyboardAvoidingView>
       </SafeAreaView>
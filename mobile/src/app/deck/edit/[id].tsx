@@ -15,10 +15,10 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
 import { deckApi } from '@/services/deckApi';
 import { collectionApi } from '@/services/collectionApi';
-import type { Deck, DeckCard, UserCard } from '@/types';
-import { API_URL } from '@/config';
+import type { Deck, DeckCard, DeckLegalityViolation, UserCard } from '@/types';
 import AddCardsFromCollectionModal from '@/components/AddCardsFromCollectionModal';
 import AIBuilderModal from '@/components/AIBuilderModal';
+import ImportDeckListModal from '@/components/ImportDeckListModal';
 import { useThemedStyles } from '@/theme/useThemedStyles';
 import { useAppTheme, type Theme } from '@/theme/ThemeContext';
 import { AppBackground } from '@/components/decor/AppBackground';
@@ -47,7 +47,9 @@ export default function DeckEditorScreen() {
   const [poolLoading, setPoolLoading] = useState(false);
   const [pickerOpen, setPickerOpen] = useState<'main' | 'extra' | null>(null);
   const [aiOpen, setAiOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
   const [errors, setErrors] = useState<string[]>([]);
+  const [violations, setViolations] = useState<DeckLegalityViolation[]>([]);
 
   const refresh = useCallback(async () => {
     try {
@@ -77,6 +79,7 @@ export default function DeckEditorScreen() {
     try {
       const v = await deckApi.validate(deckId);
       setErrors(v.errors || []);
+      setViolations(v.violations || []);
     } catch {
       /* silencieux */
     }
@@ -86,7 +89,8 @@ export default function DeckEditorScreen() {
     useCallback(() => {
       refresh();
       loadPool();
-    }, [refresh, loadPool])
+      validate();
+    }, [refresh, loadPool, validate])
   );
 
   const addFromPool = async (uc: UserCard) => {
@@ -134,16 +138,26 @@ export default function DeckEditorScreen() {
       let token = deck.share_token;
       if (!token) {
         const res = await deckApi.generateShare(deckId);
-        token = res.shareToken;
+        token = res.share_token;
         await refresh();
       }
-      const url = `${API_URL}/deck/share/${token}`;
+      const url = deckApi.sharePreviewUrl(token);
       await Share.share({ message: `Regarde mon deck "${deck.name}" : ${url}`, url });
     } catch (err: any) {
       Alert.alert('Erreur', err?.response?.data?.error || 'Partage échoué');
     }
   };
 
+  const handleExport = async () => {
+    if (!deck) return;
+    try {
+      const { url } = await deckApi.exportList(deckId);
+      await Share.share({ message: url });
+    } catch (err: any) {
+      Alert.alert('Erreur', err?.response?.data?.error || 'Export échoué');
+    }
+  };
+
   const handleDelete = () => {
     Alert.alert('Supprimer le deck ?', 'Action irréversible.', [
       { text: 'Annuler', style: 'cancel' },
@@ -170,6 +184,10 @@ export default function DeckEditorScreen() {
     () => deck?.extra_deck?.reduce((s, c) => s + c.quantity, 0) || 0,
     [deck]
   );
+  const sideCount = useMemo(
+    () => deck?.side_deck?.reduce((s, c) => s + c.quantity, 0) || 0,
+    [deck]
+  );
 
   if (loading || !deck) {
     return (
@@ -190,6 +208,15 @@ export default function DeckEditorScreen() {
   const totalSlots = 24;
   while (slots.length < totalSlots) slots.push(null);
 
+  // Slot hors règles : Extra rangée dans le Main, ou exemplaires en trop
+  // (comptés par nom côté serveur, artworks alternatifs compris).
+  const isFlagged = (dc: DeckCard) =>
+    violations.some((v) =>
+      v.rule === 'section'
+        ? v.section === 'main' && v.card_code === dc.card?.card_id
+        : v.card_name === dc.card?.name
+    );
+
   return (
     <View style={styles.root}>
       <AppBackground />
@@ -244,7 +271,7 @@ export default function DeckEditorScreen() {
                 },
               ]}>
               <Text style={[styles.counterLabel, { color: colors.cyan }]}>Side</Text>
-              <Text style={[styles.counterVal, { color: colors.cyan }]}>— À venir</Text>
+              <Text style={[styles.counterVal, { color: colors.cyan }]}>{sideCount}/15</Text>
             </View>
           </View>
         </View>
@@ -269,7 +296,8 @@ export default function DeckEditorScreen() {
                   dc
                     ? {
                         backgroundColor: colors.panel2,
-                        borderColor: 'rgba(245,197,24,0.4)',
+                        borderColor: isFlagged(dc) ? colors.danger : 'rgba(245,197,24,0.4)',
+                        borderWidth: isFlagged(dc) ? 2 : 1,
                       }
                     : styles.slotEmpty,
                 ]}>
@@ -382,6 +410,16 @@ export default function DeckEditorScreen() {
               <Text style={styles.pickBtnText}>Partager</Text>
             </TouchableOpacity>
           </View>
+          <View style={styles.pickBtnRow}>
+            <TouchableOpacity
+              onPress={() => setImportOpen(true)}
+              style={[styles.pickBtn, { borderColor: colors.cyan }]}>
+              <Text style={[styles.pickBtnText, { color: colors.cyan }]}>Importer</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleExport} style={styles.pickBtn}>
+              <Text style={styles.pickBtnText}>ydke://</Text>
+            </TouchableOpacity>
+          </View>
 
           <TouchableOpacity onPress={handleDelete} style={styles.deleteBtn}>
             <Text style={styles.deleteText}>Sceller au néant</Text>
@@ -397,6 +435,18 @@ export default function DeckEditorScreen() {
           />
         )}
 
+        {importOpen && (
+          <ImportDeckListModal
+            visible={importOpen}
+            deckId={deckId}
+            onClose={() => setImportOpen(false)}
+            onImported={() => {
+              refresh();
+              validate();
+            }}
+          />
+        )}
+
         {aiOpen && (
           <AIBuilderModal
             visible={aiOpen}
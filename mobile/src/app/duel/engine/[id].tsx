@@ -28,6 +28,7 @@ import type {
   DuelChoice,
   DuelClocks,
   DuelCombatLogEntry,
+  DuelLabDecision,
   DuelLogEntry,
   DuelPreGameState,
   DuelPrompt,
@@ -137,6 +138,9 @@ export default function EngineDuelScreen() {
   const [retryToast, setRetryToast] = useState<string | null>(null);
   const lastRetryShownAt = useRef<number | null>(null);
 
+  /** Labo de combos (duel goldfish) : historique + enregistrement de ligne. */
+  const [labOpen, setLabOpen] = useState(false);
+
   // ── Chargement initial : d'abord `start` (résout pré-game ou lance moteur).
   const start = useCallback(async () => {
     if (!Number.isFinite(duelId)) return;
@@ -235,7 +239,14 @@ export default function EngineDuelScreen() {
       },
       onPreGame: (p) => setPreGame(p),
       onFinished: ({ reason }) => {
-        const label = reason === 'surrender' ? 'Abandon' : reason === 'timeout' ? 'Temps écoulé' : 'Fin de partie';
+        const label =
+          reason === 'surrender'
+            ? 'Abandon'
+            : reason === 'timeout'
+              ? 'Temps écoulé'
+              : reason === 'puzzle_failed'
+                ? 'Puzzle raté — le tour est passé'
+                : 'Fin de partie';
         Alert.alert('Partie terminée', label);
         void refresh();
       },
@@ -297,6 +308,27 @@ export default function EngineDuelScreen() {
     [duelId, refresh]
   );
 
+  // ── Labo de combos : retour avant une décision (la dernière par défaut).
+  const undo = useCallback(
+    async (seq?: number) => {
+      if (busyRef.current) return;
+      busyRef.current = true;
+      setBusy(true);
+      setCardMenu(null);
+      setEndTurnConfirm(null);
+      try {
+        setState(await duelEngineApi.labUndo(duelId, seq));
+        setLabOpen(false);
+      } catch (err: any) {
+        Alert.alert('Erreur', err?.response?.data?.error?.message ?? 'Impossible d\'annuler');
+      } finally {
+        busyRef.current = false;
+        setBusy(false);
+      }
+    },
+    [duelId]
+  );
+
   // ── Abandon (F2).
   const surrender = useCallback(() => {
     Alert.alert(
@@ -418,9 +450,20 @@ export default function EngineDuelScreen() {
           <Text style={styles.subtitle}>
             {myTurn ? 'À toi de jouer' : "À l'adversaire"}
             {board.chainLength > 0 ? ` · chaîne ${board.chainLength}` : ''}
+            {duel?.puzzle_id ? ' · puzzle : gagne ce tour' : ''}
           </Text>
         </View>
-        {clocks && <ClockPill clocks={clocks} seat={board.seat} styles={styles} />}
+        {clocks && !duel?.goldfish && !duel?.puzzle_id && <ClockPill clocks={clocks} seat={board.seat} styles={styles} />}
+        {duel?.goldfish && status !== 'ended' && (
+          <>
+            <TouchableOpacity style={styles.ghostBtn} onPress={() => void undo()} disabled={busy}>
+              <Text style={styles.ghostTxt}>↶ Annuler</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.ghostBtn, { marginLeft: 6 }]} onPress={() => setLabOpen(true)}>
+              <Text style={styles.ghostTxt}>Labo</Text>
+            </TouchableOpacity>
+          </>
+        )}
         <TouchableOpacity style={styles.dangerBtn} onPress={surrender}>
           <Text style={styles.dangerTxt}>Abandonner</Text>
         </TouchableOpacity>
@@ -549,6 +592,21 @@ export default function EngineDuelScreen() {
               {winner !== null && winner !== undefined && winner === board.seat ? 'Victoire' : 'Défaite'}
             </Text>
             {winReason && <Text style={styles.dim}>{winReason}</Text>}
+            {/* Match Bo3 : sideboard (plans de side) avant la manche suivante */}
+            {duel?.match_id ? (
+              <TouchableOpacity
+                style={styles.btn}
+                onPress={() => router.replace(`/duel/match/${duel.match_id}` as any)}
+              >
+                <Text style={styles.btnTxt}>Suite du match</Text>
+              </TouchableOpacity>
+            ) : null}
+            <TouchableOpacity
+              style={styles.btn}
+              onPress={() => router.replace(`/duel/replay/${duelId}` as any)}
+            >
+              <Text style={styles.btnTxt}>Revoir la partie</Text>
+            </TouchableOpacity>
             <TouchableOpacity style={styles.btn} onPress={() => router.back()}>
               <Text style={styles.btnTxt}>Retour</Text>
             </TouchableOpacity>
@@ -713,6 +771,17 @@ export default function EngineDuelScreen() {
         />
       )}
 
+      {labOpen && (
+        <LabModal
+          duelId={duelId}
+          busy={busy}
+          onUndo={(seq) => void undo(seq)}
+          onClose={() => setLabOpen(false)}
+          styles={styles}
+          colors={colors}
+        />
+      )}
+
       {/* SELECT_COUNTER modal */}
       {prompt?.kind === 'select_counter' && prompt.counter && (
         <CounterModal
@@ -1639,6 +1708,91 @@ function ConfirmEndTurnModal({
   );
 }
 
+// ─── LabModal (labo de combos) ───────────────────────────────────────────────
+
+function LabModal({
+  duelId,
+  busy,
+  onUndo,
+  onClose,
+  styles,
+  colors,
+}: {
+  duelId: number;
+  busy: boolean;
+  onUndo: (seq: number) => void;
+  onClose: () => void;
+  styles: ReturnType<typeof makeStyles>;
+  colors: Theme['colors'];
+}) {
+  const [decisions, setDecisions] = useState<DuelLabDecision[] | null>(null);
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    duelEngineApi
+      .labHistory(duelId)
+      .then((h) => setDecisions(h.decisions))
+      .catch(() => setDecisions([]));
+  }, [duelId]);
+
+  const save = async () => {
+    if (!name.trim()) return;
+    setSaving(true);
+    try {
+      const line = await duelEngineApi.saveLabLine(duelId, name.trim());
+      Alert.alert('Ligne enregistrée', `« ${line.name} » est visible sur la page du deck.`);
+      setName('');
+    } catch (err: any) {
+      Alert.alert('Erreur', err?.response?.data?.error?.message ?? 'Enregistrement impossible');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableOpacity style={styles.modalOverlay} onPress={onClose} activeOpacity={1}>
+        <View style={[styles.modalContent, { minWidth: 320 }]} onStartShouldSetResponder={() => true}>
+          <Text style={[styles.modalTitle, { color: colors.gold }]}>Labo de combos</Text>
+          <Text style={styles.dim}>Reviens avant n'importe laquelle de tes décisions.</Text>
+          <ScrollView style={{ maxHeight: 220, marginTop: 8 }}>
+            {decisions === null && <Text style={styles.dim}>Chargement…</Text>}
+            {decisions?.length === 0 && <Text style={styles.dim}>Aucune décision pour l'instant.</Text>}
+            {decisions?.map((d) => (
+              <View key={d.seq} style={[styles.actionRow, { justifyContent: 'space-between' }]}>
+                <Text style={[styles.actionTxt, { flex: 1 }]} numberOfLines={2}>
+                  <Text style={styles.dim}>T{d.turn} · </Text>
+                  {d.choice.join(', ') || d.prompt}
+                </Text>
+                <TouchableOpacity style={styles.ghostBtn} onPress={() => onUndo(d.seq)} disabled={busy}>
+                  <Text style={styles.ghostTxt}>Revenir ici</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </ScrollView>
+          <TextInput
+            value={name}
+            onChangeText={setName}
+            placeholder="Nom de la ligne…"
+            placeholderTextColor={colors.textDim}
+            maxLength={60}
+            style={styles.textInput}
+          />
+          <View style={{ flexDirection: 'row', gap: 8, marginTop: 8 }}>
+            <TouchableOpacity style={styles.btn} onPress={save} disabled={saving || !name.trim()}>
+              <Text style={styles.btnTxt}>{saving ? 'Enregistrement…' : 'Enregistrer la ligne'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.ghostBtn} onPress={onClose}>
+              <Text style={styles.ghostTxt}>Fermer</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
 // ─── CounterModal (SELECT_COUNTER) ───────────────────────────────────────────
 
 function CounterModal({
@@ -0,0 +1,429 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useAuth } from '@/context/AuthContext';
+import { useAppTheme, type Theme } from '@/theme/ThemeContext';
+import { useThemedStyles } from '@/theme/useThemedStyles';
+import { AppBackground } from '@/components/decor/AppBackground';
+import { duelApi } from '@/services/duelApi';
+import { deckApi } from '@/services/deckApi';
+import type { Deck, DeckCard, DeckSidePlan, DeckSidePlanStatus, DuelMatch } from '@/types';
+
+/** Composition : un `cards.id` par exemplaire, comme la soumission. */
+interface Sections {
+  main: number[];
+  extra: number[];
+  side: number[];
+}
+
+/**
+ * Miroir de `applySidePlan` (shared/sidePlans.ts) — le mobile ne peut pas
+ * importer hors de son dossier. Les plans proposés ont déjà été validés par le
+ * serveur contre le deck actuel ; on ne refait que le déplacement des cartes.
+ */
+function applyPlan(base: Sections, plan: DeckSidePlan, isExtra: (id: number) => boolean): Sections {
+  const main = [...base.main];
+  const extra = [...base.extra];
+  const side = [...base.side];
+  const move = (from: number[], to: number[], id: number, quantity: number) => {
+    for (let n = 0; n < quantity; n++) {
+      const i = from.lastIndexOf(id);
+      if (i < 0) return;
+      from.splice(i, 1);
+      to.push(id);
+    }
+  };
+  for (const m of plan.out) move(isExtra(m.card_id) ? extra : main, side, m.card_id, m.quantity);
+  for (const m of plan.in) move(side, isExtra(m.card_id) ? extra : main, m.card_id, m.quantity);
+  return { main, extra, side };
+}
+
+const expand = (cards: DeckCard[] = []) => cards.flatMap((dc) => Array(dc.quantity).fill(dc.card_id) as number[]);
+
+/**
+ * `/duel/match/[id]` — sideboard entre deux manches d'un match Bo3, miroir de
+ * l'écran web `/duel/matches/:id`.
+ *
+ * Sur mobile on ne déplace pas les cartes une à une : les plans de side du deck
+ * (« vs Snake-Eye », préparés sur le web) s'appliquent en un tap, le deck de
+ * base reste disponible. Poll 3 s comme la salle d'attente (pas de socket.io).
+ */
+export default function DuelMatchScreen() {
+  const styles = useThemedStyles(makeStyles);
+  const { colors } = useAppTheme();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const matchId = Number(id);
+  const router = useRouter();
+  const { user } = useAuth();
+
+  const [match, setMatch] = useState<DuelMatch | null>(null);
+  const [submittedBy, setSubmittedBy] = useState<number[]>([]);
+  const [deck, setDeck] = useState<Deck | null>(null);
+  const [plans, setPlans] = useState<DeckSidePlanStatus[]>([]);
+  const [activePlan, setActivePlan] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const fetchMatch = useCallback(async () => {
+    try {
+      const res = await duelApi.getMatch(matchId);
+      setMatch(res.match);
+      setSubmittedBy(res.submittedBy);
+    } catch (err: any) {
+      Alert.alert('Erreur', err?.response?.data?.error?.message ?? 'Match introuvable');
+      router.back();
+    } finally {
+      setLoading(false);
+    }
+  }, [matchId, router]);
+
+  useEffect(() => {
+    if (!Number.isInteger(matchId)) return;
+    fetchMatch();
+    const iv = setInterval(fetchMatch, 3000);
+    return () => clearInterval(iv);
+  }, [matchId, fetchMatch]);
+
+  // Notre deck (celui de la première manche) et ses plans de side
+  const firstGameId = match?.games?.[0]?.id;
+  useEffect(() => {
+    if (!firstGameId || !user) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const duel = await duelApi.get(firstGameId);
+        const deckId = user.id === duel.challenger_id ? duel.challenger_deck_id : duel.opponent_deck_id;
+        if (!deckId) return;
+        const [{ deck: d }, sidePlans] = await Promise.all([
+          deckApi.get(deckId),
+          deckApi.sidePlans(deckId).catch(() => ({ plans: [] as DeckSidePlanStatus[] })),
+        ]);
+        if (cancelled) return;
+        setDeck(d);
+        setPlans(sidePlans.plans);
+      } catch {
+        if (!cancelled) Alert.alert('Erreur', 'Chargement de la composition impossible');
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [firstGameId, user]);
+
+  const names = useMemo(() => {
+    const all = [...(deck?.main_deck ?? []), ...(deck?.extra_deck ?? []), ...(deck?.side_deck ?? [])];
+    return new Map(all.map((dc) => [dc.card_id, dc.card?.name_fr || dc.card?.name || `#${dc.card_id}`]));
+  }, [deck]);
+
+  const composition = useMemo<Sections | null>(() => {
+    if (!deck) return null;
+    const base = { main: expand(deck.main_deck), extra: expand(deck.extra_deck), side: expand(deck.side_deck) };
+    const plan = plans.find((p) => p.name === activePlan);
+    if (!plan) return base;
+    // Une carte est d'Extra Deck si le deck en range déjà un exemplaire à l'Extra
+    const extraIds = new Set(base.extra);
+    const sideExtra = new Set(
+      (deck.side_deck ?? [])
+        .filter((dc) => /fusion|synchro|xyz|link/.test((dc.card?.frame_type ?? '').toLowerCase()))
+        .map((dc) => dc.card_id)
+    );
+    return applyPlan(base, plan, (cardId) => extraIds.has(cardId) || sideExtra.has(cardId));
+  }, [deck, plans, activePlan]);
+
+  const nextGameNumber = useMemo(() => {
+    const games = match?.games ?? [];
+    return games.length > 0 ? Math.min(3, games[games.length - 1].game_number + 1) : 2;
+  }, [match]);
+
+  const iSubmitted = user ? submittedBy.includes(user.id) : false;
+  const bothSubmitted =
+    !!match && submittedBy.includes(match.challenger_id) && submittedBy.includes(match.opponent_id);
+
+  const submit = async () => {
+    if (!composition || busy) return;
+    setBusy(true);
+    try {
+      await duelApi.submitSideDeck(matchId, composition);
+      await fetchMatch();
+    } catch (err: any) {
+      Alert.alert('Soumission refusée', err?.response?.data?.error?.message ?? 'Composition invalide');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startNext = async () => {
+    if (busy) return;
+    setBusy(true);
+    try {
+      const { duelId } = await duelApi.nextGame(matchId);
+      router.replace(`/duel/${duelId}` as any);
+    } catch (err: any) {
+      Alert.alert('Erreur', err?.response?.data?.error?.message ?? 'Prochaine manche indisponible');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  /** « 3× Ash Blossom » — une ligne par carte. */
+  const grouped = (ids: number[]) => {
+    const counts = new Map<number, number>();
+    for (const cardId of ids) counts.set(cardId, (counts.get(cardId) ?? 0) + 1);
+    return [...counts]
+      .map(([cardId, n]) => `${n}× ${names.get(cardId) ?? `#${cardId}`}`)
+      .sort((a, b) => a.localeCompare(b));
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.root}>
+        <AppBackground />
+        <SafeAreaView style={styles.container} edges={['top']}>
+          <View style={styles.center}>
+            <ActivityIndicator size="large" color={colors.gold} />
+          </View>
+        </SafeAreaView>
+      </View>
+    );
+  }
+
+  if (!match) return null;
+
+  const activeStatus = plans.find((p) => p.name === activePlan);
+
+  return (
+    <View style={styles.root}>
+      <AppBackground />
+      <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backBtn}>
+            <Text style={styles.backText}>← Retour</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Sideboard</Text>
+          <View style={{ width: 60 }} />
+        </View>
+
+        <ScrollView contentContainerStyle={styles.body} showsVerticalScrollIndicator={false}>
+          <Text style={styles.kicker}>— Bo{match.best_of} · {match.challenger_wins} — {match.opponent_wins} —</Text>
+          <Text style={styles.title}>
+            {match.status === 'finished' ? 'Match terminé' : `Manche ${nextGameNumber}`}
+          </Text>
+
+          {match.status === 'finished' && (
+            <Text style={styles.subtitle}>
+              {match.winner_id === user?.id ? 'Victoire du match !' : 'Défaite du match'}
+            </Text>
+          )}
+
+          {match.status === 'sideboard' && iSubmitted && (
+            <View style={styles.panel}>
+              <Text style={styles.subtitle}>Ta composition est enregistrée.</Text>
+              <Text style={styles.hint}>
+                {bothSubmitted ? 'Les deux joueurs ont soumis leur side deck.' : "En attente de l'adversaire…"}
+              </Text>
+              {bothSubmitted && (
+                <TouchableOpacity
+                  onPress={startNext}
+                  disabled={busy}
+                  style={[styles.cta, { backgroundColor: colors.gold, opacity: busy ? 0.55 : 1 }]}>
+                  <Text style={[styles.ctaText, { color: colors.onGold }]}>Lancer la manche {nextGameNumber}</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+
+          {match.status === 'sideboard' && !iSubmitted && composition && (
+            <>
+              <Text style={styles.sectionLabel}>Plans de side</Text>
+              <View style={styles.chips}>
+                <TouchableOpacity
+                  onPress={() => setActivePlan(null)}
+                  style={[styles.chip, activePlan === null && { borderColor: colors.gold }]}>
+                  <Text style={[styles.chipText, activePlan === null && { color: colors.gold }]}>Deck de base</Text>
+                </TouchableOpacity>
+                {plans.map((p) => {
+                  const on = activePlan === p.name;
+                  const broken = p.problems.length > 0;
+                  const out = p.out.reduce((n, m) => n + m.quantity, 0);
+                  const inc = p.in.reduce((n, m) => n + m.quantity, 0);
+                  return (
+                    <TouchableOpacity
+                      key={p.name}
+                      onPress={() => (broken ? Alert.alert(p.name, p.problems.join('\n')) : setActivePlan(p.name))}
+                      style={[styles.chip, on && { borderColor: colors.gold }, broken && { opacity: 0.4 }]}>
+                      <Text style={[styles.chipText, on && { color: colors.gold }]}>
+                        {p.name} <Text style={styles.chipMeta}>-{out} / +{inc}</Text>
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              {plans.length === 0 && (
+                <Text style={styles.hint}>Aucun plan pour ce deck — prépare-les depuis la page du deck sur le web.</Text>
+              )}
+
+              {activeStatus && (
+                <View style={styles.panel}>
+                  {activeStatus.out.map((m) => (
+                    <Text key={`out-${m.card_id}`} style={[styles.move, { color: colors.danger }]}>
+                      −{m.quantity} {names.get(m.card_id) ?? `#${m.card_id}`}
+                    </Text>
+                  ))}
+                  {activeStatus.in.map((m) => (
+                    <Text key={`in-${m.card_id}`} style={[styles.move, { color: colors.success }]}>
+                      +{m.quantity} {names.get(m.card_id) ?? `#${m.card_id}`}
+                    </Text>
+                  ))}
+                </View>
+              )}
+
+              {(
+                [
+                  ['Main Deck', composition.main],
+                  ['Extra Deck', composition.extra],
+                  ['Side Deck', composition.side],
+                ] as const
+              ).map(([label, ids]) =>
+                ids.length > 0 ? (
+                  <View key={label} style={styles.panel}>
+                    <Text style={styles.sectionLabel}>
+                      {label} · {ids.length}
+                    </Text>
+                    {grouped(ids).map((line) => (
+                      <Text key={line} style={styles.cardLine} numberOfLines={1}>
+                        {line}
+                      </Text>
+                    ))}
+                  </View>
+                ) : null
+              )}
+
+              <TouchableOpacity
+                onPress={submit}
+                disabled={busy}
+                style={[styles.cta, { backgroundColor: colors.gold, opacity: busy ? 0.55 : 1 }]}>
+                {busy ? (
+                  <ActivityIndicator color={colors.onGold} />
+                ) : (
+                  <Text style={[styles.ctaText, { color: colors.onGold }]}>Valider ma composition</Text>
+                )}
+              </TouchableOpacity>
+            </>
+          )}
+
+          {match.status === 'active' && (
+            <Text style={styles.hint}>La manche est en cours — le sideboard ouvrira à sa fin.</Text>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </View>
+  );
+}
+
+const makeStyles = (t: Theme) =>
+  StyleSheet.create({
+    root: { flex: 1, backgroundColor: t.colors.bg },
+    container: { flex: 1 },
+    center: { flex: 1, alignItems: 'center', justifyContent: 'center', padding: 24 },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+      borderBottomWidth: 1,
+      borderBottomColor: t.colors.border,
+    },
+    backBtn: { paddingVertical: 6 },
+    backText: {
+      fontSize: 12,
+      color: t.colors.textMuted,
+      letterSpacing: 1,
+      textTransform: 'uppercase',
+    },
+    headerTitle: {
+      fontSize: 13,
+      fontWeight: '900',
+      color: t.colors.text,
+      letterSpacing: 2,
+      textTransform: 'uppercase',
+    },
+    body: { padding: 18, paddingBottom: 40, gap: 12 },
+
+    kicker: {
+      fontFamily: 'serif',
+      fontStyle: 'italic',
+      fontSize: 10,
+      letterSpacing: 2.8,
+      color: t.colors.gold,
+      textTransform: 'uppercase',
+    },
+    title: {
+      marginTop: 4,
+      fontSize: 22,
+      fontWeight: '900',
+      letterSpacing: 1,
+      textTransform: 'uppercase',
+      color: t.colors.text,
+    },
+    subtitle: {
+      fontSize: 13,
+      color: t.colors.text,
+      lineHeight: 18,
+    },
+    hint: {
+      fontSize: 12,
+      color: t.colors.textMuted,
+      lineHeight: 17,
+    },
+
+    sectionLabel: {
+      fontSize: 10,
+      fontWeight: '800',
+      letterSpacing: 1.6,
+      textTransform: 'uppercase',
+      color: t.colors.textDim,
+    },
+    chips: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+    chip: {
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      backgroundColor: t.colors.panel,
+    },
+    chipText: { fontSize: 13, fontWeight: '700', color: t.colors.text },
+    chipMeta: { fontSize: 11, fontWeight: '400', color: t.colors.textMuted },
+
+    panel: {
+      padding: 12,
+      gap: 4,
+      backgroundColor: t.colors.panel,
+      borderWidth: 1,
+      borderColor: t.colors.border,
+    },
+    move: { fontSize: 13, fontWeight: '700' },
+    cardLine: { fontSize: 12, color: t.colors.text },
+
+    cta: {
+      marginTop: 8,
+      height: 48,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    ctaText: {
+      fontSize: 13,
+      fontWeight: '900',
+      letterSpacing: 2,
+      textTransform: 'uppercase',
+    },
+  });
@@ -0,0 +1,384 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Image,
+  ActivityIndicator,
+  Switch,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useAppTheme, type Theme } from '@/theme/ThemeContext';
+import { useThemedStyles } from '@/theme/useThemedStyles';
+import { AppBackground } from '@/components/decor/AppBackground';
+import { CornerOrnaments } from '@/components/decor/CornerOrnaments';
+import duelEngineApi from '@/services/duelEngineApi';
+import type { DuelCardView, DuelReplay, DuelSideView } from '@/types';
+
+/**
+ * Rejeu mobile d'une partie finie — miroir de `client/src/pages/DuelReplayViewer.tsx`.
+ *
+ * Un seul appel : le serveur renvoie toutes les images (une par décision),
+ * la navigation est ensuite locale. Les mains restent cachées tant qu'on ne
+ * demande pas à les révéler.
+ */
+const cardImg = (code: number): string =>
+  `https://images.ygoprodeck.com/images/cards_small/${code}.jpg`;
+
+/** Une décision par seconde, comme sur le web. */
+const PLAY_INTERVAL_MS = 1000;
+
+export default function DuelReplayScreen() {
+  const styles = useThemedStyles(makeStyles);
+  const { colors } = useAppTheme();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const duelId = Number(id);
+  const router = useRouter();
+
+  const [replay, setReplay] = useState<DuelReplay | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [revealHands, setRevealHands] = useState(false);
+
+  useEffect(() => {
+    if (!Number.isFinite(duelId)) return;
+    duelEngineApi
+      .replay(duelId)
+      .then(setReplay)
+      .catch((err: any) => {
+        const status = err?.response?.status;
+        setError(
+          status === 403
+            ? 'Tu dois suivre au moins un des deux joueurs pour revoir ce duel.'
+            : err?.response?.data?.error?.message ?? 'Rejeu indisponible.'
+        );
+      });
+  }, [duelId]);
+
+  const last = replay ? replay.frames.length - 1 : 0;
+
+  useEffect(() => {
+    if (!playing) return undefined;
+    if (index >= last) {
+      setPlaying(false);
+      return undefined;
+    }
+    const timer = setTimeout(() => setIndex(index + 1), PLAY_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [playing, index, last]);
+
+  const log = useMemo(
+    () => (replay ? replay.frames.slice(0, index + 1).flatMap((f) => f.log).slice(-12) : []),
+    [replay, index]
+  );
+
+  if (error) {
+    return (
+      <SafeAreaView style={styles.loader}>
+        <AppBackground />
+        <CornerOrnaments />
+        <Text style={styles.errTitle}>Impossible de revoir ce duel</Text>
+        <Text style={styles.dim}>{error}</Text>
+        <TouchableOpacity style={styles.btn} onPress={() => router.back()}>
+          <Text style={styles.btnTxt}>Retour</Text>
+        </TouchableOpacity>
+      </SafeAreaView>
+    );
+  }
+  if (!replay) {
+    return (
+      <SafeAreaView style={styles.loader}>
+        <AppBackground />
+        <ActivityIndicator size="large" color={colors.gold} />
+        <Text style={styles.dim}>Reconstruction de la partie…</Text>
+      </SafeAreaView>
+    );
+  }
+
+  const frame = replay.frames[index];
+  const { board } = frame;
+  const step = (delta: number) => {
+    setPlaying(false);
+    setIndex((i) => Math.min(last, Math.max(0, i + delta)));
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <AppBackground />
+      <CornerOrnaments />
+
+      <View style={styles.header}>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.title}>
+            Rejeu · {replay.players[0].username} vs {replay.players[1].username}
+          </Text>
+          <Text style={styles.subtitle}>
+            Tour {board.turn} · {board.phase} · {replay.players[board.turnPlayer].username}
+          </Text>
+        </View>
+        <TouchableOpacity style={styles.ghostBtn} onPress={() => router.back()}>
+          <Text style={styles.ghostTxt}>Quitter</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Contrôles */}
+      <View style={styles.controls}>
+        <TouchableOpacity style={styles.ghostBtn} onPress={() => step(-1)} disabled={index === 0}>
+          <Text style={styles.ghostTxt}>◀</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.btn}
+          onPress={() => {
+            if (index >= last) setIndex(0);
+            setPlaying(!playing);
+          }}>
+          <Text style={styles.btnTxt}>{playing ? 'Pause' : 'Lecture'}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.ghostBtn} onPress={() => step(1)} disabled={index >= last}>
+          <Text style={styles.ghostTxt}>▶</Text>
+        </TouchableOpacity>
+        <Text style={styles.dim}>
+          {index + 1} / {last + 1}
+        </Text>
+        <View style={{ flex: 1 }} />
+        <Text style={styles.dim}>Mains</Text>
+        <Switch value={revealHands} onValueChange={setRevealHands} />
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.turns}>
+        {replay.turns.map((t) => {
+          const active = t.turn === board.turn;
+          return (
+            <TouchableOpacity
+              key={t.turn}
+              style={[styles.turnChip, active && { borderColor: colors.gold }]}
+              onPress={() => {
+                setPlaying(false);
+                setIndex(t.frame);
+              }}>
+              <Text style={[styles.ghostTxt, active && { color: colors.gold }]}>T{t.turn}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      <ScrollView contentContainerStyle={{ padding: 8, gap: 6 }}>
+        {!replay.complete && <Text style={styles.errLine}>Rejeu interrompu : {replay.error}</Text>}
+
+        <ReplayBoard side={board.opponent} label={replay.players[1].username} styles={styles} />
+        <HandRow cards={frame.hands[1]} reveal={revealHands} styles={styles} />
+        <HandRow cards={frame.hands[0]} reveal={revealHands} styles={styles} />
+        <ReplayBoard side={board.me} label={replay.players[0].username} styles={styles} />
+
+        <View style={styles.panel}>
+          {frame.decision ? (
+            <>
+              <Text style={styles.panelTitle}>
+                {replay.players[frame.decision.seat].username} · {frame.decision.prompt || 'Décision'}
+              </Text>
+              <Text style={[styles.logLine, { color: colors.gold }]}>
+                → {frame.decision.choice.join(', ') || '—'}
+              </Text>
+            </>
+          ) : (
+            <Text style={[styles.panelTitle, { color: colors.gold }]}>
+              {replay.winner !== null
+                ? `Victoire de ${replay.players[replay.winner].username}`
+                : 'Fin de la partie'}
+              {replay.winReason ? ` (${replay.winReason})` : ''}
+            </Text>
+          )}
+        </View>
+
+        {board.chain.length > 0 && (
+          <View style={styles.panel}>
+            <Text style={styles.panelTitle}>Chaîne</Text>
+            {board.chain.map((c) => (
+              <Text key={c.link} style={styles.logLine}>
+                {c.link}. {c.name ?? `#${c.code}`} · {replay.players[c.controller].username}
+              </Text>
+            ))}
+          </View>
+        )}
+
+        <View style={styles.panel}>
+          <Text style={styles.panelTitle}>Déroulé</Text>
+          {log.map((l, i) => (
+            <Text key={i} style={styles.logLine}>
+              · {l.text}
+            </Text>
+          ))}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+function ReplayBoard({
+  side,
+  label,
+  styles,
+}: {
+  side: DuelSideView;
+  label: string;
+  styles: ReturnType<typeof makeStyles>;
+}) {
+  return (
+    <View style={styles.boardSide}>
+      <View style={styles.boardHeader}>
+        <Text style={styles.boardLabel}>{label}</Text>
+        <Text style={styles.dim}>
+          {side.lp} LP · Deck {side.deckCount} · Cim. {side.graveyard.length}
+        </Text>
+      </View>
+      <View style={styles.zoneRow}>
+        {side.monsters.slice(0, 5).map((z, i) => (
+          <Slot key={`m${i}`} zone={z} styles={styles} />
+        ))}
+      </View>
+      <View style={styles.zoneRow}>
+        {side.spells.slice(0, 5).map((z, i) => (
+          <Slot key={`s${i}`} zone={z} styles={styles} />
+        ))}
+      </View>
+    </View>
+  );
+}
+
+function HandRow({
+  cards,
+  reveal,
+  styles,
+}: {
+  cards: DuelCardView[];
+  reveal: boolean;
+  styles: ReturnType<typeof makeStyles>;
+}) {
+  if (!reveal) {
+    return (
+      <Text style={styles.dim}>
+        Main : {cards.length} carte{cards.length > 1 ? 's' : ''}
+      </Text>
+    );
+  }
+  return (
+    <View style={styles.handRow}>
+      {cards.map((c, i) => (
+        <Image key={`${c.code}-${i}`} source={{ uri: cardImg(c.code) }} style={styles.handCard} resizeMode="cover" />
+      ))}
+    </View>
+  );
+}
+
+function Slot({
+  zone,
+  styles,
+}: {
+  zone: DuelCardView | null;
+  styles: ReturnType<typeof makeStyles>;
+}) {
+  if (!zone) return <View style={styles.zone} />;
+  return (
+    <View style={styles.zone}>
+      {zone.code && !zone.faceDown ? (
+        <Image source={{ uri: cardImg(zone.code) }} style={{ width: '100%', height: '100%' }} resizeMode="cover" />
+      ) : (
+        <Text style={styles.zoneCover}>{zone.faceDown ? 'Verso' : '?'}</Text>
+      )}
+    </View>
+  );
+}
+
+const makeStyles = (t: Theme) =>
+  StyleSheet.create({
+    container: { flex: 1, backgroundColor: t.colors.bg },
+    loader: {
+      flex: 1,
+      backgroundColor: t.colors.bg,
+      justifyContent: 'center',
+      alignItems: 'center',
+      gap: 12,
+      padding: 24,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      borderBottomWidth: 1,
+      borderBottomColor: t.colors.border,
+    },
+    title: { fontSize: 14, fontWeight: '700', color: t.colors.text },
+    subtitle: { fontSize: 11, color: t.colors.textDim },
+    errTitle: { color: t.colors.danger, fontSize: 16, fontWeight: '700', textAlign: 'center' },
+    errLine: { color: t.colors.danger, fontSize: 11 },
+    dim: { color: t.colors.textDim, fontSize: 12, textAlign: 'center' },
+    controls: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+    },
+    turns: { gap: 6, paddingHorizontal: 12, paddingBottom: 6 },
+    turnChip: {
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      paddingHorizontal: 10,
+      paddingVertical: 4,
+      borderRadius: 4,
+    },
+    btn: {
+      backgroundColor: t.colors.gold,
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+      borderRadius: 4,
+    },
+    btnTxt: { color: t.colors.onGold, fontWeight: '700', fontSize: 12 },
+    ghostBtn: {
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 4,
+    },
+    ghostTxt: { color: t.colors.textMuted, fontSize: 11 },
+    boardSide: {
+      padding: 8,
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      borderRadius: 4,
+      backgroundColor: t.colors.panel,
+    },
+    boardHeader: { flexDirection: 'row', justifyContent: 'space-between', marginBottom: 4 },
+    boardLabel: { color: t.colors.text, fontWeight: '700', fontSize: 12 },
+    zoneRow: { flexDirection: 'row', gap: 4, marginBottom: 4 },
+    zone: {
+      flex: 1,
+      aspectRatio: 0.7,
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      borderRadius: 4,
+      overflow: 'hidden',
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: t.colors.panel2,
+    },
+    zoneCover: { color: t.colors.textDim, fontSize: 9 },
+    handRow: { flexDirection: 'row', gap: 4, justifyContent: 'center', flexWrap: 'wrap' },
+    handCard: { width: 40, height: 58, borderRadius: 2 },
+    panel: {
+      padding: 8,
+      borderRadius: 4,
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      backgroundColor: t.colors.panel,
+    },
+    panelTitle: { color: t.colors.text, fontWeight: '700', marginBottom: 4, fontSize: 12 },
+    logLine: { color: t.colors.textMuted, fontSize: 11, marginVertical: 1 },
+  });
@@ -0,0 +1,198 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  Image,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter, useFocusEffect } from 'expo-router';
+import { useAuth } from '@/context/AuthContext';
+import { notificationApi, notificationMessage } from '@/services/notificationApi';
+import type { Notification } from '@/types';
+import { useThemedStyles } from '@/theme/useThemedStyles';
+import { useAppTheme, type Theme } from '@/theme/ThemeContext';
+import { AppBackground } from '@/components/decor/AppBackground';
+
+function timeAgo(iso: string): string {
+  const min = Math.floor((Date.now() - new Date(iso).getTime()) / 60_000);
+  if (min < 1) return "à l'instant";
+  if (min < 60) return `il y a ${min} min`;
+  const h = Math.floor(min / 60);
+  if (h < 24) return `il y a ${h} h`;
+  const days = Math.floor(h / 24);
+  if (days < 7) return `il y a ${days} j`;
+  return new Date(iso).toLocaleDateString('fr-FR');
+}
+
+/**
+ * `/notifications` — ouvert par la cloche du header. Une pression marque la
+ * notification lue et ouvre ce qu'elle concerne : profil, deck, échange, ou
+ * mon propre profil (liste de recherche) pour une alerte de prix.
+ */
+export default function NotificationsScreen() {
+  const styles = useThemedStyles(makeStyles);
+  const { colors } = useAppTheme();
+  const router = useRouter();
+  const { user: me } = useAuth();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const data = await notificationApi.list();
+      setNotifications(data.notifications);
+    } catch {
+      setNotifications([]);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      load();
+    }, [load])
+  );
+
+  useEffect(
+    () => notificationApi.subscribe((n) => setNotifications((prev) => [n, ...prev])),
+    []
+  );
+
+  const open = (n: Notification) => {
+    if (!n.is_read) {
+      setNotifications((prev) => prev.map((x) => (x.id === n.id ? { ...x, is_read: true } : x)));
+      notificationApi.markAsRead(n.id).catch(() => undefined);
+    }
+    if (n.type === 'follow' && n.from_user_id) router.push(`/user/${n.from_user_id}` as any);
+    else if (n.deck_id) router.push(`/deck/${n.deck_id}` as any);
+    else if (n.type.startsWith('trade_') && n.trade_id) router.push(`/trades?id=${n.trade_id}` as any);
+    else if (n.type === 'price_alert' && me) router.push(`/user/${me.id}` as any);
+  };
+
+  const markAll = async () => {
+    setNotifications((prev) => prev.map((n) => ({ ...n, is_read: true })));
+    notificationApi.markAllAsRead().catch(() => undefined);
+  };
+
+  return (
+    <View style={styles.root}>
+      <AppBackground />
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backBtn}>
+            <Text style={styles.backText}>← Retour</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Notifications</Text>
+          <TouchableOpacity onPress={markAll} style={styles.backBtn}>
+            <Text style={styles.backText}>Tout lu</Text>
+          </TouchableOpacity>
+        </View>
+
+        {loading ? (
+          <View style={styles.center}>
+            <ActivityIndicator color={colors.gold} />
+          </View>
+        ) : (
+          <FlatList
+            data={notifications}
+            keyExtractor={(n) => n.id.toString()}
+            contentContainerStyle={{ padding: 16, paddingBottom: 80, gap: 8 }}
+            refreshControl={
+              <RefreshControl
+                refreshing={refreshing}
+                onRefresh={() => {
+                  setRefreshing(true);
+                  load();
+                }}
+                tintColor={colors.gold}
+              />
+            }
+            renderItem={({ item }) => (
+              <TouchableOpacity
+                onPress={() => open(item)}
+                activeOpacity={0.8}
+                style={[
+                  styles.row,
+                  {
+                    borderLeftColor: item.is_read
+                      ? colors.border
+                      : item.type === 'price_alert'
+                        ? colors.success
+                        : colors.gold,
+                  },
+                ]}>
+                {item.card?.image_url_small ? (
+                  <Image source={{ uri: item.card.image_url_small }} style={styles.cardThumb} />
+                ) : null}
+                <View style={{ flex: 1, minWidth: 0 }}>
+                  <Text style={[styles.message, !item.is_read && styles.messageUnread]}>
+                    {notificationMessage(item)}
+                  </Text>
+                  <Text style={styles.meta}>{timeAgo(item.created_at)}</Text>
+                </View>
+              </TouchableOpacity>
+            )}
+            ListEmptyComponent={
+              <View style={styles.center}>
+                <Text style={styles.empty}>Aucune notification pour l&apos;instant.</Text>
+              </View>
+            }
+          />
+        )}
+      </SafeAreaView>
+    </View>
+  );
+}
+
+const makeStyles = (t: Theme) =>
+  StyleSheet.create({
+    root: { flex: 1, backgroundColor: t.colors.bg },
+    container: { flex: 1 },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+      borderBottomWidth: 1,
+      borderBottomColor: t.colors.border,
+    },
+    backBtn: { paddingVertical: 6 },
+    backText: {
+      fontSize: 12,
+      color: t.colors.textMuted,
+      letterSpacing: 1,
+      textTransform: 'uppercase',
+    },
+    headerTitle: {
+      fontSize: 14,
+      fontWeight: '900',
+      color: t.colors.text,
+      letterSpacing: 2,
+      textTransform: 'uppercase',
+    },
+    center: { flex: 1, alignItems: 'center', justifyContent: 'center', padding: 30 },
+    empty: { color: t.colors.textMuted, textAlign: 'center', fontSize: 14 },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      padding: 12,
+      gap: 12,
+      backgroundColor: t.colors.bgElev,
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      borderLeftWidth: 3,
+    },
+    cardThumb: { width: 30, height: 44 },
+    message: { fontSize: 13, color: t.colors.textMuted, lineHeight: 18 },
+    messageUnread: { color: t.colors.text, fontWeight: '600' },
+    meta: { marginTop: 3, fontSize: 11, color: t.colors.textMuted },
+  });
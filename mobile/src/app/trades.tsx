@@ -0,0 +1,350 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { tradeApi } from '@/services/tradeApi';
+import { useAuth } from '@/context/AuthContext';
+import { useThemedStyles } from '@/theme/useThemedStyles';
+import { useAppTheme, type Theme } from '@/theme/ThemeContext';
+import { AppBackground } from '@/components/decor/AppBackground';
+import TradeComposerModal from '@/components/TradeComposerModal';
+import type { Trade, TradeItem, TradeStatus } from '@/types';
+
+type Tab = 'received' | 'sent' | 'history';
+
+const STATUS_LABELS: Record<TradeStatus, string> = {
+  pending: 'En attente',
+  accepted: 'Conclu',
+  declined: 'Refusé',
+  cancelled: 'Annulé',
+  countered: 'Contre-offre',
+};
+
+const eur = (n: number) => `${n.toFixed(2).replace('.', ',')} €`;
+
+/**
+ * `/trades?id=` — échanges avec les abonnés mutuels (miroir de la page web).
+ * Offres reçues (accepter / refuser / contre-offre), envoyées (annuler) et
+ * historique ; la liste suit les pushes `trade:updated`.
+ */
+export default function TradesScreen() {
+  const styles = useThemedStyles(makeStyles);
+  const { colors } = useAppTheme();
+  const router = useRouter();
+  const { user } = useAuth();
+  const params = useLocalSearchParams<{ id?: string }>();
+  const focusId = Number(params.id) || null;
+
+  const [trades, setTrades] = useState<Trade[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [tab, setTab] = useState<Tab>('received');
+  const [composerOpen, setComposerOpen] = useState(false);
+  const [counterOf, setCounterOf] = useState<Trade | null>(null);
+
+  const upsert = useCallback((trade: Trade) => {
+    setTrades((prev) => [trade, ...prev.filter((t) => t.id !== trade.id)]);
+  }, []);
+
+  const load = useCallback(async () => {
+    try {
+      setTrades(await tradeApi.list());
+    } catch {
+      setTrades([]);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    return tradeApi.subscribe(upsert);
+  }, [load, upsert]);
+
+  // Ouverture depuis une notification : onglet de l'offre concernée.
+  useEffect(() => {
+    const focused = trades.find((t) => t.id === focusId);
+    if (!focused || !user) return;
+    if (focused.status !== 'pending') setTab('history');
+    else setTab(focused.recipient_id === user.id ? 'received' : 'sent');
+  }, [focusId, trades.length]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const visible = useMemo(() => {
+    if (!user) return [];
+    return trades.filter((t) => {
+      if (tab === 'history') return t.status !== 'pending';
+      if (t.status !== 'pending') return false;
+      return tab === 'received' ? t.recipient_id === user.id : t.proposer_id === user.id;
+    });
+  }, [trades, tab, user]);
+
+  const respond = async (trade: Trade, action: 'accept' | 'decline' | 'cancel') => {
+    try {
+      upsert(await tradeApi.respond(trade.id, action));
+    } catch (err: any) {
+      Alert.alert('Erreur', err?.response?.data?.error || 'Action impossible');
+    }
+  };
+
+  const confirmAccept = (trade: Trade) =>
+    Alert.alert('Accepter l\'échange ?', 'Les cartes changent de collection immédiatement.', [
+      { text: 'Annuler', style: 'cancel' },
+      { text: 'Accepter', onPress: () => respond(trade, 'accept') },
+    ]);
+
+  if (!user) return null;
+
+  const renderItems = (title: string, items: TradeItem[]) => (
+    <View style={{ flex: 1 }}>
+      <Text style={styles.sideTitle}>{title}</Text>
+      {items.length === 0 ? (
+        <Text style={styles.metaText}>Rien</Text>
+      ) : (
+        items.map((i) => (
+          <Text key={i.id} style={styles.itemText} numberOfLines={2}>
+            {i.quantity}× {i.name}
+            <Text style={styles.metaText}> · {i.set_code} · {i.condition}</Text>
+          </Text>
+        ))
+      )}
+    </View>
+  );
+
+  const renderTrade = ({ item: trade }: { item: Trade }) => {
+    const iPropose = trade.proposer_id === user.id;
+    const other = iPropose ? trade.recipient : trade.proposer;
+    const diff = iPropose ? trade.balance.difference_eur : -trade.balance.difference_eur;
+    return (
+      <View style={[styles.card, trade.id === focusId && { borderColor: colors.gold }]}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.cardTitle} numberOfLines={1}>
+            {iPropose ? `Offre à @${other?.username}` : `Offre de @${other?.username}`}
+          </Text>
+          <Text style={styles.status}>{STATUS_LABELS[trade.status]}</Text>
+        </View>
+        {trade.message ? <Text style={styles.message}>« {trade.message} »</Text> : null}
+        <View style={{ flexDirection: 'row', gap: 12 }}>
+          {renderItems('Je donne', trade.items.filter((i) => i.from_user_id === user.id))}
+          {renderItems('Je reçois', trade.items.filter((i) => i.from_user_id !== user.id))}
+        </View>
+        <Text style={styles.balance}>
+          Équilibre{' '}
+          <Text
+            style={{
+              color: Math.abs(diff) < 0.01 ? colors.text : diff > 0 ? colors.success : colors.danger,
+              fontWeight: '900',
+            }}>
+            {diff > 0 ? '+' : ''}
+            {eur(diff)}
+          </Text>
+          {trade.balance.unpriced_cards > 0 ? ` · ${trade.balance.unpriced_cards} sans cote` : ''}
+        </Text>
+        {trade.status === 'pending' && (
+          <View style={styles.actions}>
+            {iPropose ? (
+              <TouchableOpacity onPress={() => respond(trade, 'cancel')} style={[styles.actionBtn, { borderColor: colors.danger }]}>
+                <Text style={[styles.actionText, { color: colors.danger }]}>Annuler</Text>
+              </TouchableOpacity>
+            ) : (
+              <>
+                <TouchableOpacity onPress={() => confirmAccept(trade)} style={[styles.actionBtn, { borderColor: colors.gold }]}>
+                  <Text style={[styles.actionText, { color: colors.gold }]}>Accepter</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => {
+                    setCounterOf(trade);
+                    setComposerOpen(true);
+                  }}
+                  style={[styles.actionBtn, { borderColor: colors.violet }]}>
+                  <Text style={[styles.actionText, { color: colors.violet }]}>Contre-offre</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => respond(trade, 'decline')} style={[styles.actionBtn, { borderColor: colors.danger }]}>
+                  <Text style={[styles.actionText, { color: colors.danger }]}>Refuser</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.root}>
+      <AppBackground />
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backBtn}>
+            <Text style={styles.backText}>← Retour</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Échanges</Text>
+          <TouchableOpacity
+            onPress={() => {
+              setCounterOf(null);
+              setComposerOpen(true);
+            }}
+            style={styles.backBtn}>
+            <Text style={[styles.backText, { color: colors.gold }]}>+ Offre</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.tabs}>
+          {(['received', 'sent', 'history'] as const).map((t) => (
+            <TouchableOpacity
+              key={t}
+              onPress={() => setTab(t)}
+              style={[styles.tab, tab === t && styles.tabActive]}>
+              <Text style={[styles.tabText, tab === t && styles.tabTextActive]}>
+                {t === 'received' ? 'Reçues' : t === 'sent' ? 'Envoyées' : 'Historique'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {loading ? (
+          <View style={styles.center}>
+            <ActivityIndicator color={colors.gold} />
+          </View>
+        ) : (
+          <FlatList
+            data={visible}
+            keyExtractor={(t) => t.id.toString()}
+            renderItem={renderTrade}
+            contentContainerStyle={{ padding: 16, paddingBottom: 80, gap: 10 }}
+            refreshControl={
+              <RefreshControl
+                refreshing={refreshing}
+                onRefresh={() => {
+                  setRefreshing(true);
+                  load();
+                }}
+                tintColor={colors.gold}
+              />
+            }
+            ListEmptyComponent={
+              <View style={styles.center}>
+                <Text style={styles.empty}>
+                  {tab === 'history' ? 'Aucun échange terminé.' : 'Aucune offre en attente.'}
+                </Text>
+              </View>
+            }
+          />
+        )}
+      </SafeAreaView>
+
+      <TradeComposerModal
+        visible={composerOpen}
+        currentUserId={user.id}
+        counterOf={counterOf}
+        onClose={() => setComposerOpen(false)}
+        onSent={(trade) => {
+          upsert(trade);
+          setTab('sent');
+        }}
+      />
+    </View>
+  );
+}
+
+const makeStyles = (t: Theme) =>
+  StyleSheet.create({
+    root: { flex: 1, backgroundColor: t.colors.bg },
+    container: { flex: 1 },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+      borderBottomWidth: 1,
+      borderBottomColor: t.colors.border,
+    },
+    backBtn: { paddingVertical: 6 },
+    backText: {
+      fontSize: 12,
+      color: t.colors.textMuted,
+      letterSpacing: 1,
+      textTransform: 'uppercase',
+    },
+    headerTitle: {
+      fontSize: 14,
+      fontWeight: '900',
+      color: t.colors.text,
+      letterSpacing: 2,
+      textTransform: 'uppercase',
+    },
+    tabs: {
+      flexDirection: 'row',
+      backgroundColor: t.colors.bgElev,
+      borderBottomWidth: 1,
+      borderBottomColor: t.colors.border,
+    },
+    tab: {
+      flex: 1,
+      paddingVertical: 14,
+      alignItems: 'center',
+      borderBottomWidth: 2,
+      borderBottomColor: 'transparent',
+    },
+    tabActive: { borderBottomColor: t.colors.gold },
+    tabText: {
+      fontSize: 11,
+      color: t.colors.textMuted,
+      letterSpacing: 1.6,
+      textTransform: 'uppercase',
+      fontWeight: '600',
+    },
+    tabTextActive: { color: t.colors.gold, fontWeight: '700' },
+    center: { flex: 1, alignItems: 'center', justifyContent: 'center', padding: 30, gap: 14 },
+    empty: { color: t.colors.textMuted, textAlign: 'center', fontSize: 14 },
+    card: {
+      padding: 12,
+      backgroundColor: t.colors.bgElev,
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      borderLeftWidth: 3,
+      gap: 8,
+    },
+    cardHeader: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+    cardTitle: { flex: 1, color: t.colors.text, fontWeight: '700', fontSize: 13 },
+    status: {
+      fontSize: 9,
+      color: t.colors.gold,
+      letterSpacing: 1,
+      textTransform: 'uppercase',
+      fontWeight: '700',
+    },
+    message: { fontSize: 12, color: t.colors.textMuted, fontStyle: 'italic' },
+    sideTitle: {
+      fontSize: 10,
+      color: t.colors.textDim,
+      letterSpacing: 1.2,
+      textTransform: 'uppercase',
+      marginBottom: 4,
+    },
+    itemText: { fontSize: 12, color: t.colors.text, marginBottom: 2 },
+    metaText: { fontSize: 11, color: t.colors.textMuted },
+    balance: { fontSize: 12, color: t.colors.textMuted },
+    actions: { flexDirection: 'row', gap: 8, flexWrap: 'wrap' },
+    actionBtn: {
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderWidth: 1,
+    },
+    actionText: {
+      fontSize: 10,
+      fontWeight: '900',
+      letterSpacing: 1.2,
+      textTransform: 'uppercase',
+    },
+  });
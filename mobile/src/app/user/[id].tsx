@@ -13,7 +13,8 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLocalSearchParams, useRouter, useFocusEffect } from 'expo-router';
 import { useAuth } from '@/context/AuthContext';
 import { socialApi, type PublicUserProfile } from '@/services/socialApi';
-import type { Deck } from '@/types';
+import { binderApi } from '@/services/binderApi';
+import type { Deck, TradeBinder } from '@/types';
 import { useThemedStyles } from '@/theme/useThemedStyles';
 import { useAppTheme, type Theme } from '@/theme/ThemeContext';
 import { AppBackground } from '@/components/decor/AppBackground';
@@ -26,7 +27,8 @@ import CyberButton from '@/components/CyberButton';
  * en haut.
  *
  * Le back /auth/users/:id retourne {user, followerCount, followingCount} — les
- * decks du user sont récupérés à part via /decks/public?user_id=X.
+ * decks du user sont récupérés à part via /decks/public?user_id=X, son classeur
+ * d'échange via /binder/:id (le mien en plus, pour surligner les correspondances).
  */
 export default function UserProfileScreen() {
   const styles = useThemedStyles(makeStyles);
@@ -43,19 +45,25 @@ export default function UserProfileScreen() {
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [challengeOpen, setChallengeOpen] = useState(false);
+  const [binder, setBinder] = useState<TradeBinder | null>(null);
+  const [myBinder, setMyBinder] = useState<TradeBinder | null>(null);
 
   const fetchAll = useCallback(async () => {
     if (!targetId || Number.isNaN(targetId)) return;
     try {
-      const [prof, feed, followingList] = await Promise.all([
+      const [prof, feed, followingList, theirBinder, ownBinder] = await Promise.all([
         socialApi.getUser(targetId),
         socialApi
           .feed({ user_id: targetId, page: 1, limit: 40 })
           .catch(() => ({ data: [] as Deck[], total: 0, page: 1, total_pages: 0 })),
         me ? socialApi.getFollowing().catch(() => []) : Promise.resolve([]),
+        me ? binderApi.getForUser(targetId).catch(() => null) : Promise.resolve(null),
+        me && me.id !== targetId ? binderApi.getMine().catch(() => null) : Promise.resolve(null),
       ]);
       setProfile(prof);
       setDecks(feed.data);
+      setBinder(theirBinder);
+      setMyBinder(ownBinder);
       setIsFollowing(followingList.some((f) => f.id === targetId));
     } catch (err: any) {
       Alert.alert('Erreur', err?.response?.data?.error || 'Profil introuvable');
@@ -112,6 +120,9 @@ export default function UserProfileScreen() {
     ? new Date(profile.user.created_at).getFullYear()
     : null;
   const isMe = !!me && me.id === targetId;
+  // Surlignage : ses cartes à l'échange que je cherche, ses recherches que j'ai à l'échange.
+  const myWants = new Set(myBinder?.wants.map((w) => w.card_id));
+  const myHaves = new Set(myBinder?.haves.map((h) => h.card_id));
 
   return (
     <View style={styles.root}>
@@ -254,6 +265,55 @@ export default function UserProfileScreen() {
               </View>
             )}
           </View>
+
+          {binder && binder.haves.length > 0 && (
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>— À l&apos;échange —</Text>
+                <View style={styles.sectionSep} />
+              </View>
+              {binder.haves.map((c) => (
+                <View
+                  key={c.user_card_id}
+                  style={[styles.binderRow, myWants.has(c.card_id) && styles.binderRowMatch]}>
+                  <Text style={styles.binderQty}>{c.quantity}×</Text>
+                  <View style={{ flex: 1, minWidth: 0 }}>
+                    <Text style={styles.binderName} numberOfLines={1}>{c.name}</Text>
+                    <Text style={styles.binderMeta} numberOfLines={1}>
+                      {c.set_code} · {c.rarity} · {c.language} · {c.condition}
+                    </Text>
+                  </View>
+                </View>
+              ))}
+            </View>
+          )}
+
+          {binder && binder.wants.length > 0 && (
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>— Recherche —</Text>
+                <View style={styles.sectionSep} />
+              </View>
+              {binder.wants.map((w) => (
+                <View
+                  key={w.card_id}
+                  style={[styles.binderRow, myHaves.has(w.card_id) && styles.binderRowMatch]}>
+                  <Text style={[styles.binderQty, { color: colors.violet }]}>{w.quantity}×</Text>
+                  <Text style={[styles.binderName, { flex: 1 }]} numberOfLines={1}>{w.name}</Text>
+                  {/* Prix cible : le serveur ne le renvoie que sur mon propre classeur. */}
+                  {w.target_price_eur !== null && (
+                    <Text
+                      style={[
+                        styles.binderMeta,
+                        w.alerted_price_eur !== null && { color: colors.success },
+                      ]}>
+                      ≤ {w.target_price_eur.toLocaleString('fr-FR', { style: 'currency', currency: 'EUR' })}
+                    </Text>
+                  )}
+                </View>
+              ))}
+            </View>
+          )}
         </ScrollView>
       </SafeAreaView>
 
@@ -464,6 +524,30 @@ const makeStyles = (t: Theme) =>
     deckCount: { fontSize: 10, color: t.colors.textMuted, fontWeight: '600' },
     deckLikes: { fontSize: 10, color: t.colors.magenta, fontWeight: '700' },
 
+    binderRow: {
+      marginTop: 8,
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+      paddingVertical: 6,
+      paddingHorizontal: 8,
+      borderLeftWidth: 2,
+      borderLeftColor: 'transparent',
+    },
+    binderRowMatch: {
+      borderLeftColor: t.colors.gold,
+      backgroundColor: 'rgba(245,197,24,0.08)',
+    },
+    binderQty: {
+      minWidth: 24,
+      fontFamily: 'sans-serif',
+      fontSize: 11,
+      fontWeight: '700',
+      color: t.colors.gold,
+    },
+    binderName: { fontSize: 13, color: t.colors.text },
+    binderMeta: { marginTop: 1, fontSize: 10, color: t.colors.textMuted },
+
     emptyDecks: {
       marginTop: 24,
       textAlign: 'center',
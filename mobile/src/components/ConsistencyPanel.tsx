@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import type { Theme } from '@/theme/ThemeContext';
+import { useThemedStyles } from '@/theme/useThemedStyles';
+import { useAppTheme } from '@/theme/ThemeContext';
+import { deckApi } from '@/services/deckApi';
+import type { DeckCardRole, DeckConsistency, DeckConsistencySample } from '@/types';
+import { formatOdds } from '@/utils/drawOdds';
+
+const ROLE_LABELS: Record<DeckCardRole, string> = {
+  starter: 'starter',
+  extender: 'extender',
+  handtrap: 'hand-trap',
+  brick: 'brique',
+};
+
+interface ConsistencyPanelProps {
+  deckId: number;
+  /** Change à chaque sauvegarde du deck : relance le calcul. */
+  version?: string | Date;
+}
+
+/**
+ * Consistance de la main de départ, calculée par le serveur à partir des rôles
+ * donnés aux cartes. Lecture seule ici : rôles et scénarios se règlent sur le
+ * web. Miroir de client/src/components/ConsistencyPanel.tsx.
+ */
+export default function ConsistencyPanel({ deckId, version }: ConsistencyPanelProps) {
+  const styles = useThemedStyles(makeStyles);
+  const { colors } = useAppTheme();
+  const [analysis, setAnalysis] = useState<DeckConsistency | null>(null);
+  const [sample, setSample] = useState<DeckConsistencySample | null>(null);
+  const [sampling, setSampling] = useState(false);
+
+  useEffect(() => {
+    setSample(null);
+    deckApi
+      .consistency(deckId)
+      .then(setAnalysis)
+      .catch(() => setAnalysis(null));
+  }, [deckId, version]);
+
+  const simulate = async () => {
+    setSampling(true);
+    try {
+      setSample(await deckApi.sampleConsistency(deckId, { trials: 10000 }));
+    } catch {
+      /* simulation indisponible : on garde le calcul exact */
+    } finally {
+      setSampling(false);
+    }
+  };
+
+  if (!analysis || analysis.deck_size === 0) return null;
+
+  const hasRoles = analysis.roles.length > 0;
+  const counts = (Object.keys(ROLE_LABELS) as DeckCardRole[])
+    .map((r) => `${analysis.role_counts[r]} ${ROLE_LABELS[r]}`)
+    .join(' · ');
+
+  return (
+    <View style={styles.panel}>
+      <View style={styles.headerRow}>
+        <Text style={styles.heading}>Consistance</Text>
+        <View style={styles.headerSep} />
+      </View>
+
+      <Text style={styles.intro}>
+        {counts} sur {analysis.deck_size}
+      </Text>
+
+      {!hasRoles ? (
+        <Text style={styles.empty}>Aucun rôle attribué aux cartes pour l&apos;instant.</Text>
+      ) : (
+        <>
+          <View style={styles.tableHead}>
+            <Text style={[styles.th, styles.colLabel]}>Main de départ</Text>
+            <Text style={[styles.th, styles.colOdds]}>1er</Text>
+            <Text style={[styles.th, styles.colOdds]}>2e</Text>
+          </View>
+          {analysis.results.map((res, i) => {
+            const simulated = sample?.results[i];
+            return (
+              <View key={`${res.label}-${i}`} style={styles.tr}>
+                <Text style={[styles.td, styles.colLabel]} numberOfLines={2}>
+                  {res.label}
+                </Text>
+                {(['going_first', 'going_second'] as const).map((k) => (
+                  <View key={k} style={styles.colOdds}>
+                    <Text style={[styles.td, styles.odds]}>{formatOdds(res[k])}</Text>
+                    {simulated && <Text style={styles.simulated}>≈ {formatOdds(simulated[k])}</Text>}
+                  </View>
+                ))}
+              </View>
+            );
+          })}
+
+          <TouchableOpacity onPress={simulate} disabled={sampling} style={styles.chip}>
+            {sampling ? (
+              <ActivityIndicator size="small" color={colors.gold} />
+            ) : (
+              <Text style={styles.chipText}>Simuler 10 000 mains</Text>
+            )}
+          </TouchableOpacity>
+
+          {sample?.hands.map((hand, i) => (
+            <Text key={i} style={styles.hand}>
+              <Text style={styles.handSide}>{hand.going_first ? '1er' : '2e'} · </Text>
+              {hand.cards.map((c) => c.name).join(', ')}
+            </Text>
+          ))}
+        </>
+      )}
+    </View>
+  );
+}
+
+const makeStyles = (t: Theme) =>
+  StyleSheet.create({
+    panel: {
+      backgroundColor: t.colors.panel,
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      padding: 16,
+      marginTop: 20,
+    },
+    headerRow: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+    heading: {
+      fontSize: 12,
+      fontWeight: '700',
+      letterSpacing: t.type.trackingWide,
+      textTransform: 'uppercase',
+      color: t.colors.gold,
+    },
+    headerSep: { flex: 1, height: 1, backgroundColor: t.colors.border },
+    intro: { fontSize: 12, color: t.colors.textMuted, marginTop: 6, marginBottom: 12 },
+    empty: { fontSize: 12, color: t.colors.textDim, fontStyle: 'italic' },
+
+    tableHead: {
+      flexDirection: 'row',
+      alignItems: 'flex-end',
+      paddingBottom: 8,
+      borderBottomWidth: 1,
+      borderBottomColor: t.colors.border,
+    },
+    th: {
+      fontSize: 9,
+      fontWeight: '600',
+      letterSpacing: t.type.tracking,
+      textTransform: 'uppercase',
+      color: t.colors.textDim,
+    },
+    tr: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 7,
+      borderBottomWidth: 1,
+      borderBottomColor: t.colors.border,
+    },
+    td: { fontSize: 13, color: t.colors.text },
+    colLabel: { flex: 1, paddingRight: 8 },
+    colOdds: { width: 64, alignItems: 'flex-end' },
+    odds: { color: t.colors.gold, fontWeight: '700', textAlign: 'right' },
+    simulated: { fontSize: 10, color: t.colors.textDim },
+
+    chip: {
+      alignSelf: 'flex-start',
+      marginTop: 12,
+      marginBottom: 6,
+      paddingVertical: 6,
+      paddingHorizontal: 12,
+      backgroundColor: t.colors.panel2,
+      borderWidth: 1,
+      borderColor: t.colors.border,
+    },
+    chipText: { fontSize: 11, fontWeight: '600', color: t.colors.textMuted },
+    hand: { fontSize: 12, color: t.colors.textMuted, marginTop: 4 },
+    handSide: { color: t.colors.textDim },
+  });
@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { deckApi } from '@/services/deckApi';
+import { useThemedStyles } from '@/theme/useThemedStyles';
+import { useAppTheme, type Theme } from '@/theme/ThemeContext';
+import CyberButton from '@/components/CyberButton';
+
+type Props = {
+  visible: boolean;
+  deckId: number;
+  onClose: () => void;
+  onImported: () => void;
+};
+
+/**
+ * Import d'une liste EDOPro / YGOProDeck : on colle le contenu d'un .ydk ou
+ * une URL ydke://. Le serveur remplace le deck entier (Main, Extra, Side).
+ */
+export default function ImportDeckListModal({ visible, deckId, onClose, onImported }: Props) {
+  const styles = useThemedStyles(makeStyles);
+  const { colors } = useAppTheme();
+  const [content, setContent] = useState('');
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (visible) setContent('');
+  }, [visible]);
+
+  const handleImport = async () => {
+    if (!content.trim() || importing) return;
+    setImporting(true);
+    try {
+      const res = await deckApi.importList(deckId, content);
+      const summary = `Main ${res.main_count} · Extra ${res.extra_count} · Side ${res.side_count}`;
+      Alert.alert(
+        'Liste importée',
+        res.unknown.length > 0
+          ? `${summary}\n\nPasscodes inconnus ignorés : ${res.unknown.join(', ')}`
+          : summary
+      );
+      onImported();
+      onClose();
+    } catch (err: any) {
+      const details: string[] = err?.response?.data?.errors || [];
+      Alert.alert(
+        'Erreur',
+        [err?.response?.data?.error || 'Import échoué', ...details].join('\n')
+      );
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Importer une liste</Text>
+          <TouchableOpacity onPress={onClose} style={styles.closeBtn}>
+            <Text style={styles.closeText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.body} keyboardShouldPersistTaps="handled">
+          <Text style={styles.label}>Fichier .ydk ou URL ydke://</Text>
+          <Text style={styles.hint}>
+            Colle le contenu exporté depuis EDOPro ou YGOProDeck.
+          </Text>
+          <TextInput
+            style={styles.textArea}
+            value={content}
+            onChangeText={setContent}
+            placeholder={'ydke://…\nou #main / #extra / !side'}
+            placeholderTextColor={colors.textMuted}
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+            editable={!importing}
+            autoFocus
+          />
+
+          <Text style={styles.warning}>⚠️ Le contenu actuel du deck sera remplacé.</Text>
+
+          <CyberButton
+            label={importing ? 'Import…' : 'Importer'}
+            variant="primary"
+            onPress={handleImport}
+            disabled={!content.trim()}
+            loading={importing}
+            block
+          />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const makeStyles = (t: Theme) =>
+  StyleSheet.create({
+  container: { flex: 1, backgroundColor: t.colors.bg },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 48,
+    paddingBottom: 12,
+    backgroundColor: t.colors.panel,
+    borderBottomWidth: 1,
+    borderBottomColor: t.colors.border,
+    gap: 12,
+  },
+  headerTitle: { flex: 1, fontSize: 17, fontWeight: '700', color: t.colors.text },
+  closeBtn: { padding: 4 },
+  closeText: { fontSize: 22, color: t.colors.textMuted },
+  body: { padding: 16, gap: 12 },
+  label: { fontSize: 14, fontWeight: '700', color: t.colors.text, marginTop: 4 },
+  hint: { fontSize: 12, color: t.colors.textMuted, marginBottom: 4 },
+  textArea: {
+    backgroundColor: t.colors.panel,
+    borderRadius: 10,
+    padding: 14,
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    borderWidth: 1,
+    borderColor: t.colors.border,
+    color: t.colors.text,
+    minHeight: 160,
+    textAlignVertical: 'top',
+  },
+  warning: {
+    fontSize: 12,
+    color: t.colors.gold,
+    backgroundColor: t.colors.panel2,
+    padding: 10,
+    borderRadius: 8,
+  },
+});
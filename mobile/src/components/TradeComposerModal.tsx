@@ -0,0 +1,409 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { useThemedStyles } from '@/theme/useThemedStyles';
+import { useAppTheme, type Theme } from '@/theme/ThemeContext';
+import { tradeApi } from '@/services/tradeApi';
+import type { DeckUser, Trade, TradeableCard, TradeOfferLine } from '@/types';
+import CyberButton from '@/components/CyberButton';
+
+interface Props {
+  visible: boolean;
+  currentUserId: number;
+  /** Offre à laquelle on répond : partenaire fixé, lots pré-remplis. */
+  counterOf?: Trade | null;
+  onClose: () => void;
+  onSent: (trade: Trade) => void;
+}
+
+type Side = 'mine' | 'theirs';
+type Picks = Record<number, number>; // user_card_id → quantité
+
+const eur = (n: number) => `${n.toFixed(2).replace('.', ',')} €`;
+
+const printingKey = (c: Pick<TradeableCard, 'card_id' | 'set_code' | 'rarity' | 'language' | 'condition' | 'edition'>) =>
+  `${c.card_id}|${c.set_code}|${c.rarity}|${c.language}|${c.condition}|${c.edition}`;
+
+function picksFrom(trade: Trade, fromUserId: number, cards: TradeableCard[]): Picks {
+  const byKey = new Map(cards.map((c) => [printingKey(c), c]));
+  const picks: Picks = {};
+  for (const item of trade.items) {
+    if (item.from_user_id !== fromUserId) continue;
+    const card = byKey.get(printingKey(item));
+    if (card) picks[card.user_card_id] = Math.min(item.quantity, card.quantity);
+  }
+  return picks;
+}
+
+const total = (cards: TradeableCard[], picks: Picks) =>
+  cards.reduce((s, c) => s + (picks[c.user_card_id] ? (c.unit_price_eur || 0) * picks[c.user_card_id] : 0), 0);
+
+const toLines = (picks: Picks): TradeOfferLine[] =>
+  Object.entries(picks)
+    .filter(([, q]) => q > 0)
+    .map(([id, quantity]) => ({ user_card_id: Number(id), quantity }));
+
+/**
+ * Modal « Proposer un échange » — miroir mobile de `TradeComposerModal` web.
+ * Choix du partenaire (abonnés mutuels), compteur par ligne de collection
+ * des deux côtés, équilibre estimé au prix Cardmarket.
+ */
+export default function TradeComposerModal({ visible, currentUserId, counterOf, onClose, onSent }: Props) {
+  const styles = useThemedStyles(makeStyles);
+  const { colors } = useAppTheme();
+
+  const [partners, setPartners] = useState<DeckUser[]>([]);
+  const [partnerId, setPartnerId] = useState<number | null>(null);
+  const [cards, setCards] = useState<Record<Side, TradeableCard[]>>({ mine: [], theirs: [] });
+  const [picks, setPicks] = useState<Record<Side, Picks>>({ mine: {}, theirs: {} });
+  const [side, setSide] = useState<Side>('mine');
+  const [message, setMessage] = useState('');
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setPicks({ mine: {}, theirs: {} });
+    setSide('mine');
+    setMessage('');
+    if (counterOf) {
+      setPartnerId(counterOf.proposer_id);
+    } else {
+      setPartnerId(null);
+      tradeApi.getPartners().then(setPartners).catch(() => setPartners([]));
+    }
+    tradeApi
+      .getCards(currentUserId)
+      .then((mine) => {
+        setCards((c) => ({ ...c, mine }));
+        if (counterOf) setPicks((p) => ({ ...p, mine: picksFrom(counterOf, currentUserId, mine) }));
+      })
+      .catch(() => undefined);
+  }, [visible, counterOf, currentUserId]);
+
+  useEffect(() => {
+    if (!visible || partnerId === null) {
+      setCards((c) => ({ ...c, theirs: [] }));
+      return;
+    }
+    tradeApi
+      .getCards(partnerId)
+      .then((theirs) => {
+        setCards((c) => ({ ...c, theirs }));
+        setPicks((p) => ({ ...p, theirs: counterOf ? picksFrom(counterOf, partnerId, theirs) : {} }));
+      })
+      .catch(() => setCards((c) => ({ ...c, theirs: [] })));
+  }, [visible, partnerId, counterOf]);
+
+  const gives = useMemo(() => total(cards.mine, picks.mine), [cards.mine, picks.mine]);
+  const receives = useMemo(() => total(cards.theirs, picks.theirs), [cards.theirs, picks.theirs]);
+  const diff = receives - gives;
+
+  const offered = toLines(picks.mine);
+  const requested = toLines(picks.theirs);
+  const canSend = partnerId !== null && offered.length + requested.length > 0;
+
+  const setQty = (s: Side, card: TradeableCard, quantity: number) => {
+    const q = Math.max(0, Math.min(card.quantity, quantity));
+    setPicks((p) => ({ ...p, [s]: { ...p[s], [card.user_card_id]: q } }));
+  };
+
+  const handleSend = async () => {
+    if (!canSend || partnerId === null || sending) return;
+    setSending(true);
+    try {
+      const body = { offered, requested, message: message.trim() || undefined };
+      const trade = counterOf
+        ? await tradeApi.counter(counterOf.id, body)
+        : await tradeApi.create({ recipient_id: partnerId, ...body });
+      onSent(trade);
+      onClose();
+    } catch (err: any) {
+      Alert.alert('Erreur', err?.response?.data?.error || "Envoi de l'offre échoué");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const partnerName = counterOf
+    ? counterOf.proposer?.username
+    : partners.find((p) => p.id === partnerId)?.username;
+
+  return (
+    <Modal transparent visible={visible} animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.panel}>
+          <View style={styles.header}>
+            <Text style={styles.kicker}>— {counterOf ? 'Contre-offre' : 'Échange'} —</Text>
+            <Text style={styles.title}>
+              {partnerName ? `Avec @${partnerName}` : 'Proposer un échange'}
+            </Text>
+          </View>
+
+          <View style={styles.divider} />
+
+          {!counterOf && (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={{ padding: 12, gap: 8 }}>
+              {partners.length === 0 ? (
+                <Text style={styles.emptyText}>
+                  Les échanges se font entre abonnés mutuels.
+                </Text>
+              ) : (
+                partners.map((p) => (
+                  <TouchableOpacity
+                    key={p.id}
+                    onPress={() => setPartnerId(p.id)}
+                    style={[styles.chip, partnerId === p.id && { borderColor: colors.gold }]}>
+                    <Text style={[styles.chipText, partnerId === p.id && { color: colors.gold }]}>
+                      @{p.username}
+                    </Text>
+                  </TouchableOpacity>
+                ))
+              )}
+            </ScrollView>
+          )}
+
+          {partnerId !== null && (
+            <View style={styles.tabs}>
+              {(['mine', 'theirs'] as const).map((s) => (
+                <TouchableOpacity
+                  key={s}
+                  onPress={() => setSide(s)}
+                  style={[styles.tab, side === s && styles.tabActive]}>
+                  <Text style={[styles.tabText, side === s && styles.tabTextActive]}>
+                    {s === 'mine' ? `Je donne (${offered.length})` : `Je reçois (${requested.length})`}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          {partnerId !== null && (
+            <ScrollView style={{ maxHeight: 300 }} contentContainerStyle={{ padding: 12, gap: 6 }}>
+              {cards[side].length === 0 && <Text style={styles.emptyText}>Aucune carte.</Text>}
+              {cards[side].map((c) => {
+                const picked = picks[side][c.user_card_id] || 0;
+                return (
+                  <View
+                    key={c.user_card_id}
+                    style={[styles.cardRow, picked > 0 && { borderColor: colors.gold }]}>
+                    <View style={{ flex: 1, minWidth: 0 }}>
+                      <Text style={styles.cardName} numberOfLines={1}>
+                        {c.name}
+                      </Text>
+                      <Text style={styles.cardMeta} numberOfLines={1}>
+                        {c.set_code} · {c.condition} · ×{c.quantity}
+                        {c.unit_price_eur ? ` · ${eur(c.unit_price_eur)}` : ''}
+                      </Text>
+                    </View>
+                    <TouchableOpacity
+                      onPress={() => setQty(side, c, picked - 1)}
+                      disabled={picked === 0}
+                      style={styles.stepBtn}>
+                      <Text style={styles.stepText}>−</Text>
+                    </TouchableOpacity>
+                    <Text style={styles.stepValue}>{picked}</Text>
+                    <TouchableOpacity
+                      onPress={() => setQty(side, c, picked + 1)}
+                      disabled={picked >= c.quantity}
+                      style={styles.stepBtn}>
+                      <Text style={styles.stepText}>+</Text>
+                    </TouchableOpacity>
+                  </View>
+                );
+              })}
+            </ScrollView>
+          )}
+
+          <View style={styles.balance}>
+            <Text style={styles.balanceText}>
+              Je donne {eur(gives)} · je reçois {eur(receives)}
+            </Text>
+            <Text
+              style={[
+                styles.balanceDiff,
+                {
+                  color:
+                    Math.abs(diff) < 0.01 ? colors.text : diff > 0 ? colors.success : colors.danger,
+                },
+              ]}>
+              {diff > 0 ? '+' : ''}
+              {eur(diff)}
+            </Text>
+          </View>
+
+          <TextInput
+            value={message}
+            onChangeText={setMessage}
+            maxLength={500}
+            placeholder="Un mot pour accompagner l'offre"
+            placeholderTextColor={colors.textDim}
+            style={styles.input}
+          />
+
+          <View style={styles.footer}>
+            <TouchableOpacity onPress={onClose} style={styles.cancelBtn} disabled={sending}>
+              <Text style={styles.cancelText}>Annuler</Text>
+            </TouchableOpacity>
+            <View style={{ flex: 1 }}>
+              <CyberButton
+                label={counterOf ? 'Contre-offre' : "Envoyer l'offre"}
+                variant="primary"
+                block
+                cutColor={colors.panel}
+                loading={sending}
+                disabled={!canSend}
+                onPress={handleSend}
+              />
+            </View>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const makeStyles = (t: Theme) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0,0,0,0.6)',
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: 20,
+    },
+    panel: {
+      width: '100%',
+      maxWidth: 460,
+      backgroundColor: t.colors.panel,
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      borderLeftWidth: 3,
+      borderLeftColor: t.colors.gold,
+      overflow: 'hidden',
+    },
+    header: { padding: 16, paddingBottom: 10 },
+    kicker: {
+      fontFamily: 'serif',
+      fontStyle: 'italic',
+      fontSize: 10,
+      letterSpacing: 2.8,
+      color: t.colors.gold,
+      textTransform: 'uppercase',
+    },
+    title: {
+      marginTop: 4,
+      fontFamily: 'sans-serif',
+      fontSize: 18,
+      fontWeight: '900',
+      textTransform: 'uppercase',
+      letterSpacing: 1.2,
+      color: t.colors.text,
+    },
+    divider: { height: 1, backgroundColor: t.colors.border },
+    emptyText: {
+      fontSize: 13,
+      color: t.colors.textMuted,
+      fontStyle: 'italic',
+      textAlign: 'center',
+    },
+    chip: {
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      backgroundColor: t.colors.bgElev,
+    },
+    chipText: { fontSize: 12, color: t.colors.textMuted, fontWeight: '700' },
+    tabs: {
+      flexDirection: 'row',
+      borderBottomWidth: 1,
+      borderBottomColor: t.colors.border,
+    },
+    tab: {
+      flex: 1,
+      paddingVertical: 10,
+      alignItems: 'center',
+      borderBottomWidth: 2,
+      borderBottomColor: 'transparent',
+    },
+    tabActive: { borderBottomColor: t.colors.gold },
+    tabText: {
+      fontSize: 11,
+      color: t.colors.textMuted,
+      letterSpacing: 1.2,
+      textTransform: 'uppercase',
+      fontWeight: '600',
+    },
+    tabTextActive: { color: t.colors.gold, fontWeight: '700' },
+    cardRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      padding: 8,
+      backgroundColor: t.colors.bgElev,
+      borderWidth: 1,
+      borderColor: t.colors.border,
+    },
+    cardName: { fontSize: 13, fontWeight: '700', color: t.colors.text },
+    cardMeta: { marginTop: 2, fontSize: 11, color: t.colors.textMuted },
+    stepBtn: {
+      width: 28,
+      height: 28,
+      alignItems: 'center',
+      justifyContent: 'center',
+      borderWidth: 1,
+      borderColor: t.colors.border,
+    },
+    stepText: { fontSize: 16, color: t.colors.text, fontWeight: '700' },
+    stepValue: { minWidth: 18, textAlign: 'center', color: t.colors.text, fontWeight: '700' },
+    balance: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      borderTopWidth: 1,
+      borderTopColor: t.colors.border,
+    },
+    balanceText: { fontSize: 12, color: t.colors.textMuted },
+    balanceDiff: { fontSize: 14, fontWeight: '900' },
+    input: {
+      marginHorizontal: 12,
+      marginBottom: 4,
+      paddingHorizontal: 10,
+      paddingVertical: 8,
+      borderWidth: 1,
+      borderColor: t.colors.border,
+      backgroundColor: t.colors.bgElev,
+      color: t.colors.text,
+      fontSize: 13,
+    },
+    footer: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+      padding: 12,
+      borderTopWidth: 1,
+      borderTopColor: t.colors.border,
+    },
+    cancelBtn: { paddingHorizontal: 14, paddingVertical: 14 },
+    cancelText: {
+      fontFamily: 'sans-serif',
+      fontSize: 11,
+      letterSpacing: 1.6,
+      textTransform: 'uppercase',
+      color: t.colors.textMuted,
+      fontWeight: '700',
+    },
+  });
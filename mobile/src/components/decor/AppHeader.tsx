@@ -1,15 +1,17 @@
-import { memo } from 'react';
+import { memo, useCallback, useEffect, useState } from 'react';
 import { View, Text, Image, Pressable, StyleSheet } from 'react-native';
-import { useRouter } from 'expo-router';
+import { useRouter, useFocusEffect } from 'expo-router';
 import { useAppTheme } from '@/theme/ThemeContext';
 import { useAuth } from '@/context/AuthContext';
+import { notificationApi } from '@/services/notificationApi';
 
 const CORNER = require('@/assets/images/decor/corner.png');
 const BELL = require('@/assets/images/ui/i-bell.png');
 
 /**
  * Header sticky global — Sanctuaire du Millénium.
- * Logo Millennium doré animé + Keit·LAND wordmark, notifications avec dot magenta,
+ * Logo Millennium doré animé + Keit·LAND wordmark, cloche vers `/notifications`
+ * avec dot magenta tant qu'il reste des non-lues,
  * avatar hexagonal dégradé violet→or avec initiales.
  * Sous le header, 2 ornements de coin ancrent le début du contenu.
  */
@@ -23,6 +25,23 @@ function AppHeaderBase({ onPressAvatar }: { onPressAvatar?: () => void }) {
   // elle-même on veut peut-être ouvrir un menu déconnexion).
   const handleAvatarPress = onPressAvatar || (() => router.push('/(tabs)/profile'));
 
+  // Compteur rechargé à chaque focus (retour de l'écran notifications),
+  // incrémenté en direct par le socket entre-temps.
+  const [unread, setUnread] = useState(0);
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) return;
+      notificationApi
+        .unreadCount()
+        .then(setUnread)
+        .catch(() => undefined);
+    }, [user])
+  );
+  useEffect(() => {
+    if (!user) return;
+    return notificationApi.subscribe(() => setUnread((n) => n + 1));
+  }, [user]);
+
   return (
     <View>
       <View style={[styles.wrap, { backgroundColor: colors.bgElev, borderBottomColor: colors.border }]}>
@@ -37,13 +56,15 @@ function AppHeaderBase({ onPressAvatar }: { onPressAvatar?: () => void }) {
         {/* Actions droite */}
         <View style={styles.actions}>
           <Pressable
+            onPress={() => router.push('/notifications' as any)}
+            accessibilityLabel="Notifications"
             style={[styles.iconBtn, { borderColor: colors.border }]}>
             <Image
               source={BELL}
               style={{ width: 16, height: 16, tintColor: colors.textMuted }}
               resizeMode="contain"
             />
-            <View style={[styles.dot, { backgroundColor: colors.magenta }]} />
+            {unread > 0 && <View style={[styles.dot, { backgroundColor: colors.magenta }]} />}
           </Pressable>
           <Pressable
             onPress={handleAvatarPress}
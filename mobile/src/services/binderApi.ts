@@ -0,0 +1,18 @@
+import api from '@/services/api';
+import type { BinderMatch, TradeBinder } from '@/types';
+
+/**
+ * Classeur d'échange (haves / wants) — miroir de `client/src/services/binderApi.ts`,
+ * limité à la consultation : la gestion se fait depuis le web.
+ */
+export const binderApi = {
+  getMine: () => api.get<{ binder: TradeBinder }>('/binder/me').then((r) => r.data.binder),
+
+  getForUser: (userId: number) =>
+    api.get<{ binder: TradeBinder }>(`/binder/${userId}`).then((r) => r.data.binder),
+
+  getMatches: () =>
+    api.get<{ matches: BinderMatch[] }>('/binder/matches').then((r) => r.data.matches),
+};
+
+export default binderApi;
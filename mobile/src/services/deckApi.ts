@@ -1,8 +1,12 @@
 import api from '@/services/api';
+import { API_URL } from '@/config';
 import type {
   AIStatus,
   Deck,
   DeckComment,
+  DeckConsistency,
+  DeckConsistencySample,
+  DeckSidePlans,
   DeckStats,
   DeckValidation,
   PaginatedResponse,
@@ -70,12 +74,51 @@ export const deckApi = {
   clearCards: (deckId: number) =>
     api.delete(`/decks/${deckId}/cards`).then((r) => r.data),
 
+  // ── Import / export .ydk · ydke://
+  /** Remplace le contenu du deck par la liste collée (fichier .ydk ou URL ydke://). */
+  importList: (deckId: number, content: string) =>
+    api
+      .post<{
+        main_count: number;
+        extra_count: number;
+        side_count: number;
+        unknown: number[];
+      }>(`/decks/${deckId}/import`, { content })
+      .then((r) => r.data),
+
+  exportList: (deckId: number) =>
+    api
+      .get<{ url: string }>(`/decks/${deckId}/export`, { params: { format: 'ydke' } })
+      .then((r) => r.data),
+
+  // ── Consistance (rôles des cartes, mains de départ)
+  consistency: (deckId: number) =>
+    api.get<DeckConsistency>(`/decks/${deckId}/consistency`).then((r) => r.data),
+
+  /** Contre-épreuve Monte-Carlo ; un même `seed` redonne les mêmes mains. */
+  sampleConsistency: (deckId: number, params: { trials?: number; seed?: number } = {}) =>
+    api
+      .get<DeckConsistencySample>(`/decks/${deckId}/consistency/sample`, { params })
+      .then((r) => r.data),
+
+  // ── Plans de side par matchup (propriétaire seulement)
+  sidePlans: (deckId: number) =>
+    api.get<DeckSidePlans>(`/decks/${deckId}/side-plans`).then((r) => r.data),
+
   // ── Share
+  /** Le back répond `{ message, share_token }` : `shareToken` restait undefined. */
   generateShare: (id: number) =>
     api
-      .post<{ shareToken: string; shareUrl?: string }>(`/decks/${id}/share`)
+      .post<{ message: string; share_token: string }>(`/decks/${id}/share`)
       .then((r) => r.data),
 
+  /**
+   * Lien à partager : la page d'aperçu porte les balises Open Graph (titre,
+   * image du deck) puis redirige vers le deck partagé sur le web.
+   */
+  sharePreviewUrl: (shareToken: string) =>
+    `${API_URL}/api/decks/shared/${encodeURIComponent(shareToken)}/preview`,
+
   removeShare: (id: number) =>
     api.delete(`/decks/${id}/share`).then((r) => r.data),
 
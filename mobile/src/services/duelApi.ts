@@ -1,5 +1,13 @@
 import api from '@/services/api';
-import type { Duel, DuelAction, DuelStatus } from '@/types';
+import type {
+  Duel,
+  DuelAction,
+  DuelBotPolicyId,
+  DuelBotPolicyInfo,
+  DuelMatch,
+  DuelPuzzle,
+  DuelStatus,
+} from '@/types';
 
 /**
  * Wrappers HTTP pour /api/duels cote mobile.
@@ -17,6 +25,39 @@ export const duelApi = {
     challenger_deck_id?: number;
   }) => api.post<{ duel: Duel }>('/duels', payload).then((r) => r.data),
 
+  // ── Duel contre le bot (migration 033) ─────────────────────────────────
+  challengeBot: (payload: {
+    deck_id: number;
+    /** L'un de mes decks ou un deck public. */
+    bot_deck_id: number;
+    policy?: DuelBotPolicyId;
+    /** Absent : premier joueur tire au sort. */
+    go_first?: boolean;
+  }) => api.post<{ duel: Duel }>('/duels/bot', payload).then((r) => r.data.duel),
+
+  // ── Labo de combos (migration 034) ─────────────────────────────────────
+  startGoldfish: (payload: {
+    /** L'un de mes decks ou un deck public. */
+    deck_id: number;
+    go_first?: boolean;
+    /** Passcodes à piocher en premier, dans l'ordre. */
+    opening_hand?: number[];
+    /** Fixe le mélange du reste du deck : même graine, même tirage. */
+    seed?: number;
+  }) => api.post<{ duel: Duel }>('/duels/goldfish', payload).then((r) => r.data.duel),
+
+  // ── Puzzles (migration 035) ────────────────────────────────────────────
+  listPuzzles: () =>
+    api.get<{ puzzles: DuelPuzzle[] }>('/duels/puzzles').then((r) => r.data.puzzles),
+
+  startPuzzle: (puzzleId: number) =>
+    api.post<{ duel: Duel }>(`/duels/puzzles/${puzzleId}/start`).then((r) => r.data.duel),
+
+  botPolicies: () =>
+    api
+      .get<{ policies: DuelBotPolicyInfo[] }>('/duels/bot/policies')
+      .then((r) => r.data.policies),
+
   listMine: (status?: DuelStatus) =>
     api
       .get<{ duels: Duel[] }>('/duels', { params: status ? { status } : {} })
@@ -48,6 +89,20 @@ export const duelApi = {
     api
       .post<{ duel: Duel; bothReady: boolean }>(`/duels/${id}/ready`)
       .then((r) => r.data),
+
+  // ── Matchs Bo3 (migration 012) : sideboard entre deux manches ──────────
+  getMatch: (matchId: number) =>
+    api
+      .get<{ match: DuelMatch; submittedBy: number[] }>(`/duels/matches/${matchId}`)
+      .then((r) => r.data),
+
+  submitSideDeck: (matchId: number, payload: { main: number[]; extra: number[]; side: number[] }) =>
+    api.post(`/duels/matches/${matchId}/side-deck/submit`, payload).then((r) => r.data),
+
+  nextGame: (matchId: number) =>
+    api
+      .post<{ duelId: number; gameNumber: number }>(`/duels/matches/${matchId}/next-game`)
+      .then((r) => r.data),
 };
 
 export default duelApi;
@@ -1,8 +1,11 @@
 import api from '@/services/api';
 import socketService from '@/services/socket';
 import type {
+  DeckComboLine,
   DuelChoice,
+  DuelLabHistory,
   DuelPreGameState,
+  DuelReplay,
   DuelStateResponse,
 } from '@/types';
 
@@ -83,6 +86,24 @@ export const duelEngineApi = {
       .get<{ state: DuelStateResponse }>(`/duels/${duelId}/engine/spectate`)
       .then((r) => r.data.state),
 
+  /** Partie finie rejouée par le moteur, une image par décision. */
+  replay: (duelId: number): Promise<DuelReplay> =>
+    api.get<DuelReplay>(`/duels/${duelId}/replay`).then((r) => r.data),
+
+  /** Labo de combos : mes décisions depuis le début, pour y revenir. */
+  labHistory: (duelId: number): Promise<DuelLabHistory> =>
+    api.get<DuelLabHistory>(`/duels/${duelId}/engine/lab`).then((r) => r.data),
+
+  /** Labo de combos : revient avant la décision `seq` (par défaut la dernière). */
+  labUndo: (duelId: number, seq?: number): Promise<DuelStateResponse> =>
+    api.post<DuelStateResponse>(`/duels/${duelId}/engine/lab/undo`, { seq }).then((r) => r.data),
+
+  /** Labo de combos : enregistre la partie comme ligne du deck. */
+  saveLabLine: (duelId: number, name: string): Promise<DeckComboLine> =>
+    api
+      .post<{ line: DeckComboLine }>(`/duels/${duelId}/engine/lab/lines`, { name })
+      .then((r) => r.data.line),
+
   /**
    * ANNOUNCE_CARD — recherche typeahead filtrée par les opcodes moteur.
    * Le serveur ne renvoie que des cartes que le moteur acceptera.
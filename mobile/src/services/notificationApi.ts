@@ -0,0 +1,84 @@
+import api from '@/services/api';
+import socketService from '@/services/socket';
+import type { Notification } from '@/types';
+
+/**
+ * Notifications — miroir mobile de `client/src/context/NotificationContext.tsx`,
+ * sans contexte global : la cloche du header et l'écran `/notifications`
+ * interrogent l'API et écoutent l'événement socket `notification`.
+ */
+export const notificationApi = {
+  list: () =>
+    api
+      .get<{ notifications: Notification[]; unread_count: number }>('/notifications', {
+        params: { limit: 50 },
+      })
+      .then((r) => r.data),
+
+  /** Pastille de la cloche : la liste renvoie le compteur, une ligne suffit. */
+  unreadCount: () =>
+    api
+      .get<{ unread_count: number }>('/notifications', { params: { limit: 1 } })
+      .then((r) => r.data.unread_count),
+
+  markAsRead: (id: number) => api.put(`/notifications/${id}/read`),
+
+  markAllAsRead: () => api.put('/notifications/read-all'),
+
+  /** Désabonnement à appeler dans le cleanup ; noop si le socket est indisponible. */
+  subscribe: (onNew: (notification: Notification) => void): (() => void) => {
+    let attached: ReturnType<typeof socketService.getSocket> = null;
+    let cancelled = false;
+
+    void socketService.connect().then((socket) => {
+      if (cancelled || !socket) return;
+      attached = socket;
+      socket.on('notification', onNew);
+    });
+
+    return () => {
+      cancelled = true;
+      attached?.off('notification', onNew);
+    };
+  },
+};
+
+/** Libellé d'une notification — mêmes formulations que le web. */
+export function notificationMessage(notification: Notification): string {
+  const username = notification.from_user?.username || "Quelqu'un";
+  const deckName = notification.deck?.name || 'votre deck';
+  switch (notification.type) {
+    case 'follow':
+      return `${username} vous suit maintenant`;
+    case 'like':
+      return `${username} a aimé ${deckName}`;
+    case 'dislike':
+      return `${username} n'a pas aimé ${deckName}`;
+    case 'comment':
+      return `${username} a commenté ${deckName}`;
+    case 'reply':
+      return `${username} a répondu à votre commentaire`;
+    case 'trade_offer':
+      return `${username} vous propose un échange`;
+    case 'trade_counter':
+      return `${username} a fait une contre-offre`;
+    case 'trade_accepted':
+      return `${username} a accepté votre échange`;
+    case 'trade_declined':
+      return `${username} a refusé votre échange`;
+    case 'trade_cancelled':
+      return `${username} a annulé son offre d'échange`;
+    case 'price_alert': {
+      const price = (notification.price_eur ?? 0).toLocaleString('fr-FR', {
+        style: 'currency',
+        currency: 'EUR',
+        maximumFractionDigits: 2,
+      });
+      return `${notification.card?.name || 'Une carte recherchée'} est passée à ${price} sur Cardmarket`;
+    }
+    default:
+      return 'Nouvelle notification';
+  }
+}
+
+export default notificationApi;
@@ -1,5 +1,5 @@
 import api from '@/services/api';
-import type { Deck, DeckUser, PaginatedResponse } from '@/types';
+import type { Deck, DeckFacet, DeckUser, PaginatedResponse, PublicDeckSort } from '@/types';
 
 /**
  * Types renvoyés par les endpoints /social/* et /auth/users/*.
@@ -48,9 +48,23 @@ export interface WishlistItem {
 
 export const socialApi = {
   // ── Feed decks publics — on réutilise l'endpoint /decks/public existant.
-  //    Le tri (popular / recent / following) se fait côté client faute d'endpoint
-  //    dédié. Le filtre by user_id est supporté par le back (deckController#getPublicDecks).
-  feed: (params: { page?: number; limit?: number; search?: string; user_id?: number } = {}) =>
+  //    Tri, filtres user_id / archetype / tag / cartes / collection faits par le
+  //    back (deckController#getPublicDecks) ; seul « Suivis » reste côté client.
+  feed: (
+    params: {
+      page?: number;
+      limit?: number;
+      search?: string;
+      user_id?: number;
+      archetype?: string;
+      tag?: string;
+      include?: string;
+      exclude?: string;
+      min_owned?: number;
+      max_missing_eur?: number;
+      sort?: PublicDeckSort;
+    } = {}
+  ) =>
     api
       .get<{ data: Deck[]; total: number; page: number; total_pages: number }>(
         '/decks/public',
@@ -58,6 +72,12 @@ export const socialApi = {
       )
       .then((r) => r.data),
 
+  /** Archétypes et tags les plus présents parmi les decks publics. */
+  facets: () =>
+    api
+      .get<{ archetypes: DeckFacet[]; tags: DeckFacet[] }>('/decks/archetypes')
+      .then((r) => r.data),
+
   // ── Users
   searchUsers: (q?: string) =>
     api
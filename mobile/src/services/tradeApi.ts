@@ -0,0 +1,54 @@
+import api from '@/services/api';
+import socketService from '@/services/socket';
+import type { DeckUser, Trade, TradeOfferLine, TradeableCard } from '@/types';
+
+/**
+ * Échanges entre abonnés mutuels — miroir de `client/src/services/tradeApi.ts`.
+ * Le serveur pousse `trade:updated` aux deux participants à chaque changement.
+ */
+export const tradeApi = {
+  list: () => api.get<{ trades: Trade[] }>('/trades').then((r) => r.data.trades),
+
+  getPartners: () =>
+    api.get<{ partners: DeckUser[] }>('/trades/partners').then((r) => r.data.partners),
+
+  getCards: (userId: number) =>
+    api
+      .get<{ cards: TradeableCard[] }>(`/trades/partners/${userId}/cards`)
+      .then((r) => r.data.cards),
+
+  create: (body: {
+    recipient_id: number;
+    offered: TradeOfferLine[];
+    requested: TradeOfferLine[];
+    message?: string;
+  }) => api.post<{ trade: Trade }>('/trades', body).then((r) => r.data.trade),
+
+  counter: (
+    tradeId: number,
+    body: { offered: TradeOfferLine[]; requested: TradeOfferLine[]; message?: string }
+  ) => api.post<{ trade: Trade }>(`/trades/${tradeId}/counter`, body).then((r) => r.data.trade),
+
+  respond: (tradeId: number, action: 'accept' | 'decline' | 'cancel') =>
+    api.post<{ trade: Trade }>(`/trades/${tradeId}/${action}`).then((r) => r.data.trade),
+
+  /** Désabonnement à appeler dans le cleanup ; noop si le socket est indisponible. */
+  subscribe: (onUpdated: (trade: Trade) => void): (() => void) => {
+    let attached: ReturnType<typeof socketService.getSocket> = null;
+    let cancelled = false;
+    const handler = (data: { trade: Trade }) => onUpdated(data.trade);
+
+    void socketService.connect().then((socket) => {
+      if (cancelled || !socket) return;
+      attached = socket;
+      socket.on('trade:updated', handler);
+    });
+
+    return () => {
+      cancelled = true;
+      attached?.off('trade:updated', handler);
+    };
+  },
+};
+
+export default tradeApi;
@@ -4,6 +4,10 @@
 
 export type CardLanguage = 'EN' | 'FR' | 'DE' | 'IT' | 'PT' | 'SP' | 'JP' | 'KR';
 
+/** État d'une carte, échelle Cardmarket (Mint → Poor). */
+export type CardCondition = 'MT' | 'NM' | 'EX' | 'GD' | 'LP' | 'PL' | 'PO';
+export type CardEdition = '1st' | 'unlimited' | 'limited';
+
 export interface CardImage {
   id: number;
   image_url: string;
@@ -37,6 +41,9 @@ export interface CollectionStats {
   recent_added_30d: number;
   rarities: string[];
   rarity_counts: Record<string, number>;
+  cost_basis_eur: number;
+  unrealized_gain_eur: number;
+  cost_basis_cards: number;
 }
 
 export interface DeckStats {
@@ -91,6 +98,11 @@ export interface UserCard {
   set_code: string;
   rarity: string;
   language: CardLanguage;
+  condition: CardCondition;
+  edition: CardEdition;
+  purchase_price_eur?: number | null;
+  purchase_date?: string | null; // YYYY-MM-DD
+  notes?: string | null;
   quantity: number;
   created_at: string;
   updated_at: string;
@@ -208,6 +220,7 @@ export interface DeckCard {
   card_id: number;
   quantity: number;
   is_extra_deck: boolean;
+  is_side_deck?: boolean;
   card?: Card;
 }
 
@@ -225,11 +238,128 @@ export interface Deck {
   user?: DeckUser;
   main_deck?: DeckCard[];
   extra_deck?: DeckCard[];
+  side_deck?: DeckCard[];
+  /** Monté physiquement (migration 021) : ses cartes sont réservées dans la collection. */
+  is_built?: boolean;
   likes_count?: number;
   dislikes_count?: number;
   comments_count?: number;
   user_reaction?: 'like' | 'dislike' | null;
   is_wishlisted?: boolean;
+  /** Archétypes dominants, détectés à chaque sauvegarde (migration 029). */
+  archetypes?: string[];
+  archetype_split?: DeckArchetypeShare[];
+  /** Tags libres du propriétaire, en minuscules. */
+  tags?: string[];
+  /** Feed public, connecté : part du deck déjà en collection (0-100). */
+  completion?: number;
+  /** Feed public, connecté : coût des cartes manquantes en euros. */
+  missing_value_eur?: number;
+}
+
+/** Tri de GET /decks/public ; `completion` : les plus proches de la collection d'abord. */
+export type PublicDeckSort = 'recent' | 'likes' | 'completion';
+
+export interface DeckArchetypeShare {
+  name: string;
+  copies: number;
+  share: number;
+}
+
+/** Archétype ou tag avec son nombre de decks publics (filtres du feed). */
+export interface DeckFacet {
+  name: string;
+  count: number;
+}
+
+/** Rôle d'une carte du Main pour le calcul de consistance (migration 030). */
+export type DeckCardRole = 'starter' | 'extender' | 'handtrap' | 'brick';
+
+export interface DeckCardRoles {
+  card_id: number;
+  roles: DeckCardRole[];
+}
+
+export interface DeckRoleRequirement {
+  role: DeckCardRole;
+  min?: number;
+  max?: number;
+}
+
+export interface DeckConsistencyScenario {
+  label: string;
+  requirements: DeckRoleRequirement[];
+}
+
+/** Probabilité d'ouvrir le scénario : 5 cartes en premier, 6 en second. */
+export interface DeckConsistencyResult {
+  label: string;
+  going_first: number;
+  going_second: number;
+}
+
+export interface DeckConsistency {
+  deck_id: number;
+  deck_size: number;
+  roles: DeckCardRoles[];
+  role_counts: Record<DeckCardRole, number>;
+  scenarios: DeckConsistencyScenario[];
+  default_scenarios: boolean;
+  results: DeckConsistencyResult[];
+}
+
+export interface DeckSampleHand {
+  going_first: boolean;
+  cards: Array<{ card_id: number; name: string; roles: DeckCardRole[] }>;
+}
+
+export interface DeckConsistencySample {
+  trials: number;
+  seed: number;
+  results: DeckConsistencyResult[];
+  hands: DeckSampleHand[];
+}
+
+// ─── Plans de side (matchups) ───────────────────────────────
+
+export interface DeckSidePlanMove {
+  card_id: number;
+  quantity: number;
+}
+
+/** « vs Snake-Eye : -2 X, +2 Y » — appliqué au deck enregistré. */
+export interface DeckSidePlan {
+  name: string;
+  /** Sortis du Main ou de l'Extra vers le Side. */
+  out: DeckSidePlanMove[];
+  /** Entrés depuis le Side. */
+  in: DeckSidePlanMove[];
+}
+
+export interface DeckSidePlanStatus extends DeckSidePlan {
+  /** Vide si le plan s'applique au deck actuel. */
+  problems: string[];
+}
+
+export interface DeckSidePlans {
+  deck_id: number;
+  plans: DeckSidePlanStatus[];
+}
+
+// ─── Lignes de combo (labo goldfish) ────────────────────────
+
+/** Une ligne enregistrée depuis le labo : de quoi rejouer la partie à l'identique. */
+export interface DeckComboLine {
+  id: number;
+  deck_id: number;
+  user: { id: number; username: string };
+  name: string;
+  go_first: boolean;
+  /** Main choisie (passcodes) ; vide = tirage à la graine. */
+  opening_hand: number[];
+  /** Décisions du joueur dans la ligne, celles du goldfish non comptées. */
+  decisions: number;
+  created_at: string;
 }
 
 export interface DeckComment {
@@ -245,10 +375,30 @@ export interface DeckComment {
   replies_count?: number;
 }
 
+export type DeckSection = 'main' | 'extra' | 'side';
+export type DeckRule = 'banlist' | 'copies' | 'section';
+export type BanStatus = 'Forbidden' | 'Limited' | 'Semi-Limited' | 'Unlimited';
+
+/** Carte hors règles (miroir de shared/types). section null = tout le deck. */
+export interface DeckLegalityViolation {
+  card_code: string;
+  card_name: string;
+  section: DeckSection | null;
+  rule: DeckRule;
+  status: BanStatus | null;
+  count: number;
+  limit: number;
+  reason: string;
+}
+
 export interface DeckValidation {
-  isValid: boolean;
+  valid: boolean;
   errors: string[];
   warnings?: string[];
+  mainDeckCount?: number;
+  extraDeckCount?: number;
+  sideDeckCount?: number;
+  violations?: DeckLegalityViolation[];
 }
 
 export interface AIStatus {
@@ -334,6 +484,32 @@ export interface Duel {
   // Salle d'attente pré-coin-flip (migration 014)
   challenger_ready?: boolean;
   opponent_ready?: boolean;
+  // Adversaire automatique (migration 033) — null entre humains
+  bot_policy?: DuelBotPolicyId | null;
+  // Labo de combos (migration 034) — adversaire passif, annulation permise
+  goldfish?: boolean;
+  opening_hand?: number[] | null;
+  // Puzzle (migration 035) — plateaux posés, gagner pendant le tour 1
+  puzzle_id?: number | null;
+}
+
+export type DuelMatchStatus = 'pending' | 'active' | 'sideboard' | 'finished' | 'cancelled';
+
+/** Match Bo1/Bo2/Bo3 — chapeau qui regroupe 1 à 3 duels (manches). */
+export interface DuelMatch {
+  id: number;
+  challenger_id: number;
+  opponent_id: number;
+  challenger?: DeckUser;
+  opponent?: DeckUser;
+  best_of: 1 | 2 | 3;
+  status: DuelMatchStatus;
+  challenger_wins: number;
+  opponent_wins: number;
+  winner_id?: number | null;
+  created_at: string;
+  finished_at?: string | null;
+  games?: Array<{ id: number; game_number: number; status: DuelStatus; winner_id?: number | null }>;
 }
 
 // ─── Duel moteur (miroir de shared/duelView.ts) ────────────────────────
@@ -511,6 +687,81 @@ export interface DuelStateResponse {
   animations?: DuelAnimationEvent[];
   clocks?: DuelClocks;
 }
+
+/** Rejeu d'une partie finie — miroir de `shared/duelView.ts`. */
+export interface DuelReplayDecision {
+  seat: DuelSeat;
+  prompt: string;
+  choice: string[];
+}
+export interface DuelReplayFrame {
+  index: number;
+  /** Plateau public, vu du siège 0. */
+  board: DuelBoardView;
+  /** Mains des sièges 0 et 1, à ne montrer qu'à la demande. */
+  hands: [DuelCardView[], DuelCardView[]];
+  log: DuelLogEntry[];
+  decision?: DuelReplayDecision;
+}
+export interface DuelReplay {
+  duelId: number;
+  players: [{ id: number; username: string }, { id: number; username: string }];
+  frames: DuelReplayFrame[];
+  turns: Array<{ turn: number; frame: number }>;
+  winner: DuelSeat | null;
+  winReason?: string;
+  complete: boolean;
+  error?: string;
+}
+/** Politiques de jeu du bot (écran « Affronter le bot ») ; 'pass' = goldfish du labo. */
+export type DuelBotPolicyId = 'rules' | 'random' | 'pass';
+export interface DuelBotPolicyInfo {
+  id: DuelBotPolicyId;
+  label: string;
+  description: string;
+}
+/** Une décision du joueur dans le labo de combos, à laquelle on peut revenir. */
+export interface DuelLabDecision {
+  seq: number;
+  turn: number;
+  prompt: string;
+  choice: string[];
+}
+export interface DuelLabHistory {
+  duelId: number;
+  decisions: DuelLabDecision[];
+}
+/** Puzzle : deux plateaux posés, un objectif (cf. shared/duelView.ts). */
+export type DuelPuzzleGoal = 'win_this_turn';
+export interface DuelPuzzleCard {
+  code: number;
+  position?: 'attack' | 'defense' | 'set';
+}
+export interface DuelPuzzleSide {
+  lp: number;
+  hand: number[];
+  deck: number[];
+  extra: number[];
+  monsters: Array<DuelPuzzleCard | null>;
+  spells: Array<DuelPuzzleCard | null>;
+  graveyard: number[];
+  banished: number[];
+}
+export interface DuelPuzzleSetup {
+  goal: DuelPuzzleGoal;
+  player: DuelPuzzleSide;
+  opponent: DuelPuzzleSide;
+}
+export interface DuelPuzzle {
+  id: number;
+  title: string;
+  description: string;
+  difficulty: number;
+  setup: DuelPuzzleSetup;
+  createdAt: string;
+  updatedAt: string;
+  progress?: { attempts: number; solvedAt: string | null };
+}
 export interface DuelPreGameState {
   phase: DuelPreGamePhase;
   playersReady: number[];
@@ -574,3 +825,126 @@ export interface NewsTopicMeta {
   description: string;
   subscribed: boolean;
 }
+
+// ─── Trade types ───────────────────────────────────────
+
+export type TradeStatus = 'pending' | 'accepted' | 'declined' | 'cancelled' | 'countered';
+
+export interface TradeItem {
+  id: number;
+  trade_id: number;
+  from_user_id: number;
+  card_id: number;
+  set_code: string;
+  rarity: string;
+  language: CardLanguage;
+  condition: CardCondition;
+  edition: CardEdition;
+  quantity: number;
+  name: string;
+  image_url_small?: string;
+  unit_price_eur: number | null;
+}
+
+export interface TradeBalance {
+  proposer_gives_eur: number;
+  recipient_gives_eur: number;
+  /** recipient_gives - proposer_gives : positif = l'offre avantage le proposant. */
+  difference_eur: number;
+  unpriced_cards: number;
+}
+
+export interface Trade {
+  id: number;
+  proposer_id: number;
+  recipient_id: number;
+  status: TradeStatus;
+  parent_id: number | null;
+  message: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+  proposer?: DeckUser;
+  recipient?: DeckUser;
+  items: TradeItem[];
+  balance: TradeBalance;
+}
+
+export interface TradeOfferLine {
+  user_card_id: number;
+  quantity: number;
+}
+
+export interface TradeableCard {
+  user_card_id: number;
+  card_id: number;
+  name: string;
+  image_url_small?: string;
+  set_code: string;
+  rarity: string;
+  language: CardLanguage;
+  condition: CardCondition;
+  edition: CardEdition;
+  quantity: number;
+  for_trade: number;
+  unit_price_eur: number | null;
+}
+
+// ─── Classeur d'échange ────────────────────────────────────────
+
+export interface WantListEntry {
+  card_id: number;
+  name: string;
+  image_url_small?: string;
+  quantity: number;
+  unit_price_eur: number | null;
+  target_price_eur: number | null;
+  alerted_price_eur: number | null;
+  created_at: string;
+}
+
+export interface TradeBinder {
+  user_id: number;
+  haves: TradeableCard[];
+  wants: WantListEntry[];
+}
+
+export interface BinderMatch {
+  user: DeckUser;
+  is_mutual: boolean;
+  they_have: TradeableCard[];
+  they_want: TradeableCard[];
+}
+
+// ─── Notifications ─────────────────────────────────────────────
+
+export type NotificationType =
+  | 'follow'
+  | 'like'
+  | 'dislike'
+  | 'comment'
+  | 'reply'
+  | 'trade_offer'
+  | 'trade_counter'
+  | 'trade_accepted'
+  | 'trade_declined'
+  | 'trade_cancelled'
+  | 'price_alert';
+
+export interface Notification {
+  id: number;
+  user_id: number;
+  type: NotificationType;
+  from_user_id?: number;
+  deck_id?: number;
+  comment_id?: number;
+  trade_id?: number;
+  /** `price_alert` : carte de la liste de recherche et prix relevé. */
+  card_id?: number;
+  price_eur?: number;
+  card?: { id: number; name: string; image_url_small?: string };
+  is_read: boolean;
+  created_at: string;
+  from_user?: DeckUser;
+  deck?: { id: number; name: string; cover_image?: string };
+}
@@ -0,0 +1,35 @@
+/**
+ * Recalcule les archétypes de tous les decks (`decks.archetypes` et
+ * `decks.archetype_split`). Les sauvegardes le font au fil de l'eau ; ce
+ * script sert après la migration 029 et après un `duel:assets` qui apporte
+ * de nouveaux setcodes.
+ *
+ *     npm run decks:retag
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+dotenv.config({ path: path.resolve(__dirname, '../.env') });
+
+import { query } from '../src/config/database';
+import { DeckTagModel } from '../src/models/deckTagModel';
+
+async function main() {
+  const decks = await query(`SELECT id, name FROM decks ORDER BY id`);
+  console.log(`\n=== Archétypes de ${decks.rows.length} deck(s) ===\n`);
+
+  let tagged = 0;
+  for (const deck of decks.rows) {
+    const archetypes = await DeckTagModel.refreshArchetypes(deck.id);
+    if (archetypes.length > 0) tagged++;
+    console.log(`#${deck.id} ${deck.name} : ${archetypes.join(', ') || '—'}`);
+  }
+
+  console.log(`\n=== ${tagged} deck(s) avec au moins un archétype ===\n`);
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error('Fatal :', err);
+  process.exit(1);
+});
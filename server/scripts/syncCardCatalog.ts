@@ -0,0 +1,47 @@
+/**
+ * Synchro manuelle du catalogue YGOProDeck vers le miroir local (`cards` +
+ * `card_printings`). Le cron quotidien d'index.ts fait la même chose ; ce
+ * script sert au premier remplissage et aux vérifications.
+ *
+ *     npm run cards:sync                 # synchro incrémentale
+ *     npm run cards:sync -- --dry-run    # compare sans rien écrire
+ *     npm run cards:sync -- --force      # ignore la version YGOProDeck inchangée
+ *
+ * A lancer après la migration 025.
+ */
+
+import dotenv from 'dotenv';
+import path from 'path';
+dotenv.config({ path: path.resolve(__dirname, '../.env') });
+
+import { syncCardCatalog } from '../src/services/cardCatalogService';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const force = args.includes('--force');
+
+  console.log(`\n=== Synchro du catalogue${dryRun ? ' (à blanc)' : ''} ===\n`);
+  const report = await syncCardCatalog({ dryRun, force });
+
+  if (report.skipped) {
+    console.log(`Version YGOProDeck ${report.db_version} déjà importée — rien à faire (--force pour relancer).\n`);
+    process.exit(0);
+  }
+
+  console.log(`Version YGOProDeck : ${report.previous_version ?? '—'} → ${report.db_version ?? '?'}`);
+  console.log(`${report.total} cartes reçues`);
+  console.log(`  ${report.inserted} nouvelle(s)`);
+  console.log(`  ${report.updated} modifiée(s)`);
+  console.log(`  ${report.unchanged} inchangée(s)`);
+  console.log(`  ${report.printings} impression(s) ${dryRun ? 'à écrire' : 'écrites'}`);
+  if (report.sample.inserted.length > 0) console.log(`\nNouvelles : ${report.sample.inserted.join(', ')}`);
+  if (report.sample.updated.length > 0) console.log(`Modifiées : ${report.sample.updated.join(', ')}`);
+  console.log(`\n=== Terminé en ${Math.round(report.duration_ms / 1000)} s ===\n`);
+  process.exit(0);
+}
+
+main().catch((err) => {
+  console.error('Fatal :', err);
+  process.exit(1);
+});
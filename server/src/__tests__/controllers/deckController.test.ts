@@ -8,11 +8,20 @@ import { Request, Response, NextFunction } from 'express';
 import { DeckController } from '../../controllers/deckController';
 import { DeckModel } from '../../models/deckModel';
 import { CardModel } from '../../models/cardModel';
+import { DeckVersionModel } from '../../models/deckVersionModel';
+import { DeckConsistencyModel } from '../../models/deckConsistencyModel';
+import { DeckSidePlanModel } from '../../models/deckSidePlanModel';
+import { BanlistModel } from '../../models/banlistModel';
 import { AuthRequest } from '../../middleware/authMiddleware';
 
 // Mock dependencies
 jest.mock('../../models/deckModel');
 jest.mock('../../models/cardModel');
+jest.mock('../../models/deckVersionModel');
+jest.mock('../../models/deckTagModel');
+jest.mock('../../models/deckConsistencyModel');
+jest.mock('../../models/deckSidePlanModel');
+jest.mock('../../models/banlistModel');
 jest.mock('../../utils/logger', () => ({
   loggers: {
     deck: {
@@ -26,6 +35,10 @@ jest.mock('../../utils/logger', () => ({
 
 const mockDeckModel = DeckModel as jest.Mocked<typeof DeckModel>;
 const mockCardModel = CardModel as jest.Mocked<typeof CardModel>;
+const mockDeckVersionModel = DeckVersionModel as jest.Mocked<typeof DeckVersionModel>;
+const mockDeckConsistencyModel = DeckConsistencyModel as jest.Mocked<typeof DeckConsistencyModel>;
+const mockDeckSidePlanModel = DeckSidePlanModel as jest.Mocked<typeof DeckSidePlanModel>;
+const mockBanlistModel = BanlistModel as jest.Mocked<typeof BanlistModel>;
 
 describe('DeckController', () => {
   // Mock Express objects
@@ -79,7 +92,7 @@ describe('DeckController', () => {
     archetype: 'Dark Magician',
     card_sets: [],
     card_images: [],
-    card_prices: {},
+    card_prices: [],
     banlist_info: {},
     created_at: new Date('2024-01-01'),
     updated_at: new Date('2024-01-01'),
@@ -318,7 +331,10 @@ describe('DeckController', () => {
       );
 
       expect(mockDeckModel.findById).toHaveBeenCalledWith(1, 1);
-      expect(mockResponse.json).toHaveBeenCalledWith({ deck: mockDeck });
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        deck: mockDeck,
+        stats: expect.objectContaining({ main_count: 0 }),
+      });
     });
 
     it('should fail with invalid deck ID', async () => {
@@ -381,7 +397,7 @@ describe('DeckController', () => {
         mockNext
       );
 
-      expect(mockResponse.json).toHaveBeenCalledWith({ deck: privateDeck });
+      expect(mockResponse.json).toHaveBeenCalledWith({ deck: privateDeck, stats: expect.any(Object) });
     });
   });
 
@@ -460,6 +476,28 @@ describe('DeckController', () => {
       }));
     });
 
+    it('should normalize tags', async () => {
+      mockRequest.params = { id: '1' };
+      mockRequest.body = { tags: ['#Budget', 'budget', '  Going  Second '] };
+      mockDeckModel.update.mockResolvedValue(mockDeck);
+
+      await DeckController.updateDeck(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      expect(mockDeckModel.update).toHaveBeenCalledWith(1, 1, { tags: ['budget', 'going second'] });
+    });
+
+    it('should reject too many tags', async () => {
+      mockRequest.params = { id: '1' };
+      mockRequest.body = { tags: Array.from({ length: 9 }, (_, i) => `tag${i}`) };
+
+      await DeckController.updateDeck(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      expect(mockDeckModel.update).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(expect.objectContaining({
+        message: 'tags must be a list of at most 8 tags of 30 characters',
+      }));
+    });
+
     it('should fail when deck not found or unauthorized', async () => {
       mockRequest.params = { id: '999' };
       mockRequest.body = { name: 'Test' };
@@ -758,6 +796,57 @@ describe('DeckController', () => {
     });
   });
 
+  describe('replaceDeckCards', () => {
+    it('should keep Side Deck cards in the Side Deck when saving and reading back', async () => {
+      // The model stores what it is given; getDeckById reads it back per section
+      let stored: Array<{ card_id: number; quantity: number; is_extra_deck: boolean; is_side_deck?: boolean }> = [];
+      mockDeckModel.replaceCards.mockImplementation(async (_deckId, _userId, entries) => {
+        stored = entries;
+        return { success: true };
+      });
+      mockDeckModel.findById.mockImplementation(async () => {
+        const toDeckCard = (e: (typeof stored)[number]) => ({
+          id: e.card_id,
+          deck_id: 1,
+          card_id: e.card_id,
+          quantity: e.quantity,
+          is_extra_deck: e.is_extra_deck,
+          is_side_deck: e.is_side_deck === true,
+          card: mockCard,
+          created_at: new Date(),
+        });
+        return {
+          ...mockDeck,
+          main_deck: stored.filter((e) => !e.is_extra_deck && !e.is_side_deck).map(toDeckCard),
+          extra_deck: stored.filter((e) => e.is_extra_deck).map(toDeckCard),
+          side_deck: stored.filter((e) => e.is_side_deck).map(toDeckCard),
+        } as any;
+      });
+
+      mockRequest.params = { id: '1' };
+      mockRequest.body = {
+        cards: [
+          { card_id: 1, quantity: 2, is_extra_deck: false, is_side_deck: false },
+          { card_id: 1, quantity: 1, is_extra_deck: false, is_side_deck: true },
+        ],
+      };
+      await DeckController.replaceDeckCards(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      expect(mockNext).not.toHaveBeenCalled();
+      expect(mockDeckModel.replaceCards).toHaveBeenCalledWith(1, 1, [
+        { card_id: 1, quantity: 2, is_extra_deck: false, is_side_deck: false },
+        { card_id: 1, quantity: 1, is_extra_deck: false, is_side_deck: true },
+      ]);
+
+      mockRequest.body = {};
+      await DeckController.getDeckById(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      const { deck } = (mockResponse.json as jest.Mock).mock.calls[1][0];
+      expect(deck.main_deck).toEqual([expect.objectContaining({ card_id: 1, quantity: 2 })]);
+      expect(deck.side_deck).toEqual([expect.objectContaining({ card_id: 1, quantity: 1 })]);
+    });
+  });
+
   describe('validateDeck', () => {
     it('should return valid deck validation', async () => {
       mockRequest.params = { id: '1' };
@@ -767,6 +856,9 @@ describe('DeckController', () => {
         errors: [],
         mainDeckCount: 40,
         extraDeckCount: 15,
+        sideDeckCount: 0,
+        violations: [],
+        banlist: null,
       });
 
       await DeckController.validateDeck(
@@ -775,12 +867,15 @@ describe('DeckController', () => {
         mockNext
       );
 
-      expect(mockDeckModel.validateDeck).toHaveBeenCalledWith(1);
+      expect(mockDeckModel.validateDeck).toHaveBeenCalledWith(1, undefined);
       expect(mockResponse.json).toHaveBeenCalledWith({
         valid: true,
         errors: [],
         mainDeckCount: 40,
         extraDeckCount: 15,
+        sideDeckCount: 0,
+        violations: [],
+        banlist: null,
       });
     });
 
@@ -792,6 +887,9 @@ describe('DeckController', () => {
         errors: ['Main Deck must have at least 40 cards'],
         mainDeckCount: 35,
         extraDeckCount: 10,
+        sideDeckCount: 0,
+        violations: [],
+        banlist: null,
       });
 
       await DeckController.validateDeck(
@@ -805,7 +903,82 @@ describe('DeckController', () => {
         errors: ['Main Deck must have at least 40 cards'],
         mainDeckCount: 35,
         extraDeckCount: 10,
+        sideDeckCount: 0,
+        violations: [],
+        banlist: null,
+      });
+    });
+
+    it('should pass the requested format to the model', async () => {
+      mockRequest.params = { id: '1' };
+      mockRequest.query = { format: 'goat' };
+
+      mockDeckModel.validateDeck.mockResolvedValue({
+        valid: false,
+        errors: ['Pot of Greed is Forbidden'],
+        mainDeckCount: 40,
+        extraDeckCount: 0,
+        sideDeckCount: 0,
+        violations: [
+          {
+            card_code: '55144522',
+            card_name: 'Pot of Greed',
+            section: null,
+            rule: 'banlist',
+            status: 'Forbidden',
+            count: 1,
+            limit: 0,
+            reason: 'Pot of Greed is Forbidden',
+          },
+        ],
+        banlist: { id: 3, name: 'GOAT' },
       });
+
+      await DeckController.validateDeck(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockDeckModel.validateDeck).toHaveBeenCalledWith(1, 'goat');
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({
+        banlist: { id: 3, name: 'GOAT' },
+      }));
+    });
+
+    it('should fail with a banlist id that matches no list', async () => {
+      mockRequest.params = { id: '1' };
+      mockRequest.query = { format: '999' };
+      mockBanlistModel.findById.mockResolvedValue(null);
+
+      await DeckController.validateDeck(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockBanlistModel.findById).toHaveBeenCalledWith(999);
+      expect(mockDeckModel.validateDeck).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(expect.objectContaining({
+        message: 'Banlist not found',
+        statusCode: 404,
+      }));
+    });
+
+    it('should fail with an unknown format', async () => {
+      mockRequest.params = { id: '1' };
+      mockRequest.query = { format: 'edison' };
+
+      await DeckController.validateDeck(
+        mockRequest as Request,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockDeckModel.validateDeck).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(expect.objectContaining({
+        message: 'Invalid format (banlist id, tcg, ocg or goat)',
+      }));
     });
 
     it('should fail with invalid deck ID', async () => {
@@ -877,5 +1050,411 @@ describe('DeckController', () => {
         expect.any(Number)
       );
     });
+
+    it('should parse card and collection filters', async () => {
+      mockRequest.query = { include: '14558127,97268402', exclude: '23434538', min_owned: '75', sort: 'completion' };
+      mockDeckModel.searchPublicDecks.mockResolvedValue({ data: [], total: 0, page: 1, limit: 20, total_pages: 0 });
+
+      await DeckController.getPublicDecks(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockDeckModel.searchPublicDecks).toHaveBeenCalledWith(
+        expect.objectContaining({
+          include_cards: ['14558127', '97268402'],
+          exclude_cards: ['23434538'],
+          min_owned: 75,
+          sort: 'completion',
+        }),
+        1
+      );
+    });
+
+    it('should require an account to filter by collection', async () => {
+      mockRequest.user = undefined;
+      mockRequest.query = { max_missing_eur: '30' };
+
+      await DeckController.getPublicDecks(mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockDeckModel.searchPublicDecks).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Log in to filter or sort decks by your collection' })
+      );
+    });
+  });
+
+  describe('deck versions', () => {
+    const version = (n: number, cards: any[]) => ({
+      id: n,
+      deck_id: 1,
+      version: n,
+      source: 'replace' as const,
+      restored_from: null,
+      created_by: { id: 1, username: 'testuser' },
+      created_at: new Date('2024-01-01'),
+      main_count: 0,
+      extra_count: 0,
+      side_count: 0,
+      cards,
+    });
+    const card = (code: string, name: string, quantity: number, section: 'main' | 'extra' | 'side' = 'main') => ({
+      card_id: Number(code.slice(0, 3)),
+      card_code: code,
+      name,
+      section,
+      quantity,
+    });
+
+    it('should refuse the history of a private deck to other users', async () => {
+      mockRequest.params = { id: '1' };
+      mockRequest.user = { id: 2, email: 'other@example.com', username: 'other' };
+      mockDeckModel.findById.mockResolvedValue({ ...mockDeck, is_public: false });
+
+      await DeckController.getDeckVersions(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      expect(mockDeckVersionModel.list).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'You do not have permission to view this deck' })
+      );
+    });
+
+    it('should diff a version against the latest one', async () => {
+      mockRequest.params = { id: '1' };
+      mockRequest.query = { from: '1' };
+      mockDeckModel.findById.mockResolvedValue(mockDeck);
+      mockDeckVersionModel.findByVersion.mockResolvedValue(
+        version(1, [card('14558127', 'Ash Blossom', 3), card('23434538', 'Maxx "C"', 1, 'side')])
+      );
+      mockDeckVersionModel.findLatest.mockResolvedValue(
+        version(2, [card('14558127', 'Ash Blossom', 2), card('23434538', 'Maxx "C"', 1)])
+      );
+
+      await DeckController.diffDeckVersions(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      const body = (mockResponse.json as jest.Mock).mock.calls[0][0];
+      expect(body.from.version).toBe(1);
+      expect(body.to.cards).toBeUndefined();
+      expect(body.changes.main).toEqual({
+        added: [{ card_code: '23434538', name: 'Maxx "C"', quantity: 1 }],
+        removed: [{ card_code: '14558127', name: 'Ash Blossom', quantity: 1 }],
+      });
+      expect(body.changes.side.removed).toEqual([{ card_code: '23434538', name: 'Maxx "C"', quantity: 1 }]);
+    });
+
+    it('should restore a version through replaceCards', async () => {
+      mockRequest.params = { id: '1', version: '1' };
+      mockDeckModel.findById.mockResolvedValue(mockDeck);
+      mockDeckVersionModel.findByVersion.mockResolvedValue(
+        version(1, [card('14558127', 'Ash Blossom', 3), card('44508094', 'Stardust Dragon', 1, 'extra')])
+      );
+      mockDeckModel.replaceCards.mockResolvedValue({ success: true });
+      mockDeckVersionModel.findLatest.mockResolvedValue(version(4, []));
+
+      await DeckController.restoreDeckVersion(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      expect(mockDeckModel.replaceCards).toHaveBeenCalledWith(
+        1,
+        1,
+        [
+          { card_id: 145, quantity: 3, is_extra_deck: false, is_side_deck: false },
+          { card_id: 445, quantity: 1, is_extra_deck: true, is_side_deck: false },
+        ],
+        { source: 'restore', restoredFrom: 1 }
+      );
+      expect(mockResponse.json).toHaveBeenCalledWith({ message: 'Version 1 restaurée', version: 4 });
+    });
+
+    it('should only let the owner restore', async () => {
+      mockRequest.params = { id: '1', version: '1' };
+      mockRequest.user = { id: 2, email: 'other@example.com', username: 'other' };
+      mockDeckModel.findById.mockResolvedValue(mockDeck);
+
+      await DeckController.restoreDeckVersion(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      expect(mockDeckModel.replaceCards).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Only the owner can restore a version' })
+      );
+    });
+  });
+
+  describe('consistency', () => {
+    const withMain = {
+      ...mockDeck,
+      main_deck: [{ id: 1, deck_id: 1, card_id: 5, quantity: 3, is_extra_deck: false, is_side_deck: false }],
+    };
+
+    it('should refuse role edits from someone else', async () => {
+      mockRequest.params = { id: '1' };
+      mockRequest.user = { id: 2, email: 'other@example.com', username: 'other' };
+      mockRequest.body = { roles: [{ card_id: 5, roles: ['starter'] }] };
+      mockDeckModel.findById.mockResolvedValue(withMain as any);
+
+      await DeckController.updateDeckConsistency(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      expect(mockDeckConsistencyModel.save).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(expect.objectContaining({ message: 'Only the owner can edit card roles' }));
+    });
+
+    it('should reject cards outside the Main Deck', async () => {
+      mockRequest.params = { id: '1' };
+      mockRequest.body = { roles: [{ card_id: 9, roles: ['brick'] }] };
+      mockDeckModel.findById.mockResolvedValue(withMain as any);
+
+      await DeckController.updateDeckConsistency(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      expect(mockDeckConsistencyModel.save).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(expect.objectContaining({ message: 'Card 9 is not in the Main Deck' }));
+    });
+
+    it('should save roles and return the odds', async () => {
+      mockRequest.params = { id: '1' };
+      mockRequest.body = { roles: [{ card_id: 5, roles: ['handtrap', 'starter', 'starter'] }], scenarios: null };
+      mockDeckModel.findById.mockResolvedValue(withMain as any);
+      mockDeckConsistencyModel.mainDeckCards.mockResolvedValue([
+        { card_id: 5, name: 'Starter', quantity: 3, roles: ['starter', 'handtrap'] },
+        { card_id: 6, name: 'Filler', quantity: 37, roles: [] },
+      ]);
+      mockDeckConsistencyModel.findScenarios.mockResolvedValue(null);
+
+      await DeckController.updateDeckConsistency(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      expect(mockDeckConsistencyModel.save).toHaveBeenCalledWith(1, [{ card_id: 5, roles: ['starter', 'handtrap'] }], null);
+      const body = (mockResponse.json as jest.Mock).mock.calls[0][0];
+      expect(body.deck_size).toBe(40);
+      expect(body.default_scenarios).toBe(true);
+      expect(body.role_counts).toEqual({ starter: 3, extender: 0, handtrap: 3, brick: 0 });
+      expect(body.results[0].going_first).toBeCloseTo(0.3376, 4);
+    });
+
+    it('should merge a card listed twice instead of saving duplicate roles', async () => {
+      mockRequest.params = { id: '1' };
+      mockRequest.body = {
+        roles: [
+          { card_id: 5, roles: ['starter'] },
+          { card_id: 5, roles: ['handtrap', 'starter'] },
+        ],
+      };
+      mockDeckModel.findById.mockResolvedValue(withMain as any);
+      mockDeckConsistencyModel.mainDeckCards.mockResolvedValue([]);
+      mockDeckConsistencyModel.findScenarios.mockResolvedValue(null);
+
+      await DeckController.updateDeckConsistency(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      expect(mockDeckConsistencyModel.save).toHaveBeenCalledWith(1, [{ card_id: 5, roles: ['starter', 'handtrap'] }], undefined);
+    });
+  });
+
+  describe('side plans', () => {
+    const entry = (card_id: number, quantity: number, name: string, section: 'main' | 'side') => ({
+      id: card_id,
+      deck_id: 1,
+      card_id,
+      quantity,
+      is_extra_deck: false,
+      is_side_deck: section === 'side',
+      card: { id: card_id, name, type: 'Effect Monster', frame_type: 'effect' },
+    });
+    const withSide = {
+      ...mockDeck,
+      main_deck: [entry(5, 3, 'Maxx "C"', 'main'), entry(6, 37, 'Filler', 'main')],
+      side_deck: [entry(7, 3, 'Droll & Lock Bird', 'side')],
+    };
+
+    it('should save plans that apply to the deck', async () => {
+      mockRequest.params = { id: '1' };
+      mockRequest.body = {
+        plans: [{ name: ' vs Snake-Eye ', out: [{ card_id: 5, quantity: 2 }], in: [{ card_id: 7, quantity: 2 }] }],
+      };
+      mockDeckModel.findById.mockResolvedValue(withSide as any);
+
+      await DeckController.updateDeckSidePlans(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      const plan = { name: 'vs Snake-Eye', out: [{ card_id: 5, quantity: 2 }], in: [{ card_id: 7, quantity: 2 }] };
+      expect(mockDeckSidePlanModel.replace).toHaveBeenCalledWith(1, [plan]);
+      expect(mockResponse.json).toHaveBeenCalledWith({ deck_id: 1, plans: [{ ...plan, problems: [] }] });
+    });
+
+    it('should reject a plan that overflows the Side Deck', async () => {
+      mockRequest.params = { id: '1' };
+      mockRequest.body = { plans: [{ name: 'vs Tenpai', out: [{ card_id: 6, quantity: 13 }], in: [] }] };
+      mockDeckModel.findById.mockResolvedValue(withSide as any);
+
+      await DeckController.updateDeckSidePlans(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      expect(mockDeckSidePlanModel.replace).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message:
+            'vs Tenpai : Main Deck : 27 cartes après le side (attendu 40-60) ; Side Deck : 16 cartes après le side (max 15)',
+        })
+      );
+    });
+
+    it('should flag saved plans the deck no longer supports', async () => {
+      mockRequest.params = { id: '1' };
+      mockDeckModel.findById.mockResolvedValue(withSide as any);
+      mockDeckSidePlanModel.list.mockResolvedValue([
+        { name: 'vs Yubel', out: [{ card_id: 5, quantity: 1 }], in: [{ card_id: 8, quantity: 1 }] },
+      ]);
+
+      await DeckController.getDeckSidePlans(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      const body = (mockResponse.json as jest.Mock).mock.calls[0][0];
+      expect(body.plans[0].problems).toEqual([
+        '#8 : 1 à rentrer, 0 dans le Side Deck',
+        'Main Deck : 39 cartes après le side (attendu 40-60)',
+      ]);
+    });
+
+    it('should hide plans from other users', async () => {
+      mockRequest.params = { id: '1' };
+      mockRequest.user = { id: 2, email: 'other@example.com', username: 'other' };
+      mockDeckModel.findById.mockResolvedValue(withSide as any);
+
+      await DeckController.getDeckSidePlans(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      expect(mockDeckSidePlanModel.list).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(expect.objectContaining({ message: 'Only the owner can see side plans' }));
+    });
+  });
+
+  describe('exportDeckPdf', () => {
+    it('should send the decklist as a PDF attachment', async () => {
+      mockRequest.params = { id: '1' };
+      mockRequest.query = {};
+      mockResponse.setHeader = jest.fn();
+      mockResponse.send = jest.fn();
+      mockDeckModel.findById.mockResolvedValue({
+        ...mockDeck,
+        main_deck: [{ id: 1, deck_id: 1, card_id: 1, quantity: 3, is_extra_deck: false, card: mockCard }],
+      } as any);
+
+      await DeckController.exportDeckPdf(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      expect(mockNext).not.toHaveBeenCalled();
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('Content-Type', 'application/pdf');
+      expect(mockResponse.setHeader).toHaveBeenCalledWith(
+        'Content-Disposition',
+        'attachment; filename="Test Deck-decklist.pdf"'
+      );
+      const pdf = (mockResponse.send as jest.Mock).mock.calls[0][0] as Buffer;
+      expect(pdf.toString('latin1')).toContain('(Dark Magician) Tj');
+    });
+
+    it('should reject an unknown language', async () => {
+      mockRequest.params = { id: '1' };
+      mockRequest.query = { lang: 'de' };
+
+      await DeckController.exportDeckPdf(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      expect(mockDeckModel.findById).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(expect.objectContaining({ message: 'lang doit valoir en ou fr' }));
+    });
+  });
+
+  describe('getSharedDeckPreview', () => {
+    it('should serve Open Graph tags pointing at the deck image', async () => {
+      mockRequest.params = { shareToken: 'abc123' };
+      (mockRequest as any).protocol = 'https';
+      (mockRequest as any).get = jest.fn().mockReturnValue('api.example.com');
+      mockResponse.setHeader = jest.fn();
+      mockResponse.send = jest.fn();
+      mockDeckModel.findByShareToken.mockResolvedValue({ ...mockDeck, name: 'Fire <King>' } as any);
+
+      await DeckController.getSharedDeckPreview(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      expect(mockNext).not.toHaveBeenCalled();
+      const html = (mockResponse.send as jest.Mock).mock.calls[0][0] as string;
+      expect(html).toContain('<meta property="og:title" content="Fire &lt;King&gt;">');
+      expect(html).toContain('content="https://api.example.com/api/decks/shared/abc123/image"');
+      expect(html).toContain('/deck/share/abc123');
+    });
+
+    it('should 404 on an expired link', async () => {
+      mockRequest.params = { shareToken: 'gone' };
+      mockDeckModel.findByShareToken.mockResolvedValue(null);
+
+      await DeckController.getSharedDeckPreview(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 404 }));
+    });
+  });
+
+  describe('forks', () => {
+    it('should refuse to fork a private deck of another user', async () => {
+      mockRequest.params = { id: '1' };
+      mockRequest.user = { id: 2, email: 'other@example.com', username: 'other' };
+      mockDeckModel.findById.mockResolvedValue({ ...mockDeck, is_public: false });
+
+      await DeckController.forkDeck(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      expect(mockDeckModel.fork).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'You do not have permission to view this deck' })
+      );
+    });
+
+    it('should fork a public deck with an optional name', async () => {
+      mockRequest.params = { id: '1' };
+      mockRequest.user = { id: 2, email: 'other@example.com', username: 'other' };
+      mockRequest.body = { name: '  Mon Dark Magician  ' };
+      mockDeckModel.findById.mockResolvedValue(mockDeck);
+      mockDeckModel.fork.mockResolvedValue({ ...mockDeck, id: 7, user_id: 2, name: 'Mon Dark Magician' });
+
+      await DeckController.forkDeck(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      expect(mockDeckModel.fork).toHaveBeenCalledWith(1, 2, 'Mon Dark Magician');
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+    });
+
+    it('should diff the original from the forked version to its latest one', async () => {
+      mockRequest.params = { id: '7' };
+      mockDeckModel.findForkOrigin.mockResolvedValue({
+        user_id: 1,
+        origin: { id: 3, name: 'Original', user: { id: 5, username: 'alice' } },
+        forked_from_version: 2,
+        forked_at: new Date('2024-01-01'),
+      });
+      const cards = (quantity: number) => [
+        { card_id: 1, card_code: '14558127', name: 'Ash Blossom', section: 'main' as const, quantity },
+      ];
+      const version = (n: number, q: number) => ({
+        id: n,
+        deck_id: 3,
+        version: n,
+        source: 'edit' as const,
+        restored_from: null,
+        created_by: null,
+        created_at: new Date('2024-01-01'),
+        main_count: q,
+        extra_count: 0,
+        side_count: 0,
+        cards: cards(q),
+      });
+      mockDeckVersionModel.findByVersion.mockResolvedValue(version(2, 1));
+      mockDeckVersionModel.findLatest.mockResolvedValue(version(5, 3));
+
+      await DeckController.getUpstreamChanges(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      expect(mockDeckVersionModel.findByVersion).toHaveBeenCalledWith(3, 2);
+      const body = (mockResponse.json as jest.Mock).mock.calls[0][0];
+      expect(body.upstream_version).toBe(5);
+      expect(body.changes.main.added).toEqual([{ card_code: '14558127', name: 'Ash Blossom', quantity: 2 }]);
+    });
+
+    it('should keep upstream changes for the fork owner only', async () => {
+      mockRequest.params = { id: '7' };
+      mockDeckModel.findForkOrigin.mockResolvedValue({
+        user_id: 9,
+        origin: { id: 3, name: 'Original', user: { id: 5, username: 'alice' } },
+        forked_from_version: 2,
+        forked_at: null,
+      });
+
+      await DeckController.getUpstreamChanges(mockRequest as AuthRequest, mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Only the owner of the fork can see upstream changes' })
+      );
+    });
   });
 });
@@ -0,0 +1,122 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for BinderModel
+ * Tests haves/wants matching between followed users, bulk want-list merges
+ * and price alert triggering
+ */
+
+import { BinderModel } from '../../models/binderModel';
+import * as database from '../../config/database';
+
+// Mock the database module
+jest.mock('../../config/database', () => ({
+  query: jest.fn(),
+}));
+
+const mockQuery = database.query as jest.MockedFunction<typeof database.query>;
+
+const haveRow = (partnerId: number, userCardId: number, name: string) => ({
+  partner_id: partnerId,
+  user_card_id: userCardId,
+  card_id: userCardId * 10,
+  set_code: 'LOB-005',
+  rarity: 'Ultra Rare',
+  language: 'EN',
+  condition: 'NM',
+  edition: 'unlimited',
+  quantity: 1,
+  for_trade: 1,
+  name,
+  name_fr: null,
+  card_images: [],
+  card_prices: [{ cardmarket_price: '2.50' }],
+});
+
+describe('BinderModel', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findMatches', () => {
+    it('groups both directions by partner and ranks two-way matches first', async () => {
+      mockQuery
+        // Leurs haves que je recherche
+        .mockResolvedValueOnce({
+          rows: [haveRow(2, 1, 'Ash Blossom'), haveRow(3, 2, 'Ghost Ogre'), haveRow(3, 3, 'Nibiru')],
+        } as any)
+        // Mes haves qu'ils recherchent
+        .mockResolvedValueOnce({ rows: [haveRow(2, 4, 'Droll & Lock Bird')] } as any)
+        .mockResolvedValueOnce({
+          rows: [
+            { id: 3, username: 'carol', profile_picture: null, is_mutual: false },
+            { id: 2, username: 'bob', profile_picture: null, is_mutual: true },
+          ],
+        } as any);
+
+      const matches = await BinderModel.findMatches(1);
+
+      expect(matches.map((m) => m.user.username)).toEqual(['bob', 'carol']);
+      expect(matches[0].is_mutual).toBe(true);
+      expect(matches[0].they_have.map((c) => c.name)).toEqual(['Ash Blossom']);
+      expect(matches[0].they_want.map((c) => c.name)).toEqual(['Droll & Lock Bird']);
+      expect(matches[1].they_have).toHaveLength(2);
+      expect(matches[1].they_want).toEqual([]);
+      expect(matches[1].they_have[0].unit_price_eur).toBe(2.5);
+    });
+
+    it('skips the user lookup when nothing matches', async () => {
+      mockQuery.mockResolvedValue({ rows: [] } as any);
+
+      const matches = await BinderModel.findMatches(1);
+
+      expect(matches).toEqual([]);
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('addWants', () => {
+    it('never lowers an existing wanted quantity', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 2 } as any);
+
+      const added = await BinderModel.addWants(1, [
+        { card_id: 5, quantity: 3 },
+        { card_id: 6, quantity: 1 },
+      ]);
+
+      expect(added).toBe(2);
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('GREATEST(card_wants.quantity, EXCLUDED.quantity)');
+      expect(params).toEqual([1, [5, 6], [3, 1]]);
+    });
+
+    it('does nothing for an empty list', async () => {
+      expect(await BinderModel.addWants(1, [])).toBe(0);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('takePriceAlerts', () => {
+    it('re-arms alerts above target before taking the new ones', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as any)
+        .mockResolvedValueOnce({ rows: [{ user_id: 4, card_id: 5, price_eur: '3.90' }] } as any);
+
+      const alerts = await BinderModel.takePriceAlerts([
+        { card_id: 5, price_eur: 3.9 },
+        { card_id: 6, price_eur: 20 },
+      ]);
+
+      expect(alerts).toEqual([{ user_id: 4, card_id: 5, price_eur: 3.9 }]);
+      const [rearm, take] = mockQuery.mock.calls.map((c) => c[0] as string);
+      expect(rearm).toContain('SET alerted_price_eur = NULL');
+      expect(take).toContain('w.alerted_price_eur IS NULL');
+      expect(take).toContain('p.price_eur <= w.target_price_eur');
+      expect(mockQuery.mock.calls[1][1]).toEqual([[5, 6], [3.9, 20]]);
+    });
+
+    it('does nothing without prices', async () => {
+      expect(await BinderModel.takePriceAlerts([])).toEqual([]);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -23,7 +23,19 @@ jest.mock('../../services/ygoprodeckService', () => ({
   },
 }));
 
+// L'historique a ses propres tests : on ne compte pas ses requêtes ici
+jest.mock('../../models/deckVersionModel', () => ({
+  DeckVersionModel: { record: jest.fn().mockResolvedValue(1) },
+}));
+jest.mock('../../models/deckTagModel', () => ({
+  DeckTagModel: { refreshArchetypes: jest.fn().mockResolvedValue([]) },
+}));
+
 const mockQuery = database.query as jest.MockedFunction<typeof database.query>;
+const mockGetClient = database.getClient as jest.MockedFunction<typeof database.getClient>;
+// Card writes run in a transaction on their own client
+const mockClientQuery = jest.fn();
+const mockRelease = jest.fn();
 const mockIsExtraDeckCard = YGOProDeckService.isExtraDeckCard as jest.MockedFunction<typeof YGOProDeckService.isExtraDeckCard>;
 const mockGetBanlistLimit = YGOProDeckService.getBanlistLimit as jest.MockedFunction<typeof YGOProDeckService.getBanlistLimit>;
 
@@ -70,7 +82,7 @@ describe('DeckModel', () => {
     archetype: 'Dark Magician',
     card_sets: [],
     card_images: [],
-    card_prices: {},
+    card_prices: [],
     banlist_info: {},
     created_at: new Date('2024-01-01'),
     updated_at: new Date('2024-01-01'),
@@ -120,6 +132,11 @@ describe('DeckModel', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    // Queued responses of one test must not leak into the next; unqueued
+    // queries (reactions, wishlist...) find nothing
+    mockQuery.mockReset().mockResolvedValue({ rows: [], rowCount: 0, command: 'SELECT', oid: 0, fields: [] });
+    mockClientQuery.mockReset().mockResolvedValue({ rows: [], rowCount: 0 });
+    mockGetClient.mockResolvedValue({ query: mockClientQuery, release: mockRelease } as any);
     mockIsExtraDeckCard.mockReturnValue(false);
     mockGetBanlistLimit.mockReturnValue(3);
   });
@@ -389,7 +406,11 @@ describe('DeckModel', () => {
         respect_banlist: false,
       });
 
-      expect(mockQuery).toHaveBeenCalledTimes(3);
+      expect(mockQuery).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining('respect_banlist = $1, is_public = $2'),
+        [false, false, 1, 1]
+      );
     });
 
     it('should return null when deck not found or unauthorized', async () => {
@@ -442,23 +463,15 @@ describe('DeckModel', () => {
   });
 
   describe('addCard', () => {
+    // findById has its own tests: the card writes get a ready-made deck
+    let mockFindById: jest.SpyInstance;
+
     beforeEach(() => {
-      // Default mock for findById used in addCard
-      mockQuery
-        .mockResolvedValueOnce({
-          rows: [mockDeck],
-          rowCount: 1,
-          command: 'SELECT',
-          oid: 0,
-          fields: [],
-        })
-        .mockResolvedValueOnce({
-          rows: [],
-          rowCount: 0,
-          command: 'SELECT',
-          oid: 0,
-          fields: [],
-        });
+      mockFindById = jest.spyOn(DeckModel, 'findById').mockResolvedValue(mockDeck as any);
+    });
+
+    afterEach(() => {
+      mockFindById.mockRestore();
     });
 
     it('should add card to main deck successfully', async () => {
@@ -473,26 +486,35 @@ describe('DeckModel', () => {
         oid: 0,
         fields: [],
       });
-      // Insert card
+
+      const result = await DeckModel.addCard(1, 1, 1, 1, false, mockCard);
+
+      expect(result.success).toBe(true);
+      const statements = mockClientQuery.mock.calls.map(([sql]) => sql.trim());
+      expect(statements[0]).toBe('BEGIN');
+      expect(statements[1]).toContain('FOR UPDATE');
+      expect(statements.some((sql) => sql.startsWith('INSERT INTO deck_cards'))).toBe(true);
+      expect(statements[statements.length - 1]).toBe('COMMIT');
+      expect(mockRelease).toHaveBeenCalled();
+    });
+
+    it('should roll back the card write when the version cannot be recorded', async () => {
+      const { DeckVersionModel } = jest.requireMock('../../models/deckVersionModel');
+      DeckVersionModel.record.mockRejectedValueOnce(new Error('Database error'));
       mockQuery.mockResolvedValueOnce({
-        rows: [{ id: 1 }],
+        rows: [{ main_count: '39', extra_count: '0', card_copies: '0' }],
         rowCount: 1,
-        command: 'INSERT',
-        oid: 0,
-        fields: [],
-      });
-      // Update timestamp
-      mockQuery.mockResolvedValueOnce({
-        rows: [],
-        rowCount: 0,
-        command: 'UPDATE',
+        command: 'SELECT',
         oid: 0,
         fields: [],
       });
 
-      const result = await DeckModel.addCard(1, 1, 1, 1, false, mockCard);
+      await expect(DeckModel.addCard(1, 1, 1, 1, false, mockCard)).rejects.toThrow('Database error');
 
-      expect(result.success).toBe(true);
+      const statements = mockClientQuery.mock.calls.map(([sql]) => sql.trim());
+      expect(statements).toContain('ROLLBACK');
+      expect(statements).not.toContain('COMMIT');
+      expect(mockRelease).toHaveBeenCalled();
     });
 
     it('should reject adding main deck card to extra deck', async () => {
@@ -518,21 +540,8 @@ describe('DeckModel', () => {
 
       // Reset mocks for this specific test
       jest.clearAllMocks();
+      mockFindById.mockResolvedValueOnce(mockDeck as any);
       mockQuery
-        .mockResolvedValueOnce({
-          rows: [mockDeck],
-          rowCount: 1,
-          command: 'SELECT',
-          oid: 0,
-          fields: [],
-        })
-        .mockResolvedValueOnce({
-          rows: [],
-          rowCount: 0,
-          command: 'SELECT',
-          oid: 0,
-          fields: [],
-        })
         .mockResolvedValueOnce({
           rows: [{ main_count: '60', extra_count: '0', card_copies: '0' }],
           rowCount: 1,
@@ -551,21 +560,8 @@ describe('DeckModel', () => {
       mockIsExtraDeckCard.mockReturnValue(true);
 
       jest.clearAllMocks();
+      mockFindById.mockResolvedValueOnce(mockDeck as any);
       mockQuery
-        .mockResolvedValueOnce({
-          rows: [mockDeck],
-          rowCount: 1,
-          command: 'SELECT',
-          oid: 0,
-          fields: [],
-        })
-        .mockResolvedValueOnce({
-          rows: [],
-          rowCount: 0,
-          command: 'SELECT',
-          oid: 0,
-          fields: [],
-        })
         .mockResolvedValueOnce({
           rows: [{ main_count: '40', extra_count: '15', card_copies: '0' }],
           rowCount: 1,
@@ -585,21 +581,8 @@ describe('DeckModel', () => {
       mockGetBanlistLimit.mockReturnValue(3);
 
       jest.clearAllMocks();
+      mockFindById.mockResolvedValueOnce({ ...mockDeck, respect_banlist: false } as any);
       mockQuery
-        .mockResolvedValueOnce({
-          rows: [{ ...mockDeck, respect_banlist: false }],
-          rowCount: 1,
-          command: 'SELECT',
-          oid: 0,
-          fields: [],
-        })
-        .mockResolvedValueOnce({
-          rows: [],
-          rowCount: 0,
-          command: 'SELECT',
-          oid: 0,
-          fields: [],
-        })
         .mockResolvedValueOnce({
           rows: [{ main_count: '40', extra_count: '0', card_copies: '3' }],
           rowCount: 1,
@@ -619,21 +602,8 @@ describe('DeckModel', () => {
       mockGetBanlistLimit.mockReturnValue(0);
 
       jest.clearAllMocks();
+      mockFindById.mockResolvedValueOnce(mockDeck as any);
       mockQuery
-        .mockResolvedValueOnce({
-          rows: [mockDeck],
-          rowCount: 1,
-          command: 'SELECT',
-          oid: 0,
-          fields: [],
-        })
-        .mockResolvedValueOnce({
-          rows: [],
-          rowCount: 0,
-          command: 'SELECT',
-          oid: 0,
-          fields: [],
-        })
         .mockResolvedValueOnce({
           rows: [{ main_count: '40', extra_count: '0', card_copies: '0' }],
           rowCount: 1,
@@ -653,21 +623,8 @@ describe('DeckModel', () => {
       mockGetBanlistLimit.mockReturnValue(1);
 
       jest.clearAllMocks();
+      mockFindById.mockResolvedValueOnce(mockDeck as any);
       mockQuery
-        .mockResolvedValueOnce({
-          rows: [mockDeck],
-          rowCount: 1,
-          command: 'SELECT',
-          oid: 0,
-          fields: [],
-        })
-        .mockResolvedValueOnce({
-          rows: [],
-          rowCount: 0,
-          command: 'SELECT',
-          oid: 0,
-          fields: [],
-        })
         .mockResolvedValueOnce({
           rows: [{ main_count: '40', extra_count: '0', card_copies: '1' }],
           rowCount: 1,
@@ -687,21 +644,8 @@ describe('DeckModel', () => {
       mockGetBanlistLimit.mockReturnValue(2);
 
       jest.clearAllMocks();
+      mockFindById.mockResolvedValueOnce(mockDeck as any);
       mockQuery
-        .mockResolvedValueOnce({
-          rows: [mockDeck],
-          rowCount: 1,
-          command: 'SELECT',
-          oid: 0,
-          fields: [],
-        })
-        .mockResolvedValueOnce({
-          rows: [],
-          rowCount: 0,
-          command: 'SELECT',
-          oid: 0,
-          fields: [],
-        })
         .mockResolvedValueOnce({
           rows: [{ main_count: '40', extra_count: '0', card_copies: '2' }],
           rowCount: 1,
@@ -718,21 +662,7 @@ describe('DeckModel', () => {
 
     it('should return error for unauthorized deck access', async () => {
       jest.clearAllMocks();
-      mockQuery
-        .mockResolvedValueOnce({
-          rows: [{ ...mockDeck, user_id: 999 }],
-          rowCount: 1,
-          command: 'SELECT',
-          oid: 0,
-          fields: [],
-        })
-        .mockResolvedValueOnce({
-          rows: [],
-          rowCount: 0,
-          command: 'SELECT',
-          oid: 0,
-          fields: [],
-        });
+      mockFindById.mockResolvedValueOnce({ ...mockDeck, user_id: 999 } as any);
 
       const result = await DeckModel.addCard(1, 1, 1, 1, false, mockCard);
 
@@ -742,81 +672,78 @@ describe('DeckModel', () => {
   });
 
   describe('removeCard', () => {
+    let mockFindById: jest.SpyInstance;
+
+    beforeEach(() => {
+      mockFindById = jest.spyOn(DeckModel, 'findById').mockResolvedValue(mockDeck as any);
+    });
+
+    afterEach(() => {
+      mockFindById.mockRestore();
+    });
+
     it('should remove card from deck successfully', async () => {
-      mockQuery
-        .mockResolvedValueOnce({
-          rows: [mockDeck],
-          rowCount: 1,
-          command: 'SELECT',
-          oid: 0,
-          fields: [],
-        })
-        .mockResolvedValueOnce({
-          rows: [],
-          rowCount: 0,
-          command: 'SELECT',
-          oid: 0,
-          fields: [],
-        })
-        .mockResolvedValueOnce({
-          rows: [{ id: 1 }],
-          rowCount: 1,
-          command: 'DELETE',
-          oid: 0,
-          fields: [],
-        })
-        .mockResolvedValueOnce({
-          rows: [],
-          rowCount: 0,
-          command: 'UPDATE',
-          oid: 0,
-          fields: [],
-        });
+      mockFindById.mockResolvedValueOnce(mockDeck as any);
+      mockClientQuery.mockImplementation(async (sql: string) =>
+        sql.includes('DELETE') ? { rows: [{ id: 1 }], rowCount: 1 } : { rows: [], rowCount: 0 }
+      );
 
       const result = await DeckModel.removeCard(1, 1, 1);
 
       expect(result).toBe(true);
+      expect(mockClientQuery).toHaveBeenLastCalledWith('COMMIT');
     });
 
     it('should return false when card not found', async () => {
-      mockQuery
-        .mockResolvedValueOnce({
-          rows: [mockDeck],
-          rowCount: 1,
-          command: 'SELECT',
-          oid: 0,
-          fields: [],
-        })
-        .mockResolvedValueOnce({
-          rows: [],
-          rowCount: 0,
-          command: 'SELECT',
-          oid: 0,
-          fields: [],
-        })
-        .mockResolvedValueOnce({
-          rows: [],
-          rowCount: 0,
-          command: 'DELETE',
-          oid: 0,
-          fields: [],
-        });
+      mockFindById.mockResolvedValueOnce(mockDeck as any);
 
       const result = await DeckModel.removeCard(1, 1, 999);
 
       expect(result).toBe(false);
+      // Nothing was removed: no version is recorded
+      expect(mockClientQuery).toHaveBeenLastCalledWith('ROLLBACK');
+      const { DeckVersionModel } = jest.requireMock('../../models/deckVersionModel');
+      expect(DeckVersionModel.record).not.toHaveBeenCalled();
     });
   });
 
   describe('validateDeck', () => {
+    const rowsResult = (rows: any[]) => ({ rows, rowCount: rows.length, command: 'SELECT', oid: 0, fields: [] });
+
+    // Distinct cards, one copy each: deck row, then deck_cards rows
+    const mockDeckCards = (main: number, extra: number, extraRows: any[] = [], respectBanlist = false) => {
+      const rows = [
+        ...Array.from({ length: main }, (_, i) => ({
+          card_code: String(1000 + i),
+          name: `Main ${i}`,
+          type: 'Effect Monster',
+          frame_type: 'effect',
+          ban_tcg: null,
+          is_extra_deck: false,
+          is_side_deck: false,
+          quantity: 1,
+        })),
+        ...Array.from({ length: extra }, (_, i) => ({
+          card_code: String(2000 + i),
+          name: `Extra ${i}`,
+          type: 'Fusion Monster',
+          frame_type: 'fusion',
+          ban_tcg: null,
+          is_extra_deck: true,
+          is_side_deck: false,
+          quantity: 1,
+        })),
+        ...extraRows,
+      ];
+      mockQuery
+        .mockResolvedValueOnce(rowsResult([{ respect_banlist: respectBanlist }]))
+        .mockResolvedValueOnce(rowsResult(rows));
+      // BanlistModel.resolve: no imported list
+      if (respectBanlist) mockQuery.mockResolvedValueOnce(rowsResult([]));
+    };
+
     it('should validate deck with correct card counts', async () => {
-      mockQuery.mockResolvedValue({
-        rows: [{ main_count: '40', extra_count: '15' }],
-        rowCount: 1,
-        command: 'SELECT',
-        oid: 0,
-        fields: [],
-      });
+      mockDeckCards(40, 15);
 
       const result = await DeckModel.validateDeck(1);
 
@@ -827,13 +754,7 @@ describe('DeckModel', () => {
     });
 
     it('should return error when main deck has less than 40 cards', async () => {
-      mockQuery.mockResolvedValue({
-        rows: [{ main_count: '35', extra_count: '10' }],
-        rowCount: 1,
-        command: 'SELECT',
-        oid: 0,
-        fields: [],
-      });
+      mockDeckCards(35, 10);
 
       const result = await DeckModel.validateDeck(1);
 
@@ -843,13 +764,7 @@ describe('DeckModel', () => {
     });
 
     it('should return error when main deck exceeds 60 cards', async () => {
-      mockQuery.mockResolvedValue({
-        rows: [{ main_count: '65', extra_count: '10' }],
-        rowCount: 1,
-        command: 'SELECT',
-        oid: 0,
-        fields: [],
-      });
+      mockDeckCards(65, 10);
 
       const result = await DeckModel.validateDeck(1);
 
@@ -858,13 +773,7 @@ describe('DeckModel', () => {
     });
 
     it('should return error when extra deck exceeds 15 cards', async () => {
-      mockQuery.mockResolvedValue({
-        rows: [{ main_count: '40', extra_count: '20' }],
-        rowCount: 1,
-        command: 'SELECT',
-        oid: 0,
-        fields: [],
-      });
+      mockDeckCards(40, 20);
 
       const result = await DeckModel.validateDeck(1);
 
@@ -873,13 +782,7 @@ describe('DeckModel', () => {
     });
 
     it('should return multiple errors', async () => {
-      mockQuery.mockResolvedValue({
-        rows: [{ main_count: '30', extra_count: '20' }],
-        rowCount: 1,
-        command: 'SELECT',
-        oid: 0,
-        fields: [],
-      });
+      mockDeckCards(30, 20);
 
       const result = await DeckModel.validateDeck(1);
 
@@ -890,13 +793,7 @@ describe('DeckModel', () => {
     });
 
     it('should validate deck with exactly 40 main deck cards', async () => {
-      mockQuery.mockResolvedValue({
-        rows: [{ main_count: '40', extra_count: '0' }],
-        rowCount: 1,
-        command: 'SELECT',
-        oid: 0,
-        fields: [],
-      });
+      mockDeckCards(40, 0);
 
       const result = await DeckModel.validateDeck(1);
 
@@ -905,13 +802,7 @@ describe('DeckModel', () => {
     });
 
     it('should validate deck with exactly 60 main deck cards', async () => {
-      mockQuery.mockResolvedValue({
-        rows: [{ main_count: '60', extra_count: '0' }],
-        rowCount: 1,
-        command: 'SELECT',
-        oid: 0,
-        fields: [],
-      });
+      mockDeckCards(60, 0);
 
       const result = await DeckModel.validateDeck(1);
 
@@ -920,19 +811,42 @@ describe('DeckModel', () => {
     });
 
     it('should validate deck with exactly 15 extra deck cards', async () => {
-      mockQuery.mockResolvedValue({
-        rows: [{ main_count: '40', extra_count: '15' }],
-        rowCount: 1,
-        command: 'SELECT',
-        oid: 0,
-        fields: [],
-      });
+      mockDeckCards(40, 15);
 
       const result = await DeckModel.validateDeck(1);
 
       expect(result.valid).toBe(true);
       expect(result.extraDeckCount).toBe(15);
     });
+
+    it('should report extra deck monsters in the main deck and copies over 3', async () => {
+      mockDeckCards(36, 0, [
+        { card_code: '3000', name: 'Fusion In Main', type: 'Fusion Monster', frame_type: 'fusion', ban_tcg: null, is_extra_deck: false, is_side_deck: false, quantity: 1 },
+        { card_code: '3001', name: 'Pot of Greed', type: 'Spell Card', frame_type: 'spell', ban_tcg: null, is_extra_deck: false, is_side_deck: false, quantity: 3 },
+        { card_code: '3001', name: 'Pot of Greed', type: 'Spell Card', frame_type: 'spell', ban_tcg: null, is_extra_deck: false, is_side_deck: true, quantity: 1 },
+      ]);
+
+      const result = await DeckModel.validateDeck(1);
+
+      expect(result.valid).toBe(false);
+      expect(result.violations.map((v) => [v.card_code, v.rule, v.section])).toEqual([
+        ['3000', 'section', 'main'],
+        ['3001', 'copies', null],
+      ]);
+    });
+
+    it('should apply the cached TCG status when the deck follows the banlist', async () => {
+      mockDeckCards(39, 0, [
+        { card_code: '3002', name: 'Maxx "C"', type: 'Effect Monster', frame_type: 'effect', ban_tcg: 'Banned', is_extra_deck: false, is_side_deck: false, quantity: 1 },
+      ], true);
+
+      const result = await DeckModel.validateDeck(1);
+
+      expect(result.banlist).toBeNull();
+      expect(result.violations).toEqual([
+        expect.objectContaining({ card_code: '3002', rule: 'banlist', status: 'Forbidden', limit: 0 }),
+      ]);
+    });
   });
 
   describe('searchPublicDecks', () => {
@@ -989,5 +903,75 @@ describe('DeckModel', () => {
         expect.arrayContaining([1])
       );
     });
+
+    it('should filter by cards and by the viewer collection', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ count: '1' }], rowCount: 1, command: 'SELECT', oid: 0, fields: [] })
+        .mockResolvedValueOnce({
+          rows: [{ ...mockDeck, completion: 80, missing_value: '12.5' }],
+          rowCount: 1,
+          command: 'SELECT',
+          oid: 0,
+          fields: [],
+        });
+
+      const result = await DeckModel.searchPublicDecks(
+        { include_cards: ['14558127', '14558127'], exclude_cards: ['23434538'], min_owned: 75, sort: 'completion' },
+        7
+      );
+
+      const [sql, values] = mockQuery.mock.calls[1];
+      expect(sql).toContain('own.completion >= $5');
+      expect(sql).toContain('ORDER BY own.completion DESC');
+      expect(values).toEqual([['14558127', '14558127'], 1, ['23434538'], 7, 75, 20, 0]);
+      expect(result.data[0]).toEqual(expect.objectContaining({ completion: 80, missing_value_eur: 12.5 }));
+      // The filter needs the ownership join in the count too
+      expect(mockQuery.mock.calls[0][0]).toContain('own.completion >= $5');
+      expect(mockQuery.mock.calls[0][1]).toEqual([['14558127', '14558127'], 1, ['23434538'], 7, 75]);
+    });
+
+    it('should skip the ownership join when no ownership filter or sort is requested', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ count: '1' }], rowCount: 1, command: 'SELECT', oid: 0, fields: [] })
+        .mockResolvedValueOnce({ rows: [mockDeck], rowCount: 1, command: 'SELECT', oid: 0, fields: [] });
+
+      const result = await DeckModel.searchPublicDecks({ search: 'Blue-Eyes' }, 7);
+
+      const [countSql, countValues] = mockQuery.mock.calls[0];
+      const [sql, values] = mockQuery.mock.calls[1];
+      expect(countSql).not.toContain('LATERAL');
+      expect(sql).not.toContain('LATERAL');
+      expect(countValues).toEqual(['%Blue-Eyes%']);
+      expect(values).toEqual(['%Blue-Eyes%', 20, 0]);
+      expect(result.data[0]).not.toHaveProperty('completion');
+    });
+
+    it('should keep the ownership join out of the count when only sorting by completion', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ count: '1' }], rowCount: 1, command: 'SELECT', oid: 0, fields: [] })
+        .mockResolvedValueOnce({ rows: [mockDeck], rowCount: 1, command: 'SELECT', oid: 0, fields: [] });
+
+      await DeckModel.searchPublicDecks({ tag: 'combo', sort: 'completion' }, 7);
+
+      const [countSql, countValues] = mockQuery.mock.calls[0];
+      const [sql, values] = mockQuery.mock.calls[1];
+      expect(countSql).not.toContain('LATERAL');
+      expect(countValues).toEqual(['combo']);
+      expect(sql).toContain('LATERAL');
+      expect(sql).toContain('uc.user_id = $2');
+      expect(values).toEqual(['combo', 7, 20, 0]);
+    });
+
+    it('should ignore ownership filters for guests', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ count: '0' }], rowCount: 1, command: 'SELECT', oid: 0, fields: [] })
+        .mockResolvedValueOnce({ rows: [], rowCount: 0, command: 'SELECT', oid: 0, fields: [] });
+
+      await DeckModel.searchPublicDecks({ min_owned: 75, sort: 'completion' });
+
+      const [sql] = mockQuery.mock.calls[1];
+      expect(sql).not.toContain('own.');
+      expect(sql).toContain('ORDER BY d.created_at DESC');
+    });
   });
 });
@@ -0,0 +1,112 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for DeckVersionModel.record
+ * Runs against a small in-memory deck_versions table
+ */
+
+import { DeckVersionModel } from '../../models/deckVersionModel';
+import * as database from '../../config/database';
+import { diffDeckVersions } from '../../utils/deckVersions';
+import type { DeckVersionCard } from '../../../../shared/types';
+
+jest.mock('../../config/database', () => ({
+  query: jest.fn(),
+  getClient: jest.fn(),
+}));
+
+const mockQuery = database.query as jest.MockedFunction<typeof database.query>;
+
+interface VersionRow {
+  id: number;
+  deck_id: number;
+  version: number;
+  source: string;
+  created_by: number;
+  cards: DeckVersionCard[];
+}
+
+describe('DeckVersionModel.record', () => {
+  const UPSTREAM = 3;
+  const OWNER = 1;
+
+  const card = (code: string, name: string, quantity: number): DeckVersionCard => ({
+    card_id: Number(code.slice(0, 4)),
+    card_code: code,
+    name,
+    section: 'main',
+    quantity,
+  });
+
+  let versions: VersionRow[];
+  let deckCards: DeckVersionCard[];
+  let forks: Array<{ forked_from: number; forked_from_version: number }>;
+
+  beforeEach(() => {
+    versions = [];
+    deckCards = [];
+    forks = [];
+    mockQuery.mockReset().mockImplementation((async (sql: string, params: any[] = []) => {
+      const rows = (list: any[]) => ({ rows: list, rowCount: list.length });
+      const ofDeck = () => versions.filter((v) => v.deck_id === params[0]).sort((a, b) => b.version - a.version);
+
+      if (sql.includes('FROM deck_cards dc')) return rows(deckCards);
+      if (sql.includes('AS recent')) {
+        // Every version counts as recent: the merge window is still open
+        return rows(
+          ofDeck()
+            .slice(0, 1)
+            .map((v) => ({
+              ...v,
+              recent: true,
+              forked: forks.some((f) => f.forked_from === v.deck_id && f.forked_from_version === v.version),
+            }))
+        );
+      }
+      if (sql.startsWith('UPDATE deck_versions')) {
+        versions.find((v) => v.id === params[1])!.cards = JSON.parse(params[0]);
+        return rows([]);
+      }
+      if (sql.trim().startsWith('INSERT INTO deck_versions')) {
+        const [deckId, version, source, , cards, createdBy] = params;
+        versions.push({ id: versions.length + 1, deck_id: deckId, version, source, created_by: createdBy, cards: JSON.parse(cards) });
+        return rows([]);
+      }
+      if (sql.includes('v.version = $2')) return rows(ofDeck().filter((v) => v.version === params[1]));
+      if (sql.includes('LEFT JOIN users')) return rows(ofDeck().slice(0, 1));
+      throw new Error(`Unexpected query: ${sql}`);
+    }) as any);
+  });
+
+  it('folds successive edits of the same user into the latest version', async () => {
+    deckCards = [card('14558127', 'Ash Blossom', 3)];
+    await DeckVersionModel.record(UPSTREAM, OWNER, 'edit');
+    deckCards = [card('14558127', 'Ash Blossom', 2)];
+    const version = await DeckVersionModel.record(UPSTREAM, OWNER, 'edit');
+
+    expect(version).toBe(1);
+    expect(versions).toHaveLength(1);
+    expect(versions[0].cards).toEqual([card('14558127', 'Ash Blossom', 2)]);
+  });
+
+  it('keeps the version a fork was taken from, so an immediate upstream edit shows in the upstream diff', async () => {
+    deckCards = [card('14558127', 'Ash Blossom', 3)];
+    await DeckVersionModel.record(UPSTREAM, OWNER, 'edit');
+
+    // Fork of the upstream deck at version 1 (DeckModel.fork)
+    forks.push({ forked_from: UPSTREAM, forked_from_version: 1 });
+
+    // The upstream owner edits right away, inside the merge window
+    deckCards = [card('14558127', 'Ash Blossom', 3), card('97268402', 'Effect Veiler', 2)];
+    const version = await DeckVersionModel.record(UPSTREAM, OWNER, 'edit');
+
+    expect(version).toBe(2);
+    const [atFork, latest] = await Promise.all([
+      DeckVersionModel.findByVersion(UPSTREAM, 1),
+      DeckVersionModel.findLatest(UPSTREAM),
+    ]);
+    expect(atFork?.cards).toEqual([card('14558127', 'Ash Blossom', 3)]);
+    expect(diffDeckVersions(atFork?.cards ?? [], latest?.cards ?? []).main.added).toEqual([
+      { card_code: '97268402', name: 'Effect Veiler', quantity: 2 },
+    ]);
+  });
+});
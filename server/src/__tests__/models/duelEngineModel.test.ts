@@ -0,0 +1,65 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for DuelEngineModel
+ * Decision journal writes and reads with mocked database
+ */
+
+import { DuelEngineModel } from '../../models/duelEngineModel';
+import * as database from '../../config/database';
+
+jest.mock('../../config/database', () => ({
+  query: jest.fn(),
+}));
+
+const mockQuery = database.query as jest.MockedFunction<typeof database.query>;
+
+describe('DuelEngineModel', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('appendAction', () => {
+    it('should leave the payload empty for a plain decision', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ seq: 3 }] } as any);
+
+      const seq = await DuelEngineModel.appendAction(7, 1, { optionIds: ['a2'] });
+
+      expect(seq).toBe(3);
+      expect(mockQuery.mock.calls[0][1]).toEqual([7, 1, ['a2'], false, null]);
+    });
+
+    it('should store counters, announced card and card codes in the payload', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ seq: 1 }] } as any);
+
+      await DuelEngineModel.appendAction(7, 0, {
+        optionIds: [],
+        counters: [{ targetIdx: 0, take: 2 }],
+        announcedCode: 23995346,
+      });
+
+      const params = mockQuery.mock.calls[0][1] as unknown[];
+      expect(JSON.parse(params[4] as string)).toEqual({
+        counters: [{ targetIdx: 0, take: 2 }],
+        announcedCode: 23995346,
+      });
+    });
+  });
+
+  describe('readActions', () => {
+    it('should merge the payload back into the choice', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          { seq: 1, seat: 0, option_ids: ['p0'], cancel: false, payload: null },
+          { seq: 2, seat: 1, option_ids: [], cancel: false, payload: { cardCodes: [14558127] } },
+        ],
+      } as any);
+
+      const actions = await DuelEngineModel.readActions(7);
+
+      expect(actions).toEqual([
+        { seq: 1, seat: 0, choice: { optionIds: ['p0'], cancel: false } },
+        { seq: 2, seat: 1, choice: { optionIds: [], cancel: false, cardCodes: [14558127] } },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for PriceHistoryModel
+ * Snapshot writes and history reads with mocked database
+ */
+
+import { PriceHistoryModel } from '../../models/priceHistoryModel';
+import * as database from '../../config/database';
+
+jest.mock('../../config/database', () => ({
+  query: jest.fn(),
+}));
+
+const mockQuery = database.query as jest.MockedFunction<typeof database.query>;
+
+describe('PriceHistoryModel', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('recordCardPrices', () => {
+    it('should not hit the database when there is nothing to record', async () => {
+      const count = await PriceHistoryModel.recordCardPrices('2026-01-15', []);
+
+      expect(count).toBe(0);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('should insert all prices in a single upsert', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 2 } as any);
+
+      const count = await PriceHistoryModel.recordCardPrices('2026-01-15', [
+        { card_id: 1, price_eur: 0.5 },
+        { card_id: 2, price_eur: 12.3 },
+      ]);
+
+      expect(count).toBe(2);
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][0]).toContain('ON CONFLICT (card_id, snapshot_date)');
+      expect(mockQuery.mock.calls[0][1]).toEqual(['2026-01-15', [1, 2], [0.5, 12.3]]);
+    });
+  });
+
+  describe('getCollectionHistory', () => {
+    it('should convert numeric columns', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ date: '2026-01-15', total_value_eur: '154.20', total_cards: 320 }],
+      } as any);
+
+      const history = await PriceHistoryModel.getCollectionHistory(1, 30);
+
+      expect(history).toEqual([{ date: '2026-01-15', total_value_eur: 154.2, total_cards: 320 }]);
+      expect(mockQuery.mock.calls[0][1]).toEqual([1, 30]);
+    });
+  });
+
+  describe('getBiggestMovers', () => {
+    it('should map rows and prefer the French name', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          {
+            id: 7,
+            name: 'Ash Blossom & Joyous Spring',
+            name_fr: 'Cendres Florissantes & Joyeux Printemps',
+            card_images: [{ image_url_small: 'https://img/7.jpg' }],
+            quantity: 3,
+            old_price: '4.00',
+            new_price: '6.50',
+            delta: '7.500',
+          },
+        ],
+      } as any);
+
+      const movers = await PriceHistoryModel.getBiggestMovers(1, 30, 'up', 5);
+
+      expect(movers).toEqual([
+        {
+          card_id: 7,
+          name: 'Cendres Florissantes & Joyeux Printemps',
+          image_url_small: 'https://img/7.jpg',
+          quantity: 3,
+          old_price_eur: 4,
+          new_price_eur: 6.5,
+          delta_eur: 7.5,
+        },
+      ]);
+    });
+
+    it('should filter and sort according to the direction', async () => {
+      mockQuery.mockResolvedValue({ rows: [] } as any);
+
+      await PriceHistoryModel.getBiggestMovers(1, 30, 'up', 5);
+      await PriceHistoryModel.getBiggestMovers(1, 30, 'down', 5);
+
+      expect(mockQuery.mock.calls[0][0]).toContain('l.price_eur > f.price_eur');
+      expect(mockQuery.mock.calls[0][0]).toContain('ORDER BY delta DESC');
+      expect(mockQuery.mock.calls[1][0]).toContain('l.price_eur < f.price_eur');
+      expect(mockQuery.mock.calls[1][0]).toContain('ORDER BY delta ASC');
+    });
+  });
+});
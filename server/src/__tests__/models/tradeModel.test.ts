@@ -0,0 +1,143 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for TradeModel
+ * Tests offer acceptance (atomic card transfer) and counter-offers with a mocked client
+ */
+
+import { TradeModel } from '../../models/tradeModel';
+import * as database from '../../config/database';
+
+// Mock the database module
+jest.mock('../../config/database', () => ({
+  query: jest.fn(),
+  getClient: jest.fn(),
+}));
+
+const mockQuery = database.query as jest.MockedFunction<typeof database.query>;
+const mockGetClient = database.getClient as jest.MockedFunction<typeof database.getClient>;
+
+describe('TradeModel', () => {
+  const tradeRow = {
+    id: 7,
+    proposer_id: 1,
+    recipient_id: 2,
+    status: 'pending',
+    parent_id: null,
+    message: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    completed_at: null,
+    proposer_username: 'alice',
+    recipient_username: 'bob',
+  };
+
+  const itemRow = {
+    id: 11,
+    trade_id: 7,
+    from_user_id: 1,
+    card_id: 42,
+    set_code: 'LOB-005',
+    rarity: 'Ultra Rare',
+    language: 'EN',
+    condition: 'NM',
+    edition: '1st',
+    quantity: 2,
+    name: 'Dark Magician',
+    card_images: [],
+    card_prices: [{ cardmarket_price: '5.00' }],
+  };
+
+  /** Client whose answers are picked by SQL text; every call is recorded. */
+  const makeClient = (sourceQuantity: number | null, status = 'pending') => {
+    const client = {
+      query: jest.fn(async (sql: string, _params?: unknown[]) => {
+        if (sql.includes('FROM trades WHERE id = $1 FOR UPDATE')) {
+          return { rows: [{ ...tradeRow, status }] };
+        }
+        if (sql.includes('FROM trade_items ti')) return { rows: [itemRow] };
+        if (sql.includes('FROM user_cards') && sql.includes('FOR UPDATE')) {
+          return { rows: sourceQuantity === null ? [] : [{ id: 50, quantity: sourceQuantity }] };
+        }
+        return { rows: [] };
+      }),
+      release: jest.fn(),
+    };
+    mockGetClient.mockResolvedValue(client as any);
+    return client;
+  };
+
+  const sqlCalls = (client: { query: jest.Mock }) => client.query.mock.calls.map((c) => c[0] as string);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ ...tradeRow, status: 'accepted' }] } as any)
+      .mockResolvedValueOnce({ rows: [itemRow] } as any);
+  });
+
+  describe('accept', () => {
+    it('should move the copies to the other collection and commit', async () => {
+      const client = makeClient(3);
+
+      const result = await TradeModel.accept(7);
+
+      expect(result.success).toBe(true);
+      const calls = sqlCalls(client);
+      expect(calls[0]).toBe('BEGIN');
+      expect(calls.some((s) => s.includes('UPDATE user_cards SET quantity = quantity - $1'))).toBe(true);
+      const upsert = client.query.mock.calls.find((c) => (c[0] as string).includes('INSERT INTO user_cards'));
+      // Recipient gets the same printing, without the giver's purchase price
+      expect(upsert![1]).toEqual([2, 42, 'LOB-005', 'Ultra Rare', 2, 'EN', 'NM', '1st', null, null, null]);
+      expect(calls).toContain('COMMIT');
+      expect(client.release).toHaveBeenCalled();
+      if (result.success) {
+        expect(result.trade.status).toBe('accepted');
+        expect(result.trade.balance.proposer_gives_eur).toBe(10);
+      }
+    });
+
+    it('should delete the giver row when every copy leaves', async () => {
+      const client = makeClient(2);
+
+      await TradeModel.accept(7);
+
+      expect(sqlCalls(client)).toContain('DELETE FROM user_cards WHERE id = $1');
+    });
+
+    it('should roll back when a copy is no longer available', async () => {
+      const client = makeClient(1);
+
+      const result = await TradeModel.accept(7);
+
+      expect(result).toEqual(
+        expect.objectContaining({ success: false, error: 'unavailable' })
+      );
+      const calls = sqlCalls(client);
+      expect(calls).toContain('ROLLBACK');
+      expect(calls).not.toContain('COMMIT');
+      expect(calls.some((s) => s.includes('INSERT INTO user_cards'))).toBe(false);
+    });
+
+    it('should refuse a trade that is no longer pending', async () => {
+      const client = makeClient(3, 'declined');
+
+      const result = await TradeModel.accept(7);
+
+      expect(result).toEqual({ success: false, error: 'not_pending' });
+      expect(sqlCalls(client).some((s) => s.includes('trade_items'))).toBe(false);
+    });
+  });
+
+  describe('create', () => {
+    it('should not create a counter-offer when the parent was already answered', async () => {
+      const client = makeClient(3);
+
+      const trade = await TradeModel.create(2, 1, [], null, 7);
+
+      expect(trade).toBeNull();
+      const calls = sqlCalls(client);
+      expect(calls).toContain('ROLLBACK');
+      expect(calls.some((s) => s.includes('INSERT INTO trades'))).toBe(false);
+    });
+  });
+});
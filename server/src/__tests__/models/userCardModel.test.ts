@@ -643,6 +643,69 @@ describe('UserCardModel', () => {
     });
   });
 
+  describe('updateDetails', () => {
+    it('should only update provided fields', async () => {
+      mockQuery.mockResolvedValue({ rows: [{ ...mockUserCard, condition: 'LP' }], rowCount: 1 } as any);
+
+      await UserCardModel.updateDetails(1, 7, { condition: 'LP', notes: null });
+
+      expect(mockQuery.mock.calls[0][0]).toContain('SET condition = $1, notes = $2');
+      expect(mockQuery.mock.calls[0][0]).toContain('WHERE id = $3 AND user_id = $4');
+      expect(mockQuery.mock.calls[0][1]).toEqual(['LP', null, 7, 1]);
+    });
+
+    it('should not hit the database when nothing changes', async () => {
+      const result = await UserCardModel.updateDetails(1, 7, {});
+
+      expect(result).toBeNull();
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getCollectionStats', () => {
+    it('should compute cost basis and unrealized gain on priced purchases only', async () => {
+      const prices = (eur: string) => [{ cardmarket_price: eur }];
+      mockQuery.mockResolvedValue({
+        rows: [
+          // payée 10 €, cote 15 € → +5 € × 2
+          { rarity: 'Ultra Rare', quantity: 2, purchase_price_eur: '10.00', card_prices: prices('15.00'), type: 'Effect Monster' },
+          // payée 4 €, pas de cote → compte dans le prix de revient, pas dans la plus-value
+          { rarity: 'Common', quantity: 1, purchase_price_eur: '4.00', card_prices: null, type: 'Spell Card' },
+          // prix d'achat inconnu → ignorée
+          { rarity: 'Rare', quantity: 3, purchase_price_eur: null, card_prices: prices('1.00'), type: 'Trap Card' },
+        ],
+      } as any);
+
+      const stats = await UserCardModel.getCollectionStats(1);
+
+      expect(stats.total_value_eur).toBe(33);
+      expect(stats.cost_basis_eur).toBe(24);
+      expect(stats.cost_basis_cards).toBe(3);
+      expect(stats.unrealized_gain_eur).toBe(10);
+    });
+  });
+
+  describe('getAllocation', () => {
+    it('should only count built decks against the collection', async () => {
+      mockQuery.mockResolvedValue({
+        rows: [
+          { card_id: 5, name: 'Ash Blossom', name_fr: null, card_images: [], deck_id: 1, deck_name: 'Branded', is_built: true, quantity: 1, owned: 1 },
+          { card_id: 5, name: 'Ash Blossom', name_fr: null, card_images: [], deck_id: 2, deck_name: 'Tearlaments', is_built: true, quantity: 1, owned: 1 },
+          { card_id: 5, name: 'Ash Blossom', name_fr: null, card_images: [], deck_id: 3, deck_name: 'Projet', is_built: false, quantity: 3, owned: 1 },
+          { card_id: 6, name: 'Pot of Desires', name_fr: null, card_images: [], deck_id: 3, deck_name: 'Projet', is_built: false, quantity: 2, owned: 0 },
+        ],
+      } as any);
+
+      const allocation = await UserCardModel.getAllocation(1);
+
+      expect(allocation.map((a) => [a.card_id, a.owned, a.allocated, a.planned, a.over_committed])).toEqual([
+        [5, 1, 2, 5, true],
+        [6, 0, 0, 2, false],
+      ]);
+      expect(allocation[0].decks).toHaveLength(3);
+    });
+  });
+
   describe('removeFromCollection', () => {
     it('should remove card successfully', async () => {
       mockQuery.mockResolvedValue({
@@ -0,0 +1,133 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for banlist parsing (lflist.conf), limits and diffs
+ */
+
+import {
+  BanlistLimits,
+  deckViolations,
+  diffBanlists,
+  inferBanlistFormat,
+  inferEffectiveDate,
+  parseBanlistFormatId,
+  parseLflist,
+} from '../../utils/banlist';
+
+describe('Banlist utilities', () => {
+  const limits = (entries: Record<string, number>, whitelist = false): BanlistLimits => ({
+    whitelist,
+    limits: new Map(Object.entries(entries)),
+  });
+
+  describe('parseLflist', () => {
+    it('reads several lists with comments, whitelist flag and duplicate codes', () => {
+      const lists = parseLflist(
+        [
+          '#[2024.04 TCG][GOAT]',
+          '!2024.04 TCG',
+          '#Forbidden',
+          '14558127 0 --Ash Blossom & Joyous Spring',
+          '23434538 1 --Maxx "C"',
+          '23434538 2 --Maxx "C" (again)',
+          'not a card line',
+          '99999999 7 --out of range',
+          '',
+          '!GOAT',
+          '$whitelist',
+          '55144522 0 --Pot of Greed',
+          '!Empty',
+        ].join('\r\n')
+      );
+
+      expect(lists).toEqual([
+        {
+          name: '2024.04 TCG',
+          whitelist: false,
+          entries: [
+            { card_code: '14558127', limit: 0 },
+            { card_code: '23434538', limit: 2 },
+          ],
+        },
+        { name: 'GOAT', whitelist: true, entries: [{ card_code: '55144522', limit: 0 }] },
+      ]);
+    });
+
+    it('keeps entries written before any list name as an unnamed list', () => {
+      expect(parseLflist('00012345 1')).toEqual([
+        { name: '', whitelist: false, entries: [{ card_code: '12345', limit: 1 }] },
+      ]);
+    });
+  });
+
+  describe('name inference', () => {
+    it('guesses format and effective date from the list name', () => {
+      expect(inferBanlistFormat('2024.04 TCG')).toBe('tcg');
+      expect(inferBanlistFormat('2024.01 OCG')).toBe('ocg');
+      expect(inferBanlistFormat('GOAT Format')).toBe('goat');
+      expect(inferBanlistFormat('Liste du club')).toBe('custom');
+
+      expect(inferEffectiveDate('2024.04 TCG')).toBe('2024-04-01');
+      expect(inferEffectiveDate('2023-12-15 House')).toBe('2023-12-15');
+      expect(inferEffectiveDate('2024.13 TCG')).toBeNull();
+      expect(inferEffectiveDate('GOAT')).toBeNull();
+    });
+  });
+
+  describe('parseBanlistFormatId', () => {
+    it('accepts list ids and official format keys', () => {
+      expect(parseBanlistFormatId(undefined)).toBeUndefined();
+      expect(parseBanlistFormatId('12')).toBe(12);
+      expect(parseBanlistFormatId('OCG')).toBe('ocg');
+      expect(parseBanlistFormatId('custom')).toBeNull();
+      expect(parseBanlistFormatId('-1')).toBeNull();
+    });
+  });
+
+  describe('deckViolations', () => {
+    const counts = [
+      { card_code: '1', card_name: 'Ash Blossom', count: 3, ban_tcg: null },
+      { card_code: '2', card_name: 'Pot of Greed', count: 1, ban_tcg: 'Banned' },
+      { card_code: '3', card_name: 'Maxx "C"', count: 2, ban_tcg: 'Limited' },
+    ];
+
+    it('falls back to the cached TCG status without a list', () => {
+      expect(deckViolations(counts, null).map((v) => [v.card_name, v.status])).toEqual([
+        ['Pot of Greed', 'Forbidden'],
+        ['Maxx "C"', 'Limited'],
+      ]);
+    });
+
+    it('uses the list limits, unlisted cards at 0 in a whitelist', () => {
+      expect(deckViolations(counts, limits({ '1': 2 }))).toEqual([
+        {
+          card_code: '1',
+          card_name: 'Ash Blossom',
+          section: null,
+          rule: 'banlist',
+          status: 'Semi-Limited',
+          count: 3,
+          limit: 2,
+          reason: 'Ash Blossom is Semi-Limited (max 2, found 3)',
+        },
+      ]);
+      expect(deckViolations(counts, limits({ '1': 3, '2': 1 }, true)).map((v) => v.card_code)).toEqual(['3']);
+    });
+  });
+
+  describe('diffBanlists', () => {
+    it('lists changed limits, most restricted first', () => {
+      const previous = limits({ '1': 1, '2': 0, '3': 2 });
+      const next = limits({ '1': 0, '2': 1, '3': 2, '4': 1 });
+
+      expect(diffBanlists(previous, next)).toEqual([
+        { card_code: '4', from: 3, to: 1 },
+        { card_code: '1', from: 1, to: 0 },
+        { card_code: '2', from: 0, to: 1 },
+      ]);
+    });
+
+    it('starts every card at 3 without a previous list', () => {
+      expect(diffBanlists(null, limits({ '1': 0 }))).toEqual([{ card_code: '1', from: 3, to: 0 }]);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for the card catalog mirror (fingerprints, printings, sync plan)
+ */
+
+import { catalogHash, cardPrintings, planCatalogSync, CatalogCard } from '../../utils/cardCatalog';
+
+describe('Card catalog utilities', () => {
+  const card = (cardId: string, name: string, extra: Partial<CatalogCard> = {}): CatalogCard =>
+    ({
+      card_id: cardId,
+      name,
+      type: 'Effect Monster',
+      frame_type: 'effect',
+      description: 'Test',
+      race: 'Warrior',
+      card_sets: [],
+      card_images: [],
+      card_prices: [{ cardmarket_price: '1.00' }],
+      ...extra,
+    }) as CatalogCard;
+
+  describe('catalogHash', () => {
+    it('ignores ids and timestamps', () => {
+      const base = card('1', 'Ash Blossom');
+      const stored = { ...base, id: 42, created_at: new Date(0), updated_at: new Date() } as any;
+
+      expect(catalogHash(stored)).toBe(catalogHash(base));
+    });
+
+    it('ignores price moves', () => {
+      const set = { set_name: 'Maze of Millennia', set_code: 'MAZE-EN001', set_rarity: 'Ultra Rare', set_rarity_code: '(UR)' };
+      const before = card('1', 'Ash Blossom', { card_sets: [{ ...set, set_price: '2.10' }] as any });
+      const after = card('1', 'Ash Blossom', {
+        card_sets: [{ ...set, set_price: '1.95' }] as any,
+        card_prices: [{ cardmarket_price: '0.90' }] as any,
+      });
+
+      expect(catalogHash(after)).toBe(catalogHash(before));
+    });
+
+    it('changes when a card text or printing changes', () => {
+      const before = card('1', 'Ash Blossom');
+
+      expect(catalogHash(card('1', 'Ash Blossom', { description: 'Errata' }))).not.toBe(catalogHash(before));
+      expect(
+        catalogHash(card('1', 'Ash Blossom', { card_sets: [{ set_name: 'Maze of Millennia', set_code: 'MAZE-EN001' }] as any }))
+      ).not.toBe(catalogHash(before));
+    });
+  });
+
+  describe('cardPrintings', () => {
+    it('uppercases codes, parses prices and merges duplicates', () => {
+      const printings = cardPrintings({
+        card_sets: [
+          { set_name: 'Legend of Blue Eyes', set_code: 'lob-005', set_rarity: 'Ultra Rare', set_rarity_code: '(UR)', set_price: '12.5' },
+          { set_name: 'Legend of Blue Eyes', set_code: 'LOB-005', set_rarity: 'Ultra Rare', set_rarity_code: '(UR)', set_price: '13' },
+          { set_name: 'Legendary Decks II', set_code: 'LDK2-ENY10', set_rarity: 'Common', set_rarity_code: '(C)', set_price: '0' },
+        ],
+      });
+
+      expect(printings).toEqual([
+        { set_code: 'LOB-005', set_name: 'Legend of Blue Eyes', rarity: 'Ultra Rare', rarity_code: '(UR)', set_price: 13 },
+        { set_code: 'LDK2-ENY10', set_name: 'Legendary Decks II', rarity: 'Common', rarity_code: '(C)', set_price: null },
+      ]);
+    });
+
+    it('returns nothing for a card without sets', () => {
+      expect(cardPrintings({ card_sets: undefined })).toEqual([]);
+    });
+  });
+
+  describe('planCatalogSync', () => {
+    it('splits new, modified and unchanged cards', () => {
+      const same = card('1', 'Ash Blossom');
+      const changed = card('2', 'Effect Veiler');
+      const cachedOutsideSync = card('3', 'Nibiru');
+      const fresh = card('4', 'Maxx "C"');
+
+      const plan = planCatalogSync(
+        [same, changed, cachedOutsideSync, fresh],
+        new Map<string, string | null>([
+          ['1', catalogHash(same)],
+          ['2', 'stale'],
+          ['3', null],
+        ])
+      );
+
+      expect(plan.inserts.map((c) => c.card.name)).toEqual(['Maxx "C"']);
+      expect(plan.updates.map((c) => c.card.name)).toEqual(['Effect Veiler', 'Nibiru']);
+      expect(plan.unchanged.map((c) => c.name)).toEqual(['Ash Blossom']);
+      expect(plan.updates[0].hash).toBe(catalogHash(changed));
+    });
+  });
+});
@@ -0,0 +1,145 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for the CSV helpers and the collection CSV format
+ */
+
+import { parseCsv, toCsv, detectDelimiter } from '../../utils/csv';
+import {
+  parseCollectionCsv,
+  serializeCollectionCsv,
+  parseCondition,
+  parseEdition,
+} from '../../utils/collectionCsv';
+
+describe('CSV utilities', () => {
+  describe('parseCsv', () => {
+    it('should handle quoted fields with delimiters, quotes and newlines', () => {
+      const content = 'a,b,c\r\n"x, y","say ""hi""","multi\nline"\r\n';
+
+      expect(parseCsv(content)).toEqual([
+        ['a', 'b', 'c'],
+        ['x, y', 'say "hi"', 'multi\nline'],
+      ]);
+    });
+
+    it('should skip blank lines and strip the UTF-8 BOM', () => {
+      expect(parseCsv('\uFEFFa,b\n\n1,2\n')).toEqual([
+        ['a', 'b'],
+        ['1', '2'],
+      ]);
+    });
+
+    it('should detect semicolon-separated files', () => {
+      expect(detectDelimiter('set_code;rarity;quantity')).toBe(';');
+      expect(parseCsv('a;b\n1;2')).toEqual([
+        ['a', 'b'],
+        ['1', '2'],
+      ]);
+    });
+
+    it('should reject an unterminated quote', () => {
+      expect(() => parseCsv('a,b\n"oops,1')).toThrow('guillemet');
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should quote only when needed and round-trip', () => {
+      const rows = [
+        ['name', 'qty'],
+        ['Pot of "Greed", Unlimited', 3],
+      ];
+      const csv = toCsv(rows);
+
+      expect(csv).toBe('name,qty\r\n"Pot of ""Greed"", Unlimited",3\r\n');
+      expect(parseCsv(csv)).toEqual([
+        ['name', 'qty'],
+        ['Pot of "Greed", Unlimited', '3'],
+      ]);
+    });
+  });
+});
+
+describe('Collection CSV', () => {
+  describe('parseCollectionCsv', () => {
+    it('should map columns by header in any order with defaults', () => {
+      const content = 'Quantity,Set Code,Rarity,Language\n2,ldk2-frk40,Common,FR\n,SDK-001,Ultra Rare,\n';
+
+      const { rows, errors } = parseCollectionCsv(content);
+
+      expect(errors).toEqual([]);
+      expect(rows).toEqual([
+        { line: 2, set_code: 'LDK2-FRK40', rarity: 'Common', language: 'FR', quantity: 2, condition: null, edition: null },
+        { line: 3, set_code: 'SDK-001', rarity: 'Ultra Rare', language: null, quantity: 1, condition: null, edition: null },
+      ]);
+    });
+
+    it('should collect per-line errors without stopping', () => {
+      const content = [
+        'set_code,rarity,quantity,language,condition',
+        'SDK-001,Ultra Rare,0,EN,',
+        'SDK-002,Common,1,XX,',
+        'SDK-003,Common,1,EN,Trashed',
+        ',Common,1,EN,',
+        'SDK-004,Common,1,EN,near mint',
+      ].join('\n');
+
+      const { rows, errors } = parseCollectionCsv(content);
+
+      expect(rows).toHaveLength(1);
+      expect(rows[0]).toMatchObject({ line: 6, set_code: 'SDK-004', condition: 'NM' });
+      expect(errors.map((e) => e.line)).toEqual([2, 3, 4, 5]);
+    });
+
+    it('should reject a header without set_code or rarity', () => {
+      expect(() => parseCollectionCsv('name,quantity\nDark Magician,1')).toThrow('set_code');
+    });
+  });
+
+  describe('parseCondition', () => {
+    it('should accept codes and long labels', () => {
+      expect(parseCondition('lp')).toBe('LP');
+      expect(parseCondition('Light Played')).toBe('LP');
+      expect(parseCondition('')).toBeNull();
+      expect(parseCondition('mauvais')).toBeUndefined();
+    });
+  });
+
+  describe('parseEdition', () => {
+    it('should accept the usual spellings', () => {
+      expect(parseEdition('1st Edition')).toBe('1st');
+      expect(parseEdition('1ère édition')).toBe('1st');
+      expect(parseEdition('Unlimited')).toBe('unlimited');
+      expect(parseEdition('')).toBeNull();
+      expect(parseEdition('2nd')).toBeUndefined();
+    });
+  });
+
+  describe('serializeCollectionCsv', () => {
+    it('should produce a file that parseCollectionCsv reads back', () => {
+      const csv = serializeCollectionCsv([
+        {
+          set_code: 'LDK2-FRK40',
+          rarity: 'Common',
+          language: 'FR',
+          quantity: 3,
+          condition: 'EX',
+          edition: '1st',
+          name: 'Blue-Eyes White Dragon',
+          passcode: '89631139',
+        },
+      ]);
+
+      expect(parseCollectionCsv(csv).rows).toEqual([
+        {
+          line: 2,
+          set_code: 'LDK2-FRK40',
+          rarity: 'Common',
+          language: 'FR',
+          quantity: 3,
+          condition: 'EX',
+          edition: '1st',
+        },
+      ]);
+    });
+  });
+});
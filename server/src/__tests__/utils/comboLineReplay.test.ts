@@ -0,0 +1,68 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for combo line replays (frozen decks, cache)
+ */
+
+import { buildComboLineReplay } from '../../services/duelEngine/replay';
+import { replayEngineDuel } from '../../services/duelEngine/engineClient';
+import type { StoredComboLine } from '../../models/deckComboLineModel';
+
+jest.mock('../../services/duelEngine/engineClient', () => ({
+  replayEngineDuel: jest.fn(),
+  exportEngineDuel: jest.fn(),
+}));
+jest.mock('../../models/duelEngineModel', () => ({ DuelEngineModel: {} }));
+jest.mock('../../services/duelEngine/rehydrate', () => ({ resolveEnginePlayers: jest.fn() }));
+
+const mockReplay = replayEngineDuel as jest.MockedFunction<typeof replayEngineDuel>;
+
+describe('Combo line replays', () => {
+  const deck = { main: [1, 2, 3], extra: [], side: [] } as any;
+  const line = (patch: Partial<StoredComboLine> = {}): StoredComboLine => ({
+    id: 4,
+    deck_id: 1,
+    user: { id: 1, username: 'testuser' },
+    name: 'Ligne',
+    go_first: true,
+    opening_hand: [],
+    decisions: 0,
+    created_at: '2026-01-01T10:00:00.000Z',
+    seed: [1n, 2n, 3n, 4n],
+    actions: [],
+    players: [deck, deck],
+    ...patch,
+  });
+
+  beforeEach(() => {
+    mockReplay.mockReset().mockResolvedValue({ frames: [], winner: null, winReason: null } as any);
+  });
+
+  it('refuses lines saved without their decks instead of replaying the current deck', async () => {
+    const result = await buildComboLineReplay(line({ id: 1, players: null }));
+
+    expect(result).toEqual({ error: expect.stringContaining('réenregistrez-la') });
+    expect(mockReplay).not.toHaveBeenCalled();
+  });
+
+  it('replays a line once, and again once it is saved anew', async () => {
+    const [first, second] = await Promise.all([
+      buildComboLineReplay(line({ id: 2 })),
+      buildComboLineReplay(line({ id: 2 })),
+    ]);
+    expect(mockReplay).toHaveBeenCalledTimes(1);
+    expect(second).toBe(first);
+    expect(mockReplay.mock.calls[0][0]).toEqual(expect.objectContaining({ duelId: 2, players: [deck, deck] }));
+
+    await buildComboLineReplay(line({ id: 2, created_at: '2026-01-02T10:00:00.000Z' }));
+    expect(mockReplay).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not keep a failed replay', async () => {
+    mockReplay.mockRejectedValueOnce(new Error('worker down'));
+
+    await expect(buildComboLineReplay(line({ id: 3 }))).rejects.toThrow('worker down');
+    await buildComboLineReplay(line({ id: 3 }));
+
+    expect(mockReplay).toHaveBeenCalledTimes(2);
+  });
+});
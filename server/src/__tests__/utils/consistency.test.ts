@@ -0,0 +1,92 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for opening-hand consistency (exact and Monte-Carlo)
+ */
+
+import {
+  computeConsistency,
+  meets,
+  normalizeScenarios,
+  sampleConsistency,
+  scenarioProbability,
+  type RoleCard,
+} from '../../utils/consistency';
+
+const card = (card_id: number, quantity: number, roles: RoleCard['roles'] = []): RoleCard => ({
+  card_id,
+  name: `Card ${card_id}`,
+  quantity,
+  roles,
+});
+
+// 40 cartes : 9 starters, 6 hand-traps, 3 starters hand-traps, 2 briques
+const deck = [
+  card(1, 9, ['starter']),
+  card(2, 6, ['handtrap']),
+  card(3, 3, ['starter', 'handtrap']),
+  card(4, 2, ['brick']),
+  card(5, 20),
+];
+
+describe('scenarioProbability', () => {
+  it('matches the hypergeometric odds of a single role', () => {
+    const p = scenarioProbability([card(1, 3, ['starter']), card(2, 37)], 5, {
+      label: 'starter',
+      requirements: [{ role: 'starter', min: 1 }],
+    });
+
+    // 1 - C(37,5) / C(40,5)
+    expect(p).toBeCloseTo(0.3376, 4);
+  });
+
+  it('gets better going second', () => {
+    const [result] = computeConsistency(deck, [
+      { label: 'no brick', requirements: [{ role: 'brick', max: 0 }] },
+    ]);
+
+    // C(38,5) / C(40,5) et C(38,6) / C(40,6)
+    expect(result.going_first).toBeCloseTo(0.7628, 4);
+    expect(result.going_second).toBeCloseTo(0.7192, 4);
+  });
+});
+
+describe('meets', () => {
+  const both = { label: 'both', requirements: [{ role: 'starter' as const, min: 1 }, { role: 'handtrap' as const, min: 1 }] };
+
+  it('does not let one card fill two minimums', () => {
+    expect(meets([{ roles: ['starter', 'handtrap'], count: 1 }], both.requirements)).toBe(false);
+    expect(meets([{ roles: ['starter', 'handtrap'], count: 2 }], both.requirements)).toBe(true);
+    expect(meets([{ roles: ['starter', 'handtrap'], count: 1 }, { roles: ['starter'], count: 1 }], both.requirements)).toBe(
+      true
+    );
+  });
+});
+
+describe('sampleConsistency', () => {
+  const scenarios = [
+    { label: 'both', requirements: [{ role: 'starter' as const, min: 1 }, { role: 'handtrap' as const, min: 1 }] },
+  ];
+
+  it('agrees with the exact odds and is reproducible', () => {
+    const exact = computeConsistency(deck, scenarios)[0];
+    const sampled = sampleConsistency(deck, scenarios, 20000, 42);
+
+    expect(sampled.results[0].going_first).toBeCloseTo(exact.going_first, 1);
+    expect(sampled.results[0].going_second).toBeCloseTo(exact.going_second, 1);
+    expect(sampled.hands).toHaveLength(6);
+    expect(sampled.hands[0].cards).toHaveLength(5);
+    expect(sampled.hands[1].cards).toHaveLength(6);
+    expect(sampleConsistency(deck, scenarios, 500, 7)).toEqual(sampleConsistency(deck, scenarios, 500, 7));
+  });
+});
+
+describe('normalizeScenarios', () => {
+  it('keeps valid scenarios and rejects malformed ones', () => {
+    expect(normalizeScenarios([{ label: ' Sans brique ', requirements: [{ role: 'brick', max: 0 }] }])).toEqual([
+      { label: 'Sans brique', requirements: [{ role: 'brick', max: 0 }] },
+    ]);
+    expect(normalizeScenarios([{ label: 'x', requirements: [{ role: 'boss', min: 1 }] }])).toBeNull();
+    expect(normalizeScenarios([{ label: 'x', requirements: [{ role: 'starter', min: 7 }] }])).toBeNull();
+    expect(normalizeScenarios([{ label: 'x', requirements: [{ role: 'starter' }] }])).toBeNull();
+  });
+});
@@ -0,0 +1,49 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for deck archetype detection and tag normalization
+ */
+
+import { detectArchetypes, normalizeTags } from '../../utils/deckArchetypes';
+
+describe('detectArchetypes', () => {
+  it('ranks dominant archetypes and ignores staples and the side deck', () => {
+    const { archetypes, split } = detectArchetypes([
+      { archetype: 'Snake-Eye', quantity: 12, section: 'main' },
+      { archetype: 'Fire King', quantity: 8, section: 'main' },
+      { archetype: 'Ash Blossom', quantity: 1, section: 'main' },
+      { archetype: null, quantity: 19, section: 'main' },
+      { archetype: 'Droll', quantity: 9, section: 'side' },
+    ]);
+
+    expect(archetypes).toEqual(['Snake-Eye', 'Fire King']);
+    expect(split).toEqual([
+      { name: 'Snake-Eye', copies: 12, share: 0.3 },
+      { name: 'Fire King', copies: 8, share: 0.2 },
+    ]);
+  });
+
+  it('names engine setcodes after the majority archetype', () => {
+    // 0x1 porté par des cartes « Snake-Eye » et par un support sans archétype
+    const { split } = detectArchetypes([
+      { archetype: 'Snake-Eye', setcodes: [0x1], quantity: 6, section: 'main' },
+      { archetype: 'Diabellstar', setcodes: [0x1, 0x2], quantity: 3, section: 'main' },
+      { archetype: null, setcodes: [0x1], quantity: 3, section: 'main' },
+    ]);
+
+    expect(split.map((s) => [s.name, s.copies])).toEqual([
+      ['Snake-Eye', 12],
+      ['Diabellstar', 3],
+    ]);
+  });
+});
+
+describe('normalizeTags', () => {
+  it('lowercases, strips # and drops duplicates', () => {
+    expect(normalizeTags(['#Budget', 'budget', ' Going   Second '])).toEqual(['budget', 'going second']);
+  });
+
+  it('rejects non-lists and oversized tags', () => {
+    expect(normalizeTags('budget')).toBeNull();
+    expect(normalizeTags(['x'.repeat(31)])).toBeNull();
+  });
+});
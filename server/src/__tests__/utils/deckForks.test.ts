@@ -0,0 +1,38 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for the deck fork tree
+ */
+
+import { buildForkTree, DeckForkRow } from '../../utils/deckForks';
+
+const row = (id: number, forkedFrom: number, userId: number, isPublic = true): DeckForkRow => ({
+  id,
+  forked_from: forkedFrom,
+  name: `Deck ${id}`,
+  is_public: isPublic,
+  forked_at: new Date('2024-01-01'),
+  user_id: userId,
+  username: `user${userId}`,
+});
+
+describe('buildForkTree', () => {
+  it('nests forks of forks under their parent', () => {
+    const tree = buildForkTree([row(2, 1, 10), row(3, 1, 11), row(4, 2, 12)], 1);
+
+    expect(tree.map((n) => n.id)).toEqual([2, 3]);
+    expect(tree[0].children.map((n) => n.id)).toEqual([4]);
+    expect(tree[0].user).toEqual({ id: 10, username: 'user10' });
+  });
+
+  it('hides private forks from others but keeps their visible forks', () => {
+    const rows = [row(2, 1, 10, false), row(4, 2, 12), row(5, 4, 13, false)];
+
+    const asStranger = buildForkTree(rows, 1, 99);
+    expect(asStranger.map((n) => n.id)).toEqual([4]);
+    expect(asStranger[0].children).toEqual([]);
+
+    const asOwner = buildForkTree(rows, 1, 10);
+    expect(asOwner.map((n) => n.id)).toEqual([2]);
+    expect(asOwner[0].children.map((n) => n.id)).toEqual([4]);
+  });
+});
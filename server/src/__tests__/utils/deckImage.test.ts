@@ -0,0 +1,56 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for the shareable deck image
+ */
+
+import sharp from 'sharp';
+import { TILE, layoutDeckImage, renderDeckImage } from '../../utils/deckImage';
+
+describe('Deck image', () => {
+  const card = (id: number, name: string, type: string) =>
+    ({ id, card_id: String(id), name, type, card_images: [{ image_url_small: `https://img/${id}.jpg` }] }) as any;
+
+  const deckCard = (c: any, quantity: number) =>
+    ({ id: c.id, deck_id: 1, card_id: c.id, quantity, is_extra_deck: false, created_at: new Date(), card: c }) as any;
+
+  const main = Array.from({ length: 12 }, (_, i) =>
+    deckCard(card(i + 1, `Card ${String(i + 1).padStart(2, '0')}`, i === 0 ? 'Trap Card' : 'Effect Monster'), 3)
+  );
+  const deck = {
+    id: 1,
+    name: 'Snake-Eye <Fire>',
+    user: { username: 'duelist' },
+    main_deck: main,
+    extra_deck: [deckCard(card(50, 'Accesscode Talker', 'Link Monster'), 1)],
+    side_deck: [],
+  } as any;
+
+  it('groups cards per section, monsters first, ten per row', () => {
+    const layout = layoutDeckImage(deck);
+
+    expect(layout.sections.map((s) => [s.title, s.count])).toEqual([
+      ['Main Deck', 36],
+      ['Extra Deck', 1],
+    ]);
+    expect(layout.subtitle).toBe('@duelist · Main 36 · Extra 1 · Side 0');
+    // La piège passe après les monstres
+    expect(layout.tiles[10].name).toBe('Card 12');
+    expect(layout.tiles[11].name).toBe('Card 01');
+    // Onzième vignette : deuxième rangée
+    expect(layout.tiles[10].top).toBe(layout.tiles[0].top + TILE.height + 8);
+    expect(layout.tiles[10].left).toBe(layout.tiles[0].left);
+    expect(layout.tiles[12].top).toBeGreaterThan(layout.tiles[11].top + TILE.height);
+  });
+
+  it('renders placeholders when no image could be loaded', async () => {
+    const png = await renderDeckImage(deck, new Map(), 'png');
+    const meta = await sharp(png).metadata();
+    const layout = layoutDeckImage(deck);
+
+    expect(meta.format).toBe('png');
+    expect([meta.width, meta.height]).toEqual([layout.width, layout.height]);
+
+    const webp = await renderDeckImage(deck, new Map(), 'webp');
+    expect((await sharp(webp).metadata()).format).toBe('webp');
+  });
+});
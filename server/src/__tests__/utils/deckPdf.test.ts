@@ -0,0 +1,91 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for the PDF writer, the decklist form and the proxy sheets
+ */
+
+import { PdfDocument } from '../../utils/pdf';
+import { proxyCopies, renderDecklist, renderProxySheets } from '../../utils/deckPdf';
+import { computeDeckStats } from '../../utils/prices';
+
+describe('Deck PDF', () => {
+  const card = (id: number, name: string, type: string, name_fr?: string) =>
+    ({ id, card_id: String(id), name, name_fr, type, card_images: [] }) as any;
+
+  const deckCard = (c: any, quantity: number, extra: Partial<{ is_extra_deck: boolean; is_side_deck: boolean }> = {}) =>
+    ({ id: c.id, deck_id: 1, card_id: c.id, quantity, is_extra_deck: false, created_at: new Date(), card: c, ...extra }) as any;
+
+  const ash = card(1, 'Ash Blossom & Joyous Spring', 'Effect Monster', 'Cendres de Fleur');
+  const called = card(2, 'Called by the Grave', 'Spell Card', 'Appelé par la Tombe');
+  const imperm = card(3, 'Infinite Impermanence', 'Trap Card', 'Impermanence Infinie');
+  const accesscode = card(4, 'Accesscode Talker', 'Link Monster');
+
+  const deck = {
+    id: 1,
+    name: 'Test (Snake-Eye)',
+    main_deck: [deckCard(ash, 3), deckCard(called, 2), deckCard(imperm, 3)],
+    extra_deck: [deckCard(accesscode, 1, { is_extra_deck: true })],
+    side_deck: [deckCard(called, 1, { is_side_deck: true })],
+  } as any;
+
+  /** Checks the xref table: every entry must point at its `N 0 obj` header. */
+  const checkXref = (pdf: Buffer) => {
+    const text = pdf.toString('latin1');
+    const start = Number(/startxref\n(\d+)/.exec(text)![1]);
+    const [, count] = /^xref\n0 (\d+)/.exec(text.slice(start))!;
+    const entries = text.slice(start).split('\n').slice(3, 2 + Number(count));
+    entries.forEach((line, i) => {
+      const offset = Number(line.slice(0, 10));
+      expect(text.slice(offset, offset + `${i + 1} 0 obj`.length)).toBe(`${i + 1} 0 obj`);
+    });
+    return text;
+  };
+
+  it('writes a well-formed document with escaped WinAnsi text', () => {
+    const doc = new PdfDocument();
+    doc.text(40, 40, 'Pièges (3) \\ 12 €');
+    const text = checkXref(doc.toBuffer());
+
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text).toContain('/Count 1');
+    expect(text).toContain('(Pi\xe8ges \\(3\\) \\\\ 12 \x80) Tj');
+  });
+
+  it('truncates text to a width with an ellipsis', () => {
+    const fitted = PdfDocument.fit('Ash Blossom & Joyous Spring', 60, 9);
+    expect(fitted.endsWith('…')).toBe(true);
+    expect(PdfDocument.widthOf(fitted, 9)).toBeLessThanOrEqual(60);
+    expect(PdfDocument.fit('Ash', 60, 9)).toBe('Ash');
+  });
+
+  it('lists the deck in monster / spell / trap columns with totals', () => {
+    const doc = new PdfDocument();
+    renderDecklist(doc, deck, computeDeckStats(deck), 'fr');
+    const text = checkXref(doc.toBuffer());
+
+    expect(doc.pageCount).toBe(1);
+    expect(text).toContain('(Cendres de Fleur) Tj');
+    expect(text).toContain('(Accesscode Talker) Tj');
+    expect(text).toContain('(Main Deck : 8   \xb7   Extra Deck : 1   \xb7   Side Deck : 1) Tj');
+    expect(text).toContain('(Monstres 3 \xb7 Magies 2 \xb7 Pi\xe8ges 3) Tj');
+  });
+
+  it('lays out one proxy per copy, nine per page', () => {
+    const copies = proxyCopies(deck);
+    expect(copies).toHaveLength(10);
+    expect(copies[9].name).toBe('Called by the Grave');
+
+    const image = { data: Buffer.from([0xff, 0xd8, 0xff, 0xd9]), width: 2, height: 3 };
+    const doc = new PdfDocument();
+    renderProxySheets(
+      doc,
+      copies.map((c, i) => ({ name: c.name, type: c.deckCard.card!.type, image: i < 2 ? image : null }))
+    );
+    const text = checkXref(doc.toBuffer());
+
+    expect(doc.pageCount).toBe(2);
+    // Two copies share the same image: embedded once, drawn twice
+    expect(text.match(/\/Subtype \/Image/g)).toHaveLength(1);
+    expect(text.match(/\/Im0 Do/g)).toHaveLength(2);
+    expect(text).toContain('(Infinite Impermanence) Tj');
+  });
+});
@@ -0,0 +1,60 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for the shared deck rules (sizes, sections, copies, banlist)
+ */
+
+import { checkDeckRules, describeViolation, DeckRuleCard } from '../../../../shared/deckRules';
+
+describe('Deck rules', () => {
+  const card = (code: string, name: string, section: DeckRuleCard['section'], quantity: number, frame = 'effect'): DeckRuleCard => ({
+    card_code: code,
+    name,
+    section,
+    quantity,
+    frame_type: frame,
+  });
+  const filler = (count: number) => Array.from({ length: count }, (_, i) => card(String(900 + i), `Filler ${i}`, 'main', 1));
+
+  it('accepts a legal deck', () => {
+    const report = checkDeckRules([...filler(40), card('1', 'Borreload', 'extra', 2, 'link'), card('2', 'Ash', 'side', 3)]);
+
+    expect(report).toMatchObject({ valid: true, errors: [], mainDeckCount: 40, extraDeckCount: 2, sideDeckCount: 3 });
+  });
+
+  it('checks section sizes, side deck included', () => {
+    const report = checkDeckRules([...filler(40), ...Array.from({ length: 16 }, (_, i) => card(String(i), `Side ${i}`, 'side', 1))]);
+
+    expect(report.errors).toEqual(['Side Deck cannot exceed 15 cards']);
+  });
+
+  it('flags Extra Deck monsters in the Main and main cards in the Extra', () => {
+    const report = checkDeckRules([...filler(40), card('1', 'Borreload', 'main', 1, 'link'), card('2', 'Ash', 'extra', 1)]);
+
+    expect(report.violations.map((v) => [v.card_code, v.rule, v.section])).toEqual([
+      ['1', 'section', 'main'],
+      ['2', 'section', 'extra'],
+    ]);
+    expect(describeViolation(report.violations[0])).toBe('Borreload : carte Extra rangée dans le Main');
+  });
+
+  it('counts copies across sections and alternate artworks', () => {
+    const report = checkDeckRules([...filler(40), card('1', 'Dark Magician', 'main', 2), card('2', 'Dark Magician', 'side', 2)]);
+
+    expect(report.violations).toEqual([
+      expect.objectContaining({ card_code: '1', rule: 'copies', section: null, count: 4, limit: 3 }),
+    ]);
+  });
+
+  it('applies the strictest banlist limit, or none in free mode', () => {
+    const cards = [...filler(40), card('1', 'Maxx "C"', 'main', 2)];
+    const limitOf = (c: DeckRuleCard) => (c.card_code === '1' ? 1 : 3);
+
+    const report = checkDeckRules(cards, { limitOf });
+    expect(report.violations).toEqual([
+      expect.objectContaining({ rule: 'banlist', status: 'Limited', reason: 'Maxx "C" is Limited (max 1, found 2)' }),
+    ]);
+    expect(describeViolation(report.violations[0])).toBe('Maxx "C" : Limitée (max 1) — 2 exemplaires trouvés');
+
+    expect(checkDeckRules(cards, { limitOf, enforceCopies: false }).valid).toBe(true);
+  });
+});
@@ -0,0 +1,110 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for the deck-to-collection shortfall (shopping list)
+ */
+
+import {
+  cheapestPrinting,
+  computeDeckShortfall,
+  serializeShortfallCsv,
+  serializeShortfallText,
+} from '../../utils/deckShortfall';
+
+describe('Deck shortfall utilities', () => {
+  const card = (id: number, name: string, eur: string | null, sets: Array<[string, string]> = []) =>
+    ({
+      id,
+      name,
+      card_prices: eur ? [{ cardmarket_price: eur }] : [],
+      card_sets: sets.map(([set_code, set_price]) => ({
+        set_code,
+        set_name: 'Set',
+        set_rarity: 'Common',
+        set_rarity_code: '(C)',
+        set_price,
+      })),
+      card_images: [],
+    }) as any;
+
+  const deckCard = (cardId: number, quantity: number, c: any, extra: Partial<{ is_side_deck: boolean }> = {}) =>
+    ({ id: cardId, deck_id: 1, card_id: cardId, quantity, is_extra_deck: false, created_at: new Date(), card: c, ...extra }) as any;
+
+  const ash = card(1, 'Ash Blossom', '10.00', [['MACR-EN036', '25.00'], ['RA01-EN008', '4.50']]);
+  const pot = card(2, 'Pot of Desires', '2.00');
+  const nibiru = card(3, 'Nibiru', null);
+
+  const deck = {
+    id: 1,
+    name: 'Test',
+    main_deck: [deckCard(1, 2, ash), deckCard(2, 2, pot)],
+    extra_deck: [],
+    side_deck: [deckCard(1, 1, ash, { is_side_deck: true }), deckCard(3, 2, nibiru, { is_side_deck: true })],
+  } as any;
+
+  describe('cheapestPrinting', () => {
+    it('should pick the lowest positive set price', () => {
+      expect(cheapestPrinting(ash.card_sets)).toEqual({
+        set_code: 'RA01-EN008',
+        set_name: 'Set',
+        set_rarity: 'Common',
+        set_price: 4.5,
+      });
+    });
+
+    it('should ignore missing or zero prices', () => {
+      expect(cheapestPrinting([{ set_code: 'A', set_price: '0.00' }, { set_code: 'B', set_price: '' }] as any)).toBeNull();
+      expect(cheapestPrinting(undefined)).toBeNull();
+    });
+  });
+
+  describe('computeDeckShortfall', () => {
+    const availability = {
+      1: { owned: 2, used_in_decks: 2, available: 0 },
+      2: { owned: 5, used_in_decks: 4, available: 1 },
+    };
+
+    it('should only list cards with missing copies, priced first', () => {
+      const shortfall = computeDeckShortfall(deck, availability, false);
+
+      expect(shortfall.lines.map((l) => [l.card_id, l.missing])).toEqual([
+        [1, 1],
+        [3, 2],
+      ]);
+      expect(shortfall.lines[0].cost_eur).toBe(10);
+      expect(shortfall.missing_cards).toBe(3);
+      expect(shortfall.total_cost_eur).toBe(10);
+      expect(shortfall.unpriced_cards).toBe(2);
+    });
+
+    it('should subtract copies committed to other decks when asked', () => {
+      const shortfall = computeDeckShortfall(deck, availability, true);
+
+      expect(shortfall.lines.map((l) => [l.card_id, l.missing, l.committed])).toEqual([
+        [1, 3, 2],
+        [2, 1, 4],
+        [3, 2, 0],
+      ]);
+      expect(shortfall.total_cost_eur).toBe(32);
+    });
+  });
+
+  describe('serializers', () => {
+    const shortfall = computeDeckShortfall(deck, {}, false);
+
+    it('should write a readable text list', () => {
+      const text = serializeShortfallText(shortfall);
+
+      expect(text).toContain('3x Ash Blossom (RA01-EN008 — Common) — 30,00 €');
+      expect(text).toContain('Total : 7 cartes, 34,00 €');
+      expect(text).toContain('2 sans cote Cardmarket');
+    });
+
+    it('should write one CSV row per missing card', () => {
+      const lines = serializeShortfallCsv(shortfall).trim().split('\r\n');
+
+      expect(lines[0]).toBe('name,missing,needed,owned,committed,set_code,set_rarity,unit_price_eur,cost_eur');
+      expect(lines[1]).toBe('Ash Blossom,3,3,0,0,RA01-EN008,Common,10,30');
+      expect(lines).toHaveLength(4);
+    });
+  });
+});
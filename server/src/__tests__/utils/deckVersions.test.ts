@@ -0,0 +1,48 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for deck version diffs
+ */
+
+import { diffDeckVersions, sameDeckContent, sectionCounts } from '../../utils/deckVersions';
+import type { DeckSection, DeckVersionCard } from '../../../../shared/types';
+
+const card = (code: string, name: string, quantity: number, section: DeckSection = 'main'): DeckVersionCard => ({
+  card_id: Number(code.slice(0, 4)),
+  card_code: code,
+  name,
+  section,
+  quantity,
+});
+
+describe('Deck version utilities', () => {
+  it('lists everything as added for the first version', () => {
+    const diff = diffDeckVersions(null, [card('14558127', 'Ash Blossom', 3), card('44508094', 'Stardust', 1, 'extra')]);
+
+    expect(diff.main.added).toEqual([{ card_code: '14558127', name: 'Ash Blossom', quantity: 3 }]);
+    expect(diff.extra.added).toEqual([{ card_code: '44508094', name: 'Stardust', quantity: 1 }]);
+    expect(diff.side).toEqual({ added: [], removed: [] });
+  });
+
+  it('reports quantity changes and moves between sections', () => {
+    const diff = diffDeckVersions(
+      [card('14558127', 'Ash Blossom', 3), card('23434538', 'Maxx "C"', 2)],
+      [card('14558127', 'Ash Blossom', 1), card('23434538', 'Maxx "C"', 2, 'side'), card('97268402', 'Effect Veiler', 2)]
+    );
+
+    expect(diff.main.added).toEqual([{ card_code: '97268402', name: 'Effect Veiler', quantity: 2 }]);
+    expect(diff.main.removed).toEqual([
+      { card_code: '14558127', name: 'Ash Blossom', quantity: 2 },
+      { card_code: '23434538', name: 'Maxx "C"', quantity: 2 },
+    ]);
+    expect(diff.side.added).toEqual([{ card_code: '23434538', name: 'Maxx "C"', quantity: 2 }]);
+  });
+
+  it('compares content regardless of row order and split rows', () => {
+    const a = [card('14558127', 'Ash Blossom', 3), card('23434538', 'Maxx "C"', 1)];
+    const b = [card('23434538', 'Maxx "C"', 1), card('14558127', 'Ash Blossom', 2), card('14558127', 'Ash Blossom', 1)];
+
+    expect(sameDeckContent(a, b)).toBe(true);
+    expect(sameDeckContent(a, [card('14558127', 'Ash Blossom', 3)])).toBe(false);
+    expect(sectionCounts(b)).toEqual({ main: 4, extra: 0, side: 0 });
+  });
+});
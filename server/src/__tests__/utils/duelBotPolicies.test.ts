@@ -0,0 +1,230 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for the duel bot policies
+ */
+
+import type { DuelBoardView, DuelCardView, DuelPrompt, DuelSideView } from '../../../../shared/duelView';
+import { botPolicy, cardKey, isBotPolicyId, listBotPolicies } from '../../services/duelBot/policies';
+
+const monster = (code: number, attack: number, defense = 0, position = 1): DuelCardView => ({
+  code,
+  faceDown: false,
+  attack,
+  defense,
+  position,
+});
+
+const side = (patch: Partial<DuelSideView> = {}): DuelSideView => ({
+  lp: 8000,
+  monsters: Array(7).fill(null),
+  spells: Array(8).fill(null),
+  hand: [],
+  handCount: 0,
+  deckCount: 30,
+  extraCount: 0,
+  graveyard: [],
+  banished: [],
+  ...patch,
+});
+
+const board = (patch: Partial<DuelBoardView> = {}): DuelBoardView => ({
+  turn: 2,
+  phase: 'main1',
+  turnPlayer: 1,
+  seat: 1,
+  me: side(),
+  opponent: side(),
+  chainLength: 0,
+  chain: [],
+  ...patch,
+});
+
+const prompt = (patch: Partial<DuelPrompt>): DuelPrompt => ({
+  kind: 'main',
+  seat: 1,
+  message: '',
+  options: [],
+  min: 1,
+  max: 1,
+  canCancel: false,
+  ...patch,
+});
+
+const rules = botPolicy('rules');
+const decide = (p: DuelPrompt, b: DuelBoardView = board(), activated: string[] = []) =>
+  rules.decide({ prompt: p, board: b, activated: new Set(activated), retries: 0 });
+
+describe('rules policy', () => {
+  it('summons its strongest monster before anything else', () => {
+    const b = board({ me: side({ hand: [monster(1, 1200), monster(2, 1900)] }) });
+    const p = prompt({
+      options: [
+        { id: 'activate:0', label: '', code: 9, location: 0x2, sequence: 2, controller: 1 },
+        { id: 'summon:0', label: '', code: 1, location: 0x2, sequence: 0, controller: 1 },
+        { id: 'summon:1', label: '', code: 2, location: 0x2, sequence: 1, controller: 1 },
+        { id: 'toep', label: '' },
+      ],
+    });
+    expect(decide(p, b)).toEqual({ optionIds: ['summon:1'] });
+  });
+
+  it('does not activate the same card twice in a turn, then moves to battle', () => {
+    const activate = { id: 'activate:0', label: '', code: 9, location: 0x8, sequence: 0, controller: 1 as const };
+    const p = prompt({ options: [activate, { id: 'tobp', label: '' }, { id: 'toep', label: '' }] });
+    expect(decide(p)).toEqual({ optionIds: ['activate:0'] });
+    expect(decide(p, board(), [cardKey(activate)])).toEqual({ optionIds: ['tobp'] });
+  });
+
+  it('attacks with its strongest monster', () => {
+    const b = board({ phase: 'battle_step', me: side({ monsters: [monster(1, 1000), monster(2, 2500), null, null, null, null, null] }) });
+    const p = prompt({
+      kind: 'battle',
+      options: [
+        { id: 'attack:0', label: '', code: 1, location: 0x4, sequence: 0, controller: 1 },
+        { id: 'attack:1', label: '', code: 2, location: 0x4, sequence: 1, controller: 1 },
+        { id: 'tom2', label: '' },
+      ],
+    });
+    expect(decide(p, b)).toEqual({ optionIds: ['attack:1'] });
+  });
+
+  it('targets the biggest monster its attacker can beat', () => {
+    const b = board({
+      phase: 'battle_step',
+      me: side({ monsters: [monster(1, 2000), null, null, null, null, null, null] }),
+      opponent: side({ monsters: [monster(7, 2400), monster(8, 1800), monster(9, 500), null, null, null, null] }),
+    });
+    const p = prompt({
+      kind: 'cards',
+      options: [0, 1, 2].map((i) => ({ id: `card:${i}`, label: '', code: 7 + i, location: 0x4, sequence: i, controller: 0 as const })),
+    });
+    expect(decide(p, b)).toEqual({ optionIds: ['card:1'] });
+  });
+
+  it('pays costs with its weakest cards and hits the opponent strongest', () => {
+    const b = board({
+      me: side({ monsters: [monster(1, 2800), monster(2, 600), null, null, null, null, null] }),
+      opponent: side({ monsters: [monster(8, 1500), monster(9, 3000), null, null, null, null, null] }),
+    });
+    const own = prompt({
+      kind: 'cards',
+      options: [0, 1].map((i) => ({ id: `tribute:${i}`, label: '', code: 1 + i, location: 0x4, sequence: i, controller: 1 as const })),
+    });
+    expect(decide(own, b)).toEqual({ optionIds: ['tribute:1'] });
+
+    const theirs = prompt({
+      kind: 'cards',
+      options: [0, 1].map((i) => ({ id: `card:${i}`, label: '', code: 8 + i, location: 0x4, sequence: i, controller: 0 as const })),
+    });
+    expect(decide(theirs, b)).toEqual({ optionIds: ['card:1'] });
+  });
+
+  it('always chains a hand-trap, and only answers the opponent otherwise', () => {
+    const set = { id: 'chain:0', label: '', code: 5, location: 0x8, sequence: 0, controller: 1 as const };
+    const handTrap = { id: 'chain:1', label: '', code: 6, location: 0x2, sequence: 0, controller: 1 as const };
+    const link = (controller: 0 | 1) => ({ link: 1, code: 3, controller, location: 0x8, sequence: 0 });
+
+    const p = prompt({ kind: 'chain', min: 0, canCancel: true, options: [set, handTrap] });
+    expect(decide(p)).toEqual({ optionIds: ['chain:1'] });
+
+    const noHand = prompt({ kind: 'chain', min: 0, canCancel: true, options: [set] });
+    expect(decide(noHand, board({ chain: [link(1)] }))).toEqual({ optionIds: [], cancel: true });
+    expect(decide(noHand, board({ chain: [link(0)] }))).toEqual({ optionIds: ['chain:0'] });
+  });
+
+  it('finishes a step-by-step selection once it may', () => {
+    const p = prompt({
+      kind: 'cards',
+      canCancel: true,
+      options: [
+        { id: 'select:0', label: '', code: 1 },
+        { id: 'unselect:0', label: '', code: 2 },
+      ],
+    });
+    expect(decide(p)).toEqual({ optionIds: [], cancel: true });
+  });
+
+  it('spreads counter removal over the targets', () => {
+    const p = prompt({
+      kind: 'select_counter',
+      counter: {
+        counterType: 1,
+        counterName: 'Magie',
+        count: 3,
+        targets: [
+          { targetIdx: 0, cardCode: 1, cardName: 'A', currentCount: 2 },
+          { targetIdx: 1, cardCode: 2, cardName: 'B', currentCount: 2 },
+        ],
+      },
+    });
+    expect(decide(p)).toEqual({
+      optionIds: [],
+      counters: [
+        { targetIdx: 0, take: 2 },
+        { targetIdx: 1, take: 1 },
+      ],
+    });
+  });
+
+  it('accepts optional effects, and takes the first option of a confirm without yes', () => {
+    expect(decide(prompt({ kind: 'confirm', options: [{ id: 'no', label: '' }, { id: 'yes', label: '' }] }))).toEqual({
+      optionIds: ['yes'],
+    });
+    expect(decide(prompt({ kind: 'confirm', options: [{ id: 'opt:1', label: '' }, { id: 'opt:2', label: '' }] }))).toEqual({
+      optionIds: ['opt:1'],
+    });
+    expect(decide(prompt({ kind: 'confirm', options: [] }))).toBeNull();
+  });
+
+  it('gives up on prompts it cannot answer', () => {
+    expect(decide(prompt({ kind: 'unsupported' }))).toBeNull();
+  });
+});
+
+describe('pass policy (goldfish)', () => {
+  const goldfish = botPolicy('pass');
+  const decidePass = (p: DuelPrompt) =>
+    goldfish.decide({ prompt: p, board: board(), activated: new Set(), retries: 0 });
+
+  it('ends its turn without playing anything', () => {
+    const p = prompt({
+      options: [
+        { id: 'summon:0', label: '', code: 1, location: 0x2, sequence: 0, controller: 1 },
+        { id: 'tobp', label: '' },
+        { id: 'toep', label: '' },
+      ],
+    });
+    expect(decidePass(p)).toEqual({ optionIds: ['toep'] });
+  });
+
+  it('lets every chain go by and declines optional effects', () => {
+    const chain = prompt({
+      kind: 'chain',
+      min: 0,
+      canCancel: true,
+      options: [{ id: 'chain:0', label: '', code: 6, location: 0x2, sequence: 0, controller: 1 }],
+    });
+    expect(decidePass(chain)).toEqual({ optionIds: [], cancel: true });
+    const confirm = prompt({ kind: 'confirm', options: [{ id: 'yes', label: '' }, { id: 'no', label: '' }] });
+    expect(decidePass(confirm)).toEqual({ optionIds: ['no'] });
+  });
+
+  it('gives the bare minimum when the engine insists', () => {
+    const discard = prompt({
+      kind: 'cards',
+      min: 2,
+      max: 2,
+      options: [0, 1, 2].map((i) => ({ id: `card:${i}`, label: '', code: 1 + i, location: 0x2, sequence: i, controller: 1 as const })),
+    });
+    expect(decidePass(discard)).toEqual({ optionIds: ['card:0', 'card:1'] });
+  });
+});
+
+describe('policy registry', () => {
+  it('lists every opponent policy and recognises their ids', () => {
+    expect(listBotPolicies().map((p) => p.id)).toEqual(['rules', 'random']);
+    expect(isBotPolicyId('random')).toBe(true);
+    expect(isBotPolicyId('pass')).toBe(true);
+    expect(isBotPolicyId('toString')).toBe(false);
+  });
+});
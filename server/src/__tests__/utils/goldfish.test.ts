@@ -0,0 +1,54 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for the combo lab (goldfish) helpers
+ */
+
+import {
+  MAX_OPENING_HAND,
+  openingHandProblem,
+  seedFromNumber,
+  withOpeningHand,
+} from '../../services/duelEngine/goldfish';
+
+describe('seedFromNumber', () => {
+  it('gives the same four words for the same number', () => {
+    expect(seedFromNumber(42)).toEqual(seedFromNumber(42));
+    expect(seedFromNumber(42)).not.toEqual(seedFromNumber(43));
+  });
+
+  it('never yields a zero word, even from zero', () => {
+    const seed = seedFromNumber(0);
+    expect(seed).toHaveLength(4);
+    for (const word of seed) {
+      expect(word).toBeGreaterThan(0n);
+      expect(word < 1n << 64n).toBe(true);
+    }
+  });
+});
+
+describe('openingHandProblem', () => {
+  const main = [1, 1, 2, 3, 4, 5, 6, 7];
+
+  it('accepts a hand drawn from the main deck, copies included', () => {
+    expect(openingHandProblem(main, [1, 1, 2])).toBeNull();
+    expect(openingHandProblem(main, [])).toBeNull();
+  });
+
+  it('refuses a card missing from the deck or one copy too many', () => {
+    expect(openingHandProblem(main, [9])).toMatch(/9/);
+    expect(openingHandProblem(main, [2, 2])).toMatch(/2/);
+  });
+
+  it('caps the hand size', () => {
+    expect(openingHandProblem(main, main.slice(0, MAX_OPENING_HAND + 1))).toMatch(/Au plus/);
+  });
+});
+
+describe('withOpeningHand', () => {
+  it('stacks the chosen cards and leaves the deck alone otherwise', () => {
+    const deck = { main: [1, 2, 3], extra: [9] };
+    expect(withOpeningHand(deck, [3, 1])).toEqual({ main: [1, 2, 3], extra: [9], top: [3, 1] });
+    expect(withOpeningHand(deck, [])).toBe(deck);
+    expect(withOpeningHand(deck, null)).toBe(deck);
+  });
+});
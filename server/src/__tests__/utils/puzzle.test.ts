@@ -0,0 +1,129 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for the duel puzzle format and outcome
+ */
+
+import type { DuelStateResponse } from '../../../../shared/duelView';
+import { parsePuzzleSetup, puzzleCodes, puzzleOutcome, puzzleToEngine } from '../../services/duelEngine/puzzle';
+import { DuelSession } from '../../services/duelEngine/session';
+
+const setup = {
+  goal: 'win_this_turn',
+  player: {
+    lp: 8000,
+    hand: [12580477],
+    deck: [1, 2, 3],
+    extra: [23995346],
+    monsters: [{ code: 89631139 }, null, { code: 91152256, position: 'set' }],
+    spells: [null, null, null, null, null, { code: 4 }],
+    graveyard: [46986414],
+  },
+  opponent: { lp: 3000, monsters: [{ code: 70781052, position: 'defense' }] },
+};
+
+describe('parsePuzzleSetup', () => {
+  it('fills the missing lists and keeps the zones in place', () => {
+    const parsed = parsePuzzleSetup(setup);
+    if ('error' in parsed) throw new Error(parsed.error);
+    expect(parsed.setup.opponent).toEqual({
+      lp: 3000,
+      hand: [],
+      deck: [],
+      extra: [],
+      monsters: [{ code: 70781052, position: 'defense' }],
+      spells: [],
+      graveyard: [],
+      banished: [],
+    });
+    expect(parsed.setup.player.monsters[1]).toBeNull();
+  });
+
+  it('refuses an unknown goal, bad LP, bad passcodes and too many zones', () => {
+    expect(parsePuzzleSetup({ ...setup, goal: 'survive' })).toHaveProperty('error');
+    expect(parsePuzzleSetup({ ...setup, opponent: { lp: 0 } })).toHaveProperty('error');
+    expect(parsePuzzleSetup({ ...setup, opponent: { lp: 100, hand: ['Raigeki'] } })).toHaveProperty('error');
+    expect(
+      parsePuzzleSetup({ ...setup, opponent: { lp: 100, monsters: Array(8).fill(null) } })
+    ).toHaveProperty('error');
+    expect(
+      parsePuzzleSetup({ ...setup, opponent: { lp: 100, spells: [{ code: 1, position: 'sideways' }] } })
+    ).toHaveProperty('error');
+  });
+
+  it('lists every passcode once', () => {
+    const parsed = parsePuzzleSetup(setup);
+    if ('error' in parsed) throw new Error(parsed.error);
+    expect(puzzleCodes(parsed.setup).sort((a, b) => a - b)).toEqual(
+      [1, 2, 3, 4, 12580477, 23995346, 46986414, 70781052, 89631139, 91152256].sort((a, b) => a - b)
+    );
+  });
+});
+
+describe('puzzleToEngine', () => {
+  it('places every card and keeps the deck order', () => {
+    const parsed = parsePuzzleSetup(setup);
+    if ('error' in parsed) throw new Error(parsed.error);
+    const [player, opponent] = puzzleToEngine(parsed.setup);
+
+    expect(player.lp).toBe(8000);
+    expect(player.top).toEqual([1, 2, 3]);
+    expect(player.placed).toEqual([
+      { code: 89631139, location: 'monster', sequence: 0, position: 'attack' },
+      { code: 91152256, location: 'monster', sequence: 2, position: 'set' },
+      { code: 4, location: 'spell', sequence: 5, position: 'attack' },
+      { code: 12580477, location: 'hand', sequence: 0, position: 'attack' },
+      { code: 46986414, location: 'grave', sequence: 0, position: 'attack' },
+    ]);
+    expect(opponent).toEqual({
+      main: [],
+      extra: [],
+      top: [],
+      placed: [{ code: 70781052, location: 'monster', sequence: 0, position: 'defense' }],
+      lp: 3000,
+    });
+  });
+});
+
+describe('puzzleOutcome', () => {
+  // The real turn counter: a session fed with the message sequence the engine
+  // emits. ocgcore-wasm is ESM-only and jest does not load it, so the few
+  // constants needed are copied with their actual values.
+  const ocg = {
+    OcgMessageType: { WIN: 5, SELECT_IDLECMD: 11, NEW_TURN: 40, NEW_PHASE: 41 },
+    OcgProcessResult: { END: 0, WAITING: 1, CONTINUE: 2 },
+  } as any;
+  const store = { data: new Map() } as any;
+
+  /** One engine batch up to the next request, as the worker pumps it */
+  const pumpTurn = (session: DuelSession, player: 0 | 1) => {
+    const lib = {
+      duelProcess: () => ocg.OcgProcessResult.WAITING,
+      duelGetMessage: () => [
+        { type: ocg.OcgMessageType.NEW_TURN, player },
+        { type: ocg.OcgMessageType.NEW_PHASE, phase: 0x01 },
+        { type: ocg.OcgMessageType.SELECT_IDLECMD, player },
+      ],
+    } as any;
+    session.pump(lib, ocg, store, 10);
+  };
+
+  const stateOf = (session: DuelSession, patch: Partial<DuelStateResponse> = {}) =>
+    ({ status: 'awaiting_response', winner: null, ...patch, board: { turn: session.turn } }) as DuelStateResponse;
+
+  it('is still open, then solved, during the first turn the engine announces', () => {
+    const session = new DuelSession(0 as any, 8000);
+    pumpTurn(session, 0);
+    expect(session.turn).toBe(1);
+    expect(puzzleOutcome(stateOf(session))).toBeNull();
+    expect(puzzleOutcome(stateOf(session, { status: 'ended', winner: 0 }))).toBe('solved');
+    expect(puzzleOutcome(stateOf(session, { status: 'ended', winner: 1 }))).toBe('failed');
+  });
+
+  it("fails once the opponent's turn starts, even if the opponent then decks out", () => {
+    const session = new DuelSession(0 as any, 8000);
+    pumpTurn(session, 0);
+    pumpTurn(session, 1);
+    expect(puzzleOutcome(stateOf(session))).toBe('failed');
+    expect(puzzleOutcome(stateOf(session, { status: 'ended', winner: 0 }))).toBe('failed');
+  });
+});
@@ -0,0 +1,66 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for the shared side plan logic (application, limits, body shape)
+ */
+
+import { applySidePlan, describeSidePlan, normalizeSidePlans } from '../../../../shared/sidePlans';
+
+describe('Side plans', () => {
+  // 1 = Maxx "C" ×3, 2 = filler ×37, 3 = Borreload (Extra) ×1 ; Side : 4 = Droll ×3, 5 = Linkuriboh (Extra) ×1
+  const sections = {
+    main: [1, 1, 1, ...Array(37).fill(2)],
+    extra: [3],
+    side: [4, 4, 4, 5],
+  };
+  const context = { isExtra: (id: number) => id === 3 || id === 5, nameOf: (id: number) => `Carte ${id}` };
+
+  it('swaps cards between the Main and the Side, Extra Deck cards included', () => {
+    const { sections: after, problems } = applySidePlan(
+      sections,
+      {
+        name: 'vs Snake-Eye',
+        out: [{ card_id: 1, quantity: 2 }, { card_id: 3, quantity: 1 }],
+        in: [{ card_id: 4, quantity: 2 }, { card_id: 5, quantity: 1 }],
+      },
+      context
+    );
+
+    expect(problems).toEqual([]);
+    expect(after.main.filter((id) => id === 1)).toHaveLength(1);
+    expect(after.main.filter((id) => id === 4)).toHaveLength(2);
+    expect(after.extra).toEqual([5]);
+    expect(after.side.sort()).toEqual([1, 1, 3, 4]);
+  });
+
+  it('reports missing cards and section limits', () => {
+    const { problems } = applySidePlan(
+      sections,
+      { name: 'vs Tenpai', out: [{ card_id: 1, quantity: 4 }, { card_id: 2, quantity: 10 }], in: [{ card_id: 1, quantity: 1 }] },
+      context
+    );
+
+    expect(problems).toEqual([
+      'Carte 1 : 4 à sortir, 3 dans le Main Deck',
+      'Carte 1 : 1 à rentrer, 0 dans le Side Deck',
+      'Main Deck : 27 cartes après le side (attendu 40-60)',
+      'Side Deck : 17 cartes après le side (max 15)',
+    ]);
+  });
+
+  it('normalizes plan bodies', () => {
+    expect(
+      normalizeSidePlans([
+        { name: ' vs Yubel ', out: [{ card_id: 1, quantity: 1 }, { card_id: 1, quantity: 1 }], in: [{ card_id: 4, quantity: 2 }] },
+      ])
+    ).toEqual([{ name: 'vs Yubel', out: [{ card_id: 1, quantity: 2 }], in: [{ card_id: 4, quantity: 2 }] }]);
+    expect(describeSidePlan({ name: 'x', out: [{ card_id: 1, quantity: 2 }], in: [{ card_id: 4, quantity: 3 }] })).toBe(
+      '-2 / +3'
+    );
+
+    // Noms en double (casse ignorée), plan vide, quantité invalide
+    expect(normalizeSidePlans([{ name: 'A', in: [{ card_id: 4, quantity: 1 }] }, { name: 'a', out: [{ card_id: 1, quantity: 1 }] }])).toBeNull();
+    expect(normalizeSidePlans([{ name: 'A', out: [], in: [] }])).toBeNull();
+    expect(normalizeSidePlans([{ name: 'A', out: [{ card_id: 1, quantity: 0 }] }])).toBeNull();
+    expect(normalizeSidePlans({ name: 'A' })).toBeNull();
+  });
+});
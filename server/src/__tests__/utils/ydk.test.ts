@@ -0,0 +1,103 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for the .ydk / ydke:// deck list formats
+ */
+
+import {
+  parseYdk,
+  serializeYdk,
+  parseYdke,
+  serializeYdke,
+  detectDeckListFormat,
+  parseDeckList,
+} from '../../utils/ydk';
+
+describe('YDK utilities', () => {
+  const sections = {
+    main: [89631139, 89631139, 46986414],
+    extra: [44508094],
+    side: [14558127, 14558127],
+  };
+
+  describe('parseYdk', () => {
+    it('should read the three sections', () => {
+      const content = [
+        '#created by someone',
+        '#main',
+        '89631139',
+        '89631139',
+        '46986414',
+        '#extra',
+        '44508094',
+        '!side',
+        '14558127',
+        '14558127',
+      ].join('\n');
+
+      expect(parseYdk(content)).toEqual(sections);
+    });
+
+    it('should tolerate CRLF, blank lines and surrounding spaces', () => {
+      const content = '#main\r\n  89631139 \r\n\r\n#extra\r\n44508094\r\n!side\r\n';
+
+      expect(parseYdk(content)).toEqual({ main: [89631139], extra: [44508094], side: [] });
+    });
+
+    it('should put cards before any header in the main deck', () => {
+      expect(parseYdk('89631139\n46986414')).toEqual({
+        main: [89631139, 46986414],
+        extra: [],
+        side: [],
+      });
+    });
+
+    it('should reject a line that is not a passcode', () => {
+      expect(() => parseYdk('#main\n89631139\nBlue-Eyes')).toThrow('Ligne 3');
+    });
+  });
+
+  describe('serializeYdk', () => {
+    it('should round-trip through parseYdk', () => {
+      const content = serializeYdk(sections, 'tester');
+
+      expect(content.startsWith('#created by tester\n#main\n')).toBe(true);
+      expect(parseYdk(content)).toEqual(sections);
+    });
+  });
+
+  describe('ydke', () => {
+    it('should round-trip through parseYdke', () => {
+      const url = serializeYdke(sections);
+
+      expect(url.startsWith('ydke://')).toBe(true);
+      expect(url.endsWith('!')).toBe(true);
+      expect(parseYdke(url)).toEqual(sections);
+    });
+
+    it('should encode passcodes as little-endian uint32', () => {
+      const url = serializeYdke({ main: [1], extra: [], side: [] });
+
+      expect(url).toBe('ydke://AQAAAA==!!!');
+    });
+
+    it('should reject a missing prefix', () => {
+      expect(() => parseYdke('AQAAAA==!!!')).toThrow('ydke://');
+    });
+
+    it('should reject a truncated section', () => {
+      expect(() => parseYdke('ydke://AQAA!!!')).toThrow('tronquée');
+    });
+  });
+
+  describe('detectDeckListFormat / parseDeckList', () => {
+    it('should detect ydke URLs regardless of case and whitespace', () => {
+      expect(detectDeckListFormat('  YDKE://AQAAAA==!!!')).toBe('ydke');
+      expect(detectDeckListFormat('#main\n1')).toBe('ydk');
+    });
+
+    it('should dispatch to the right parser', () => {
+      expect(parseDeckList(serializeYdke(sections))).toEqual(sections);
+      expect(parseDeckList(serializeYdk(sections))).toEqual(sections);
+    });
+  });
+});
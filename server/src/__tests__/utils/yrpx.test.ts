@@ -0,0 +1,107 @@
+/// <reference types="jest" />
+/**
+ * Unit tests for the EDOPro replay exporter
+ */
+
+import {
+  encodeResponse,
+  writeYrpx,
+  OLD_REPLAY_MODE,
+  REPLAY_COMPRESSED,
+  REPLAY_EXTENDED_HEADER,
+  REPLAY_YRP1,
+  REPLAY_YRPX,
+} from '../../services/duelEngine/yrpx';
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+
+describe('encodeResponse', () => {
+  it('packs idle commands as action | index << 16', () => {
+    expect(hex(encodeResponse({ type: 1, action: 2, index: 3 } as any))).toBe('02000300');
+    expect(hex(encodeResponse({ type: 0, action: 3, index: null } as any))).toBe('03000000');
+  });
+
+  it('writes card selections as a counted list, or -1 to cancel', () => {
+    expect(hex(encodeResponse({ type: 5, indicies: [1, 4] } as any))).toBe('00000000' + '02000000' + '01000000' + '04000000');
+    expect(hex(encodeResponse({ type: 12, indicies: null } as any))).toBe('ffffffff');
+  });
+
+  it('writes chain and unselect cancels as -1', () => {
+    expect(hex(encodeResponse({ type: 8, index: null } as any))).toBe('ffffffff');
+    expect(hex(encodeResponse({ type: 7, index: 2 } as any))).toBe('01000000' + '02000000');
+  });
+
+  it('writes places as player, location, sequence bytes', () => {
+    const places = [{ player: 0, location: 4, sequence: 2 }];
+    expect(hex(encodeResponse({ type: 10, places } as any))).toBe('000402');
+  });
+
+  it('writes counters on 16 bits and sort order on 8 bits', () => {
+    expect(hex(encodeResponse({ type: 13, counters: [2, 0] } as any))).toBe('02000000');
+    expect(hex(encodeResponse({ type: 15, order: [1, 0] } as any))).toBe('020100');
+    expect(hex(encodeResponse({ type: 15, order: null } as any))).toBe('ff');
+  });
+
+  it('ORs announced races and attributes', () => {
+    expect(hex(encodeResponse({ type: 16, races: [1n, 4n] } as any))).toBe('0500000000000000');
+    expect(hex(encodeResponse({ type: 17, attributes: [0x10, 0x20] } as any))).toBe('30000000');
+  });
+});
+
+describe('writeYrpx', () => {
+  const params = {
+    names: ['Yugi', 'Kaiba'] as [string, string],
+    seed: [1n, 2n, 3n, 4n] as [bigint, bigint, bigint, bigint],
+    decks: [
+      { main: [89631139, 46986414], extra: [] },
+      { main: [38033121], extra: [44508094] },
+    ] as [any, any],
+    responses: [encodeResponse({ type: 1, action: 6, index: null } as any)],
+    duelFlags: 0x2000n,
+    startingLP: 8000,
+    startingDrawCount: 5,
+    drawCountPerTurn: 1,
+    coreVersion: [10, 0] as [number, number],
+    startedAt: 1760000000,
+  };
+
+  const file = writeYrpx(params);
+
+  it('writes an uncompressed yrpX header whose size matches the body', () => {
+    expect(file.readUInt32LE(0)).toBe(REPLAY_YRPX);
+    expect(file.readUInt32LE(8) & REPLAY_COMPRESSED).toBe(0);
+    expect(file.readUInt32LE(12)).toBe(1760000000);
+    expect(file.readUInt32LE(16)).toBe(file.length - 32);
+  });
+
+  it('starts the body with both names in UTF-16', () => {
+    expect(file.readUInt32LE(32)).toBe(1);
+    expect(file.toString('utf16le', 36, 44)).toBe('Yugi');
+    expect(file.readUInt16LE(44)).toBe(0);
+  });
+
+  it('embeds a yrp1 with the 256-bit seed, decks and responses', () => {
+    // en-tête 32 + deux noms (4 + 40) + drapeaux 8
+    const packet = 32 + 2 * 44 + 8;
+    expect(file.readUInt8(packet)).toBe(OLD_REPLAY_MODE);
+    const yrp1 = file.subarray(packet + 5);
+    expect(yrp1.length).toBe(file.readUInt32LE(packet + 1));
+
+    expect(yrp1.readUInt32LE(0)).toBe(REPLAY_YRP1);
+    expect(yrp1.readUInt32LE(8) & REPLAY_EXTENDED_HEADER).toBe(REPLAY_EXTENDED_HEADER);
+    expect(yrp1.readBigUInt64LE(32)).toBe(1n);
+    expect([40, 48, 56, 64].map((o) => yrp1.readBigUInt64LE(o))).toEqual([1n, 2n, 3n, 4n]);
+    expect(yrp1.readUInt32LE(16)).toBe(yrp1.length - 72);
+
+    let o = 72 + 2 * 44;
+    expect([yrp1.readUInt32LE(o), yrp1.readUInt32LE(o + 4), yrp1.readUInt32LE(o + 8)]).toEqual([8000, 5, 1]);
+    o += 12;
+    expect(yrp1.readBigUInt64LE(o)).toBe(0x2000n);
+    o += 8;
+    expect(yrp1.readUInt32LE(o)).toBe(2);
+    expect(yrp1.readUInt32LE(o + 4)).toBe(89631139);
+
+    // la dernière réponse ferme le fichier : longueur sur un octet, puis les octets
+    expect(hex(yrp1.subarray(yrp1.length - 5))).toBe('04' + '06000000');
+  });
+});
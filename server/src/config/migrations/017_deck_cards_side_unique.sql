@@ -0,0 +1,11 @@
+-- Migration: une même carte peut figurer dans le Main ET dans le Side Deck.
+--
+-- La contrainte d'origine `UNIQUE(deck_id, card_id, is_extra_deck)` date
+-- d'avant le Side Deck (migration 012). Avec elle, 2 exemplaires au Main et
+-- 1 au Side d'une même carte — le cas le plus courant d'un sideboard — tombent
+-- sur une violation d'unicité. On élargit la clé au drapeau `is_side_deck`.
+
+ALTER TABLE deck_cards DROP CONSTRAINT IF EXISTS deck_cards_deck_id_card_id_is_extra_deck_key;
+ALTER TABLE deck_cards DROP CONSTRAINT IF EXISTS deck_cards_section_unique;
+ALTER TABLE deck_cards ADD CONSTRAINT deck_cards_section_unique
+  UNIQUE (deck_id, card_id, is_extra_deck, is_side_deck);
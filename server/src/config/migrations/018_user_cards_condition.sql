@@ -0,0 +1,8 @@
+-- Migration: état de la carte (échelle Cardmarket MT/NM/EX/GD/LP/PL/PO).
+--
+-- Colonne optionnelle, renseignée par l'import CSV de la collection. Elle ne
+-- fait pas (encore) partie de la clé d'unicité : un import qui retombe sur une
+-- ligne existante incrémente sa quantité et ne remplace l'état que s'il est
+-- fourni.
+
+ALTER TABLE user_cards ADD COLUMN IF NOT EXISTS condition VARCHAR(2);
@@ -0,0 +1,25 @@
+-- Historique des prix et de la valeur des collections.
+--
+-- `cards.card_prices` ne garde que le dernier prix YGOProDeck connu : on ne
+-- peut pas dire si une carte a monté ou baissé. Le cron quotidien (index.ts)
+-- rafraîchit les prix des cartes possédées puis photographie :
+--   - card_price_snapshots : prix Cardmarket EUR (cf. cardmarketPriceEUR) par carte et par jour ;
+--   - collection_value_snapshots : valeur totale de chaque collection ce jour-là.
+-- Une ligne par jour : relancer le job le même jour écrase la photo du jour.
+
+CREATE TABLE IF NOT EXISTS card_price_snapshots (
+  card_id INTEGER NOT NULL REFERENCES cards(id) ON DELETE CASCADE,
+  snapshot_date DATE NOT NULL,
+  price_eur NUMERIC(10, 2) NOT NULL,
+  PRIMARY KEY (card_id, snapshot_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_card_price_snapshots_date ON card_price_snapshots(snapshot_date);
+
+CREATE TABLE IF NOT EXISTS collection_value_snapshots (
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  snapshot_date DATE NOT NULL,
+  total_value_eur NUMERIC(12, 2) NOT NULL,
+  total_cards INTEGER NOT NULL,
+  PRIMARY KEY (user_id, snapshot_date)
+);
@@ -0,0 +1,26 @@
+-- Migration: détail des exemplaires de collection.
+--
+-- Un Near Mint 1ère édition et un Played Unlimited du même set ne valent pas
+-- le même prix : l'état (ajouté en 018) et l'édition entrent dans la clé
+-- d'unicité. Les deux colonnes sont NOT NULL avec une valeur par défaut —
+-- une contrainte UNIQUE considère deux NULL comme distincts, et l'upsert
+-- `ON CONFLICT` ne retrouverait plus la ligne existante.
+--
+-- Prix d'achat (unitaire, EUR), date d'achat et notes libres servent au prix
+-- de revient et à la plus-value latente de `getCollectionStats`.
+
+UPDATE user_cards SET condition = 'NM' WHERE condition IS NULL;
+ALTER TABLE user_cards ALTER COLUMN condition SET DEFAULT 'NM';
+ALTER TABLE user_cards ALTER COLUMN condition SET NOT NULL;
+
+ALTER TABLE user_cards ADD COLUMN IF NOT EXISTS edition VARCHAR(10) NOT NULL DEFAULT 'unlimited';
+ALTER TABLE user_cards ADD COLUMN IF NOT EXISTS purchase_price_eur NUMERIC(10, 2);
+ALTER TABLE user_cards ADD COLUMN IF NOT EXISTS purchase_date DATE;
+ALTER TABLE user_cards ADD COLUMN IF NOT EXISTS notes TEXT;
+
+-- Nom auto-généré par database.sql, ou nom posé à la main par l'ancienne
+-- migration langue (commentée dans database.sql) : on retire les deux.
+ALTER TABLE user_cards DROP CONSTRAINT IF EXISTS user_cards_user_id_card_id_set_code_rarity_language_key;
+ALTER TABLE user_cards DROP CONSTRAINT IF EXISTS user_cards_unique;
+ALTER TABLE user_cards ADD CONSTRAINT user_cards_unique
+  UNIQUE (user_id, card_id, set_code, rarity, language, condition, edition);
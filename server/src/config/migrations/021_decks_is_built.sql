@@ -0,0 +1,8 @@
+-- Migration: decks « montés » physiquement.
+--
+-- Seuls les decks montés immobilisent des exemplaires de la collection
+-- (`UserCardModel.getAvailability` / `getAllocation`). Les autres sont des
+-- projets : ils peuvent tous viser la même carte sans se la disputer.
+-- Défaut false — chaque utilisateur choisit ce qui est réellement monté.
+
+ALTER TABLE decks ADD COLUMN IF NOT EXISTS is_built BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,45 @@
+-- Migration: échanges de cartes entre abonnés mutuels.
+--
+-- Une offre (`trades`) liste ce que chaque camp donne (`trade_items`). Une
+-- contre-proposition est une nouvelle offre dans l'autre sens, rattachée à
+-- la précédente par `parent_id` ; l'ancienne passe en 'countered'.
+--
+-- Les lignes d'échange recopient la clé d'impression de `user_cards` (set,
+-- rareté, langue, état, édition) plutôt que son id : une ligne de collection
+-- peut être fusionnée ou supprimée entre l'offre et l'acceptation. Le
+-- transfert retrouve la ligne du donneur par cette clé au moment d'accepter.
+
+CREATE TABLE IF NOT EXISTS trades (
+  id SERIAL PRIMARY KEY,
+  proposer_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  recipient_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status VARCHAR(10) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'declined', 'cancelled', 'countered')),
+  parent_id INTEGER REFERENCES trades(id) ON DELETE SET NULL,
+  message TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMP,
+  CHECK (proposer_id <> recipient_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trades_proposer ON trades(proposer_id, status);
+CREATE INDEX IF NOT EXISTS idx_trades_recipient ON trades(recipient_id, status);
+
+CREATE TABLE IF NOT EXISTS trade_items (
+  id SERIAL PRIMARY KEY,
+  trade_id INTEGER NOT NULL REFERENCES trades(id) ON DELETE CASCADE,
+  from_user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  card_id INTEGER NOT NULL REFERENCES cards(id) ON DELETE CASCADE,
+  set_code VARCHAR(50),
+  rarity VARCHAR(50),
+  language VARCHAR(10) NOT NULL DEFAULT 'EN',
+  condition VARCHAR(2) NOT NULL DEFAULT 'NM',
+  edition VARCHAR(10) NOT NULL DEFAULT 'unlimited',
+  quantity INTEGER NOT NULL CHECK (quantity > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trade_items_trade ON trade_items(trade_id);
+
+-- Les notifications d'échange pointent vers l'offre concernée.
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS trade_id INTEGER REFERENCES trades(id) ON DELETE CASCADE;
@@ -0,0 +1,24 @@
+-- Migration: classeur d'échange (haves / wants).
+--
+-- « À l'échange » est un sous-ensemble des exemplaires d'une ligne de
+-- collection : `for_trade` n'est pas borné par une contrainte, une quantité
+-- pouvant baisser (retrait, échange conclu) sans qu'on repasse sur la ligne.
+-- Les lectures prennent LEAST(for_trade, quantity).
+--
+-- La liste de recherche est par carte, toutes impressions confondues : on
+-- cherche « 3 Ash Blossom », pas une rareté précise.
+
+ALTER TABLE user_cards ADD COLUMN IF NOT EXISTS for_trade INTEGER NOT NULL DEFAULT 0 CHECK (for_trade >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_user_cards_for_trade ON user_cards(card_id) WHERE for_trade > 0;
+
+CREATE TABLE IF NOT EXISTS card_wants (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  card_id INTEGER NOT NULL REFERENCES cards(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (user_id, card_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_card_wants_card ON card_wants(card_id);
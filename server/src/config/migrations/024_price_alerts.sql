@@ -0,0 +1,16 @@
+-- Migration: alertes de prix sur la liste de recherche.
+--
+-- `target_price_eur` : prix Cardmarket visé, optionnel. Quand le relevé
+-- quotidien passe au prix cible ou en dessous, une notification `price_alert`
+-- part et `alerted_price_eur` retient le prix annoncé. L'alerte ne se
+-- redéclenche qu'une fois le prix repassé au-dessus de la cible (ou la cible
+-- modifiée), pour ne pas notifier chaque jour la même baisse.
+
+ALTER TABLE card_wants ADD COLUMN IF NOT EXISTS target_price_eur NUMERIC(10,2) CHECK (target_price_eur > 0);
+ALTER TABLE card_wants ADD COLUMN IF NOT EXISTS alerted_price_eur NUMERIC(10,2);
+
+CREATE INDEX IF NOT EXISTS idx_card_wants_target ON card_wants(card_id) WHERE target_price_eur IS NOT NULL;
+
+-- Les alertes de prix pointent vers la carte et le prix relevé.
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS card_id INTEGER REFERENCES cards(id) ON DELETE CASCADE;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS price_eur NUMERIC(10,2);
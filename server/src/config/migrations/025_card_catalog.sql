@@ -0,0 +1,58 @@
+-- Miroir local du catalogue YGOProDeck.
+--
+-- Jusqu'ici `cards` ne contenait que les cartes déjà croisées (ajout en
+-- collection, import de deck) et chaque recherche par code partait sur l'API.
+-- Le job `syncCardCatalog` importe désormais tout le catalogue :
+--   - card_printings : une ligne par impression (code set × rareté), la clé
+--     de résolution des codes sans passer par le JSONB `cards.card_sets` ;
+--   - cards.catalog_hash : empreinte de la carte telle que reçue à la
+--     dernière synchro, pour ne réécrire que ce qui a changé ;
+--   - card_catalog_syncs : journal des synchros (et des essais à blanc).
+-- Les impressions déjà connues sont reprises depuis `cards.card_sets`.
+
+CREATE TABLE IF NOT EXISTS card_printings (
+  id SERIAL PRIMARY KEY,
+  card_id INTEGER NOT NULL REFERENCES cards(id) ON DELETE CASCADE,
+  set_code VARCHAR(30) NOT NULL,
+  set_name VARCHAR(255) NOT NULL,
+  rarity VARCHAR(100) NOT NULL DEFAULT '',
+  rarity_code VARCHAR(20),
+  set_price NUMERIC(10, 2),
+  UNIQUE (card_id, set_code, rarity)
+);
+
+CREATE INDEX IF NOT EXISTS idx_card_printings_set_code ON card_printings(set_code);
+CREATE INDEX IF NOT EXISTS idx_card_printings_prefix ON card_printings((split_part(set_code, '-', 1)));
+
+ALTER TABLE cards ADD COLUMN IF NOT EXISTS catalog_hash VARCHAR(32);
+
+CREATE INDEX IF NOT EXISTS idx_cards_name_fr ON cards(name_fr);
+
+CREATE TABLE IF NOT EXISTS card_catalog_syncs (
+  id SERIAL PRIMARY KEY,
+  started_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  finished_at TIMESTAMP,
+  db_version VARCHAR(50),
+  dry_run BOOLEAN NOT NULL DEFAULT FALSE,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('success', 'skipped', 'failed')),
+  total INTEGER NOT NULL DEFAULT 0,
+  inserted INTEGER NOT NULL DEFAULT 0,
+  updated INTEGER NOT NULL DEFAULT 0,
+  unchanged INTEGER NOT NULL DEFAULT 0,
+  printings INTEGER NOT NULL DEFAULT 0,
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_card_catalog_syncs_started ON card_catalog_syncs(started_at DESC);
+
+INSERT INTO card_printings (card_id, set_code, set_name, rarity, rarity_code, set_price)
+SELECT c.id,
+       UPPER(s->>'set_code'),
+       COALESCE(s->>'set_name', ''),
+       COALESCE(s->>'set_rarity', ''),
+       s->>'set_rarity_code',
+       NULLIF(s->>'set_price', '')::NUMERIC(10, 2)
+FROM cards c
+CROSS JOIN LATERAL jsonb_array_elements(COALESCE(c.card_sets, '[]'::jsonb)) s
+WHERE s->>'set_code' IS NOT NULL
+ON CONFLICT (card_id, set_code, rarity) DO NOTHING;
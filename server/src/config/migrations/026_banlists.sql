@@ -0,0 +1,37 @@
+-- Banlists datées et nommées.
+--
+-- `cards.banlist_info` ne garde que le statut TCG *actuel* renvoyé par
+-- YGOProDeck : impossible d'y vérifier un deck contre la liste précédente,
+-- l'OCG, le GOAT ou une liste maison. Les listes vivent désormais à part,
+-- importées depuis le format `lflist.conf` (EDOPro / YGOPro) :
+--   - banlists : une liste = un format + un nom + une date d'entrée en vigueur ;
+--     `whitelist` : seules les cartes listées sont autorisées (GOAT, formats
+--     fermés) ;
+--   - banlist_entries : limite par passcode (cards.card_id), 0 à 3.
+-- Sans liste importée pour un format, la validation retombe sur
+-- `cards.banlist_info.ban_tcg` (comportement historique).
+--
+-- duels.banlist_id fige la liste d'un duel 'standard' au moment du défi ;
+-- NULL = dernière liste TCG en vigueur au lancement.
+
+CREATE TABLE IF NOT EXISTS banlists (
+  id SERIAL PRIMARY KEY,
+  format VARCHAR(10) NOT NULL CHECK (format IN ('tcg', 'ocg', 'goat', 'custom')),
+  name VARCHAR(100) NOT NULL,
+  effective_date DATE NOT NULL,
+  whitelist BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (format, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_banlists_format_date ON banlists(format, effective_date DESC);
+
+CREATE TABLE IF NOT EXISTS banlist_entries (
+  banlist_id INTEGER NOT NULL REFERENCES banlists(id) ON DELETE CASCADE,
+  card_code VARCHAR(50) NOT NULL,
+  limit_count SMALLINT NOT NULL CHECK (limit_count BETWEEN 0 AND 3),
+  PRIMARY KEY (banlist_id, card_code)
+);
+
+ALTER TABLE duels ADD COLUMN IF NOT EXISTS banlist_id INTEGER REFERENCES banlists(id) ON DELETE SET NULL;
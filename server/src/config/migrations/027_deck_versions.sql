@@ -0,0 +1,48 @@
+-- Historique des versions de deck.
+--
+-- `deck_cards` est réécrit en place (ajout, quantité, remplacement complet par
+-- l'éditeur, l'import .ydk ou le constructeur IA) : après une mauvaise
+-- sauvegarde, rien ne permettait de revenir en arrière. Chaque sauvegarde
+-- enregistre désormais un instantané complet du contenu :
+--   - cards : [{card_id, card_code, name, section, quantity}] — passcode et nom
+--     figés pour que l'historique reste lisible si la carte change au catalogue ;
+--   - source : ce qui a produit la version ('edit' pour l'édition carte par
+--     carte, 'replace' pour l'éditeur, 'import', 'clear', 'restore', 'initial') ;
+--   - restored_from : numéro de la version restaurée.
+-- Les éditions carte par carte (mobile) rapprochées sont fusionnées dans une
+-- même version, cf. DeckVersionModel.record.
+--
+-- Les decks existants reçoivent une version 1 ('initial') avec leur contenu
+-- actuel, pour que la première modification soit déjà réversible.
+
+CREATE TABLE IF NOT EXISTS deck_versions (
+  id SERIAL PRIMARY KEY,
+  deck_id INTEGER NOT NULL REFERENCES decks(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  source VARCHAR(10) NOT NULL CHECK (source IN ('edit', 'replace', 'import', 'clear', 'restore', 'initial')),
+  restored_from INTEGER,
+  cards JSONB NOT NULL DEFAULT '[]',
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (deck_id, version)
+);
+
+INSERT INTO deck_versions (deck_id, version, source, cards, created_by, created_at, updated_at)
+SELECT d.id, 1, 'initial',
+       COALESCE(
+         (SELECT jsonb_agg(jsonb_build_object(
+                   'card_id', c.id,
+                   'card_code', c.card_id,
+                   'name', COALESCE(c.name_fr, c.name),
+                   'section', CASE WHEN dc.is_side_deck THEN 'side' WHEN dc.is_extra_deck THEN 'extra' ELSE 'main' END,
+                   'quantity', dc.quantity
+                 ) ORDER BY c.name)
+          FROM deck_cards dc
+          JOIN cards c ON c.id = dc.card_id
+          WHERE dc.deck_id = d.id),
+         '[]'::jsonb
+       ),
+       d.user_id, d.updated_at, d.updated_at
+FROM decks d
+WHERE NOT EXISTS (SELECT 1 FROM deck_versions v WHERE v.deck_id = d.id);
@@ -0,0 +1,22 @@
+-- Forks de decks.
+--
+-- La wishlist (`deck_wishlists`) ne fait que marquer un deck : impossible de
+-- le reprendre dans ses decks pour l'adapter en gardant le lien avec
+-- l'original. Un fork est une copie complète, avec :
+--   - forked_from : deck d'origine (NULL s'il a été supprimé depuis — le fork
+--     survit, seule l'attribution disparaît) ;
+--   - forked_from_version : version de l'origine au moment du fork
+--     (deck_versions, migration 027), pour montrer au propriétaire du fork ce
+--     qui a changé en amont depuis ;
+--   - forked_at.
+-- La première version d'un fork porte la source 'fork'.
+
+ALTER TABLE decks ADD COLUMN IF NOT EXISTS forked_from INTEGER REFERENCES decks(id) ON DELETE SET NULL;
+ALTER TABLE decks ADD COLUMN IF NOT EXISTS forked_from_version INTEGER;
+ALTER TABLE decks ADD COLUMN IF NOT EXISTS forked_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_decks_forked_from ON decks(forked_from) WHERE forked_from IS NOT NULL;
+
+ALTER TABLE deck_versions DROP CONSTRAINT IF EXISTS deck_versions_source_check;
+ALTER TABLE deck_versions ADD CONSTRAINT deck_versions_source_check
+  CHECK (source IN ('edit', 'replace', 'import', 'clear', 'restore', 'initial', 'fork'));
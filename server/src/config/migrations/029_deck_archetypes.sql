@@ -0,0 +1,17 @@
+-- Archétypes et tags des decks.
+--
+-- `GET /decks/public` ne cherchait que dans le nom : impossible de lister
+-- « tous les decks Snake-Eye publics ». Chaque deck porte désormais :
+--   - archetypes : archétypes dominants détectés à chaque sauvegarde, du plus
+--     représenté au moins représenté (cf. utils/deckArchetypes.ts) ;
+--   - archetype_split : part de chaque archétype détecté
+--     ([{name, copies, share}]), pour afficher les decks hybrides ;
+--   - tags : étiquettes libres choisies par le propriétaire, en minuscules
+--     (filtrées par `tags @> ARRAY[...]`, d'où l'index GIN).
+-- Les decks existants se recalculent avec `npm run decks:retag`.
+
+ALTER TABLE decks ADD COLUMN IF NOT EXISTS archetypes TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE decks ADD COLUMN IF NOT EXISTS archetype_split JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE decks ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_decks_tags ON decks USING GIN (tags);
@@ -0,0 +1,20 @@
+-- Consistance des decks : rôles des cartes et scénarios de main de départ.
+--
+-- Le propriétaire étiquette les cartes de son Main (starter, extender,
+-- hand-trap, brique — une carte peut cumuler) et décrit les mains qu'il veut
+-- ouvrir (« 1 starter + 1 hand-trap ») ; GET /decks/:id/consistency en donne
+-- les probabilités en premier et en second (cf. utils/consistency.ts).
+--   - deck_card_roles : une ligne par carte et par rôle. Les rôles d'une carte
+--     retirée du deck restent en base mais ne comptent plus ; ils resservent
+--     si elle revient ;
+--   - decks.consistency_scenarios : scénarios enregistrés, NULL = scénarios
+--     par défaut.
+
+CREATE TABLE IF NOT EXISTS deck_card_roles (
+  deck_id INTEGER NOT NULL REFERENCES decks(id) ON DELETE CASCADE,
+  card_id INTEGER NOT NULL REFERENCES cards(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('starter', 'extender', 'handtrap', 'brick')),
+  PRIMARY KEY (deck_id, card_id, role)
+);
+
+ALTER TABLE decks ADD COLUMN IF NOT EXISTS consistency_scenarios JSONB;
@@ -0,0 +1,26 @@
+-- Plans de side par matchup.
+--
+-- Le propriétaire prépare ses échanges entre deux manches (« vs Snake-Eye :
+-- -2 Maxx "C", +2 Droll ») et les retrouve en un clic dans l'écran de
+-- sideboard des matchs Bo3. Un plan ne stocke que des mouvements :
+--   - cards_out : [{card_id, quantity}] sortis du Main ou de l'Extra ;
+--   - cards_in  : [{card_id, quantity}] entrés depuis le Side.
+-- Il est validé contre le contenu du deck à l'enregistrement
+-- (cf. shared/sidePlans.ts) ; un deck modifié depuis peut rendre un plan
+-- caduc, GET /decks/:id/side-plans le signale sans le supprimer.
+--
+-- Table à part plutôt qu'une colonne de `decks` : les requêtes publiques
+-- lisent `d.*`, et un plan de side n'a pas à être visible de l'adversaire.
+
+CREATE TABLE IF NOT EXISTS deck_side_plans (
+  id SERIAL PRIMARY KEY,
+  deck_id INTEGER NOT NULL REFERENCES decks(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  cards_out JSONB NOT NULL DEFAULT '[]',
+  cards_in JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (deck_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_deck_side_plans_deck ON deck_side_plans(deck_id, position);
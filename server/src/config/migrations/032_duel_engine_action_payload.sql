@@ -0,0 +1,13 @@
+-- Migration: journal moteur complet, pour rejouer une partie finie.
+--
+-- Le journal de la migration 009 ne gardait que `option_ids` et `cancel`. Or
+-- trois invites se répondent autrement : SELECT_COUNTER (un curseur par
+-- cible), ANNOUNCE_CARD (un passcode déclaré) et SELECT_CARD_CODES (des
+-- passcodes). Sans ces valeurs, le rejeu d'une partie qui en contient bute
+-- sur la première et s'arrête là.
+--
+-- `payload` porte le reste de la décision telle que le joueur l'a envoyée :
+--   { counters?: [{targetIdx, take}], announcedCode?: number, cardCodes?: number[] }
+-- NULL pour les décisions ordinaires, c'est-à-dire presque toutes.
+
+ALTER TABLE duel_engine_actions ADD COLUMN IF NOT EXISTS payload JSONB;
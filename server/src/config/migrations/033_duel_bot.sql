@@ -0,0 +1,38 @@
+-- Migration: adversaire automatique pour les duels moteur en solo.
+--
+-- Un duel a toujours deux joueurs en base (`opponent_id NOT NULL REFERENCES
+-- users`). Plutôt que de relâcher cette contrainte — et de faire porter un
+-- cas « sans adversaire » à tout le code des duels — le bot est un compte :
+--   - users.is_bot : le compte n'est pas une personne. Il n'apparaît pas dans
+--     la recherche de joueurs et ne peut pas se connecter (is_active à faux,
+--     mot de passe inutilisable) ;
+--   - duels.bot_policy : le siège adverse est tenu par le bot, avec cette
+--     politique de jeu ('rules', 'random'). NULL pour un duel entre humains.
+--
+-- Le deck du bot est un deck ordinaire (`opponent_deck_id`), choisi par le
+-- joueur parmi les siens ou les decks publics.
+--
+-- Un joueur a pu s'inscrire sous « Duel Bot » avant cette migration : le bot
+-- prend alors le premier nom libre (« Duel Bot 2 », …). Son email, sans point
+-- après l'arobase, est refusé à l'inscription comme au changement de profil :
+-- aucun joueur ne peut le prendre.
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS is_bot BOOLEAN NOT NULL DEFAULT FALSE;
+
+DO $$
+DECLARE
+  bot_name VARCHAR(50) := 'Duel Bot';
+  n INTEGER := 1;
+BEGIN
+  IF EXISTS (SELECT 1 FROM users WHERE is_bot) THEN
+    RETURN;
+  END IF;
+  WHILE EXISTS (SELECT 1 FROM users WHERE username = bot_name) LOOP
+    n := n + 1;
+    bot_name := 'Duel Bot ' || n;
+  END LOOP;
+  INSERT INTO users (username, email, password_hash, is_active, is_bot)
+  VALUES (bot_name, 'duel-bot@localhost', '!', FALSE, TRUE);
+END $$;
+
+ALTER TABLE duels ADD COLUMN IF NOT EXISTS bot_policy VARCHAR(20);
@@ -0,0 +1,34 @@
+-- Migration: labo de combos (goldfish) sur le vrai moteur.
+--
+-- Un goldfish est un duel moteur en solo contre le bot en politique 'pass' :
+-- il répond à toutes les invites sans jamais rien jouer. Le joueur y déroule
+-- ses combos avec les vraies règles, annule ses décisions à volonté et
+-- enregistre les lignes qui marchent.
+--   - duels.goldfish     : le duel est un labo — annulation permise, pas de
+--                          défaite au chrono ;
+--   - duels.opening_hand : passcodes posés sur le dessus du deck du joueur,
+--                          dans l'ordre de pioche (la main choisie). Le reste
+--                          du deck est mélangé avec la graine, comme d'habitude.
+--
+-- Une ligne de combo fige ce qu'il faut pour rejouer la partie à l'identique :
+-- graine, qui commence, main choisie et journal complet des décisions (celles
+-- du goldfish comprises, sans quoi le rejeu se désynchronise). Elle appartient
+-- au deck : quiconque peut voir le deck peut la revoir pas à pas.
+
+ALTER TABLE duels ADD COLUMN IF NOT EXISTS goldfish BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE duels ADD COLUMN IF NOT EXISTS opening_hand INTEGER[];
+
+CREATE TABLE IF NOT EXISTS deck_combo_lines (
+  id SERIAL PRIMARY KEY,
+  deck_id INTEGER NOT NULL REFERENCES decks(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  seed TEXT NOT NULL,
+  go_first BOOLEAN NOT NULL DEFAULT TRUE,
+  opening_hand INTEGER[] NOT NULL DEFAULT '{}',
+  actions JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (deck_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_deck_combo_lines_deck ON deck_combo_lines(deck_id, created_at);
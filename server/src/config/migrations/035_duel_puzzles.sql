@@ -0,0 +1,80 @@
+-- Migration: puzzles de duel sur le vrai moteur.
+--
+-- Un puzzle décrit les deux plateaux de départ — mains, terrains, cimetières,
+-- decks, LP — et un objectif (« gagner ce tour »). Le format est du JSON pur,
+-- sans script Lua (cf. `DuelPuzzleSetup` dans shared/duelView.ts) ; il est
+-- validé à l'enregistrement par l'admin.
+--   - duel_puzzles          : la bibliothèque, gérée par les admins ;
+--   - duel_puzzle_attempts  : par joueur, le nombre d'essais et la première
+--                             résolution ;
+--   - duels.puzzle_id       : le duel a été ouvert depuis ce puzzle ;
+--   - duels.puzzle_setup    : les plateaux tels qu'au lancement. La reprise et
+--                             le rejeu les relisent ici : un puzzle corrigé
+--                             depuis par l'admin ne casse pas les parties
+--                             déjà jouées.
+--
+-- Un puzzle se joue comme un duel contre le bot en politique 'pass' : le
+-- joueur commence (siège 0) et l'adversaire ne joue rien.
+
+CREATE TABLE IF NOT EXISTS duel_puzzles (
+  id SERIAL PRIMARY KEY,
+  title TEXT NOT NULL UNIQUE,
+  description TEXT NOT NULL DEFAULT '',
+  difficulty SMALLINT NOT NULL DEFAULT 1 CHECK (difficulty BETWEEN 1 AND 5),
+  setup JSONB NOT NULL,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS duel_puzzle_attempts (
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  puzzle_id INTEGER NOT NULL REFERENCES duel_puzzles(id) ON DELETE CASCADE,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  solved_at TIMESTAMP,
+  last_attempt_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (user_id, puzzle_id)
+);
+
+ALTER TABLE duels ADD COLUMN IF NOT EXISTS puzzle_id INTEGER REFERENCES duel_puzzles(id) ON DELETE SET NULL;
+ALTER TABLE duels ADD COLUMN IF NOT EXISTS puzzle_setup JSONB;
+
+-- Une petite bibliothèque de départ, en cartes classiques.
+INSERT INTO duel_puzzles (title, description, difficulty, setup) VALUES
+(
+  'Le jugement du dragon',
+  'Dégage le terrain adverse, puis frappe.',
+  1,
+  '{"goal":"win_this_turn",
+    "player":{"lp":8000,"hand":[12580477],"deck":[],"extra":[],
+              "monsters":[{"code":89631139,"position":"attack"}],"spells":[],
+              "graveyard":[],"banished":[]},
+    "opponent":{"lp":3000,"hand":[],"deck":[],"extra":[],
+                "monsters":[{"code":70781052,"position":"attack"}],"spells":[],
+                "graveyard":[],"banished":[]}}'
+),
+(
+  'Trois dragons, un seul coup',
+  'Les LP adverses ne laissent aucune marge : 4500 pile.',
+  2,
+  '{"goal":"win_this_turn",
+    "player":{"lp":8000,"hand":[24094653,89631139,89631139],"deck":[],"extra":[23995346],
+              "monsters":[{"code":89631139,"position":"attack"}],"spells":[],
+              "graveyard":[],"banished":[]},
+    "opponent":{"lp":4500,"hand":[],"deck":[],"extra":[],
+                "monsters":[],"spells":[],
+                "graveyard":[],"banished":[]}}'
+),
+(
+  'Retour du cimetière',
+  'Chaque point compte : ramène ton magicien et finis le travail.',
+  3,
+  '{"goal":"win_this_turn",
+    "player":{"lp":8000,"hand":[83764718,19523799],"deck":[],"extra":[],
+              "monsters":[{"code":91152256,"position":"attack"}],"spells":[],
+              "graveyard":[46986414],"banished":[]},
+    "opponent":{"lp":4700,"hand":[],"deck":[],"extra":[],
+                "monsters":[],"spells":[],
+                "graveyard":[],"banished":[]}}'
+)
+ON CONFLICT (title) DO NOTHING;
@@ -0,0 +1,16 @@
+-- Migration: decks figés au lancement d'un duel moteur.
+--
+-- Le rejeu d'une partie (reprise, rejeu pas à pas, export .yrpX) repart de la
+-- graine, du journal... et des decks. Relus dans `decks`, ils suivent les
+-- modifications faites depuis par leur propriétaire : autre mélange, autres
+-- options, et le rejeu montre une autre partie ou s'arrête en route.
+--   - duels.engine_decks : les deux decks tels que le moteur les a reçus, par
+--                          siège (le siège 0 commence) — passcodes du Main et
+--                          de l'Extra, cartes posées sur le dessus, plateaux
+--                          d'un puzzle.
+--
+-- Les duels lancés avant cette migration n'ont pas de copie : une partie en
+-- cours se reprend encore depuis les decks actuels, mais une partie finie ne
+-- se rejoue plus — mieux vaut pas de rejeu qu'un rejeu faux.
+
+ALTER TABLE duels ADD COLUMN IF NOT EXISTS engine_decks JSONB;
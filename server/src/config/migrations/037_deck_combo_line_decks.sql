@@ -0,0 +1,12 @@
+-- Migration: decks figés dans les lignes de combo.
+--
+-- Une ligne rejouée depuis le deck tel qu'il est aujourd'hui se désynchronise
+-- dès que le deck change : autre mélange, autres options. Elle garde donc les
+-- deux decks reçus par le moteur (cf. duels.engine_decks, migration 036) :
+--   - deck_combo_lines.engine_decks : par siège, le siège 0 commence.
+--
+-- Les lignes enregistrées avant cette migration n'en ont pas : elles ne se
+-- rejouent plus (cf. migration 036, mieux vaut pas de rejeu qu'un rejeu faux)
+-- et doivent être réenregistrées depuis le labo.
+
+ALTER TABLE deck_combo_lines ADD COLUMN IF NOT EXISTS engine_decks JSONB;
@@ -0,0 +1,14 @@
+-- Migration: une liste maison est unique par auteur, plus globalement.
+--
+-- `UNIQUE (format, name)` (migration 026) valait aussi pour les listes
+-- 'custom' : un joueur ne pouvait pas importer « Mon format » si un autre
+-- l'avait déjà pris. Les noms restent uniques par format pour les listes
+-- officielles ; les listes maison le sont par (nom, auteur).
+
+ALTER TABLE banlists DROP CONSTRAINT IF EXISTS banlists_format_name_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS banlists_official_name_unique
+  ON banlists(format, name) WHERE format <> 'custom';
+
+CREATE UNIQUE INDEX IF NOT EXISTS banlists_custom_owner_name_unique
+  ON banlists(name, created_by) WHERE format = 'custom';
@@ -9,9 +9,14 @@ import {
   type LogLevel,
   type LogSource,
 } from '../models/applicationLogModel';
+import { DuelPuzzleModel, type DuelPuzzleInput } from '../models/duelPuzzleModel';
+import { parsePuzzleSetup, puzzleCodes } from '../services/duelEngine/puzzle';
 
 const VALID_ROLES: UserRole[] = ['user', 'moderator', 'admin'];
 
+const MAX_PUZZLE_TITLE_LENGTH = 80;
+const MAX_PUZZLE_DESCRIPTION_LENGTH = 500;
+
 /**
  * Utility to log admin actions for audit trail.
  * All destructive actions go through this.
@@ -459,6 +464,88 @@ export class AdminController {
     }
   }
 
+  // ─── DUEL PUZZLES ──────────────────────────────────────────────────
+  //
+  // Bibliothèque de puzzles (migration 035). Le plateau est validé ici, à
+  // l'enregistrement : un puzzle mal formé ou une carte inconnue du moteur
+  // ne doit jamais atteindre un joueur.
+
+  /**
+   * Title, description, difficulty and board of a puzzle, checked
+   */
+  private static async readPuzzleInput(body: any, exceptId?: number): Promise<DuelPuzzleInput> {
+    const title = typeof body?.title === 'string' ? body.title.trim() : '';
+    if (!title) throw new ValidationError('Title is required');
+    if (title.length > MAX_PUZZLE_TITLE_LENGTH) {
+      throw new ValidationError(`Title must be at most ${MAX_PUZZLE_TITLE_LENGTH} characters`);
+    }
+    if (await DuelPuzzleModel.titleTaken(title, exceptId)) {
+      throw new ValidationError('A puzzle with this title already exists');
+    }
+    const description = typeof body?.description === 'string' ? body.description.trim() : '';
+    if (description.length > MAX_PUZZLE_DESCRIPTION_LENGTH) {
+      throw new ValidationError(`Description must be at most ${MAX_PUZZLE_DESCRIPTION_LENGTH} characters`);
+    }
+    const difficulty = body?.difficulty ?? 1;
+    if (!Number.isInteger(difficulty) || difficulty < 1 || difficulty > 5) {
+      throw new ValidationError('Difficulty must be between 1 and 5');
+    }
+
+    const parsed = parsePuzzleSetup(body?.setup);
+    if ('error' in parsed) throw new ValidationError(parsed.error);
+    const unknown = await DuelPuzzleModel.unknownCodes(puzzleCodes(parsed.setup));
+    if (unknown.length) throw new ValidationError(`Unknown passcodes: ${unknown.join(', ')}`);
+
+    return { title, description, difficulty, setup: parsed.setup };
+  }
+
+  static async listPuzzles(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.json({ puzzles: await DuelPuzzleModel.list(req.user!.id) });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async createPuzzle(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const input = await AdminController.readPuzzleInput(req.body);
+      const puzzle = await DuelPuzzleModel.create(input, req.user!.id);
+      auditLog(req.user!.id, 'create_puzzle', `puzzle:${puzzle.id}`, { title: puzzle.title });
+      res.status(201).json({ puzzle });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async updatePuzzle(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const puzzleId = parseInt(req.params.id);
+      if (isNaN(puzzleId)) throw new ValidationError('Invalid puzzle ID');
+      const input = await AdminController.readPuzzleInput(req.body, puzzleId);
+      const puzzle = await DuelPuzzleModel.update(puzzleId, input);
+      if (!puzzle) throw new NotFoundError('Puzzle not found');
+      auditLog(req.user!.id, 'update_puzzle', `puzzle:${puzzleId}`, { title: puzzle.title });
+      res.json({ puzzle });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async deletePuzzle(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const puzzleId = parseInt(req.params.id);
+      if (isNaN(puzzleId)) throw new ValidationError('Invalid puzzle ID');
+      const puzzle = await DuelPuzzleModel.findById(puzzleId);
+      if (!puzzle) throw new NotFoundError('Puzzle not found');
+      await DuelPuzzleModel.delete(puzzleId);
+      auditLog(req.user!.id, 'delete_puzzle', `puzzle:${puzzleId}`, { title: puzzle.title });
+      res.json({ message: 'Puzzle deleted' });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   // ─── APPLICATION LOGS ──────────────────────────────────────────────
   //
   // Alimente la page /admin/logs — vue live des erreurs/warnings serveur,
@@ -0,0 +1,194 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthRequest } from '../middleware/authMiddleware';
+import { ValidationError, NotFoundError, ForbiddenError } from '../middleware/errorHandler';
+import { BanlistModel } from '../models/banlistModel';
+import { UserModel } from '../models/userModel';
+import {
+  deckViolations,
+  diffBanlists,
+  inferBanlistFormat,
+  inferEffectiveDate,
+  parseLflist,
+} from '../utils/banlist';
+import type { Banlist, BanlistFormat, BanlistImpact, BanlistEntry } from '../../../shared/types';
+
+const FORMATS: BanlistFormat[] = ['tcg', 'ocg', 'goat', 'custom'];
+const MAX_LISTS_PER_IMPORT = 50;
+const MAX_NAME_LENGTH = 100;
+
+function parseId(raw: string): number {
+  const id = parseInt(raw, 10);
+  if (!Number.isInteger(id) || id <= 0) throw new ValidationError('Banlist invalide');
+  return id;
+}
+
+async function isStaff(userId: number): Promise<boolean> {
+  const user = await UserModel.findById(userId);
+  return user?.role === 'admin' || user?.role === 'moderator';
+}
+
+export class BanlistController {
+  /** GET /banlists — toutes les listes, officielles d'abord. */
+  static async list(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const banlists = await BanlistModel.list();
+      res.json({ banlists });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /** GET /banlists/:id — la liste et ses limites, pour la validation côté client. */
+  static async getById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const banlist = await BanlistModel.findById(parseId(req.params.id));
+      if (!banlist) throw new NotFoundError('Banlist introuvable');
+
+      const { limits } = await BanlistModel.getLimits(banlist);
+      const names = await BanlistModel.cardNames([...limits.keys()]);
+      const entries: BanlistEntry[] = [...limits]
+        .map(([card_code, limit]) => ({ card_code, name: names.get(card_code) ?? null, limit }))
+        .sort((a, b) => a.limit - b.limit || (a.name ?? a.card_code).localeCompare(b.name ?? b.card_code));
+
+      res.json({ banlist, entries });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /banlists/:id/impact — changements par rapport à la liste précédente
+   * du même format, et mes decks « banlist » que cette liste rend illégaux.
+   */
+  static async getImpact(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw new ValidationError('Not authenticated');
+      const banlist = await BanlistModel.findById(parseId(req.params.id));
+      if (!banlist) throw new NotFoundError('Banlist introuvable');
+
+      const previous = await BanlistModel.findPrevious(banlist);
+      const limits = await BanlistModel.getLimits(banlist);
+      const previousLimits = previous ? await BanlistModel.getLimits(previous) : null;
+
+      const diff = diffBanlists(previousLimits, limits);
+      const names = await BanlistModel.cardNames(diff.map((c) => c.card_code));
+      const changes = diff.map((c) => ({ ...c, name: names.get(c.card_code) ?? `#${c.card_code}` }));
+
+      // Regroupe les comptes par deck
+      const byDeck = new Map<number, { deck_name: string; counts: Awaited<ReturnType<typeof BanlistModel.getDeckCardCounts>> }>();
+      for (const row of await BanlistModel.getDeckCardCounts(req.user.id)) {
+        const deck = byDeck.get(row.deck_id) ?? { deck_name: row.deck_name, counts: [] };
+        deck.counts.push(row);
+        byDeck.set(row.deck_id, deck);
+      }
+
+      // Sans liste précédente, l'état « avant » est le statut TCG en cache
+      const decks: BanlistImpact['decks'] = [];
+      for (const [deck_id, { deck_name, counts }] of byDeck) {
+        const violations = deckViolations(counts, limits);
+        if (violations.length === 0) continue;
+        const before = deckViolations(counts, previousLimits);
+        decks.push({ deck_id, deck_name, violations, newly_broken: before.length === 0 });
+      }
+      decks.sort((a, b) => Number(b.newly_broken) - Number(a.newly_broken));
+
+      const impact: BanlistImpact = { banlist, previous, changes, decks };
+      res.json(impact);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /banlists/import — importe le contenu d'un `lflist.conf`.
+   *
+   * Body : { content, format?, name?, effective_date? }. Chaque `!Nom` du
+   * fichier donne une liste ; format et date sont déduits du nom quand le
+   * body ne les précise pas (`name`/`format` ne s'appliquent qu'à un fichier
+   * d'une seule liste). Les formats officiels sont réservés aux admins et
+   * modérateurs ; une liste maison appartient à son importateur, et ne
+   * remplace que ses propres listes du même nom.
+   */
+  static async importLflist(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw new ValidationError('Not authenticated');
+      const { content, format, name, effective_date } = req.body ?? {};
+
+      if (typeof content !== 'string' || !content.trim()) {
+        throw new ValidationError('content requis (texte lflist.conf)');
+      }
+      if (format !== undefined && !FORMATS.includes(format)) {
+        throw new ValidationError(`format doit valoir ${FORMATS.join(', ')}`);
+      }
+      if (name !== undefined && (typeof name !== 'string' || !name.trim() || name.length > MAX_NAME_LENGTH)) {
+        throw new ValidationError(`name doit faire entre 1 et ${MAX_NAME_LENGTH} caractères`);
+      }
+      if (
+        effective_date !== undefined &&
+        (typeof effective_date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(effective_date) || isNaN(Date.parse(effective_date)))
+      ) {
+        throw new ValidationError('effective_date doit être au format AAAA-MM-JJ');
+      }
+
+      const lists = parseLflist(content);
+      if (lists.length === 0) throw new ValidationError('Aucune liste lisible dans ce fichier');
+      if (lists.length > MAX_LISTS_PER_IMPORT) {
+        throw new ValidationError(`Pas plus de ${MAX_LISTS_PER_IMPORT} listes par import`);
+      }
+      const single = lists.length === 1;
+
+      const planned = lists.map((list) => {
+        const listName = ((single && name) || list.name).trim().slice(0, MAX_NAME_LENGTH);
+        if (!listName) throw new ValidationError('Liste sans nom : précisez name');
+        return {
+          ...list,
+          name: listName,
+          format: ((single && format) || inferBanlistFormat(listName)) as BanlistFormat,
+          effective_date: effective_date ?? inferEffectiveDate(listName) ?? new Date().toISOString().slice(0, 10),
+        };
+      });
+
+      const staff = await isStaff(req.user.id);
+      if (!staff && planned.some((l) => l.format !== 'custom')) {
+        throw new ForbiddenError('Seuls les admins importent les listes officielles (format custom pour une liste maison)');
+      }
+
+      const banlists: Banlist[] = [];
+      for (const list of planned) {
+        banlists.push(
+          await BanlistModel.importList({
+            format: list.format,
+            name: list.name,
+            effective_date: list.effective_date,
+            whitelist: list.whitelist,
+            entries: list.entries,
+            created_by: req.user.id,
+          })
+        );
+      }
+
+      res.status(201).json({ banlists });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /** DELETE /banlists/:id — l'auteur d'une liste maison, ou un admin. */
+  static async remove(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw new ValidationError('Not authenticated');
+      const banlist = await BanlistModel.findById(parseId(req.params.id));
+      if (!banlist) throw new NotFoundError('Banlist introuvable');
+
+      const owner = banlist.format === 'custom' && banlist.created_by === req.user.id;
+      if (!owner && !(await isStaff(req.user.id))) {
+        throw new ForbiddenError('Seul l\'auteur de la liste ou un admin peut la supprimer');
+      }
+
+      await BanlistModel.remove(banlist.id);
+      res.json({ message: 'Banlist supprimée' });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
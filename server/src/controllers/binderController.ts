@@ -0,0 +1,188 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from '../middleware/authMiddleware';
+import { ValidationError, NotFoundError } from '../middleware/errorHandler';
+import { loggers } from '../utils/logger';
+import { BinderModel } from '../models/binderModel';
+import { CardModel } from '../models/cardModel';
+import { UserModel } from '../models/userModel';
+import { YGOProDeckService } from '../services/ygoprodeckService';
+
+const MAX_WANT_QUANTITY = 99;
+const MAX_BULK_WANTS = 100;
+const MAX_TARGET_PRICE_EUR = 100000;
+
+function parseId(raw: string, label: string): number {
+  const id = parseInt(raw, 10);
+  if (!Number.isInteger(id) || id <= 0) throw new ValidationError(`${label} invalide`);
+  return id;
+}
+
+function readWantQuantity(raw: unknown): number {
+  const quantity = raw === undefined ? 1 : Number(raw);
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_WANT_QUANTITY) {
+    throw new ValidationError(`quantity doit être comprise entre 1 et ${MAX_WANT_QUANTITY}`);
+  }
+  return quantity;
+}
+
+/** Prix cible optionnel : absent, null ou vide = pas d'alerte. */
+function readTargetPrice(raw: unknown): number | null {
+  if (raw === undefined || raw === null || raw === '') return null;
+  const price = Number(raw);
+  if (!Number.isFinite(price) || price <= 0 || price > MAX_TARGET_PRICE_EUR) {
+    throw new ValidationError(`target_price_eur doit être compris entre 0 et ${MAX_TARGET_PRICE_EUR} €`);
+  }
+  return Math.round(price * 100) / 100;
+}
+
+/**
+ * Carte visée par une entrée de recherche : `card_id` (cards.id) pour une
+ * carte déjà en base, sinon `code` (passcode ou code set) résolu comme à
+ * l'ajout en collection.
+ */
+async function resolveWantedCard(body: any): Promise<number> {
+  if (body?.card_id !== undefined) {
+    const cardId = parseId(String(body.card_id), 'card_id');
+    const card = await CardModel.findById(cardId);
+    if (!card) throw new NotFoundError('Carte introuvable');
+    return cardId;
+  }
+
+  const code = typeof body?.code === 'string' ? body.code.trim() : '';
+  if (!code) throw new ValidationError('card_id ou code requis');
+
+  loggers.external.request('YGOProDeck', `/cardinfo.php?code=${code}`);
+  const result = await YGOProDeckService.searchByCodeOrSetCode(code);
+  if (!result.card) {
+    throw new NotFoundError(result.error || `Carte avec le code '${code}' non trouvée`);
+  }
+  const card = await CardModel.upsert(result.card);
+  return card.id;
+}
+
+export class BinderController {
+  /** GET /binder/me */
+  static async getMine(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw new ValidationError('Not authenticated');
+      const binder = await BinderModel.getBinder(req.user.id);
+      res.json({ binder });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /** GET /binder/:userId — vitrine publique d'un autre joueur. */
+  static async getUserBinder(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = parseId(req.params.userId, 'Utilisateur');
+      const user = await UserModel.findById(userId);
+      if (!user) throw new NotFoundError('Utilisateur introuvable');
+
+      const binder = await BinderModel.getBinder(userId);
+      // Les prix cibles restent privés : ils dévoileraient jusqu'où on est prêt à payer.
+      if (userId !== req.user?.id) {
+        binder.wants = binder.wants.map((w) => ({ ...w, target_price_eur: null, alerted_price_eur: null }));
+      }
+      res.json({ binder });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /** PUT /binder/haves/:userCardId { for_trade } — 0 retire la ligne du classeur. */
+  static async setHave(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw new ValidationError('Not authenticated');
+      const userCardId = parseId(req.params.userCardId, 'Carte');
+      const forTrade = Number(req.body?.for_trade);
+      if (!Number.isInteger(forTrade) || forTrade < 0) {
+        throw new ValidationError('for_trade doit être un entier positif ou nul');
+      }
+
+      const updated = await BinderModel.setForTrade(req.user.id, userCardId, forTrade);
+      if (!updated) throw new NotFoundError('Carte absente de votre collection');
+
+      res.json(updated);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /binder/wants { card_id | code, quantity, target_price_eur? } —
+   * ajoute ou remplace ; avec un prix cible, alerte `price_alert` au relevé.
+   */
+  static async setWant(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw new ValidationError('Not authenticated');
+      const quantity = readWantQuantity(req.body?.quantity);
+      const targetPrice = readTargetPrice(req.body?.target_price_eur);
+      const cardId = await resolveWantedCard(req.body);
+
+      await BinderModel.setWant(req.user.id, cardId, quantity, targetPrice);
+      const binder = await BinderModel.getBinder(req.user.id);
+      res.json({ binder });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /binder/wants/bulk { entries: [{ card_id, quantity }] } — depuis la
+   * liste de courses d'un deck ; n'abaisse jamais une quantité déjà recherchée.
+   */
+  static async addWants(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw new ValidationError('Not authenticated');
+      const raw = req.body?.entries;
+      if (!Array.isArray(raw) || raw.length === 0) {
+        throw new ValidationError('entries doit être un tableau non vide');
+      }
+      if (raw.length > MAX_BULK_WANTS) {
+        throw new ValidationError(`${MAX_BULK_WANTS} cartes maximum par ajout`);
+      }
+
+      const merged = new Map<number, number>();
+      for (const entry of raw) {
+        const cardId = parseId(String(entry?.card_id), 'card_id');
+        const quantity = readWantQuantity(entry?.quantity);
+        merged.set(cardId, Math.min(MAX_WANT_QUANTITY, (merged.get(cardId) ?? 0) + quantity));
+      }
+
+      const added = await BinderModel.addWants(
+        req.user.id,
+        [...merged].map(([card_id, quantity]) => ({ card_id, quantity }))
+      );
+      res.json({ added });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /** DELETE /binder/wants/:cardId */
+  static async removeWant(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw new ValidationError('Not authenticated');
+      const cardId = parseId(req.params.cardId, 'Carte');
+
+      const removed = await BinderModel.removeWant(req.user.id, cardId);
+      if (!removed) throw new NotFoundError('Carte absente de votre liste de recherche');
+
+      res.json({ message: 'Carte retirée de la liste de recherche' });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /** GET /binder/matches — abonnements dont le classeur croise le mien. */
+  static async getMatches(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw new ValidationError('Not authenticated');
+      const matches = await BinderModel.findMatches(req.user.id);
+      res.json({ matches });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -2,9 +2,13 @@ import { Request, Response, NextFunction } from 'express';
 import { AuthRequest } from '../middleware/authMiddleware';
 import { ValidationError, NotFoundError } from '../middleware/errorHandler';
 import { loggers } from '../utils/logger';
-import { UserCardModel } from '../models/userCardModel';
+import { UserCardModel, UserCardDetails } from '../models/userCardModel';
+import { PriceHistoryModel } from '../models/priceHistoryModel';
 import { CardModel } from '../models/cardModel';
 import { YGOProDeckService } from '../services/ygoprodeckService';
+import { parseCollectionCsv, serializeCollectionCsv } from '../utils/collectionCsv';
+import { CARD_CONDITIONS, CARD_EDITIONS, DEFAULT_CONDITION, DEFAULT_EDITION } from '../../../shared/collection';
+import type { Card, CardCondition, CardEdition, CardLanguage, CollectionFilters } from '../../../shared/types';
 import {
   scanCard as scanCardService,
   parseScanMode,
@@ -13,6 +17,159 @@ import {
   getScanCallCount,
 } from '../services/cardScanService';
 
+/** Filtres de `GET /collection/cards`, partagés avec l'export CSV. */
+function readCollectionFilters(q: Request['query']): CollectionFilters {
+  const {
+    page = 1,
+    limit = 50,
+    search,
+    type,
+    frame_type,
+    rarity,
+    level,
+    min_atk,
+    max_atk,
+    min_def,
+    max_def,
+    attribute,
+    race,
+    card_id,
+  } = q;
+
+  return {
+    page: parseInt(page as string),
+    limit: parseInt(limit as string),
+    search: search as string,
+    type: type as string,
+    frame_type: frame_type as string,
+    rarity: rarity as string,
+    level: level ? parseInt(level as string) : undefined,
+    min_atk: min_atk ? parseInt(min_atk as string) : undefined,
+    max_atk: max_atk ? parseInt(max_atk as string) : undefined,
+    min_def: min_def ? parseInt(min_def as string) : undefined,
+    max_def: max_def ? parseInt(max_def as string) : undefined,
+    attribute: attribute as string,
+    race: race as string,
+    card_id: card_id ? parseInt(card_id as string) : undefined,
+  };
+}
+
+/** `?days=` des historiques de prix : 90 par défaut, borné à [7, 365]. */
+function readHistoryDays(raw: unknown): number {
+  const days = typeof raw === 'string' && /^\d+$/.test(raw) ? parseInt(raw, 10) : 90;
+  return Math.min(365, Math.max(7, days));
+}
+
+const MAX_NOTES_LENGTH = 500;
+
+/**
+ * Détails d'un exemplaire (état, édition, achat, notes) lus dans le body.
+ * Seuls les champs présents sont renvoyés ; `null` ou '' efface prix, date
+ * et notes.
+ */
+function readCardDetails(body: any): UserCardDetails {
+  const details: UserCardDetails = {};
+  const { condition, edition, purchase_price_eur, purchase_date, notes } = body || {};
+
+  if (condition !== undefined) {
+    if (!CARD_CONDITIONS.includes(condition)) {
+      throw new ValidationError(`condition must be one of ${CARD_CONDITIONS.join(', ')}`);
+    }
+    details.condition = condition;
+  }
+
+  if (edition !== undefined) {
+    if (!CARD_EDITIONS.includes(edition)) {
+      throw new ValidationError(`edition must be one of ${CARD_EDITIONS.join(', ')}`);
+    }
+    details.edition = edition;
+  }
+
+  if (purchase_price_eur !== undefined) {
+    if (purchase_price_eur === null || purchase_price_eur === '') {
+      details.purchase_price_eur = null;
+    } else {
+      const price = Number(purchase_price_eur);
+      if (!Number.isFinite(price) || price < 0 || price > 1000000) {
+        throw new ValidationError('purchase_price_eur must be a positive amount');
+      }
+      details.purchase_price_eur = Math.round(price * 100) / 100;
+    }
+  }
+
+  if (purchase_date !== undefined) {
+    if (purchase_date === null || purchase_date === '') {
+      details.purchase_date = null;
+    } else if (
+      typeof purchase_date !== 'string' ||
+      !/^\d{4}-\d{2}-\d{2}$/.test(purchase_date) ||
+      isNaN(Date.parse(purchase_date))
+    ) {
+      throw new ValidationError('purchase_date must be a YYYY-MM-DD date');
+    } else {
+      details.purchase_date = purchase_date;
+    }
+  }
+
+  if (notes !== undefined) {
+    if (notes !== null && typeof notes !== 'string') {
+      throw new ValidationError('notes must be a string');
+    }
+    const trimmed = notes ? notes.trim() : '';
+    if (trimmed.length > MAX_NOTES_LENGTH) {
+      throw new ValidationError(`notes must be at most ${MAX_NOTES_LENGTH} characters`);
+    }
+    details.notes = trimmed || null;
+  }
+
+  return details;
+}
+
+type CsvRowStatus = 'new' | 'increment' | 'unresolved' | 'invalid';
+
+interface CsvImportRow {
+  line: number;
+  status: CsvRowStatus;
+  set_code?: string;
+  rarity?: string;
+  language?: CardLanguage;
+  condition?: CardCondition | null;
+  edition?: CardEdition | null;
+  quantity?: number;
+  card?: { id: number; card_id: string; name: string };
+  /** Quantité déjà en collection avant cette ligne (lignes précédentes du fichier comprises). */
+  current_quantity?: number;
+  new_quantity?: number;
+  error?: string;
+}
+
+/**
+ * Set code → carte. Le cache local (`cards.card_sets`) d'abord, YGOProDeck
+ * ensuite ; chaque code n'est résolu qu'une fois par import.
+ */
+async function resolveSetCode(
+  setCode: string,
+  cache: Map<string, { card: Card | null; error?: string }>
+): Promise<{ card: Card | null; error?: string }> {
+  const cached = cache.get(setCode);
+  if (cached) return cached;
+
+  let resolved: { card: Card | null; error?: string };
+  const local = await CardModel.findBySetCode(YGOProDeckService.normalizeSetCode(setCode));
+  if (local) {
+    resolved = { card: local };
+  } else {
+    loggers.external.request('YGOProDeck', `/cardinfo.php?set=${setCode}`);
+    const result = await YGOProDeckService.getCardBySetCode(setCode);
+    resolved = {
+      card: result.card ? await CardModel.upsert(result.card) : null,
+      error: result.error,
+    };
+  }
+  cache.set(setCode, resolved);
+  return resolved;
+}
+
 export class CollectionController {
   /**
    * Search for a card by code (Card ID or Set Code)
@@ -47,6 +204,29 @@ export class CollectionController {
     }
   }
 
+  /**
+   * Search the card catalog by name (or exact passcode), owned or not —
+   * used to pick cards for the public deck filters
+   */
+  static async searchCatalog(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+      if (q.length < 2) {
+        throw new ValidationError('q must contain at least 2 characters');
+      }
+
+      if (/^\d+$/.test(q)) {
+        const card = await CardModel.findByCardId(q);
+        res.json({ cards: card ? [card] : [] });
+        return;
+      }
+
+      res.json({ cards: await YGOProDeckService.searchCards(q, 10) });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Add card to collection by set code or card ID
    * Fetches from YGOProDeck API, upserts to cards table, then adds to user's collection
@@ -59,6 +239,7 @@ export class CollectionController {
       }
 
       const { card_code, set_code, rarity, quantity = 1, language } = req.body;
+      const details = readCardDetails(req.body);
 
       // Validate input - now only set_code and rarity are required
       if (!set_code || !rarity) {
@@ -114,7 +295,8 @@ export class CollectionController {
         set_code.toUpperCase(), // Keep original set code (e.g., LDK2-FRK40)
         rarity,
         quantity,
-        cardLanguage
+        cardLanguage,
+        details
       );
 
       loggers.collection.cardAdded(req.user.id, card.id, quantity);
@@ -142,39 +324,7 @@ export class CollectionController {
         throw new ValidationError('Not authenticated');
       }
 
-      const {
-        page = 1,
-        limit = 50,
-        search,
-        type,
-        frame_type,
-        rarity,
-        level,
-        min_atk,
-        max_atk,
-        min_def,
-        max_def,
-        attribute,
-        race,
-        card_id,
-      } = req.query;
-
-      const filters = {
-        page: parseInt(page as string),
-        limit: parseInt(limit as string),
-        search: search as string,
-        type: type as string,
-        frame_type: frame_type as string,
-        rarity: rarity as string,
-        level: level ? parseInt(level as string) : undefined,
-        min_atk: min_atk ? parseInt(min_atk as string) : undefined,
-        max_atk: max_atk ? parseInt(max_atk as string) : undefined,
-        min_def: min_def ? parseInt(min_def as string) : undefined,
-        max_def: max_def ? parseInt(max_def as string) : undefined,
-        attribute: attribute as string,
-        race: race as string,
-        card_id: card_id ? parseInt(card_id as string) : undefined,
-      };
+      const filters = readCollectionFilters(req.query);
 
       const result = await UserCardModel.getUserCollection(req.user.id, filters);
 
@@ -184,6 +334,164 @@ export class CollectionController {
     }
   }
 
+  /**
+   * Export CSV de la collection, mêmes filtres que `GET /cards` (pagination
+   * ignorée). Le fichier est réimportable tel quel.
+   */
+  static async exportCollectionCsv(
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new ValidationError('Not authenticated');
+      }
+
+      const cards = await UserCardModel.getUserCollectionForExport(
+        req.user.id,
+        readCollectionFilters(req.query)
+      );
+
+      const csv = serializeCollectionCsv(
+        cards.map((uc) => ({
+          set_code: uc.set_code,
+          rarity: uc.rarity,
+          language: uc.language,
+          quantity: uc.quantity,
+          condition: uc.condition,
+          edition: uc.edition,
+          name: uc.card?.name_en || uc.card?.name,
+          passcode: uc.card?.card_id,
+        }))
+      );
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', 'attachment; filename="collection.csv"');
+      res.send(csv);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Import CSV en masse (set_code, rarity, language, quantity, condition, edition).
+   *
+   * `dry_run` (vrai par défaut) ne touche pas à la collection : il renvoie le
+   * diff ligne par ligne — création, incrément de quantité, set code introuvable,
+   * ligne invalide. Avec `dry_run: false`, les lignes résolues sont écrites
+   * dans une seule transaction ; les autres sont ignorées et listées.
+   */
+  static async importCollectionCsv(
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new ValidationError('Not authenticated');
+      }
+
+      const { content, dry_run = true } = req.body || {};
+      if (!content || typeof content !== 'string' || !content.trim()) {
+        throw new ValidationError('`content` (fichier CSV) est requis');
+      }
+      const dryRun = dry_run !== false && dry_run !== 'false';
+
+      let parsed: ReturnType<typeof parseCollectionCsv>;
+      try {
+        parsed = parseCollectionCsv(content);
+      } catch (err) {
+        throw new ValidationError((err as Error).message);
+      }
+
+      const rows: CsvImportRow[] = parsed.errors.map((e) => ({
+        line: e.line,
+        status: 'invalid' as const,
+        error: e.error,
+      }));
+
+      const existing = await UserCardModel.getQuantitiesByKey(req.user.id);
+      const cache = new Map<string, { card: Card | null; error?: string }>();
+      const toWrite: Parameters<typeof UserCardModel.bulkAddToCollection>[1] = [];
+
+      for (const row of parsed.rows) {
+        const language = row.language || (YGOProDeckService.detectLanguageFromSetCode(row.set_code) as CardLanguage);
+        const base = {
+          line: row.line,
+          set_code: row.set_code,
+          rarity: row.rarity,
+          language,
+          condition: row.condition,
+          edition: row.edition,
+          quantity: row.quantity,
+        };
+
+        const { card, error } = await resolveSetCode(row.set_code, cache);
+        if (!card) {
+          rows.push({ ...base, status: 'unresolved', error: error || 'Set code introuvable' });
+          continue;
+        }
+
+        const validRarities = YGOProDeckService.getRaritiesForSetCode(
+          card,
+          YGOProDeckService.normalizeSetCode(row.set_code)
+        );
+        if (validRarities.length > 0 && !validRarities.includes(row.rarity)) {
+          rows.push({
+            ...base,
+            status: 'invalid',
+            error: `Rareté '${row.rarity}' invalide pour ce code. Raretés valides : ${validRarities.join(', ')}`,
+          });
+          continue;
+        }
+
+        const key = UserCardModel.collectionKey(
+          card.id,
+          row.set_code,
+          row.rarity,
+          language,
+          row.condition || DEFAULT_CONDITION,
+          row.edition || DEFAULT_EDITION
+        );
+        const current = existing.get(key) || 0;
+        existing.set(key, current + row.quantity);
+
+        rows.push({
+          ...base,
+          status: current > 0 ? 'increment' : 'new',
+          card: { id: card.id, card_id: card.card_id, name: card.name },
+          current_quantity: current,
+          new_quantity: current + row.quantity,
+        });
+        toWrite.push({
+          card_id: card.id,
+          set_code: row.set_code,
+          rarity: row.rarity,
+          language,
+          quantity: row.quantity,
+          condition: row.condition,
+          edition: row.edition,
+        });
+      }
+
+      rows.sort((a, b) => a.line - b.line);
+      const summary = { new: 0, increment: 0, unresolved: 0, invalid: 0 };
+      for (const r of rows) summary[r.status]++;
+
+      let written = 0;
+      if (!dryRun && toWrite.length > 0) {
+        written = await UserCardModel.bulkAddToCollection(req.user.id, toWrite);
+        const totalQuantity = toWrite.reduce((s, e) => s + e.quantity, 0);
+        loggers.collection.csvImported(req.user.id, written, totalQuantity);
+      }
+
+      res.json({ dry_run: dryRun, summary, written, rows });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Get specific card details from user's collection
    */
@@ -332,9 +640,48 @@ export class CollectionController {
     }
   }
 
+  /**
+   * Évolution de la valeur de la collection (une photo par jour, cf. cron
+   * prix) + les cartes qui ont le plus pesé dans la variation, à la hausse
+   * comme à la baisse.
+   */
+  static async getValueHistory(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw new ValidationError('Not authenticated');
+      const days = readHistoryDays(req.query.days);
+
+      const [history, gainers, losers] = await Promise.all([
+        PriceHistoryModel.getCollectionHistory(req.user.id, days),
+        PriceHistoryModel.getBiggestMovers(req.user.id, days, 'up', 5),
+        PriceHistoryModel.getBiggestMovers(req.user.id, days, 'down', 5),
+      ]);
+
+      res.json({ days, history, gainers, losers });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Historique du prix Cardmarket d'une carte (`cards.id`).
+   */
+  static async getCardPriceHistory(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const cardId = parseInt(req.params.cardId);
+      if (isNaN(cardId)) {
+        throw new ValidationError('Invalid card ID');
+      }
+
+      const history = await PriceHistoryModel.getCardHistory(cardId, readHistoryDays(req.query.days));
+      res.json({ card_id: cardId, history });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Disponibilité par carte : combien possédé, combien utilisé dans les
-   * autres decks, combien reste pour ajouter au deck en cours.
+   * autres decks montés, combien reste pour ajouter au deck en cours.
    * `?exclude_deck=<id>` retire ce deck du calcul "used_in_decks".
    */
   static async getAvailability(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
@@ -350,6 +697,23 @@ export class CollectionController {
     }
   }
 
+  /**
+   * Répartition collection / decks, carte par carte. Sert à repérer les
+   * cartes que plusieurs decks montés réclament alors qu'on n'en a pas assez.
+   */
+  static async getAllocation(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw new ValidationError('Not authenticated');
+      const cards = await UserCardModel.getAllocation(req.user.id);
+      res.json({
+        cards,
+        over_committed_count: cards.filter((c) => c.over_committed).length,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Return the current scan quota for the user.
    */
@@ -376,16 +740,33 @@ export class CollectionController {
 
       const userCardId = parseInt(req.params.id);
       const { quantity } = req.body;
+      const details = readCardDetails(req.body);
+      const hasDetails = Object.keys(details).length > 0;
 
       if (isNaN(userCardId)) {
         throw new ValidationError('Invalid user card ID');
       }
 
-      if (quantity === undefined || quantity < 0 || quantity > 100) {
+      // La quantité devient facultative quand on ne modifie que les détails.
+      if ((quantity === undefined && !hasDetails) || (quantity !== undefined && (quantity < 0 || quantity > 100))) {
         throw new ValidationError('quantity must be between 0 and 100');
       }
 
-      const updatedCard = await UserCardModel.updateQuantity(req.user.id, userCardId, quantity);
+      let updatedCard = quantity !== undefined
+        ? await UserCardModel.updateQuantity(req.user.id, userCardId, quantity)
+        : null;
+
+      if (hasDetails && quantity !== 0) {
+        try {
+          updatedCard = await UserCardModel.updateDetails(req.user.id, userCardId, details);
+        } catch (err) {
+          // 23505 : une autre ligne a déjà ce set / rareté / langue / état / édition.
+          if ((err as { code?: string }).code === '23505') {
+            throw new ValidationError('Cet exemplaire existe déjà dans la collection avec cet état et cette édition');
+          }
+          throw err;
+        }
+      }
 
       if (quantity === 0 || !updatedCard) {
         loggers.collection.cardRemoved(req.user.id, userCardId);
@@ -3,10 +3,230 @@ import { AuthRequest } from '../middleware/authMiddleware';
 import { ValidationError, NotFoundError, ForbiddenError } from '../middleware/errorHandler';
 import { loggers } from '../utils/logger';
 import { DeckModel } from '../models/deckModel';
+import { BanlistModel } from '../models/banlistModel';
 import { CardModel } from '../models/cardModel';
 import { UserCardModel } from '../models/userCardModel';
+import { DeckVersionModel } from '../models/deckVersionModel';
+import { DeckTagModel } from '../models/deckTagModel';
+import { DeckConsistencyModel } from '../models/deckConsistencyModel';
+import { DeckSidePlanModel } from '../models/deckSidePlanModel';
+import { DeckComboLineModel, publicComboLine } from '../models/deckComboLineModel';
+import { buildComboLineReplay } from '../services/duelEngine/replay';
 import { buildDeckWithAI, getApiCallCount, getMaxApiCalls, getRemainingCalls } from '../services/claudeService';
+import { YGOProDeckService } from '../services/ygoprodeckService';
 import { computeDeckStats } from '../utils/prices';
+import { fetchCardImages } from '../services/cardImageService';
+import { getDeckImage } from '../services/deckImageService';
+import { PdfDocument } from '../utils/pdf';
+import { DecklistLanguage, proxyCopies, renderDecklist, renderProxySheets } from '../utils/deckPdf';
+import type { DeckImageFormat } from '../utils/deckImage';
+import { parseBanlistFormatId } from '../utils/banlist';
+import { computeDeckShortfall, serializeShortfallCsv, serializeShortfallText } from '../utils/deckShortfall';
+import { diffDeckVersions } from '../utils/deckVersions';
+import { MAX_TAGS, MAX_TAG_LENGTH, normalizeTags } from '../utils/deckArchetypes';
+import {
+  CARD_ROLES,
+  DEFAULT_SCENARIOS,
+  MAX_SCENARIOS,
+  computeConsistency,
+  normalizeRoles,
+  normalizeScenarios,
+  sampleConsistency,
+} from '../utils/consistency';
+import {
+  DeckListSections,
+  parseDeckList,
+  serializeYdk,
+  serializeYdke,
+} from '../utils/ydk';
+import { isExtraDeckCard } from '../../../shared/cards';
+import { MAX_SIDE_PLANS, MAX_SIDE_PLAN_NAME_LENGTH, applySidePlan, normalizeSidePlans } from '../../../shared/sidePlans';
+import type {
+  Card,
+  Deck,
+  DeckCard,
+  DeckCardRoles,
+  DeckConsistency,
+  DeckConsistencySample,
+  DeckConsistencyScenario,
+  DeckFilters,
+  DeckSection,
+  DeckSidePlan,
+  DeckSidePlans,
+  DeckUpstreamChanges,
+  PublicDeckSort,
+} from '../../../shared/types';
+
+interface ResolvedDeckList {
+  entries: Array<{ card: Card; quantity: number; section: DeckSection }>;
+  /** Passcodes introuvables, en base comme chez YGOProDeck. */
+  unknown: number[];
+}
+
+/**
+ * Résout les passcodes d'une liste importée vers le catalogue `cards`.
+ *
+ * Catalogue local d'abord, YGOProDeck ensuite (la carte est alors mise en
+ * cache via `CardModel.upsert`). La section Main / Extra est recalculée à
+ * partir du type réel de la carte : EDOPro exporte parfois des Fusions sous
+ * `#main`, et on refuse de propager l'erreur. Le Side reste le Side.
+ */
+async function resolveDeckList(sections: DeckListSections): Promise<ResolvedDeckList> {
+  const byCode = new Map<number, Card | null>();
+  const unknown: number[] = [];
+
+  const all = [...sections.main, ...sections.extra, ...sections.side];
+  for (const code of new Set(all)) {
+    let card = await CardModel.findByCardId(String(code));
+    if (!card) {
+      loggers.external.request('YGOProDeck', `/cardinfo.php?id=${code}`);
+      const apiCard = await YGOProDeckService.getCardById(String(code));
+      card = apiCard ? await CardModel.upsert(apiCard) : null;
+    }
+    byCode.set(code, card);
+    if (!card) unknown.push(code);
+  }
+
+  const totals = new Map<string, { card: Card; quantity: number; section: DeckSection }>();
+  const add = (code: number, fromSide: boolean) => {
+    const card = byCode.get(code);
+    if (!card) return;
+    const section: DeckSection = fromSide ? 'side' : isExtraDeckCard(card) ? 'extra' : 'main';
+    const key = `${card.id}-${section}`;
+    const cur = totals.get(key);
+    if (cur) cur.quantity += 1;
+    else totals.set(key, { card, quantity: 1, section });
+  };
+  for (const code of [...sections.main, ...sections.extra]) add(code, false);
+  for (const code of sections.side) add(code, true);
+
+  return { entries: [...totals.values()], unknown };
+}
+
+/** Aplatit un deck chargé en listes de passcodes, un par exemplaire. */
+function deckToSections(deck: Deck): DeckListSections {
+  const expand = (cards: DeckCard[] = []) =>
+    cards.flatMap((dc) => {
+      const code = Number(dc.card?.card_id);
+      return Number.isInteger(code) && code > 0 ? Array(dc.quantity).fill(code) : [];
+    });
+  return {
+    main: expand(deck.main_deck),
+    extra: expand(deck.extra_deck),
+    side: expand(deck.side_deck),
+  };
+}
+
+/** Deck visible par l'utilisateur (public ou à lui), sinon 404 / 403. */
+async function findViewableDeck(deckId: number, userId?: number): Promise<Deck> {
+  const deck = await DeckModel.findById(deckId, userId);
+  if (!deck) {
+    throw new NotFoundError('Deck not found');
+  }
+  if (!deck.is_public && deck.user_id !== userId) {
+    throw new ForbiddenError('You do not have permission to view this deck');
+  }
+  return deck;
+}
+
+function readImageFormat(value: unknown): DeckImageFormat {
+  const format = (value as string) || 'png';
+  if (format !== 'png' && format !== 'webp') {
+    throw new ValidationError('format doit valoir png ou webp');
+  }
+  return format;
+}
+
+async function sendDeckImage(res: Response, deck: Deck, format: DeckImageFormat): Promise<void> {
+  const image = await getDeckImage(deck, format);
+  res.setHeader('Content-Type', `image/${format}`);
+  res.setHeader('Cache-Control', `${deck.is_public ? 'public' : 'private'}, max-age=300`);
+  res.send(image);
+}
+
+const escapeHtml = (s: string) =>
+  s.replace(/[<>&'"]/g, (c) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&#39;', '"': '&quot;' })[c]!);
+
+function readForkName(body: any): string | undefined {
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  if (name.length > 100) {
+    throw new ValidationError('Deck name cannot exceed 100 characters');
+  }
+  return name || undefined;
+}
+
+/** Analyse de consistance : rôles, scénarios (enregistrés ou par défaut) et probabilités exactes. */
+async function buildConsistency(deckId: number): Promise<DeckConsistency> {
+  const [cards, saved] = await Promise.all([
+    DeckConsistencyModel.mainDeckCards(deckId),
+    DeckConsistencyModel.findScenarios(deckId),
+  ]);
+  const scenarios = saved ?? DEFAULT_SCENARIOS;
+  const roleCounts = Object.fromEntries(
+    CARD_ROLES.map((role) => [role, cards.reduce((n, c) => (c.roles.includes(role) ? n + c.quantity : n), 0)])
+  ) as DeckConsistency['role_counts'];
+
+  return {
+    deck_id: deckId,
+    deck_size: cards.reduce((n, c) => n + c.quantity, 0),
+    roles: cards.filter((c) => c.roles.length > 0).map((c) => ({ card_id: c.card_id, roles: c.roles })),
+    role_counts: roleCounts,
+    scenarios,
+    default_scenarios: saved === null,
+    results: computeConsistency(cards, scenarios),
+  };
+}
+
+/** Plans de side confrontés au contenu actuel du deck. */
+function checkSidePlans(deck: Deck, plans: DeckSidePlan[]): DeckSidePlans {
+  const all = [...(deck.main_deck || []), ...(deck.extra_deck || []), ...(deck.side_deck || [])];
+  const cards = new Map(all.map((dc) => [dc.card_id, dc.card]));
+  const expand = (list: DeckCard[] = []) => list.flatMap((dc) => Array(dc.quantity).fill(dc.card_id));
+  const sections = { main: expand(deck.main_deck), extra: expand(deck.extra_deck), side: expand(deck.side_deck) };
+  const context = {
+    isExtra: (id: number) => {
+      const card = cards.get(id);
+      return card ? isExtraDeckCard(card) : false;
+    },
+    nameOf: (id: number) => cards.get(id)?.name_fr || cards.get(id)?.name || `#${id}`,
+  };
+
+  return {
+    deck_id: deck.id,
+    plans: plans.map((plan) => ({ ...plan, problems: applySidePlan(sections, plan, context).problems })),
+  };
+}
+
+const DEFAULT_TRIALS = 10000;
+const MAX_TRIALS = 100000;
+
+const MAX_CARD_FILTERS = 10;
+const PUBLIC_DECK_SORTS: PublicDeckSort[] = ['recent', 'likes', 'completion'];
+
+/** `?include=14558127,23434538` (ou paramètre répété) → passcodes. */
+function readCardFilter(value: unknown, param: string): string[] | undefined {
+  if (value === undefined || value === '') return undefined;
+  const codes = (Array.isArray(value) ? value : [value])
+    .flatMap((v) => String(v).split(','))
+    .map((v) => v.trim())
+    .filter(Boolean);
+  if (codes.length > MAX_CARD_FILTERS || codes.some((c) => !/^\d{1,10}$/.test(c))) {
+    throw new ValidationError(`${param} must be a list of at most ${MAX_CARD_FILTERS} card passcodes`);
+  }
+  return codes.length > 0 ? codes : undefined;
+}
+
+function readDeckListBody(body: any): DeckListSections {
+  const { content } = body || {};
+  if (!content || typeof content !== 'string' || !content.trim()) {
+    throw new ValidationError('`content` (fichier .ydk ou URL ydke://) est requis');
+  }
+  try {
+    return parseDeckList(content);
+  } catch (err) {
+    throw new ValidationError((err as Error).message);
+  }
+}
 
 export class DeckController {
   /**
@@ -118,7 +338,7 @@ export class DeckController {
         throw new ValidationError('Invalid deck ID');
       }
 
-      const { name, respect_banlist, is_public, cover_image } = req.body;
+      const { name, respect_banlist, is_public, is_built, cover_image, tags } = req.body;
 
       const updates: any = {};
       if (name !== undefined) {
@@ -132,7 +352,22 @@ export class DeckController {
       }
       if (respect_banlist !== undefined) updates.respect_banlist = respect_banlist;
       if (is_public !== undefined) updates.is_public = is_public;
+      if (is_built !== undefined) {
+        if (typeof is_built !== 'boolean') {
+          throw new ValidationError('is_built must be a boolean');
+        }
+        updates.is_built = is_built;
+      }
       if (cover_image !== undefined) updates.cover_image = cover_image;
+      if (tags !== undefined) {
+        const normalized = normalizeTags(tags);
+        if (!normalized) {
+          throw new ValidationError(
+            `tags must be a list of at most ${MAX_TAGS} tags of ${MAX_TAG_LENGTH} characters`
+          );
+        }
+        updates.tags = normalized;
+      }
 
       const updatedDeck = await DeckModel.update(deckId, req.user.id, updates);
 
@@ -257,6 +492,7 @@ export class DeckController {
         card_id: parseInt(c.card_id),
         quantity: parseInt(c.quantity),
         is_extra_deck: c.is_extra_deck === true,
+        is_side_deck: c.is_side_deck === true,
       }));
 
       if (entries.some((e) => isNaN(e.card_id) || isNaN(e.quantity))) {
@@ -408,7 +644,16 @@ export class DeckController {
         throw new ValidationError('Invalid deck ID');
       }
 
-      const validation = await DeckModel.validateDeck(deckId);
+      const format = parseBanlistFormatId(req.query.format);
+      if (format === null) {
+        throw new ValidationError('Invalid format (banlist id, tcg, ocg or goat)');
+      }
+      // Une liste demandée par son id doit exister : pas de repli sur le statut TCG
+      if (typeof format === 'number' && !(await BanlistModel.findById(format))) {
+        throw new NotFoundError('Banlist not found');
+      }
+
+      const validation = await DeckModel.validateDeck(deckId, format);
 
       if (!validation.valid) {
         loggers.deck.validationError(deckId, validation.errors);
@@ -419,6 +664,9 @@ export class DeckController {
         errors: validation.errors,
         mainDeckCount: validation.mainDeckCount,
         extraDeckCount: validation.extraDeckCount,
+        sideDeckCount: validation.sideDeckCount,
+        violations: validation.violations,
+        banlist: validation.banlist,
       });
     } catch (error) {
       next(error);
@@ -506,24 +754,376 @@ export class DeckController {
     }
   }
 
+  /**
+   * Image du deck (grille des illustrations par section), png par défaut ou webp
+   */
+  static async getDeckImage(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const deckId = parseInt(req.params.id);
+      if (isNaN(deckId)) {
+        throw new ValidationError('Invalid deck ID');
+      }
+      const format = readImageFormat(req.query.format);
+
+      const deck = await findViewableDeck(deckId, req.user?.id);
+      await sendDeckImage(res, deck, format);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Image d'un deck partagé : sert d'image Open Graph à la page d'aperçu
+   */
+  static async getSharedDeckImage(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const format = readImageFormat(req.query.format);
+      const deck = await DeckModel.findByShareToken(req.params.shareToken);
+      if (!deck) {
+        throw new NotFoundError('Shared deck not found or link has expired');
+      }
+      await sendDeckImage(res, deck, format);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Page d'aperçu d'un lien de partage.
+   *
+   * Le client est une SPA : les robots des messageries (Discord, WhatsApp…)
+   * n'y trouvent aucune balise Open Graph. Cette page les porte — titre,
+   * description, image du deck — et renvoie aussitôt les visiteurs vers
+   * `/deck/share/:shareToken` sur le client.
+   */
+  static async getSharedDeckPreview(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { shareToken } = req.params;
+      const deck = await DeckModel.findByShareToken(shareToken);
+      if (!deck) {
+        throw new NotFoundError('Shared deck not found or link has expired');
+      }
+
+      const origin = process.env.CLIENT_URL || `${req.protocol}://${req.get('host')}`;
+      const token = encodeURIComponent(shareToken);
+      const appUrl = `${origin}/deck/share/${token}`;
+      const imageUrl = `${req.protocol}://${req.get('host')}/api/decks/shared/${token}/image`;
+      const stats = computeDeckStats(deck);
+      const sideCount = (deck.side_deck || []).reduce((n, dc) => n + dc.quantity, 0);
+      const title = escapeHtml(deck.name);
+      const description = escapeHtml(
+        [
+          deck.user?.username ? `Deck de @${deck.user.username}` : 'Deck Yu-Gi-Oh',
+          deck.archetypes?.length ? deck.archetypes.join(' / ') : null,
+          `Main ${stats.main_count} · Extra ${stats.extra_count} · Side ${sideCount}`,
+        ]
+          .filter(Boolean)
+          .join(' — ')
+      );
+
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      res.send(`<!doctype html>
+<html lang="fr">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<meta name="description" content="${description}">
+<meta property="og:type" content="website">
+<meta property="og:title" content="${title}">
+<meta property="og:description" content="${description}">
+<meta property="og:url" content="${appUrl}">
+<meta property="og:image" content="${imageUrl}">
+<meta property="og:image:type" content="image/png">
+<meta name="twitter:card" content="summary_large_image">
+<meta http-equiv="refresh" content="0; url=${appUrl}">
+</head>
+<body><a href="${appUrl}">${title}</a></body>
+</html>`);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Lit un `.ydk` ou une URL `ydke://` sans rien écrire.
+   *
+   * Sert à l'éditeur web, qui garde le deck en mémoire jusqu'au « Sceller » —
+   * y compris pour un deck pas encore créé.
+   */
+  static async previewDeckImport(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new ValidationError('Not authenticated');
+      }
+
+      const sections = readDeckListBody(req.body);
+      const { entries, unknown } = await resolveDeckList(sections);
+
+      res.json({ entries, unknown });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Remplace le contenu d'un deck par un `.ydk` / `ydke://` importé.
+   *
+   * Les passcodes inconnus sont écartés et renvoyés dans `unknown` ; le reste
+   * passe par `replaceCards`, donc par la même validation qu'une sauvegarde.
+   */
+  static async importDeck(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new ValidationError('Not authenticated');
+      }
+
+      const deckId = parseInt(req.params.id);
+      if (isNaN(deckId)) {
+        throw new ValidationError('Invalid deck ID');
+      }
+
+      const sections = readDeckListBody(req.body);
+      const { entries, unknown } = await resolveDeckList(sections);
+
+      const result = await DeckModel.replaceCards(
+        deckId,
+        req.user.id,
+        entries.map((e) => ({
+          card_id: e.card.id,
+          quantity: e.quantity,
+          is_extra_deck: e.section === 'extra',
+          is_side_deck: e.section === 'side',
+        })),
+        { source: 'import' }
+      );
+
+      if (!result.success) {
+        res.status(400).json({
+          error: result.errors?.[0] || 'Import refusé',
+          errors: result.errors,
+          unknown,
+        });
+        return;
+      }
+
+      loggers.deck.updated(deckId, req.user.id);
+
+      const count = (section: DeckSection) =>
+        entries.filter((e) => e.section === section).reduce((n, e) => n + e.quantity, 0);
+
+      res.json({
+        message: 'Deck importé',
+        main_count: count('main'),
+        extra_count: count('extra'),
+        side_count: count('side'),
+        unknown,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Exporte un deck en `.ydk` (fichier téléchargeable) ou en URL `ydke://`.
+   */
+  static async exportDeck(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const deckId = parseInt(req.params.id);
+      if (isNaN(deckId)) {
+        throw new ValidationError('Invalid deck ID');
+      }
+
+      const format = (req.query.format as string) || 'ydk';
+      if (format !== 'ydk' && format !== 'ydke') {
+        throw new ValidationError('format doit valoir ydk ou ydke');
+      }
+
+      const deck = await DeckModel.findById(deckId, req.user?.id);
+      if (!deck) {
+        throw new NotFoundError('Deck not found');
+      }
+      if (!deck.is_public && (!req.user || deck.user_id !== req.user.id)) {
+        throw new ForbiddenError('You do not have permission to view this deck');
+      }
+
+      const sections = deckToSections(deck);
+
+      if (format === 'ydke') {
+        res.json({ url: serializeYdke(sections) });
+        return;
+      }
+
+      const filename = `${deck.name.replace(/[^\w\- ]+/g, '').trim() || `deck-${deck.id}`}.ydk`;
+      res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(serializeYdk(sections, deck.user?.username));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Decklist d'inscription en PDF, suivie des planches de proxys 3 × 3 si
+   * `proxies=true`. `lang` : en (noms officiels TCG, défaut) ou fr.
+   */
+  static async exportDeckPdf(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const deckId = parseInt(req.params.id);
+      if (isNaN(deckId)) {
+        throw new ValidationError('Invalid deck ID');
+      }
+
+      const lang = (req.query.lang as string) || 'en';
+      if (lang !== 'en' && lang !== 'fr') {
+        throw new ValidationError('lang doit valoir en ou fr');
+      }
+      const withProxies = req.query.proxies === 'true';
+
+      const deck = await findViewableDeck(deckId, req.user?.id);
+      const doc = new PdfDocument();
+      renderDecklist(doc, deck, computeDeckStats(deck), lang as DecklistLanguage);
+
+      if (withProxies) {
+        const copies = proxyCopies(deck, lang as DecklistLanguage);
+        const urlOf = (dc: DeckCard) => dc.card?.card_images?.[0]?.image_url;
+        const images = await fetchCardImages(
+          copies.map((c) => urlOf(c.deckCard)).filter((url): url is string => !!url)
+        );
+        renderProxySheets(
+          doc,
+          copies.map(({ deckCard, name }) => ({
+            name,
+            type: deckCard.card?.type || '',
+            image: images.get(urlOf(deckCard) || '') ?? null,
+          }))
+        );
+      }
+
+      const base = deck.name.replace(/[^\w\- ]+/g, '').trim() || `deck-${deck.id}`;
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${base}-${withProxies ? 'decklist-proxys' : 'decklist'}.pdf"`
+      );
+      res.send(doc.toBuffer());
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Liste d'achats : ce qui manque dans la collection pour monter ce deck
+   * (le sien, ou un deck public / en wishlist). `committed=true` retire les
+   * exemplaires déjà utilisés par les autres decks montés de l'utilisateur.
+   * `format` : json (défaut), csv ou txt.
+   */
+  static async getShortfall(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new ValidationError('Not authenticated');
+      }
+
+      const deckId = parseInt(req.params.id);
+      if (isNaN(deckId)) {
+        throw new ValidationError('Invalid deck ID');
+      }
+
+      const format = (req.query.format as string) || 'json';
+      if (format !== 'json' && format !== 'csv' && format !== 'txt') {
+        throw new ValidationError('format doit valoir json, csv ou txt');
+      }
+      const includeCommitted = req.query.committed === 'true';
+
+      const deck = await DeckModel.findById(deckId, req.user.id);
+      if (!deck) {
+        throw new NotFoundError('Deck not found');
+      }
+      if (!deck.is_public && deck.user_id !== req.user.id) {
+        throw new ForbiddenError('You do not have permission to view this deck');
+      }
+
+      const availability = await UserCardModel.getAvailability(req.user.id, deck.id);
+      const shortfall = computeDeckShortfall(deck, availability, includeCommitted);
+
+      if (format === 'json') {
+        res.json(shortfall);
+        return;
+      }
+
+      const base = deck.name.replace(/[^\w\- ]+/g, '').trim() || `deck-${deck.id}`;
+      res.setHeader(
+        'Content-Type',
+        format === 'csv' ? 'text/csv; charset=utf-8' : 'text/plain; charset=utf-8'
+      );
+      res.setHeader('Content-Disposition', `attachment; filename="${base}-achats.${format}"`);
+      res.send(format === 'csv' ? serializeShortfallCsv(shortfall) : serializeShortfallText(shortfall));
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Get public decks (search)
    */
   static async getPublicDecks(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { page = 1, limit = 20, search, respect_banlist, user_id } = req.query;
+      const {
+        page = 1,
+        limit = 20,
+        search,
+        respect_banlist,
+        user_id,
+        archetype,
+        tag,
+        include,
+        exclude,
+        min_owned,
+        max_missing_eur,
+        sort,
+      } = req.query;
 
-      const filters = {
+      // Get requesting user ID if authenticated
+      const authReq = req as AuthRequest;
+      const requestingUserId = authReq.user?.id;
+
+      const filters: DeckFilters = {
         page: parseInt(page as string),
         limit: parseInt(limit as string),
         search: search as string,
         respect_banlist: respect_banlist ? respect_banlist === 'true' : undefined,
         user_id: user_id ? parseInt(user_id as string) : undefined,
+        archetype: archetype ? String(archetype) : undefined,
+        tag: tag ? String(tag).replace(/^#+/, '') : undefined,
+        include_cards: readCardFilter(include, 'include'),
+        exclude_cards: readCardFilter(exclude, 'exclude'),
       };
 
-      // Get requesting user ID if authenticated
-      const authReq = req as AuthRequest;
-      const requestingUserId = authReq.user?.id;
+      if (sort !== undefined) {
+        if (!PUBLIC_DECK_SORTS.includes(sort as PublicDeckSort)) {
+          throw new ValidationError(`sort must be one of ${PUBLIC_DECK_SORTS.join(', ')}`);
+        }
+        filters.sort = sort as PublicDeckSort;
+      }
+      if (min_owned !== undefined) {
+        const value = Number(min_owned);
+        if (!Number.isFinite(value) || value < 0 || value > 100) {
+          throw new ValidationError('min_owned must be a percentage between 0 and 100');
+        }
+        filters.min_owned = value;
+      }
+      if (max_missing_eur !== undefined) {
+        const value = Number(max_missing_eur);
+        if (!Number.isFinite(value) || value < 0) {
+          throw new ValidationError('max_missing_eur must be a positive amount');
+        }
+        filters.max_missing_eur = value;
+      }
+      // Calculés contre la collection : sans compte, rien à comparer
+      const needsCollection =
+        filters.min_owned !== undefined || filters.max_missing_eur !== undefined || filters.sort === 'completion';
+      if (needsCollection && !requestingUserId) {
+        throw new ValidationError('Log in to filter or sort decks by your collection');
+      }
 
       const result = await DeckModel.searchPublicDecks(filters, requestingUserId);
 
@@ -533,6 +1133,17 @@ export class DeckController {
     }
   }
 
+  /**
+   * Archetypes and tags used by public decks, most frequent first
+   */
+  static async getDeckFacets(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.json(await DeckTagModel.facets());
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Build or optimize deck with AI
    */
@@ -570,12 +1181,24 @@ export class DeckController {
       // Get existing deck if optimizing (from request body, not from DB)
       const { existingMainDeck, existingExtraDeck } = req.body;
 
+      // Banlist to build for (latest TCG list by default)
+      const format = parseBanlistFormatId(req.body.format);
+      if (format === null) {
+        throw new ValidationError('Invalid format (banlist id, tcg, ocg or goat)');
+      }
+      const banlist = await BanlistModel.resolve(format);
+      if (typeof format === 'number' && !banlist) {
+        throw new NotFoundError('Banlist not found');
+      }
+      const limits = banlist ? await BanlistModel.getLimits(banlist) : null;
+
       // Call Claude AI
       const aiResponse = await buildDeckWithAI(
         userCards.data,
         prompt,
         existingMainDeck,
-        existingExtraDeck
+        existingExtraDeck,
+        limits
       );
 
       loggers.api.request('POST', '/decks/ai/build', req.user.id);
@@ -585,6 +1208,7 @@ export class DeckController {
         selectedCards: aiResponse.selectedCards,
         suggestions: aiResponse.suggestions,
         explanation: aiResponse.explanation,
+        violations: aiResponse.violations,
         apiCallsRemaining: getRemainingCalls(),
       });
     } catch (error) {
@@ -592,6 +1216,544 @@ export class DeckController {
     }
   }
 
+  /**
+   * Historique des versions d'un deck, la plus récente d'abord, chacune avec
+   * ses changements depuis la précédente.
+   */
+  static async getDeckVersions(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const deckId = parseInt(req.params.id);
+      if (isNaN(deckId)) {
+        throw new ValidationError('Invalid deck ID');
+      }
+
+      await findViewableDeck(deckId, req.user?.id);
+      const versions = await DeckVersionModel.list(deckId);
+
+      res.json({ versions });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Historique d'un deck partagé par lien (accès invité).
+   */
+  static async getSharedDeckVersions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const deck = await DeckModel.findByShareToken(req.params.shareToken);
+      if (!deck) {
+        throw new NotFoundError('Shared deck not found or link has expired');
+      }
+
+      const versions = await DeckVersionModel.list(deck.id);
+      res.json({ versions });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Cartes ajoutées / retirées par section entre deux versions.
+   * `?from=3&to=5` ; `to` absent = dernière version.
+   */
+  static async diffDeckVersions(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const deckId = parseInt(req.params.id);
+      const from = parseInt(String(req.query.from));
+      const to = req.query.to === undefined ? null : parseInt(String(req.query.to));
+      if (isNaN(deckId)) {
+        throw new ValidationError('Invalid deck ID');
+      }
+      if (isNaN(from) || (to !== null && isNaN(to))) {
+        throw new ValidationError('`from` (and optional `to`) must be version numbers');
+      }
+
+      await findViewableDeck(deckId, req.user?.id);
+
+      const [fromVersion, toVersion] = await Promise.all([
+        DeckVersionModel.findByVersion(deckId, from),
+        to === null ? DeckVersionModel.findLatest(deckId) : DeckVersionModel.findByVersion(deckId, to),
+      ]);
+      if (!fromVersion || !toVersion) {
+        throw new NotFoundError('Version not found');
+      }
+
+      const changes = diffDeckVersions(fromVersion.cards ?? [], toVersion.cards ?? []);
+      const { cards: _fromCards, ...fromSummary } = fromVersion;
+      const { cards: _toCards, ...toSummary } = toVersion;
+
+      res.json({ from: fromSummary, to: toSummary, changes });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Restaure une version : son contenu repasse par `replaceCards` (même
+   * validation qu'une sauvegarde) et devient une nouvelle version — l'état
+   * d'avant la restauration reste donc lui aussi dans l'historique.
+   */
+  static async restoreDeckVersion(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new ValidationError('Not authenticated');
+      }
+
+      const deckId = parseInt(req.params.id);
+      const versionNumber = parseInt(req.params.version);
+      if (isNaN(deckId) || isNaN(versionNumber)) {
+        throw new ValidationError('Invalid deck ID or version');
+      }
+
+      const deck = await DeckModel.findById(deckId, req.user.id);
+      if (!deck) {
+        throw new NotFoundError('Deck not found');
+      }
+      if (deck.user_id !== req.user.id) {
+        throw new ForbiddenError('Only the owner can restore a version');
+      }
+
+      const version = await DeckVersionModel.findByVersion(deckId, versionNumber);
+      if (!version) {
+        throw new NotFoundError('Version not found');
+      }
+
+      const result = await DeckModel.replaceCards(
+        deckId,
+        req.user.id,
+        (version.cards ?? []).map((c) => ({
+          card_id: c.card_id,
+          quantity: c.quantity,
+          is_extra_deck: c.section === 'extra',
+          is_side_deck: c.section === 'side',
+        })),
+        { source: 'restore', restoredFrom: versionNumber }
+      );
+
+      if (!result.success) {
+        res.status(400).json({
+          error: result.errors?.[0] || 'Restauration refusée',
+          errors: result.errors,
+        });
+        return;
+      }
+
+      loggers.deck.updated(deckId, req.user.id);
+
+      const latest = await DeckVersionModel.findLatest(deckId);
+      res.json({ message: `Version ${versionNumber} restaurée`, version: latest?.version ?? null });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Forke un deck public (ou le sien) dans les decks de l'utilisateur.
+   */
+  static async forkDeck(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new ValidationError('Not authenticated');
+      }
+
+      const deckId = parseInt(req.params.id);
+      if (isNaN(deckId)) {
+        throw new ValidationError('Invalid deck ID');
+      }
+
+      await findViewableDeck(deckId, req.user.id);
+      const deck = await DeckModel.fork(deckId, req.user.id, readForkName(req.body));
+      if (!deck) {
+        throw new NotFoundError('Deck not found');
+      }
+
+      loggers.deck.created(deck.id, req.user.id, deck.name);
+      res.status(201).json({ message: 'Deck forké', deck });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Forke un deck reçu par lien de partage (privé compris : le lien suffit).
+   */
+  static async forkSharedDeck(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new ValidationError('Not authenticated');
+      }
+
+      const source = await DeckModel.findByShareToken(req.params.shareToken);
+      if (!source) {
+        throw new NotFoundError('Shared deck not found or link has expired');
+      }
+
+      const deck = await DeckModel.fork(source.id, req.user.id, readForkName(req.body));
+      if (!deck) {
+        throw new NotFoundError('Shared deck not found or link has expired');
+      }
+
+      loggers.deck.created(deck.id, req.user.id, deck.name);
+      res.status(201).json({ message: 'Deck forké', deck });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Arbre des forks d'un deck.
+   */
+  static async getDeckForks(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const deckId = parseInt(req.params.id);
+      if (isNaN(deckId)) {
+        throw new ValidationError('Invalid deck ID');
+      }
+
+      const deck = await findViewableDeck(deckId, req.user?.id);
+      const forks = await DeckModel.getForkTree(deckId, req.user?.id);
+
+      res.json({ forks_count: deck.forks_count ?? 0, forks });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Pour le propriétaire d'un fork : ce qui a changé sur le deck d'origine
+   * depuis le fork (version figée au fork → dernière version de l'origine).
+   */
+  static async getUpstreamChanges(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new ValidationError('Not authenticated');
+      }
+
+      const deckId = parseInt(req.params.id);
+      if (isNaN(deckId)) {
+        throw new ValidationError('Invalid deck ID');
+      }
+
+      const fork = await DeckModel.findForkOrigin(deckId);
+      if (!fork) {
+        throw new NotFoundError('Deck not found');
+      }
+      if (fork.user_id !== req.user.id) {
+        throw new ForbiddenError('Only the owner of the fork can see upstream changes');
+      }
+      if (!fork.origin) {
+        throw new NotFoundError('This deck is not a fork, or its original was deleted');
+      }
+
+      const [atFork, latest] = await Promise.all([
+        fork.forked_from_version === null
+          ? Promise.resolve(null)
+          : DeckVersionModel.findByVersion(fork.origin.id, fork.forked_from_version),
+        DeckVersionModel.findLatest(fork.origin.id),
+      ]);
+
+      // Sans version au fork, l'origine était vide (jamais sauvegardée).
+      const body: DeckUpstreamChanges = {
+        upstream: fork.origin,
+        forked_from_version: fork.forked_from_version,
+        upstream_version: latest?.version ?? null,
+        forked_at: fork.forked_at,
+        changes: diffDeckVersions(atFork?.cards ?? [], latest?.cards ?? []),
+      };
+      res.json(body);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Probabilités de main de départ selon les rôles des cartes
+   */
+  static async getDeckConsistency(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const deckId = parseInt(req.params.id);
+      if (isNaN(deckId)) {
+        throw new ValidationError('Invalid deck ID');
+      }
+
+      await findViewableDeck(deckId, req.user?.id);
+      res.json(await buildConsistency(deckId));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Rôles des cartes et scénarios, réservés au propriétaire.
+   * Body : `{ roles?: [{ card_id, roles }], scenarios?: [...] | null }` —
+   * `scenarios: null` revient aux scénarios par défaut.
+   */
+  static async updateDeckConsistency(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new ValidationError('Not authenticated');
+      }
+
+      const deckId = parseInt(req.params.id);
+      if (isNaN(deckId)) {
+        throw new ValidationError('Invalid deck ID');
+      }
+
+      const deck = await DeckModel.findById(deckId, req.user.id);
+      if (!deck) {
+        throw new NotFoundError('Deck not found');
+      }
+      if (deck.user_id !== req.user.id) {
+        throw new ForbiddenError('Only the owner can edit card roles');
+      }
+
+      const { roles: rawRoles = [], scenarios: rawScenarios } = req.body || {};
+      if (!Array.isArray(rawRoles)) {
+        throw new ValidationError('roles must be a list of { card_id, roles }');
+      }
+      const mainIds = new Set((deck.main_deck || []).map((dc) => dc.card_id));
+      // Une carte listée deux fois garde l'union de ses rôles : une ligne par
+      // (carte, rôle) en base.
+      const rolesByCard = new Map<number, DeckCardRoles['roles']>();
+      for (const entry of rawRoles as any[]) {
+        const cardRoles = normalizeRoles(entry?.roles);
+        if (!cardRoles) {
+          throw new ValidationError(`roles must only contain ${CARD_ROLES.join(', ')}`);
+        }
+        if (!mainIds.has(entry?.card_id)) {
+          throw new ValidationError(`Card ${entry?.card_id} is not in the Main Deck`);
+        }
+        const merged = [...(rolesByCard.get(entry.card_id) ?? []), ...cardRoles];
+        rolesByCard.set(entry.card_id, normalizeRoles(merged)!);
+      }
+      const roles: DeckCardRoles[] = [...rolesByCard].map(([card_id, cardRoles]) => ({ card_id, roles: cardRoles }));
+
+      let scenarios: DeckConsistencyScenario[] | null | undefined;
+      if (rawScenarios === null) {
+        scenarios = null;
+      } else if (rawScenarios !== undefined) {
+        scenarios = normalizeScenarios(rawScenarios);
+        if (!scenarios) {
+          throw new ValidationError(
+            `scenarios must be 1 to ${MAX_SCENARIOS} named scenarios of 1 to 4 role requirements (min / max from 0 to 6)`
+          );
+        }
+      }
+
+      await DeckConsistencyModel.save(deckId, roles, scenarios);
+      res.json(await buildConsistency(deckId));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Monte-Carlo : `?trials=10000&seed=42` mains tirées au hasard
+   */
+  static async sampleDeckConsistency(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const deckId = parseInt(req.params.id);
+      if (isNaN(deckId)) {
+        throw new ValidationError('Invalid deck ID');
+      }
+
+      const trials = req.query.trials === undefined ? DEFAULT_TRIALS : Number(req.query.trials);
+      if (!Number.isInteger(trials) || trials < 1 || trials > MAX_TRIALS) {
+        throw new ValidationError(`trials must be between 1 and ${MAX_TRIALS}`);
+      }
+      const seed =
+        req.query.seed === undefined ? Math.floor(Math.random() * 2 ** 31) : Number(req.query.seed);
+      if (!Number.isInteger(seed) || seed < 0) {
+        throw new ValidationError('seed must be a positive integer');
+      }
+
+      await findViewableDeck(deckId, req.user?.id);
+      const [cards, saved] = await Promise.all([
+        DeckConsistencyModel.mainDeckCards(deckId),
+        DeckConsistencyModel.findScenarios(deckId),
+      ]);
+      const { results, hands } = sampleConsistency(cards, saved ?? DEFAULT_SCENARIOS, trials, seed);
+
+      const body: DeckConsistencySample = { trials, seed, results, hands };
+      res.json(body);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Plans de side par matchup, réservés au propriétaire
+   */
+  static async getDeckSidePlans(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new ValidationError('Not authenticated');
+      }
+
+      const deckId = parseInt(req.params.id);
+      if (isNaN(deckId)) {
+        throw new ValidationError('Invalid deck ID');
+      }
+
+      const deck = await DeckModel.findById(deckId, req.user.id);
+      if (!deck) {
+        throw new NotFoundError('Deck not found');
+      }
+      if (deck.user_id !== req.user.id) {
+        throw new ForbiddenError('Only the owner can see side plans');
+      }
+
+      res.json(checkSidePlans(deck, await DeckSidePlanModel.list(deckId)));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Remplace tous les plans de side.
+   * Body : `{ plans: [{ name, out: [{ card_id, quantity }], in: [...] }] }` —
+   * chaque plan doit s'appliquer au deck actuel (cartes présentes, Side ≤ 15).
+   */
+  static async updateDeckSidePlans(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new ValidationError('Not authenticated');
+      }
+
+      const deckId = parseInt(req.params.id);
+      if (isNaN(deckId)) {
+        throw new ValidationError('Invalid deck ID');
+      }
+
+      const deck = await DeckModel.findById(deckId, req.user.id);
+      if (!deck) {
+        throw new NotFoundError('Deck not found');
+      }
+      if (deck.user_id !== req.user.id) {
+        throw new ForbiddenError('Only the owner can edit side plans');
+      }
+
+      const plans = normalizeSidePlans(req.body?.plans);
+      if (!plans) {
+        throw new ValidationError(
+          `plans must be at most ${MAX_SIDE_PLANS} uniquely named plans (1 to ${MAX_SIDE_PLAN_NAME_LENGTH} characters) of { card_id, quantity } moves`
+        );
+      }
+      const checked = checkSidePlans(deck, plans);
+      const invalid = checked.plans.find((p) => p.problems.length > 0);
+      if (invalid) {
+        throw new ValidationError(`${invalid.name} : ${invalid.problems.join(' ; ')}`);
+      }
+
+      await DeckSidePlanModel.replace(deckId, plans);
+      res.json(checked);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Lignes de combo enregistrées depuis le labo goldfish.
+   * Visibles de quiconque voit le deck : elles sont faites pour être partagées.
+   */
+  static async getDeckComboLines(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new ValidationError('Not authenticated');
+      }
+
+      const deckId = parseInt(req.params.id);
+      if (isNaN(deckId)) {
+        throw new ValidationError('Invalid deck ID');
+      }
+
+      const deck = await DeckModel.findById(deckId, req.user.id);
+      if (!deck) {
+        throw new NotFoundError('Deck not found');
+      }
+      if (deck.user_id !== req.user.id && !deck.is_public) {
+        throw new ForbiddenError('This deck is private');
+      }
+
+      const lines = await DeckComboLineModel.list(deckId);
+      res.json({ deck_id: deckId, lines: lines.map(publicComboLine) });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Rejoue une ligne de combo image par image — même format que le rejeu
+   * d'une partie finie (`GET /duels/:id/replay`).
+   */
+  static async getComboLineReplay(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new ValidationError('Not authenticated');
+      }
+
+      const deckId = parseInt(req.params.id);
+      const lineId = parseInt(req.params.lineId);
+      if (isNaN(deckId) || isNaN(lineId)) {
+        throw new ValidationError('Invalid deck or line ID');
+      }
+
+      const deck = await DeckModel.findById(deckId, req.user.id);
+      if (!deck) {
+        throw new NotFoundError('Deck not found');
+      }
+      if (deck.user_id !== req.user.id && !deck.is_public) {
+        throw new ForbiddenError('This deck is private');
+      }
+      const line = await DeckComboLineModel.findById(deckId, lineId);
+      if (!line) {
+        throw new NotFoundError('Combo line not found');
+      }
+
+      const replay = await buildComboLineReplay(line);
+      if (!('frames' in replay)) {
+        throw new ValidationError(replay.error);
+      }
+      res.json({ ...replay, line: publicComboLine(line) });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Supprime une ligne de combo (propriétaire du deck ou auteur de la ligne).
+   */
+  static async deleteComboLine(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new ValidationError('Not authenticated');
+      }
+
+      const deckId = parseInt(req.params.id);
+      const lineId = parseInt(req.params.lineId);
+      if (isNaN(deckId) || isNaN(lineId)) {
+        throw new ValidationError('Invalid deck or line ID');
+      }
+
+      const [deck, line] = await Promise.all([
+        DeckModel.findById(deckId, req.user.id),
+        DeckComboLineModel.findById(deckId, lineId),
+      ]);
+      if (!deck || !line) {
+        throw new NotFoundError('Combo line not found');
+      }
+      if (deck.user_id !== req.user.id && line.user.id !== req.user.id) {
+        throw new ForbiddenError('Only the deck owner or the author can delete this line');
+      }
+
+      await DeckComboLineModel.delete(deckId, lineId);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Get AI API call status
    */
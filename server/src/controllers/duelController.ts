@@ -5,6 +5,11 @@ import { loggers } from '../utils/logger';
 import { DuelModel, DuelStatePatch } from '../models/duelModel';
 import { UserModel } from '../models/userModel';
 import { DeckModel } from '../models/deckModel';
+import { BanlistModel } from '../models/banlistModel';
+import { parseBanlistFormatId } from '../utils/banlist';
+import { isBotPolicyId, listBotPolicies } from '../services/duelBot/policies';
+import { openingHandProblem, seedFromNumber } from '../services/duelEngine/goldfish';
+import { DuelPuzzleModel } from '../models/duelPuzzleModel';
 import {
   BoardCard,
   DeckCard,
@@ -366,24 +371,46 @@ function applyAction(
   }
 }
 
+/**
+ * Mode de regles d'un defi : 'standard' (banlist TCG appliquee, defaut) ou
+ * 'free' (aucune restriction hors tailles minimum). Le challenger decide au
+ * moment du defi, l'opponent le voit dans la pop-up d'acceptation.
+ *
+ * Banlist du mode 'standard' : id de liste ou clé de format, figée ici pour
+ * que la partie ne change pas de règles si une liste sort entre-temps.
+ */
+async function resolveRules(
+  rulesModeRaw: unknown,
+  format: unknown
+): Promise<{ rulesMode: 'standard' | 'free'; banlistId: number | null }> {
+  const rulesMode: 'standard' | 'free' = rulesModeRaw === 'free' ? 'free' : 'standard';
+  let banlistId: number | null = null;
+  if (rulesMode === 'standard') {
+    const formatId = parseBanlistFormatId(format);
+    if (formatId === null) throw new ValidationError('format invalide (id de banlist, tcg, ocg ou goat)');
+    if (formatId !== undefined) {
+      const banlist = await BanlistModel.resolve(formatId);
+      if (!banlist) throw new NotFoundError('Aucune banlist pour ce format');
+      banlistId = banlist.id;
+    }
+  }
+  return { rulesMode, banlistId };
+}
+
 // ─── Controllers HTTP ─────────────────────────────────────────────────────
 
 export class DuelController {
   /**
    * POST /duels — challenge un autre joueur.
-   * Body: { opponent_id | opponent_username, challenger_deck_id? }
+   * Body: { opponent_id | opponent_username, challenger_deck_id?, rules_mode?, format? }
    */
   static async challenge(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       if (!req.user) throw new ValidationError('Not authenticated');
 
-      const { opponent_id, opponent_username, challenger_deck_id, rules_mode } = req.body;
+      const { opponent_id, opponent_username, challenger_deck_id, rules_mode, format } = req.body;
       let opponentId: number | null = null;
-      // Mode de regles : 'standard' (banlist TCG appliquee, defaut) ou 'free'
-      // (aucune restriction hors tailles minimum). Le challenger decide au
-      // moment du defi, l'opponent le voit dans la pop-up d'acceptation.
-      const rulesMode: 'standard' | 'free' =
-        rules_mode === 'free' ? 'free' : 'standard';
+      const { rulesMode, banlistId } = await resolveRules(rules_mode, format);
 
       if (opponent_id) {
         opponentId = Number(opponent_id);
@@ -402,6 +429,12 @@ export class DuelController {
         throw new ValidationError('Impossible de se defier soi-meme');
       }
 
+      // Le bot ne recoit pas de defi : personne n'accepterait pour lui.
+      const opponent = await UserModel.findById(opponentId);
+      if (opponent?.is_bot) {
+        throw new ValidationError('Le bot se joue depuis « Affronter le bot »');
+      }
+
       // Verifie que le deck existe et appartient au challenger (si fourni)
       let deckId: number | null = null;
       if (challenger_deck_id !== undefined && challenger_deck_id !== null) {
@@ -418,7 +451,7 @@ export class DuelController {
         throw new ValidationError('Un duel est deja en attente entre vous et ce joueur');
       }
 
-      const duel = await DuelModel.create(req.user.id, opponentId, deckId, rulesMode);
+      const duel = await DuelModel.create(req.user.id, opponentId, deckId, rulesMode, banlistId);
       loggers.api.request('POST', '/duels', req.user.id);
 
       // Notification WebSocket a l'opponent (room user:${id} deja rejointe a la co)
@@ -431,6 +464,172 @@ export class DuelController {
     }
   }
 
+  /**
+   * POST /duels/bot — duel moteur en solo contre le bot (migration 033).
+   * Body: { deck_id, bot_deck_id, policy?, go_first?, rules_mode?, format? }
+   *
+   * Le deck du bot est l'un des siens ou un deck public. `go_first` absent :
+   * premier joueur tiré au sort. Le front enchaîne sur `/duel/:id`, dont
+   * l'appel à `engine/start` crée la partie.
+   */
+  static async challengeBot(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw new ValidationError('Not authenticated');
+
+      const { deck_id, bot_deck_id, policy, go_first, rules_mode, format } = req.body ?? {};
+      const policyId = policy ?? 'rules';
+      if (!isBotPolicyId(policyId) || policyId === 'pass') throw new ValidationError('policy invalide');
+      if (go_first !== undefined && typeof go_first !== 'boolean') {
+        throw new ValidationError('go_first doit etre un booleen');
+      }
+      const { rulesMode, banlistId } = await resolveRules(rules_mode, format);
+
+      const deckId = Number(deck_id);
+      const botDeckId = Number(bot_deck_id);
+      if (!Number.isInteger(deckId)) throw new ValidationError('deck_id requis');
+      if (!Number.isInteger(botDeckId)) throw new ValidationError('bot_deck_id requis');
+
+      const [deck, botDeck, bot] = await Promise.all([
+        DeckModel.findById(deckId),
+        DeckModel.findById(botDeckId),
+        UserModel.findBot(),
+      ]);
+      if (!deck) throw new NotFoundError('Deck introuvable');
+      if (deck.user_id !== req.user.id) throw new ForbiddenError('Ce deck ne vous appartient pas');
+      if (!botDeck) throw new NotFoundError('Deck du bot introuvable');
+      if (botDeck.user_id !== req.user.id && !botDeck.is_public) {
+        throw new ForbiddenError('Le deck du bot doit etre a vous ou public');
+      }
+      if (!bot) throw new NotFoundError("Le bot n'est pas installe sur ce serveur");
+
+      const duel = await DuelModel.createAgainstBot({
+        challengerId: req.user.id,
+        botId: bot.id,
+        challengerDeckId: deckId,
+        botDeckId,
+        policy: policyId,
+        challengerFirst: go_first ?? Math.random() < 0.5,
+        rulesMode,
+        banlistId,
+      });
+      loggers.api.request('POST', '/duels/bot', req.user.id);
+
+      res.status(201).json({ duel });
+    } catch (err) {
+      next(err);
+    }
+  }
+
+  /**
+   * POST /duels/goldfish — ouvre un labo de combos : le deck face au goldfish,
+   * qui ne joue rien. Body : `{ deck_id, go_first?, opening_hand?, seed? }`.
+   *   - opening_hand : passcodes à piocher en premier (main choisie) ;
+   *   - seed : entier qui fixe le mélange du reste du deck — même nombre,
+   *     même tirage. Absent, le lancement tire une graine comme d'habitude.
+   *
+   * Le deck doit être à soi ou public : on étudie aussi les lignes des autres.
+   */
+  static async startGoldfish(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw new ValidationError('Not authenticated');
+
+      const { deck_id, go_first, opening_hand, seed } = req.body ?? {};
+      const deckId = Number(deck_id);
+      if (!Number.isInteger(deckId)) throw new ValidationError('deck_id requis');
+      if (go_first !== undefined && typeof go_first !== 'boolean') {
+        throw new ValidationError('go_first doit etre un booleen');
+      }
+      const hand = opening_hand ?? [];
+      if (!Array.isArray(hand) || !hand.every((c) => Number.isInteger(c) && c > 0)) {
+        throw new ValidationError('opening_hand doit etre une liste de passcodes');
+      }
+      if (seed !== undefined && seed !== null && !Number.isSafeInteger(seed)) {
+        throw new ValidationError('seed doit etre un entier');
+      }
+
+      const [deck, bot] = await Promise.all([DeckModel.findById(deckId), UserModel.findBot()]);
+      if (!deck) throw new NotFoundError('Deck introuvable');
+      if (deck.user_id !== req.user.id && !deck.is_public) {
+        throw new ForbiddenError('Le deck doit etre a vous ou public');
+      }
+      if (!bot) throw new NotFoundError("Le bot n'est pas installe sur ce serveur");
+
+      const main = (deck.main_deck ?? []).flatMap((dc: DeckCard) =>
+        Array(dc.quantity).fill(Number(dc.card?.card_id))
+      );
+      const problem = openingHandProblem(main, hand);
+      if (problem) throw new ValidationError(problem);
+
+      const duel = await DuelModel.createGoldfish({
+        userId: req.user.id,
+        botId: bot.id,
+        deckId,
+        goFirst: go_first ?? true,
+        openingHand: hand.length ? hand : null,
+        seed: typeof seed === 'number' ? seedFromNumber(seed) : null,
+      });
+      loggers.api.request('POST', '/duels/goldfish', req.user.id);
+
+      res.status(201).json({ duel });
+    } catch (err) {
+      next(err);
+    }
+  }
+
+  /**
+   * GET /duels/puzzles — la bibliothèque de puzzles, avec ma progression
+   * (essais, première résolution).
+   */
+  static async listPuzzles(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw new ValidationError('Not authenticated');
+      res.json({ puzzles: await DuelPuzzleModel.list(req.user.id) });
+    } catch (err) {
+      next(err);
+    }
+  }
+
+  /**
+   * POST /duels/puzzles/:id/start — ouvre un essai : un duel contre le bot
+   * en politique 'pass', sur les plateaux du puzzle copiés tels quels. Chaque
+   * essai compte, qu'il aboutisse ou non.
+   */
+  static async startPuzzle(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw new ValidationError('Not authenticated');
+      const puzzleId = parseInt(req.params.id, 10);
+      if (Number.isNaN(puzzleId)) throw new ValidationError('id invalide');
+
+      const [puzzle, bot] = await Promise.all([DuelPuzzleModel.findById(puzzleId), UserModel.findBot()]);
+      if (!puzzle) throw new NotFoundError('Puzzle introuvable');
+      if (!bot) throw new NotFoundError("Le bot n'est pas installe sur ce serveur");
+
+      const duel = await DuelModel.createPuzzle({
+        userId: req.user.id,
+        botId: bot.id,
+        puzzleId,
+        setup: puzzle.setup,
+      });
+      await DuelPuzzleModel.recordAttempt(req.user.id, puzzleId);
+      loggers.api.request('POST', `/duels/puzzles/${puzzleId}/start`, req.user.id);
+
+      res.status(201).json({ duel });
+    } catch (err) {
+      next(err);
+    }
+  }
+
+  /**
+   * GET /duels/bot/policies — les politiques de jeu proposées.
+   */
+  static async botPolicies(_req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.json({ policies: listBotPolicies() });
+    } catch (err) {
+      next(err);
+    }
+  }
+
   /**
    * GET /duels — liste des duels de l'user (?status= optionnel).
    */
@@ -5,7 +5,7 @@ import logger from '../utils/logger';
 import { DuelModel } from '../models/duelModel';
 import { DeckModel } from '../models/deckModel';
 import { Duel } from '../../../shared/types';
-import type { DuelChoice, DuelSeat, DuelPreGameState } from '../../../shared/duelView';
+import type { DuelChoice, DuelSeat, DuelPreGameState, DuelStateResponse } from '../../../shared/duelView';
 import { DuelEngineModel } from '../models/duelEngineModel';
 import { DuelPreGameModel } from '../models/duelPreGameModel';
 import { DuelClockModel } from '../models/duelClockModel';
@@ -15,7 +15,6 @@ import { DuelSideDeckModel } from '../models/duelSideDeckModel';
 import type { DuelSeat as DuelSeatT } from '../../../shared/duelView';
 import {
   createEngineDuel,
-  chooseInEngine,
   viewEngineDuel,
   destroyEngineDuel,
   engineStats,
@@ -24,7 +23,24 @@ import {
   spectateEngineDuel,
 } from '../services/duelEngine/engineClient';
 import { FollowModel } from '../models/followModel';
+import { buildDuelReplay, buildDuelYrpx, buildLabHistory } from '../services/duelEngine/replay';
 import { assetsInstalled } from '../services/duelEngine/paths';
+import { playEngineChoice, notifyEngineUpdate, userIdOfSeat } from '../services/duelEngine/play';
+import { driveBot, isBotDriving } from '../services/duelBot/driver';
+import { withOpeningHand } from '../services/duelEngine/goldfish';
+import { resolveEnginePlayers } from '../services/duelEngine/rehydrate';
+import { DeckComboLineModel, publicComboLine } from '../models/deckComboLineModel';
+
+/** Longueur maximale du nom d'une ligne de combo. */
+const MAX_COMBO_LINE_NAME_LENGTH = 60;
+
+/**
+ * Labos en cours de reconstruction (`undo`), et coups en cours de jeu par
+ * duel. Un coup joué pendant une reconstruction serait ajouté au journal puis
+ * effacé par la coupe : chacun refuse de démarrer pendant l'autre.
+ */
+const rewinding = new Set<number>();
+const choicesInFlight = new Map<number, number>();
 
 /**
  * Duel joué par le moteur ygopro-core.
@@ -60,16 +76,6 @@ function seatOf(duel: Duel, userId: number): DuelSeat | null {
   return null;
 }
 
-/** Inverse de `seatOf` — sert au moment de traduire un vainqueur moteur en user_id. */
-function userIdOfSeat(duel: Duel, seat: DuelSeat): number {
-  if (duel.first_player_id) {
-    const first = duel.first_player_id;
-    const other = first === duel.challenger_id ? duel.opponent_id : duel.challenger_id;
-    return seat === 0 ? first : other;
-  }
-  return seat === 0 ? duel.challenger_id : duel.opponent_id;
-}
-
 async function loadParticipantDuel(req: AuthRequest): Promise<{ duel: Duel; seat: DuelSeat }> {
   if (!req.user) throw new ValidationError('Not authenticated');
 
@@ -85,13 +91,33 @@ async function loadParticipantDuel(req: AuthRequest): Promise<{ duel: Duel; seat
   return { duel, seat };
 }
 
+/**
+ * Duel fini qu'on a le droit de revoir : participant, ou abonné à l'un des
+ * deux joueurs — les mêmes que la vue spectateur.
+ */
+async function loadRewatchableDuel(req: AuthRequest): Promise<Duel> {
+  if (!req.user) throw new ValidationError('Not authenticated');
+  const id = parseInt(req.params.id, 10);
+  if (Number.isNaN(id)) throw new ValidationError('id invalide');
+
+  const duel = await DuelModel.findById(id);
+  if (!duel) throw new NotFoundError('Duel introuvable');
+
+  if (duel.challenger_id !== req.user.id && duel.opponent_id !== req.user.id) {
+    const [followsA, followsB] = await Promise.all([
+      FollowModel.isFollowing(req.user.id, duel.challenger_id),
+      FollowModel.isFollowing(req.user.id, duel.opponent_id),
+    ]);
+    if (!followsA && !followsB) {
+      throw new ForbiddenError('Vous devez suivre au moins un des joueurs pour revoir ce duel');
+    }
+  }
+  return duel;
+}
+
 /** Diffuse aux deux joueurs le fait que l'état a changé, sans leur envoyer la vue. */
 function notifySeats(req: AuthRequest, duel: Duel): void {
-  const io = req.app.get('io');
-  if (!io) return;
-  // Chacun doit redemander **sa** vue : envoyer l'état dans la room commune
-  // révélerait la main de l'un à l'autre.
-  io.to(`duel:${duel.id}`).emit('duel:engine_update', { duelId: duel.id });
+  notifyEngineUpdate(req.app.get('io'), duel.id);
 }
 
 /** Diffuse le nouveau pré-game state — payload complet, aucune info cachée. */
@@ -101,6 +127,31 @@ function notifyPreGame(req: AuthRequest, duel: Duel, state: DuelPreGameState): v
   io.to(`duel:${duel.id}`).emit('duel:pregame', { duelId: duel.id, state });
 }
 
+/**
+ * Lancement d'un duel de puzzle : les plateaux copiés à la création, le
+ * joueur au siège 0 avec le droit d'attaquer, sans pioche de départ. Pas de
+ * chrono — l'objectif tient dans le tour.
+ */
+async function startPuzzle(req: AuthRequest, res: Response, duel: Duel): Promise<void> {
+  const resolved = await resolveEnginePlayers(duel);
+  if ('error' in resolved) throw new ValidationError(`Puzzle injouable (${resolved.error})`);
+
+  await DuelModel.setActiveAfterPreGame(duel.id);
+  const seat = seatOf(duel, req.user!.id)!;
+  const { state, seed } = await createEngineDuel({
+    duelId: duel.id,
+    seat,
+    players: resolved.players,
+    ...resolved.options,
+  });
+  await DuelEngineModel.markEngineDuel(duel.id, seed, resolved.players);
+
+  logger.info(`[DUEL_ENGINE] puzzle ${duel.puzzle_id} ouvert (duel ${duel.id})`);
+  notifySeats(req, duel);
+  void driveBot(req.app.get('io'), duel.id);
+  res.json(await attachClocks(duel.id, seat, state));
+}
+
 export class DuelEngineController {
   /**
    * POST /duels/:id/engine/start — ouvre la partie dans le moteur.
@@ -125,7 +176,7 @@ export class DuelEngineController {
       if (duel.status === 'finished' || duel.status === 'cancelled') {
         throw new ValidationError('Ce duel est terminé');
       }
-      if (!duel.challenger_deck_id || !duel.opponent_deck_id) {
+      if (!duel.puzzle_id && (!duel.challenger_deck_id || !duel.opponent_deck_id)) {
         throw new ValidationError('Les deux joueurs doivent avoir choisi un deck');
       }
 
@@ -154,6 +205,12 @@ export class DuelEngineController {
       // ── Cas 3 : pré-game résolu (ou legacy sans pré-game). On lance le moteur.
       const currentDuel = (await DuelModel.findById(duel.id))!;
 
+      // Puzzle : pas de deck à convertir ni à valider, les plateaux sont prêts.
+      if (currentDuel.puzzle_id) {
+        await startPuzzle(req, res, currentDuel);
+        return;
+      }
+
       // F4 · Match Bo3 — quand la manche est ≥ 2, on repart des soumissions de
       // side-deck plutôt que du deck d'origine. Sans ça, le sideboard n'aurait
       // aucun effet.
@@ -189,9 +246,11 @@ export class DuelEngineController {
       // /!\ En mode 'free' (choisi par le challenger au defi), on skip la
       // banlist — les tailles minimum restent verifiees car sans elles le
       // moteur crashe.
+      // La banlist est celle figée au défi (`banlist_id`), sinon la dernière TCG.
       const skipBanlist = currentDuel.rules_mode === 'free';
+      const format = currentDuel.banlist_id ?? undefined;
       const strictResults = await Promise.all(
-        conversions.map((c) => checkEngineDeckStrict(c as any, [], { skipBanlist }))
+        conversions.map((c) => checkEngineDeckStrict(c as any, [], { skipBanlist, format }))
       );
       const problems = strictResults
         .map((problem, i) =>
@@ -201,6 +260,11 @@ export class DuelEngineController {
 
       if (problems.length) throw new ValidationError(problems.join(' · '));
 
+      // Labo de combos : la main choisie part sur le dessus du deck du joueur.
+      const challengerDeck = currentDuel.goldfish
+        ? withOpeningHand(conversions[0].deck, currentDuel.opening_hand)
+        : conversions[0].deck;
+
       // Ordonne les decks pour que players[0] = seat 0 = premier joueur.
       const challengerIsFirst =
         !currentDuel.first_player_id || currentDuel.first_player_id === currentDuel.challenger_id;
@@ -208,21 +272,27 @@ export class DuelEngineController {
         (typeof conversions)[number]['deck'],
         (typeof conversions)[number]['deck'],
       ] = challengerIsFirst
-        ? [conversions[0].deck, conversions[1].deck]
-        : [conversions[1].deck, conversions[0].deck];
+        ? [challengerDeck, conversions[1].deck]
+        : [conversions[1].deck, challengerDeck];
 
       // Bascule en `active` juste avant de créer, sans effacer les infos
       // pile ou face — elles servent à `seatOf` pour toute la partie.
       await DuelModel.setActiveAfterPreGame(currentDuel.id);
 
+      // Un labo peut arriver avec sa graine : celle que le joueur a fixée.
+      const presetSeed = currentDuel.goldfish ? await DuelEngineModel.readSeed(currentDuel.id) : null;
+
       const requesterSeat = seatOf(currentDuel, req.user!.id)!;
       const { state, seed } = await createEngineDuel({
         duelId: currentDuel.id,
         seat: requesterSeat,
         players: orderedPlayers,
+        ...(presetSeed?.length === 4
+          ? { seed: [presetSeed[0], presetSeed[1], presetSeed[2], presetSeed[3]] as [bigint, bigint, bigint, bigint] }
+          : {}),
       });
 
-      await DuelEngineModel.markEngineDuel(currentDuel.id, seed);
+      await DuelEngineModel.markEngineDuel(currentDuel.id, seed, orderedPlayers);
 
       // Démarre le chrono pour le premier joueur.
       const firstPlayerUserId = userIdOfSeat(currentDuel, 0);
@@ -230,6 +300,8 @@ export class DuelEngineController {
 
       logger.info(`[DUEL_ENGINE] duel ${currentDuel.id} ouvert (statut ${state.status})`);
       notifySeats(req, currentDuel);
+      // Le bot a peut-être la main dès le premier tour.
+      if (currentDuel.bot_policy) void driveBot(req.app.get('io'), currentDuel.id);
 
       const withClocks = await attachClocks(currentDuel.id, requesterSeat, state);
       res.json(withClocks);
@@ -317,6 +389,11 @@ export class DuelEngineController {
         throw new NotFoundError("Ce duel n'est pas ouvert dans le moteur");
       }
       const state = await viewEngineDuel(duel.id, seat);
+      // Relance le bot s'il a la main sans jouer — après une reprise du
+      // moteur, ou un coup humain arrivé pendant qu'il finissait le sien.
+      if (duel.bot_policy && state.prompt && state.prompt.seat !== seat) {
+        void driveBot(req.app.get('io'), duel.id);
+      }
       const withClocks = await attachClocks(duel.id, seat, state);
       res.json(withClocks);
     } catch (err) {
@@ -331,12 +408,16 @@ export class DuelEngineController {
     try {
       const { duel, seat } = await loadParticipantDuel(req);
 
+      if (rewinding.has(duel.id)) {
+        throw new ValidationError('Retour en arrière en cours — réessayez');
+      }
       if (!isDuelLive(duel.id)) {
         throw new ValidationError("Ce duel n'est pas ouvert dans le moteur");
       }
 
       // Chrono à zéro : plutôt que d'accepter le coup on tranche la défaite.
-      const loserId = DuelClockModel.loserOnZero(duel);
+      // Le labo de combos et les puzzles se jouent sans chrono.
+      const loserId = duel.goldfish || duel.puzzle_id ? null : DuelClockModel.loserOnZero(duel);
       if (loserId !== null) {
         const winnerId =
           loserId === duel.challenger_id ? duel.opponent_id : duel.challenger_id;
@@ -377,41 +458,17 @@ export class DuelEngineController {
         ...(body?.announcedCode !== undefined ? { announcedCode: body.announcedCode } : {}),
         ...(body?.cardCodes ? { cardCodes: body.cardCodes } : {}),
       };
-      const state = await chooseInEngine(duel.id, seat, choice);
-
-      await DuelEngineModel.appendAction(duel.id, seat, choice);
-
-      // Bascule le chrono sur le joueur à qui la nouvelle invite est adressée.
-      if (state.status === 'awaiting_response' && state.prompt) {
-        const nextUserId = userIdOfSeat(duel, state.prompt.seat);
-        await DuelClockModel.startFor(duel.id, nextUserId);
-      } else if (state.status === 'ended') {
-        await DuelClockModel.stop(duel.id);
-      }
-
-      if (state.status === 'ended') {
-        const winnerId =
-          state.winner === null || state.winner === undefined
-            ? null
-            : userIdOfSeat(duel, state.winner);
-
-        if (winnerId) {
-          await DuelModel.finish(duel.id, winnerId);
-          logger.info(`[DUEL_ENGINE] duel ${duel.id} terminé — vainqueur ${winnerId}`);
-          // F4 · Match Bo3 — propage la victoire au match parent (score,
-          // passage en sideboard ou finished).
-          if (duel.match_id) {
-            const match = await DuelMatchModel.recordGameWin(duel.match_id, winnerId);
-            const io = req.app.get('io');
-            if (match && io) {
-              io.to(`user:${duel.challenger_id}`).emit('match:update', { match });
-              io.to(`user:${duel.opponent_id}`).emit('match:update', { match });
-            }
-          }
-        }
+      choicesInFlight.set(duel.id, (choicesInFlight.get(duel.id) ?? 0) + 1);
+      let state: DuelStateResponse;
+      try {
+        state = await playEngineChoice(req.app.get('io'), duel, seat, choice);
+      } finally {
+        const left = (choicesInFlight.get(duel.id) ?? 1) - 1;
+        if (left > 0) choicesInFlight.set(duel.id, left);
+        else choicesInFlight.delete(duel.id);
       }
+      if (duel.bot_policy) void driveBot(req.app.get('io'), duel.id);
 
-      notifySeats(req, duel);
       const withClocks = await attachClocks(duel.id, seat, state);
       res.json(withClocks);
     } catch (err) {
@@ -556,6 +613,172 @@ export class DuelEngineController {
     }
   }
 
+  /**
+   * GET /duels/:id/replay — la partie finie, rejouée image par image.
+   *
+   * Mêmes droits que la vue spectateur, participants en plus : une partie
+   * terminée n'a plus rien à cacher à ceux qui pouvaient la regarder. Les
+   * deux mains font partie de la réponse, le front ne les montre qu'à la
+   * demande.
+   */
+  static async replay(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const duel = await loadRewatchableDuel(req);
+      const replay = await buildDuelReplay(duel);
+      if (!('frames' in replay)) throw new ValidationError(replay.error);
+      res.json(replay);
+    } catch (err) {
+      next(err);
+    }
+  }
+
+  /**
+   * GET /duels/:id/replay/yrpx — la même partie, en fichier de rejeu EDOPro.
+   *
+   * Mêmes droits que le rejeu : c'est la même information, dans un autre
+   * format.
+   */
+  static async exportYrpx(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const duel = await loadRewatchableDuel(req);
+      const exported = await buildDuelYrpx(duel);
+      if ('error' in exported) throw new ValidationError(exported.error);
+
+      res.setHeader('Content-Type', 'application/octet-stream');
+      res.setHeader('Content-Disposition', `attachment; filename="${exported.filename}"`);
+      res.send(exported.file);
+    } catch (err) {
+      next(err);
+    }
+  }
+
+  /**
+   * GET /duels/:id/engine/lab — les décisions du joueur dans un labo de
+   * combos, chacune avec son rang dans le journal pour pouvoir y revenir.
+   */
+  static async labHistory(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { duel, seat } = await loadParticipantDuel(req);
+      if (!duel.goldfish) throw new ValidationError("Ce duel n'est pas un labo de combos");
+      const history = await buildLabHistory(duel, seat);
+      if ('error' in history) throw new ValidationError(history.error);
+      res.json(history);
+    } catch (err) {
+      next(err);
+    }
+  }
+
+  /**
+   * POST /duels/:id/engine/lab/undo — revient avant une décision du joueur.
+   * Body : `{ seq? }` — rang dans le journal (cf. `labHistory`) ; par défaut
+   * la dernière décision du joueur.
+   *
+   * Le moteur ne sait pas reculer : on détruit la partie et on la
+   * reconstruit depuis la graine avec le journal d'avant la décision — le
+   * chemin de la reprise après redémarrage. Le journal n'est coupé qu'une fois
+   * la reconstruction réussie ; d'ici là, `choose` refuse les coups du labo.
+   */
+  static async undo(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { duel, seat } = await loadParticipantDuel(req);
+      if (!duel.goldfish) throw new ValidationError("L'annulation n'existe que dans le labo de combos");
+      if (duel.status !== 'active') throw new ValidationError("Ce labo n'est pas en cours");
+      // Reconstruire sous les pieds du goldfish le ferait abandonner.
+      if (isBotDriving(duel.id)) throw new ValidationError('Le goldfish répond encore — réessayez');
+      if (rewinding.has(duel.id)) throw new ValidationError('Retour en arrière en cours — réessayez');
+      if (choicesInFlight.has(duel.id)) throw new ValidationError('Un coup est en cours — réessayez');
+
+      rewinding.add(duel.id);
+      try {
+        const mine = (await DuelEngineModel.readActions(duel.id)).filter((a) => a.seat === seat);
+        const rawSeq = req.body?.seq;
+        const target =
+          rawSeq === undefined || rawSeq === null
+            ? mine[mine.length - 1]
+            : mine.find((a) => a.seq === Number(rawSeq));
+        if (!target) {
+          throw new ValidationError(
+            rawSeq === undefined || rawSeq === null ? 'Aucune décision à annuler' : 'Décision introuvable'
+          );
+        }
+
+        // Le journal n'est coupé qu'une fois le labo reconstruit sans sa fin :
+        // si le rejeu échoue, la partie repart du journal intact, telle qu'elle
+        // était avant la demande.
+        await destroyEngineDuel(duel.id);
+        const { rehydrateDuel } = await import('../services/duelEngine/rehydrate');
+        const result = await rehydrateDuel(duel.id, { beforeSeq: target.seq });
+        if (!result.ok) {
+          await destroyEngineDuel(duel.id).catch(() => undefined);
+          const restored = await rehydrateDuel(duel.id);
+          if (!restored.ok) logger.warn(`[DUEL_ENGINE] labo ${duel.id} non restauré — ${restored.error}`);
+          throw new ValidationError(`Impossible de revenir en arrière (${result.error})`);
+        }
+        await DuelEngineModel.truncateActions(duel.id, target.seq);
+        logger.info(`[DUEL_ENGINE] labo ${duel.id} ramené avant la décision ${target.seq}`);
+      } finally {
+        rewinding.delete(duel.id);
+      }
+
+      notifySeats(req, duel);
+      const state = await viewEngineDuel(duel.id, seat);
+      if (state.prompt && state.prompt.seat !== seat) void driveBot(req.app.get('io'), duel.id);
+      const withClocks = await attachClocks(duel.id, seat, state);
+      res.json(withClocks);
+    } catch (err) {
+      next(err);
+    }
+  }
+
+  /**
+   * POST /duels/:id/engine/lab/lines — enregistre la partie du labo comme
+   * ligne de combo du deck. Body : `{ name }` ; un nom déjà pris sur ce deck
+   * est remplacé.
+   *
+   * La ligne garde graine, main choisie et journal complet : de quoi la
+   * rejouer à l'identique depuis la fiche du deck.
+   */
+  static async saveLabLine(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { duel, seat } = await loadParticipantDuel(req);
+      if (!duel.goldfish) throw new ValidationError("Ce duel n'est pas un labo de combos");
+
+      const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+      if (!name || name.length > MAX_COMBO_LINE_NAME_LENGTH) {
+        throw new ValidationError(`name doit faire 1 à ${MAX_COMBO_LINE_NAME_LENGTH} caractères`);
+      }
+
+      const deck = await DeckModel.findById(duel.challenger_deck_id!);
+      if (!deck) throw new NotFoundError('Deck introuvable');
+      if (deck.user_id !== req.user!.id) {
+        throw new ForbiddenError('Seul le propriétaire du deck y enregistre des lignes');
+      }
+
+      const seed = await DuelEngineModel.readSeed(duel.id);
+      if (!seed || seed.length !== 4) throw new ValidationError("Le labo n'a pas encore démarré");
+      const actions = await DuelEngineModel.readActions(duel.id);
+      if (!actions.some((a) => a.seat === seat)) throw new ValidationError('Rien à enregistrer');
+      // Les decks du labo tels que le moteur les a reçus : la ligne doit se
+      // rejouer même si le deck change ensuite.
+      const resolved = await resolveEnginePlayers(duel);
+      if ('error' in resolved) throw new ValidationError(`Deck du labo introuvable (${resolved.error})`);
+
+      const line = await DeckComboLineModel.save({
+        deckId: deck.id,
+        userId: req.user!.id,
+        name,
+        seed,
+        goFirst: seat === 0,
+        openingHand: duel.opening_hand ?? [],
+        actions: actions.map(({ seat: s, choice }) => ({ seat: s, choice })),
+        players: resolved.players,
+      });
+      res.status(201).json({ line: publicComboLine(line) });
+    } catch (err) {
+      next(err);
+    }
+  }
+
   /**
    * POST /duels/:id/engine/rehydrate — force le rejeu d'un duel (F6, admin).
    *
@@ -619,7 +842,10 @@ export class DuelEngineController {
       if (!deck) throw new NotFoundError('Deck introuvable');
 
       const conversion = deckToEngine(deck);
-      const problem = await checkEngineDeckStrict(conversion);
+      const problem = await checkEngineDeckStrict(conversion, [], {
+        skipBanlist: duel.rules_mode === 'free',
+        format: duel.banlist_id ?? undefined,
+      });
       res.json({
         legal: !problem,
         message: problem,
@@ -0,0 +1,357 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from '../middleware/authMiddleware';
+import { ValidationError, NotFoundError, ForbiddenError } from '../middleware/errorHandler';
+import { loggers } from '../utils/logger';
+import { TradeModel, NewTradeItem } from '../models/tradeModel';
+import { FollowModel } from '../models/followModel';
+import { NotificationModel } from '../models/notificationModel';
+import {
+  Trade,
+  TradeNotificationType,
+  TradeOfferLine,
+  TradeStatus,
+} from '../../../shared/types';
+
+const TRADE_STATUSES: TradeStatus[] = ['pending', 'accepted', 'declined', 'cancelled', 'countered'];
+const MAX_LINES_PER_SIDE = 30;
+const MAX_MESSAGE_LENGTH = 500;
+
+function parseId(raw: string, label: string): number {
+  const id = parseInt(raw, 10);
+  if (!Number.isInteger(id) || id <= 0) throw new ValidationError(`${label} invalide`);
+  return id;
+}
+
+/** Valide `offered` / `requested` : tableau de { user_card_id, quantity }, sans doublon. */
+function readOfferLines(raw: unknown, field: string): TradeOfferLine[] {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) throw new ValidationError(`${field} doit être un tableau`);
+  if (raw.length > MAX_LINES_PER_SIDE) {
+    throw new ValidationError(`${field} : ${MAX_LINES_PER_SIDE} lignes maximum`);
+  }
+
+  const seen = new Set<number>();
+  return raw.map((line: any) => {
+    const userCardId = Number(line?.user_card_id);
+    const quantity = Number(line?.quantity);
+    if (!Number.isInteger(userCardId) || userCardId <= 0) {
+      throw new ValidationError(`${field} : user_card_id invalide`);
+    }
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new ValidationError(`${field} : quantité invalide`);
+    }
+    if (seen.has(userCardId)) throw new ValidationError(`${field} : ligne ${userCardId} en double`);
+    seen.add(userCardId);
+    return { user_card_id: userCardId, quantity };
+  });
+}
+
+function readMessage(raw: unknown): string | null {
+  if (raw === undefined || raw === null || raw === '') return null;
+  if (typeof raw !== 'string') throw new ValidationError('message doit être une chaîne');
+  if (raw.length > MAX_MESSAGE_LENGTH) {
+    throw new ValidationError(`message : ${MAX_MESSAGE_LENGTH} caractères maximum`);
+  }
+  return raw.trim() || null;
+}
+
+/**
+ * Transforme les lignes désignées en lots : chaque ligne doit appartenir à
+ * `ownerId` et contenir assez d'exemplaires au moment de l'offre. Le stock
+ * est revérifié à l'acceptation, les collections ayant pu bouger entre-temps.
+ */
+async function resolveLines(ownerId: number, lines: TradeOfferLine[], field: string): Promise<NewTradeItem[]> {
+  const rows = await TradeModel.getUserCardsByIds(
+    ownerId,
+    lines.map((l) => l.user_card_id)
+  );
+  const byId = new Map(rows.map((r) => [r.id, r]));
+
+  return lines.map((line) => {
+    const row = byId.get(line.user_card_id);
+    if (!row) throw new ValidationError(`${field} : carte ${line.user_card_id} absente de la collection`);
+    if (row.quantity < line.quantity) {
+      throw new ValidationError(`${field} : seulement ${row.quantity} exemplaire(s) de la carte ${line.user_card_id}`);
+    }
+    return {
+      from_user_id: ownerId,
+      card_id: row.card_id,
+      set_code: row.set_code,
+      rarity: row.rarity,
+      language: row.language,
+      condition: row.condition,
+      edition: row.edition,
+      quantity: line.quantity,
+    };
+  });
+}
+
+/** Les échanges sont réservés aux abonnés mutuels. */
+async function assertMutualFollow(userId: number, otherId: number): Promise<void> {
+  const [a, b] = await Promise.all([
+    FollowModel.isFollowing(userId, otherId),
+    FollowModel.isFollowing(otherId, userId),
+  ]);
+  if (!a || !b) throw new ForbiddenError('Les échanges sont réservés aux abonnés mutuels');
+}
+
+async function loadOwnTrade(tradeId: number, userId: number): Promise<Trade> {
+  const trade = await TradeModel.findById(tradeId);
+  if (!trade) throw new NotFoundError('Échange introuvable');
+  if (trade.proposer_id !== userId && trade.recipient_id !== userId) {
+    throw new ForbiddenError('Cet échange ne vous concerne pas');
+  }
+  return trade;
+}
+
+/** Pousse l'offre à jour aux deux participants, pour que leurs listes suivent sans recharger. */
+function pushTrade(req: AuthRequest, trade: Trade): void {
+  const io = req.app.get('io');
+  if (!io) return;
+  io.to(`user:${trade.proposer_id}`).emit('trade:updated', { trade });
+  io.to(`user:${trade.recipient_id}`).emit('trade:updated', { trade });
+}
+
+/**
+ * Notifie l'autre camp (notification persistée + push `notification`) puis
+ * pousse l'offre à jour.
+ */
+async function publish(
+  req: AuthRequest,
+  trade: Trade,
+  type: TradeNotificationType,
+  toUserId: number
+): Promise<void> {
+  const fromUserId = req.user!.id;
+  const notification = await NotificationModel.create(
+    toUserId,
+    type,
+    fromUserId,
+    undefined,
+    undefined,
+    trade.id
+  );
+  notification.from_user =
+    trade.proposer_id === fromUserId ? trade.proposer : trade.recipient;
+
+  const io = req.app.get('io');
+  if (io) io.to(`user:${toUserId}`).emit('notification', notification);
+  pushTrade(req, trade);
+}
+
+export class TradeController {
+  /**
+   * GET /trades — offres envoyées et reçues (?status= optionnel).
+   */
+  static async list(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw new ValidationError('Not authenticated');
+      const status = req.query.status as TradeStatus | undefined;
+      if (status && !TRADE_STATUSES.includes(status)) throw new ValidationError('status invalide');
+
+      const trades = await TradeModel.listForUser(req.user.id, status);
+      res.json({ trades });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /trades/partners — abonnés mutuels, les seuls avec qui échanger.
+   */
+  static async getPartners(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw new ValidationError('Not authenticated');
+      const partners = await FollowModel.getMutualFollowers(req.user.id);
+      res.json({ partners });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /trades/partners/:userId/cards — collection proposable d'un partenaire
+   * (ou la sienne, avec son propre id).
+   */
+  static async getPartnerCards(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw new ValidationError('Not authenticated');
+      const userId = parseId(req.params.userId, 'Utilisateur');
+      if (userId !== req.user.id) await assertMutualFollow(req.user.id, userId);
+
+      const cards = await TradeModel.getTradeableCards(userId);
+      res.json({ cards });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /trades/:id
+   */
+  static async getTrade(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw new ValidationError('Not authenticated');
+      const trade = await loadOwnTrade(parseId(req.params.id, 'Échange'), req.user.id);
+      res.json({ trade });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /trades — body: CreateTradeRequest.
+   */
+  static async create(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw new ValidationError('Not authenticated');
+      const recipientId = Number(req.body?.recipient_id);
+      if (!Number.isInteger(recipientId) || recipientId <= 0) {
+        throw new ValidationError('recipient_id invalide');
+      }
+      if (recipientId === req.user.id) throw new ValidationError('Impossible d\'échanger avec soi-même');
+
+      const offered = readOfferLines(req.body?.offered, 'offered');
+      const requested = readOfferLines(req.body?.requested, 'requested');
+      if (offered.length === 0 && requested.length === 0) {
+        throw new ValidationError('L\'offre est vide');
+      }
+      const message = readMessage(req.body?.message);
+
+      await assertMutualFollow(req.user.id, recipientId);
+      const items = [
+        ...(await resolveLines(req.user.id, offered, 'offered')),
+        ...(await resolveLines(recipientId, requested, 'requested')),
+      ];
+
+      const trade = await TradeModel.create(req.user.id, recipientId, items, message);
+      if (!trade) throw new Error('Failed to create trade');
+
+      loggers.api.request('POST', '/trades', req.user.id);
+      await publish(req, trade, 'trade_offer', recipientId);
+
+      res.status(201).json({ trade });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /trades/:id/counter — le destinataire répond par une nouvelle offre.
+   * `offered` vient de sa collection, `requested` de celle du proposant initial.
+   */
+  static async counter(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw new ValidationError('Not authenticated');
+      const original = await loadOwnTrade(parseId(req.params.id, 'Échange'), req.user.id);
+      if (original.recipient_id !== req.user.id) {
+        throw new ForbiddenError('Seul le destinataire peut faire une contre-offre');
+      }
+      if (original.status !== 'pending') throw new ValidationError('Cet échange n\'est plus en attente');
+
+      const offered = readOfferLines(req.body?.offered, 'offered');
+      const requested = readOfferLines(req.body?.requested, 'requested');
+      if (offered.length === 0 && requested.length === 0) {
+        throw new ValidationError('L\'offre est vide');
+      }
+      const message = readMessage(req.body?.message);
+
+      await assertMutualFollow(req.user.id, original.proposer_id);
+      const items = [
+        ...(await resolveLines(req.user.id, offered, 'offered')),
+        ...(await resolveLines(original.proposer_id, requested, 'requested')),
+      ];
+
+      const trade = await TradeModel.create(
+        req.user.id,
+        original.proposer_id,
+        items,
+        message,
+        original.id
+      );
+      if (!trade) throw new ValidationError('Cet échange n\'est plus en attente');
+
+      loggers.api.request('POST', `/trades/${original.id}/counter`, req.user.id);
+      await publish(req, trade, 'trade_counter', original.proposer_id);
+      // L'offre initiale est passée en 'countered' : les deux listes doivent le voir.
+      const parent = await TradeModel.findById(original.id);
+      if (parent) pushTrade(req, parent);
+
+      res.status(201).json({ trade });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /trades/:id/accept — transfère les cartes, tout ou rien.
+   */
+  static async accept(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw new ValidationError('Not authenticated');
+      const trade = await loadOwnTrade(parseId(req.params.id, 'Échange'), req.user.id);
+      if (trade.recipient_id !== req.user.id) {
+        throw new ForbiddenError('Seul le destinataire peut accepter');
+      }
+
+      const result = await TradeModel.accept(trade.id);
+      if (!result.success) {
+        if (result.error === 'unavailable') {
+          throw new ValidationError(
+            `${result.item.name} (${result.item.set_code}) n'est plus disponible en ${result.item.quantity} exemplaire(s)`
+          );
+        }
+        throw new ValidationError('Cet échange n\'est plus en attente');
+      }
+
+      loggers.api.request('POST', `/trades/${trade.id}/accept`, req.user.id);
+      await publish(req, result.trade, 'trade_accepted', trade.proposer_id);
+
+      res.json({ trade: result.trade });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /trades/:id/decline
+   */
+  static async decline(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw new ValidationError('Not authenticated');
+      const trade = await loadOwnTrade(parseId(req.params.id, 'Échange'), req.user.id);
+      if (trade.recipient_id !== req.user.id) {
+        throw new ForbiddenError('Seul le destinataire peut refuser');
+      }
+
+      const closed = await TradeModel.close(trade.id, 'declined');
+      if (!closed) throw new ValidationError('Cet échange n\'est plus en attente');
+
+      await publish(req, closed, 'trade_declined', trade.proposer_id);
+      res.json({ trade: closed });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /trades/:id/cancel — le proposant retire son offre.
+   */
+  static async cancel(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw new ValidationError('Not authenticated');
+      const trade = await loadOwnTrade(parseId(req.params.id, 'Échange'), req.user.id);
+      if (trade.proposer_id !== req.user.id) {
+        throw new ForbiddenError('Seul le proposant peut annuler');
+      }
+
+      const closed = await TradeModel.close(trade.id, 'cancelled');
+      if (!closed) throw new ValidationError('Cet échange n\'est plus en attente');
+
+      await publish(req, closed, 'trade_cancelled', trade.recipient_id);
+      res.json({ trade: closed });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -176,6 +176,9 @@ import clientErrorRoutes from './routes/clientErrorRoutes';
 import adminRoutes from './routes/adminRoutes';
 import duelRoutes from './routes/duelRoutes';
 import newsRoutes from './routes/newsRoutes';
+import tradeRoutes from './routes/tradeRoutes';
+import binderRoutes from './routes/binderRoutes';
+import banlistRoutes from './routes/banlistRoutes';
 import { onWorkerLost, shutdownEngine } from './services/duelEngine/engineClient';
 import { loadHintStrings } from './services/duelEngine/hintStrings';
 import { rehydrateActiveDuels } from './services/duelEngine/rehydrate';
@@ -194,6 +197,9 @@ app.use('/api/notifications', notificationRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/duels', duelRoutes);
 app.use('/api/news', newsRoutes);
+app.use('/api/trades', tradeRoutes);
+app.use('/api/binder', binderRoutes);
+app.use('/api/banlists', banlistRoutes);
 
 // Crashs clients — monté aussi en production : un crash n'a de valeur que s'il
 // remonte depuis les appareils réels. Auth optionnelle, débit plafonné.
@@ -290,6 +296,45 @@ httpServer.listen(PORT, () => {
   }).catch((err) => {
     logger.error('[news:cron] chargement KO', { error: err instanceof Error ? err.message : err });
   });
+
+  // ─── Cron prix ──────────────────────────────────────────────
+  // Photo quotidienne des prix des cartes possédées et de la valeur de chaque
+  // collection. Idempotente à la journée : le tir du démarrage ne fait que
+  // rafraîchir la photo du jour si le serveur redémarre dans la journée.
+  // Les alertes de prix partent en direct comme les autres notifications.
+  import('./services/priceSnapshotService').then(({ runDailyPriceSnapshot }) => {
+    const runSnapshot = () => {
+      runDailyPriceSnapshot(undefined, (notification) =>
+        io.to(`user:${notification.user_id}`).emit('notification', notification)
+      )
+        .then((bilan) => logger.info('[prices:cron] snapshot', bilan))
+        .catch((err) => logger.error('[prices:cron] snapshot KO', { error: err instanceof Error ? err.message : err }));
+    };
+
+    // Après l'ingest des news pour ne pas cumuler les appels sortants au boot.
+    setTimeout(runSnapshot, 60_000);
+    setInterval(runSnapshot, 24 * 60 * 60 * 1000);
+  }).catch((err) => {
+    logger.error('[prices:cron] chargement KO', { error: err instanceof Error ? err.message : err });
+  });
+
+  // ─── Cron catalogue ─────────────────────────────────────────
+  // Miroir local du catalogue YGOProDeck (recherche par code, scan, import).
+  // Ne télécharge rien si la version de leur base n'a pas bougé depuis la
+  // dernière synchro : le tir du démarrage coûte alors un seul appel.
+  import('./services/cardCatalogService').then(({ syncCardCatalog }) => {
+    const runSync = () => {
+      syncCardCatalog()
+        .then((bilan) => logger.info('[catalog:cron] synchro', bilan))
+        .catch((err) => logger.error('[catalog:cron] synchro KO', { error: err instanceof Error ? err.message : err }));
+    };
+
+    // Après la photo des prix, qui rafraîchit déjà les cartes possédées.
+    setTimeout(runSync, 5 * 60_000);
+    setInterval(runSync, 24 * 60 * 60 * 1000);
+  }).catch((err) => {
+    logger.error('[catalog:cron] chargement KO', { error: err instanceof Error ? err.message : err });
+  });
 });
 
 // Moteur de duel — un worker qui meurt emporte les parties qu'il hébergeait.
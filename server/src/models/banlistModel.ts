@@ -0,0 +1,192 @@
+import { query, getClient } from '../config/database';
+import type { Banlist, BanlistFormat, BanlistFormatId } from '../../../shared/types';
+import type { BanlistLimits } from '../utils/banlist';
+
+const BANLIST_COLUMNS = `
+  b.id, b.format, b.name, to_char(b.effective_date, 'YYYY-MM-DD') AS effective_date,
+  b.whitelist, b.created_by,
+  (SELECT COUNT(*)::int FROM banlist_entries e WHERE e.banlist_id = b.id) AS entry_count`;
+
+function rowToBanlist(row: any): Banlist {
+  return {
+    id: row.id,
+    format: row.format,
+    name: row.name,
+    effective_date: row.effective_date,
+    whitelist: row.whitelist === true,
+    created_by: row.created_by ?? null,
+    entry_count: row.entry_count ?? 0,
+  };
+}
+
+export class BanlistModel {
+  /**
+   * Every list, official formats first, newest first within a format
+   */
+  static async list(): Promise<Banlist[]> {
+    const result = await query(
+      `SELECT ${BANLIST_COLUMNS}
+       FROM banlists b
+       ORDER BY CASE b.format WHEN 'tcg' THEN 0 WHEN 'ocg' THEN 1 WHEN 'goat' THEN 2 ELSE 3 END,
+                b.effective_date DESC, b.name`
+    );
+    return result.rows.map(rowToBanlist);
+  }
+
+  static async findById(id: number): Promise<Banlist | null> {
+    const result = await query(`SELECT ${BANLIST_COLUMNS} FROM banlists b WHERE b.id = $1`, [id]);
+    return result.rows[0] ? rowToBanlist(result.rows[0]) : null;
+  }
+
+  /**
+   * List of a format by name; a house list is looked up among the lists of
+   * its author (`ownerId`), two players may use the same name
+   */
+  static async findByName(format: BanlistFormat, name: string, ownerId: number | null = null): Promise<Banlist | null> {
+    const result =
+      format === 'custom'
+        ? await query(
+            `SELECT ${BANLIST_COLUMNS} FROM banlists b
+             WHERE b.format = 'custom' AND b.name = $1 AND b.created_by IS NOT DISTINCT FROM $2`,
+            [name, ownerId]
+          )
+        : await query(`SELECT ${BANLIST_COLUMNS} FROM banlists b WHERE b.format = $1 AND b.name = $2`, [format, name]);
+    return result.rows[0] ? rowToBanlist(result.rows[0]) : null;
+  }
+
+  /**
+   * List a format id points to: that exact list for an id, the latest list
+   * already in force for a format key (TCG when absent). Null when none was
+   * imported — callers then fall back to the TCG status cached on cards.
+   */
+  static async resolve(format?: BanlistFormatId | null): Promise<Banlist | null> {
+    if (typeof format === 'number') return this.findById(format);
+
+    const result = await query(
+      `SELECT ${BANLIST_COLUMNS}
+       FROM banlists b
+       WHERE b.format = $1 AND b.effective_date <= CURRENT_DATE
+       ORDER BY b.effective_date DESC
+       LIMIT 1`,
+      [format ?? 'tcg']
+    );
+    return result.rows[0] ? rowToBanlist(result.rows[0]) : null;
+  }
+
+  /**
+   * The list of the same official format in force just before this one
+   * (house lists have no predecessor)
+   */
+  static async findPrevious(banlist: Banlist): Promise<Banlist | null> {
+    if (banlist.format === 'custom') return null;
+    const result = await query(
+      `SELECT ${BANLIST_COLUMNS}
+       FROM banlists b
+       WHERE b.format = $1 AND b.effective_date < $2::date
+       ORDER BY b.effective_date DESC
+       LIMIT 1`,
+      [banlist.format, banlist.effective_date]
+    );
+    return result.rows[0] ? rowToBanlist(result.rows[0]) : null;
+  }
+
+  static async getLimits(banlist: Banlist): Promise<BanlistLimits> {
+    const result = await query(`SELECT card_code, limit_count FROM banlist_entries WHERE banlist_id = $1`, [
+      banlist.id,
+    ]);
+    return {
+      whitelist: banlist.whitelist,
+      limits: new Map(result.rows.map((r: any) => [r.card_code, Number(r.limit_count)])),
+    };
+  }
+
+  /**
+   * Create a list, or replace the entries of the list with the same format
+   * and name (re-importing a corrected file). A house list only replaces a
+   * list of the same author.
+   */
+  static async importList(list: {
+    format: BanlistFormat;
+    name: string;
+    effective_date: string;
+    whitelist: boolean;
+    entries: Array<{ card_code: string; limit: number }>;
+    created_by: number | null;
+  }): Promise<Banlist> {
+    // Index uniques partiels (migration 038) : nom par format, ou par auteur
+    const conflict =
+      list.format === 'custom' ? `(name, created_by) WHERE format = 'custom'` : `(format, name) WHERE format <> 'custom'`;
+    const client = await getClient();
+    try {
+      await client.query('BEGIN');
+
+      const saved = await client.query(
+        `INSERT INTO banlists (format, name, effective_date, whitelist, created_by)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT ${conflict} DO UPDATE SET
+           effective_date = EXCLUDED.effective_date,
+           whitelist = EXCLUDED.whitelist
+         RETURNING id`,
+        [list.format, list.name, list.effective_date, list.whitelist, list.created_by]
+      );
+      const id: number = saved.rows[0].id;
+
+      await client.query(`DELETE FROM banlist_entries WHERE banlist_id = $1`, [id]);
+      if (list.entries.length > 0) {
+        await client.query(
+          `INSERT INTO banlist_entries (banlist_id, card_code, limit_count)
+           SELECT $1, e.card_code, e.limit_count
+           FROM unnest($2::varchar[], $3::smallint[]) AS e(card_code, limit_count)`,
+          [id, list.entries.map((e) => e.card_code), list.entries.map((e) => e.limit)]
+        );
+      }
+
+      await client.query('COMMIT');
+      return (await this.findById(id)) as Banlist;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async remove(id: number): Promise<boolean> {
+    const result = await query(`DELETE FROM banlists WHERE id = $1`, [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Display names of passcodes (French first, like parseCard)
+   */
+  static async cardNames(codes: string[]): Promise<Map<string, string>> {
+    if (codes.length === 0) return new Map();
+    const result = await query(
+      `SELECT card_id, COALESCE(name_fr, name) AS name FROM cards WHERE card_id = ANY($1::varchar[])`,
+      [codes]
+    );
+    return new Map(result.rows.map((r: any) => [r.card_id, r.name]));
+  }
+
+  /**
+   * Copies per card of each of the user's decks that follows the banlist,
+   * main, extra and side counted together
+   */
+  static async getDeckCardCounts(userId: number): Promise<
+    Array<{ deck_id: number; deck_name: string; card_code: string; card_name: string; count: number; ban_tcg: string | null }>
+  > {
+    const result = await query(
+      `SELECT d.id AS deck_id, d.name AS deck_name, c.card_id AS card_code,
+              COALESCE(c.name_fr, c.name) AS card_name, c.banlist_info->>'ban_tcg' AS ban_tcg,
+              SUM(dc.quantity)::int AS count
+       FROM decks d
+       JOIN deck_cards dc ON dc.deck_id = d.id
+       JOIN cards c ON c.id = dc.card_id
+       WHERE d.user_id = $1 AND d.respect_banlist = true
+       GROUP BY d.id, c.id
+       ORDER BY d.name, card_name`,
+      [userId]
+    );
+    return result.rows;
+  }
+}
@@ -0,0 +1,248 @@
+import { query } from '../config/database';
+import { BinderMatch, TradeableCard, TradeBinder, WantListEntry } from '../../../shared/types';
+import { cardmarketPriceEUR } from '../utils/prices';
+import { rowToTradeableCard } from './tradeModel';
+
+/**
+ * Classeur d'échange : exemplaires « à l'échange » (`user_cards.for_trade`)
+ * et liste de recherche (`card_wants`).
+ *
+ * `for_trade` n'est pas tenu à jour quand la quantité baisse : toutes les
+ * lectures le bornent par LEAST(for_trade, quantity).
+ *
+ * Une recherche peut porter un prix cible : le relevé quotidien des prix
+ * appelle `takePriceAlerts` pour savoir qui prévenir.
+ */
+
+const HAVE_COLUMNS = `uc.id AS user_card_id, uc.card_id, uc.set_code, uc.rarity, uc.language,
+              uc.condition, uc.edition, LEAST(uc.for_trade, uc.quantity) AS quantity,
+              LEAST(uc.for_trade, uc.quantity) AS for_trade,
+              c.name, c.name_fr, c.card_images, c.card_prices`;
+
+const toPrice = (value: unknown): number | null =>
+  value !== null && value !== undefined ? Number(value) : null;
+
+/** Alerte à notifier : `price_eur` est passé au prix cible de `user_id` ou en dessous. */
+export interface PriceAlert {
+  user_id: number;
+  card_id: number;
+  price_eur: number;
+}
+
+function rowToWant(row: any): WantListEntry {
+  return {
+    card_id: row.card_id,
+    name: row.name_fr || row.name,
+    image_url_small: row.card_images?.[0]?.image_url_small,
+    quantity: row.quantity,
+    unit_price_eur: cardmarketPriceEUR(row.card_prices),
+    target_price_eur: toPrice(row.target_price_eur),
+    alerted_price_eur: toPrice(row.alerted_price_eur),
+    created_at: row.created_at,
+  };
+}
+
+export class BinderModel {
+  static async getBinder(userId: number): Promise<TradeBinder> {
+    const [haves, wants] = await Promise.all([
+      query(
+        `SELECT ${HAVE_COLUMNS}
+         FROM user_cards uc
+         JOIN cards c ON c.id = uc.card_id
+         WHERE uc.user_id = $1 AND uc.for_trade > 0 AND uc.quantity > 0
+         ORDER BY c.name, uc.set_code, uc.rarity`,
+        [userId]
+      ),
+      query(
+        `SELECT w.card_id, w.quantity, w.target_price_eur, w.alerted_price_eur, w.created_at,
+                c.name, c.name_fr, c.card_images, c.card_prices
+         FROM card_wants w
+         JOIN cards c ON c.id = w.card_id
+         WHERE w.user_id = $1
+         ORDER BY c.name`,
+        [userId]
+      ),
+    ]);
+
+    return {
+      user_id: userId,
+      haves: haves.rows.map(rowToTradeableCard),
+      wants: wants.rows.map(rowToWant),
+    };
+  }
+
+  /**
+   * Fixe le nombre d'exemplaires à l'échange d'une ligne de collection,
+   * plafonné à sa quantité. Null si la ligne n'appartient pas à `userId`.
+   */
+  static async setForTrade(
+    userId: number,
+    userCardId: number,
+    forTrade: number
+  ): Promise<{ user_card_id: number; for_trade: number } | null> {
+    const result = await query(
+      `UPDATE user_cards SET for_trade = LEAST($3, quantity), updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND user_id = $2
+       RETURNING id AS user_card_id, for_trade`,
+      [userCardId, userId, forTrade]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Ajoute ou remplace une entrée de la liste de recherche. Changer de prix
+   * cible réarme l'alerte.
+   */
+  static async setWant(
+    userId: number,
+    cardId: number,
+    quantity: number,
+    targetPriceEur: number | null = null
+  ): Promise<void> {
+    await query(
+      `INSERT INTO card_wants (user_id, card_id, quantity, target_price_eur)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (user_id, card_id) DO UPDATE
+         SET quantity = EXCLUDED.quantity,
+             target_price_eur = EXCLUDED.target_price_eur,
+             alerted_price_eur = CASE
+               WHEN card_wants.target_price_eur IS DISTINCT FROM EXCLUDED.target_price_eur THEN NULL
+               ELSE card_wants.alerted_price_eur
+             END`,
+      [userId, cardId, quantity, targetPriceEur]
+    );
+  }
+
+  /**
+   * Ajout groupé (liste de courses d'un deck) : une entrée existante n'est
+   * jamais revue à la baisse.
+   */
+  static async addWants(
+    userId: number,
+    entries: Array<{ card_id: number; quantity: number }>
+  ): Promise<number> {
+    if (entries.length === 0) return 0;
+    const result = await query(
+      `INSERT INTO card_wants (user_id, card_id, quantity)
+       SELECT $1, e.card_id, e.quantity
+       FROM UNNEST($2::int[], $3::int[]) AS e(card_id, quantity)
+       WHERE EXISTS (SELECT 1 FROM cards c WHERE c.id = e.card_id)
+       ON CONFLICT (user_id, card_id)
+       DO UPDATE SET quantity = GREATEST(card_wants.quantity, EXCLUDED.quantity)`,
+      [userId, entries.map((e) => e.card_id), entries.map((e) => e.quantity)]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Confronte les prix du jour aux prix cibles. Réarme d'abord les alertes
+   * dont le prix est repassé au-dessus de la cible, puis marque et renvoie
+   * celles qui viennent de franchir le seuil : une baisse n'est annoncée
+   * qu'une fois.
+   */
+  static async takePriceAlerts(prices: Array<{ card_id: number; price_eur: number }>): Promise<PriceAlert[]> {
+    if (prices.length === 0) return [];
+    const params = [prices.map((p) => p.card_id), prices.map((p) => p.price_eur)];
+
+    await query(
+      `UPDATE card_wants w SET alerted_price_eur = NULL
+       FROM unnest($1::int[], $2::numeric[]) AS p(card_id, price_eur)
+       WHERE w.card_id = p.card_id AND w.alerted_price_eur IS NOT NULL
+         AND p.price_eur > w.target_price_eur`,
+      params
+    );
+
+    const result = await query(
+      `UPDATE card_wants w SET alerted_price_eur = p.price_eur
+       FROM unnest($1::int[], $2::numeric[]) AS p(card_id, price_eur)
+       WHERE w.card_id = p.card_id AND w.target_price_eur IS NOT NULL
+         AND w.alerted_price_eur IS NULL
+         AND p.price_eur <= w.target_price_eur
+       RETURNING w.user_id, w.card_id, p.price_eur`,
+      params
+    );
+
+    return result.rows.map((row) => ({
+      user_id: row.user_id,
+      card_id: row.card_id,
+      price_eur: Number(row.price_eur),
+    }));
+  }
+
+  static async removeWant(userId: number, cardId: number): Promise<boolean> {
+    const result = await query(
+      `DELETE FROM card_wants WHERE user_id = $1 AND card_id = $2 RETURNING id`,
+      [userId, cardId]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Utilisateurs suivis par `userId` dont les cartes à l'échange figurent
+   * dans sa liste de recherche, ou qui recherchent ses cartes à l'échange.
+   * Les croisements dans les deux sens passent en tête.
+   */
+  static async findMatches(userId: number): Promise<BinderMatch[]> {
+    const [theyHave, theyWant] = await Promise.all([
+      query(
+        `SELECT uc.user_id AS partner_id, ${HAVE_COLUMNS}
+         FROM user_cards uc
+         JOIN follows f ON f.following_id = uc.user_id AND f.follower_id = $1
+         JOIN card_wants w ON w.card_id = uc.card_id AND w.user_id = $1
+         JOIN cards c ON c.id = uc.card_id
+         WHERE uc.for_trade > 0 AND uc.quantity > 0
+         ORDER BY c.name, uc.set_code`,
+        [userId]
+      ),
+      query(
+        `SELECT w.user_id AS partner_id, ${HAVE_COLUMNS}
+         FROM card_wants w
+         JOIN follows f ON f.following_id = w.user_id AND f.follower_id = $1
+         JOIN user_cards uc ON uc.card_id = w.card_id AND uc.user_id = $1
+         JOIN cards c ON c.id = uc.card_id
+         WHERE uc.for_trade > 0 AND uc.quantity > 0
+         ORDER BY c.name, uc.set_code`,
+        [userId]
+      ),
+    ]);
+
+    const byPartner = new Map<number, { they_have: TradeableCard[]; they_want: TradeableCard[] }>();
+    const slot = (partnerId: number) => {
+      let entry = byPartner.get(partnerId);
+      if (!entry) {
+        entry = { they_have: [], they_want: [] };
+        byPartner.set(partnerId, entry);
+      }
+      return entry;
+    };
+    for (const row of theyHave.rows) slot(row.partner_id).they_have.push(rowToTradeableCard(row));
+    for (const row of theyWant.rows) slot(row.partner_id).they_want.push(rowToTradeableCard(row));
+
+    if (byPartner.size === 0) return [];
+
+    const users = await query(
+      `SELECT u.id, u.username, u.profile_picture,
+              EXISTS (
+                SELECT 1 FROM follows f WHERE f.follower_id = u.id AND f.following_id = $1
+              ) AS is_mutual
+       FROM users u
+       WHERE u.id = ANY($2::int[])`,
+      [userId, [...byPartner.keys()]]
+    );
+
+    const matches: BinderMatch[] = users.rows.map((u) => ({
+      user: { id: u.id, username: u.username, profile_picture: u.profile_picture },
+      is_mutual: u.is_mutual,
+      ...byPartner.get(u.id)!,
+    }));
+
+    const score = (m: BinderMatch) => m.they_have.length + m.they_want.length;
+    const bothWays = (m: BinderMatch) => (m.they_have.length > 0 && m.they_want.length > 0 ? 1 : 0);
+    return matches.sort(
+      (a, b) =>
+        bothWays(b) - bothWays(a) ||
+        score(b) - score(a) ||
+        (a.user.username || '').localeCompare(b.user.username || '')
+    );
+  }
+}
@@ -0,0 +1,189 @@
+import { query } from '../config/database';
+import { cardPrintings, type CardPrinting, type CatalogCard } from '../utils/cardCatalog';
+
+export interface CardCatalogSync {
+  id: number;
+  started_at: Date;
+  finished_at: Date | null;
+  db_version: string | null;
+  dry_run: boolean;
+  status: 'success' | 'skipped' | 'failed';
+  total: number;
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  printings: number;
+  error: string | null;
+}
+
+export class CardCatalogModel {
+  /**
+   * Replace the printings of the given cards. Printings that disappeared are
+   * deleted, the others upserted; a card with an empty list loses them all.
+   */
+  static async replacePrintings(entries: Array<{ card_id: number; printings: CardPrinting[] }>): Promise<number> {
+    if (entries.length === 0) return 0;
+
+    const rows = entries.flatMap((e) => e.printings.map((p) => ({ card_id: e.card_id, ...p })));
+    const result = await query(
+      `WITH incoming AS (
+         SELECT * FROM unnest($2::int[], $3::varchar[], $4::varchar[], $5::varchar[], $6::varchar[], $7::numeric[])
+           AS p(card_id, set_code, set_name, rarity, rarity_code, set_price)
+       ),
+       removed AS (
+         DELETE FROM card_printings cp
+         WHERE cp.card_id = ANY($1::int[])
+           AND NOT EXISTS (
+             SELECT 1 FROM incoming i
+             WHERE i.card_id = cp.card_id AND i.set_code = cp.set_code AND i.rarity = cp.rarity
+           )
+       )
+       INSERT INTO card_printings (card_id, set_code, set_name, rarity, rarity_code, set_price)
+       SELECT card_id, set_code, set_name, rarity, rarity_code, set_price FROM incoming
+       ON CONFLICT (card_id, set_code, rarity) DO UPDATE SET
+         set_name = EXCLUDED.set_name,
+         rarity_code = EXCLUDED.rarity_code,
+         set_price = EXCLUDED.set_price`,
+      [
+        entries.map((e) => e.card_id),
+        rows.map((r) => r.card_id),
+        rows.map((r) => r.set_code),
+        rows.map((r) => r.set_name),
+        rows.map((r) => r.rarity),
+        rows.map((r) => r.rarity_code),
+        rows.map((r) => r.set_price),
+      ]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Rewrite the prices of already mirrored cards (`card_prices`, and the
+   * `set_price` of their sets and printings), which the catalog fingerprint
+   * leaves out. Only rows whose prices moved are written; returns the number
+   * of cards updated.
+   */
+  static async updatePrices(cards: CatalogCard[]): Promise<number> {
+    if (cards.length === 0) return 0;
+
+    const result = await query(
+      `UPDATE cards c SET
+         card_prices = p.card_prices::jsonb,
+         card_sets = p.card_sets::jsonb,
+         updated_at = CURRENT_TIMESTAMP
+       FROM unnest($1::varchar[], $2::text[], $3::text[]) AS p(card_id, card_prices, card_sets)
+       WHERE c.card_id = p.card_id
+         AND (c.card_prices IS DISTINCT FROM p.card_prices::jsonb OR c.card_sets IS DISTINCT FROM p.card_sets::jsonb)`,
+      [
+        cards.map((c) => c.card_id),
+        cards.map((c) => JSON.stringify(c.card_prices || {})),
+        cards.map((c) => JSON.stringify(c.card_sets || [])),
+      ]
+    );
+
+    const rows = cards.flatMap((c) => cardPrintings(c).map((p) => ({ card_code: c.card_id, ...p })));
+    if (rows.length > 0) {
+      await query(
+        `UPDATE card_printings cp SET set_price = i.set_price
+         FROM unnest($1::varchar[], $2::varchar[], $3::varchar[], $4::numeric[]) AS i(card_code, set_code, rarity, set_price)
+         JOIN cards c ON c.card_id = i.card_code
+         WHERE cp.card_id = c.id AND cp.set_code = i.set_code AND cp.rarity = i.rarity
+           AND cp.set_price IS DISTINCT FROM i.set_price`,
+        [
+          rows.map((r) => r.card_code),
+          rows.map((r) => r.set_code),
+          rows.map((r) => r.rarity),
+          rows.map((r) => r.set_price),
+        ]
+      );
+    }
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * cards.id of the card printed under this set code (already normalized to
+   * its English form, cf. YGOProDeckService.normalizeSetCode)
+   */
+  static async findCardIdBySetCode(setCode: string): Promise<number | null> {
+    const result = await query(`SELECT card_id FROM card_printings WHERE set_code = $1 LIMIT 1`, [
+      setCode.toUpperCase(),
+    ]);
+    return result.rows[0]?.card_id ?? null;
+  }
+
+  /**
+   * Known sets, by set code prefix ("LOB" → "Legend of Blue Eyes White Dragon")
+   */
+  static async getSets(): Promise<{ set_name: string; set_code: string }[]> {
+    const result = await query(
+      `SELECT split_part(set_code, '-', 1) AS set_code, MIN(set_name) AS set_name
+       FROM card_printings
+       GROUP BY 1
+       ORDER BY 1`
+    );
+    return result.rows;
+  }
+
+  /**
+   * Fingerprint of every cached card, keyed by YGOProDeck card_id (null when
+   * the card was cached outside of a catalog sync)
+   */
+  static async getHashes(): Promise<Map<string, string | null>> {
+    const result = await query(`SELECT card_id, catalog_hash FROM cards`);
+    return new Map(result.rows.map((r: any) => [r.card_id, r.catalog_hash]));
+  }
+
+  /**
+   * Store the fingerprints of freshly synced cards
+   */
+  static async setHashes(hashes: Array<{ card_id: string; hash: string }>): Promise<void> {
+    if (hashes.length === 0) return;
+    await query(
+      `UPDATE cards c SET catalog_hash = h.hash
+       FROM unnest($1::varchar[], $2::varchar[]) AS h(card_id, hash)
+       WHERE c.card_id = h.card_id`,
+      [hashes.map((h) => h.card_id), hashes.map((h) => h.hash)]
+    );
+  }
+
+  /**
+   * Log a sync run (dry runs included, so their report stays readable later)
+   */
+  static async recordSync(
+    sync: Omit<CardCatalogSync, 'id' | 'finished_at'>
+  ): Promise<CardCatalogSync> {
+    const result = await query(
+      `INSERT INTO card_catalog_syncs
+         (started_at, finished_at, db_version, dry_run, status, total, inserted, updated, unchanged, printings, error)
+       VALUES ($1, CURRENT_TIMESTAMP, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING *`,
+      [
+        sync.started_at,
+        sync.db_version,
+        sync.dry_run,
+        sync.status,
+        sync.total,
+        sync.inserted,
+        sync.updated,
+        sync.unchanged,
+        sync.printings,
+        sync.error,
+      ]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Last real (non dry-run) sync that imported the catalog, or null if the
+   * local mirror was never filled
+   */
+  static async getLastSync(): Promise<CardCatalogSync | null> {
+    const result = await query(
+      `SELECT * FROM card_catalog_syncs
+       WHERE status = 'success' AND NOT dry_run
+       ORDER BY started_at DESC
+       LIMIT 1`
+    );
+    return result.rows[0] ?? null;
+  }
+}
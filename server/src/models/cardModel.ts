@@ -1,9 +1,12 @@
 import { query } from '../config/database';
-import { Card } from '../../../shared/types';
+import { Card, CardPrices } from '../../../shared/types';
+import { CardCatalogModel } from './cardCatalogModel';
+import { cardPrintings } from '../utils/cardCatalog';
 
 export class CardModel {
   /**
-   * Create or update a card (upsert based on card_id from API)
+   * Create or update a card (upsert based on card_id from API), along with
+   * its printings
    */
   static async upsert(card: Omit<Card, 'id' | 'created_at' | 'updated_at'>): Promise<Card> {
     // Sur ON CONFLICT, on ne veut PAS ecraser name_fr/description_fr par NULL
@@ -62,7 +65,19 @@ export class CardModel {
       ]
     );
 
-    return this.parseCard(result.rows[0]);
+    const saved = this.parseCard(result.rows[0]);
+    await CardCatalogModel.replacePrintings([{ card_id: saved.id, printings: cardPrintings(card) }]);
+    return saved;
+  }
+
+  /**
+   * Overwrite the cached prices of a card (daily price refresh)
+   */
+  static async updatePrices(cardId: string, prices: CardPrices[]): Promise<void> {
+    await query(
+      `UPDATE cards SET card_prices = $1, updated_at = CURRENT_TIMESTAMP WHERE card_id = $2`,
+      [JSON.stringify(prices), cardId]
+    );
   }
 
   /**
@@ -81,6 +96,20 @@ export class CardModel {
     return result.rows[0] ? this.parseCard(result.rows[0]) : null;
   }
 
+  /**
+   * Find card by printed set code (e.g. "LDK2-ENK40"), through card_printings
+   */
+  static async findBySetCode(setCode: string): Promise<Card | null> {
+    const result = await query(
+      `SELECT c.* FROM cards c
+       JOIN card_printings p ON p.card_id = c.id
+       WHERE p.set_code = $1
+       LIMIT 1`,
+      [setCode.toUpperCase()]
+    );
+    return result.rows[0] ? this.parseCard(result.rows[0]) : null;
+  }
+
   /**
    * Find card by name
    */
@@ -90,7 +119,7 @@ export class CardModel {
   }
 
   /**
-   * Search cards
+   * Search cards by English or French name, description or exact set code
    */
   static async search(
     searchTerm: string,
@@ -114,9 +143,12 @@ export class CardModel {
 
     // Search term
     if (searchTerm) {
-      conditions.push(`(name ILIKE $${paramCount} OR description ILIKE $${paramCount})`);
-      values.push(`%${searchTerm}%`);
-      paramCount++;
+      conditions.push(
+        `(name ILIKE $${paramCount} OR name_fr ILIKE $${paramCount} OR description ILIKE $${paramCount}
+          OR EXISTS (SELECT 1 FROM card_printings p WHERE p.card_id = cards.id AND p.set_code = $${paramCount + 1}))`
+      );
+      values.push(`%${searchTerm}%`, searchTerm.trim().toUpperCase());
+      paramCount += 2;
     }
 
     // Filters
@@ -195,6 +227,21 @@ export class CardModel {
     return { cards, total };
   }
 
+  /**
+   * Cards whose English or French name contains the term, closest names
+   * first (the name starting with the term, then the shortest)
+   */
+  static async searchByName(term: string, limit: number = 20): Promise<Card[]> {
+    const result = await query(
+      `SELECT * FROM cards
+       WHERE name ILIKE $1 OR name_fr ILIKE $1
+       ORDER BY (name ILIKE $2 OR name_fr ILIKE $2) DESC, length(name), name
+       LIMIT $3`,
+      [`%${term}%`, `${term}%`, limit]
+    );
+    return result.rows.map((row) => this.parseCard(row));
+  }
+
   /**
    * Parse card from database row (convert JSONB to objects)
    */
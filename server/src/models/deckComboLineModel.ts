@@ -0,0 +1,110 @@
+import { query } from '../config/database';
+import type { DeckComboLine } from '../../../shared/types';
+import type { DuelChoice, DuelSeat } from '../../../shared/duelView';
+import type { EnginePlayerDeck } from '../services/duelEngine/protocol';
+
+/** Une ligne avec ce qu'il faut pour la rejouer — le journal ne sort pas de l'API. */
+export interface StoredComboLine extends DeckComboLine {
+  seed: bigint[];
+  actions: Array<{ seat: DuelSeat; choice: DuelChoice }>;
+  /** Les decks par siège, figés à l'enregistrement ; null avant la migration 037. */
+  players: [EnginePlayerDeck, EnginePlayerDeck] | null;
+}
+
+function rowToLine(row: any): StoredComboLine {
+  const actions: Array<{ seat: DuelSeat; choice: DuelChoice }> = row.actions ?? [];
+  const humanSeat: DuelSeat = row.go_first ? 0 : 1;
+  return {
+    id: row.id,
+    deck_id: row.deck_id,
+    user: { id: row.user_id, username: row.username },
+    name: row.name,
+    go_first: row.go_first,
+    opening_hand: row.opening_hand ?? [],
+    decisions: actions.filter((a) => a.seat === humanSeat).length,
+    created_at: row.created_at,
+    seed: String(row.seed)
+      .split(',')
+      .map((s) => BigInt(s)),
+    actions,
+    players: row.engine_decks ?? null,
+  };
+}
+
+/** Ce que l'API montre d'une ligne. */
+export function publicComboLine(line: StoredComboLine): DeckComboLine {
+  const { seed: _seed, actions: _actions, players: _players, ...rest } = line;
+  return rest;
+}
+
+export class DeckComboLineModel {
+  /**
+   * Combo lines of a deck, oldest first
+   */
+  static async list(deckId: number): Promise<StoredComboLine[]> {
+    const result = await query(
+      `SELECT l.*, u.username
+         FROM deck_combo_lines l
+         JOIN users u ON u.id = l.user_id
+        WHERE l.deck_id = $1
+        ORDER BY l.created_at, l.id`,
+      [deckId]
+    );
+    return result.rows.map(rowToLine);
+  }
+
+  static async findById(deckId: number, lineId: number): Promise<StoredComboLine | null> {
+    const result = await query(
+      `SELECT l.*, u.username
+         FROM deck_combo_lines l
+         JOIN users u ON u.id = l.user_id
+        WHERE l.deck_id = $1 AND l.id = $2`,
+      [deckId, lineId]
+    );
+    return result.rows[0] ? rowToLine(result.rows[0]) : null;
+  }
+
+  /**
+   * Save a line; a line of the same name on this deck is replaced
+   */
+  static async save(line: {
+    deckId: number;
+    userId: number;
+    name: string;
+    seed: readonly bigint[];
+    goFirst: boolean;
+    openingHand: number[];
+    actions: Array<{ seat: DuelSeat; choice: DuelChoice }>;
+    players: readonly [EnginePlayerDeck, EnginePlayerDeck];
+  }): Promise<StoredComboLine> {
+    const result = await query(
+      `INSERT INTO deck_combo_lines (deck_id, user_id, name, seed, go_first, opening_hand, actions, engine_decks)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (deck_id, name) DO UPDATE
+         SET user_id = EXCLUDED.user_id,
+             seed = EXCLUDED.seed,
+             go_first = EXCLUDED.go_first,
+             opening_hand = EXCLUDED.opening_hand,
+             actions = EXCLUDED.actions,
+             engine_decks = EXCLUDED.engine_decks,
+             created_at = CURRENT_TIMESTAMP
+       RETURNING id`,
+      [
+        line.deckId,
+        line.userId,
+        line.name,
+        line.seed.map((s) => s.toString()).join(','),
+        line.goFirst,
+        line.openingHand,
+        JSON.stringify(line.actions),
+        JSON.stringify(line.players),
+      ]
+    );
+    return (await this.findById(line.deckId, result.rows[0].id)) as StoredComboLine;
+  }
+
+  static async delete(deckId: number, lineId: number): Promise<boolean> {
+    const result = await query(`DELETE FROM deck_combo_lines WHERE deck_id = $1 AND id = $2`, [deckId, lineId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+}
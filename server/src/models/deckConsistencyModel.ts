@@ -0,0 +1,82 @@
+import { getClient, query } from '../config/database';
+import type { DeckCardRole, DeckCardRoles, DeckConsistencyScenario } from '../../../shared/types';
+import { CARD_ROLES, type RoleCard } from '../utils/consistency';
+
+export class DeckConsistencyModel {
+  /**
+   * Main Deck cards with the roles the owner gave them (cards without a role
+   * included: they make up the rest of the deck)
+   */
+  static async mainDeckCards(deckId: number): Promise<RoleCard[]> {
+    const result = await query(
+      `SELECT dc.card_id, COALESCE(c.name_fr, c.name) AS name, SUM(dc.quantity)::int AS quantity,
+              COALESCE((SELECT array_agg(r.role) FROM deck_card_roles r
+                        WHERE r.deck_id = dc.deck_id AND r.card_id = dc.card_id), '{}') AS roles
+       FROM deck_cards dc
+       JOIN cards c ON c.id = dc.card_id
+       WHERE dc.deck_id = $1 AND dc.is_extra_deck = false AND dc.is_side_deck = false
+       GROUP BY dc.deck_id, dc.card_id, c.name_fr, c.name
+       ORDER BY name`,
+      [deckId]
+    );
+    return result.rows.map((row: any) => ({
+      card_id: row.card_id,
+      name: row.name,
+      quantity: row.quantity,
+      roles: CARD_ROLES.filter((r) => (row.roles as DeckCardRole[]).includes(r)),
+    }));
+  }
+
+  /**
+   * Saved scenarios, or null when the owner kept the defaults
+   */
+  static async findScenarios(deckId: number): Promise<DeckConsistencyScenario[] | null> {
+    const result = await query(`SELECT consistency_scenarios FROM decks WHERE id = $1`, [deckId]);
+    return result.rows[0]?.consistency_scenarios ?? null;
+  }
+
+  /**
+   * Replace the roles of the given cards and, when provided, the scenarios
+   * (`null` resets them to the defaults). Cards absent from `roles` keep
+   * theirs.
+   */
+  static async save(
+    deckId: number,
+    roles: DeckCardRoles[],
+    scenarios?: DeckConsistencyScenario[] | null
+  ): Promise<void> {
+    const client = await getClient();
+    try {
+      await client.query('BEGIN');
+
+      if (roles.length > 0) {
+        await client.query(`DELETE FROM deck_card_roles WHERE deck_id = $1 AND card_id = ANY($2::int[])`, [
+          deckId,
+          roles.map((r) => r.card_id),
+        ]);
+        const pairs = roles.flatMap((r) => r.roles.map((role) => [r.card_id, role] as const));
+        if (pairs.length > 0) {
+          await client.query(
+            `INSERT INTO deck_card_roles (deck_id, card_id, role)
+             SELECT $1, p.card_id, p.role FROM unnest($2::int[], $3::text[]) AS p(card_id, role)`,
+            [deckId, pairs.map((p) => p[0]), pairs.map((p) => p[1])]
+          );
+        }
+      }
+
+      if (scenarios !== undefined) {
+        await client.query(`UPDATE decks SET consistency_scenarios = $1 WHERE id = $2`, [
+          scenarios === null ? null : JSON.stringify(scenarios),
+          deckId,
+        ]);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
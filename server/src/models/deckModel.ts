@@ -1,7 +1,74 @@
+import { PoolClient } from 'pg';
 import { query, getClient } from '../config/database';
-import { Deck, DeckCard, DeckFilters, PaginatedResponse, Card } from '../../../shared/types';
+import {
+  Deck,
+  DeckCard,
+  DeckFilters,
+  PaginatedResponse,
+  Card,
+  BanlistFormatId,
+  DeckForkNode,
+  DeckForkOrigin,
+  DeckVersionSource,
+} from '../../../shared/types';
+import { checkDeckRules, type DeckRuleCard, type DeckRulesReport } from '../../../shared/deckRules';
 import { YGOProDeckService } from '../services/ygoprodeckService';
 import { CardModel } from './cardModel';
+import { BanlistModel } from './banlistModel';
+import { DeckVersionModel } from './deckVersionModel';
+import { DeckTagModel } from './deckTagModel';
+import { buildForkTree, type DeckForkRow } from '../utils/deckForks';
+
+/**
+ * Colonnes du deck d'origine d'un fork (alias `src` / `su`). `src_visible` :
+ * l'origine est publique ou partagée par un lien encore valide. Sinon seuls
+ * son propriétaire et celui du fork (qui l'a vue en forkant) la voient.
+ */
+const FORK_ORIGIN_COLUMNS = `
+  src.name AS src_name, src.user_id AS src_user_id, su.username AS src_username,
+  (src.is_public OR (src.share_token IS NOT NULL
+    AND (src.share_token_expires_at IS NULL OR src.share_token_expires_at > NOW()))) AS src_visible`;
+
+function rowToForkOrigin(row: any, requestingUserId?: number): DeckForkOrigin | null {
+  if (!row.forked_from || row.src_name == null) return null;
+  const viewerKnowsIt = requestingUserId !== undefined && [row.src_user_id, row.user_id].includes(requestingUserId);
+  if (!row.src_visible && !viewerKnowsIt) return null;
+  return { id: row.forked_from, name: row.src_name, user: { id: row.src_user_id, username: row.src_username } };
+}
+
+import { limitFor } from '../utils/banlist';
+
+/**
+ * Ce que l'utilisateur connecté (paramètre n° `userParam`) possède d'un deck,
+ * sous l'alias `own`, toutes impressions confondues comme dans
+ * `UserCardModel.getAvailability` :
+ *   - completion : part des exemplaires du deck déjà en collection, 0-100 ;
+ *   - missing_value : coût des manquants au prix Cardmarket (même règle que
+ *     `cardmarketPriceEUR`, cartes sans prix à 0).
+ * Les exemplaires engagés dans ses decks montés comptent comme possédés.
+ */
+const deckOwnershipJoin = (userParam: number) => `
+  LEFT JOIN LATERAL (
+    SELECT COALESCE(ROUND(100.0 * SUM(LEAST(n.needed, n.owned)) / NULLIF(SUM(n.needed), 0)), 0)::int AS completion,
+           COALESCE(ROUND(SUM((n.needed - LEAST(n.needed, n.owned)) * n.price), 2), 0)::float AS missing_value
+    FROM (
+      SELECT SUM(dc.quantity) AS needed,
+             COALESCE((SELECT SUM(uc.quantity) FROM user_cards uc
+                       WHERE uc.user_id = $${userParam} AND uc.card_id = dc.card_id), 0) AS owned,
+             CASE WHEN c.card_prices->0->>'cardmarket_price' ~ '^[0-9]+(\\.[0-9]+)?$'
+                  THEN (c.card_prices->0->>'cardmarket_price')::numeric ELSE 0 END AS price
+      FROM deck_cards dc
+      JOIN cards c ON c.id = dc.card_id
+      WHERE dc.deck_id = d.id
+      GROUP BY dc.card_id, c.id
+    ) n
+  ) own ON true`;
+
+const PUBLIC_DECK_ORDER: Record<NonNullable<DeckFilters['sort']>, string> = {
+  recent: 'd.created_at DESC',
+  likes: 'likes_count DESC, d.created_at DESC',
+  completion: 'own.completion DESC, own.missing_value ASC, d.created_at DESC',
+};
 
 export class DeckModel {
   /**
@@ -33,9 +100,13 @@ export class DeckModel {
               u.id as user_id, u.username, u.profile_picture,
               (SELECT COUNT(*) FROM deck_reactions dr WHERE dr.deck_id = d.id AND dr.is_like = true) as likes_count,
               (SELECT COUNT(*) FROM deck_reactions dr WHERE dr.deck_id = d.id AND dr.is_like = false) as dislikes_count,
-              (SELECT COUNT(*) FROM deck_comments dc WHERE dc.deck_id = d.id) as comments_count
+              (SELECT COUNT(*) FROM deck_comments dc WHERE dc.deck_id = d.id) as comments_count,
+              (SELECT COUNT(*) FROM decks f WHERE f.forked_from = d.id) as forks_count,
+              ${FORK_ORIGIN_COLUMNS}
        FROM decks d
        JOIN users u ON d.user_id = u.id
+       LEFT JOIN decks src ON src.id = d.forked_from
+       LEFT JOIN users su ON su.id = src.user_id
        WHERE d.id = $1`,
       [deckId]
     );
@@ -99,6 +170,7 @@ export class DeckModel {
       cover_image: deck.cover_image,
       is_public: deck.is_public,
       respect_banlist: deck.respect_banlist,
+      is_built: deck.is_built ?? false,
       created_at: deck.created_at,
       updated_at: deck.updated_at,
       user: {
@@ -117,6 +189,11 @@ export class DeckModel {
       comments_count: parseInt(deck.comments_count || 0),
       user_reaction: userReaction,
       is_wishlisted: deck.is_wishlisted || false,
+      forked_from: rowToForkOrigin(deck, requestingUserId),
+      forks_count: parseInt(deck.forks_count || 0),
+      archetypes: deck.archetypes ?? [],
+      archetype_split: deck.archetype_split ?? [],
+      tags: deck.tags ?? [],
     };
   }
 
@@ -162,7 +239,7 @@ export class DeckModel {
               COALESCE((SELECT COUNT(*) FROM deck_reactions WHERE deck_reactions.deck_id = d.id AND is_like = true), 0) as likes_count,
               COALESCE((SELECT COUNT(*) FROM deck_reactions WHERE deck_reactions.deck_id = d.id AND is_like = false), 0) as dislikes_count,
               COALESCE((SELECT COUNT(*) FROM deck_comments WHERE deck_comments.deck_id = d.id), 0) as comments_count,
-              COALESCE((SELECT SUM(quantity) FROM deck_cards WHERE deck_cards.deck_id = d.id AND is_extra_deck = false), 0) as main_deck_count,
+              COALESCE((SELECT SUM(quantity) FROM deck_cards WHERE deck_cards.deck_id = d.id AND is_extra_deck = false AND is_side_deck = false), 0) as main_deck_count,
               COALESCE((SELECT SUM(quantity) FROM deck_cards WHERE deck_cards.deck_id = d.id AND is_extra_deck = true), 0) as extra_deck_count
        FROM decks d
        WHERE ${whereClause}
@@ -175,7 +252,7 @@ export class DeckModel {
     const data = await Promise.all(result.rows.map(async (row) => {
       // Get main deck and extra deck cards
       const cardsResult = await query(
-        `SELECT dc.id, dc.deck_id, dc.card_id as deck_card_card_id, dc.quantity, dc.is_extra_deck, dc.created_at,
+        `SELECT dc.id, dc.deck_id, dc.card_id as deck_card_card_id, dc.quantity, dc.is_extra_deck, dc.is_side_deck, dc.created_at,
                 c.id as card_db_id, c.card_id as card_api_id, c.name, c.name_fr, c.type, c.frame_type, c.description, c.description_fr,
                 c.atk, c.def, c.level, c.race, c.attribute, c.archetype,
                 c.card_sets, c.card_images, c.card_prices, c.banlist_info,
@@ -189,10 +266,13 @@ export class DeckModel {
 
       const mainDeck: DeckCard[] = [];
       const extraDeck: DeckCard[] = [];
+      const sideDeck: DeckCard[] = [];
 
       cardsResult.rows.forEach((cardRow) => {
         const deckCard = this.parseDeckCard(cardRow);
-        if (cardRow.is_extra_deck) {
+        if (cardRow.is_side_deck) {
+          sideDeck.push(deckCard);
+        } else if (cardRow.is_extra_deck) {
           extraDeck.push(deckCard);
         } else {
           mainDeck.push(deckCard);
@@ -206,13 +286,17 @@ export class DeckModel {
         cover_image: row.cover_image,
         is_public: row.is_public,
         respect_banlist: row.respect_banlist,
+        is_built: row.is_built ?? false,
         created_at: row.created_at,
         updated_at: row.updated_at,
         likes_count: parseInt(row.likes_count || '0'),
         dislikes_count: parseInt(row.dislikes_count || '0'),
         comments_count: parseInt(row.comments_count || '0'),
+        archetypes: row.archetypes ?? [],
+        tags: row.tags ?? [],
         main_deck: mainDeck,
         extra_deck: extraDeck,
+        side_deck: sideDeck,
       };
     }));
 
@@ -226,13 +310,27 @@ export class DeckModel {
   }
 
   /**
-   * Search public decks
+   * Search public decks. Card filters take passcodes (`cards.card_id`);
+   * ownership filters and the `completion` sort need `requestingUserId`.
    */
   static async searchPublicDecks(
     filters: DeckFilters = {},
     requestingUserId?: number
   ): Promise<PaginatedResponse<Deck>> {
-    const { page = 1, limit = 20, search, respect_banlist, user_id } = filters;
+    const {
+      page = 1,
+      limit = 20,
+      search,
+      respect_banlist,
+      user_id,
+      archetype,
+      tag,
+      include_cards,
+      exclude_cards,
+      min_owned,
+      max_missing_eur,
+      sort = 'recent',
+    } = filters;
     const offset = (page - 1) * limit;
 
     const conditions: string[] = ['d.is_public = true'];
@@ -257,30 +355,89 @@ export class DeckModel {
       paramCount++;
     }
 
+    if (archetype) {
+      conditions.push(`EXISTS (SELECT 1 FROM unnest(d.archetypes) a WHERE lower(a) = lower($${paramCount}))`);
+      values.push(archetype);
+      paramCount++;
+    }
+
+    if (tag) {
+      conditions.push(`d.tags @> ARRAY[$${paramCount}]::text[]`);
+      values.push(tag.toLowerCase());
+      paramCount++;
+    }
+
+    if (include_cards?.length) {
+      // Toutes les cartes demandées, quelle que soit la section
+      conditions.push(
+        `(SELECT COUNT(DISTINCT c.card_id) FROM deck_cards dc JOIN cards c ON c.id = dc.card_id
+          WHERE dc.deck_id = d.id AND c.card_id = ANY($${paramCount}::text[])) = $${paramCount + 1}`
+      );
+      values.push(include_cards, new Set(include_cards).size);
+      paramCount += 2;
+    }
+
+    if (exclude_cards?.length) {
+      conditions.push(
+        `NOT EXISTS (SELECT 1 FROM deck_cards dc JOIN cards c ON c.id = dc.card_id
+                     WHERE dc.deck_id = d.id AND c.card_id = ANY($${paramCount}::text[]))`
+      );
+      values.push(exclude_cards);
+      paramCount++;
+    }
+
+    // La complétion dépend de la collection de l'utilisateur connecté. Coûteuse
+    // (une jointure carte par carte par deck), elle n'est calculée que si un
+    // filtre ou le tri la demande — et ne pèse sur le COUNT que pour un filtre.
+    const ownershipFilter = !!requestingUserId && (min_owned !== undefined || max_missing_eur !== undefined);
+    let ownershipJoin = '';
+    if (requestingUserId && (ownershipFilter || sort === 'completion')) {
+      ownershipJoin = deckOwnershipJoin(paramCount);
+      values.push(requestingUserId);
+      paramCount++;
+    }
+
+    if (ownershipJoin && min_owned !== undefined) {
+      conditions.push(`own.completion >= $${paramCount}`);
+      values.push(min_owned);
+      paramCount++;
+    }
+
+    if (ownershipJoin && max_missing_eur !== undefined) {
+      conditions.push(`own.missing_value <= $${paramCount}`);
+      values.push(max_missing_eur);
+      paramCount++;
+    }
+
     const whereClause = conditions.join(' AND ');
+    const orderBy = PUBLIC_DECK_ORDER[ownershipJoin ? sort : sort === 'completion' ? 'recent' : sort];
 
-    // Get total count
+    // Get total count (sans filtre de complétion, le paramètre de la jointure
+    // est le dernier : on le retire avec elle)
     const countResult = await query(
-      `SELECT COUNT(*) as count FROM decks d WHERE ${whereClause}`,
-      values
+      ownershipFilter
+        ? `SELECT COUNT(*) as count FROM decks d ${ownershipJoin} WHERE ${whereClause}`
+        : `SELECT COUNT(*) as count FROM decks d WHERE ${whereClause}`,
+      ownershipJoin && !ownershipFilter ? values.slice(0, -1) : values
     );
     const total = parseInt(countResult.rows[0].count);
 
     // Get paginated results
-    values.push(limit, offset);
     const result = await query(
       `SELECT d.*, u.username, u.profile_picture, u.created_at as user_created_at, u.updated_at as user_updated_at,
               (SELECT COUNT(*) FROM deck_reactions dr WHERE dr.deck_id = d.id AND dr.is_like = true) as likes_count,
               (SELECT COUNT(*) FROM deck_reactions dr WHERE dr.deck_id = d.id AND dr.is_like = false) as dislikes_count,
               (SELECT COUNT(*) FROM deck_comments dc WHERE dc.deck_id = d.id) as comments_count,
-              (SELECT COALESCE(SUM(dc.quantity), 0) FROM deck_cards dc WHERE dc.deck_id = d.id AND dc.is_extra_deck = false) as main_deck_count,
+              (SELECT COALESCE(SUM(dc.quantity), 0) FROM deck_cards dc WHERE dc.deck_id = d.id AND dc.is_extra_deck = false AND dc.is_side_deck = false) as main_deck_count,
               (SELECT COALESCE(SUM(dc.quantity), 0) FROM deck_cards dc WHERE dc.deck_id = d.id AND dc.is_extra_deck = true) as extra_deck_count
+              ${ownershipJoin ? ', own.completion, own.missing_value' : ''}
        FROM decks d
        JOIN users u ON d.user_id = u.id
+       ${ownershipJoin}
        WHERE ${whereClause}
-       ORDER BY d.created_at DESC
+       ORDER BY ${orderBy}
        LIMIT $${paramCount} OFFSET $${paramCount + 1}`,
-      values
+      [...values, limit, offset]
     );
 
     const data = result.rows.map((row) => ({
@@ -305,6 +462,12 @@ export class DeckModel {
       comments_count: parseInt(row.comments_count || 0),
       main_deck_count: parseInt(row.main_deck_count || 0),
       extra_deck_count: parseInt(row.extra_deck_count || 0),
+      archetypes: row.archetypes ?? [],
+      tags: row.tags ?? [],
+      ...(ownershipJoin && {
+        completion: Number(row.completion),
+        missing_value_eur: Number(row.missing_value),
+      }),
     }));
 
     return {
@@ -326,7 +489,9 @@ export class DeckModel {
       name?: string;
       respect_banlist?: boolean;
       is_public?: boolean;
+      is_built?: boolean;
       cover_image?: string;
+      tags?: string[];
     }
   ): Promise<Deck | null> {
     const fields: string[] = [];
@@ -348,11 +513,21 @@ export class DeckModel {
       values.push(updates.is_public);
     }
 
+    if (updates.is_built !== undefined) {
+      fields.push(`is_built = $${paramCount++}`);
+      values.push(updates.is_built);
+    }
+
     if (updates.cover_image !== undefined) {
       fields.push(`cover_image = $${paramCount++}`);
       values.push(updates.cover_image);
     }
 
+    if (updates.tags !== undefined) {
+      fields.push(`tags = $${paramCount++}`);
+      values.push(updates.tags);
+    }
+
     if (fields.length === 0) {
       return this.findById(deckId, userId);
     }
@@ -463,7 +638,7 @@ export class DeckModel {
 
     // Get main deck and extra deck cards
     const cardsResult = await query(
-      `SELECT dc.id, dc.deck_id, dc.card_id as deck_card_card_id, dc.quantity, dc.is_extra_deck, dc.created_at,
+      `SELECT dc.id, dc.deck_id, dc.card_id as deck_card_card_id, dc.quantity, dc.is_extra_deck, dc.is_side_deck, dc.created_at,
               c.id as card_db_id, c.card_id as card_api_id, c.name, c.name_fr, c.type, c.frame_type, c.description, c.description_fr,
               c.atk, c.def, c.level, c.race, c.attribute, c.archetype,
               c.card_sets, c.card_images, c.card_prices, c.banlist_info,
@@ -477,10 +652,13 @@ export class DeckModel {
 
     const mainDeck: DeckCard[] = [];
     const extraDeck: DeckCard[] = [];
+    const sideDeck: DeckCard[] = [];
 
     cardsResult.rows.forEach((row) => {
       const deckCard = this.parseDeckCard(row);
-      if (row.is_extra_deck) {
+      if (row.is_side_deck) {
+        sideDeck.push(deckCard);
+      } else if (row.is_extra_deck) {
         extraDeck.push(deckCard);
       } else {
         mainDeck.push(deckCard);
@@ -503,9 +681,120 @@ export class DeckModel {
       },
       main_deck: mainDeck,
       extra_deck: extraDeck,
+      side_deck: sideDeck,
     } as Deck;
   }
 
+  /**
+   * Copy a deck (cards included) into the user's decks, keeping a link to the
+   * original and the original's version at fork time. Access to the source
+   * is checked by the caller (public deck, own deck or share link).
+   */
+  static async fork(sourceDeckId: number, userId: number, name?: string): Promise<Deck | null> {
+    const client = await getClient();
+    try {
+      await client.query('BEGIN');
+
+      const source = await client.query(
+        `SELECT d.name, d.respect_banlist, d.cover_image, d.tags,
+                (SELECT MAX(v.version) FROM deck_versions v WHERE v.deck_id = d.id) AS version
+         FROM decks d
+         WHERE d.id = $1`,
+        [sourceDeckId]
+      );
+      if (source.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+      const src = source.rows[0];
+
+      // Privé par défaut : un fork est un brouillon tant que son auteur ne le publie pas.
+      const created = await client.query(
+        `INSERT INTO decks (user_id, name, respect_banlist, is_public, cover_image, tags,
+                            forked_from, forked_from_version, forked_at)
+         VALUES ($1, $2, $3, false, $4, $5, $6, $7, CURRENT_TIMESTAMP)
+         RETURNING *`,
+        [
+          userId,
+          name || `${src.name} (fork)`,
+          src.respect_banlist,
+          src.cover_image,
+          src.tags ?? [],
+          sourceDeckId,
+          src.version ?? null,
+        ]
+      );
+      const deck = created.rows[0];
+
+      await client.query(
+        `INSERT INTO deck_cards (deck_id, card_id, quantity, is_extra_deck, is_side_deck)
+         SELECT $1, card_id, quantity, is_extra_deck, is_side_deck FROM deck_cards WHERE deck_id = $2`,
+        [deck.id, sourceDeckId]
+      );
+      await DeckVersionModel.record(deck.id, userId, 'fork', { client });
+      await DeckTagModel.refreshArchetypes(deck.id, client);
+
+      await client.query('COMMIT');
+      return deck;
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Forks of a deck and forks of those forks, as a tree. Private forks are
+   * only shown to their owner.
+   */
+  static async getForkTree(deckId: number, requestingUserId?: number): Promise<DeckForkNode[]> {
+    const result = await query(
+      `WITH RECURSIVE tree AS (
+         SELECT d.id, d.forked_from, d.name, d.is_public, d.forked_at, d.user_id, 1 AS depth
+         FROM decks d WHERE d.forked_from = $1
+         UNION ALL
+         SELECT d.id, d.forked_from, d.name, d.is_public, d.forked_at, d.user_id, t.depth + 1
+         FROM decks d JOIN tree t ON d.forked_from = t.id
+         WHERE t.depth < 20
+       )
+       SELECT tree.id, tree.forked_from, tree.name, tree.is_public, tree.forked_at, tree.user_id, u.username
+       FROM tree
+       JOIN users u ON u.id = tree.user_id
+       ORDER BY tree.forked_at, tree.id`,
+      [deckId]
+    );
+    return buildForkTree(result.rows as DeckForkRow[], deckId, requestingUserId);
+  }
+
+  /**
+   * Fork link of a deck: the original (if it still exists) and its version
+   * when the fork was made
+   */
+  static async findForkOrigin(deckId: number): Promise<{
+    user_id: number;
+    origin: DeckForkOrigin | null;
+    forked_from_version: number | null;
+    forked_at: Date | null;
+  } | null> {
+    const result = await query(
+      `SELECT d.user_id, d.forked_from, d.forked_from_version, d.forked_at, ${FORK_ORIGIN_COLUMNS}
+       FROM decks d
+       LEFT JOIN decks src ON src.id = d.forked_from
+       LEFT JOIN users su ON su.id = src.user_id
+       WHERE d.id = $1`,
+      [deckId]
+    );
+    if (result.rows.length === 0) return null;
+    const row = result.rows[0];
+    return {
+      user_id: row.user_id,
+      origin: rowToForkOrigin(row, row.user_id),
+      forked_from_version: row.forked_from_version ?? null,
+      forked_at: row.forked_at ?? null,
+    };
+  }
+
   /**
    * Add card to deck with validation
    */
@@ -543,7 +832,7 @@ export class DeckModel {
     // Check current card count across both decks
     const countResult = await query(
       `SELECT
-        COALESCE(SUM(CASE WHEN is_extra_deck = false THEN quantity ELSE 0 END), 0) as main_count,
+        COALESCE(SUM(CASE WHEN is_extra_deck = false AND is_side_deck = false THEN quantity ELSE 0 END), 0) as main_count,
         COALESCE(SUM(CASE WHEN is_extra_deck = true THEN quantity ELSE 0 END), 0) as extra_count,
         COALESCE(SUM(CASE WHEN card_id = $2 THEN quantity ELSE 0 END), 0) as card_copies
        FROM deck_cards
@@ -592,29 +881,30 @@ export class DeckModel {
       }
     }
 
-    // Check if card already exists in deck
-    const existingCard = await query(
-      `SELECT id FROM deck_cards WHERE deck_id = $1 AND card_id = $2 AND is_extra_deck = $3`,
-      [deckId, cardId, isExtraDeck]
-    );
-
-    if (existingCard.rows.length > 0) {
-      // Update existing card
-      await query(
-        `UPDATE deck_cards SET quantity = $1 WHERE deck_id = $2 AND card_id = $3 AND is_extra_deck = $4`,
-        [quantity, deckId, cardId, isExtraDeck]
-      );
-    } else {
-      // Insert new card
-      await query(
-        `INSERT INTO deck_cards (deck_id, card_id, quantity, is_extra_deck)
-         VALUES ($1, $2, $3, $4)`,
-        [deckId, cardId, quantity, isExtraDeck]
+    await this.editCards(deckId, userId, 'edit', async (client) => {
+      // Check if card already exists in deck
+      const existingCard = await client.query(
+        `SELECT id FROM deck_cards WHERE deck_id = $1 AND card_id = $2 AND is_extra_deck = $3 AND is_side_deck = false`,
+        [deckId, cardId, isExtraDeck]
       );
-    }
 
-    // Update deck timestamp
-    await query(`UPDATE decks SET updated_at = CURRENT_TIMESTAMP WHERE id = $1`, [deckId]);
+      if (existingCard.rows.length > 0) {
+        // Update existing card
+        await client.query(
+          `UPDATE deck_cards SET quantity = $1
+            WHERE deck_id = $2 AND card_id = $3 AND is_extra_deck = $4 AND is_side_deck = false`,
+          [quantity, deckId, cardId, isExtraDeck]
+        );
+      } else {
+        // Insert new card
+        await client.query(
+          `INSERT INTO deck_cards (deck_id, card_id, quantity, is_extra_deck)
+           VALUES ($1, $2, $3, $4)`,
+          [deckId, cardId, quantity, isExtraDeck]
+        );
+      }
+      return true;
+    });
 
     return { success: true };
   }
@@ -633,12 +923,50 @@ export class DeckModel {
       return false;
     }
 
-    await query(`DELETE FROM deck_cards WHERE deck_id = $1`, [deckId]);
-    await query(`UPDATE decks SET updated_at = CURRENT_TIMESTAMP WHERE id = $1`, [deckId]);
+    await this.editCards(deckId, userId, 'clear', async (client) => {
+      await client.query(`DELETE FROM deck_cards WHERE deck_id = $1`, [deckId]);
+      return true;
+    });
 
     return true;
   }
 
+  /**
+   * Écriture carte par carte : `write`, l'horodatage du deck, la version
+   * d'historique et les archétypes passent dans une même transaction, le deck
+   * verrouillé (FOR UPDATE). Deux modifications simultanées ne peuvent plus
+   * s'intercaler entre l'écriture et l'instantané de la version.
+   *
+   * `write` rend false quand il n'a rien modifié : rien n'est enregistré.
+   */
+  private static async editCards(
+    deckId: number,
+    userId: number,
+    source: Extract<DeckVersionSource, 'edit' | 'clear'>,
+    write: (client: PoolClient) => Promise<boolean>
+  ): Promise<boolean> {
+    const client = await getClient();
+    try {
+      await client.query('BEGIN');
+      await client.query(`SELECT id FROM decks WHERE id = $1 FOR UPDATE`, [deckId]);
+      if (!(await write(client))) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+
+      await client.query(`UPDATE decks SET updated_at = CURRENT_TIMESTAMP WHERE id = $1`, [deckId]);
+      await DeckVersionModel.record(deckId, userId, source, { client });
+      await DeckTagModel.refreshArchetypes(deckId, client);
+      await client.query('COMMIT');
+      return true;
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
   /**
    * Remplace d'un bloc le contenu d'un deck : valide TOUT, puis écrit dans une
    * transaction — ou n'écrit rien.
@@ -650,11 +978,15 @@ export class DeckModel {
    * Les erreurs nomment la carte fautive : « Dragon Rose Noire doit aller dans
    * l'Extra Deck » est exploitable, « Extra Deck monsters must be added to
    * Extra Deck » ne l'est pas.
+   *
+   * La version d'historique est enregistrée dans la même transaction ;
+   * `source` dit qui a remplacé le contenu (éditeur, import, restauration).
    */
   static async replaceCards(
     deckId: number,
     userId: number,
-    entries: { card_id: number; quantity: number; is_extra_deck: boolean }[]
+    entries: { card_id: number; quantity: number; is_extra_deck: boolean; is_side_deck?: boolean }[],
+    history: { source?: Extract<DeckVersionSource, 'replace' | 'import' | 'restore'>; restoredFrom?: number } = {}
   ): Promise<{ success: boolean; errors?: string[] }> {
     const deckResult = await query(`SELECT id FROM decks WHERE id = $1 AND user_id = $2`, [
       deckId,
@@ -668,6 +1000,7 @@ export class DeckModel {
     const errors: string[] = [];
     let mainCount = 0;
     let extraCount = 0;
+    let sideCount = 0;
     const copiesByCard = new Map<number, number>();
 
     for (const entry of entries) {
@@ -680,7 +1013,12 @@ export class DeckModel {
       const label = card.name || `Carte #${entry.card_id}`;
       const belongsToExtra = YGOProDeckService.isExtraDeckCard(card.frame_type || '');
 
-      if (entry.is_extra_deck && !belongsToExtra) {
+      // Le Side Deck accepte les deux familles : on n'y contrôle pas le classement.
+      if (entry.is_side_deck) {
+        if (entry.is_extra_deck) {
+          errors.push(`« ${label} » ne peut pas être à la fois en Extra et en Side`);
+        }
+      } else if (entry.is_extra_deck && !belongsToExtra) {
         errors.push(`« ${label} » n'est pas une carte d'Extra Deck`);
       } else if (!entry.is_extra_deck && belongsToExtra) {
         errors.push(`« ${label} » (${card.type}) doit aller dans l'Extra Deck`);
@@ -696,12 +1034,14 @@ export class DeckModel {
         errors.push(`« ${label} » : ${copies} exemplaires, maximum 3`);
       }
 
-      if (entry.is_extra_deck) extraCount += entry.quantity;
+      if (entry.is_side_deck) sideCount += entry.quantity;
+      else if (entry.is_extra_deck) extraCount += entry.quantity;
       else mainCount += entry.quantity;
     }
 
     if (mainCount > 60) errors.push(`Main Deck : ${mainCount} cartes, maximum 60`);
     if (extraCount > 15) errors.push(`Extra Deck : ${extraCount} cartes, maximum 15`);
+    if (sideCount > 15) errors.push(`Side Deck : ${sideCount} cartes, maximum 15`);
 
     if (errors.length > 0) {
       // On sort AVANT d'avoir touché à la base : le deck reste dans son état
@@ -713,17 +1053,23 @@ export class DeckModel {
     const client = await getClient();
     try {
       await client.query('BEGIN');
+      await client.query(`SELECT id FROM decks WHERE id = $1 FOR UPDATE`, [deckId]);
       await client.query(`DELETE FROM deck_cards WHERE deck_id = $1`, [deckId]);
 
       for (const entry of entries) {
         await client.query(
-          `INSERT INTO deck_cards (deck_id, card_id, quantity, is_extra_deck)
-           VALUES ($1, $2, $3, $4)`,
-          [deckId, entry.card_id, entry.quantity, entry.is_extra_deck]
+          `INSERT INTO deck_cards (deck_id, card_id, quantity, is_extra_deck, is_side_deck)
+           VALUES ($1, $2, $3, $4, $5)`,
+          [deckId, entry.card_id, entry.quantity, entry.is_extra_deck, entry.is_side_deck === true]
         );
       }
 
       await client.query(`UPDATE decks SET updated_at = CURRENT_TIMESTAMP WHERE id = $1`, [deckId]);
+      await DeckVersionModel.record(deckId, userId, history.source ?? 'replace', {
+        client,
+        restoredFrom: history.restoredFrom,
+      });
+      await DeckTagModel.refreshArchetypes(deckId, client);
       await client.query('COMMIT');
       return { success: true };
     } catch (err) {
@@ -748,17 +1094,13 @@ export class DeckModel {
       return false;
     }
 
-    const result = await query(
-      `DELETE FROM deck_cards WHERE id = $1 AND deck_id = $2 RETURNING id`,
-      [deckCardId, deckId]
-    );
-
-    if (result.rows.length > 0) {
-      await query(`UPDATE decks SET updated_at = CURRENT_TIMESTAMP WHERE id = $1`, [deckId]);
-      return true;
-    }
-
-    return false;
+    return this.editCards(deckId, userId, 'edit', async (client) => {
+      const result = await client.query(
+        `DELETE FROM deck_cards WHERE id = $1 AND deck_id = $2 RETURNING id`,
+        [deckCardId, deckId]
+      );
+      return result.rows.length > 0;
+    });
   }
 
   /**
@@ -825,57 +1167,62 @@ export class DeckModel {
     }
 
     // Update quantity
-    await query(
-      `UPDATE deck_cards SET quantity = $1 WHERE id = $2 AND deck_id = $3`,
-      [quantity, deckCardId, deckId]
-    );
-
-    await query(`UPDATE decks SET updated_at = CURRENT_TIMESTAMP WHERE id = $1`, [deckId]);
+    await this.editCards(deckId, userId, 'edit', async (client) => {
+      await client.query(
+        `UPDATE deck_cards SET quantity = $1 WHERE id = $2 AND deck_id = $3`,
+        [quantity, deckCardId, deckId]
+      );
+      return true;
+    });
 
     return { success: true };
   }
 
   /**
-   * Validate deck (check if it meets Yu-Gi-Oh rules)
+   * Validate deck against the shared deck rules (section sizes, Extra Deck
+   * placement, 3 copies) and, when the deck follows the banlist, the list of
+   * the requested format (latest TCG list by default, or the TCG status
+   * cached on cards when no list was imported)
    */
-  static async validateDeck(deckId: number): Promise<{
-    valid: boolean;
-    errors: string[];
-    mainDeckCount: number;
-    extraDeckCount: number;
-  }> {
-    const countResult = await query(
-      `SELECT
-        COALESCE(SUM(CASE WHEN is_extra_deck = false THEN quantity ELSE 0 END), 0) as main_count,
-        COALESCE(SUM(CASE WHEN is_extra_deck = true THEN quantity ELSE 0 END), 0) as extra_count
-       FROM deck_cards
-       WHERE deck_id = $1`,
+  static async validateDeck(
+    deckId: number,
+    format?: BanlistFormatId | null
+  ): Promise<DeckRulesReport & { banlist: { id: number; name: string } | null }> {
+    const deckResult = await query(`SELECT respect_banlist FROM decks WHERE id = $1`, [deckId]);
+    const respectBanlist = deckResult.rows[0]?.respect_banlist === true;
+
+    const cardsResult = await query(
+      `SELECT c.card_id AS card_code, COALESCE(c.name_fr, c.name) AS name, c.type, c.frame_type,
+              c.banlist_info->>'ban_tcg' AS ban_tcg, dc.is_extra_deck, dc.is_side_deck, dc.quantity
+       FROM deck_cards dc
+       JOIN cards c ON c.id = dc.card_id
+       WHERE dc.deck_id = $1`,
       [deckId]
     );
 
-    const mainDeckCount = parseInt(countResult.rows[0].main_count);
-    const extraDeckCount = parseInt(countResult.rows[0].extra_count);
-
-    const errors: string[] = [];
-
-    if (mainDeckCount < 40) {
-      errors.push('Main Deck must have at least 40 cards');
-    }
-
-    if (mainDeckCount > 60) {
-      errors.push('Main Deck cannot exceed 60 cards');
-    }
+    const banTcg = new Map<string, string | null>();
+    const cards: DeckRuleCard[] = cardsResult.rows.map((row: any) => {
+      banTcg.set(row.card_code, row.ban_tcg ?? null);
+      return {
+        card_code: row.card_code,
+        name: row.name,
+        type: row.type,
+        frame_type: row.frame_type,
+        section: row.is_side_deck ? 'side' : row.is_extra_deck ? 'extra' : 'main',
+        quantity: Number(row.quantity),
+      };
+    });
 
-    if (extraDeckCount > 15) {
-      errors.push('Extra Deck cannot exceed 15 cards');
+    let banlist: { id: number; name: string } | null = null;
+    let limitOf: ((card: DeckRuleCard) => number) | undefined;
+    if (respectBanlist) {
+      const resolved = await BanlistModel.resolve(format);
+      const limits = resolved ? await BanlistModel.getLimits(resolved) : null;
+      banlist = resolved ? { id: resolved.id, name: resolved.name } : null;
+      limitOf = (card) => limitFor(limits, card.card_code, banTcg.get(card.card_code));
     }
 
-    return {
-      valid: errors.length === 0,
-      errors,
-      mainDeckCount,
-      extraDeckCount,
-    };
+    return { ...checkDeckRules(cards, { limitOf }), banlist };
   }
 
   /**
@@ -0,0 +1,39 @@
+import { getClient, query } from '../config/database';
+import type { DeckSidePlan } from '../../../shared/types';
+
+export class DeckSidePlanModel {
+  /**
+   * Matchup plans of a deck, in the order the owner saved them
+   */
+  static async list(deckId: number): Promise<DeckSidePlan[]> {
+    const result = await query(
+      `SELECT name, cards_out, cards_in FROM deck_side_plans WHERE deck_id = $1 ORDER BY position, id`,
+      [deckId]
+    );
+    return result.rows.map((row: any) => ({ name: row.name, out: row.cards_out, in: row.cards_in }));
+  }
+
+  /**
+   * Replace every plan of the deck (an empty list removes them all)
+   */
+  static async replace(deckId: number, plans: DeckSidePlan[]): Promise<void> {
+    const client = await getClient();
+    try {
+      await client.query('BEGIN');
+      await client.query(`DELETE FROM deck_side_plans WHERE deck_id = $1`, [deckId]);
+      for (const [position, plan] of plans.entries()) {
+        await client.query(
+          `INSERT INTO deck_side_plans (deck_id, name, position, cards_out, cards_in)
+           VALUES ($1, $2, $3, $4, $5)`,
+          [deckId, plan.name, position, JSON.stringify(plan.out), JSON.stringify(plan.in)]
+        );
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import { PoolClient } from 'pg';
+import { query } from '../config/database';
+import type { DeckFacet } from '../../../shared/types';
+import { detectArchetypes, type ArchetypeCard } from '../utils/deckArchetypes';
+import { assetsInstalled } from '../services/duelEngine/paths';
+import { getCardStore, resolveCard, type CardStore } from '../services/duelEngine/cardStore';
+
+type Queryable = Pick<PoolClient, 'query'>;
+
+/**
+ * Engine card data when installed — without it, detection relies on the
+ * YGOProDeck `archetype` field alone
+ */
+function engineStore(): CardStore | null {
+  if (!assetsInstalled()) return null;
+  try {
+    return getCardStore();
+  } catch {
+    return null;
+  }
+}
+
+export class DeckTagModel {
+  /**
+   * Re-detect a deck's archetypes from its current cards. Pass `client` to
+   * run inside the caller's transaction.
+   */
+  static async refreshArchetypes(deckId: number, client?: PoolClient): Promise<string[]> {
+    const db: Queryable = client ?? ({ query } as Queryable);
+    const result = await db.query(
+      `SELECT c.card_id AS card_code, c.archetype, dc.quantity,
+              CASE WHEN dc.is_side_deck THEN 'side' WHEN dc.is_extra_deck THEN 'extra' ELSE 'main' END AS section
+       FROM deck_cards dc
+       JOIN cards c ON c.id = dc.card_id
+       WHERE dc.deck_id = $1`,
+      [deckId]
+    );
+
+    const store = engineStore();
+    const cards: ArchetypeCard[] = result.rows.map((r: any) => ({
+      archetype: r.archetype,
+      setcodes: store ? resolveCard(Number(r.card_code), store)?.setcodes ?? [] : [],
+      quantity: Number(r.quantity),
+      section: r.section,
+    }));
+
+    const { archetypes, split } = detectArchetypes(cards);
+    await db.query(`UPDATE decks SET archetypes = $1, archetype_split = $2 WHERE id = $3`, [
+      archetypes,
+      JSON.stringify(split),
+      deckId,
+    ]);
+    return archetypes;
+  }
+
+  /**
+   * Most used archetypes and tags among public decks, for the browse filters
+   */
+  static async facets(limit: number = 30): Promise<{ archetypes: DeckFacet[]; tags: DeckFacet[] }> {
+    const [archetypes, tags] = await Promise.all(
+      ['archetypes', 'tags'].map((column) =>
+        query(
+          `SELECT value AS name, COUNT(*)::int AS count
+           FROM decks d, unnest(d.${column}) AS value
+           WHERE d.is_public = true
+           GROUP BY value
+           ORDER BY count DESC, value
+           LIMIT $1`,
+          [limit]
+        )
+      )
+    );
+    return { archetypes: archetypes.rows, tags: tags.rows };
+  }
+}
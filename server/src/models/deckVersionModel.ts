@@ -0,0 +1,160 @@
+import { PoolClient } from 'pg';
+import { query } from '../config/database';
+import type { DeckVersion, DeckVersionCard, DeckVersionSource } from '../../../shared/types';
+import { diffDeckVersions, sameDeckContent, sectionCounts } from '../utils/deckVersions';
+
+/** Card-by-card edits by the same user within this window share one version. */
+const EDIT_MERGE_MINUTES = 10;
+
+type Queryable = Pick<PoolClient, 'query'>;
+
+const VERSION_COLUMNS = `
+  v.id, v.deck_id, v.version, v.source, v.restored_from, v.cards, v.created_at,
+  v.created_by, u.username AS created_by_username`;
+
+function rowToVersion(row: any, withCards: boolean): DeckVersion {
+  const cards: DeckVersionCard[] = row.cards ?? [];
+  const counts = sectionCounts(cards);
+  return {
+    id: row.id,
+    deck_id: row.deck_id,
+    version: row.version,
+    source: row.source,
+    restored_from: row.restored_from ?? null,
+    created_by: row.created_by ? { id: row.created_by, username: row.created_by_username } : null,
+    created_at: row.created_at,
+    main_count: counts.main,
+    extra_count: counts.extra,
+    side_count: counts.side,
+    ...(withCards ? { cards } : {}),
+  };
+}
+
+export class DeckVersionModel {
+  /**
+   * Current content of a deck, in snapshot form
+   */
+  static async snapshot(deckId: number, db: Queryable = { query } as Queryable): Promise<DeckVersionCard[]> {
+    const result = await db.query(
+      `SELECT dc.card_id, c.card_id AS card_code, COALESCE(c.name_fr, c.name) AS name,
+              CASE WHEN dc.is_side_deck THEN 'side' WHEN dc.is_extra_deck THEN 'extra' ELSE 'main' END AS section,
+              dc.quantity
+       FROM deck_cards dc
+       JOIN cards c ON c.id = dc.card_id
+       WHERE dc.deck_id = $1
+       ORDER BY c.name`,
+      [deckId]
+    );
+    return result.rows.map((r: any) => ({
+      card_id: r.card_id,
+      card_code: r.card_code,
+      name: r.name,
+      section: r.section,
+      quantity: Number(r.quantity),
+    }));
+  }
+
+  /**
+   * Record the deck's current content after a save. Nothing is written when
+   * the content did not change; successive card-by-card edits by the same
+   * user are folded into the latest 'edit' version, unless a fork was taken
+   * from it. Pass `client` to record inside the caller's transaction.
+   */
+  static async record(
+    deckId: number,
+    userId: number,
+    source: Exclude<DeckVersionSource, 'initial'>,
+    options: { client?: PoolClient; restoredFrom?: number } = {}
+  ): Promise<number> {
+    const db: Queryable = options.client ?? ({ query } as Queryable);
+    const cards = await this.snapshot(deckId, db);
+
+    // `forked` : un fork a pris cette version pour base (decks.forked_from_version).
+    // Elle doit rester telle quelle, sinon les changements faits juste après
+    // le fork s'y fondraient et n'apparaîtraient jamais côté fork.
+    const latestResult = await db.query(
+      `SELECT v.id, v.version, v.source, v.created_by, v.cards,
+              v.updated_at > NOW() - INTERVAL '${EDIT_MERGE_MINUTES} minutes' AS recent,
+              EXISTS (SELECT 1 FROM decks f WHERE f.forked_from = v.deck_id AND f.forked_from_version = v.version) AS forked
+       FROM deck_versions v
+       WHERE v.deck_id = $1
+       ORDER BY v.version DESC
+       LIMIT 1`,
+      [deckId]
+    );
+    const latest = latestResult.rows[0];
+
+    if (latest && sameDeckContent(latest.cards ?? [], cards)) {
+      return latest.version;
+    }
+
+    if (
+      latest &&
+      source === 'edit' &&
+      latest.source === 'edit' &&
+      latest.created_by === userId &&
+      latest.recent &&
+      !latest.forked
+    ) {
+      await db.query(`UPDATE deck_versions SET cards = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2`, [
+        JSON.stringify(cards),
+        latest.id,
+      ]);
+      return latest.version;
+    }
+
+    const version = (latest?.version ?? 0) + 1;
+    await db.query(
+      `INSERT INTO deck_versions (deck_id, version, source, restored_from, cards, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [deckId, version, source, options.restoredFrom ?? null, JSON.stringify(cards), userId]
+    );
+    return version;
+  }
+
+  /**
+   * Versions of a deck, newest first, each with its changes from the
+   * version before it
+   */
+  static async list(deckId: number, limit: number = 50): Promise<DeckVersion[]> {
+    // Une ligne de plus : la version qui précède la plus ancienne affichée.
+    const result = await query(
+      `SELECT ${VERSION_COLUMNS}
+       FROM deck_versions v
+       LEFT JOIN users u ON u.id = v.created_by
+       WHERE v.deck_id = $1
+       ORDER BY v.version DESC
+       LIMIT $2`,
+      [deckId, limit + 1]
+    );
+
+    return result.rows.slice(0, limit).map((row: any, i: number) => ({
+      ...rowToVersion(row, false),
+      changes: diffDeckVersions(result.rows[i + 1]?.cards ?? null, row.cards ?? []),
+    }));
+  }
+
+  static async findByVersion(deckId: number, version: number): Promise<DeckVersion | null> {
+    const result = await query(
+      `SELECT ${VERSION_COLUMNS}
+       FROM deck_versions v
+       LEFT JOIN users u ON u.id = v.created_by
+       WHERE v.deck_id = $1 AND v.version = $2`,
+      [deckId, version]
+    );
+    return result.rows[0] ? rowToVersion(result.rows[0], true) : null;
+  }
+
+  static async findLatest(deckId: number): Promise<DeckVersion | null> {
+    const result = await query(
+      `SELECT ${VERSION_COLUMNS}
+       FROM deck_versions v
+       LEFT JOIN users u ON u.id = v.created_by
+       WHERE v.deck_id = $1
+       ORDER BY v.version DESC
+       LIMIT 1`,
+      [deckId]
+    );
+    return result.rows[0] ? rowToVersion(result.rows[0], true) : null;
+  }
+}
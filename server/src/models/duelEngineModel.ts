@@ -1,5 +1,15 @@
 import { query } from '../config/database';
-import type { DuelChoice, DuelSeat } from '../../../shared/duelView';
+import type { DuelChoice, DuelPuzzleSetup, DuelSeat } from '../../../shared/duelView';
+import type { EnginePlayerDeck } from '../services/duelEngine/protocol';
+
+/** Ce que `option_ids` et `cancel` ne disent pas d'une décision, ou null. */
+function choicePayload(choice: DuelChoice): string | null {
+  const payload: Pick<DuelChoice, 'counters' | 'announcedCode' | 'cardCodes'> = {};
+  if (choice.counters) payload.counters = choice.counters;
+  if (choice.announcedCode !== undefined) payload.announcedCode = choice.announcedCode;
+  if (choice.cardCodes) payload.cardCodes = choice.cardCodes;
+  return Object.keys(payload).length ? JSON.stringify(payload) : null;
+}
 
 /**
  * Persistance du mode moteur.
@@ -15,17 +25,25 @@ import type { DuelChoice, DuelSeat } from '../../../shared/duelView';
  * redémarrage sans rien changer au format stocké.
  */
 export class DuelEngineModel {
-  /** Marque le duel comme joué par le moteur et fige sa graine. */
-  static async markEngineDuel(duelId: number, seed: readonly bigint[]): Promise<void> {
+  /**
+   * Marque le duel comme joué par le moteur et fige sa graine et ses decks
+   * (migration 036) : un deck modifié après coup ne change pas la partie.
+   */
+  static async markEngineDuel(
+    duelId: number,
+    seed: readonly bigint[],
+    players: readonly [EnginePlayerDeck, EnginePlayerDeck]
+  ): Promise<void> {
     await query(
       `UPDATE duels
           SET engine_mode = TRUE,
               engine_seed = $1,
+              engine_decks = $2,
               updated_at = CURRENT_TIMESTAMP
-        WHERE id = $2`,
+        WHERE id = $3`,
       // Sérialisée en texte : PostgreSQL n'a pas d'entier non signé sur
       // 64 bits, et un arrondi ici rendrait la partie non rejouable.
-      [seed.map((s) => s.toString()).join(','), duelId]
+      [seed.map((s) => s.toString()).join(','), JSON.stringify(players), duelId]
     );
     // Repartir de zéro : relancer un duel invalide le journal précédent.
     await query('DELETE FROM duel_engine_actions WHERE duel_id = $1', [duelId]);
@@ -45,6 +63,18 @@ export class DuelEngineModel {
     }
   }
 
+  /** Les decks par siège, tels que le moteur les a reçus ; null avant la migration 036. */
+  static async readEngineDecks(duelId: number): Promise<[EnginePlayerDeck, EnginePlayerDeck] | null> {
+    const res = await query('SELECT engine_decks FROM duels WHERE id = $1', [duelId]);
+    return res.rows[0]?.engine_decks ?? null;
+  }
+
+  /** Puzzle : les plateaux copiés au lancement (migration 035) ; null hors puzzle. */
+  static async readPuzzleSetup(duelId: number): Promise<DuelPuzzleSetup | null> {
+    const res = await query('SELECT puzzle_setup FROM duels WHERE id = $1', [duelId]);
+    return res.rows[0]?.puzzle_setup ?? null;
+  }
+
   /**
    * Ajoute une décision au journal.
    *
@@ -52,6 +82,9 @@ export class DuelEngineModel {
    * concurrentes — les deux joueurs qui répondent en même temps — se
    * verraient sinon attribuer le même rang, et le journal deviendrait
    * inexploitable pour le rejeu.
+   *
+   * Marqueurs, carte déclarée et passcodes vont dans `payload` : sans eux, le
+   * rejeu d'une invite SELECT_COUNTER ou ANNOUNCE_CARD serait impossible.
    */
   static async appendAction(
     duelId: number,
@@ -59,16 +92,17 @@ export class DuelEngineModel {
     choice: DuelChoice
   ): Promise<number> {
     const res = await query(
-      `INSERT INTO duel_engine_actions (duel_id, seq, seat, option_ids, cancel)
+      `INSERT INTO duel_engine_actions (duel_id, seq, seat, option_ids, cancel, payload)
        SELECT $1,
               COALESCE(MAX(seq), 0) + 1,
               $2,
               $3::text[],
-              $4
+              $4,
+              $5::jsonb
          FROM duel_engine_actions
         WHERE duel_id = $1
        RETURNING seq`,
-      [duelId, seat, choice.optionIds ?? [], choice.cancel === true]
+      [duelId, seat, choice.optionIds ?? [], choice.cancel === true, choicePayload(choice)]
     );
     return res.rows[0]?.seq ?? 0;
   }
@@ -77,7 +111,7 @@ export class DuelEngineModel {
     duelId: number
   ): Promise<Array<{ seq: number; seat: DuelSeat; choice: DuelChoice }>> {
     const res = await query(
-      `SELECT seq, seat, option_ids, cancel
+      `SELECT seq, seat, option_ids, cancel, payload
          FROM duel_engine_actions
         WHERE duel_id = $1
         ORDER BY seq`,
@@ -86,10 +120,22 @@ export class DuelEngineModel {
     return res.rows.map((r) => ({
       seq: r.seq,
       seat: (r.seat === 1 ? 1 : 0) as DuelSeat,
-      choice: { optionIds: r.option_ids ?? [], cancel: r.cancel },
+      choice: { optionIds: r.option_ids ?? [], cancel: r.cancel, ...(r.payload ?? {}) },
     }));
   }
 
+  /**
+   * Labo de combos : efface la décision `fromSeq` et toutes les suivantes.
+   * L'appelant a d'abord recréé la partie sans elles (`rehydrateDuel`).
+   */
+  static async truncateActions(duelId: number, fromSeq: number): Promise<number> {
+    const res = await query(
+      'DELETE FROM duel_engine_actions WHERE duel_id = $1 AND seq >= $2',
+      [duelId, fromSeq]
+    );
+    return res.rowCount ?? 0;
+  }
+
   static async countActions(duelId: number): Promise<number> {
     const res = await query(
       'SELECT COUNT(*) AS n FROM duel_engine_actions WHERE duel_id = $1',
@@ -7,6 +7,7 @@ import {
   PlayerBoardState,
   DuelChatMessage,
 } from '../../../shared/types';
+import type { DuelPuzzleSetup } from '../../../shared/duelView';
 import { DeckModel } from './deckModel';
 
 /**
@@ -93,6 +94,16 @@ function rowToDuel(row: any): Duel {
     opponent_ready: row.opponent_ready === true,
     // Migration 016 — regles de partie : 'standard' (banlist) ou 'free'.
     rules_mode: (row.rules_mode as 'standard' | 'free') ?? 'standard',
+    // Migration 026 — banlist figée au défi (NULL = dernière liste TCG).
+    banlist_id: row.banlist_id ?? null,
+    banlist_name: row.banlist_name ?? null,
+    // Migration 033 — siège adverse tenu par le bot.
+    bot_policy: row.bot_policy ?? null,
+    // Migration 034 — labo de combos.
+    goldfish: row.goldfish === true,
+    opening_hand: row.opening_hand ?? null,
+    // Migration 035 — puzzle de départ.
+    puzzle_id: row.puzzle_id ?? null,
   } as Duel;
 
   if (row.challenger_username) {
@@ -117,10 +128,12 @@ const SELECT_WITH_USERS = `
          cu.username         AS challenger_username,
          cu.profile_picture  AS challenger_profile_picture,
          ou.username         AS opponent_username,
-         ou.profile_picture  AS opponent_profile_picture
+         ou.profile_picture  AS opponent_profile_picture,
+         bl.name             AS banlist_name
     FROM duels d
     JOIN users cu ON cu.id = d.challenger_id
     JOIN users ou ON ou.id = d.opponent_id
+    LEFT JOIN banlists bl ON bl.id = d.banlist_id
 `;
 
 export interface DuelStatePatch {
@@ -142,19 +155,113 @@ export class DuelModel {
     challengerId: number,
     opponentId: number,
     challengerDeckId?: number | null,
-    rulesMode: 'standard' | 'free' = 'standard'
+    rulesMode: 'standard' | 'free' = 'standard',
+    banlistId: number | null = null
   ): Promise<Duel> {
     const result = await query(
-      `INSERT INTO duels (challenger_id, opponent_id, challenger_deck_id, status, rules_mode)
-       VALUES ($1, $2, $3, 'pending', $4)
+      `INSERT INTO duels (challenger_id, opponent_id, challenger_deck_id, status, rules_mode, banlist_id)
+       VALUES ($1, $2, $3, 'pending', $4, $5)
        RETURNING id`,
-      [challengerId, opponentId, challengerDeckId ?? null, rulesMode]
+      [challengerId, opponentId, challengerDeckId ?? null, rulesMode, banlistId]
     );
     const created = await this.findById(result.rows[0].id);
     // findById retourne toujours quelque chose ici puisqu'on vient de l'inserer
     return created as Duel;
   }
 
+  /**
+   * Cree un duel contre le bot (migration 033), pret a lancer le moteur.
+   *
+   * Pas d'invitation, de salle d'attente ni de pile ou face : le bot n'a rien
+   * a accepter. Le duel nait donc en `pre_game` deja `resolved`, premier
+   * joueur pose — `engine/start` enchaine directement sur la creation du
+   * moteur, comme apres un pile ou face ordinaire.
+   */
+  static async createAgainstBot(params: {
+    challengerId: number;
+    botId: number;
+    challengerDeckId: number;
+    botDeckId: number;
+    policy: string;
+    challengerFirst: boolean;
+    rulesMode: 'standard' | 'free';
+    banlistId: number | null;
+  }): Promise<Duel> {
+    const result = await query(
+      `INSERT INTO duels (challenger_id, opponent_id, challenger_deck_id, opponent_deck_id,
+                          status, phase_pre_game, first_player_id,
+                          challenger_ready, opponent_ready, rules_mode, banlist_id, bot_policy)
+       VALUES ($1, $2, $3, $4, 'pre_game', 'resolved', $5, TRUE, TRUE, $6, $7, $8)
+       RETURNING id`,
+      [
+        params.challengerId,
+        params.botId,
+        params.challengerDeckId,
+        params.botDeckId,
+        params.challengerFirst ? params.challengerId : params.botId,
+        params.rulesMode,
+        params.banlistId,
+        params.policy,
+      ]
+    );
+    return (await this.findById(result.rows[0].id)) as Duel;
+  }
+
+  /**
+   * Labo de combos : duel solo contre le goldfish (bot en politique 'pass'),
+   * même deck des deux côtés, prêt à lancer comme un duel contre le bot.
+   * Règles libres — on teste un combo, pas la légalité du deck. La graine est
+   * posée d'avance quand le joueur l'a fixée ; sinon le lancement la tire.
+   */
+  static async createGoldfish(params: {
+    userId: number;
+    botId: number;
+    deckId: number;
+    goFirst: boolean;
+    openingHand: number[] | null;
+    seed: readonly bigint[] | null;
+  }): Promise<Duel> {
+    const result = await query(
+      `INSERT INTO duels (challenger_id, opponent_id, challenger_deck_id, opponent_deck_id,
+                          status, phase_pre_game, first_player_id,
+                          challenger_ready, opponent_ready, rules_mode, bot_policy,
+                          goldfish, opening_hand, engine_seed)
+       VALUES ($1, $2, $3, $3, 'pre_game', 'resolved', $4, TRUE, TRUE, 'free', 'pass',
+               TRUE, $5, $6)
+       RETURNING id`,
+      [
+        params.userId,
+        params.botId,
+        params.deckId,
+        params.goFirst ? params.userId : params.botId,
+        params.openingHand,
+        params.seed ? params.seed.map((s) => s.toString()).join(',') : null,
+      ]
+    );
+    return (await this.findById(result.rows[0].id)) as Duel;
+  }
+
+  /**
+   * Puzzle : duel solo contre le bot en politique 'pass', sans deck — les
+   * plateaux sont copiés du puzzle au lancement. Le joueur commence toujours.
+   */
+  static async createPuzzle(params: {
+    userId: number;
+    botId: number;
+    puzzleId: number;
+    setup: DuelPuzzleSetup;
+  }): Promise<Duel> {
+    const result = await query(
+      `INSERT INTO duels (challenger_id, opponent_id, status, phase_pre_game, first_player_id,
+                          challenger_ready, opponent_ready, rules_mode, bot_policy,
+                          puzzle_id, puzzle_setup)
+       VALUES ($1, $2, 'pre_game', 'resolved', $1, TRUE, TRUE, 'free', 'pass', $3, $4)
+       RETURNING id`,
+      [params.userId, params.botId, params.puzzleId, JSON.stringify(params.setup)]
+    );
+    return (await this.findById(result.rows[0].id)) as Duel;
+  }
+
   /**
    * Recupere un duel avec les usernames/avatars des deux joueurs.
    */
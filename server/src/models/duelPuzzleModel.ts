@@ -0,0 +1,118 @@
+import { query } from '../config/database';
+import type { DuelPuzzle, DuelPuzzleSetup } from '../../../shared/duelView';
+
+function rowToPuzzle(row: any): DuelPuzzle {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    difficulty: row.difficulty,
+    setup: row.setup,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    ...(row.attempts !== undefined
+      ? { progress: { attempts: row.attempts ?? 0, solvedAt: row.solved_at ?? null } }
+      : {}),
+  };
+}
+
+export interface DuelPuzzleInput {
+  title: string;
+  description: string;
+  difficulty: number;
+  setup: DuelPuzzleSetup;
+}
+
+export class DuelPuzzleModel {
+  /**
+   * The puzzle library, easiest first, with the user's progress
+   */
+  static async list(userId: number): Promise<DuelPuzzle[]> {
+    const result = await query(
+      `SELECT p.*, COALESCE(a.attempts, 0) AS attempts, a.solved_at
+         FROM duel_puzzles p
+         LEFT JOIN duel_puzzle_attempts a ON a.puzzle_id = p.id AND a.user_id = $1
+        ORDER BY p.difficulty, p.id`,
+      [userId]
+    );
+    return result.rows.map(rowToPuzzle);
+  }
+
+  static async findById(id: number): Promise<DuelPuzzle | null> {
+    const result = await query(`SELECT * FROM duel_puzzles WHERE id = $1`, [id]);
+    return result.rows[0] ? rowToPuzzle(result.rows[0]) : null;
+  }
+
+  static async titleTaken(title: string, exceptId?: number): Promise<boolean> {
+    const result = await query(
+      `SELECT 1 FROM duel_puzzles WHERE LOWER(title) = LOWER($1) AND id <> $2`,
+      [title, exceptId ?? 0]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Passcodes missing from the card database — the engine could not load them
+   */
+  static async unknownCodes(codes: number[]): Promise<number[]> {
+    if (!codes.length) return [];
+    const result = await query(`SELECT card_id FROM cards WHERE card_id = ANY($1::text[])`, [
+      codes.map(String),
+    ]);
+    const known = new Set(result.rows.map((row: any) => Number(row.card_id)));
+    return codes.filter((code) => !known.has(code));
+  }
+
+  static async create(input: DuelPuzzleInput, createdBy: number): Promise<DuelPuzzle> {
+    const result = await query(
+      `INSERT INTO duel_puzzles (title, description, difficulty, setup, created_by)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [input.title, input.description, input.difficulty, JSON.stringify(input.setup), createdBy]
+    );
+    return rowToPuzzle(result.rows[0]);
+  }
+
+  static async update(id: number, input: DuelPuzzleInput): Promise<DuelPuzzle | null> {
+    const result = await query(
+      `UPDATE duel_puzzles
+          SET title = $2, description = $3, difficulty = $4, setup = $5,
+              updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+        RETURNING *`,
+      [id, input.title, input.description, input.difficulty, JSON.stringify(input.setup)]
+    );
+    return result.rows[0] ? rowToPuzzle(result.rows[0]) : null;
+  }
+
+  static async delete(id: number): Promise<boolean> {
+    const result = await query(`DELETE FROM duel_puzzles WHERE id = $1`, [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Count a new attempt — one per duel opened from the puzzle
+   */
+  static async recordAttempt(userId: number, puzzleId: number): Promise<void> {
+    await query(
+      `INSERT INTO duel_puzzle_attempts (user_id, puzzle_id, attempts)
+       VALUES ($1, $2, 1)
+       ON CONFLICT (user_id, puzzle_id) DO UPDATE
+         SET attempts = duel_puzzle_attempts.attempts + 1,
+             last_attempt_at = CURRENT_TIMESTAMP`,
+      [userId, puzzleId]
+    );
+  }
+
+  /**
+   * Mark the puzzle solved; the first solve date is kept
+   */
+  static async markSolved(userId: number, puzzleId: number): Promise<void> {
+    await query(
+      `UPDATE duel_puzzle_attempts
+          SET solved_at = COALESCE(solved_at, CURRENT_TIMESTAMP)
+        WHERE user_id = $1 AND puzzle_id = $2`,
+      [userId, puzzleId]
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { query } from '../config/database';
-import { Notification } from '../../../shared/types';
+import { Notification, TradeNotificationType } from '../../../shared/types';
+import type { PriceAlert } from './binderModel';
 
 export class NotificationModel {
   /**
@@ -7,21 +8,44 @@ export class NotificationModel {
    */
   static async create(
     userId: number,
-    type: 'follow' | 'like' | 'dislike' | 'comment' | 'reply',
+    type: 'follow' | 'like' | 'dislike' | 'comment' | 'reply' | TradeNotificationType,
     fromUserId?: number,
     deckId?: number,
-    commentId?: number
+    commentId?: number,
+    tradeId?: number
   ): Promise<Notification> {
     const result = await query(
-      `INSERT INTO notifications (user_id, type, from_user_id, deck_id, comment_id)
-       VALUES ($1, $2, $3, $4, $5)
+      `INSERT INTO notifications (user_id, type, from_user_id, deck_id, comment_id, trade_id)
+       VALUES ($1, $2, $3, $4, $5, $6)
        RETURNING *`,
-      [userId, type, fromUserId || null, deckId || null, commentId || null]
+      [userId, type, fromUserId || null, deckId || null, commentId || null, tradeId || null]
     );
 
     return this.parseNotification(result.rows[0]);
   }
 
+  /**
+   * Create one `price_alert` per alert, returned with the card for the live push
+   */
+  static async createPriceAlerts(alerts: PriceAlert[]): Promise<Notification[]> {
+    if (alerts.length === 0) return [];
+
+    const result = await query(
+      `WITH inserted AS (
+         INSERT INTO notifications (user_id, type, card_id, price_eur)
+         SELECT a.user_id, 'price_alert', a.card_id, a.price_eur
+         FROM unnest($1::int[], $2::int[], $3::numeric[]) AS a(user_id, card_id, price_eur)
+         RETURNING *
+       )
+       SELECT i.*, c.name AS card_name, c.name_fr AS card_name_fr, c.card_images
+       FROM inserted i
+       JOIN cards c ON c.id = i.card_id`,
+      [alerts.map((a) => a.user_id), alerts.map((a) => a.card_id), alerts.map((a) => a.price_eur)]
+    );
+
+    return result.rows.map((row) => this.parseNotification(row));
+  }
+
   /**
    * Get user's notifications
    */
@@ -51,10 +75,12 @@ export class NotificationModel {
     const result = await query(
       `SELECT n.*,
               u.id as from_user_id, u.username as from_username, u.profile_picture as from_profile_picture,
-              d.id as deck_id, d.name as deck_name, d.cover_image as deck_cover_image
+              d.id as deck_id, d.name as deck_name, d.cover_image as deck_cover_image,
+              c.name as card_name, c.name_fr as card_name_fr, c.card_images
        FROM notifications n
        LEFT JOIN users u ON n.from_user_id = u.id
        LEFT JOIN decks d ON n.deck_id = d.id
+       LEFT JOIN cards c ON n.card_id = c.id
        WHERE n.user_id = $1 ${readCondition}
        ORDER BY n.created_at DESC
        LIMIT $2 OFFSET $3`,
@@ -166,6 +192,9 @@ export class NotificationModel {
       from_user_id: row.from_user_id,
       deck_id: row.deck_id,
       comment_id: row.comment_id,
+      trade_id: row.trade_id ?? undefined,
+      card_id: row.card_id ?? undefined,
+      price_eur: row.price_eur !== null && row.price_eur !== undefined ? Number(row.price_eur) : undefined,
       is_read: row.is_read,
       created_at: row.created_at,
     };
@@ -188,6 +217,15 @@ export class NotificationModel {
       };
     }
 
+    // Add card if present (price alerts)
+    if (row.card_id && row.card_name) {
+      notification.card = {
+        id: row.card_id,
+        name: row.card_name_fr || row.card_name,
+        image_url_small: row.card_images?.[0]?.image_url_small,
+      };
+    }
+
     return notification;
   }
 }
@@ -0,0 +1,153 @@
+import { query } from '../config/database';
+import { CardPrices, CardPricePoint, CollectionValuePoint, PriceMover } from '../../../shared/types';
+
+/** `DATE` Postgres → 'YYYY-MM-DD' sans passer par le fuseau du process Node. */
+const DATE_COLUMN = `to_char(snapshot_date, 'YYYY-MM-DD')`;
+
+export class PriceHistoryModel {
+  /**
+   * Cards present in at least one collection or watched with a target price,
+   * with their cached prices. These are the only cards whose price is
+   * refreshed and snapshotted.
+   */
+  static async getCollectedCards(): Promise<Array<{ id: number; card_id: string; card_prices: CardPrices[] | null }>> {
+    const result = await query(
+      `SELECT c.id, c.card_id, c.card_prices
+       FROM cards c
+       WHERE EXISTS (SELECT 1 FROM user_cards uc WHERE uc.card_id = c.id)
+          OR EXISTS (SELECT 1 FROM card_wants w WHERE w.card_id = c.id AND w.target_price_eur IS NOT NULL)`
+    );
+    return result.rows;
+  }
+
+  /**
+   * Record one price per card for the given day (re-running the same day overwrites)
+   */
+  static async recordCardPrices(
+    date: string,
+    prices: Array<{ card_id: number; price_eur: number }>
+  ): Promise<number> {
+    if (prices.length === 0) return 0;
+
+    const result = await query(
+      `INSERT INTO card_price_snapshots (card_id, snapshot_date, price_eur)
+       SELECT p.card_id, $1::date, p.price_eur
+       FROM unnest($2::int[], $3::numeric[]) AS p(card_id, price_eur)
+       ON CONFLICT (card_id, snapshot_date) DO UPDATE SET price_eur = EXCLUDED.price_eur`,
+      [date, prices.map((p) => p.card_id), prices.map((p) => p.price_eur)]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Record every user's collection value for the given day, from that day's
+   * card snapshots. Cards without a price count for 0, like in getCollectionStats.
+   */
+  static async recordCollectionValues(date: string): Promise<number> {
+    const result = await query(
+      `INSERT INTO collection_value_snapshots (user_id, snapshot_date, total_value_eur, total_cards)
+       SELECT uc.user_id, $1::date,
+              COALESCE(ROUND(SUM(cps.price_eur * uc.quantity), 2), 0),
+              SUM(uc.quantity)::int
+       FROM user_cards uc
+       LEFT JOIN card_price_snapshots cps
+         ON cps.card_id = uc.card_id AND cps.snapshot_date = $1::date
+       GROUP BY uc.user_id
+       ON CONFLICT (user_id, snapshot_date) DO UPDATE
+         SET total_value_eur = EXCLUDED.total_value_eur,
+             total_cards = EXCLUDED.total_cards`,
+      [date]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Collection value over the last `days` days, oldest first
+   */
+  static async getCollectionHistory(userId: number, days: number): Promise<CollectionValuePoint[]> {
+    const result = await query(
+      `SELECT ${DATE_COLUMN} AS date, total_value_eur, total_cards
+       FROM collection_value_snapshots
+       WHERE user_id = $1 AND snapshot_date >= CURRENT_DATE - $2::int
+       ORDER BY snapshot_date`,
+      [userId, days]
+    );
+    return result.rows.map((row) => ({
+      date: row.date,
+      total_value_eur: Number(row.total_value_eur),
+      total_cards: Number(row.total_cards),
+    }));
+  }
+
+  /**
+   * Price of one card over the last `days` days, oldest first
+   */
+  static async getCardHistory(cardId: number, days: number): Promise<CardPricePoint[]> {
+    const result = await query(
+      `SELECT ${DATE_COLUMN} AS date, price_eur
+       FROM card_price_snapshots
+       WHERE card_id = $1 AND snapshot_date >= CURRENT_DATE - $2::int
+       ORDER BY snapshot_date`,
+      [cardId, days]
+    );
+    return result.rows.map((row) => ({ date: row.date, price_eur: Number(row.price_eur) }));
+  }
+
+  /**
+   * Owned cards whose value moved the most over the period, in one direction:
+   * first snapshot of the window vs latest snapshot, weighted by owned quantity.
+   */
+  static async getBiggestMovers(
+    userId: number,
+    days: number,
+    direction: 'up' | 'down',
+    limit: number
+  ): Promise<PriceMover[]> {
+    const [filter, order] = direction === 'up' ? ['>', 'DESC'] : ['<', 'ASC'];
+    const result = await query(
+      `WITH owned AS (
+         SELECT card_id, SUM(quantity)::int AS quantity
+         FROM user_cards
+         WHERE user_id = $1
+         GROUP BY card_id
+       ),
+       window_prices AS (
+         SELECT cps.card_id, cps.snapshot_date, cps.price_eur
+         FROM card_price_snapshots cps
+         JOIN owned o ON o.card_id = cps.card_id
+         WHERE cps.snapshot_date >= CURRENT_DATE - $2::int
+       ),
+       first_price AS (
+         SELECT DISTINCT ON (card_id) card_id, price_eur
+         FROM window_prices
+         ORDER BY card_id, snapshot_date ASC
+       ),
+       last_price AS (
+         SELECT DISTINCT ON (card_id) card_id, price_eur
+         FROM window_prices
+         ORDER BY card_id, snapshot_date DESC
+       )
+       SELECT c.id, c.name, c.name_fr, c.card_images, o.quantity,
+              f.price_eur AS old_price, l.price_eur AS new_price,
+              (l.price_eur - f.price_eur) * o.quantity AS delta
+       FROM owned o
+       JOIN first_price f ON f.card_id = o.card_id
+       JOIN last_price l ON l.card_id = o.card_id
+       JOIN cards c ON c.id = o.card_id
+       WHERE l.price_eur ${filter} f.price_eur
+       ORDER BY delta ${order}
+       LIMIT $3`,
+      [userId, days, limit]
+    );
+
+    return result.rows.map((row) => ({
+      card_id: row.id,
+      name: row.name_fr || row.name,
+      image_url_small: row.card_images?.[0]?.image_url_small,
+      quantity: Number(row.quantity),
+      old_price_eur: Number(row.old_price),
+      new_price_eur: Number(row.new_price),
+      delta_eur: Math.round(Number(row.delta) * 100) / 100,
+    }));
+  }
+}
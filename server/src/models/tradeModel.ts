@@ -0,0 +1,344 @@
+import { query, getClient } from '../config/database';
+import {
+  CardCondition,
+  CardEdition,
+  Trade,
+  TradeItem,
+  TradeStatus,
+  TradeableCard,
+} from '../../../shared/types';
+import { UserCardModel } from './userCardModel';
+import { cardmarketPriceEUR } from '../utils/prices';
+import { computeTradeBalance } from '../utils/tradeBalance';
+
+/**
+ * Échanges de cartes entre abonnés mutuels.
+ *
+ * Cycle de vie :
+ *   pending    – offre envoyée, en attente de réponse du destinataire
+ *   countered  – le destinataire a répondu par une contre-offre (nouvelle
+ *                ligne, `parent_id` = celle-ci, proposant et destinataire
+ *                inversés)
+ *   accepted   – cartes transférées, état terminal
+ *   declined   – refusée par le destinataire
+ *   cancelled  – retirée par le proposant
+ *
+ * Seul `accept` touche aux collections, dans une transaction : si un seul lot
+ * n'est plus disponible (carte vendue, déplacée…), rien n'est transféré.
+ */
+
+/** Lot à insérer : la clé d'impression recopiée depuis `user_cards`. */
+export interface NewTradeItem {
+  from_user_id: number;
+  card_id: number;
+  set_code: string;
+  rarity: string;
+  language: string;
+  condition: CardCondition;
+  edition: CardEdition;
+  quantity: number;
+}
+
+export type AcceptTradeResult =
+  | { success: true; trade: Trade }
+  | { success: false; error: 'not_pending' }
+  | { success: false; error: 'unavailable'; item: TradeItem };
+
+const TRADE_SELECT = `SELECT t.*,
+              p.username AS proposer_username, p.profile_picture AS proposer_profile_picture,
+              r.username AS recipient_username, r.profile_picture AS recipient_profile_picture
+       FROM trades t
+       JOIN users p ON p.id = t.proposer_id
+       JOIN users r ON r.id = t.recipient_id`;
+
+function rowToItem(row: any): TradeItem {
+  return {
+    id: row.id,
+    trade_id: row.trade_id,
+    from_user_id: row.from_user_id,
+    card_id: row.card_id,
+    set_code: row.set_code,
+    rarity: row.rarity,
+    language: row.language,
+    condition: row.condition,
+    edition: row.edition,
+    quantity: row.quantity,
+    name: row.name_fr || row.name,
+    image_url_small: row.card_images?.[0]?.image_url_small,
+    unit_price_eur: cardmarketPriceEUR(row.card_prices),
+  };
+}
+
+/**
+ * Ligne `user_cards` jointe à `cards` → carte proposable. Partagé avec le
+ * classeur d'échange, qui expose les mêmes lignes.
+ */
+export function rowToTradeableCard(row: any): TradeableCard {
+  return {
+    user_card_id: row.user_card_id,
+    card_id: row.card_id,
+    name: row.name_fr || row.name,
+    image_url_small: row.card_images?.[0]?.image_url_small,
+    set_code: row.set_code,
+    rarity: row.rarity,
+    language: row.language,
+    condition: row.condition,
+    edition: row.edition,
+    quantity: row.quantity,
+    for_trade: row.for_trade ?? 0,
+    unit_price_eur: cardmarketPriceEUR(row.card_prices),
+  };
+}
+
+function rowToTrade(row: any, items: TradeItem[]): Trade {
+  return {
+    id: row.id,
+    proposer_id: row.proposer_id,
+    recipient_id: row.recipient_id,
+    status: row.status as TradeStatus,
+    parent_id: row.parent_id ?? null,
+    message: row.message ?? null,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    completed_at: row.completed_at ?? null,
+    proposer: {
+      id: row.proposer_id,
+      username: row.proposer_username,
+      profile_picture: row.proposer_profile_picture,
+    },
+    recipient: {
+      id: row.recipient_id,
+      username: row.recipient_username,
+      profile_picture: row.recipient_profile_picture,
+    },
+    items,
+    balance: computeTradeBalance(items, row.proposer_id),
+  };
+}
+
+export class TradeModel {
+  /**
+   * Lignes de collection d'un utilisateur, telles qu'on peut les proposer.
+   */
+  static async getTradeableCards(userId: number): Promise<TradeableCard[]> {
+    const result = await query(
+      `SELECT uc.id AS user_card_id, uc.card_id, uc.set_code, uc.rarity, uc.language,
+              uc.condition, uc.edition, uc.quantity, LEAST(uc.for_trade, uc.quantity) AS for_trade,
+              c.name, c.name_fr, c.card_images, c.card_prices
+       FROM user_cards uc
+       JOIN cards c ON c.id = uc.card_id
+       WHERE uc.user_id = $1 AND uc.quantity > 0
+       ORDER BY c.name, uc.set_code, uc.rarity`,
+      [userId]
+    );
+
+    return result.rows.map(rowToTradeableCard);
+  }
+
+  /**
+   * Lignes `user_cards` désignées dans une offre, limitées à celles de `userId`.
+   */
+  static async getUserCardsByIds(
+    userId: number,
+    userCardIds: number[]
+  ): Promise<Array<Omit<NewTradeItem, 'from_user_id'> & { id: number }>> {
+    if (userCardIds.length === 0) return [];
+    const result = await query(
+      `SELECT id, card_id, set_code, rarity, language, condition, edition, quantity
+       FROM user_cards
+       WHERE user_id = $1 AND id = ANY($2::int[])`,
+      [userId, userCardIds]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Crée une offre. Avec `parentId`, c'est une contre-offre : la précédente
+   * passe en 'countered' dans la même transaction — et seulement si elle est
+   * encore en attente, sinon rien n'est créé (null).
+   */
+  static async create(
+    proposerId: number,
+    recipientId: number,
+    items: NewTradeItem[],
+    message: string | null,
+    parentId: number | null = null
+  ): Promise<Trade | null> {
+    const client = await getClient();
+    let tradeId: number;
+    try {
+      await client.query('BEGIN');
+
+      if (parentId !== null) {
+        const parent = await client.query(
+          `UPDATE trades SET status = 'countered', updated_at = CURRENT_TIMESTAMP
+           WHERE id = $1 AND status = 'pending'
+           RETURNING id`,
+          [parentId]
+        );
+        if (parent.rows.length === 0) {
+          await client.query('ROLLBACK');
+          return null;
+        }
+      }
+
+      const inserted = await client.query(
+        `INSERT INTO trades (proposer_id, recipient_id, parent_id, message)
+         VALUES ($1, $2, $3, $4)
+         RETURNING id`,
+        [proposerId, recipientId, parentId, message]
+      );
+      tradeId = inserted.rows[0].id;
+
+      for (const item of items) {
+        await client.query(
+          `INSERT INTO trade_items (trade_id, from_user_id, card_id, set_code, rarity, language,
+                                    condition, edition, quantity)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+          [
+            tradeId,
+            item.from_user_id,
+            item.card_id,
+            item.set_code,
+            item.rarity,
+            item.language,
+            item.condition,
+            item.edition,
+            item.quantity,
+          ]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+
+    return this.findById(tradeId);
+  }
+
+  static async findById(id: number): Promise<Trade | null> {
+    const result = await query(`${TRADE_SELECT} WHERE t.id = $1`, [id]);
+    if (result.rows.length === 0) return null;
+    const items = await this.getItems([id]);
+    return rowToTrade(result.rows[0], items);
+  }
+
+  /**
+   * Offres envoyées et reçues, les plus récentes d'abord (?status= optionnel).
+   */
+  static async listForUser(userId: number, status?: TradeStatus): Promise<Trade[]> {
+    const values: any[] = [userId];
+    let statusClause = '';
+    if (status) {
+      values.push(status);
+      statusClause = 'AND t.status = $2';
+    }
+
+    const result = await query(
+      `${TRADE_SELECT}
+       WHERE (t.proposer_id = $1 OR t.recipient_id = $1) ${statusClause}
+       ORDER BY t.updated_at DESC
+       LIMIT 100`,
+      values
+    );
+    if (result.rows.length === 0) return [];
+
+    const items = await this.getItems(result.rows.map((r) => r.id));
+    return result.rows.map((row) =>
+      rowToTrade(row, items.filter((i) => i.trade_id === row.id))
+    );
+  }
+
+  private static async getItems(tradeIds: number[]): Promise<TradeItem[]> {
+    const result = await query(
+      `SELECT ti.*, c.name, c.name_fr, c.card_images, c.card_prices
+       FROM trade_items ti
+       JOIN cards c ON c.id = ti.card_id
+       WHERE ti.trade_id = ANY($1::int[])
+       ORDER BY ti.trade_id, ti.from_user_id, c.name`,
+      [tradeIds]
+    );
+    return result.rows.map(rowToItem);
+  }
+
+  /**
+   * Refus / annulation : seulement depuis 'pending'. Null si l'offre a déjà
+   * changé d'état entre-temps.
+   */
+  static async close(id: number, status: 'declined' | 'cancelled'): Promise<Trade | null> {
+    const result = await query(
+      `UPDATE trades SET status = $2, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status = 'pending'
+       RETURNING id`,
+      [id, status]
+    );
+    if (result.rows.length === 0) return null;
+    return this.findById(id);
+  }
+
+  /**
+   * Accepte l'offre et transfère chaque lot vers l'autre collection, en une
+   * transaction. L'offre est verrouillée pour qu'un double clic (ou une
+   * annulation concurrente) ne puisse pas transférer deux fois.
+   */
+  static async accept(id: number): Promise<AcceptTradeResult> {
+    const client = await getClient();
+    try {
+      await client.query('BEGIN');
+
+      const locked = await client.query(
+        `SELECT id, proposer_id, recipient_id, status FROM trades WHERE id = $1 FOR UPDATE`,
+        [id]
+      );
+      const trade = locked.rows[0];
+      if (!trade || trade.status !== 'pending') {
+        await client.query('ROLLBACK');
+        return { success: false, error: 'not_pending' };
+      }
+
+      const items = await client.query(
+        `SELECT ti.*, c.name, c.name_fr, c.card_images, c.card_prices
+         FROM trade_items ti
+         JOIN cards c ON c.id = ti.card_id
+         WHERE ti.trade_id = $1
+         ORDER BY ti.id`,
+        [id]
+      );
+      for (const item of items.rows) {
+        const toUserId =
+          item.from_user_id === trade.proposer_id ? trade.recipient_id : trade.proposer_id;
+        const moved = await UserCardModel.transferCopies(
+          client,
+          item.from_user_id,
+          toUserId,
+          item,
+          item.quantity
+        );
+        if (!moved) {
+          await client.query('ROLLBACK');
+          return { success: false, error: 'unavailable', item: rowToItem(item) };
+        }
+      }
+
+      await client.query(
+        `UPDATE trades
+         SET status = 'accepted', completed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [id]
+      );
+      await client.query('COMMIT');
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+
+    const accepted = await this.findById(id);
+    return { success: true, trade: accepted as Trade };
+  }
+}
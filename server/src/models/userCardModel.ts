@@ -1,11 +1,82 @@
-import { query } from '../config/database';
-import { UserCard, CollectionFilters, PaginatedResponse, CollectionStats } from '../../../shared/types';
+import { PoolClient } from 'pg';
+import { query, getClient } from '../config/database';
+import {
+  UserCard,
+  CollectionFilters,
+  PaginatedResponse,
+  CollectionStats,
+  CardCondition,
+  CardEdition,
+  CardAllocation,
+} from '../../../shared/types';
+import { DEFAULT_CONDITION, DEFAULT_EDITION } from '../../../shared/collection';
 import { cardmarketPriceEUR, isUltraRare, isSecretRare } from '../utils/prices';
 
+/** Optional per-copy details; condition and edition are part of the unique key. */
+export interface UserCardDetails {
+  condition?: CardCondition;
+  edition?: CardEdition;
+  purchase_price_eur?: number | null;
+  purchase_date?: string | null;
+  notes?: string | null;
+}
+
+/**
+ * Upsert shared by single and bulk adds. On conflict, quantities add up and
+ * the unit purchase price becomes the quantity-weighted average of both lots
+ * (or whichever one is known). Date and notes are only replaced when provided.
+ */
+const UPSERT_USER_CARD_SQL = `INSERT INTO user_cards (user_id, card_id, set_code, rarity, quantity, language,
+                          condition, edition, purchase_price_eur, purchase_date, notes)
+   VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+   ON CONFLICT (user_id, card_id, set_code, rarity, language, condition, edition)
+   DO UPDATE SET quantity = user_cards.quantity + $5,
+                 purchase_price_eur = CASE
+                   WHEN EXCLUDED.purchase_price_eur IS NULL THEN user_cards.purchase_price_eur
+                   WHEN user_cards.purchase_price_eur IS NULL THEN EXCLUDED.purchase_price_eur
+                   ELSE ROUND((user_cards.purchase_price_eur * user_cards.quantity
+                               + EXCLUDED.purchase_price_eur * EXCLUDED.quantity)
+                              / (user_cards.quantity + EXCLUDED.quantity), 2)
+                 END,
+                 purchase_date = COALESCE(EXCLUDED.purchase_date, user_cards.purchase_date),
+                 notes = COALESCE(EXCLUDED.notes, user_cards.notes),
+                 updated_at = CURRENT_TIMESTAMP
+   RETURNING *`;
+
+function upsertParams(
+  userId: number,
+  cardId: number,
+  setCode: string,
+  rarity: string,
+  quantity: number,
+  language: string,
+  details: UserCardDetails
+): any[] {
+  return [
+    userId,
+    cardId,
+    setCode,
+    rarity,
+    quantity,
+    language,
+    details.condition ?? DEFAULT_CONDITION,
+    details.edition ?? DEFAULT_EDITION,
+    details.purchase_price_eur ?? null,
+    details.purchase_date ?? null,
+    details.notes ?? null,
+  ];
+}
+
+/** Per-copy columns, selected alongside the card in every collection read. */
+const DETAIL_COLUMNS = `uc.condition, uc.edition, uc.purchase_price_eur,
+              to_char(uc.purchase_date, 'YYYY-MM-DD') AS purchase_date, uc.notes,
+              LEAST(uc.for_trade, uc.quantity) AS for_trade`;
+
 export class UserCardModel {
   /**
    * Add card to user's collection
    * @param language - Card language (EN, FR, DE, IT, PT, SP, JP, KR)
+   * @param details - Condition / edition (default NM / unlimited), purchase price, date, notes
    */
   static async addToCollection(
     userId: number,
@@ -13,30 +84,25 @@ export class UserCardModel {
     setCode: string,
     rarity: string,
     quantity: number = 1,
-    language: string = 'EN'
+    language: string = 'EN',
+    details: UserCardDetails = {}
   ): Promise<UserCard> {
     const result = await query(
-      `INSERT INTO user_cards (user_id, card_id, set_code, rarity, quantity, language)
-       VALUES ($1, $2, $3, $4, $5, $6)
-       ON CONFLICT (user_id, card_id, set_code, rarity, language)
-       DO UPDATE SET quantity = user_cards.quantity + $5, updated_at = CURRENT_TIMESTAMP
-       RETURNING *`,
-      [userId, cardId, setCode, rarity, quantity, language]
+      UPSERT_USER_CARD_SQL,
+      upsertParams(userId, cardId, setCode, rarity, quantity, language, details)
     );
 
     return result.rows[0];
   }
 
   /**
-   * Get user's collection with filters and pagination
+   * Build the WHERE clause shared by the paginated listing and the CSV export
    */
-  static async getUserCollection(
+  private static buildCollectionWhere(
     userId: number,
-    filters: CollectionFilters = {}
-  ): Promise<PaginatedResponse<UserCard>> {
+    filters: CollectionFilters
+  ): { whereClause: string; values: any[]; paramCount: number } {
     const {
-      page = 1,
-      limit = 50,
       search,
       type,
       frame_type,
@@ -51,7 +117,6 @@ export class UserCardModel {
       card_id,
     } = filters;
 
-    const offset = (page - 1) * limit;
     const conditions: string[] = ['uc.user_id = $1'];
     const values: any[] = [userId];
     let paramCount = 2;
@@ -138,7 +203,19 @@ export class UserCardModel {
       paramCount++;
     }
 
-    const whereClause = conditions.join(' AND ');
+    return { whereClause: conditions.join(' AND '), values, paramCount };
+  }
+
+  /**
+   * Get user's collection with filters and pagination
+   */
+  static async getUserCollection(
+    userId: number,
+    filters: CollectionFilters = {}
+  ): Promise<PaginatedResponse<UserCard>> {
+    const { page = 1, limit = 50 } = filters;
+    const offset = (page - 1) * limit;
+    const { whereClause, values, paramCount } = this.buildCollectionWhere(userId, filters);
 
     // Get total count
     const countResult = await query(
@@ -153,7 +230,7 @@ export class UserCardModel {
     // Get paginated results with card data
     values.push(limit, offset);
     const result = await query(
-      `SELECT uc.id, uc.user_id, uc.card_id as user_card_card_id, uc.set_code, uc.rarity, uc.language, uc.quantity, uc.created_at, uc.updated_at,
+      `SELECT uc.id, uc.user_id, uc.card_id as user_card_card_id, uc.set_code, uc.rarity, uc.language, ${DETAIL_COLUMNS}, uc.quantity, uc.created_at, uc.updated_at,
               c.id as card_db_id, c.card_id as card_api_id, c.name, c.name_fr, c.type, c.frame_type, c.description, c.description_fr,
               c.atk, c.def, c.level, c.race, c.attribute, c.archetype,
               c.card_sets, c.card_images, c.card_prices, c.banlist_info,
@@ -178,12 +255,171 @@ export class UserCardModel {
     };
   }
 
+  /**
+   * Whole filtered collection, unpaginated — used by the CSV export
+   */
+  static async getUserCollectionForExport(
+    userId: number,
+    filters: CollectionFilters = {}
+  ): Promise<UserCard[]> {
+    const { whereClause, values } = this.buildCollectionWhere(userId, filters);
+    const result = await query(
+      `SELECT uc.id, uc.user_id, uc.card_id as user_card_card_id, uc.set_code, uc.rarity, uc.language, ${DETAIL_COLUMNS}, uc.quantity, uc.created_at, uc.updated_at,
+              c.id as card_db_id, c.card_id as card_api_id, c.name, c.name_fr, c.type, c.frame_type, c.description, c.description_fr,
+              c.atk, c.def, c.level, c.race, c.attribute, c.archetype,
+              c.card_sets, c.card_images, c.card_prices, c.banlist_info,
+              c.linkval, c.linkmarkers, c.scale
+       FROM user_cards uc
+       JOIN cards c ON uc.card_id = c.id
+       WHERE ${whereClause}
+       ORDER BY c.name, uc.set_code, uc.rarity`,
+      values
+    );
+
+    return result.rows.map((row) => this.parseUserCard(row));
+  }
+
+  /**
+   * Current quantity of every collection line, keyed like the unique constraint.
+   * Used by the CSV import to compute its diff before writing anything.
+   */
+  static async getQuantitiesByKey(userId: number): Promise<Map<string, number>> {
+    const result = await query(
+      `SELECT card_id, set_code, rarity, language, condition, edition, quantity
+       FROM user_cards WHERE user_id = $1`,
+      [userId]
+    );
+
+    const map = new Map<string, number>();
+    for (const row of result.rows) {
+      map.set(
+        this.collectionKey(row.card_id, row.set_code, row.rarity, row.language, row.condition, row.edition),
+        Number(row.quantity)
+      );
+    }
+    return map;
+  }
+
+  static collectionKey(
+    cardId: number,
+    setCode: string,
+    rarity: string,
+    language: string,
+    condition: CardCondition = DEFAULT_CONDITION,
+    edition: CardEdition = DEFAULT_EDITION
+  ): string {
+    return `${cardId}|${setCode}|${rarity}|${language}|${condition}|${edition}`;
+  }
+
+  /**
+   * Add many lines at once, all or nothing (CSV import). Same upsert as `addToCollection`.
+   */
+  static async bulkAddToCollection(
+    userId: number,
+    entries: Array<{
+      card_id: number;
+      set_code: string;
+      rarity: string;
+      language: string;
+      quantity: number;
+      condition: CardCondition | null;
+      edition: CardEdition | null;
+    }>
+  ): Promise<number> {
+    const client = await getClient();
+    try {
+      await client.query('BEGIN');
+      for (const e of entries) {
+        await client.query(
+          UPSERT_USER_CARD_SQL,
+          upsertParams(userId, e.card_id, e.set_code, e.rarity, e.quantity, e.language, {
+            condition: e.condition ?? undefined,
+            edition: e.edition ?? undefined,
+          })
+        );
+      }
+      await client.query('COMMIT');
+      return entries.length;
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Move `quantity` copies of one printing from a collection to another,
+   * inside the caller's transaction (trade completion). The giver's row is
+   * locked and must still hold enough copies; returns false otherwise.
+   * Purchase price and notes stay with the giver: the receiver's cost is unknown.
+   */
+  static async transferCopies(
+    client: PoolClient,
+    fromUserId: number,
+    toUserId: number,
+    printing: {
+      card_id: number;
+      set_code: string;
+      rarity: string;
+      language: string;
+      condition: CardCondition;
+      edition: CardEdition;
+    },
+    quantity: number
+  ): Promise<boolean> {
+    const source = await client.query(
+      `SELECT id, quantity FROM user_cards
+       WHERE user_id = $1 AND card_id = $2
+         AND set_code IS NOT DISTINCT FROM $3 AND rarity IS NOT DISTINCT FROM $4
+         AND language = $5 AND condition = $6 AND edition = $7
+       FOR UPDATE`,
+      [
+        fromUserId,
+        printing.card_id,
+        printing.set_code,
+        printing.rarity,
+        printing.language,
+        printing.condition,
+        printing.edition,
+      ]
+    );
+    const row = source.rows[0];
+    if (!row || row.quantity < quantity) return false;
+
+    if (row.quantity === quantity) {
+      await client.query(`DELETE FROM user_cards WHERE id = $1`, [row.id]);
+    } else {
+      // Les exemplaires cédés sont pris en priorité sur ceux marqués « à l'échange ».
+      await client.query(
+        `UPDATE user_cards SET quantity = quantity - $1, for_trade = GREATEST(for_trade - $1, 0),
+           updated_at = CURRENT_TIMESTAMP
+         WHERE id = $2`,
+        [quantity, row.id]
+      );
+    }
+
+    await client.query(
+      UPSERT_USER_CARD_SQL,
+      upsertParams(
+        toUserId,
+        printing.card_id,
+        printing.set_code,
+        printing.rarity,
+        quantity,
+        printing.language,
+        { condition: printing.condition, edition: printing.edition }
+      )
+    );
+    return true;
+  }
+
   /**
    * Get specific card from user's collection
    */
   static async getUserCard(userId: number, cardId: number): Promise<UserCard | null> {
     const result = await query(
-      `SELECT uc.id, uc.user_id, uc.card_id as user_card_card_id, uc.set_code, uc.rarity, uc.language, uc.quantity, uc.created_at, uc.updated_at,
+      `SELECT uc.id, uc.user_id, uc.card_id as user_card_card_id, uc.set_code, uc.rarity, uc.language, ${DETAIL_COLUMNS}, uc.quantity, uc.created_at, uc.updated_at,
               c.id as card_db_id, c.card_id as card_api_id, c.name, c.name_fr, c.type, c.frame_type, c.description, c.description_fr,
               c.atk, c.def, c.level, c.race, c.attribute, c.archetype,
               c.card_sets, c.card_images, c.card_prices, c.banlist_info,
@@ -245,6 +481,38 @@ export class UserCardModel {
     return result.rows[0] || null;
   }
 
+  /**
+   * Update per-copy details. Only provided fields are touched; `null` clears
+   * price, date or notes. Changing condition or edition can collide with
+   * another line of the collection (unique key) — the caller handles it.
+   */
+  static async updateDetails(
+    userId: number,
+    userCardId: number,
+    details: UserCardDetails
+  ): Promise<UserCard | null> {
+    const sets: string[] = [];
+    const values: any[] = [];
+    for (const key of ['condition', 'edition', 'purchase_price_eur', 'purchase_date', 'notes'] as const) {
+      if (details[key] !== undefined) {
+        values.push(details[key]);
+        sets.push(`${key} = $${values.length}`);
+      }
+    }
+    if (sets.length === 0) return null;
+
+    values.push(userCardId, userId);
+    const result = await query(
+      `UPDATE user_cards
+       SET ${sets.join(', ')}, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $${values.length - 1} AND user_id = $${values.length}
+       RETURNING *`,
+      values
+    );
+
+    return result.rows[0] || null;
+  }
+
   /**
    * Remove card from collection
    */
@@ -261,7 +529,8 @@ export class UserCardModel {
    * Disponibilité par carte pour l'éditeur de deck.
    * Pour chaque carte possédée par l'user, retourne :
    *   - owned : total quantite (toutes editions/raretes confondues)
-   *   - used_in_decks : somme quantite dans les autres decks de l'user (excluant `excludeDeckId`)
+   *   - used_in_decks : somme quantite dans les autres decks MONTÉS de l'user
+   *     (excluant `excludeDeckId`) — un deck non monté n'immobilise rien
    *   - available : owned - used_in_decks (peut etre 0, jamais negatif)
    *
    * Cle du Record = cards.id (int DB, celui exposé dans DeckCard.card_id côté front).
@@ -283,6 +552,7 @@ export class UserCardModel {
        FROM deck_cards dc
        JOIN decks d ON d.id = dc.deck_id
        WHERE d.user_id = $1
+         AND d.is_built = true
          AND ($2::int IS NULL OR d.id != $2)
        GROUP BY dc.card_id`,
       [userId, excludeDeckId ?? null]
@@ -305,6 +575,58 @@ export class UserCardModel {
     return out;
   }
 
+  /**
+   * Répartition des cartes entre collection et decks : une entrée par carte
+   * présente dans au moins un deck de l'user, avec le détail par deck.
+   * Les cartes sur-allouées (plus d'exemplaires dans les decks montés que
+   * possédés) viennent en tête.
+   */
+  static async getAllocation(userId: number): Promise<CardAllocation[]> {
+    const result = await query(
+      `SELECT dc.card_id, c.name, c.name_fr, c.card_images,
+              d.id AS deck_id, d.name AS deck_name, d.is_built,
+              SUM(dc.quantity)::int AS quantity,
+              COALESCE((SELECT SUM(uc.quantity) FROM user_cards uc
+                        WHERE uc.user_id = $1 AND uc.card_id = dc.card_id), 0)::int AS owned
+       FROM deck_cards dc
+       JOIN decks d ON d.id = dc.deck_id
+       JOIN cards c ON c.id = dc.card_id
+       WHERE d.user_id = $1
+       GROUP BY dc.card_id, c.name, c.name_fr, c.card_images, d.id, d.name, d.is_built
+       ORDER BY d.name`,
+      [userId]
+    );
+
+    const byCard = new Map<number, CardAllocation>();
+    for (const row of result.rows) {
+      const cardId = Number(row.card_id);
+      let entry = byCard.get(cardId);
+      if (!entry) {
+        entry = {
+          card_id: cardId,
+          name: row.name_fr || row.name,
+          image_url_small: row.card_images?.[0]?.image_url_small,
+          owned: Number(row.owned),
+          allocated: 0,
+          planned: 0,
+          over_committed: false,
+          decks: [],
+        };
+        byCard.set(cardId, entry);
+      }
+      const quantity = Number(row.quantity);
+      entry.planned += quantity;
+      if (row.is_built) entry.allocated += quantity;
+      entry.decks.push({ id: row.deck_id, name: row.deck_name, quantity, is_built: !!row.is_built });
+    }
+
+    const out = Array.from(byCard.values());
+    for (const entry of out) entry.over_committed = entry.allocated > entry.owned;
+    return out.sort(
+      (a, b) => Number(b.over_committed) - Number(a.over_committed) || a.name.localeCompare(b.name)
+    );
+  }
+
   /**
    * Agrège les stats de la collection en un seul passage.
    * On récupère seulement les colonnes utiles (rarity, frame_type, card_prices, quantity, created_at)
@@ -312,7 +634,7 @@ export class UserCardModel {
    */
   static async getCollectionStats(userId: number): Promise<CollectionStats> {
     const result = await query(
-      `SELECT uc.rarity, uc.quantity, uc.created_at,
+      `SELECT uc.rarity, uc.quantity, uc.created_at, uc.purchase_price_eur,
               c.frame_type, c.type, c.card_prices
        FROM user_cards uc
        JOIN cards c ON uc.card_id = c.id
@@ -330,6 +652,9 @@ export class UserCardModel {
       recent_added_30d: 0,
       rarities: [],
       rarity_counts: {},
+      cost_basis_eur: 0,
+      unrealized_gain_eur: 0,
+      cost_basis_cards: 0,
     };
 
     const now = Date.now();
@@ -352,6 +677,15 @@ export class UserCardModel {
       const p = cardmarketPriceEUR(row.card_prices);
       if (p) stats.total_value_eur += p * qty;
 
+      // Prix de revient : seulement les lignes dont on connaît le prix payé.
+      // La plus-value ne compare que ce qui est comparable (payé ET coté).
+      if (row.purchase_price_eur !== null && row.purchase_price_eur !== undefined) {
+        const paid = Number(row.purchase_price_eur);
+        stats.cost_basis_eur += paid * qty;
+        stats.cost_basis_cards += qty;
+        if (p) stats.unrealized_gain_eur += (p - paid) * qty;
+      }
+
       const frame = (row.frame_type || '').toLowerCase();
       const type = (row.type || '').toLowerCase();
       if (extraTypes.has(frame)) stats.by_type.extra += qty;
@@ -369,6 +703,8 @@ export class UserCardModel {
     stats.rarity_counts = Object.fromEntries(sortedRarities);
 
     stats.total_value_eur = Math.round(stats.total_value_eur * 100) / 100;
+    stats.cost_basis_eur = Math.round(stats.cost_basis_eur * 100) / 100;
+    stats.unrealized_gain_eur = Math.round(stats.unrealized_gain_eur * 100) / 100;
     return stats;
   }
 
@@ -383,7 +719,16 @@ export class UserCardModel {
       set_code: row.set_code,
       rarity: row.rarity,
       language: row.language || 'EN',
+      condition: row.condition || DEFAULT_CONDITION,
+      edition: row.edition || DEFAULT_EDITION,
+      purchase_price_eur:
+        row.purchase_price_eur !== null && row.purchase_price_eur !== undefined
+          ? Number(row.purchase_price_eur)
+          : null,
+      purchase_date: row.purchase_date || null,
+      notes: row.notes || null,
       quantity: row.quantity,
+      for_trade: row.for_trade ?? 0,
       created_at: row.created_at,
       updated_at: row.updated_at,
       card: {
@@ -52,7 +52,7 @@ export class UserModel {
    */
   static async findById(id: number): Promise<User | null> {
     const result = await query(
-      `SELECT id, username, email, profile_picture, role, is_active, created_at, updated_at
+      `SELECT id, username, email, profile_picture, role, is_active, is_bot, created_at, updated_at
        FROM users
        WHERE id = $1`,
       [id]
@@ -66,7 +66,7 @@ export class UserModel {
    */
   static async findByUsername(username: string): Promise<User | null> {
     const result = await query(
-      `SELECT id, username, email, profile_picture, role, is_active, created_at, updated_at
+      `SELECT id, username, email, profile_picture, role, is_active, is_bot, created_at, updated_at
        FROM users
        WHERE username = $1`,
       [username]
@@ -75,6 +75,21 @@ export class UserModel {
     return result.rows[0] || null;
   }
 
+  /**
+   * Find the duel bot account (migration 033)
+   */
+  static async findBot(): Promise<User | null> {
+    const result = await query(
+      `SELECT id, username, profile_picture, is_bot, created_at, updated_at
+       FROM users
+       WHERE is_bot
+       ORDER BY id
+       LIMIT 1`
+    );
+
+    return result.rows[0] || null;
+  }
+
   /**
    * Search users by username
    */
@@ -83,7 +98,7 @@ export class UserModel {
       const result = await query(
         `SELECT id, username, email, profile_picture, created_at, updated_at
          FROM users
-         WHERE username ILIKE $1 AND id != $2
+         WHERE username ILIKE $1 AND id != $2 AND NOT is_bot
          ORDER BY username
          LIMIT $3`,
         [`%${searchTerm}%`, excludeUserId, limit]
@@ -94,7 +109,7 @@ export class UserModel {
     const result = await query(
       `SELECT id, username, profile_picture, created_at, updated_at
        FROM users
-       WHERE username ILIKE $1
+       WHERE username ILIKE $1 AND NOT is_bot
        ORDER BY username
        LIMIT $2`,
       [`%${searchTerm}%`, limit]
@@ -201,7 +216,7 @@ export class UserModel {
       const result = await query(
         `SELECT id, username, profile_picture, created_at, updated_at
          FROM users
-         WHERE id != $1
+         WHERE id != $1 AND NOT is_bot
          ORDER BY created_at DESC
          LIMIT $2`,
         [excludeUserId, limit]
@@ -212,6 +227,7 @@ export class UserModel {
     const result = await query(
       `SELECT id, username, profile_picture, created_at, updated_at
        FROM users
+       WHERE NOT is_bot
        ORDER BY created_at DESC
        LIMIT $1`,
       [limit]
@@ -28,6 +28,12 @@ router.post('/decks/:id/unshare', AdminController.forceUnshareDeck);
 router.get('/comments', AdminController.listComments);
 router.delete('/comments/:id', AdminController.deleteComment);
 
+// ── Duel puzzles
+router.get('/puzzles', AdminController.listPuzzles);
+router.post('/puzzles', AdminController.createPuzzle);
+router.put('/puzzles/:id', AdminController.updatePuzzle);
+router.delete('/puzzles/:id', AdminController.deletePuzzle);
+
 // ── Application logs (page /admin/logs)
 router.get('/logs', AdminController.listLogs);
 
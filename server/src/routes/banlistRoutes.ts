@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { BanlistController } from '../controllers/banlistController';
+
+const router = Router();
+
+// Public : les listes servent aussi aux decks partagés
+router.get('/', BanlistController.list);
+router.post('/import', authenticateToken, BanlistController.importLflist);
+router.get('/:id', BanlistController.getById);
+router.get('/:id/impact', authenticateToken, BanlistController.getImpact);
+router.delete('/:id', authenticateToken, BanlistController.remove);
+
+export default router;
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { BinderController } from '../controllers/binderController';
+
+const router = Router();
+
+router.use(authenticateToken);
+
+// Routes fixes avant `/:userId`.
+router.get('/me', BinderController.getMine);
+router.get('/matches', BinderController.getMatches);
+router.put('/haves/:userCardId', BinderController.setHave);
+router.put('/wants', BinderController.setWant);
+router.post('/wants/bulk', BinderController.addWants);
+router.delete('/wants/:cardId', BinderController.removeWant);
+
+router.get('/:userId', BinderController.getUserBinder);
+
+export default router;
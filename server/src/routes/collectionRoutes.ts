@@ -11,6 +11,7 @@ router.use(authenticateToken);
 
 // Search route - search card by code (Card ID or Set Code)
 router.get('/search', CollectionController.searchCard);
+router.get('/catalog', CollectionController.searchCatalog);
 
 // Card scanning (Claude Vision) — rate-limited per user to cap Anthropic spend
 router.post(
@@ -26,8 +27,13 @@ router.get('/scan/diagnose', CollectionController.diagnoseScan);
 // Collection routes
 router.get('/stats', CollectionController.getCollectionStats);
 router.get('/availability', CollectionController.getAvailability);
+router.get('/allocation', CollectionController.getAllocation);
+router.get('/value-history', CollectionController.getValueHistory);
+router.get('/price-history/:cardId', CollectionController.getCardPriceHistory);
 router.post('/cards/add', CollectionController.addCardByCode);
 router.get('/cards', CollectionController.getUserCollection);
+router.get('/export', CollectionController.exportCollectionCsv);
+router.post('/import', CollectionController.importCollectionCsv);
 router.get('/cards/:id', CollectionController.getCardDetail);
 router.delete('/cards/:id', CollectionController.removeCard);
 router.put('/cards/:id/quantity', CollectionController.updateQuantity);
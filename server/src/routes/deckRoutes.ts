@@ -7,9 +7,25 @@ const router = Router();
 
 // Public routes (with optional auth for user-specific data)
 router.get('/public', optionalAuth, DeckController.getPublicDecks);
+router.get('/archetypes', DeckController.getDeckFacets);
 router.get('/shared/:shareToken', DeckController.getSharedDeck); // Guest access - no auth required
+router.get('/shared/:shareToken/versions', DeckController.getSharedDeckVersions);
+// Aperçu Open Graph d'un lien de partage et son image.
+router.get('/shared/:shareToken/preview', DeckController.getSharedDeckPreview);
+router.get('/shared/:shareToken/image', DeckController.getSharedDeckImage);
+router.post('/shared/:shareToken/fork', authenticateToken, DeckController.forkSharedDeck);
 router.get('/:id', optionalAuth, DeckController.getDeckById);
 router.get('/:id/validate', optionalAuth, DeckController.validateDeck);
+router.get('/:id/export', optionalAuth, DeckController.exportDeck);
+// Decklist d'inscription PDF, avec planches de proxys en option.
+router.get('/:id/pdf', optionalAuth, DeckController.exportDeckPdf);
+router.get('/:id/image', optionalAuth, DeckController.getDeckImage);
+// Historique : une version par sauvegarde, diff entre deux versions.
+router.get('/:id/versions', optionalAuth, DeckController.getDeckVersions);
+router.get('/:id/versions/diff', optionalAuth, DeckController.diffDeckVersions);
+router.get('/:id/forks', optionalAuth, DeckController.getDeckForks);
+router.get('/:id/consistency', optionalAuth, DeckController.getDeckConsistency);
+router.get('/:id/consistency/sample', optionalAuth, DeckController.sampleDeckConsistency);
 
 // Protected routes
 router.get('/', authenticateToken, DeckController.getUserDecks);
@@ -22,6 +38,24 @@ router.put('/:id/cards', authenticateToken, DeckController.replaceDeckCards);
 router.delete('/:id/cards', authenticateToken, DeckController.clearDeckCards);
 router.delete('/:id/cards/:cardId', authenticateToken, DeckController.removeCardFromDeck);
 router.put('/:id/cards/:cardId', authenticateToken, DeckController.updateCardQuantity);
+// Liste d'achats : deck − collection (json, csv ou txt).
+router.get('/:id/shortfall', authenticateToken, DeckController.getShortfall);
+router.post('/:id/versions/:version/restore', authenticateToken, DeckController.restoreDeckVersion);
+// Fork : copie dans mes decks avec lien vers l'original, puis suivi de l'amont.
+router.post('/:id/fork', authenticateToken, DeckController.forkDeck);
+router.get('/:id/upstream', authenticateToken, DeckController.getUpstreamChanges);
+router.put('/:id/consistency', authenticateToken, DeckController.updateDeckConsistency);
+// Plans de side par matchup (propriétaire seulement : rien à montrer à l'adversaire).
+router.get('/:id/side-plans', authenticateToken, DeckController.getDeckSidePlans);
+router.put('/:id/side-plans', authenticateToken, DeckController.updateDeckSidePlans);
+// Lignes de combo du labo goldfish (enregistrées via POST /duels/:id/engine/lab/lines).
+router.get('/:id/combo-lines', authenticateToken, DeckController.getDeckComboLines);
+router.get('/:id/combo-lines/:lineId/replay', authenticateToken, DeckController.getComboLineReplay);
+router.delete('/:id/combo-lines/:lineId', authenticateToken, DeckController.deleteComboLine);
+
+// Import .ydk / ydke:// — `preview` résout sans écrire, `/:id/import` remplace le contenu.
+router.post('/import/preview', authenticateToken, DeckController.previewDeckImport);
+router.post('/:id/import', authenticateToken, DeckController.importDeck);
 
 // Share routes
 router.post('/:id/share', authenticateToken, DeckController.generateShareLink);
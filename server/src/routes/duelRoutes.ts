@@ -17,6 +17,15 @@ router.get('/matches/:id',                       authenticateToken, DuelMatchCon
 router.post('/matches/:matchId/side-deck/submit', authenticateToken, DuelMatchController.submitSideDeck);
 router.post('/matches/:matchId/next-game',       authenticateToken, DuelMatchController.nextGame);
 
+// Duel contre le bot — avant `/:id` pour la même raison.
+router.get('/bot/policies', authenticateToken, DuelController.botPolicies);
+router.post('/bot',         authenticateToken, DuelController.challengeBot);
+// Labo de combos (goldfish) — idem.
+router.post('/goldfish',    authenticateToken, DuelController.startGoldfish);
+// Puzzles — idem.
+router.get('/puzzles',            authenticateToken, DuelController.listPuzzles);
+router.post('/puzzles/:id/start', authenticateToken, DuelController.startPuzzle);
+
 router.post('/',           authenticateToken, DuelController.challenge);
 router.get('/',            authenticateToken, DuelController.listMyDuels);
 router.get('/:id',         authenticateToken, DuelController.getDuel);
@@ -42,8 +51,15 @@ router.post('/:id/engine/surrender',  authenticateToken, DuelEngineController.su
 router.delete('/:id/engine',          authenticateToken, DuelEngineController.close);
 router.post('/:id/engine/announce-card/search',
                                       authenticateToken, DuelEngineController.announceSearch);
+// ─── Labo de combos : historique, retour arrière, lignes enregistrées
+router.get('/:id/engine/lab',         authenticateToken, DuelEngineController.labHistory);
+router.post('/:id/engine/lab/undo',   authenticateToken, DuelEngineController.undo);
+router.post('/:id/engine/lab/lines',  authenticateToken, DuelEngineController.saveLabLine);
 // ─── F7 · vue spectateur (lecture seule)
 router.get('/:id/engine/spectate',    authenticateToken, DuelEngineController.spectate);
+// ─── Rejeu pas à pas d'une partie finie (graine + journal)
+router.get('/:id/replay',             authenticateToken, DuelEngineController.replay);
+router.get('/:id/replay/yrpx',        authenticateToken, DuelEngineController.exportYrpx);
 // ─── F6 · reprise manuelle (admin)
 router.post('/:id/engine/rehydrate',  authenticateToken, DuelEngineController.rehydrate);
 // ─── Bloc 6 P1 · validation banlist + max 3 exemplaires en amont
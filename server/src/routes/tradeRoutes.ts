@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { TradeController } from '../controllers/tradeController';
+
+const router = Router();
+
+router.use(authenticateToken);
+
+// `/partners` avant `/:id`, sinon « partners » serait lu comme un identifiant.
+router.get('/partners', TradeController.getPartners);
+router.get('/partners/:userId/cards', TradeController.getPartnerCards);
+
+router.get('/', TradeController.list);
+router.post('/', TradeController.create);
+router.get('/:id', TradeController.getTrade);
+router.post('/:id/counter', TradeController.counter);
+router.post('/:id/accept', TradeController.accept);
+router.post('/:id/decline', TradeController.decline);
+router.post('/:id/cancel', TradeController.cancel);
+
+export default router;
@@ -0,0 +1,122 @@
+/**
+ * Synchro du catalogue complet YGOProDeck vers `cards` + `card_printings`.
+ *
+ * Une fois le miroir rempli, `YGOProDeckService` répond depuis Postgres
+ * (recherche par code, par nom, scan) et l'API n'est plus sur le chemin
+ * d'une requête utilisateur.
+ *
+ * Incrémentale à deux niveaux :
+ *   1. la version de la base YGOProDeck (`checkDBVer.php`) : inchangée depuis
+ *      la dernière synchro, on ne télécharge rien ;
+ *   2. l'empreinte de chaque carte (`catalogHash`) : seules les cartes
+ *      nouvelles ou modifiées sont réécrites. Les prix, hors empreinte,
+ *      passent pour les autres dans une mise à jour groupée à part.
+ *
+ * `dryRun` télécharge et compare sans rien écrire ; le rapport (journalisé
+ * dans `card_catalog_syncs`) dit ce qu'une vraie synchro changerait.
+ */
+
+import { CardModel } from '../models/cardModel';
+import { CardCatalogModel } from '../models/cardCatalogModel';
+import { YGOProDeckService } from './ygoprodeckService';
+import { cardPrintings, planCatalogSync } from '../utils/cardCatalog';
+
+const WRITE_BATCH = 200;
+const PRICE_BATCH = 1000;
+const SAMPLE_SIZE = 20;
+
+export interface CardCatalogSyncReport {
+  dry_run: boolean;
+  skipped: boolean;
+  db_version: string | null;
+  previous_version: string | null;
+  total: number;
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  /** Cartes inchangées dont les prix ont bougé (réécrits, hors essai à blanc). */
+  repriced: number;
+  /** Impressions des cartes nouvelles ou modifiées. */
+  printings: number;
+  /** Quelques noms de cartes nouvelles / modifiées, pour relire un essai à blanc. */
+  sample: { inserted: string[]; updated: string[] };
+  duration_ms: number;
+}
+
+export async function syncCardCatalog(
+  options: { dryRun?: boolean; force?: boolean } = {}
+): Promise<CardCatalogSyncReport> {
+  const dryRun = !!options.dryRun;
+  const startedAt = new Date();
+  const last = await CardCatalogModel.getLastSync();
+  const version = await YGOProDeckService.getDatabaseVersion();
+
+  const report: CardCatalogSyncReport = {
+    dry_run: dryRun,
+    skipped: false,
+    db_version: version,
+    previous_version: last?.db_version ?? null,
+    total: 0,
+    inserted: 0,
+    updated: 0,
+    unchanged: 0,
+    repriced: 0,
+    printings: 0,
+    sample: { inserted: [], updated: [] },
+    duration_ms: 0,
+  };
+
+  const log = (status: 'success' | 'skipped' | 'failed', error: string | null = null) =>
+    CardCatalogModel.recordSync({
+      started_at: startedAt,
+      db_version: version,
+      dry_run: dryRun,
+      status,
+      total: report.total,
+      inserted: report.inserted,
+      updated: report.updated,
+      unchanged: report.unchanged,
+      printings: report.printings,
+      error,
+    });
+
+  if (!options.force && version !== null && last?.db_version === version) {
+    report.skipped = true;
+    report.duration_ms = Date.now() - startedAt.getTime();
+    await log('skipped');
+    return report;
+  }
+
+  try {
+    const cards = await YGOProDeckService.getFullCatalog();
+    const plan = planCatalogSync(cards, await CardCatalogModel.getHashes());
+
+    report.total = cards.length;
+    report.inserted = plan.inserts.length;
+    report.updated = plan.updates.length;
+    report.unchanged = plan.unchanged.length;
+    report.sample.inserted = plan.inserts.slice(0, SAMPLE_SIZE).map((c) => c.card.name);
+    report.sample.updated = plan.updates.slice(0, SAMPLE_SIZE).map((c) => c.card.name);
+
+    const changed = [...plan.inserts, ...plan.updates];
+    report.printings = changed.reduce((n, c) => n + cardPrintings(c.card).length, 0);
+
+    if (!dryRun) {
+      for (let i = 0; i < changed.length; i += WRITE_BATCH) {
+        const batch = changed.slice(i, i + WRITE_BATCH);
+        for (const { card } of batch) await CardModel.upsert(card);
+        await CardCatalogModel.setHashes(batch.map((c) => ({ card_id: c.card.card_id, hash: c.hash })));
+      }
+      for (let i = 0; i < plan.unchanged.length; i += PRICE_BATCH) {
+        report.repriced += await CardCatalogModel.updatePrices(plan.unchanged.slice(i, i + PRICE_BATCH));
+      }
+    }
+  } catch (error) {
+    await log('failed', error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+
+  report.duration_ms = Date.now() - startedAt.getTime();
+  await log('success');
+  return report;
+}
@@ -0,0 +1,75 @@
+import axios from 'axios';
+import sharp from 'sharp';
+import logger from '../utils/logger';
+import type { PdfImage } from '../utils/pdf';
+
+/**
+ * Images de cartes prêtes à poser dans un PDF ou une image de deck.
+ *
+ * Les URLs viennent de `cards.card_images` (CDN YGOProDeck). Chaque image est
+ * réduite à la largeur demandée — 420 px par défaut, ~180 dpi à 59 mm, assez
+ * pour un proxy — et réencodée en JPEG baseline RGB, le seul format que le PDF
+ * lit tel quel. Les derniers résultats restent en mémoire : réimprimer un deck
+ * ne retélécharge rien.
+ */
+
+const imageHttp = axios.create({ timeout: 10_000, responseType: 'arraybuffer' });
+
+const PROXY_WIDTH_PX = 420;
+const CACHE_SIZE = 300;
+const CONCURRENCY = 4;
+
+const cache = new Map<string, PdfImage>();
+
+async function loadImage(url: string, width: number): Promise<PdfImage | null> {
+  const key = `${width}:${url}`;
+  const hit = cache.get(key);
+  if (hit) {
+    // Réinsertion : la Map garde l'ordre d'insertion, les plus anciennes sortent en premier
+    cache.delete(key);
+    cache.set(key, hit);
+    return hit;
+  }
+
+  try {
+    const response = await imageHttp.get<ArrayBuffer>(url);
+    const { data, info } = await sharp(Buffer.from(response.data), { failOn: 'none' })
+      .resize({ width, withoutEnlargement: true })
+      .removeAlpha()
+      .toColourspace('srgb')
+      .jpeg({ quality: 85, progressive: false })
+      .toBuffer({ resolveWithObject: true });
+
+    const image = { data, width: info.width, height: info.height };
+    cache.set(key, image);
+    if (cache.size > CACHE_SIZE) cache.delete(cache.keys().next().value as string);
+    return image;
+  } catch (err) {
+    logger.warn('Card image download failed', {
+      url,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return null;
+  }
+}
+
+/**
+ * Charge les images (quatre téléchargements à la fois). Une URL en échec vaut
+ * null : l'appelant imprime alors un cadre à la place.
+ */
+export async function fetchCardImages(
+  urls: string[],
+  width: number = PROXY_WIDTH_PX
+): Promise<Map<string, PdfImage | null>> {
+  const unique = [...new Set(urls)];
+  const result = new Map<string, PdfImage | null>();
+  let next = 0;
+  const worker = async () => {
+    while (next < unique.length) {
+      const url = unique[next++];
+      result.set(url, await loadImage(url, width));
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, unique.length) }, worker));
+  return result;
+}
@@ -1,6 +1,8 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { Card, UserCard } from '../../../shared/types';
+import { Card, DeckLegalityViolation, UserCard } from '../../../shared/types';
 import { isExtraDeckCard } from '../../../shared/cards';
+import { checkDeckRules, describeViolation } from '../../../shared/deckRules';
+import { limitFor, type BanlistLimits } from '../utils/banlist';
 
 const anthropic = new Anthropic({
   apiKey: process.env.CLAUDE_API_KEY,
@@ -62,6 +64,8 @@ interface NormalizedAIDeckResponse {
     priority: 'high' | 'medium' | 'low';
   }[];
   explanation: string;
+  /** Violations restantes selon les règles communes (`shared/deckRules.ts`). */
+  violations: DeckLegalityViolation[];
 }
 
 // La classification vit dans shared/cards.ts. Une liste fermée de libellés
@@ -81,13 +85,21 @@ interface CardInfo {
   archetype?: string;
   availableQuantity: number;
   isExtraDeck: boolean;
+  code: string;
+  frameType?: string;
+  /** Exemplaires permis par la banlist (3 hors liste). */
+  limit: number;
 }
 
+/**
+ * `banlist` : liste du format visé ; null = statut TCG en cache sur les cartes.
+ */
 export async function buildDeckWithAI(
   userCards: UserCard[],
   prompt: string,
   existingMainDeck?: { cardId: number; cardName: string; quantity: number }[],
-  existingExtraDeck?: { cardId: number; cardName: string; quantity: number }[]
+  existingExtraDeck?: { cardId: number; cardName: string; quantity: number }[],
+  banlist: BanlistLimits | null = null
 ): Promise<NormalizedAIDeckResponse> {
   // Group cards by card ID and sum quantities (user may have same card from different sets)
   const cardMap = new Map<number, CardInfo>();
@@ -99,6 +111,7 @@ export async function buildDeckWithAI(
     if (existing) {
       existing.availableQuantity += uc.quantity;
     } else {
+      const code = String(Number(uc.card.card_id));
       cardMap.set(uc.card.id, {
         id: uc.card.id,
         name: uc.card.name,
@@ -112,6 +125,9 @@ export async function buildDeckWithAI(
         archetype: uc.card.archetype,
         availableQuantity: uc.quantity,
         isExtraDeck: isExtraDeckCard(uc.card),
+        code,
+        frameType: uc.card.frame_type,
+        limit: limitFor(banlist, code, uc.card.banlist_info?.ban_tcg),
       });
     }
   }
@@ -121,8 +137,10 @@ export async function buildDeckWithAI(
   const extraDeckCards: CardInfo[] = [];
 
   cardMap.forEach(card => {
-    // Cap available quantity at 3 (deck building rule)
-    card.availableQuantity = Math.min(card.availableQuantity, 3);
+    // Cap available quantity at the banlist limit (3 for unlisted cards);
+    // Forbidden cards are never offered
+    card.availableQuantity = Math.min(card.availableQuantity, card.limit);
+    if (card.limit === 0) return;
 
     if (card.isExtraDeck) {
       extraDeckCards.push(card);
@@ -400,7 +418,7 @@ function validateAndFixDeckResponse(
     const nameCount = cardNameCount.get(available.name) || 0;
 
     // Calculate max allowed: min of (3 - already used, available in collection)
-    const maxByName = Math.max(0, 3 - nameCount);
+    const maxByName = Math.max(0, available.limit - nameCount);
     const maxByCollection = available.availableQuantity;
     const maxAllowed = Math.min(maxByName, maxByCollection);
 
@@ -441,7 +459,7 @@ function validateAndFixDeckResponse(
     const nameCount = cardNameCount.get(available.name) || 0;
 
     // Calculate max allowed
-    const maxByName = Math.max(0, 3 - nameCount);
+    const maxByName = Math.max(0, available.limit - nameCount);
     const maxByCollection = available.availableQuantity;
     const maxAllowed = Math.min(maxByName, maxByCollection);
 
@@ -501,10 +519,10 @@ function validateAndFixDeckResponse(
         continue;
       }
 
-      // Current quantity in deck vs max allowed (3)
+      // Current quantity in deck vs max allowed (banlist limit)
       const currentQtyInDeck = card.quantity;
-      // Force increase to 3 regardless of collection (will be capped later if needed)
-      const targetQty = 3;
+      // Force increase to the limit regardless of collection (will be capped later if needed)
+      const targetQty = available.limit;
 
       // How many more can we add for this specific card?
       const canAdd = targetQty - currentQtyInDeck;
@@ -531,7 +549,7 @@ function validateAndFixDeckResponse(
       availableCards.forEach((card, cardId) => {
         if (!card.isExtraDeck && !usedCardIds.has(cardId)) {
           const nameCount = cardNameCount.get(card.name) || 0;
-          if (nameCount < 3) {
+          if (nameCount < card.limit) {
             availableForFill.push(card);
           }
         }
@@ -563,7 +581,7 @@ function validateAndFixDeckResponse(
         if (mainDeckTotal >= 40) break;
 
         const nameCount = cardNameCount.get(card.name) || 0;
-        const maxByName = Math.max(0, 3 - nameCount);
+        const maxByName = Math.max(0, card.limit - nameCount);
         const maxByCollection = card.availableQuantity;
         const maxAllowed = Math.min(maxByName, maxByCollection);
 
@@ -611,14 +629,37 @@ function validateAndFixDeckResponse(
     warnings.push(`⚠️ L'extra deck a ${extraDeckTotal} cartes (maximum: 15). Retirez des cartes.`);
   }
 
+  // Final check with the shared deck rules: what the editor will show
+  const selectedCards = [...validMainDeck, ...validExtraDeck];
+  const limitByCode = new Map<string, number>();
+  availableCards.forEach((card) => limitByCode.set(card.code, card.limit));
+  const { violations } = checkDeckRules(
+    selectedCards.map((c) => {
+      const info = availableCards.get(c.cardId)!;
+      return {
+        card_code: info.code,
+        name: info.name,
+        type: info.type,
+        frame_type: info.frameType,
+        section: c.isExtraDeck ? ('extra' as const) : ('main' as const),
+        quantity: c.quantity,
+      };
+    }),
+    { limitOf: (card) => limitByCode.get(card.card_code) ?? 3 }
+  );
+  for (const v of violations) {
+    warnings.push(`⚠️ ${describeViolation(v)}`);
+  }
+
   if (warnings.length > 0) {
     explanation = warnings.join('\n') + '\n\n' + explanation;
   }
 
   return {
-    selectedCards: [...validMainDeck, ...validExtraDeck],
+    selectedCards,
     suggestions: response.suggestions || [],
     explanation,
+    violations,
   };
 }
 
@@ -0,0 +1,70 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type { Deck } from '../../../shared/types';
+import { DeckVersionModel } from '../models/deckVersionModel';
+import { DeckImageFormat, TILE, layoutDeckImage, renderDeckImage } from '../utils/deckImage';
+import logger from '../utils/logger';
+import { fetchCardImages } from './cardImageService';
+
+/**
+ * Image d'un deck, mise en cache sur disque par version.
+ *
+ * La clé reprend le numéro de la dernière version (cf. DeckVersionModel) et
+ * une empreinte de son contenu, du nom et du propriétaire : les éditions
+ * regroupées dans une même version et un renommage produisent une nouvelle
+ * image. À chaque rendu, les images des versions précédentes sont effacées.
+ * Un rendu dont une carte n'a pas pu être téléchargée n'est pas conservé.
+ */
+
+const CACHE_DIR = process.env.DECK_IMAGE_CACHE_DIR || path.join(process.cwd(), 'cache', 'deck-images');
+
+async function cacheKey(deck: Deck): Promise<string> {
+  const latest = await DeckVersionModel.findLatest(deck.id);
+  const fingerprint = crypto
+    .createHash('sha1')
+    .update(JSON.stringify([latest?.cards ?? [], deck.name, deck.user?.username ?? '']))
+    .digest('hex')
+    .slice(0, 12);
+  return `${deck.id}-v${latest?.version ?? 0}-${fingerprint}`;
+}
+
+async function dropStale(deckId: number, keep: string): Promise<void> {
+  const files = await fs.readdir(CACHE_DIR).catch(() => [] as string[]);
+  await Promise.all(
+    files
+      .filter((f) => f.startsWith(`${deckId}-v`) && !f.startsWith(`${keep}.`))
+      .map((f) => fs.unlink(path.join(CACHE_DIR, f)).catch(() => {}))
+  );
+}
+
+export async function getDeckImage(deck: Deck, format: DeckImageFormat): Promise<Buffer> {
+  const key = await cacheKey(deck);
+  const file = path.join(CACHE_DIR, `${key}.${format}`);
+
+  const cached = await fs.readFile(file).catch(() => null);
+  if (cached) return cached;
+
+  const urls = layoutDeckImage(deck)
+    .tiles.map((t) => t.url)
+    .filter((url): url is string => !!url);
+  const images = await fetchCardImages(urls, TILE.width);
+  const image = await renderDeckImage(deck, images, format);
+
+  // Une carte en échec est imprimée en cadre vide : cette image-là n'est pas
+  // mise en cache, la prochaine demande retentera le téléchargement.
+  if ([...images.values()].some((img) => img === null)) return image;
+
+  try {
+    await fs.mkdir(CACHE_DIR, { recursive: true });
+    await dropStale(deck.id, key);
+    await fs.writeFile(file, image);
+  } catch (err) {
+    // Cache en lecture seule ou disque plein : l'image reste servie
+    logger.warn('Deck image cache write failed', {
+      deckId: deck.id,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+  return image;
+}
@@ -0,0 +1,129 @@
+import type { Server as SocketServer } from 'socket.io';
+import type { Duel } from '../../../../shared/types';
+import type { DuelSeat } from '../../../../shared/duelView';
+import { DuelModel } from '../../models/duelModel';
+import { DuelClockModel } from '../../models/duelClockModel';
+import logger from '../../utils/logger';
+import { destroyEngineDuel, isDuelLive, viewEngineDuel } from '../duelEngine/engineClient';
+import { notifyEngineUpdate, playEngineChoice } from '../duelEngine/play';
+import { botPolicy, cardKey, isBotPolicyId } from './policies';
+
+/**
+ * Pilote du bot : tant que l'invite courante s'adresse à son siège, il la lit,
+ * demande une décision à sa politique et la joue via `playEngineChoice` —
+ * le chemin d'un clic humain, journal et chrono compris.
+ *
+ * Déclenché sans attendre (`void driveBot(...)`) après le lancement du moteur,
+ * après chaque coup humain et à chaque lecture de la vue : ce dernier appel
+ * rattrape les cas où le bot a la main sans tourner (reprise après un
+ * redémarrage, coup humain arrivé pendant qu'il finissait le sien).
+ *
+ * Le bot ne gèle jamais une partie : politique muette, réponses refusées en
+ * série ou tour sans fin, il abandonne et le joueur gagne.
+ */
+
+/**
+ * Temps de réflexion affiché — sans lui, le plateau saute d'un coup à l'autre.
+ * Le goldfish n'a rien à montrer : il répond sans attendre, sans quoi chaque
+ * fenêtre de chaîne du labo de combos ralentirait le joueur.
+ */
+const THINK_DELAY_MS = 350;
+
+/** Refus successifs du moteur tolérés sur une même invite. */
+const MAX_RETRIES = 3;
+
+/** Décisions enchaînées sans rendre la main ; au-delà, le bot tourne en rond. */
+const MAX_STEPS = 400;
+
+/** Un seul pilote par duel : les déclencheurs se recouvrent volontiers. */
+const running = new Set<number>();
+
+/** Effets déjà activés par le bot, par duel, pour le tour en cours. */
+const activatedByDuel = new Map<number, { turn: number; keys: Set<string> }>();
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/** Le pilote joue-t-il en ce moment dans ce duel ? */
+export function isBotDriving(duelId: number): boolean {
+  return running.has(duelId);
+}
+
+/** Siège du bot : c'est toujours l'adversaire défié (`opponent_id`). */
+function botSeatOf(duel: Duel): DuelSeat {
+  if (duel.first_player_id) return duel.first_player_id === duel.opponent_id ? 0 : 1;
+  return 1;
+}
+
+function activatedThisTurn(duelId: number, turn: number): Set<string> {
+  const current = activatedByDuel.get(duelId);
+  if (current && current.turn === turn) return current.keys;
+  const fresh = { turn, keys: new Set<string>() };
+  activatedByDuel.set(duelId, fresh);
+  return fresh.keys;
+}
+
+/** Le bot rend les armes : même issue qu'un abandon humain (`surrender`). */
+async function concede(io: SocketServer | undefined, duel: Duel, why: string): Promise<void> {
+  const winnerId = duel.challenger_id;
+  logger.warn(`[DUEL_BOT] duel ${duel.id} — le bot abandonne (${why})`);
+  await DuelModel.finish(duel.id, winnerId);
+  await DuelClockModel.stop(duel.id);
+  await destroyEngineDuel(duel.id).catch(() => undefined);
+  notifyEngineUpdate(io, duel.id);
+  io?.to(`duel:${duel.id}`).emit('duel:finished', {
+    duelId: duel.id,
+    winnerId,
+    reason: 'surrender',
+  });
+}
+
+export async function driveBot(io: SocketServer | undefined, duelId: number): Promise<void> {
+  if (running.has(duelId)) return;
+  running.add(duelId);
+  let duel: Duel | null = null;
+  try {
+    duel = await DuelModel.findById(duelId);
+    if (!duel || duel.status !== 'active' || !isBotPolicyId(duel.bot_policy)) return;
+    const policy = botPolicy(duel.bot_policy);
+    const seat = botSeatOf(duel);
+
+    let retries = 0;
+    let lastRetryAt: number | undefined;
+    for (let step = 0; ; step++) {
+      if (!isDuelLive(duelId)) return;
+      const state = await viewEngineDuel(duelId, seat);
+      if (state.status !== 'awaiting_response' || !state.prompt || state.prompt.seat !== seat) {
+        if (state.status === 'ended') activatedByDuel.delete(duelId);
+        return;
+      }
+
+      if (state.lastRetry && state.lastRetry.at !== lastRetryAt) {
+        lastRetryAt = state.lastRetry.at;
+        retries++;
+      }
+      if (retries > MAX_RETRIES) return await concede(io, duel, `réponses refusées : ${state.prompt.kind}`);
+      if (step >= MAX_STEPS) return await concede(io, duel, `${MAX_STEPS} décisions sans rendre la main`);
+
+      const activated = activatedThisTurn(duelId, state.board.turn);
+      const choice = policy.decide({ prompt: state.prompt, board: state.board, activated, retries });
+      if (!choice) return await concede(io, duel, `invite sans réponse : ${state.prompt.kind}`);
+
+      for (const id of choice.optionIds) {
+        const option = state.prompt.options.find((o) => o.id === id);
+        if (option && id.startsWith('activate:')) activated.add(cardKey(option));
+      }
+
+      if (policy.id !== 'pass') await sleep(THINK_DELAY_MS);
+      const after = await playEngineChoice(io, duel, seat, choice);
+      if (after.status === 'ended') {
+        activatedByDuel.delete(duelId);
+        return;
+      }
+    }
+  } catch (err) {
+    logger.error(`[DUEL_BOT] duel ${duelId} : ${(err as Error).message}`);
+    if (duel && isDuelLive(duelId)) await concede(io, duel, 'erreur du pilote').catch(() => undefined);
+  } finally {
+    running.delete(duelId);
+  }
+}
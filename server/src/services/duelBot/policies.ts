@@ -0,0 +1,394 @@
+import type {
+  DuelBoardView,
+  DuelBotPolicyId,
+  DuelBotPolicyInfo,
+  DuelCardView,
+  DuelChoice,
+  DuelPrompt,
+  DuelPromptOption,
+} from '../../../../shared/duelView';
+
+/**
+ * Politiques de jeu du bot.
+ *
+ * Une politique ne voit que ce que voit un joueur humain : sa `DuelPrompt` et
+ * sa vue du plateau (main adverse cachée comprise). Elle répond par une
+ * `DuelChoice`, qui passe ensuite par le même `chooseInEngine` qu'un clic —
+ * aucune structure d'ocgcore n'apparaît ici, comme dans un front.
+ *
+ * Renvoyer `null` veut dire « je ne sais pas répondre » : le pilote
+ * (`driver.ts`) abandonne alors la partie plutôt que de la geler.
+ */
+
+export interface BotContext {
+  prompt: DuelPrompt;
+  board: DuelBoardView;
+  /** Cartes déjà activées ce tour-ci (`cardKey`) — évite de relancer en boucle un effet sans coût. */
+  activated: ReadonlySet<string>;
+  /** Nombre de réponses déjà refusées par le moteur pour cette invite. */
+  retries: number;
+}
+
+export interface BotPolicy extends DuelBotPolicyInfo {
+  decide(ctx: BotContext): DuelChoice | null;
+}
+
+// Emplacements ocgcore (`OcgLocation`), en brut comme dans `session.ts`.
+const LOCATION_HAND = 0x2;
+const LOCATION_MZONE = 0x4;
+const LOCATION_GRAVE = 0x10;
+const LOCATION_REMOVED = 0x20;
+
+/** Position « attaque face visible » (`OcgPosition.FACEUP_ATTACK`). */
+const POSITION_FACEUP_ATTACK = 0x1;
+
+/** Identifie une carte d'une invite à l'autre : code et emplacement. */
+export function cardKey(option: DuelPromptOption): string {
+  return `${option.code ?? 0}:${option.controller ?? '-'}:${option.location ?? 0}:${option.sequence ?? 0}`;
+}
+
+function prefixed(prompt: DuelPrompt, prefix: string): DuelPromptOption[] {
+  return prompt.options.filter((o) => o.id.startsWith(`${prefix}:`));
+}
+
+function byId(prompt: DuelPrompt, id: string): DuelPromptOption | undefined {
+  return prompt.options.find((o) => o.id === id);
+}
+
+function isMine(option: DuelPromptOption, board: DuelBoardView): boolean {
+  return option.controller === undefined || option.controller === board.seat;
+}
+
+/** La carte désignée par une option, quand la vue la connaît. */
+function cardOf(option: DuelPromptOption, board: DuelBoardView): DuelCardView | undefined {
+  const side = isMine(option, board) ? board.me : board.opponent;
+  const seq = option.sequence ?? -1;
+  const sameCode = (c: DuelCardView | null | undefined) => !!c && c.code === option.code;
+  switch (option.location) {
+    case LOCATION_MZONE:
+      return side.monsters[seq] ?? undefined;
+    case LOCATION_HAND:
+      return sameCode(side.hand[seq]) ? side.hand[seq] : side.hand.find(sameCode);
+    case LOCATION_GRAVE:
+      return side.graveyard.find(sameCode);
+    case LOCATION_REMOVED:
+      return side.banished.find(sameCode);
+    default:
+      return undefined;
+  }
+}
+
+/** ATK de la carte, -1 quand inconnue (magie, piège, carte cachée). */
+function attackOf(option: DuelPromptOption, board: DuelBoardView): number {
+  return cardOf(option, board)?.attack ?? -1;
+}
+
+/** La valeur qu'un attaquant doit dépasser : ATK en attaque, DEF en défense. */
+function guardOf(option: DuelPromptOption, board: DuelBoardView): number {
+  const card = cardOf(option, board);
+  if (!card) return -1;
+  const inAttack = ((card.position ?? POSITION_FACEUP_ATTACK) & 0x3) !== 0;
+  return (inAttack ? card.attack : card.defense) ?? -1;
+}
+
+function strongest(options: DuelPromptOption[], board: DuelBoardView): DuelPromptOption | undefined {
+  return [...options].sort((a, b) => attackOf(b, board) - attackOf(a, board))[0];
+}
+
+/** Nombre d'options à rendre : au moins une, au plus ce qui est offert. */
+function countFor(prompt: DuelPrompt, available: number): number {
+  return Math.min(available, Math.max(1, prompt.min));
+}
+
+function choose(...options: DuelPromptOption[]): DuelChoice {
+  return { optionIds: options.map((o) => o.id) };
+}
+
+function pass(): DuelChoice {
+  return { optionIds: [], cancel: true };
+}
+
+/** Décale le classement d'un cran par refus du moteur : on essaie autre chose. */
+function rotate<T>(list: T[], by: number): T[] {
+  if (!list.length) return list;
+  const n = by % list.length;
+  return [...list.slice(n), ...list.slice(0, n)];
+}
+
+/**
+ * Réponses structurées communes aux deux politiques : elles n'ont pas
+ * d'options à tirer au hasard, seulement une forme à respecter.
+ */
+function structured(ctx: BotContext): DuelChoice | null | undefined {
+  const { prompt, board } = ctx;
+  switch (prompt.kind) {
+    case 'select_counter': {
+      const counter = prompt.counter;
+      if (!counter) return null;
+      let left = counter.count;
+      const counters = counter.targets.map((t) => {
+        const take = Math.min(left, t.currentCount);
+        left -= take;
+        return { targetIdx: t.targetIdx, take };
+      });
+      return left === 0 ? { optionIds: [], counters } : null;
+    }
+
+    case 'announce_card': {
+      // Déclarer une carte vue chez l'adversaire : c'est presque toujours ce
+      // que l'effet cherche (« nommez une carte », puis on la bannit).
+      const seen = [
+        ...board.opponent.monsters,
+        ...board.opponent.spells,
+        ...board.opponent.graveyard,
+        ...board.opponent.banished,
+      ].filter((c): c is DuelCardView => !!c && c.code !== 0);
+      const card = seen[ctx.retries % Math.max(1, seen.length)];
+      return card ? { optionIds: [], announcedCode: card.code } : null;
+    }
+
+    case 'sort':
+      // L'ordre proposé par le moteur convient toujours.
+      return pass();
+
+    case 'unsupported':
+      return null;
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Politique à règles fixes — un adversaire d'entraînement lisible :
+ *   - phase principale : invoque le plus gros monstre, active, pose ses
+ *     magies/pièges, puis part au combat ;
+ *   - combat : attaque avec le plus fort, sur la plus grosse cible qu'il bat ;
+ *   - chaîne : enchaîne toujours ses hand-traps, et ses autres effets
+ *     seulement en réponse à l'adversaire ;
+ *   - ciblage : les plus grosses ATK adverses, ses propres plus petites
+ *     (coûts, sacrifices, défausses).
+ */
+const rulesPolicy: BotPolicy = {
+  id: 'rules',
+  label: 'Classique',
+  description: 'Invoque son plus gros monstre, attaque, enchaîne ses hand-traps.',
+
+  decide(ctx) {
+    const fixed = structured(ctx);
+    if (fixed !== undefined) return fixed;
+
+    const { prompt, board, activated } = ctx;
+    switch (prompt.kind) {
+      case 'main': {
+        const summon =
+          strongest(prefixed(prompt, 'spsummon'), board) ?? strongest(prefixed(prompt, 'summon'), board);
+        if (summon) return choose(summon);
+        const activate = prefixed(prompt, 'activate').find((o) => !activated.has(cardKey(o)));
+        if (activate) return choose(activate);
+        const set = prefixed(prompt, 'sset')[0] ?? prefixed(prompt, 'mset')[0];
+        if (set) return choose(set);
+        const next = byId(prompt, 'tobp') ?? byId(prompt, 'toep');
+        return next ? choose(next) : null;
+      }
+
+      case 'battle': {
+        const attacker = strongest(prefixed(prompt, 'attack'), board);
+        if (attacker) return choose(attacker);
+        const next = byId(prompt, 'tom2') ?? byId(prompt, 'toep');
+        return next ? choose(next) : null;
+      }
+
+      case 'cards': {
+        // Sélection pas à pas : une fois le minimum atteint, le moteur
+        // propose d'arrêter — on arrête.
+        const unselect = prefixed(prompt, 'unselect');
+        if (unselect.length && prompt.canCancel) return pass();
+
+        const must = prefixed(prompt, 'summust');
+        const candidates = prompt.options.filter(
+          (o) => !o.id.startsWith('unselect:') && !o.id.startsWith('summust:')
+        );
+        if (!candidates.length && !must.length) return prompt.canCancel ? pass() : null;
+
+        const ranked = rotate(rankTargets(candidates, board), ctx.retries);
+        const picked = [...must, ...ranked].slice(0, Math.max(must.length, countFor(prompt, must.length + ranked.length)));
+        return choose(...picked);
+      }
+
+      case 'select_card_codes': {
+        const ranked = rotate(rankTargets(prompt.options, board), ctx.retries);
+        const picked = ranked.slice(0, countFor(prompt, ranked.length));
+        if (!picked.length) return prompt.canCancel ? pass() : null;
+        return { ...choose(...picked), cardCodes: picked.map((o) => o.code ?? 0) };
+      }
+
+      case 'chain': {
+        const options = prompt.options;
+        const handTrap = options.find((o) => o.location === LOCATION_HAND && isMine(o, board));
+        if (handTrap) return choose(handTrap);
+        const top = board.chain[board.chain.length - 1];
+        const answersOpponent = !!top && top.controller !== board.seat;
+        if (options.length && (answersOpponent || !prompt.canCancel)) return choose(options[0]);
+        return prompt.canCancel ? pass() : null;
+      }
+
+      case 'position': {
+        const attack = byId(prompt, `pos:${POSITION_FACEUP_ATTACK}`) ?? prompt.options[0];
+        return attack ? choose(attack) : null;
+      }
+
+      case 'confirm': {
+        const yes = byId(prompt, 'yes') ?? prompt.options[0];
+        return yes ? choose(yes) : null;
+      }
+
+      case 'place': {
+        // Une zone à neutraliser se prend chez l'adversaire, un emplacement
+        // pour soi : le moteur signale le premier cas par le message.
+        const hostile = prompt.message.includes('neutraliser');
+        const ordered = [...prompt.options].sort(
+          (a, b) => Number(isMine(a, board) === hostile) - Number(isMine(b, board) === hostile)
+        );
+        return ordered.length ? choose(...ordered.slice(0, countFor(prompt, ordered.length))) : null;
+      }
+
+      case 'option':
+      case 'announce':
+        return prompt.options.length
+          ? choose(...prompt.options.slice(0, countFor(prompt, prompt.options.length)))
+          : null;
+    }
+    return null;
+  },
+};
+
+/**
+ * Cibles d'abord chez l'adversaire, par ATK décroissante ; puis les siennes
+ * par ATK croissante — on sacrifie et on défausse le moins utile.
+ *
+ * Pendant son propre combat, une cible adverse est une cible d'attaque : on
+ * prend la plus grosse que son meilleur monstre bat, sinon la plus faible.
+ */
+function rankTargets(options: DuelPromptOption[], board: DuelBoardView): DuelPromptOption[] {
+  const theirs = options.filter((o) => !isMine(o, board));
+  const mine = options.filter((o) => isMine(o, board));
+  theirs.sort((a, b) => attackOf(b, board) - attackOf(a, board));
+  mine.sort((a, b) => attackOf(a, board) - attackOf(b, board));
+
+  const attacking = board.turnPlayer === board.seat && board.phase.startsWith('battle');
+  if (attacking && theirs.length) {
+    const power = Math.max(-1, ...board.me.monsters.map((m) => (m && !m.faceDown ? m.attack ?? -1 : -1)));
+    const beaten = theirs.filter((o) => guardOf(o, board) < power);
+    const rest = theirs.filter((o) => !beaten.includes(o)).reverse();
+    return [...beaten, ...rest, ...mine];
+  }
+  return [...theirs, ...mine];
+}
+
+function shuffled<T>(list: T[]): T[] {
+  const out = [...list];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+/**
+ * Politique aléatoire : n'importe quelle option légale. Ne change jamais la
+ * position d'un monstre ni ne réactive un effet déjà utilisé ce tour — sans
+ * quoi une phase principale pourrait ne jamais finir.
+ */
+const randomPolicy: BotPolicy = {
+  id: 'random',
+  label: 'Aléatoire',
+  description: 'Joue un coup légal au hasard — pour tester un deck sans pression.',
+
+  decide(ctx) {
+    const fixed = structured(ctx);
+    if (fixed !== undefined) return fixed;
+
+    const { prompt, activated } = ctx;
+    const legal = prompt.options.filter(
+      (o) =>
+        !o.id.startsWith('poschange:') &&
+        !o.id.startsWith('unselect:') &&
+        !(o.id.startsWith('activate:') && activated.has(cardKey(o)))
+    );
+    if (prompt.canCancel && (!legal.length || Math.random() < 0.5)) return pass();
+    if (!legal.length) return null;
+
+    const must = prefixed(prompt, 'summust');
+    const picked = [...must, ...shuffled(legal.filter((o) => !must.includes(o)))];
+    const chosen = picked.slice(0, Math.max(must.length, countFor(prompt, picked.length)));
+    if (prompt.kind === 'select_card_codes') {
+      return { ...choose(...chosen), cardCodes: chosen.map((o) => o.code ?? 0) };
+    }
+    return choose(...chosen);
+  },
+};
+
+/**
+ * Le goldfish du labo de combos : il laisse passer tout ce qui peut l'être et
+ * ne donne que le minimum quand le moteur exige une réponse — refuser les
+ * effets optionnels, défausser les premières cartes en fin de tour.
+ */
+const passPolicy: BotPolicy = {
+  id: 'pass',
+  label: 'Goldfish',
+  description: 'Ne joue rien : laisse dérouler ses combos avec les vraies règles.',
+
+  decide(ctx) {
+    const fixed = structured(ctx);
+    if (fixed !== undefined) return fixed;
+
+    const { prompt } = ctx;
+    switch (prompt.kind) {
+      case 'main':
+      case 'battle': {
+        const next = byId(prompt, 'toep') ?? byId(prompt, 'tom2');
+        return next ? choose(next) : null;
+      }
+
+      case 'confirm':
+        return choose(byId(prompt, 'no') ?? prompt.options[0]);
+
+      case 'position': {
+        const attack = byId(prompt, `pos:${POSITION_FACEUP_ATTACK}`) ?? prompt.options[0];
+        return attack ? choose(attack) : null;
+      }
+    }
+
+    if (prompt.canCancel) return pass();
+    const must = prefixed(prompt, 'summust');
+    const rest = prompt.options.filter((o) => !o.id.startsWith('unselect:') && !must.includes(o));
+    const picked = [...must, ...rest].slice(0, Math.max(must.length, countFor(prompt, must.length + rest.length)));
+    if (!picked.length) return null;
+    if (prompt.kind === 'select_card_codes') {
+      return { ...choose(...picked), cardCodes: picked.map((o) => o.code ?? 0) };
+    }
+    return choose(...picked);
+  },
+};
+
+const POLICIES: Record<DuelBotPolicyId, BotPolicy> = {
+  rules: rulesPolicy,
+  random: randomPolicy,
+  pass: passPolicy,
+};
+
+export function isBotPolicyId(value: unknown): value is DuelBotPolicyId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(POLICIES, value);
+}
+
+export function botPolicy(id: DuelBotPolicyId): BotPolicy {
+  return POLICIES[id];
+}
+
+/** Ce que propose l'écran « Affronter le bot » — le goldfish n'est pas un adversaire. */
+export function listBotPolicies(): DuelBotPolicyInfo[] {
+  return Object.values(POLICIES)
+    .filter((p) => p.id !== 'pass')
+    .map(({ id, label, description }) => ({ id, label, description }));
+}
@@ -1,188 +1,114 @@
-import type { Card, Deck, DeckCard } from '../../../../shared/types';
+import type {
+  BanlistFormatId,
+  Card,
+  Deck,
+  DeckCard,
+  DeckLegalityViolation,
+  DeckSection,
+} from '../../../../shared/types';
 import { isExtraDeckCard } from '../../../../shared/cards';
+import {
+  checkDeckRules,
+  describeViolation,
+  DECK_LIMITS,
+  type DeckRuleCard,
+  type DeckRulesReport,
+} from '../../../../shared/deckRules';
 import { query } from '../../config/database';
+import { BanlistModel } from '../../models/banlistModel';
+import { limitFor, type BanlistLimits } from '../../utils/banlist';
 import { getCardStore, resolveCard } from './cardStore';
 import type { EnginePlayerDeck } from './protocol';
 
-/**
- * Limite d'exemplaires selon la banlist TCG stockée sur la carte.
- *
- * `banlist_info.ban_tcg` vaut 'Banned', 'Limited', 'Semi-Limited', ou est
- * absent. Le max 3 par carte du format YGO reste la règle par défaut.
- *
- * Miroir de `YgoprodeckService.getBanlistLimit` — dupliqué localement pour
- * éviter d'importer un service HTTP dans une chaîne critique de démarrage.
- */
-export function banlistLimit(banTcg?: string | null): number {
-  switch (banTcg) {
-    case 'Banned':
-      return 0;
-    case 'Limited':
-      return 1;
-    case 'Semi-Limited':
-      return 2;
-    default:
-      return 3;
-  }
-}
-
-interface CountEntry {
-  code: number;
-  name: string;
-  count: number;
-  limit: number;
-  banStatus: 'Banned' | 'Limited' | 'Semi-Limited' | 'Unlimited';
-}
+export { banlistLimit } from '../../utils/banlist';
 
 /**
- * Comptabilise les occurrences par passcode et compare à la limite banlist.
+ * Règles communes (`shared/deckRules.ts`) appliquées à des listes de passcodes
+ * aplaties pour le moteur.
  *
- * On récupère le `banlist_info` en un seul SELECT par lot d'IDs internes ou
- * de passcodes — l'appelant fournit l'un ou l'autre.
+ * `format` : id de banlist ou clé de format (cf. `BanlistModel.resolve`),
+ * dernière liste TCG par défaut, repli sur le `banlist_info.ban_tcg` en cache.
+ * `skipBanlist` : mode libre, seules tailles et sections comptent.
+ * Noms, types et statuts en cache sont récupérés en un seul SELECT.
  */
-async function tallyByCode(
-  codes: number[]
-): Promise<CountEntry[]> {
-  const counts = new Map<number, number>();
-  for (const c of codes) counts.set(c, (counts.get(c) ?? 0) + 1);
-  const unique = [...counts.keys()];
-  if (unique.length === 0) return [];
+export async function validateDeckLegality(
+  main: number[],
+  extra: number[],
+  side: number[] = [],
+  format?: BanlistFormatId | null,
+  options: { skipBanlist?: boolean } = {}
+): Promise<DeckRulesReport> {
+  const counts = new Map<string, { code: number; section: DeckSection; quantity: number }>();
+  const tally = (codes: number[], section: DeckSection) => {
+    for (const code of codes) {
+      const key = `${section}:${code}`;
+      const entry = counts.get(key);
+      if (entry) entry.quantity += 1;
+      else counts.set(key, { code, section, quantity: 1 });
+    }
+  };
+  tally(main, 'main');
+  tally(extra, 'extra');
+  tally(side, 'side');
 
   // Passcode est stocké en `cards.card_id` (colonne texte).
-  const strIds = unique.map((c) => String(c));
-  const res = await query(
-    `SELECT card_id, name, name_fr, banlist_info
-       FROM cards
-      WHERE card_id = ANY($1::text[])`,
-    [strIds]
-  );
+  const strIds = [...new Set([...counts.values()].map((e) => String(e.code)))];
+  const res = strIds.length
+    ? await query(
+        `SELECT card_id, name, name_fr, type, frame_type, banlist_info
+           FROM cards
+          WHERE card_id = ANY($1::text[])`,
+        [strIds]
+      )
+    : { rows: [] as any[] };
+  const infoByCode = new Map<string, any>(res.rows.map((row: any) => [String(Number(row.card_id)), row]));
 
-  const infoByCode = new Map<
-    number,
-    { name: string; banTcg?: string | null }
-  >();
-  for (const row of res.rows) {
-    const code = Number(row.card_id);
-    if (!Number.isInteger(code)) continue;
-    infoByCode.set(code, {
-      name: row.name_fr || row.name || `carte #${code}`,
-      banTcg: row.banlist_info?.ban_tcg ?? null,
-    });
-  }
+  const banTcg = new Map<string, string | null>();
+  const cards: DeckRuleCard[] = [...counts.values()].map(({ code, section, quantity }) => {
+    const row = infoByCode.get(String(code));
+    banTcg.set(String(code), row?.banlist_info?.ban_tcg ?? null);
+    return {
+      card_code: String(code),
+      name: row?.name_fr || row?.name || `carte #${code}`,
+      type: row?.type,
+      frame_type: row?.frame_type,
+      section,
+      quantity,
+    };
+  });
 
-  const out: CountEntry[] = [];
-  for (const [code, count] of counts) {
-    const info = infoByCode.get(code);
-    const ban = info?.banTcg;
-    const limit = banlistLimit(ban);
-    const banStatus: CountEntry['banStatus'] =
-      ban === 'Banned'
-        ? 'Banned'
-        : ban === 'Limited'
-          ? 'Limited'
-          : ban === 'Semi-Limited'
-            ? 'Semi-Limited'
-            : 'Unlimited';
-    out.push({
-      code,
-      name: info?.name ?? `carte #${code}`,
-      count,
-      limit,
-      banStatus,
-    });
-  }
-  return out;
-}
+  if (options.skipBanlist) return checkDeckRules(cards, { enforceCopies: false });
 
-/**
- * Vérifie le triplet Forbidden / Limité / max 3 pour un deck.
- *
- * `main`, `extra`, `side` sont des listes de passcodes (déjà aplaties pour le
- * moteur). Renvoie la liste des violations pour affichage ; vide = OK.
- */
-export async function validateDeckLegality(
-  main: number[],
-  extra: number[],
-  side: number[] = []
-): Promise<Array<{ code: number; name: string; reason: string }>> {
-  const all = [...main, ...extra, ...side];
-  const entries = await tallyByCode(all);
-  const violations: Array<{ code: number; name: string; reason: string }> = [];
-  for (const e of entries) {
-    if (e.banStatus === 'Banned') {
-      violations.push({
-        code: e.code,
-        name: e.name,
-        reason: `${e.name} : Forbidden (interdite)`,
-      });
-      continue;
-    }
-    if (e.count > e.limit) {
-      const label =
-        e.banStatus === 'Unlimited'
-          ? 'max 3'
-          : e.banStatus === 'Limited'
-            ? 'Limitée (max 1)'
-            : 'Semi-Limitée (max 2)';
-      violations.push({
-        code: e.code,
-        name: e.name,
-        reason: `${e.name} : ${label} — ${e.count} exemplaires trouvés`,
-      });
-    }
-  }
-  return violations;
+  const banlist = await BanlistModel.resolve(format);
+  const list = banlist ? await BanlistModel.getLimits(banlist) : null;
+  return checkDeckRules(cards, {
+    limitOf: (card) => limitFor(list, card.card_code, banTcg.get(card.card_code)),
+  });
 }
 
 /**
- * Version synchrone quand la banlist est déjà connue via une liste `Card[]`.
- *
- * Utile côté client (le catalogue est en cache) pour un badge en temps réel
- * dans le DeckEditor. La logique est la même que `validateDeckLegality` mais
- * sans SQL.
+ * Version synchrone quand les cartes sont déjà chargées (`Card[]`) et la
+ * banlist déjà lue : `list` null = statut TCG en cache sur chaque carte.
  */
 export function validateDeckLegalitySync(
   main: Card[],
   extra: Card[],
-  side: Card[] = []
-): Array<{ code: number; name: string; reason: string }> {
-  const all = [...main, ...extra, ...side];
-  const counts = new Map<number, { count: number; card: Card }>();
-  for (const c of all) {
-    const code = Number(c.card_id);
-    if (!Number.isInteger(code)) continue;
-    const cur = counts.get(code);
-    if (cur) cur.count += 1;
-    else counts.set(code, { count: 1, card: c });
-  }
-  const violations: Array<{ code: number; name: string; reason: string }> = [];
-  for (const { count, card } of counts.values()) {
-    const ban = card.banlist_info?.ban_tcg;
-    const limit = banlistLimit(ban);
-    const name = card.name_fr || card.name || `carte #${card.card_id}`;
-    if (ban === 'Banned') {
-      violations.push({
-        code: Number(card.card_id),
-        name,
-        reason: `${name} : Forbidden`,
-      });
-      continue;
-    }
-    if (count > limit) {
-      const label =
-        ban === 'Limited'
-          ? 'Limitée (max 1)'
-          : ban === 'Semi-Limited'
-            ? 'Semi-Limitée (max 2)'
-            : 'max 3';
-      violations.push({
-        code: Number(card.card_id),
-        name,
-        reason: `${name} : ${label} — ${count}× trouvée`,
-      });
-    }
-  }
-  return violations;
+  side: Card[] = [],
+  list: BanlistLimits | null = null
+): DeckLegalityViolation[] {
+  const toRule = (section: DeckSection) => (card: Card): DeckRuleCard => ({
+    card_code: String(Number(card.card_id)),
+    name: card.name_fr || card.name || `carte #${card.card_id}`,
+    type: card.type,
+    frame_type: card.frame_type,
+    section,
+    quantity: 1,
+  });
+  const cards = [...main.map(toRule('main')), ...extra.map(toRule('extra')), ...side.map(toRule('side'))];
+  const banTcg = new Map([...main, ...extra, ...side].map((c) => [String(Number(c.card_id)), c.banlist_info?.ban_tcg]));
+  return checkDeckRules(cards, {
+    limitOf: (card) => limitFor(list, card.card_code, banTcg.get(card.card_code)),
+  }).violations;
 }
 
 /**
@@ -368,48 +294,56 @@ export async function buildEngineDeckFromIds(
 }
 
 export function checkEngineDeck(conversion: DeckConversion): string | null {
-  const { main, extra } = conversion.deck;
-
   if (conversion.rejected.length) {
     const names = conversion.rejected.slice(0, 3).map((r) => r.name).join(', ');
     const more = conversion.rejected.length > 3 ? ` (+${conversion.rejected.length - 3})` : '';
     return `Cartes non jouables : ${names}${more}`;
   }
-  if (main.length < 40) return `Deck principal incomplet : ${main.length} cartes sur 40 minimum`;
-  if (main.length > 60) return `Deck principal trop grand : ${main.length} cartes sur 60 maximum`;
-  if (extra.length > 15) return `Extra Deck trop grand : ${extra.length} cartes sur 15 maximum`;
-
+  const { main, extra } = conversion.deck;
+  if (main.length < DECK_LIMITS.mainMin) {
+    return `Deck principal incomplet : ${main.length} cartes sur ${DECK_LIMITS.mainMin} minimum`;
+  }
+  if (main.length > DECK_LIMITS.mainMax) {
+    return `Deck principal trop grand : ${main.length} cartes sur ${DECK_LIMITS.mainMax} maximum`;
+  }
+  if (extra.length > DECK_LIMITS.extraMax) {
+    return `Extra Deck trop grand : ${extra.length} cartes sur ${DECK_LIMITS.extraMax} maximum`;
+  }
   return null;
 }
 
 /**
- * Check complet : tailles + banlist + max 3 exemplaires.
+ * Check complet : cartes jouables et tailles, puis règles communes — sections,
+ * banlist et max 3 exemplaires (cf. `validateDeckLegality`).
  *
  * À utiliser côté serveur avant `createEngineDuel` — bloque toute soumission
  * illégale au tournoi. Retourne un message concaténé ou `null` si OK.
  * `sideIds` : passcodes du side deck si Bo3 (compté ensemble pour le max 3).
+ * `options.format` : banlist du duel.
  */
 export async function checkEngineDeckStrict(
   conversion: DeckConversion,
   sideIds: number[] = [],
-  options: { skipBanlist?: boolean } = {}
+  options: { skipBanlist?: boolean; format?: BanlistFormatId | null } = {}
 ): Promise<string | null> {
   const basic = checkEngineDeck(conversion);
   if (basic) return basic;
-  if (sideIds.length > 15) {
-    return `Side Deck trop grand : ${sideIds.length} cartes sur 15 maximum`;
+  if (sideIds.length > DECK_LIMITS.sideMax) {
+    return `Side Deck trop grand : ${sideIds.length} cartes sur ${DECK_LIMITS.sideMax} maximum`;
   }
+
   // Mode 'free' : les joueurs jouent hors banlist (ex : entrainement,
-  // format maison). On garde uniquement les tailles minimum du deck
-  // — sans quoi le moteur crashe — et on laisse tout le reste passer.
-  if (options.skipBanlist) return null;
-  const violations = await validateDeckLegality(
+  // format maison). On garde uniquement tailles et sections — sans quoi le
+  // moteur crashe — et on laisse tout le reste passer.
+  const { violations } = await validateDeckLegality(
     conversion.deck.main,
     conversion.deck.extra,
-    sideIds
+    sideIds,
+    options.format,
+    { skipBanlist: options.skipBanlist }
   );
   if (!violations.length) return null;
-  const shown = violations.slice(0, 4).map((v) => v.reason).join(' · ');
+  const shown = violations.slice(0, 4).map(describeViolation).join(' · ');
   const more = violations.length > 4 ? ` (+${violations.length - 4})` : '';
   return `Deck illégal : ${shown}${more}`;
 }
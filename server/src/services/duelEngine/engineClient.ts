@@ -12,6 +12,8 @@ import {
   isEngineNotice,
   type EngineNotice,
   type EnginePlayerDeck,
+  type EngineReplayResult,
+  type EngineExportResult,
   type EngineRequest,
   type EngineRequestBody,
   type EngineResponse,
@@ -201,6 +203,8 @@ export interface CreateDuelParams {
   startingLP?: number;
   startingDrawCount?: number;
   drawCountPerTurn?: number;
+  /** Puzzle : attaque permise dès le premier tour. */
+  firstTurnAttack?: boolean;
 }
 
 /** Graine dérivée de l'identifiant du duel et de l'horloge : reproductible si fournie. */
@@ -228,6 +232,7 @@ export async function createEngineDuel(params: CreateDuelParams): Promise<Create
       startingLP: params.startingLP ?? 8000,
       startingDrawCount: params.startingDrawCount ?? 5,
       drawCountPerTurn: params.drawCountPerTurn ?? 1,
+      firstTurnAttack: params.firstTurnAttack,
     },
     `create ${params.duelId}`
   );
@@ -256,6 +261,63 @@ export function spectateEngineDuel(duelId: number): Promise<DuelStateResponse> {
   return send<DuelStateResponse>({ type: 'spectate', duelId }, `spectate ${duelId}`);
 }
 
+export interface ReplayDuelParams {
+  duelId: number;
+  players: [EnginePlayerDeck, EnginePlayerDeck];
+  /** La graine d'origine : sans elle, ce serait une autre partie. */
+  seed: [bigint, bigint, bigint, bigint];
+  actions: Array<{ seat: DuelSeat; choice: DuelChoice }>;
+  startingLP?: number;
+  startingDrawCount?: number;
+  drawCountPerTurn?: number;
+  /** Puzzle : attaque permise dès le premier tour. */
+  firstTurnAttack?: boolean;
+}
+
+/**
+ * Reconstruit une partie finie dans le worker, une image par décision.
+ *
+ * Le duel recréé ne survit pas à la requête : il n'apparaît pas dans
+ * `knownDuels` et n'entre pas en conflit avec une partie vivante de même id.
+ */
+export function replayEngineDuel(params: ReplayDuelParams): Promise<EngineReplayResult> {
+  return send<EngineReplayResult>(
+    {
+      type: 'replay',
+      duelId: params.duelId,
+      seed: params.seed,
+      players: params.players,
+      actions: params.actions,
+      startingLP: params.startingLP ?? 8000,
+      startingDrawCount: params.startingDrawCount ?? 5,
+      drawCountPerTurn: params.drawCountPerTurn ?? 1,
+      firstTurnAttack: params.firstTurnAttack,
+    },
+    `replay ${params.duelId}`
+  );
+}
+
+/**
+ * Rejoue une partie finie dans le worker pour en tirer les réponses brutes
+ * et l'ordre des decks — la matière d'un fichier `.yrpX`.
+ */
+export function exportEngineDuel(params: ReplayDuelParams): Promise<EngineExportResult> {
+  return send<EngineExportResult>(
+    {
+      type: 'export',
+      duelId: params.duelId,
+      seed: params.seed,
+      players: params.players,
+      actions: params.actions,
+      startingLP: params.startingLP ?? 8000,
+      startingDrawCount: params.startingDrawCount ?? 5,
+      drawCountPerTurn: params.drawCountPerTurn ?? 1,
+      firstTurnAttack: params.firstTurnAttack,
+    },
+    `export ${params.duelId}`
+  );
+}
+
 export async function destroyEngineDuel(duelId: number): Promise<void> {
   knownDuels.delete(duelId);
   if (!worker) return; // rien à détruire : le worker est déjà mort
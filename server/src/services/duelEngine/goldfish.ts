@@ -0,0 +1,58 @@
+import type { EnginePlayerDeck } from './protocol';
+
+/**
+ * Labo de combos (goldfish) : le joueur déroule son deck sur le vrai moteur
+ * face à un adversaire qui ne joue rien (politique 'pass' du bot).
+ *
+ * Deux façons de fixer le départ, combinables :
+ *   - une **main choisie**, posée sur le dessus du deck (`EnginePlayerDeck.top`) ;
+ *   - une **graine** saisie par le joueur : même nombre, même mélange du reste
+ *     du deck — une main « au hasard » que toute l'équipe peut retrouver.
+ *
+ * Le siège du joueur est toujours celui du challenger ; le goldfish joue le
+ * même deck en face.
+ */
+
+/** Main de départ (5) et première pioche : de quoi tester un départ en second. */
+export const MAX_OPENING_HAND = 6;
+
+const MASK_64 = (1n << 64n) - 1n;
+
+/**
+ * Graine moteur tirée d'un nombre saisi (splitmix64) : quatre mots de 64 bits
+ * jamais nuls, reproductibles d'une machine à l'autre.
+ */
+export function seedFromNumber(value: number): [bigint, bigint, bigint, bigint] {
+  let state = BigInt.asUintN(64, BigInt(Math.trunc(value)));
+  const next = (): bigint => {
+    state = (state + 0x9e3779b97f4a7c15n) & MASK_64;
+    let z = state;
+    z = ((z ^ (z >> 30n)) * 0xbf58476d1ce4e5b9n) & MASK_64;
+    z = ((z ^ (z >> 27n)) * 0x94d049bb133111ebn) & MASK_64;
+    return (z ^ (z >> 31n)) || 1n;
+  };
+  return [next(), next(), next(), next()];
+}
+
+/** Ce qui empêche de piocher cette main dans ce Main Deck, ou null. */
+export function openingHandProblem(main: readonly number[], hand: readonly number[]): string | null {
+  if (hand.length > MAX_OPENING_HAND) {
+    return `Au plus ${MAX_OPENING_HAND} cartes choisies`;
+  }
+  const left = new Map<number, number>();
+  for (const code of main) left.set(code, (left.get(code) ?? 0) + 1);
+  for (const code of hand) {
+    const n = left.get(code) ?? 0;
+    if (n === 0) return `Carte ${code} absente du Main Deck (ou en trop d'exemplaires)`;
+    left.set(code, n - 1);
+  }
+  return null;
+}
+
+/** Le deck du joueur, la main choisie sur le dessus ; inchangé sans main choisie. */
+export function withOpeningHand(
+  deck: EnginePlayerDeck,
+  hand: readonly number[] | null | undefined
+): EnginePlayerDeck {
+  return hand?.length ? { ...deck, top: [...hand] } : deck;
+}
@@ -0,0 +1,115 @@
+import type { Server as SocketServer } from 'socket.io';
+import type { Duel } from '../../../../shared/types';
+import type { DuelChoice, DuelSeat, DuelStateResponse } from '../../../../shared/duelView';
+import { DuelModel } from '../../models/duelModel';
+import { DuelEngineModel } from '../../models/duelEngineModel';
+import { DuelClockModel } from '../../models/duelClockModel';
+import { DuelMatchModel } from '../../models/duelMatchModel';
+import { DuelPuzzleModel } from '../../models/duelPuzzleModel';
+import logger from '../../utils/logger';
+import { chooseInEngine, destroyEngineDuel } from './engineClient';
+import { puzzleOutcome } from './puzzle';
+
+/**
+ * Une décision jouée dans le moteur, et tout ce qui doit la suivre : journal
+ * pour la reprise, bascule du chrono, fin de partie et match parent, avis aux
+ * deux sièges. Partagé par la route `choose` et le bot (`services/duelBot`) —
+ * un coup du bot laisse exactement les mêmes traces qu'un clic.
+ */
+
+/** Traduit un siège moteur en user_id (voir `seatOf` dans le contrôleur). */
+export function userIdOfSeat(duel: Duel, seat: DuelSeat): number {
+  if (duel.first_player_id) {
+    const first = duel.first_player_id;
+    const other = first === duel.challenger_id ? duel.opponent_id : duel.challenger_id;
+    return seat === 0 ? first : other;
+  }
+  return seat === 0 ? duel.challenger_id : duel.opponent_id;
+}
+
+/** Diffuse aux deux joueurs le fait que l'état a changé, sans leur envoyer la vue. */
+export function notifyEngineUpdate(io: SocketServer | undefined, duelId: number): void {
+  if (!io) return;
+  // Chacun doit redemander **sa** vue : envoyer l'état dans la room commune
+  // révélerait la main de l'un à l'autre.
+  io.to(`duel:${duelId}`).emit('duel:engine_update', { duelId });
+}
+
+export async function playEngineChoice(
+  io: SocketServer | undefined,
+  duel: Duel,
+  seat: DuelSeat,
+  choice: DuelChoice
+): Promise<DuelStateResponse> {
+  const state = await chooseInEngine(duel.id, seat, choice);
+
+  await DuelEngineModel.appendAction(duel.id, seat, choice);
+
+  if (duel.puzzle_id) {
+    const outcome = puzzleOutcome(state);
+    if (outcome) return settlePuzzle(io, duel, state, outcome);
+  }
+
+  // Bascule le chrono sur le joueur à qui la nouvelle invite est adressée.
+  if (state.status === 'awaiting_response' && state.prompt) {
+    const nextUserId = userIdOfSeat(duel, state.prompt.seat);
+    await DuelClockModel.startFor(duel.id, nextUserId);
+  } else if (state.status === 'ended') {
+    await DuelClockModel.stop(duel.id);
+  }
+
+  if (state.status === 'ended') {
+    const winnerId =
+      state.winner === null || state.winner === undefined
+        ? null
+        : userIdOfSeat(duel, state.winner);
+
+    if (winnerId) {
+      await DuelModel.finish(duel.id, winnerId);
+      logger.info(`[DUEL_ENGINE] duel ${duel.id} terminé — vainqueur ${winnerId}`);
+      // F4 · Match Bo3 — propage la victoire au match parent (score,
+      // passage en sideboard ou finished).
+      if (duel.match_id) {
+        const match = await DuelMatchModel.recordGameWin(duel.match_id, winnerId);
+        if (match && io) {
+          io.to(`user:${duel.challenger_id}`).emit('match:update', { match });
+          io.to(`user:${duel.opponent_id}`).emit('match:update', { match });
+        }
+      }
+    }
+  }
+
+  notifyEngineUpdate(io, duel.id);
+  return state;
+}
+
+/**
+ * Fin d'un puzzle : gagné pendant le tour 1, ou perdu dès que le tour passe —
+ * le moteur, lui, continuerait la partie ; on l'arrête là. Une victoire
+ * marque le puzzle résolu pour le joueur.
+ */
+async function settlePuzzle(
+  io: SocketServer | undefined,
+  duel: Duel,
+  state: DuelStateResponse,
+  outcome: 'solved' | 'failed'
+): Promise<DuelStateResponse> {
+  const winner: DuelSeat = outcome === 'solved' ? 0 : 1;
+  const winnerId = userIdOfSeat(duel, winner);
+  await DuelModel.finish(duel.id, winnerId);
+  await DuelClockModel.stop(duel.id);
+  if (outcome === 'solved') {
+    await DuelPuzzleModel.markSolved(duel.challenger_id, duel.puzzle_id!);
+  } else if (state.status !== 'ended') {
+    await destroyEngineDuel(duel.id).catch(() => undefined);
+  }
+  logger.info(`[DUEL_ENGINE] puzzle ${duel.puzzle_id} (duel ${duel.id}) ${outcome === 'solved' ? 'résolu' : 'raté'}`);
+
+  notifyEngineUpdate(io, duel.id);
+  if (outcome === 'failed') {
+    io?.to(`duel:${duel.id}`).emit('duel:finished', { duelId: duel.id, winnerId, reason: 'puzzle_failed' });
+  }
+  return outcome === 'solved'
+    ? state
+    : { ...state, status: 'ended', prompt: null, winner, winReason: 'Puzzle raté : le tour est passé' };
+}
@@ -1,6 +1,7 @@
 import type {
   DuelAnnounceSearchResult,
   DuelChoice,
+  DuelReplayFrame,
   DuelSeat,
   DuelStateResponse,
 } from '../../../../shared/duelView';
@@ -21,6 +22,25 @@ import type {
 export interface EnginePlayerDeck {
   main: number[];
   extra: number[];
+  /**
+   * Labo de combos : cartes du Main Deck à piocher en premier, dans l'ordre.
+   * Le reste du deck est mélangé normalement.
+   */
+  top?: number[];
+  /** Puzzle : cartes posées hors du deck avant le début du duel. */
+  placed?: EnginePlacedCard[];
+  /** Puzzle : LP de départ de ce joueur, à la place de `startingLP`. */
+  lp?: number;
+}
+
+/** Une carte que le moteur place directement en main, sur le terrain, etc. */
+export interface EnginePlacedCard {
+  code: number;
+  location: 'hand' | 'monster' | 'spell' | 'grave' | 'banished';
+  /** Zone visée (monstre, magie — 5 pour le terrain) ; ignorée ailleurs. */
+  sequence: number;
+  /** Face recto en attaque, face recto en défense, ou face verso. */
+  position: 'attack' | 'defense' | 'set';
 }
 
 export type EngineRequest =
@@ -34,6 +54,8 @@ export type EngineRequest =
       startingLP: number;
       startingDrawCount: number;
       drawCountPerTurn: number;
+      /** Puzzle : attaque permise dès le premier tour. */
+      firstTurnAttack?: boolean;
       /** Siège dont on veut la vue en retour. */
       seat: DuelSeat;
     }
@@ -49,7 +71,39 @@ export type EngineRequest =
   | { id: number; type: 'destroy'; duelId: number }
   | { id: number; type: 'stats' }
   /** Recherche des cartes déclarables pour l'invite ANNOUNCE_CARD en cours. */
-  | { id: number; type: 'announce_search'; duelId: number; seat: DuelSeat; query: string };
+  | { id: number; type: 'announce_search'; duelId: number; seat: DuelSeat; query: string }
+  /**
+   * Reconstruit une partie finie à partir de sa graine et de son journal. Le
+   * duel ne vit que le temps de la requête : il n'entre pas dans les sessions.
+   */
+  | {
+      id: number;
+      type: 'replay';
+      duelId: number;
+      seed: [bigint, bigint, bigint, bigint];
+      players: [EnginePlayerDeck, EnginePlayerDeck];
+      startingLP: number;
+      startingDrawCount: number;
+      drawCountPerTurn: number;
+      firstTurnAttack?: boolean;
+      actions: Array<{ seat: DuelSeat; choice: DuelChoice }>;
+    }
+  /**
+   * Même reconstruction que `replay`, pour l'export EDOPro : pas d'images,
+   * seulement ce que le moteur a reçu — decks mélangés et réponses brutes.
+   */
+  | {
+      id: number;
+      type: 'export';
+      duelId: number;
+      seed: [bigint, bigint, bigint, bigint];
+      players: [EnginePlayerDeck, EnginePlayerDeck];
+      startingLP: number;
+      startingDrawCount: number;
+      drawCountPerTurn: number;
+      firstTurnAttack?: boolean;
+      actions: Array<{ seat: DuelSeat; choice: DuelChoice }>;
+    };
 
 /**
  * `Omit` appliqué à une union ne garde que les clés communes — ici, il ne
@@ -71,11 +125,41 @@ export interface EngineStats {
   };
 }
 
+/** Ce que le worker sait d'une partie rejouée — le reste vient de la base. */
+export interface EngineReplayResult {
+  frames: DuelReplayFrame[];
+  winner: DuelSeat | null;
+  winReason?: string;
+  /** Le moteur a déclaré la partie finie (faux après un abandon ou un temps écoulé). */
+  ended: boolean;
+  /** Renseigné si une décision du journal a été refusée : le rejeu s'arrête là. */
+  error?: string;
+}
+
+/** Ce qu'il faut pour écrire un fichier de rejeu EDOPro. */
+export interface EngineExportResult {
+  /** Les decks tels que le moteur les a reçus : Main Deck déjà mélangé. */
+  decks: [EnginePlayerDeck, EnginePlayerDeck];
+  /** Une réponse par décision du journal, dans le format binaire d'ocgcore. */
+  responses: Uint8Array[];
+  duelFlags: bigint;
+  /** Version d'ocgcore, `[majeure, mineure]`. */
+  coreVersion: [number, number];
+  /** Renseigné si une décision du journal a été refusée : l'export s'arrête là. */
+  error?: string;
+}
+
 export type EngineResponse =
   | {
       id: number;
       ok: true;
-      result: DuelStateResponse | EngineStats | DuelAnnounceSearchResult[] | null;
+      result:
+        | DuelStateResponse
+        | EngineStats
+        | DuelAnnounceSearchResult[]
+        | EngineReplayResult
+        | EngineExportResult
+        | null;
     }
   | { id: number; ok: false; error: string };
 
@@ -0,0 +1,142 @@
+import type {
+  DuelPuzzleCard,
+  DuelPuzzleSetup,
+  DuelPuzzleSide,
+  DuelStateResponse,
+} from '../../../../shared/duelView';
+import type { EnginePlacedCard, EnginePlayerDeck } from './protocol';
+
+/**
+ * Puzzles : deux plateaux de départ décrits en JSON, joués sur le vrai moteur.
+ *
+ * Le moteur accepte une carte à n'importe quel emplacement avant le début du
+ * duel (`EnginePlayerDeck.placed`) ; le reste est un duel contre le bot en
+ * politique 'pass', où le joueur commence avec le droit d'attaquer et sans
+ * pioche de départ. Tout ce module est pur : l'admin valide un puzzle à
+ * l'enregistrement, et le moteur ne reçoit que des passcodes.
+ */
+
+/** Options moteur d'un duel de puzzle, communes au lancement, à la reprise et au rejeu. */
+export const PUZZLE_ENGINE_OPTIONS = { firstTurnAttack: true, startingDrawCount: 0 } as const;
+
+const MAX_LP = 999_999;
+const LIMITS = { hand: 20, deck: 60, extra: 15, monsters: 7, spells: 6, graveyard: 60, banished: 60 };
+const POSITIONS = ['attack', 'defense', 'set'] as const;
+
+const isCode = (v: unknown): v is number => Number.isInteger(v) && (v as number) > 0;
+
+function codeList(raw: unknown, label: string, max: number): number[] | string {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw) || !raw.every(isCode)) return `${label} : liste de passcodes attendue`;
+  if (raw.length > max) return `${label} : ${max} cartes au plus`;
+  return [...raw];
+}
+
+function zoneList(raw: unknown, label: string, max: number): Array<DuelPuzzleCard | null> | string {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) return `${label} : liste de zones attendue`;
+  if (raw.length > max) return `${label} : ${max} zones au plus`;
+  const zones: Array<DuelPuzzleCard | null> = [];
+  for (const [i, zone] of raw.entries()) {
+    if (zone === null) {
+      zones.push(null);
+      continue;
+    }
+    if (typeof zone !== 'object' || !isCode((zone as DuelPuzzleCard).code)) {
+      return `${label}, zone ${i + 1} : passcode attendu`;
+    }
+    const { code, position } = zone as DuelPuzzleCard;
+    if (position !== undefined && !POSITIONS.includes(position)) {
+      return `${label}, zone ${i + 1} : position inconnue (${POSITIONS.join(', ')})`;
+    }
+    zones.push(position ? { code, position } : { code });
+  }
+  return zones;
+}
+
+function parseSide(raw: unknown, who: string): DuelPuzzleSide | string {
+  if (!raw || typeof raw !== 'object') return `${who} : plateau manquant`;
+  const side = raw as Record<string, unknown>;
+  if (!Number.isInteger(side.lp) || (side.lp as number) < 1 || (side.lp as number) > MAX_LP) {
+    return `${who} : LP entre 1 et ${MAX_LP}`;
+  }
+  const parsed = {
+    lp: side.lp as number,
+    hand: codeList(side.hand, `${who}, main`, LIMITS.hand),
+    deck: codeList(side.deck, `${who}, deck`, LIMITS.deck),
+    extra: codeList(side.extra, `${who}, Extra Deck`, LIMITS.extra),
+    monsters: zoneList(side.monsters, `${who}, monstres`, LIMITS.monsters),
+    spells: zoneList(side.spells, `${who}, magies/pièges`, LIMITS.spells),
+    graveyard: codeList(side.graveyard, `${who}, cimetière`, LIMITS.graveyard),
+    banished: codeList(side.banished, `${who}, bannies`, LIMITS.banished),
+  };
+  for (const value of Object.values(parsed)) {
+    if (typeof value === 'string') return value;
+  }
+  return parsed as DuelPuzzleSide;
+}
+
+/**
+ * Lit un puzzle saisi par l'admin : structure, objectif, bornes. Les listes
+ * absentes valent des listes vides. Ne vérifie pas que les passcodes existent
+ * — c'est le rôle de l'appelant, qui a la base sous la main.
+ */
+export function parsePuzzleSetup(raw: unknown): { setup: DuelPuzzleSetup } | { error: string } {
+  if (!raw || typeof raw !== 'object') return { error: 'Puzzle : objet attendu' };
+  const { goal, player, opponent } = raw as Record<string, unknown>;
+  if (goal !== 'win_this_turn') return { error: 'Objectif inconnu (win_this_turn)' };
+  const me = parseSide(player, 'Joueur');
+  if (typeof me === 'string') return { error: me };
+  const foe = parseSide(opponent, 'Adversaire');
+  if (typeof foe === 'string') return { error: foe };
+  return { setup: { goal, player: me, opponent: foe } };
+}
+
+/** Tous les passcodes d'un puzzle, sans doublon. */
+export function puzzleCodes(setup: DuelPuzzleSetup): number[] {
+  const codes = new Set<number>();
+  for (const side of [setup.player, setup.opponent]) {
+    for (const list of [side.hand, side.deck, side.extra, side.graveyard, side.banished]) {
+      list.forEach((code) => codes.add(code));
+    }
+    for (const zone of [...side.monsters, ...side.spells]) if (zone) codes.add(zone.code);
+  }
+  return [...codes];
+}
+
+function sideToEngine(side: DuelPuzzleSide): EnginePlayerDeck {
+  const placed: EnginePlacedCard[] = [];
+  const zone = (location: 'monster' | 'spell', zones: Array<DuelPuzzleCard | null>) =>
+    zones.forEach((card, sequence) => {
+      if (card) placed.push({ code: card.code, location, sequence, position: card.position ?? 'attack' });
+    });
+  const pile = (location: 'hand' | 'grave' | 'banished', codes: number[]) =>
+    codes.forEach((code) => placed.push({ code, location, sequence: 0, position: 'attack' }));
+
+  zone('monster', side.monsters);
+  zone('spell', side.spells);
+  pile('hand', side.hand);
+  pile('grave', side.graveyard);
+  pile('banished', side.banished);
+  // Tout le deck part « sur le dessus » : l'ordre du puzzle est l'ordre de pioche.
+  return { main: [...side.deck], extra: [...side.extra], top: [...side.deck], placed, lp: side.lp };
+}
+
+/** Les deux joueurs tels que le moteur les reçoit : le joueur au siège 0. */
+export function puzzleToEngine(setup: DuelPuzzleSetup): [EnginePlayerDeck, EnginePlayerDeck] {
+  return [sideToEngine(setup.player), sideToEngine(setup.opponent)];
+}
+
+/**
+ * Issue d'un puzzle après une décision, ou null s'il reste à jouer.
+ *
+ * Seule une victoire du joueur pendant le premier tour compte : un adversaire
+ * qui perd en piochant dans un deck vide au tour suivant n'a pas été battu
+ * ce tour-ci.
+ */
+export function puzzleOutcome(state: DuelStateResponse): 'solved' | 'failed' | null {
+  const solved = state.status === 'ended' && state.winner === 0 && state.board.turn === 1;
+  if (solved) return 'solved';
+  if (state.status === 'ended' || state.board.turn > 1) return 'failed';
+  return null;
+}
@@ -5,13 +5,18 @@ import { DeckModel } from '../../models/deckModel';
 import { DuelEngineModel } from '../../models/duelEngineModel';
 import { DuelSideDeckModel } from '../../models/duelSideDeckModel';
 import { deckToEngine, buildEngineDeckFromIds, checkEngineDeck } from './deckLoader';
+import { withOpeningHand } from './goldfish';
+import { PUZZLE_ENGINE_OPTIONS, puzzleToEngine } from './puzzle';
 import {
   createEngineDuel,
+  type CreateDuelParams,
   chooseInEngine,
   destroyEngineDuel,
   isDuelLive,
 } from './engineClient';
-import type { DuelChoice, DuelSeat } from '../../../../shared/duelView';
+import type { EnginePlayerDeck } from './protocol';
+import type { DuelSeat } from '../../../../shared/duelView';
+import type { Duel } from '../../../../shared/types';
 
 /**
  * F6 · Reprise après redémarrage.
@@ -34,36 +39,41 @@ export interface RehydrateResult {
 }
 
 /**
- * Rejoue un duel depuis son journal.
+ * Les decks des deux sièges, tels que le moteur les a reçus au lancement.
  *
- * Attention : on n'utilise pas `viewEngineDuel` en boucle — chaque action se
- * fait via `chooseInEngine`, qui poussera à travers le worker. C'est plus lent
- * mais c'est la seule voie qui va bien : `buildResponse` a besoin du contexte
- * de l'invite courante pour traduire `optionIds` en réponse moteur.
+ * D'abord la copie figée au lancement (migration 036) : un deck modifié
+ * depuis ne change pas la partie. Un puzzle repart de ses plateaux, copiés à
+ * la création, avec les options moteur qui vont avec.
+ *
+ * Un duel lancé avant la migration n'a pas de copie. Sauf `frozenOnly` — le
+ * rejeu d'une partie finie, qui préfère ne rien montrer plutôt qu'une autre
+ * partie —, on reconstruit alors depuis les decks actuels. Manche ≥ 2 d'un
+ * match : les decks soumis au sideboard ; sinon les decks de base. Le siège 0
+ * est celui qui commence — même ordre que `duelEngineController.start`, faute
+ * de quoi le rejeu mélangerait les decks à l'envers. Dans un labo de combos,
+ * la main choisie repart sur le dessus du deck du joueur.
  */
-export async function rehydrateDuel(duelId: number): Promise<RehydrateResult> {
-  const duel = await DuelModel.findById(duelId);
-  if (!duel) return { duelId, ok: false, replayedActions: 0, error: 'duel introuvable' };
-  if (duel.status !== 'active') {
-    return { duelId, ok: false, replayedActions: 0, error: 'duel non actif' };
-  }
-  // `engine_mode` n'est pas exposé par le rowToDuel, on relit directement.
-  const modeRow = await query('SELECT engine_mode FROM duels WHERE id = $1', [duelId]);
-  if (!modeRow.rows[0]?.engine_mode) {
-    return { duelId, ok: false, replayedActions: 0, error: 'duel hors moteur' };
-  }
-
-  const seed = await DuelEngineModel.readSeed(duelId);
-  if (!seed || seed.length !== 4) {
-    return { duelId, ok: false, replayedActions: 0, error: 'graine absente ou invalide' };
-  }
-
-  // Compose les decks : soit soumission side-deck (manche ≥ 2), soit deck de base.
-  let players: [
-    { main: number[]; extra: number[] },
-    { main: number[]; extra: number[] },
-  ];
+export async function resolveEnginePlayers(
+  duel: Duel,
+  { frozenOnly = false }: { frozenOnly?: boolean } = {}
+): Promise<
+  | {
+      players: [EnginePlayerDeck, EnginePlayerDeck];
+      options?: Pick<CreateDuelParams, 'firstTurnAttack' | 'startingDrawCount'>;
+    }
+  | { error: string }
+> {
+  let players: [EnginePlayerDeck, EnginePlayerDeck];
   try {
+    if (duel.puzzle_id !== null && duel.puzzle_id !== undefined) {
+      const setup = await DuelEngineModel.readPuzzleSetup(duel.id);
+      if (!setup) return { error: 'plateaux du puzzle absents' };
+      return { players: puzzleToEngine(setup), options: PUZZLE_ENGINE_OPTIONS };
+    }
+    const frozen = await DuelEngineModel.readEngineDecks(duel.id);
+    if (frozen) return { players: frozen };
+    if (frozenOnly) return { error: 'decks non figés au lancement, partie antérieure à leur copie' };
+
     if (duel.match_id && (duel.game_number ?? 1) >= 2) {
       const gameNumber = (duel.game_number ?? 2) as 2 | 3;
       const [challengerSub, opponentSub] = await Promise.all([
@@ -71,7 +81,7 @@ export async function rehydrateDuel(duelId: number): Promise<RehydrateResult> {
         DuelSideDeckModel.findForUser(duel.match_id, duel.opponent_id, gameNumber),
       ]);
       if (!challengerSub || !opponentSub) {
-        return { duelId, ok: false, replayedActions: 0, error: 'side deck manquant pour manche ≥ 2' };
+        return { error: 'side deck manquant pour manche ≥ 2' };
       }
       const [cConv, oConv] = await Promise.all([
         buildEngineDeckFromIds(challengerSub.main_cards, challengerSub.extra_cards),
@@ -80,7 +90,7 @@ export async function rehydrateDuel(duelId: number): Promise<RehydrateResult> {
       const cProblem = checkEngineDeck(cConv);
       const oProblem = checkEngineDeck(oConv);
       if (cProblem || oProblem) {
-        return { duelId, ok: false, replayedActions: 0, error: cProblem ?? oProblem ?? 'deck invalide' };
+        return { error: cProblem ?? oProblem ?? 'deck invalide' };
       }
       players = [cConv.deck, oConv.deck];
     } else {
@@ -89,32 +99,64 @@ export async function rehydrateDuel(duelId: number): Promise<RehydrateResult> {
         DeckModel.findById(duel.opponent_deck_id!),
       ]);
       if (!challengerDeck || !opponentDeck) {
-        return { duelId, ok: false, replayedActions: 0, error: 'deck introuvable' };
+        return { error: 'deck introuvable' };
       }
       const cConv = deckToEngine(challengerDeck);
       const oConv = deckToEngine(opponentDeck);
       const cProblem = checkEngineDeck(cConv);
       const oProblem = checkEngineDeck(oConv);
       if (cProblem || oProblem) {
-        return { duelId, ok: false, replayedActions: 0, error: cProblem ?? oProblem ?? 'deck invalide' };
+        return { error: cProblem ?? oProblem ?? 'deck invalide' };
       }
       players = [cConv.deck, oConv.deck];
     }
   } catch (err) {
-    return {
-      duelId,
-      ok: false,
-      replayedActions: 0,
-      error: err instanceof Error ? err.message : String(err),
-    };
+    return { error: err instanceof Error ? err.message : String(err) };
   }
 
-  // Ordre des joueurs — cohérent avec `duelEngineController.start`.
+  if (duel.goldfish) players[0] = withOpeningHand(players[0], duel.opening_hand);
+
   const challengerIsFirst =
     !duel.first_player_id || duel.first_player_id === duel.challenger_id;
-  const orderedPlayers: [typeof players[0], typeof players[1]] = challengerIsFirst
-    ? [players[0], players[1]]
-    : [players[1], players[0]];
+  return { players: challengerIsFirst ? [players[0], players[1]] : [players[1], players[0]] };
+}
+
+/**
+ * Rejoue un duel depuis son journal.
+ *
+ * Attention : on n'utilise pas `viewEngineDuel` en boucle — chaque action se
+ * fait via `chooseInEngine`, qui poussera à travers le worker. C'est plus lent
+ * mais c'est la seule voie qui va bien : `buildResponse` a besoin du contexte
+ * de l'invite courante pour traduire `optionIds` en réponse moteur.
+ *
+ * `beforeSeq` arrête le rejeu avant cette décision, sans toucher au journal :
+ * le labo de combos s'en sert pour revenir en arrière.
+ */
+export async function rehydrateDuel(
+  duelId: number,
+  { beforeSeq }: { beforeSeq?: number } = {}
+): Promise<RehydrateResult> {
+  const duel = await DuelModel.findById(duelId);
+  if (!duel) return { duelId, ok: false, replayedActions: 0, error: 'duel introuvable' };
+  if (duel.status !== 'active') {
+    return { duelId, ok: false, replayedActions: 0, error: 'duel non actif' };
+  }
+  // `engine_mode` n'est pas exposé par le rowToDuel, on relit directement.
+  const modeRow = await query('SELECT engine_mode FROM duels WHERE id = $1', [duelId]);
+  if (!modeRow.rows[0]?.engine_mode) {
+    return { duelId, ok: false, replayedActions: 0, error: 'duel hors moteur' };
+  }
+
+  const seed = await DuelEngineModel.readSeed(duelId);
+  if (!seed || seed.length !== 4) {
+    return { duelId, ok: false, replayedActions: 0, error: 'graine absente ou invalide' };
+  }
+
+  const resolved = await resolveEnginePlayers(duel);
+  if ('error' in resolved) {
+    return { duelId, ok: false, replayedActions: 0, error: resolved.error };
+  }
+  const { players: orderedPlayers, options } = resolved;
 
   // Si le duel est déjà vivant côté moteur, on ne le recrée pas — quelqu'un
   // l'a rehydraté avant nous.
@@ -128,6 +170,7 @@ export async function rehydrateDuel(duelId: number): Promise<RehydrateResult> {
       seat: 0,
       players: orderedPlayers,
       seed: [seed[0], seed[1], seed[2], seed[3]] as [bigint, bigint, bigint, bigint],
+      ...options,
     });
   } catch (err) {
     return {
@@ -139,15 +182,13 @@ export async function rehydrateDuel(duelId: number): Promise<RehydrateResult> {
   }
 
   // Rejoue le journal — séquentiel, chaque `chooseInEngine` pumping la file.
-  const actions = await DuelEngineModel.readActions(duelId);
+  const actions = (await DuelEngineModel.readActions(duelId)).filter(
+    (a) => beforeSeq === undefined || a.seq < beforeSeq
+  );
   let replayed = 0;
   for (const { seat, choice } of actions) {
     try {
-      const choicePayload: DuelChoice = {
-        optionIds: choice.optionIds ?? [],
-        ...(choice.cancel ? { cancel: true } : {}),
-      };
-      await chooseInEngine(duelId, seat as DuelSeat, choicePayload);
+      await chooseInEngine(duelId, seat as DuelSeat, choice);
       replayed++;
     } catch (err) {
       // Une réponse peut échouer si le journal a été trafiqué ou si la version
@@ -0,0 +1,264 @@
+import { DuelEngineModel } from '../../models/duelEngineModel';
+import type { StoredComboLine } from '../../models/deckComboLineModel';
+import type { Duel } from '../../../../shared/types';
+import type { DuelLabHistory, DuelReplay, DuelReplayPlayer, DuelSeat } from '../../../../shared/duelView';
+import { exportEngineDuel, replayEngineDuel, type ReplayDuelParams } from './engineClient';
+import { resolveEnginePlayers } from './rehydrate';
+import { writeYrpx } from './yrpx';
+
+/**
+ * Rejeu pas à pas d'une partie finie.
+ *
+ * Même principe que la reprise (`rehydrate.ts`) : graine + journal de
+ * décisions = la partie, à l'identique. Sauf qu'ici on ne garde pas le duel
+ * vivant — le worker le rejoue d'une traite en photographiant le plateau
+ * avant chaque décision, puis le libère. Le même chemin sert l'export vers
+ * EDOPro (`yrpx.ts`), qui ne garde que les réponses brutes.
+ *
+ * Une partie finie ne change plus : son rejeu est mis en cache. Le cache est
+ * petit, car une partie longue pèse quelques centaines de kilo-octets.
+ */
+
+const CACHE_LIMIT = 20;
+const cache = new Map<number, DuelReplay>();
+
+function remember(replay: DuelReplay): void {
+  cache.delete(replay.duelId);
+  cache.set(replay.duelId, replay);
+  if (cache.size > CACHE_LIMIT) {
+    const oldest = cache.keys().next().value;
+    if (oldest !== undefined) cache.delete(oldest);
+  }
+}
+
+/** Joueurs par siège, dans l'ordre du moteur : le siège 0 a commencé. */
+function playersBySeat(duel: Duel): [DuelReplayPlayer, DuelReplayPlayer] {
+  const challenger = { id: duel.challenger_id, username: duel.challenger?.username ?? `#${duel.challenger_id}` };
+  const opponent = { id: duel.opponent_id, username: duel.opponent?.username ?? `#${duel.opponent_id}` };
+  const challengerIsFirst = !duel.first_player_id || duel.first_player_id === duel.challenger_id;
+  return challengerIsFirst ? [challenger, opponent] : [opponent, challenger];
+}
+
+/**
+ * Ce que le worker doit recevoir pour rejouer la partie : graine, decks par
+ * siège et journal. `{ error }` quand le duel ne se rejoue pas — joué hors
+ * moteur, pas encore fini, ou sans graine.
+ */
+async function replayParams(duel: Duel): Promise<ReplayDuelParams | { error: string }> {
+  if (duel.status !== 'finished') {
+    return { error: "Le rejeu n'est disponible qu'une fois la partie terminée" };
+  }
+  if (!duel.engine_mode) {
+    return { error: "Ce duel n'a pas été joué avec le moteur" };
+  }
+  const seed = await DuelEngineModel.readSeed(duel.id);
+  if (!seed || seed.length !== 4) {
+    return { error: 'Graine du duel absente : la partie ne peut pas être rejouée' };
+  }
+
+  const resolved = await resolveEnginePlayers(duel, { frozenOnly: true });
+  if ('error' in resolved) {
+    return { error: `Decks de la partie introuvables (${resolved.error})` };
+  }
+
+  const actions = await DuelEngineModel.readActions(duel.id);
+  return {
+    duelId: duel.id,
+    players: resolved.players,
+    seed: [seed[0], seed[1], seed[2], seed[3]],
+    actions: actions.map(({ seat, choice }) => ({ seat, choice })),
+    ...resolved.options,
+  };
+}
+
+/** Regroupe les images par tour, pour sauter directement à l'un d'eux. */
+function turnsOf(frames: DuelReplay['frames']): DuelReplay['turns'] {
+  const turns: DuelReplay['turns'] = [];
+  for (const frame of frames) {
+    if (turns[turns.length - 1]?.turn !== frame.board.turn) {
+      turns.push({ turn: frame.board.turn, frame: frame.index });
+    }
+  }
+  return turns;
+}
+
+/**
+ * Reconstruit la partie, une image par décision du journal.
+ *
+ * Un journal qui casse en route ne fait pas échouer le rejeu : les images
+ * obtenues sont rendues, avec `complete` à faux.
+ */
+export async function buildDuelReplay(duel: Duel): Promise<DuelReplay | { error: string }> {
+  const cached = cache.get(duel.id);
+  if (cached) {
+    remember(cached);
+    return cached;
+  }
+
+  const params = await replayParams(duel);
+  if ('error' in params) return params;
+  const result = await replayEngineDuel(params);
+  const turns = turnsOf(result.frames);
+
+  // Abandon ou chrono : la partie s'est arrêtée hors du moteur, le vainqueur
+  // est celui qu'a retenu la base.
+  const players = playersBySeat(duel);
+  let winner: DuelSeat | null = result.winner;
+  let winReason = result.winReason;
+  if (!result.ended && duel.winner_id) {
+    winner = players[0].id === duel.winner_id ? 0 : 1;
+    winReason = duel.puzzle_id ? 'puzzle non résolu dans le tour' : 'abandon ou temps écoulé';
+  }
+
+  const replay: DuelReplay = {
+    duelId: duel.id,
+    players,
+    frames: result.frames,
+    turns,
+    winner,
+    winReason,
+    complete: !result.error,
+    ...(result.error ? { error: result.error } : {}),
+  };
+  remember(replay);
+  return replay;
+}
+
+/**
+ * Fichier `.yrpX` de la partie, pour la revoir dans EDOPro.
+ *
+ * Un journal qui casse en route fait échouer l'export, à l'inverse du rejeu :
+ * un fichier tronqué s'ouvrirait dans EDOPro sans rien signaler, et la partie
+ * s'y arrêterait sans explication. Pour la même raison, les decks écrits dans
+ * le fichier sont ceux figés au lancement (`replayParams`), jamais les decks
+ * actuels : EDOPro rejouerait sinon une partie qui n'a pas eu lieu. Un duel
+ * lancé avant cette copie ne s'exporte pas.
+ */
+export async function buildDuelYrpx(duel: Duel): Promise<{ file: Buffer; filename: string } | { error: string }> {
+  // Un fichier EDOPro ne porte que des decks : les plateaux posés d'un puzzle
+  // n'y entrent pas.
+  if (duel.puzzle_id) return { error: "Un puzzle ne s'exporte pas vers EDOPro" };
+  const params = await replayParams(duel);
+  if ('error' in params) return params;
+
+  const result = await exportEngineDuel(params);
+  if (result.error) {
+    return { error: `Journal illisible, export impossible (${result.error})` };
+  }
+
+  const players = playersBySeat(duel);
+  const file = writeYrpx({
+    names: [players[0].username, players[1].username],
+    seed: params.seed,
+    decks: result.decks,
+    responses: result.responses,
+    duelFlags: result.duelFlags,
+    startingLP: params.startingLP ?? 8000,
+    startingDrawCount: params.startingDrawCount ?? 5,
+    drawCountPerTurn: params.drawCountPerTurn ?? 1,
+    coreVersion: result.coreVersion,
+    startedAt: Math.floor(new Date(duel.created_at).getTime() / 1000),
+  });
+  return { file, filename: `duel-${duel.id}.yrpX` };
+}
+
+/**
+ * Les décisions du joueur dans un labo de combos en cours, pour y revenir.
+ *
+ * Le journal est rejoué à part dans le worker — le duel vivant n'est pas
+ * touché. Chaque image dit quelle invite a reçu quelle réponse ; on ne garde
+ * que celles du joueur, celles du goldfish n'intéressent personne.
+ */
+export async function buildLabHistory(duel: Duel, seat: DuelSeat): Promise<DuelLabHistory | { error: string }> {
+  const seed = await DuelEngineModel.readSeed(duel.id);
+  if (!seed || seed.length !== 4) return { error: 'Graine du labo absente' };
+
+  const resolved = await resolveEnginePlayers(duel);
+  if ('error' in resolved) return { error: `Deck du labo introuvable (${resolved.error})` };
+
+  const actions = await DuelEngineModel.readActions(duel.id);
+  const result = await replayEngineDuel({
+    duelId: duel.id,
+    players: resolved.players,
+    seed: [seed[0], seed[1], seed[2], seed[3]],
+    actions: actions.map(({ seat: s, choice }) => ({ seat: s, choice })),
+  });
+
+  const decisions: DuelLabHistory['decisions'] = [];
+  for (const frame of result.frames) {
+    const action = actions[frame.index];
+    if (!action || !frame.decision || frame.decision.seat !== seat) continue;
+    decisions.push({
+      seq: action.seq,
+      turn: frame.board.turn,
+      prompt: frame.decision.prompt,
+      choice: frame.decision.choice,
+    });
+  }
+  return { duelId: duel.id, decisions };
+}
+
+/**
+ * Rejeux des lignes de combo, par ligne et date d'enregistrement : une ligne
+ * réenregistrée sous le même nom garde son id mais pas sa date. La promesse
+ * est gardée, pas le résultat : des visiteurs simultanés d'un deck public ne
+ * lancent qu'un rejeu dans le worker partagé avec les duels en cours.
+ */
+const lineCache = new Map<string, Promise<DuelReplay | { error: string }>>();
+
+/**
+ * Une ligne de combo enregistrée sur un deck, rejouée image par image — le
+ * même rejeu qu'une partie finie, reconstruit depuis la ligne plutôt que
+ * depuis un duel. Les decks sont ceux figés avec la ligne : un deck modifié
+ * depuis ne la casse pas. Une ligne enregistrée avant cette copie (migration
+ * 037) ne se rejoue pas : rien ne dit que le deck actuel est celui de la
+ * ligne.
+ */
+export function buildComboLineReplay(line: StoredComboLine): Promise<DuelReplay | { error: string }> {
+  const key = `${line.id}:${new Date(line.created_at).getTime()}`;
+  const cached = lineCache.get(key);
+  if (cached) {
+    lineCache.delete(key);
+    lineCache.set(key, cached);
+    return cached;
+  }
+
+  const replay = replayComboLine(line);
+  lineCache.set(key, replay);
+  if (lineCache.size > CACHE_LIMIT) {
+    const oldest = lineCache.keys().next().value;
+    if (oldest !== undefined) lineCache.delete(oldest);
+  }
+  // Un échec du worker ne reste pas en cache : la demande suivante retente.
+  replay.catch(() => lineCache.delete(key));
+  return replay;
+}
+
+async function replayComboLine(line: StoredComboLine): Promise<DuelReplay | { error: string }> {
+  if (line.seed.length !== 4) return { error: 'Graine de la ligne invalide' };
+  const players = line.players;
+  if (!players) {
+    return { error: 'Ligne enregistrée avant la copie des decks : elle ne se rejoue plus, réenregistrez-la depuis le labo' };
+  }
+
+  const author = { id: line.user.id, username: line.user.username };
+  const goldfish = { id: 0, username: 'Goldfish' };
+  const result = await replayEngineDuel({
+    duelId: line.id,
+    players,
+    seed: [line.seed[0], line.seed[1], line.seed[2], line.seed[3]],
+    actions: line.actions,
+  });
+
+  return {
+    // Aucune partie en base derrière une ligne.
+    duelId: 0,
+    players: line.go_first ? [author, goldfish] : [goldfish, author],
+    frames: result.frames,
+    turns: turnsOf(result.frames),
+    winner: result.winner,
+    winReason: result.winReason,
+    complete: !result.error,
+    ...(result.error ? { error: result.error } : {}),
+  };
+}
@@ -1,9 +1,12 @@
-import type { OcgCoreSync, OcgDuelHandle, OcgMessage } from 'ocgcore-wasm';
+import type { OcgCoreSync, OcgDuelHandle, OcgMessage, OcgResponse } from 'ocgcore-wasm';
 import type {
   DuelAnimationEvent,
   DuelChoice,
   DuelCombatLogEntry,
+  DuelCardView,
   DuelLogEntry,
+  DuelReplayDecision,
+  DuelReplayFrame,
   DuelReveal,
   DuelRevealBatch,
   DuelSeat,
@@ -12,7 +15,7 @@ import type {
 } from '../../../../shared/duelView';
 import type { CardStore } from './cardStore';
 import { cardNameOf } from './cardStore';
-import { buildBoardView } from './snapshot';
+import { buildBoardView, queryHand } from './snapshot';
 import { buildPrompt, buildResponse } from './prompt';
 import { systemString } from './hintStrings';
 import logger from '../../utils/logger';
@@ -152,7 +155,11 @@ export class DuelSession {
     this.lastActivityAt = Date.now();
   }
 
-  turn = 1;
+  /**
+   * Tour en cours, 1 pour le premier. Le moteur annonce chaque tour par un
+   * `NEW_TURN`, le premier compris : 0 tant que le duel n'a pas commencé.
+   */
+  turn = 0;
   phase = 0;
   turnPlayer: DuelSeat = 0;
   lp: [number, number];
@@ -165,6 +172,9 @@ export class DuelSession {
 
   private readonly log: DuelLogEntry[] = [];
 
+  /** Lignes poussées depuis le début, plafond compris — repère du rejeu. */
+  private logged = 0;
+
   /**
    * Dernière réponse refusée par le moteur, par siège.
    *
@@ -1175,6 +1185,7 @@ export class DuelSession {
   }
 
   private push(entry: DuelLogEntry): void {
+    this.logged++;
     this.log.push(entry);
     if (this.log.length > LOG_LIMIT) this.log.splice(0, this.log.length - LOG_LIMIT);
   }
@@ -1184,8 +1195,10 @@ export class DuelSession {
    *
    * Refuse si ce n'est pas à ce joueur de répondre : sans ce contrôle, un
    * client pourrait jouer à la place de son adversaire.
+   *
+   * Rend la réponse transmise, pour qui veut la garder (export EDOPro).
    */
-  applyChoice(lib: OcgCoreSync, ocg: Ocg, seat: DuelSeat, choice: DuelChoice, store: CardStore): void {
+  applyChoice(lib: OcgCoreSync, ocg: Ocg, seat: DuelSeat, choice: DuelChoice, store: CardStore): OcgResponse {
     if (!this.pending) {
       throw new Error("Le moteur n'attend aucune décision");
     }
@@ -1209,6 +1222,7 @@ export class DuelSession {
     // libellés d'effets aussi. On les réinitialise pour la prochaine invite.
     this.pendingOptionLabels = [];
     this.pendingHint = null;
+    return response;
   }
 
   /**
@@ -1354,4 +1368,80 @@ export class DuelSession {
     if (animationsVisible.length) response.animations = animationsVisible;
     return response;
   }
+
+  /** Repère dans le journal, à repasser à `logSince`. */
+  logMark(): number {
+    return this.logged;
+  }
+
+  /** Lignes apparues depuis `mark` (dans la limite de ce que le plafond a gardé). */
+  logSince(mark: number): DuelLogEntry[] {
+    const count = Math.min(this.logged - mark, this.log.length);
+    return count > 0 ? this.log.slice(-count) : [];
+  }
+
+  /**
+   * Image du rejeu : plateau public et les deux mains à part.
+   *
+   * Les textes de cartes sont retirés : répétés à chaque image, ils faisaient
+   * l'essentiel du poids d'une partie rejouée, et le nom suffit à l'écran.
+   */
+  replayFrame(lib: OcgCoreSync, ocg: Ocg, store: CardStore): Pick<DuelReplayFrame, 'board' | 'hands'> {
+    const board = buildBoardView(
+      lib,
+      ocg,
+      this.handle,
+      0,
+      {
+        turn: this.turn,
+        phase: this.phase,
+        turnPlayer: this.turnPlayer,
+        lp: this.lp,
+        chainSolvingLink: this.chainSolvingLink,
+      },
+      store,
+      true
+    );
+    const strip = <T extends DuelCardView | null>(card: T): T => {
+      if (!card?.description) return card;
+      const { description: _text, ...rest } = card;
+      return rest as T;
+    };
+    for (const side of [board.me, board.opponent]) {
+      side.monsters = side.monsters.map(strip);
+      side.spells = side.spells.map(strip);
+      side.graveyard = side.graveyard.map(strip);
+      side.banished = side.banished.map(strip);
+    }
+    return {
+      board,
+      hands: [
+        queryHand(lib, ocg, this.handle, 0, store).map(strip),
+        queryHand(lib, ocg, this.handle, 1, store).map(strip),
+      ],
+    };
+  }
+
+  /**
+   * Raconte une décision du journal avant de l'appliquer : l'invite telle que
+   * le joueur l'a vue et les libellés des options retenues.
+   */
+  describeChoice(ocg: Ocg, seat: DuelSeat, choice: DuelChoice, store: CardStore): DuelReplayDecision {
+    const prompt = this.pending
+      ? buildPrompt(ocg, this.pending, store, this.consumeHintFor(seat))
+      : null;
+    if (!prompt) return { seat, prompt: '', choice: [] };
+    if (choice.cancel) return { seat, prompt: prompt.message, choice: ['Passer'] };
+
+    const labels = choice.optionIds.map(
+      (id) => prompt.options.find((o) => o.id === id)?.label ?? id
+    );
+    for (const { targetIdx, take } of choice.counters ?? []) {
+      const target = prompt.counter?.targets.find((t) => t.targetIdx === targetIdx);
+      if (take > 0) labels.push(`${target?.cardName ?? `#${targetIdx}`} ×${take}`);
+    }
+    if (choice.announcedCode !== undefined) labels.push(cardNameOf(store, choice.announcedCode));
+    for (const code of choice.cardCodes ?? []) labels.push(cardNameOf(store, code));
+    return { seat, prompt: prompt.message, choice: labels };
+  }
 }
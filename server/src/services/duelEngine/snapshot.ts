@@ -207,6 +207,17 @@ function buildSide(
   };
 }
 
+/** Main détaillée d'un siège, hors de toute vue — pour le rejeu, qui montre les deux. */
+export function queryHand(
+  lib: OcgCoreSync,
+  ocg: Ocg,
+  handle: OcgDuelHandle,
+  seat: DuelSeat,
+  store: CardStore
+): DuelCardView[] {
+  return queryList(lib, ocg, handle, seat, ocg.OcgLocation.HAND, true, store);
+}
+
 export interface SnapshotContext {
   turn: number;
   phase: number;
@@ -1,6 +1,6 @@
 import { parentPort } from 'worker_threads';
-import type { OcgCoreSync } from 'ocgcore-wasm';
-import type { DuelSeat, DuelStateResponse } from '../../../../shared/duelView';
+import type { OcgCoreSync, OcgDuelHandle, OcgLocation, OcgPosition } from 'ocgcore-wasm';
+import type { DuelReplayFrame, DuelSeat, DuelStateResponse } from '../../../../shared/duelView';
 import {
   getCore,
   getOcgModule,
@@ -13,11 +13,15 @@ import { DuelSession } from './session';
 import { searchAnnounceCards } from './prompt';
 import { loadHintStrings } from './hintStrings';
 import { loadNamesFrFromDb } from './namesFr';
+import { encodeResponse } from './yrpx';
 import type {
   EngineRequest,
   EngineResponse,
   EngineStats,
   EnginePlayerDeck,
+  EnginePlacedCard,
+  EngineReplayResult,
+  EngineExportResult,
 } from './protocol';
 
 /**
@@ -178,31 +182,76 @@ function shuffled(cards: readonly number[], rng: () => number): number[] {
   return a;
 }
 
-function createSession(req: Extract<EngineRequest, { type: 'create' }>): DuelStateResponse {
+/**
+ * Le Main Deck dans l'ordre d'insertion : mélangé, puis les cartes de `top`
+ * (labo de combos) posées en dernier — le moteur piochant par la fin, `top[0]`
+ * sort en premier. Une carte de `top` absente du deck est ignorée.
+ */
+function stacked(deck: EnginePlayerDeck, rng: () => number): number[] {
+  const rest = [...deck.main];
+  const top: number[] = [];
+  for (const code of deck.top ?? []) {
+    const at = rest.indexOf(code);
+    if (at === -1) continue;
+    rest.splice(at, 1);
+    top.push(code);
+  }
+  return [...shuffled(rest, rng), ...top.reverse()];
+}
+
+/** Emplacement moteur d'une carte posée par un puzzle. */
+const PLACED_LOCATION: Record<EnginePlacedCard['location'], (mod: typeof import('ocgcore-wasm')) => OcgLocation> = {
+  hand: (mod) => mod.OcgLocation.HAND,
+  monster: (mod) => mod.OcgLocation.MZONE,
+  spell: (mod) => mod.OcgLocation.SZONE,
+  grave: (mod) => mod.OcgLocation.GRAVE,
+  banished: (mod) => mod.OcgLocation.REMOVED,
+};
+
+function placedPosition(mod: typeof import('ocgcore-wasm'), card: EnginePlacedCard): OcgPosition {
+  const P = mod.OcgPosition;
+  if (card.location === 'hand') return P.FACEDOWN_DEFENSE;
+  if (card.position === 'defense') return P.FACEUP_DEFENSE;
+  if (card.position === 'set') return P.FACEDOWN_DEFENSE;
+  return P.FACEUP_ATTACK;
+}
+
+/** Ce qu'il faut pour monter une partie — commun à `create` et `replay`. */
+type DuelSetup = Pick<
+  Extract<EngineRequest, { type: 'create' }>,
+  'seed' | 'players' | 'startingLP' | 'startingDrawCount' | 'drawCountPerTurn' | 'firstTurnAttack'
+>;
+
+/** Règles du duel : Master Rule 5, plus l'attaque au premier tour pour un puzzle. */
+function duelFlags(mod: typeof import('ocgcore-wasm'), req: DuelSetup): bigint {
+  return req.firstTurnAttack
+    ? mod.OcgDuelMode.MODE_MR5 | mod.OcgDuelMode.ATTACK_FIRST_TURN
+    : mod.OcgDuelMode.MODE_MR5;
+}
+
+/**
+ * Crée le duel dans le moteur et y place les deux decks, sans le démarrer.
+ *
+ * Rend aussi les decks dans l'ordre où ils ont été insérés, mélange compris :
+ * c'est cet ordre qu'un fichier de rejeu EDOPro doit reproduire.
+ */
+function openDuel(req: DuelSetup): { handle: OcgDuelHandle; decks: [EnginePlayerDeck, EnginePlayerDeck] } {
   const lib = core!;
   const mod = ocg!;
   const cards = store!;
 
-  if (sessions.has(req.duelId)) destroySession(req.duelId);
-
-  if (sessions.size >= MAX_CONCURRENT_DUELS) {
-    throw new Error(
-      `Le serveur héberge déjà ${sessions.size} duels — réessaie dans un moment`
-    );
-  }
-
   const handle = lib.createDuel({
-    flags: mod.OcgDuelMode.MODE_MR5,
+    flags: duelFlags(mod, req),
     seed: req.seed,
     team1: {
       drawCountPerTurn: req.drawCountPerTurn,
       startingDrawCount: req.startingDrawCount,
-      startingLP: req.startingLP,
+      startingLP: req.players[0].lp ?? req.startingLP,
     },
     team2: {
       drawCountPerTurn: req.drawCountPerTurn,
       startingDrawCount: req.startingDrawCount,
-      startingLP: req.startingLP,
+      startingLP: req.players[1].lp ?? req.startingLP,
     },
     cardReader: (code) => resolveCard(code, cards),
     scriptReader,
@@ -224,8 +273,9 @@ function createSession(req: Extract<EngineRequest, { type: 'create' }>): DuelSta
   // mais l'ensemble reste reproductible à partir de la graine.
   const rng = makeRng(req.seed);
 
-  const addDeck = (team: 0 | 1, deck: EnginePlayerDeck): void => {
-    for (const code of shuffled(deck.main, rng)) {
+  const addDeck = (team: 0 | 1, deck: EnginePlayerDeck): EnginePlayerDeck => {
+    const main = stacked(deck, rng);
+    for (const code of main) {
       lib.duelNewCard(handle, {
         code,
         team,
@@ -247,12 +297,49 @@ function createSession(req: Extract<EngineRequest, { type: 'create' }>): DuelSta
         sequence: 0,
       });
     }
+    // Puzzle : le moteur accepte une carte à n'importe quel emplacement tant
+    // que le duel n'a pas démarré. Le Main Deck, lui, reste tel quel.
+    for (const card of deck.placed ?? []) {
+      lib.duelNewCard(handle, {
+        code: card.code,
+        team,
+        duelist: 0,
+        controller: team,
+        location: PLACED_LOCATION[card.location](mod),
+        position: placedPosition(mod, card),
+        sequence: card.sequence,
+      });
+    }
+    return { main, extra: [...deck.extra] };
   };
 
-  addDeck(0, req.players[0]);
-  addDeck(1, req.players[1]);
+  const decks: [EnginePlayerDeck, EnginePlayerDeck] = [addDeck(0, req.players[0]), addDeck(1, req.players[1])];
 
+  return { handle, decks };
+}
+
+/** La session d'un duel ouvert, LP de départ compris (un puzzle les fixe par joueur). */
+function openSession(handle: OcgDuelHandle, req: DuelSetup & { duelId: number }): DuelSession {
   const session = new DuelSession(handle, req.startingLP, req.duelId);
+  session.lp = [req.players[0].lp ?? req.startingLP, req.players[1].lp ?? req.startingLP];
+  return session;
+}
+
+function createSession(req: Extract<EngineRequest, { type: 'create' }>): DuelStateResponse {
+  const lib = core!;
+  const mod = ocg!;
+  const cards = store!;
+
+  if (sessions.has(req.duelId)) destroySession(req.duelId);
+
+  if (sessions.size >= MAX_CONCURRENT_DUELS) {
+    throw new Error(
+      `Le serveur héberge déjà ${sessions.size} duels — réessaie dans un moment`
+    );
+  }
+
+  const { handle } = openDuel(req);
+  const session = openSession(handle, req);
   sessions.set(req.duelId, session);
 
   lib.startDuel(handle);
@@ -261,6 +348,106 @@ function createSession(req: Extract<EngineRequest, { type: 'create' }>): DuelSta
   return session.view(lib, mod, req.duelId, req.seat, cards);
 }
 
+/**
+ * Rejoue une partie finie, une image par décision du journal.
+ *
+ * La session est locale : elle n'entre pas dans `sessions`, ne compte pas
+ * dans le plafond et ne peut pas être purgée en cours de route. Le tout est
+ * synchrone, aucune autre requête ne s'intercale ; le handle est libéré avant
+ * de rendre la main, quoi qu'il arrive.
+ */
+function replayDuel(req: Extract<EngineRequest, { type: 'replay' }>): EngineReplayResult {
+  const lib = core!;
+  const mod = ocg!;
+  const cards = store!;
+
+  const { handle } = openDuel(req);
+  try {
+    const session = openSession(handle, req);
+    lib.startDuel(handle);
+    session.pump(lib, mod, cards, MAX_STEPS_PER_TURN);
+
+    const frames: DuelReplayFrame[] = [];
+    let mark = 0;
+    const frame = (): DuelReplayFrame => {
+      const log = session.logSince(mark);
+      mark = session.logMark();
+      return { index: frames.length, ...session.replayFrame(lib, mod, cards), log };
+    };
+
+    let error: string | undefined;
+    for (const [i, action] of req.actions.entries()) {
+      if (session.ended) break;
+      const current = frame();
+      current.decision = session.describeChoice(mod, action.seat, action.choice, cards);
+      frames.push(current);
+      try {
+        session.applyChoice(lib, mod, action.seat, action.choice, cards);
+      } catch (err) {
+        error = `décision ${i + 1} : ${err instanceof Error ? err.message : String(err)}`;
+        break;
+      }
+      session.pump(lib, mod, cards, MAX_STEPS_PER_TURN);
+    }
+    frames.push(frame());
+
+    return {
+      frames,
+      winner: session.winner,
+      winReason: session.winReason ?? undefined,
+      ended: session.ended,
+      error,
+    };
+  } finally {
+    lib.destroyDuel(handle);
+  }
+}
+
+/**
+ * Rejoue une partie finie pour en tirer un fichier EDOPro : les decks tels
+ * que le moteur les a reçus et chaque réponse, octet pour octet.
+ *
+ * Mêmes garanties que `replayDuel` : session locale, handle libéré avant de
+ * rendre la main. Une décision refusée arrête l'export ; les réponses qui la
+ * précèdent restent valables.
+ */
+function exportDuel(req: Extract<EngineRequest, { type: 'export' }>): EngineExportResult {
+  const lib = core!;
+  const mod = ocg!;
+  const cards = store!;
+
+  const { handle, decks } = openDuel(req);
+  try {
+    const session = openSession(handle, req);
+    lib.startDuel(handle);
+    session.pump(lib, mod, cards, MAX_STEPS_PER_TURN);
+
+    const responses: Uint8Array[] = [];
+    let error: string | undefined;
+    for (const [i, action] of req.actions.entries()) {
+      if (session.ended) break;
+      try {
+        responses.push(encodeResponse(session.applyChoice(lib, mod, action.seat, action.choice, cards)));
+      } catch (err) {
+        error = `décision ${i + 1} : ${err instanceof Error ? err.message : String(err)}`;
+        break;
+      }
+      session.pump(lib, mod, cards, MAX_STEPS_PER_TURN);
+    }
+
+    const [major, minor] = lib.getVersion();
+    return {
+      decks,
+      responses,
+      duelFlags: duelFlags(mod, req),
+      coreVersion: [major, minor],
+      error,
+    };
+  } finally {
+    lib.destroyDuel(handle);
+  }
+}
+
 function destroySession(duelId: number): null {
   const session = sessions.get(duelId);
   if (!session) return null;
@@ -357,6 +544,12 @@ async function handle(req: EngineRequest): Promise<EngineResponse> {
       case 'destroy':
         return { id: req.id, ok: true, result: destroySession(req.duelId) };
 
+      case 'replay':
+        return { id: req.id, ok: true, result: replayDuel(req) };
+
+      case 'export':
+        return { id: req.id, ok: true, result: exportDuel(req) };
+
       case 'stats':
         return { id: req.id, ok: true, result: stats() };
 
@@ -0,0 +1,299 @@
+import type { OcgResponse } from 'ocgcore-wasm';
+import type { EnginePlayerDeck } from './protocol';
+
+/**
+ * Export des parties au format de rejeu d'EDOPro (`.yrpX`).
+ *
+ * Un `.yrpX` contient deux choses : le flux des messages du moteur, que
+ * l'application relit tel quel, et — dans un paquet final — un `.yrp` à
+ * l'ancienne : graine, decks et réponses des joueurs, qu'EDOPro rejoue en
+ * relançant le moteur. Le premier nous est inaccessible : ocgcore-wasm ne
+ * rend que des messages déjà décodés, jamais leurs octets. On écrit donc le
+ * second, qui suffit : même graine, mêmes decks dans le même ordre, mêmes
+ * réponses, même partie.
+ *
+ * Le corps n'est pas compressé (pas de LZMA côté serveur) : l'en-tête le dit,
+ * EDOPro lit les deux.
+ */
+
+// Drapeaux de l'en-tête, repris de `replay.h` d'EDOPro.
+export const REPLAY_COMPRESSED = 0x1;
+export const REPLAY_NEWREPLAY = 0x20;
+export const REPLAY_64BIT_DUELFLAG = 0x100;
+export const REPLAY_EXTENDED_HEADER = 0x200;
+
+/** `'yrp1'` et `'yrpX'` lus en petit-boutiste. */
+export const REPLAY_YRP1 = 0x31707279;
+export const REPLAY_YRPX = 0x58707279;
+
+/** Type du paquet qui embarque le `.yrp` dans un `.yrpX`. */
+export const OLD_REPLAY_MODE = 231;
+
+/** Un nom de joueur : 20 caractères UTF-16, zéro final compris. */
+const NAME_LENGTH = 20;
+
+/** Une réponse fait au plus 255 octets : sa longueur tient sur un octet. */
+const MAX_RESPONSE_LENGTH = 0xff;
+
+/** Tampon extensible, petit-boutiste et sans alignement — comme ocgcore. */
+class ByteWriter {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private off = 0;
+
+  private grow(size: number): void {
+    if (this.off + size <= this.buffer.byteLength) return;
+    const next = new Uint8Array(Math.max(this.buffer.byteLength * 2, this.off + size));
+    next.set(this.buffer);
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  i8(value: number): this {
+    this.grow(1);
+    this.view.setInt8(this.off, value);
+    this.off += 1;
+    return this;
+  }
+
+  u8(value: number): this {
+    this.grow(1);
+    this.view.setUint8(this.off, value);
+    this.off += 1;
+    return this;
+  }
+
+  u16(value: number): this {
+    this.grow(2);
+    this.view.setUint16(this.off, value, true);
+    this.off += 2;
+    return this;
+  }
+
+  i16(value: number): this {
+    this.grow(2);
+    this.view.setInt16(this.off, value, true);
+    this.off += 2;
+    return this;
+  }
+
+  u32(value: number): this {
+    this.grow(4);
+    this.view.setUint32(this.off, value >>> 0, true);
+    this.off += 4;
+    return this;
+  }
+
+  i32(value: number): this {
+    this.grow(4);
+    this.view.setInt32(this.off, value, true);
+    this.off += 4;
+    return this;
+  }
+
+  u64(value: bigint): this {
+    this.grow(8);
+    this.view.setBigUint64(this.off, BigInt.asUintN(64, value), true);
+    this.off += 8;
+    return this;
+  }
+
+  bytes(data: Uint8Array): this {
+    this.grow(data.byteLength);
+    this.buffer.set(data, this.off);
+    this.off += data.byteLength;
+    return this;
+  }
+
+  get length(): number {
+    return this.off;
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.from(this.buffer.subarray(0, this.off));
+  }
+}
+
+/**
+ * Sérialise une réponse comme `duelSetResponse` la transmet au moteur.
+ *
+ * ocgcore-wasm fait ce travail en interne sans l'exposer ; ceci en est la
+ * copie fidèle. Un écart d'un octet et le rejeu EDOPro diverge dès la
+ * décision concernée — d'où le test qui fige chaque cas.
+ */
+export function encodeResponse(response: OcgResponse): Uint8Array {
+  const w = new ByteWriter();
+  switch (response.type) {
+    case 0: // SELECT_BATTLECMD
+    case 1: // SELECT_IDLECMD
+      w.i32(response.action | ((response.index ?? 0) << 16));
+      break;
+    case 2: // SELECT_EFFECTYN
+    case 3: // SELECT_YESNO
+      w.i32(response.yes ? 1 : 0);
+      break;
+    case 4: // SELECT_OPTION
+      w.i32(response.index);
+      break;
+    case 5: // SELECT_CARD
+    case 12: // SELECT_TRIBUTE
+    case 14: // SELECT_SUM
+      if (response.indicies) {
+        w.i32(0).i32(response.indicies.length);
+        for (const i of response.indicies) w.i32(i);
+      } else {
+        w.i32(-1);
+      }
+      break;
+    case 6: // SELECT_CARD_CODES
+      if (response.codes) {
+        w.i32(0).i32(response.codes.length);
+        for (const code of response.codes) w.i32(code);
+      } else {
+        w.i32(-1);
+      }
+      break;
+    case 7: // SELECT_UNSELECT_CARD
+      if (response.index === null) w.i32(-1);
+      else w.i32(1).i32(response.index);
+      break;
+    case 8: // SELECT_CHAIN
+      w.i32(response.index === null ? -1 : response.index);
+      break;
+    case 9: // SELECT_DISFIELD
+    case 10: // SELECT_PLACE
+      for (const place of response.places) {
+        w.i8(place.player).i8(place.location).i8(place.sequence);
+      }
+      break;
+    case 11: // SELECT_POSITION
+      w.i32(response.position);
+      break;
+    case 13: // SELECT_COUNTER
+      for (const count of response.counters) w.i16(count);
+      break;
+    case 15: // SORT_CARD
+      if (!response.order) {
+        w.i8(-1);
+      } else {
+        w.i8(response.order.length);
+        for (const i of response.order) w.i8(i);
+      }
+      break;
+    case 16: // ANNOUNCE_RACE
+      w.u64(response.races.reduce((acc, race) => acc | race, 0n));
+      break;
+    case 17: // ANNOUNCE_ATTRIB
+      w.u32(response.attributes.reduce((acc: number, attr) => acc | attr, 0));
+      break;
+    case 18: // ANNOUNCE_CARD
+      w.i32(response.card);
+      break;
+    case 19: // ANNOUNCE_NUMBER
+    case 20: // ROCK_PAPER_SCISSORS
+      w.i32(response.value);
+      break;
+  }
+  return new Uint8Array(w.toBuffer());
+}
+
+export interface YrpxParams {
+  /** Pseudos des deux joueurs, siège 0 (celui qui commence) en premier. */
+  names: [string, string];
+  seed: [bigint, bigint, bigint, bigint];
+  /** Decks dans l'ordre où le moteur les a reçus. */
+  decks: [EnginePlayerDeck, EnginePlayerDeck];
+  responses: Uint8Array[];
+  duelFlags: bigint;
+  startingLP: number;
+  startingDrawCount: number;
+  drawCountPerTurn: number;
+  /** Version d'ocgcore, `[majeure, mineure]`, reportée dans l'en-tête. */
+  coreVersion: [number, number];
+  /** Date de la partie, en secondes Unix. */
+  startedAt: number;
+}
+
+/** Les 32 octets communs aux deux formats. */
+function writeHeader(
+  w: ByteWriter,
+  type: number,
+  version: number,
+  flag: number,
+  seed: number,
+  datasize: number
+): void {
+  w.u32(type).u32(version).u32(flag).u32(seed).u32(datasize).u32(0);
+  for (let i = 0; i < 8; i++) w.u8(0); // propriétés LZMA, inutiles sans compression
+}
+
+/** Un siège par équipe : un compteur puis les noms, tronqués à 19 caractères. */
+function writeNames(w: ByteWriter, names: [string, string]): void {
+  for (const name of names) {
+    w.u32(1);
+    const units = name.slice(0, NAME_LENGTH - 1);
+    for (let i = 0; i < NAME_LENGTH; i++) {
+      w.u16(i < units.length ? units.charCodeAt(i) : 0);
+    }
+  }
+}
+
+/** Le `.yrp` embarqué : de quoi relancer le moteur et rejouer chaque réponse. */
+function writeYrp1(params: YrpxParams, version: number): Buffer {
+  const body = new ByteWriter();
+  writeNames(body, params.names);
+  body.u32(params.startingLP).u32(params.startingDrawCount).u32(params.drawCountPerTurn);
+  body.u64(params.duelFlags);
+  for (const deck of params.decks) {
+    body.u32(deck.main.length);
+    for (const code of deck.main) body.u32(code);
+    body.u32(deck.extra.length);
+    for (const code of deck.extra) body.u32(code);
+  }
+  body.u32(0); // cartes de règles : aucune
+  for (const [i, response] of params.responses.entries()) {
+    if (response.byteLength > MAX_RESPONSE_LENGTH) {
+      throw new Error(`Réponse ${i + 1} trop longue pour le format (${response.byteLength} octets)`);
+    }
+    body.u8(response.byteLength).bytes(response);
+  }
+
+  // En-tête étendu : la graine 256 bits d'ocgcore ne tient pas dans le champ
+  // `seed` historique, qui reste à zéro.
+  const w = new ByteWriter();
+  writeHeader(
+    w,
+    REPLAY_YRP1,
+    version,
+    REPLAY_NEWREPLAY | REPLAY_64BIT_DUELFLAG | REPLAY_EXTENDED_HEADER,
+    0,
+    body.length
+  );
+  w.u64(1n); // version de l'en-tête étendu
+  for (const part of params.seed) w.u64(part);
+  w.bytes(body.toBuffer());
+  return w.toBuffer();
+}
+
+/** Écrit le fichier `.yrpX` complet. */
+export function writeYrpx(params: YrpxParams): Buffer {
+  const version = ((params.coreVersion[0] & 0xffff) << 16) | (params.coreVersion[1] & 0xffff);
+  const yrp1 = writeYrp1(params, version);
+
+  const body = new ByteWriter();
+  writeNames(body, params.names);
+  body.u64(params.duelFlags);
+  body.u8(OLD_REPLAY_MODE).u32(yrp1.byteLength).bytes(yrp1);
+
+  const w = new ByteWriter();
+  writeHeader(
+    w,
+    REPLAY_YRPX,
+    version,
+    REPLAY_NEWREPLAY | REPLAY_64BIT_DUELFLAG,
+    params.startedAt,
+    body.length
+  );
+  w.bytes(body.toBuffer());
+  return w.toBuffer();
+}
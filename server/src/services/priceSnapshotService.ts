@@ -0,0 +1,57 @@
+/**
+ * Photo quotidienne des prix — alimente l'historique de valeur des collections.
+ *
+ * Quatre temps, en série :
+ *   1. rafraîchir `cards.card_prices` des cartes possédées ou surveillées
+ *      (YGOProDeck, par lots) : sans ça, le prix en cache date de l'ajout de
+ *      la carte et l'historique serait plat ;
+ *   2. noter le prix Cardmarket EUR de chacune (`cardmarketPriceEUR`, la même
+ *      règle que `getCollectionStats`) ;
+ *   3. en déduire la valeur de chaque collection du jour ;
+ *   4. prévenir ceux dont une carte recherchée est passée sous leur prix cible
+ *      (`price_alert`, poussée en direct via `notify`).
+ *
+ * Idempotent à la journée : relancer le job écrase la photo du jour.
+ */
+
+import { CardModel } from '../models/cardModel';
+import { PriceHistoryModel } from '../models/priceHistoryModel';
+import { BinderModel } from '../models/binderModel';
+import { NotificationModel } from '../models/notificationModel';
+import type { Notification } from '../../../shared/types';
+import { YGOProDeckService } from './ygoprodeckService';
+import { cardmarketPriceEUR } from '../utils/prices';
+
+export interface PriceSnapshotReport {
+  date: string;
+  refreshed: number;
+  priced_cards: number;
+  collections: number;
+  price_alerts: number;
+}
+
+export async function runDailyPriceSnapshot(
+  date: string = new Date().toISOString().slice(0, 10),
+  notify?: (notification: Notification) => void
+): Promise<PriceSnapshotReport> {
+  const cards = await PriceHistoryModel.getCollectedCards();
+
+  const fresh = await YGOProDeckService.getCardPricesByIds(cards.map((c) => c.card_id));
+  for (const [cardId, prices] of fresh) {
+    await CardModel.updatePrices(cardId, prices);
+  }
+
+  const prices: Array<{ card_id: number; price_eur: number }> = [];
+  for (const card of cards) {
+    const p = cardmarketPriceEUR(fresh.get(card.card_id) ?? card.card_prices);
+    if (p) prices.push({ card_id: card.id, price_eur: p });
+  }
+
+  const priced = await PriceHistoryModel.recordCardPrices(date, prices);
+  const collections = await PriceHistoryModel.recordCollectionValues(date);
+
+  const alerts = await NotificationModel.createPriceAlerts(await BinderModel.takePriceAlerts(prices));
+  if (notify) alerts.forEach(notify);
+
+  return { date, refreshed: fresh.size, priced_cards: priced, collections, price_alerts: alerts.length };
+}
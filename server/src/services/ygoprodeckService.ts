@@ -1,5 +1,7 @@
 import axios from 'axios';
-import { Card } from '../../../shared/types';
+import { Card, CardPrices } from '../../../shared/types';
+import { CardModel } from '../models/cardModel';
+import { CardCatalogModel } from '../models/cardCatalogModel';
 
 const API_BASE_URL = process.env.YGOPRODECK_API_URL || 'https://db.ygoprodeck.com/api/v7';
 
@@ -7,6 +9,10 @@ const API_BASE_URL = process.env.YGOPRODECK_API_URL || 'https://db.ygoprodeck.co
 // hang Node workers indefinitely.
 const ygoHttp = axios.create({ timeout: 5000 });
 
+// Le catalogue complet pèse plusieurs dizaines de Mo : seul le job de synchro
+// l'appelle, avec une marge bien plus large.
+const ygoCatalogHttp = axios.create({ timeout: 120_000 });
+
 interface YGOProDeckCard {
   id: number;
   name: string;
@@ -33,6 +39,37 @@ let cardSetsCache: { set_name: string; set_code: string }[] | null = null;
 let cardSetsCacheTime: number = 0;
 const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
 
+// Miroir local (cf. cardCatalogService) : une fois le catalogue importé, les
+// recherches ne sortent plus vers l'API. L'état est relu toutes les 5 minutes.
+let mirrorReady = false;
+let mirrorCheckedAt = 0;
+const MIRROR_TTL = 5 * 60 * 1000;
+
+async function hasLocalMirror(): Promise<boolean> {
+  const now = Date.now();
+  if (now - mirrorCheckedAt < MIRROR_TTL) return mirrorReady;
+  try {
+    mirrorReady = (await CardCatalogModel.getLastSync()) !== null;
+  } catch {
+    mirrorReady = false;
+  }
+  mirrorCheckedAt = now;
+  return mirrorReady;
+}
+
+/**
+ * Carte de la base remise au format de l'API : `parseCard` expose le FR dans
+ * `name` / `description`, alors que les appelants (scan, upsert) attendent
+ * l'anglais et le FR à part, comme dans `transformCard`.
+ */
+function fromCatalog(card: Card): Card {
+  return {
+    ...card,
+    name: card.name_en ?? card.name,
+    description: card.description_en ?? card.description,
+  };
+}
+
 /**
  * Fetch la version FR d'une carte via ?language=fr et retourne juste
  * { name_fr, description_fr }. Retourne null si l'API n'a pas la carte
@@ -53,9 +90,14 @@ async function fetchFrenchTranslation(cardId: number | string): Promise<{ name_f
 
 export class YGOProDeckService {
   /**
-   * Get all card sets from API (cached)
+   * Get all card sets, from the local mirror when synced, else from the API (cached)
    */
   static async getCardSets(): Promise<{ set_name: string; set_code: string }[]> {
+    if (await hasLocalMirror()) {
+      const sets = await CardCatalogModel.getSets();
+      if (sets.length > 0) return sets;
+    }
+
     const now = Date.now();
     if (cardSetsCache && (now - cardSetsCacheTime) < CACHE_TTL) {
       return cardSetsCache;
@@ -148,9 +190,18 @@ export class YGOProDeckService {
    * Fetch card by set code using the cardset endpoint
    * Example: LDK2-FRK40 -> extracts set name "Legendary Decks II" and searches
    * Supports French, German, Italian, Portuguese, Spanish card codes
+   * Looks up card_printings first; once the catalog is mirrored, never calls the API
    */
   static async getCardBySetCode(setCode: string): Promise<{ card: Card | null; error?: string }> {
     try {
+      // Normalize the set code to English format for comparison
+      const normalizedSetCode = this.normalizeSetCode(setCode);
+
+      const local =
+        (await CardModel.findBySetCode(normalizedSetCode)) ??
+        (normalizedSetCode.toUpperCase() !== setCode.toUpperCase() ? await CardModel.findBySetCode(setCode) : null);
+      if (local) return { card: fromCatalog(local) };
+
       // Extract set prefix (e.g., "LDK2" from "LDK2-FRK40")
       const setPrefix = setCode.split('-')[0];
 
@@ -175,8 +226,12 @@ export class YGOProDeckService {
         };
       }
 
-      // Normalize the set code to English format for comparison
-      const normalizedSetCode = this.normalizeSetCode(setCode);
+      if (await hasLocalMirror()) {
+        return {
+          card: null,
+          error: `Code "${setCode}" non trouvé dans le set "${setName}". Vérifiez le numéro de carte.`
+        };
+      }
 
       // Search for cards in this set by name
       const response = await ygoHttp.get(`${API_BASE_URL}/cardinfo.php`, {
@@ -301,10 +356,14 @@ export class YGOProDeckService {
   }
 
   /**
-   * Fetch card by name
+   * Fetch card by (English) name, local mirror first
    */
   static async getCardByName(name: string): Promise<Card | null> {
     try {
+      const local = await CardModel.findByName(name);
+      if (local) return fromCatalog(local);
+      if (await hasLocalMirror()) return null;
+
       const response = await ygoHttp.get(`${API_BASE_URL}/cardinfo.php`, {
         params: {
           name: name,
@@ -327,10 +386,14 @@ export class YGOProDeckService {
   }
 
   /**
-   * Fetch card by YGOProDeck ID
+   * Fetch card by YGOProDeck ID, local mirror first
    */
   static async getCardById(id: string): Promise<Card | null> {
     try {
+      const local = await CardModel.findByCardId(id);
+      if (local) return fromCatalog(local);
+      if (await hasLocalMirror()) return null;
+
       const response = await ygoHttp.get(`${API_BASE_URL}/cardinfo.php`, {
         params: {
           id: id,
@@ -352,10 +415,40 @@ export class YGOProDeckService {
   }
 
   /**
-   * Search cards by query
+   * Fetch only the prices of many cards, by YGOProDeck ID.
+   * The API accepts a comma-separated `id` list; we batch to keep URLs short.
+   * A failed batch is skipped (its cards simply keep their cached price).
+   */
+  static async getCardPricesByIds(ids: string[], batchSize: number = 50): Promise<Map<string, CardPrices[]>> {
+    const prices = new Map<string, CardPrices[]>();
+
+    for (let i = 0; i < ids.length; i += batchSize) {
+      const batch = ids.slice(i, i + batchSize);
+      try {
+        const response = await ygoHttp.get(`${API_BASE_URL}/cardinfo.php`, {
+          params: { id: batch.join(',') },
+        });
+        for (const apiCard of (response.data?.data || []) as YGOProDeckCard[]) {
+          if (apiCard.card_prices) prices.set(apiCard.id.toString(), apiCard.card_prices);
+        }
+      } catch (error) {
+        console.error('Error fetching card prices:', error);
+      }
+    }
+
+    return prices;
+  }
+
+  /**
+   * Search cards by query. Against the local mirror once synced: a partial
+   * cache would hide better matches, so it is not consulted before that.
    */
   static async searchCards(query: string, limit: number = 20): Promise<Card[]> {
     try {
+      if (await hasLocalMirror()) {
+        return (await CardModel.searchByName(query, limit)).map(fromCatalog);
+      }
+
       const response = await ygoHttp.get(`${API_BASE_URL}/cardinfo.php`, {
         params: {
           fname: query,
@@ -376,6 +469,47 @@ export class YGOProDeckService {
     }
   }
 
+  /**
+   * Version of the YGOProDeck database, bumped on each of their updates
+   */
+  static async getDatabaseVersion(): Promise<string | null> {
+    try {
+      const response = await ygoHttp.get(`${API_BASE_URL}/checkDBVer.php`);
+      const version = response.data?.[0]?.database_version;
+      return version !== undefined && version !== null ? String(version) : null;
+    } catch (error) {
+      console.error('Error fetching database version:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Download the whole card list with sets, images, prices, banlists and,
+   * from a second call, the official French names. Throws if the English
+   * list cannot be fetched; a missing French list only leaves name_fr empty.
+   */
+  static async getFullCatalog(): Promise<Card[]> {
+    const response = await ygoCatalogHttp.get(`${API_BASE_URL}/cardinfo.php`, {
+      params: { misc: 'yes' },
+    });
+    const apiCards: YGOProDeckCard[] = response.data?.data || [];
+    if (apiCards.length === 0) throw new Error('Catalogue YGOProDeck vide');
+
+    const french = new Map<number, { name_fr: string; description_fr: string }>();
+    try {
+      const fr = await ygoCatalogHttp.get(`${API_BASE_URL}/cardinfo.php`, {
+        params: { language: 'fr' },
+      });
+      for (const c of (fr.data?.data || []) as YGOProDeckCard[]) {
+        if (c.name && c.desc) french.set(c.id, { name_fr: c.name, description_fr: c.desc });
+      }
+    } catch (error) {
+      console.error('Error fetching French catalog:', error);
+    }
+
+    return apiCards.map((c) => this.transformCard(c, french.get(c.id)));
+  }
+
   /**
    * Get rarities available for a specific set code
    */
@@ -392,7 +526,7 @@ export class YGOProDeckService {
   /**
    * Transform YGOProDeck API response to our Card type
    */
-  private static transformCard(
+  static transformCard(
     apiCard: YGOProDeckCard,
     fr?: { name_fr: string; description_fr: string } | null
   ): Card {
@@ -0,0 +1,168 @@
+/**
+ * Banlists — lecture du format `lflist.conf` et calcul des limites.
+ *
+ * Un fichier `lflist.conf` (EDOPro / YGOPro) enchaîne une ou plusieurs listes :
+ *
+ *     #[2024.04 TCG]
+ *     !2024.04 TCG
+ *     $whitelist            (optionnel : seules les cartes listées sont jouables)
+ *     #Forbidden
+ *     14558127 0 --Ash Blossom & Joyous Spring
+ *     #Limited
+ *     23434538 1 --Maxx "C"
+ *
+ * Hors liste, une carte est à 3 exemplaires — à 0 dans une whitelist.
+ */
+
+import type { BanlistChange, BanlistFormat, BanlistFormatId, DeckLegalityViolation } from '../../../shared/types';
+import { copyViolations } from '../../../shared/deckRules';
+
+export { banStatusOf } from '../../../shared/deckRules';
+
+export interface LflistList {
+  name: string;
+  whitelist: boolean;
+  entries: Array<{ card_code: string; limit: number }>;
+}
+
+/** Limites d'une liste prêtes à interroger : passcode → 0..3. */
+export interface BanlistLimits {
+  whitelist: boolean;
+  limits: Map<string, number>;
+}
+
+/**
+ * Découpe un `lflist.conf` en listes. Les lignes illisibles sont ignorées,
+ * comme le fait EDOPro ; un passcode listé deux fois garde sa dernière limite.
+ * Des entrées avant tout `!Nom` forment une liste sans nom (à nommer à l'import).
+ */
+export function parseLflist(text: string): LflistList[] {
+  const lists: LflistList[] = [];
+  let current: LflistList | null = null;
+  let codes = new Map<string, number>();
+
+  const close = () => {
+    if (current) current.entries = [...codes].map(([card_code, limit]) => ({ card_code, limit }));
+  };
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    if (line.startsWith('!')) {
+      close();
+      current = { name: line.slice(1).trim(), whitelist: false, entries: [] };
+      codes = new Map();
+      lists.push(current);
+      continue;
+    }
+
+    if (!current) {
+      current = { name: '', whitelist: false, entries: [] };
+      lists.push(current);
+    }
+
+    if (line.toLowerCase() === '$whitelist') {
+      current.whitelist = true;
+      continue;
+    }
+
+    const m = line.match(/^(\d+)\s+(-?\d+)/);
+    if (!m) continue;
+    const limit = parseInt(m[2], 10);
+    if (limit < 0 || limit > 3) continue;
+    codes.set(String(parseInt(m[1], 10)), limit);
+  }
+  close();
+
+  return lists.filter((l) => l.entries.length > 0 || l.whitelist);
+}
+
+/** Format deviné d'après le nom de la liste ("2024.04 TCG", "GOAT", "2024.01 OCG"…). */
+export function inferBanlistFormat(name: string): BanlistFormat {
+  if (/goat/i.test(name)) return 'goat';
+  if (/\bocg\b/i.test(name)) return 'ocg';
+  if (/\btcg\b/i.test(name)) return 'tcg';
+  return 'custom';
+}
+
+/** Date d'entrée en vigueur lue dans le nom ("2024.04" → 2024-04-01), ou null. */
+export function inferEffectiveDate(name: string): string | null {
+  const m = name.match(/(\d{4})[.\-/](\d{1,2})(?:[.\-/](\d{1,2}))?/);
+  if (!m) return null;
+  const [year, month, day] = [Number(m[1]), Number(m[2]), Number(m[3] ?? 1)];
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Limite selon le statut TCG mis en cache sur la carte (`banlist_info.ban_tcg`),
+ * quand aucune liste n'a été importée. Le max 3 par carte reste la règle par défaut.
+ */
+export function banlistLimit(banTcg?: string | null): number {
+  switch (banTcg) {
+    case 'Banned':
+      return 0;
+    case 'Limited':
+      return 1;
+    case 'Semi-Limited':
+      return 2;
+    default:
+      return 3;
+  }
+}
+
+export function limitIn(list: BanlistLimits, cardCode: string): number {
+  return list.limits.get(cardCode) ?? (list.whitelist ? 0 : 3);
+}
+
+/** Limite d'une carte : dans la liste si fournie, sinon d'après son statut TCG en cache. */
+export function limitFor(list: BanlistLimits | null, cardCode: string, banTcg?: string | null): number {
+  return list ? limitIn(list, cardCode) : banlistLimit(banTcg);
+}
+
+/**
+ * Cartes du deck au-delà de leur limite (exemplaires déjà totalisés par carte),
+ * via les règles communes de `shared/deckRules.ts`.
+ */
+export function deckViolations(
+  counts: Array<{ card_code: string; card_name: string; count: number; ban_tcg?: string | null }>,
+  list: BanlistLimits | null
+): DeckLegalityViolation[] {
+  const banTcg = new Map(counts.map((c) => [c.card_code, c.ban_tcg]));
+  return copyViolations(
+    counts.map((c) => ({ card_code: c.card_code, name: c.card_name, section: 'main' as const, quantity: c.count })),
+    (card) => limitFor(list, card.card_code, banTcg.get(card.card_code))
+  );
+}
+
+/**
+ * Cartes dont la limite change de `previous` à `next`, triées de la plus
+ * durcie à la plus libérée. Sans liste précédente, tout part de 3.
+ */
+export function diffBanlists(
+  previous: BanlistLimits | null,
+  next: BanlistLimits
+): Array<Omit<BanlistChange, 'name'>> {
+  const codes = new Set([...next.limits.keys(), ...(previous?.limits.keys() ?? [])]);
+  const changes: Array<Omit<BanlistChange, 'name'>> = [];
+  for (const card_code of codes) {
+    const from = previous ? limitIn(previous, card_code) : 3;
+    const to = limitIn(next, card_code);
+    if (from !== to) changes.push({ card_code, from, to });
+  }
+  return changes.sort((a, b) => a.to - a.from - (b.to - b.from) || a.to - b.to);
+}
+
+/**
+ * Lit un paramètre `format` de requête : id numérique de liste ou clé de
+ * format officiel. `undefined` si absent, `null` si illisible.
+ */
+export function parseBanlistFormatId(value: unknown): BanlistFormatId | null | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'number') return Number.isInteger(value) && value > 0 ? value : null;
+  if (typeof value !== 'string') return null;
+  const key = value.trim().toLowerCase();
+  if (key === 'tcg' || key === 'ocg' || key === 'goat') return key;
+  return /^\d+$/.test(key) && Number(key) > 0 ? Number(key) : null;
+}
@@ -0,0 +1,86 @@
+/**
+ * Miroir du catalogue YGOProDeck — la partie pure de la synchro.
+ *
+ * Chaque carte reçue est réduite à une empreinte (`catalogHash`) comparée à
+ * celle gardée en base depuis la synchro précédente : seules les cartes
+ * nouvelles ou modifiées sont réécrites. Les impressions (`cardPrintings`)
+ * sont dérivées de `card_sets`, une ligne par code set × rareté.
+ */
+
+import { createHash } from 'crypto';
+import type { Card } from '../../../shared/types';
+
+export type CatalogCard = Omit<Card, 'id' | 'created_at' | 'updated_at'>;
+
+export interface CardPrinting {
+  set_code: string;
+  set_name: string;
+  rarity: string;
+  rarity_code: string | null;
+  set_price: number | null;
+}
+
+export interface CatalogSyncPlan {
+  inserts: Array<{ card: CatalogCard; hash: string }>;
+  updates: Array<{ card: CatalogCard; hash: string }>;
+  /** Cartes à l'empreinte inchangée : seuls leurs prix sont réécrits. */
+  unchanged: CatalogCard[];
+}
+
+/**
+ * Empreinte d'une carte telle que reçue de l'API. Les dates posées par
+ * `transformCard` sont ignorées : elles changeraient l'empreinte à chaque appel.
+ * Les prix (`card_prices`, `set_price` des impressions) aussi : ils bougent
+ * tous les jours et feraient réécrire tout le catalogue à chaque synchro —
+ * une passe à part de la synchro (`CardCatalogModel.updatePrices`) les
+ * réécrit.
+ */
+export function catalogHash(card: CatalogCard | Card): string {
+  const {
+    id: _id,
+    created_at: _created,
+    updated_at: _updated,
+    card_prices: _prices,
+    card_sets,
+    ...content
+  } = card as Card;
+  const sets = (card_sets || []).map(({ set_price: _setPrice, ...set }) => set);
+  return createHash('md5').update(JSON.stringify({ ...content, card_sets: sets })).digest('hex');
+}
+
+/** Impressions d'une carte, codes en majuscules, doublons (même code × rareté) fusionnés. */
+export function cardPrintings(card: Pick<Card, 'card_sets'>): CardPrinting[] {
+  const byKey = new Map<string, CardPrinting>();
+  for (const s of card.card_sets || []) {
+    if (!s?.set_code) continue;
+    const setCode = s.set_code.trim().toUpperCase();
+    const rarity = s.set_rarity || '';
+    const price = parseFloat(s.set_price);
+    byKey.set(`${setCode}|${rarity}`, {
+      set_code: setCode,
+      set_name: s.set_name || '',
+      rarity,
+      rarity_code: s.set_rarity_code || null,
+      set_price: Number.isFinite(price) && price > 0 ? Math.round(price * 100) / 100 : null,
+    });
+  }
+  return [...byKey.values()];
+}
+
+/**
+ * Tri des cartes reçues contre les empreintes en base (`card_id` → hash ;
+ * null = carte mise en cache hors synchro, à réécrire une fois).
+ */
+export function planCatalogSync(
+  incoming: CatalogCard[],
+  existing: Map<string, string | null>
+): CatalogSyncPlan {
+  const plan: CatalogSyncPlan = { inserts: [], updates: [], unchanged: [] };
+  for (const card of incoming) {
+    const hash = catalogHash(card);
+    if (!existing.has(card.card_id)) plan.inserts.push({ card, hash });
+    else if (existing.get(card.card_id) !== hash) plan.updates.push({ card, hash });
+    else plan.unchanged.push(card);
+  }
+  return plan;
+}
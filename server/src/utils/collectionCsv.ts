@@ -0,0 +1,221 @@
+/**
+ * Format CSV d'import / export de la collection.
+ *
+ * Une ligne = un exemplaire-type (set_code, rareté, langue, état, édition) et sa
+ * quantité. Les colonnes sont repérées par leur en-tête, dans n'importe quel
+ * ordre ; les colonnes inconnues sont ignorées, ce qui permet de réimporter
+ * tel quel un export (qui ajoute `name` et `passcode` pour la lisibilité).
+ */
+
+import type { CardCondition, CardEdition, CardLanguage } from '../../../shared/types';
+import { CARD_CONDITIONS, CARD_EDITIONS } from '../../../shared/collection';
+import { parseCsv, toCsv } from './csv';
+
+export const CARD_LANGUAGES: CardLanguage[] = ['EN', 'FR', 'DE', 'IT', 'PT', 'SP', 'JP', 'KR'];
+
+/** Libellés longs acceptés en plus des codes Cardmarket. */
+const CONDITION_ALIASES: Record<string, CardCondition> = {
+  mint: 'MT',
+  'near mint': 'NM',
+  excellent: 'EX',
+  good: 'GD',
+  'light played': 'LP',
+  'lightly played': 'LP',
+  played: 'PL',
+  poor: 'PO',
+};
+
+const EDITION_ALIASES: Record<string, CardEdition> = {
+  '1st': '1st',
+  '1st edition': '1st',
+  first: '1st',
+  'first edition': '1st',
+  '1ere edition': '1st',
+  unlimited: 'unlimited',
+  limited: 'limited',
+  'limited edition': 'limited',
+};
+
+const HEADER_ALIASES: Record<string, keyof CollectionCsvColumns> = {
+  set_code: 'set_code',
+  setcode: 'set_code',
+  code: 'set_code',
+  rarity: 'rarity',
+  rarete: 'rarity',
+  language: 'language',
+  lang: 'language',
+  langue: 'language',
+  quantity: 'quantity',
+  qty: 'quantity',
+  quantite: 'quantity',
+  condition: 'condition',
+  etat: 'condition',
+  edition: 'edition',
+};
+
+interface CollectionCsvColumns {
+  set_code: number;
+  rarity: number;
+  language: number;
+  quantity: number;
+  condition: number;
+  edition: number;
+}
+
+/** Nombre maximal de lignes par import — borne le nombre d'appels YGOProDeck. */
+export const MAX_CSV_IMPORT_ROWS = 2000;
+
+export interface CollectionCsvRow {
+  /** Numéro de ligne dans le fichier (1 = en-tête), pour les messages d'erreur. */
+  line: number;
+  set_code: string;
+  rarity: string;
+  /** `null` si la colonne est vide : l'appelant la déduit du set_code. */
+  language: CardLanguage | null;
+  quantity: number;
+  /** `null` si la colonne est vide : valeur par défaut de la base. */
+  condition: CardCondition | null;
+  edition: CardEdition | null;
+}
+
+export interface CollectionCsvError {
+  line: number;
+  error: string;
+}
+
+function normalizeHeader(cell: string): string {
+  return cell
+    .trim()
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\s-]+/g, '_');
+}
+
+export function parseCondition(value: string): CardCondition | null | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const upper = trimmed.toUpperCase() as CardCondition;
+  if (CARD_CONDITIONS.includes(upper)) return upper;
+  return CONDITION_ALIASES[trimmed.toLowerCase()];
+}
+
+export function parseEdition(value: string): CardEdition | null | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const key = trimmed.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  return EDITION_ALIASES[key];
+}
+
+/**
+ * Lit un CSV de collection. Les lignes invalides ne bloquent pas la lecture :
+ * elles sont renvoyées dans `errors` avec leur numéro, pour que l'aperçu
+ * puisse tout montrer d'un coup. Seul un en-tête inexploitable lève une erreur.
+ */
+export function parseCollectionCsv(content: string): {
+  rows: CollectionCsvRow[];
+  errors: CollectionCsvError[];
+} {
+  const table = parseCsv(content);
+  if (table.length === 0) {
+    throw new Error('CSV vide');
+  }
+  if (table.length - 1 > MAX_CSV_IMPORT_ROWS) {
+    throw new Error(`CSV trop long : ${table.length - 1} lignes, maximum ${MAX_CSV_IMPORT_ROWS}`);
+  }
+
+  const columns: Partial<CollectionCsvColumns> = {};
+  table[0].forEach((cell, index) => {
+    const key = HEADER_ALIASES[normalizeHeader(cell)];
+    if (key && columns[key] === undefined) columns[key] = index;
+  });
+  if (columns.set_code === undefined || columns.rarity === undefined) {
+    throw new Error('En-tête CSV invalide : colonnes set_code et rarity obligatoires');
+  }
+
+  const rows: CollectionCsvRow[] = [];
+  const errors: CollectionCsvError[] = [];
+  const cell = (row: string[], key: keyof CollectionCsvColumns) =>
+    columns[key] === undefined ? '' : (row[columns[key] as number] || '').trim();
+
+  for (let i = 1; i < table.length; i++) {
+    const line = i + 1;
+    const row = table[i];
+
+    const setCode = cell(row, 'set_code').toUpperCase();
+    const rarity = cell(row, 'rarity');
+    if (!setCode || !rarity) {
+      errors.push({ line, error: 'set_code et rarity obligatoires' });
+      continue;
+    }
+
+    const rawQuantity = cell(row, 'quantity');
+    const quantity = rawQuantity === '' ? 1 : Number(rawQuantity);
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > 100) {
+      errors.push({ line, error: `Quantité « ${rawQuantity} » invalide (1 à 100)` });
+      continue;
+    }
+
+    const rawLanguage = cell(row, 'language').toUpperCase();
+    if (rawLanguage && !CARD_LANGUAGES.includes(rawLanguage as CardLanguage)) {
+      errors.push({ line, error: `Langue « ${rawLanguage} » inconnue (${CARD_LANGUAGES.join(', ')})` });
+      continue;
+    }
+
+    const rawCondition = cell(row, 'condition');
+    const condition = parseCondition(rawCondition);
+    if (condition === undefined) {
+      errors.push({ line, error: `État « ${rawCondition} » inconnu (${CARD_CONDITIONS.join(', ')})` });
+      continue;
+    }
+
+    const rawEdition = cell(row, 'edition');
+    const edition = parseEdition(rawEdition);
+    if (edition === undefined) {
+      errors.push({ line, error: `Édition « ${rawEdition} » inconnue (${CARD_EDITIONS.join(', ')})` });
+      continue;
+    }
+
+    rows.push({
+      line,
+      set_code: setCode,
+      rarity,
+      language: (rawLanguage as CardLanguage) || null,
+      quantity,
+      condition,
+      edition,
+    });
+  }
+
+  return { rows, errors };
+}
+
+export const COLLECTION_CSV_HEADER = [
+  'set_code',
+  'rarity',
+  'language',
+  'quantity',
+  'condition',
+  'edition',
+  'name',
+  'passcode',
+];
+
+export interface CollectionCsvExportRow {
+  set_code: string;
+  rarity: string;
+  language: string;
+  quantity: number;
+  condition?: string | null;
+  edition?: string | null;
+  name?: string;
+  passcode?: string;
+}
+
+/** Écrit l'export ; relisible par `parseCollectionCsv`. */
+export function serializeCollectionCsv(rows: CollectionCsvExportRow[]): string {
+  return toCsv([
+    COLLECTION_CSV_HEADER,
+    ...rows.map((r) => [r.set_code, r.rarity, r.language, r.quantity, r.condition, r.edition, r.name, r.passcode]),
+  ]);
+}
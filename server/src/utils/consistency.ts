@@ -0,0 +1,273 @@
+/**
+ * Consistance d'un deck : probabilité que la main de départ remplisse des
+ * conditions sur les rôles des cartes (« au moins 1 starter et 1 hand-trap »).
+ *
+ * Calcul exact par loi hypergéométrique multivariée : les cartes du Main sont
+ * regroupées par combinaison de rôles (une carte peut être starter ET
+ * hand-trap), plus un groupe « le reste », et on énumère toutes les
+ * répartitions possibles d'une main de 5 ou 6 cartes entre ces groupes — au
+ * plus quelques dizaines de milliers, instantané.
+ *
+ * Une carte ne remplit qu'une seule exigence minimale : avec un seul starter
+ * hand-trap en main, « 1 starter et 1 hand-trap » n'est pas rempli. C'est un
+ * problème d'affectation, tranché par le théorème de Hall (cf. `meets`).
+ *
+ * Le tirage Monte-Carlo reprend les mêmes scénarios sur des mains tirées au
+ * hasard : il sert de contre-épreuve et donne des mains d'exemple.
+ */
+
+import type {
+  DeckCardRole,
+  DeckConsistencyResult,
+  DeckConsistencyScenario,
+  DeckRoleRequirement,
+  DeckSampleHand,
+} from '../../../shared/types';
+
+export const CARD_ROLES: DeckCardRole[] = ['starter', 'extender', 'handtrap', 'brick'];
+
+/** Main en premier / en second (pioche du premier tour). */
+export const HAND_SIZES = { first: 5, second: 6 } as const;
+
+export const MAX_SCENARIOS = 10;
+const MAX_LABEL_LENGTH = 60;
+
+export const DEFAULT_SCENARIOS: DeckConsistencyScenario[] = [
+  { label: 'Au moins 1 starter', requirements: [{ role: 'starter', min: 1 }] },
+  {
+    label: '1 starter + 1 hand-trap',
+    requirements: [
+      { role: 'starter', min: 1 },
+      { role: 'handtrap', min: 1 },
+    ],
+  },
+  {
+    label: '1 starter + 1 extender',
+    requirements: [
+      { role: 'starter', min: 1 },
+      { role: 'extender', min: 1 },
+    ],
+  },
+  {
+    label: '1 starter, aucune brique',
+    requirements: [
+      { role: 'starter', min: 1 },
+      { role: 'brick', max: 0 },
+    ],
+  },
+];
+
+/** Une carte du Main Deck avec ses rôles. */
+export interface RoleCard {
+  card_id: number;
+  name: string;
+  quantity: number;
+  roles: DeckCardRole[];
+}
+
+/** Exemplaires tenus en main, par combinaison de rôles. */
+type HandGroups = Array<{ roles: DeckCardRole[]; count: number }>;
+
+/**
+ * La main remplit-elle toutes les exigences ?
+ *
+ * Les `max` se vérifient directement. Pour les `min`, chaque carte ne peut
+ * servir qu'un rôle : d'après Hall, une affectation existe si et seulement si,
+ * pour tout ensemble S de rôles demandés, les cartes portant au moins un rôle
+ * de S sont au moins aussi nombreuses que la somme des minimums de S.
+ */
+export function meets(hand: HandGroups, requirements: DeckRoleRequirement[]): boolean {
+  const holding = (roles: DeckCardRole[]) =>
+    hand.reduce((n, g) => (g.roles.some((r) => roles.includes(r)) ? n + g.count : n), 0);
+
+  const demand = new Map<DeckCardRole, number>();
+  for (const req of requirements) {
+    if (req.max !== undefined && holding([req.role]) > req.max) return false;
+    if (req.min) demand.set(req.role, Math.max(demand.get(req.role) ?? 0, req.min));
+  }
+
+  const wanted = [...demand.keys()];
+  for (let mask = 1; mask < 1 << wanted.length; mask++) {
+    const subset = wanted.filter((_, i) => mask & (1 << i));
+    const needed = subset.reduce((n, r) => n + demand.get(r)!, 0);
+    if (holding(subset) < needed) return false;
+  }
+  return true;
+}
+
+const logFactorials: number[] = [0, 0];
+
+function logBinomial(n: number, k: number): number {
+  if (k < 0 || k > n) return -Infinity;
+  for (let i = logFactorials.length; i <= n; i++) logFactorials[i] = logFactorials[i - 1] + Math.log(i);
+  return logFactorials[n] - logFactorials[k] - logFactorials[n - k];
+}
+
+/** Regroupe les exemplaires par combinaison de rôles (clé triée). */
+function roleGroups(cards: RoleCard[]): Array<{ roles: DeckCardRole[]; copies: number }> {
+  const groups = new Map<string, { roles: DeckCardRole[]; copies: number }>();
+  for (const c of cards) {
+    if (c.roles.length === 0 || c.quantity <= 0) continue;
+    const roles = CARD_ROLES.filter((r) => c.roles.includes(r));
+    const key = roles.join('+');
+    const g = groups.get(key) ?? { roles, copies: 0 };
+    g.copies += c.quantity;
+    groups.set(key, g);
+  }
+  return [...groups.values()];
+}
+
+/** Probabilité exacte qu'une main de `handSize` cartes remplisse le scénario. */
+export function scenarioProbability(cards: RoleCard[], handSize: number, scenario: DeckConsistencyScenario): number {
+  const deckSize = cards.reduce((n, c) => n + c.quantity, 0);
+  if (deckSize === 0) return 0;
+  const draws = Math.min(handSize, deckSize);
+
+  const groups = roleGroups(cards);
+  const rest = deckSize - groups.reduce((n, g) => n + g.copies, 0);
+  const all = [...groups, { roles: [] as DeckCardRole[], copies: rest }];
+  const total = logBinomial(deckSize, draws);
+
+  let p = 0;
+  const counts: number[] = [];
+  const walk = (i: number, left: number, logWays: number) => {
+    if (i === all.length - 1) {
+      if (left > all[i].copies) return;
+      const hand = groups.map((g, j) => ({ roles: g.roles, count: counts[j] }));
+      if (meets(hand, scenario.requirements)) {
+        p += Math.exp(logWays + logBinomial(all[i].copies, left) - total);
+      }
+      return;
+    }
+    for (let k = 0; k <= Math.min(left, all[i].copies); k++) {
+      counts[i] = k;
+      walk(i + 1, left - k, logWays + logBinomial(all[i].copies, k));
+    }
+  };
+  walk(0, draws, 0);
+  return Math.min(1, p);
+}
+
+export function computeConsistency(cards: RoleCard[], scenarios: DeckConsistencyScenario[]): DeckConsistencyResult[] {
+  return scenarios.map((s) => ({
+    label: s.label,
+    going_first: scenarioProbability(cards, HAND_SIZES.first, s),
+    going_second: scenarioProbability(cards, HAND_SIZES.second, s),
+  }));
+}
+
+/** PRNG mulberry32 : un même `seed` redonne les mêmes mains. */
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Estime les scénarios sur `trials` mélanges. Chaque mélange donne la main en
+ * premier (5 cartes du dessus) et en second (6). Les `sampleHands` premières
+ * mains sont renvoyées en exemple, alternativement en premier et en second.
+ */
+export function sampleConsistency(
+  cards: RoleCard[],
+  scenarios: DeckConsistencyScenario[],
+  trials: number,
+  seed: number,
+  sampleHands = 6
+): { results: DeckConsistencyResult[]; hands: DeckSampleHand[] } {
+  const deck: number[] = [];
+  cards.forEach((c, i) => {
+    for (let n = 0; n < c.quantity; n++) deck.push(i);
+  });
+  const draws = Math.min(HAND_SIZES.second, deck.length);
+  const random = mulberry32(seed);
+  const hits = scenarios.map(() => ({ first: 0, second: 0 }));
+  const hands: DeckSampleHand[] = [];
+
+  const groupsOf = (hand: number[]): HandGroups => {
+    const byCard = new Map<number, number>();
+    for (const i of hand) byCard.set(i, (byCard.get(i) ?? 0) + 1);
+    return [...byCard].map(([i, count]) => ({ roles: cards[i].roles, count }));
+  };
+
+  for (let t = 0; t < trials && deck.length > 0; t++) {
+    // Fisher-Yates partiel : seules les `draws` premières cartes comptent
+    for (let i = 0; i < draws; i++) {
+      const j = i + Math.floor(random() * (deck.length - i));
+      [deck[i], deck[j]] = [deck[j], deck[i]];
+    }
+    const first = deck.slice(0, Math.min(HAND_SIZES.first, draws));
+    const second = deck.slice(0, draws);
+    const firstGroups = groupsOf(first);
+    const secondGroups = groupsOf(second);
+    scenarios.forEach((s, k) => {
+      if (meets(firstGroups, s.requirements)) hits[k].first++;
+      if (meets(secondGroups, s.requirements)) hits[k].second++;
+    });
+
+    if (hands.length < sampleHands) {
+      const goingFirst = hands.length % 2 === 0;
+      hands.push({
+        going_first: goingFirst,
+        cards: (goingFirst ? first : second).map((i) => ({
+          card_id: cards[i].card_id,
+          name: cards[i].name,
+          roles: cards[i].roles,
+        })),
+      });
+    }
+  }
+
+  const done = deck.length > 0 ? trials : 0;
+  return {
+    results: scenarios.map((s, k) => ({
+      label: s.label,
+      going_first: done ? hits[k].first / done : 0,
+      going_second: done ? hits[k].second / done : 0,
+    })),
+    hands,
+  };
+}
+
+/** Rôles connus, sans doublon ; null si l'entrée n'est pas une liste de rôles. */
+export function normalizeRoles(input: unknown): DeckCardRole[] | null {
+  if (!Array.isArray(input) || input.some((r) => !CARD_ROLES.includes(r))) return null;
+  return CARD_ROLES.filter((r) => input.includes(r));
+}
+
+/**
+ * Scénarios saisis par le propriétaire ; null si la forme est invalide :
+ * 1 à MAX_SCENARIOS scénarios nommés, chacun de 1 à 4 exigences sur un rôle
+ * connu, bornes entières entre 0 et la taille d'une main en second.
+ */
+export function normalizeScenarios(input: unknown): DeckConsistencyScenario[] | null {
+  if (!Array.isArray(input) || input.length === 0 || input.length > MAX_SCENARIOS) return null;
+  // undefined : borne absente ; null : borne invalide
+  const bound = (v: unknown): number | undefined | null => {
+    if (v === undefined || v === null) return undefined;
+    return typeof v === 'number' && Number.isInteger(v) && v >= 0 && v <= HAND_SIZES.second ? v : null;
+  };
+
+  const out: DeckConsistencyScenario[] = [];
+  for (const s of input) {
+    const label = typeof s?.label === 'string' ? s.label.trim() : '';
+    if (!label || label.length > MAX_LABEL_LENGTH) return null;
+    if (!Array.isArray(s.requirements) || s.requirements.length === 0 || s.requirements.length > 4) return null;
+
+    const requirements: DeckRoleRequirement[] = [];
+    for (const r of s.requirements) {
+      const min = bound(r?.min);
+      const max = bound(r?.max);
+      if (!CARD_ROLES.includes(r?.role) || min === null || max === null) return null;
+      if (min === undefined && max === undefined) return null;
+      requirements.push({ role: r.role, ...(min !== undefined && { min }), ...(max !== undefined && { max }) });
+    }
+    out.push({ label, requirements });
+  }
+  return out;
+}
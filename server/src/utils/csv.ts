@@ -0,0 +1,92 @@
+/**
+ * Lecture / écriture CSV minimale (RFC 4180) — pas de dépendance externe pour
+ * deux fonctions.
+ *
+ * Le séparateur est deviné sur la première ligne : Excel en locale française
+ * exporte avec `;`, Google Sheets et la plupart des trackers avec `,`.
+ */
+
+export type CsvDelimiter = ',' | ';';
+
+export function detectDelimiter(content: string): CsvDelimiter {
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const commas = (firstLine.match(/,/g) || []).length;
+  const semicolons = (firstLine.match(/;/g) || []).length;
+  return semicolons > commas ? ';' : ',';
+}
+
+/**
+ * Découpe un contenu CSV en lignes de cellules. Gère les champs entre
+ * guillemets (séparateurs, sauts de ligne et `""` échappés à l'intérieur).
+ * Les lignes entièrement vides sont ignorées.
+ */
+export function parseCsv(content: string, delimiter: CsvDelimiter = detectDelimiter(content)): string[][] {
+  // BOM UTF-8 ajouté par Excel
+  const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((cell) => cell.trim() !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += ch;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('CSV invalide : guillemet non refermé');
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+function escapeCell(value: string | number | null | undefined, delimiter: CsvDelimiter): string {
+  if (value === null || value === undefined) return '';
+  const str = String(value);
+  if (str.includes('"') || str.includes(delimiter) || /[\r\n]/.test(str)) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
+
+/** Sérialise des lignes en CSV (CRLF, comme Excel l'attend). */
+export function toCsv(
+  rows: Array<Array<string | number | null | undefined>>,
+  delimiter: CsvDelimiter = ','
+): string {
+  return rows.map((row) => row.map((cell) => escapeCell(cell, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+}
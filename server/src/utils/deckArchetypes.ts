@@ -0,0 +1,103 @@
+/**
+ * Archétypes d'un deck, déduits de ses cartes.
+ *
+ * Deux sources se complètent :
+ *   - `cards.archetype` (YGOProDeck) : un nom lisible, mais un seul par carte —
+ *     les cartes hybrides et une partie du support n'y sont rattachées qu'à
+ *     un archétype, voire à aucun ;
+ *   - les `setcodes` du moteur (`cardStore`) : tous les archétypes d'une
+ *     carte, mais sous forme de codes 16 bits sans nom.
+ * Un setcode prend le nom majoritaire parmi les cartes du deck qui le portent ;
+ * chaque carte compte ensuite pour son archétype YGOProDeck et pour tous ses
+ * setcodes nommés. Le Side n'est pas compté : il dit contre quoi on joue, pas
+ * ce qu'on joue.
+ */
+
+import type { DeckArchetypeShare, DeckSection } from '../../../shared/types';
+
+export interface ArchetypeCard {
+  archetype?: string | null;
+  /** Setcodes moteur ; vide quand les données du moteur ne sont pas installées. */
+  setcodes?: number[];
+  quantity: number;
+  section: DeckSection;
+}
+
+/** Part minimale d'un archétype pour le considérer comme dominant. */
+const DOMINANT_SHARE = 0.15;
+const MAX_DOMINANT = 3;
+/** En dessous, une carte isolée (un staple rattaché à un archétype) ne compte pas. */
+const MIN_COPIES = 3;
+const MAX_SPLIT = 6;
+
+export const MAX_TAGS = 8;
+export const MAX_TAG_LENGTH = 30;
+
+export function detectArchetypes(cards: ArchetypeCard[]): {
+  archetypes: string[];
+  split: DeckArchetypeShare[];
+} {
+  const counted = cards.filter((c) => c.section !== 'side' && c.quantity > 0);
+  const total = counted.reduce((n, c) => n + c.quantity, 0);
+  if (total === 0) return { archetypes: [], split: [] };
+
+  // Nom majoritaire de chaque setcode, pondéré par les exemplaires.
+  const votes = new Map<number, Map<string, number>>();
+  for (const c of counted) {
+    const name = c.archetype?.trim();
+    if (!name) continue;
+    for (const code of c.setcodes ?? []) {
+      const byName = votes.get(code) ?? new Map<string, number>();
+      byName.set(name, (byName.get(name) ?? 0) + c.quantity);
+      votes.set(code, byName);
+    }
+  }
+  const setcodeName = new Map<number, string>();
+  for (const [code, byName] of votes) {
+    const [best] = [...byName].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+    setcodeName.set(code, best[0]);
+  }
+
+  const copies = new Map<string, number>();
+  for (const c of counted) {
+    const names = new Set<string>();
+    const own = c.archetype?.trim();
+    if (own) names.add(own);
+    for (const code of c.setcodes ?? []) {
+      const name = setcodeName.get(code);
+      if (name) names.add(name);
+    }
+    for (const name of names) copies.set(name, (copies.get(name) ?? 0) + c.quantity);
+  }
+
+  const split = [...copies]
+    .filter(([, n]) => n >= MIN_COPIES)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_SPLIT)
+    .map(([name, n]) => ({ name, copies: n, share: Math.round((n / total) * 100) / 100 }));
+
+  return {
+    archetypes: split
+      .filter((s) => s.copies / total >= DOMINANT_SHARE)
+      .slice(0, MAX_DOMINANT)
+      .map((s) => s.name),
+    split,
+  };
+}
+
+/**
+ * Tags saisis par l'utilisateur : minuscules, espaces réduits, `#` initial
+ * retiré, doublons écartés. Null si l'entrée n'est pas une liste de chaînes,
+ * dépasse MAX_TAGS ou contient un tag trop long.
+ */
+export function normalizeTags(input: unknown): string[] | null {
+  if (!Array.isArray(input) || input.some((t) => typeof t !== 'string')) return null;
+  const tags = new Set<string>();
+  for (const raw of input as string[]) {
+    const tag = raw.replace(/^#+/, '').replace(/\s+/g, ' ').trim().toLowerCase();
+    if (!tag) continue;
+    if (tag.length > MAX_TAG_LENGTH) return null;
+    tags.add(tag);
+  }
+  return tags.size > MAX_TAGS ? null : [...tags];
+}
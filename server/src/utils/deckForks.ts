@@ -0,0 +1,57 @@
+/**
+ * Arbre des forks d'un deck.
+ *
+ * Les lignes viennent d'une requête récursive sur `decks.forked_from` ; un
+ * fork privé n'est montré qu'à son propriétaire. Quand un fork masqué a
+ * lui-même des forks visibles, ceux-ci remontent sous le plus proche ancêtre
+ * visible plutôt que de disparaître avec lui.
+ */
+
+import type { DeckForkNode } from '../../../shared/types';
+
+export interface DeckForkRow {
+  id: number;
+  forked_from: number;
+  name: string;
+  is_public: boolean;
+  forked_at: Date | null;
+  user_id: number;
+  username: string;
+}
+
+export function buildForkTree(rows: DeckForkRow[], rootId: number, viewerId?: number): DeckForkNode[] {
+  const byId = new Map(rows.map((r) => [r.id, r]));
+  const visible = (r: DeckForkRow) => r.is_public || r.user_id === viewerId;
+
+  const nodes = new Map<number, DeckForkNode>();
+  for (const r of rows) {
+    if (!visible(r)) continue;
+    nodes.set(r.id, {
+      id: r.id,
+      name: r.name,
+      is_public: r.is_public,
+      forked_at: r.forked_at,
+      user: { id: r.user_id, username: r.username },
+      children: [],
+    });
+  }
+
+  const roots: DeckForkNode[] = [];
+  for (const r of rows) {
+    const node = nodes.get(r.id);
+    if (!node) continue;
+
+    // Remonte jusqu'au premier ancêtre visible (ou jusqu'au deck d'origine).
+    let parentId = r.forked_from;
+    const seen = new Set<number>();
+    while (parentId !== rootId && !nodes.has(parentId) && byId.has(parentId) && !seen.has(parentId)) {
+      seen.add(parentId);
+      parentId = byId.get(parentId)!.forked_from;
+    }
+
+    const parent = nodes.get(parentId);
+    if (parent) parent.children.push(node);
+    else roots.push(node);
+  }
+  return roots;
+}
@@ -0,0 +1,193 @@
+/**
+ * Image partageable d'un deck : une grille d'illustrations par section (Main,
+ * Extra, Side), un exemplaire par carte avec un badge de quantité, le nom du
+ * deck et son propriétaire en tête.
+ *
+ * Le placement (`layoutDeckImage`) est séparé du rendu pour rester testable
+ * sans image ; le rendu compose les vignettes JPEG et un calque SVG (textes,
+ * badges, cadres des cartes sans image) avec sharp, comme `imagePreprocess`.
+ */
+
+import sharp, { type OverlayOptions } from 'sharp';
+import type { Deck, DeckCard } from '../../../shared/types';
+import type { PdfImage } from './pdf';
+
+export type DeckImageFormat = 'png' | 'webp';
+
+/** Vignette : proportions d'une carte (59 × 86). */
+export const TILE = { width: 120, height: 175 } as const;
+
+const COLUMNS = 10;
+const GAP = 8;
+const PADDING = 40;
+const HEADER_HEIGHT = 110;
+const SECTION_TITLE_HEIGHT = 40;
+const SECTION_GAP = 24;
+
+const BG = '#0b0906';
+const GOLD = '#f5c518';
+const TEXT = '#ede4cf';
+const MUTED = '#a2947a';
+const BORDER = '#3a2e1c';
+const FONT = 'DejaVu Sans, Arial, Helvetica, sans-serif';
+
+export interface DeckImageTile {
+  left: number;
+  top: number;
+  name: string;
+  quantity: number;
+  /** URL de `card_images` (petite illustration), absente pour une carte inconnue. */
+  url?: string;
+}
+
+export interface DeckImageLayout {
+  width: number;
+  height: number;
+  title: string;
+  subtitle: string;
+  sections: Array<{ title: string; count: number; top: number }>;
+  tiles: DeckImageTile[];
+}
+
+/** Monstres, puis magies, puis pièges ; par nom à l'intérieur. */
+function typeRank(dc: DeckCard): number {
+  const t = (dc.card?.type || '').toLowerCase();
+  return t.includes('spell') ? 1 : t.includes('trap') ? 2 : 0;
+}
+
+/** Une vignette par carte, quantités cumulées. */
+function groupCards(cards: DeckCard[]): Array<{ dc: DeckCard; quantity: number }> {
+  const byId = new Map<number, { dc: DeckCard; quantity: number }>();
+  for (const dc of cards) {
+    const cur = byId.get(dc.card_id);
+    if (cur) cur.quantity += dc.quantity || 0;
+    else byId.set(dc.card_id, { dc, quantity: dc.quantity || 0 });
+  }
+  return [...byId.values()]
+    .filter((g) => g.quantity > 0)
+    .sort(
+      (a, b) =>
+        typeRank(a.dc) - typeRank(b.dc) || (a.dc.card?.name || '').localeCompare(b.dc.card?.name || '')
+    );
+}
+
+export function layoutDeckImage(deck: Deck): DeckImageLayout {
+  const width = PADDING * 2 + COLUMNS * TILE.width + (COLUMNS - 1) * GAP;
+  const sections: DeckImageLayout['sections'] = [];
+  const tiles: DeckImageTile[] = [];
+  const counts: Record<string, number> = {};
+
+  let y = PADDING + HEADER_HEIGHT;
+  const parts: Array<[string, DeckCard[] | undefined]> = [
+    ['Main Deck', deck.main_deck],
+    ['Extra Deck', deck.extra_deck],
+    ['Side Deck', deck.side_deck],
+  ];
+  for (const [title, cards] of parts) {
+    const groups = groupCards(cards || []);
+    const count = groups.reduce((n, g) => n + g.quantity, 0);
+    counts[title] = count;
+    if (groups.length === 0) continue;
+
+    sections.push({ title, count, top: y });
+    y += SECTION_TITLE_HEIGHT;
+    groups.forEach((g, i) => {
+      tiles.push({
+        left: PADDING + (i % COLUMNS) * (TILE.width + GAP),
+        top: y + Math.floor(i / COLUMNS) * (TILE.height + GAP),
+        name: g.dc.card?.name_fr || g.dc.card?.name || `#${g.dc.card_id}`,
+        quantity: g.quantity,
+        url: g.dc.card?.card_images?.[0]?.image_url_small,
+      });
+    });
+    const rows = Math.ceil(groups.length / COLUMNS);
+    y += rows * TILE.height + (rows - 1) * GAP + SECTION_GAP;
+  }
+
+  const owner = deck.user?.username ? `@${deck.user.username} · ` : '';
+  return {
+    width,
+    height: Math.max(y - SECTION_GAP, PADDING + HEADER_HEIGHT) + PADDING,
+    title: deck.name,
+    subtitle: `${owner}Main ${counts['Main Deck']} · Extra ${counts['Extra Deck']} · Side ${counts['Side Deck']}`,
+    sections,
+    tiles,
+  };
+}
+
+const escapeXml = (s: string) =>
+  s.replace(/[<>&'"]/g, (c) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' })[c]!);
+
+/** Calque SVG posé par-dessus les vignettes. */
+function overlaySvg(layout: DeckImageLayout, images: Map<string, PdfImage | null>): string {
+  const parts: string[] = [
+    `<text x="${PADDING}" y="${PADDING + 46}" font-family="${FONT}" font-size="40" font-weight="bold" fill="${GOLD}">${escapeXml(layout.title)}</text>`,
+    `<text x="${PADDING}" y="${PADDING + 84}" font-family="${FONT}" font-size="20" fill="${MUTED}">${escapeXml(layout.subtitle)}</text>`,
+  ];
+
+  for (const s of layout.sections) {
+    const y = s.top + 26;
+    parts.push(
+      `<text x="${PADDING}" y="${y}" font-family="${FONT}" font-size="18" font-weight="bold" letter-spacing="2" fill="${GOLD}">${s.title.toUpperCase()} · ${s.count}</text>`,
+      `<line x1="${PADDING + 260}" y1="${y - 6}" x2="${layout.width - PADDING}" y2="${y - 6}" stroke="${BORDER}" stroke-width="1"/>`
+    );
+  }
+
+  for (const t of layout.tiles) {
+    if (!t.url || !images.get(t.url)) {
+      // Carte sans illustration : cadre et nom sur trois lignes au plus
+      const words = t.name.split(/\s+/);
+      const lines: string[] = [];
+      for (const w of words) {
+        const last = lines[lines.length - 1];
+        if (last !== undefined && `${last} ${w}`.length <= 14) lines[lines.length - 1] = `${last} ${w}`;
+        else lines.push(w);
+      }
+      parts.push(
+        `<rect x="${t.left + 0.5}" y="${t.top + 0.5}" width="${TILE.width - 1}" height="${TILE.height - 1}" fill="#1a140c" stroke="${BORDER}"/>`,
+        ...lines.slice(0, 3).map(
+          (line, i) =>
+            `<text x="${t.left + TILE.width / 2}" y="${t.top + 70 + i * 16}" text-anchor="middle" font-family="${FONT}" font-size="12" fill="${TEXT}">${escapeXml(line)}</text>`
+        )
+      );
+    }
+    if (t.quantity > 1) {
+      const x = t.left + TILE.width - 34;
+      const y = t.top + TILE.height - 30;
+      parts.push(
+        `<rect x="${x}" y="${y}" width="30" height="24" rx="3" fill="${BG}" fill-opacity="0.85" stroke="${GOLD}"/>`,
+        `<text x="${x + 15}" y="${y + 17}" text-anchor="middle" font-family="${FONT}" font-size="15" font-weight="bold" fill="${GOLD}">×${t.quantity}</text>`
+      );
+    }
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${layout.width}" height="${layout.height}">${parts.join('')}</svg>`;
+}
+
+/**
+ * Compose l'image. `images` : vignettes déjà chargées par URL ; une URL absente
+ * ou nulle donne un cadre avec le nom de la carte.
+ */
+export async function renderDeckImage(
+  deck: Deck,
+  images: Map<string, PdfImage | null>,
+  format: DeckImageFormat
+): Promise<Buffer> {
+  const layout = layoutDeckImage(deck);
+  const composites: OverlayOptions[] = [];
+  for (const t of layout.tiles) {
+    const image = t.url ? images.get(t.url) : null;
+    if (!image) continue;
+    composites.push({
+      input: await sharp(image.data).resize(TILE.width, TILE.height, { fit: 'cover' }).toBuffer(),
+      left: t.left,
+      top: t.top,
+    });
+  }
+  composites.push({ input: Buffer.from(overlaySvg(layout, images)), left: 0, top: 0 });
+
+  const canvas = sharp({
+    create: { width: layout.width, height: layout.height, channels: 3, background: BG },
+  }).composite(composites);
+  return format === 'webp' ? canvas.webp({ quality: 82 }).toBuffer() : canvas.png({ compressionLevel: 9 }).toBuffer();
+}
@@ -0,0 +1,241 @@
+/**
+ * Decklist d'inscription façon formulaire Konami et planches de proxys A4.
+ *
+ * La decklist reprend la disposition officielle : Main Deck en trois colonnes
+ * Monstres / Magies / Pièges, puis Extra et Side, les totaux en pied. Les
+ * champs joueur restent vierges, à remplir à la main. Les planches de proxys
+ * posent 9 cartes au format réel (59 × 86 mm) par page, avec un contour de
+ * découpe ; une carte sans image devient un cadre portant son nom.
+ */
+
+import type { Deck, DeckCard, DeckStats } from '../../../shared/types';
+import { A4, MM, PdfDocument, type PdfImage, type Rgb } from './pdf';
+
+export type DecklistLanguage = 'en' | 'fr';
+
+interface ListLine {
+  quantity: number;
+  name: string;
+}
+
+const INK: Rgb = [0.1, 0.1, 0.1];
+const MUTED: Rgb = [0.45, 0.45, 0.45];
+const RULE: Rgb = [0.7, 0.7, 0.7];
+const HEADER_FILL: Rgb = [0.92, 0.92, 0.92];
+
+const MARGIN = 36;
+
+/** Format réel d'une carte et grille 3 × 3 centrée sur la page. */
+export const PROXY = { width: 59 * MM, height: 86 * MM, perRow: 3, perPage: 9 } as const;
+
+const LABELS = {
+  en: {
+    title: 'DECK LIST',
+    fields: ['Last name', 'First name', 'KONAMI ID', 'Event', 'Date'],
+    monster: 'Monster Cards',
+    spell: 'Spell Cards',
+    trap: 'Trap Cards',
+    extra: 'Extra Deck',
+    side: 'Side Deck',
+    main: 'Main Deck',
+    total: 'Total',
+  },
+  fr: {
+    title: 'LISTE DE DECK',
+    fields: ['Nom', 'Prénom', 'KONAMI ID', 'Tournoi', 'Date'],
+    monster: 'Monstres',
+    spell: 'Magies',
+    trap: 'Pièges',
+    extra: 'Extra Deck',
+    side: 'Side Deck',
+    main: 'Main Deck',
+    total: 'Total',
+  },
+} as const;
+
+function cardName(dc: DeckCard, lang: DecklistLanguage): string {
+  const card = dc.card;
+  if (!card) return `#${dc.card_id}`;
+  return (lang === 'fr' && card.name_fr) || card.name;
+}
+
+/** Une ligne par carte (quantités cumulées), triée par nom. */
+function toLines(cards: DeckCard[], lang: DecklistLanguage): ListLine[] {
+  const byName = new Map<string, number>();
+  for (const dc of cards) {
+    const name = cardName(dc, lang);
+    byName.set(name, (byName.get(name) ?? 0) + (dc.quantity || 0));
+  }
+  return [...byName]
+    .map(([name, quantity]) => ({ name, quantity }))
+    .sort((a, b) => a.name.localeCompare(b.name, lang));
+}
+
+/** Même classement que `computeDeckStats` : ni magie ni piège, c'est un monstre. */
+function mainColumn(dc: DeckCard): 'monster' | 'spell' | 'trap' {
+  const t = (dc.card?.type || '').toLowerCase();
+  if (t.includes('spell')) return 'spell';
+  if (t.includes('trap')) return 'trap';
+  return 'monster';
+}
+
+/**
+ * Colonne de la decklist : en-tête grisé avec le total, puis `rows` lignes
+ * réglées (quantité + nom). La hauteur de ligne est imposée par l'appelant
+ * pour que les colonnes voisines restent alignées.
+ */
+function drawColumn(
+  doc: PdfDocument,
+  x: number,
+  y: number,
+  width: number,
+  title: string,
+  lines: ListLine[],
+  rows: number,
+  rowHeight: number
+): number {
+  const total = lines.reduce((n, l) => n + l.quantity, 0);
+  const size = Math.min(9, rowHeight * 0.64);
+  const qtyWidth = 22;
+
+  doc.rect(x, y, width, 18, { fill: HEADER_FILL, stroke: INK });
+  doc.text(x + 6, y + 12.5, title, { size: 9, bold: true, color: INK });
+  doc.text(x + width - 6, y + 12.5, String(total), { size: 9, bold: true, color: INK, align: 'right' });
+
+  const top = y + 18;
+  doc.rect(x, top, width, rows * rowHeight, { stroke: INK });
+  doc.line(x + qtyWidth, top, x + qtyWidth, top + rows * rowHeight, { stroke: RULE });
+  for (let i = 0; i < rows; i++) {
+    const rowTop = top + i * rowHeight;
+    if (i > 0) doc.line(x, rowTop, x + width, rowTop, { stroke: RULE, width: 0.3 });
+    const line = lines[i];
+    if (!line) continue;
+    const baseline = rowTop + rowHeight / 2 + size * 0.35;
+    doc.text(x + qtyWidth / 2, baseline, String(line.quantity), { size, bold: true, color: INK, align: 'center' });
+    doc.text(x + qtyWidth + 5, baseline, PdfDocument.fit(line.name, width - qtyWidth - 10, size), {
+      size,
+      color: INK,
+    });
+  }
+  return top + rows * rowHeight;
+}
+
+/** Page de decklist ; `stats` fournit les totaux Main / Extra et la répartition par type. */
+export function renderDecklist(doc: PdfDocument, deck: Deck, stats: DeckStats, lang: DecklistLanguage = 'en'): void {
+  const t = LABELS[lang];
+  const main = deck.main_deck || [];
+  const columns = {
+    monster: toLines(main.filter((dc) => mainColumn(dc) === 'monster'), lang),
+    spell: toLines(main.filter((dc) => mainColumn(dc) === 'spell'), lang),
+    trap: toLines(main.filter((dc) => mainColumn(dc) === 'trap'), lang),
+  };
+  const extra = toLines(deck.extra_deck || [], lang);
+  const side = toLines(deck.side_deck || [], lang);
+  const sideCount = side.reduce((n, l) => n + l.quantity, 0);
+
+  doc.addPage();
+  const width = A4.width - MARGIN * 2;
+
+  doc.text(MARGIN, MARGIN + 16, t.title, { size: 18, bold: true, color: INK });
+  doc.text(A4.width - MARGIN, MARGIN + 16, PdfDocument.fit(deck.name, width / 2, 11, true), {
+    size: 11,
+    bold: true,
+    color: MUTED,
+    align: 'right',
+  });
+
+  // Champs joueur : deux rangées de libellés soulignés, à remplir à la main
+  const fieldsTop = MARGIN + 44;
+  const fieldRows = [t.fields.slice(0, 3), t.fields.slice(3)];
+  fieldRows.forEach((row, r) => {
+    const y = fieldsTop + r * 24;
+    const cell = width / row.length;
+    row.forEach((label, i) => {
+      const x = MARGIN + i * cell;
+      doc.text(x, y, `${label} :`, { size: 8, bold: true, color: MUTED });
+      const start = x + PdfDocument.widthOf(`${label} :`, 8, true) + 4;
+      doc.line(start, y + 2, x + cell - 10, y + 2, { stroke: INK, width: 0.5 });
+    });
+  });
+
+  // Hauteur de ligne commune : 20 lignes au Main, 15 en Extra / Side, plus si
+  // une colonne déborde ; le tout doit tenir au-dessus du pied de page.
+  const mainRows = Math.max(20, columns.monster.length, columns.spell.length, columns.trap.length);
+  const bottomRows = Math.max(15, extra.length, side.length);
+  const tablesTop = fieldsTop + 44;
+  const available = A4.height - MARGIN - 40 - tablesTop - 18 * 2 - 16;
+  const rowHeight = Math.min(14, available / (mainRows + bottomRows));
+
+  const gap = 10;
+  const third = (width - gap * 2) / 3;
+  let bottom = 0;
+  (['monster', 'spell', 'trap'] as const).forEach((key, i) => {
+    bottom = drawColumn(doc, MARGIN + i * (third + gap), tablesTop, third, t[key], columns[key], mainRows, rowHeight);
+  });
+
+  const half = (width - gap) / 2;
+  const lowerTop = bottom + 16;
+  bottom = drawColumn(doc, MARGIN, lowerTop, half, t.extra, extra, bottomRows, rowHeight);
+  drawColumn(doc, MARGIN + half + gap, lowerTop, half, t.side, side, bottomRows, rowHeight);
+
+  const footer = bottom + 24;
+  doc.line(MARGIN, footer - 12, A4.width - MARGIN, footer - 12, { stroke: INK });
+  doc.text(
+    MARGIN,
+    footer,
+    `${t.main} : ${stats.main_count}   ·   ${t.extra} : ${stats.extra_count}   ·   ${t.side} : ${sideCount}`,
+    { size: 10, bold: true, color: INK }
+  );
+  doc.text(
+    A4.width - MARGIN,
+    footer,
+    `${t.monster} ${stats.main_by_type.monster} · ${t.spell} ${stats.main_by_type.spell} · ${t.trap} ${stats.main_by_type.trap}`,
+    { size: 9, color: MUTED, align: 'right' }
+  );
+}
+
+/** Un exemplaire à imprimer ; `image` absente : cadre avec le nom. */
+export interface ProxyCard {
+  name: string;
+  type: string;
+  image: PdfImage | null;
+}
+
+/** Exemplaires du deck dans l'ordre Main, Extra, Side. */
+export function proxyCopies(deck: Deck, lang: DecklistLanguage = 'en'): Array<{ deckCard: DeckCard; name: string }> {
+  return [...(deck.main_deck || []), ...(deck.extra_deck || []), ...(deck.side_deck || [])].flatMap((dc) =>
+    Array.from({ length: dc.quantity || 0 }, () => ({ deckCard: dc, name: cardName(dc, lang) }))
+  );
+}
+
+/** Planches 3 × 3 ; les traits de coupe sont les contours des cartes. */
+export function renderProxySheets(doc: PdfDocument, cards: ProxyCard[]): void {
+  const rows = PROXY.perPage / PROXY.perRow;
+  const left = (A4.width - PROXY.width * PROXY.perRow) / 2;
+  const top = (A4.height - PROXY.height * rows) / 2;
+
+  cards.forEach((card, i) => {
+    const slot = i % PROXY.perPage;
+    if (slot === 0) doc.addPage();
+    const x = left + (slot % PROXY.perRow) * PROXY.width;
+    const y = top + Math.floor(slot / PROXY.perRow) * PROXY.height;
+
+    if (card.image) {
+      doc.image(card.image, x, y, PROXY.width, PROXY.height);
+    } else {
+      const size = 10;
+      doc.text(x + PROXY.width / 2, y + PROXY.height / 2, PdfDocument.fit(card.name, PROXY.width - 16, size, true), {
+        size,
+        bold: true,
+        color: INK,
+        align: 'center',
+      });
+      doc.text(x + PROXY.width / 2, y + PROXY.height / 2 + 14, PdfDocument.fit(card.type, PROXY.width - 16, 8), {
+        size: 8,
+        color: MUTED,
+        align: 'center',
+      });
+    }
+    doc.rect(x, y, PROXY.width, PROXY.height, { stroke: RULE, width: 0.4 });
+  });
+}
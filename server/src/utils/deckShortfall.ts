@@ -0,0 +1,131 @@
+/**
+ * « Qu'est-ce qui me manque ? » — diff d'un deck contre la collection.
+ *
+ * Le deck est comparé carte par carte (toutes impressions confondues, comme
+ * `UserCardModel.getAvailability`) : on additionne main, extra et side, on
+ * retire les exemplaires possédés — et, si demandé, ceux déjà engagés dans
+ * d'autres decks montés de l'utilisateur. Le reste est à acheter.
+ *
+ * Le coût est estimé au prix Cardmarket de la carte (`cardmarketPriceEUR`, la
+ * même règle que la valeur de collection). L'impression conseillée est la
+ * moins chère de `card_sets`, dont les prix YGOProDeck sont en USD : elle sert
+ * à savoir quoi chercher, pas à chiffrer le total.
+ */
+
+import type { CardSet, Deck, DeckCard, DeckShortfall, DeckShortfallLine } from '../../../shared/types';
+import { cardmarketPriceEUR } from './prices';
+import { toCsv } from './csv';
+
+export type Availability = Record<number, { owned: number; used_in_decks: number; available: number }>;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Impression au `set_price` le plus bas ; les prix absents ou nuls sont ignorés. */
+export function cheapestPrinting(sets?: CardSet[] | null): DeckShortfallLine['cheapest_printing'] {
+  let best: DeckShortfallLine['cheapest_printing'] = null;
+  for (const s of sets || []) {
+    const price = parseFloat(s.set_price);
+    if (!Number.isFinite(price) || price <= 0) continue;
+    if (!best || price < best.set_price) {
+      best = { set_code: s.set_code, set_name: s.set_name, set_rarity: s.set_rarity, set_price: price };
+    }
+  }
+  return best;
+}
+
+export function computeDeckShortfall(
+  deck: Deck,
+  availability: Availability,
+  includeCommitted: boolean
+): DeckShortfall {
+  // Une carte peut apparaître dans plusieurs sections (main + side).
+  const needed = new Map<number, { quantity: number; dc: DeckCard }>();
+  for (const dc of [...(deck.main_deck || []), ...(deck.extra_deck || []), ...(deck.side_deck || [])]) {
+    const entry = needed.get(dc.card_id);
+    if (entry) entry.quantity += dc.quantity;
+    else needed.set(dc.card_id, { quantity: dc.quantity, dc });
+  }
+
+  const lines: DeckShortfallLine[] = [];
+  for (const [cardId, { quantity, dc }] of needed) {
+    const owned = availability[cardId]?.owned || 0;
+    const committed = includeCommitted ? availability[cardId]?.used_in_decks || 0 : 0;
+    const missing = Math.max(0, quantity - Math.max(0, owned - committed));
+    if (missing === 0) continue;
+
+    const unit = cardmarketPriceEUR(dc.card?.card_prices);
+    lines.push({
+      card_id: cardId,
+      name: dc.card?.name_fr || dc.card?.name || `Carte #${cardId}`,
+      image_url_small: dc.card?.card_images?.[0]?.image_url_small,
+      needed: quantity,
+      owned,
+      committed,
+      missing,
+      cheapest_printing: cheapestPrinting(dc.card?.card_sets),
+      unit_price_eur: unit,
+      cost_eur: unit ? round2(unit * missing) : null,
+    });
+  }
+
+  // Les plus chères d'abord : c'est là que se joue le budget.
+  lines.sort((a, b) => (b.cost_eur ?? -1) - (a.cost_eur ?? -1) || a.name.localeCompare(b.name));
+
+  return {
+    deck_id: deck.id,
+    deck_name: deck.name,
+    include_committed: includeCommitted,
+    lines,
+    missing_cards: lines.reduce((s, l) => s + l.missing, 0),
+    total_cost_eur: round2(lines.reduce((s, l) => s + (l.cost_eur || 0), 0)),
+    unpriced_cards: lines.reduce((s, l) => s + (l.unit_price_eur ? 0 : l.missing), 0),
+  };
+}
+
+const formatEur = (n: number) => `${n.toFixed(2).replace('.', ',')} €`;
+
+/** Liste lisible, à coller dans un message ou un panier. */
+export function serializeShortfallText(shortfall: DeckShortfall): string {
+  const out = [`Liste d'achats — ${shortfall.deck_name}`, ''];
+  for (const l of shortfall.lines) {
+    const printing = l.cheapest_printing
+      ? ` (${l.cheapest_printing.set_code} — ${l.cheapest_printing.set_rarity})`
+      : '';
+    const cost = l.cost_eur !== null ? ` — ${formatEur(l.cost_eur)}` : '';
+    out.push(`${l.missing}x ${l.name}${printing}${cost}`);
+  }
+  out.push('', `Total : ${shortfall.missing_cards} cartes, ${formatEur(shortfall.total_cost_eur)}`);
+  if (shortfall.unpriced_cards > 0) {
+    out.push(`(${shortfall.unpriced_cards} sans cote Cardmarket, non comptées)`);
+  }
+  return out.join('\n') + '\n';
+}
+
+export const SHORTFALL_CSV_HEADER = [
+  'name',
+  'missing',
+  'needed',
+  'owned',
+  'committed',
+  'set_code',
+  'set_rarity',
+  'unit_price_eur',
+  'cost_eur',
+];
+
+export function serializeShortfallCsv(shortfall: DeckShortfall): string {
+  return toCsv([
+    SHORTFALL_CSV_HEADER,
+    ...shortfall.lines.map((l) => [
+      l.name,
+      l.missing,
+      l.needed,
+      l.owned,
+      l.committed,
+      l.cheapest_printing?.set_code,
+      l.cheapest_printing?.set_rarity,
+      l.unit_price_eur,
+      l.cost_eur,
+    ]),
+  ]);
+}
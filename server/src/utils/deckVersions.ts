@@ -0,0 +1,67 @@
+/**
+ * Historique des decks — comparaison de deux instantanés.
+ *
+ * Un instantané est la liste complète du contenu à un instant donné
+ * (`deck_versions.cards`). Le diff se fait par section et par passcode : une
+ * carte passée du Main au Side apparaît retirée du Main et ajoutée au Side,
+ * ce qui est exactement ce qu'un joueur veut lire dans un changelog.
+ */
+
+import type { DeckSection, DeckVersionCard, DeckVersionChange, DeckVersionDiff } from '../../../shared/types';
+
+const SECTIONS: DeckSection[] = ['main', 'extra', 'side'];
+
+export function emptyDiff(): DeckVersionDiff {
+  return {
+    main: { added: [], removed: [] },
+    extra: { added: [], removed: [] },
+    side: { added: [], removed: [] },
+  };
+}
+
+/** Cartes ajoutées / retirées par section de `from` à `to` (sans version précédente : tout est ajouté). */
+export function diffDeckVersions(from: DeckVersionCard[] | null, to: DeckVersionCard[]): DeckVersionDiff {
+  const tally = (cards: DeckVersionCard[]) => {
+    const out = new Map<string, { card_code: string; name: string; section: DeckSection; quantity: number }>();
+    for (const c of cards) {
+      const key = `${c.section}:${c.card_code}`;
+      const cur = out.get(key);
+      if (cur) cur.quantity += c.quantity;
+      else out.set(key, { card_code: c.card_code, name: c.name, section: c.section, quantity: c.quantity });
+    }
+    return out;
+  };
+
+  const before = tally(from ?? []);
+  const after = tally(to);
+  const diff = emptyDiff();
+
+  for (const key of new Set([...before.keys(), ...after.keys()])) {
+    const a = before.get(key);
+    const b = after.get(key);
+    const delta = (b?.quantity ?? 0) - (a?.quantity ?? 0);
+    if (delta === 0) continue;
+    const card = (b ?? a)!;
+    const change: DeckVersionChange = { card_code: card.card_code, name: card.name, quantity: Math.abs(delta) };
+    if (delta > 0) diff[card.section].added.push(change);
+    else diff[card.section].removed.push(change);
+  }
+
+  for (const section of SECTIONS) {
+    diff[section].added.sort((x, y) => x.name.localeCompare(y.name));
+    diff[section].removed.sort((x, y) => x.name.localeCompare(y.name));
+  }
+  return diff;
+}
+
+/** Même contenu (mêmes cartes, sections et quantités), dans n'importe quel ordre. */
+export function sameDeckContent(a: DeckVersionCard[], b: DeckVersionCard[]): boolean {
+  const diff = diffDeckVersions(a, b);
+  return SECTIONS.every((s) => diff[s].added.length === 0 && diff[s].removed.length === 0);
+}
+
+export function sectionCounts(cards: DeckVersionCard[]): Record<DeckSection, number> {
+  const counts: Record<DeckSection, number> = { main: 0, extra: 0, side: 0 };
+  for (const c of cards) counts[c.section] += c.quantity;
+  return counts;
+}
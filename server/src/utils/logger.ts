@@ -331,6 +331,9 @@ export const loggers = {
     cardRemoved: (userId: number, cardId: number) => {
       logger.info('Card removed from collection', { userId, cardId });
     },
+    csvImported: (userId: number, lines: number, quantity: number) => {
+      logger.info('Collection CSV imported', { userId, lines, quantity });
+    },
   },
 
   social: {
@@ -0,0 +1,220 @@
+/**
+ * Écriture PDF minimale, sans dépendance : pages A4, texte en Helvetica /
+ * Helvetica-Bold (polices standard, non embarquées), traits, rectangles et
+ * images JPEG. De quoi produire une decklist et des planches de proxys ; rien
+ * de plus (pas de compression, pas de polices TrueType).
+ *
+ * Les coordonnées sont en points, origine en haut à gauche de la page — le
+ * retournement vers le repère PDF (origine en bas à gauche) est fait ici.
+ */
+
+export const A4 = { width: 595.28, height: 841.89 } as const;
+
+/** 1 mm en points. */
+export const MM = 72 / 25.4;
+
+export type Rgb = [number, number, number];
+
+export interface PdfImage {
+  /** Fichier JPEG complet (baseline ou progressif). */
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: Rgb;
+  align?: 'left' | 'center' | 'right';
+}
+
+interface ShapeOptions {
+  width?: number;
+  stroke?: Rgb;
+  fill?: Rgb;
+}
+
+/** Largeurs Helvetica (AFM, millièmes d'em) des caractères 32 à 126. */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667,
+  556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556,
+  556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722,
+  500, 500, 500, 334, 260, 334, 584,
+];
+
+/** Le gras est un peu plus large : approximation suffisante pour tronquer. */
+const BOLD_FACTOR = 1.07;
+
+/** Caractères hors Latin-1 présents dans WinAnsiEncoding. */
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99, 'œ': 0x9c, 'Œ': 0x8c,
+};
+
+function charWidth(ch: string): number {
+  const code = ch.charCodeAt(0);
+  if (code >= 32 && code <= 126) return HELVETICA_WIDTHS[code - 32];
+  // Lettre accentuée : largeur de la lettre de base
+  const base = ch.normalize('NFD')[0];
+  if (base !== ch && base.charCodeAt(0) >= 32 && base.charCodeAt(0) <= 126) return charWidth(base);
+  return 556;
+}
+
+/** Chaîne littérale PDF encodée en WinAnsi ; l'inencodable devient « ? ». */
+function pdfString(text: string): string {
+  let out = '(';
+  for (const ch of text) {
+    const code = ch.charCodeAt(0);
+    let byte: number;
+    if (WIN_ANSI_EXTRA[ch] !== undefined) byte = WIN_ANSI_EXTRA[ch];
+    else if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) byte = code;
+    else byte = 63;
+    if (byte === 0x28 || byte === 0x29 || byte === 0x5c) out += '\\';
+    out += String.fromCharCode(byte);
+  }
+  return out + ')';
+}
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+const rgb = (c: Rgb) => c.map(num).join(' ');
+
+export class PdfDocument {
+  private pages: string[][] = [];
+  private images: PdfImage[] = [];
+
+  addPage(): this {
+    this.pages.push([]);
+    return this;
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  private get ops(): string[] {
+    if (this.pages.length === 0) this.addPage();
+    return this.pages[this.pages.length - 1];
+  }
+
+  /** Largeur d'un texte en points. */
+  static widthOf(text: string, size: number, bold = false): number {
+    let w = 0;
+    for (const ch of text) w += charWidth(ch);
+    return (w / 1000) * size * (bold ? BOLD_FACTOR : 1);
+  }
+
+  /** Coupe le texte avec « … » pour qu'il tienne dans `maxWidth`. */
+  static fit(text: string, maxWidth: number, size: number, bold = false): string {
+    if (PdfDocument.widthOf(text, size, bold) <= maxWidth) return text;
+    let cut = text;
+    while (cut.length > 0 && PdfDocument.widthOf(`${cut}…`, size, bold) > maxWidth) cut = cut.slice(0, -1);
+    return `${cut.trimEnd()}…`;
+  }
+
+  /** `y` : ligne de base du texte. */
+  text(x: number, y: number, text: string, options: TextOptions = {}): this {
+    const size = options.size ?? 10;
+    const bold = options.bold ?? false;
+    const width = PdfDocument.widthOf(text, size, bold);
+    const left = options.align === 'center' ? x - width / 2 : options.align === 'right' ? x - width : x;
+    this.ops.push(
+      `BT ${rgb(options.color ?? [0, 0, 0])} rg /${bold ? 'F2' : 'F1'} ${num(size)} Tf ` +
+        `${num(left)} ${num(A4.height - y)} Td ${pdfString(text)} Tj ET`
+    );
+    return this;
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: ShapeOptions = {}): this {
+    this.ops.push(
+      `${num(options.width ?? 0.5)} w ${rgb(options.stroke ?? [0, 0, 0])} RG ` +
+        `${num(x1)} ${num(A4.height - y1)} m ${num(x2)} ${num(A4.height - y2)} l S`
+    );
+    return this;
+  }
+
+  /** Rectangle dont (x, y) est le coin haut gauche ; sans `fill`, seulement le contour. */
+  rect(x: number, y: number, w: number, h: number, options: ShapeOptions = {}): this {
+    const paint = options.fill ? (options.stroke ? 'B' : 'f') : 'S';
+    this.ops.push(
+      `${num(options.width ?? 0.5)} w ${rgb(options.stroke ?? [0, 0, 0])} RG ${rgb(options.fill ?? [1, 1, 1])} rg ` +
+        `${num(x)} ${num(A4.height - y - h)} ${num(w)} ${num(h)} re ${paint}`
+    );
+    return this;
+  }
+
+  image(image: PdfImage, x: number, y: number, w: number, h: number): this {
+    let index = this.images.indexOf(image);
+    if (index < 0) index = this.images.push(image) - 1;
+    this.ops.push(`q ${num(w)} 0 0 ${num(h)} ${num(x)} ${num(A4.height - y - h)} cm /Im${index} Do Q`);
+    return this;
+  }
+
+  /**
+   * Sérialise le document. Objets : 1 catalogue, 2 arbre des pages, 3-4
+   * polices, puis les images, puis chaque page suivie de son flux de contenu.
+   */
+  toBuffer(): Buffer {
+    if (this.pages.length === 0) this.addPage();
+    const chunks: Buffer[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const push = (chunk: string | Buffer) => {
+      const buf = typeof chunk === 'string' ? Buffer.from(chunk, 'latin1') : chunk;
+      chunks.push(buf);
+      length += buf.length;
+    };
+    const object = (id: number, body: string | Buffer[]) => {
+      offsets[id] = length;
+      push(`${id} 0 obj\n`);
+      if (typeof body === 'string') push(body);
+      else body.forEach(push);
+      push('\nendobj\n');
+    };
+    const stream = (dict: string, data: Buffer): Buffer[] => [
+      Buffer.from(`<< ${dict} /Length ${data.length} >>\nstream\n`, 'latin1'),
+      data,
+      Buffer.from('\nendstream', 'latin1'),
+    ];
+
+    const firstImage = 5;
+    const firstPage = firstImage + this.images.length;
+    const pageIds = this.pages.map((_, i) => firstPage + i * 2);
+
+    push('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+    object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    object(2, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    object(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    this.images.forEach((img, i) =>
+      object(
+        firstImage + i,
+        stream(
+          `/Type /XObject /Subtype /Image /Width ${img.width} /Height ${img.height} ` +
+            '/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode',
+          img.data
+        )
+      )
+    );
+
+    const xobjects = this.images.map((_, i) => `/Im${i} ${firstImage + i} 0 R`).join(' ');
+    this.pages.forEach((ops, i) => {
+      const id = pageIds[i];
+      object(
+        id,
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4.width} ${A4.height}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xobjects ? ` /XObject << ${xobjects} >>` : ''} >> ` +
+          `/Contents ${id + 1} 0 R >>`
+      );
+      object(id + 1, stream('', Buffer.from(ops.join('\n'), 'latin1')));
+    });
+
+    const size = firstPage + this.pages.length * 2;
+    const xref = length;
+    push(`xref\n0 ${size}\n0000000000 65535 f \n`);
+    for (let id = 1; id < size; id++) push(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    push(`trailer\n<< /Size ${size} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+    return Buffer.concat(chunks);
+  }
+}
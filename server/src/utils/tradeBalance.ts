@@ -0,0 +1,36 @@
+/**
+ * Équilibre d'un échange : ce que chaque camp donne, au prix Cardmarket
+ * (`cardmarketPriceEUR`, la même règle que la valeur de collection). Les
+ * cartes sans cote sont comptées à part plutôt qu'à 0 €, pour qu'une offre
+ * ne paraisse pas déséquilibrée faute de prix.
+ */
+
+import type { TradeBalance, TradeItem } from '../../../shared/types';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function computeTradeBalance(
+  items: Pick<TradeItem, 'from_user_id' | 'quantity' | 'unit_price_eur'>[],
+  proposerId: number
+): TradeBalance {
+  let proposer = 0;
+  let recipient = 0;
+  let unpriced = 0;
+
+  for (const item of items) {
+    if (!item.unit_price_eur) {
+      unpriced += item.quantity;
+      continue;
+    }
+    const value = item.unit_price_eur * item.quantity;
+    if (item.from_user_id === proposerId) proposer += value;
+    else recipient += value;
+  }
+
+  return {
+    proposer_gives_eur: round2(proposer),
+    recipient_gives_eur: round2(recipient),
+    difference_eur: round2(recipient - proposer),
+    unpriced_cards: unpriced,
+  };
+}
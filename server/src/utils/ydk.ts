@@ -0,0 +1,139 @@
+/**
+ * Formats de liste de deck échangés avec EDOPro et YGOProDeck.
+ *
+ *   - `.ydk` : fichier texte, une ligne par exemplaire (passcode Konami), trois
+ *     sections introduites par `#main`, `#extra` et `!side`. Les lignes `#…`
+ *     restantes sont des commentaires (`#created by …`).
+ *   - `ydke://` : les trois mêmes listes encodées en base64, chaque passcode
+ *     sur 4 octets little-endian, sections séparées par `!`.
+ *
+ * Ce module ne fait que (dé)sérialiser des listes de passcodes. La résolution
+ * vers `cards.id` et le classement Main / Extra sont l'affaire de l'appelant :
+ * un fichier importé ne fait jamais foi sur la section d'une carte.
+ */
+
+export interface DeckListSections {
+  main: number[];
+  extra: number[];
+  side: number[];
+}
+
+export type DeckListFormat = 'ydk' | 'ydke';
+
+const YDKE_PREFIX = 'ydke://';
+
+function isPasscode(n: number): boolean {
+  return Number.isInteger(n) && n > 0 && n <= 0xffffffff;
+}
+
+/**
+ * Lit un fichier `.ydk`.
+ *
+ * Tolérant sur la forme (CRLF, espaces, lignes vides, commentaires) mais pas
+ * sur le fond : une ligne qui n'est pas un passcode lève une erreur avec son
+ * numéro, plutôt que d'être ignorée et de produire un deck amputé en silence.
+ */
+export function parseYdk(content: string): DeckListSections {
+  const sections: DeckListSections = { main: [], extra: [], side: [] };
+  // Sans en-tête, EDOPro range tout dans le Main — on fait pareil.
+  let current: keyof DeckListSections = 'main';
+
+  const lines = content.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    const lower = line.toLowerCase();
+    if (lower === '#main') {
+      current = 'main';
+      continue;
+    }
+    if (lower === '#extra') {
+      current = 'extra';
+      continue;
+    }
+    if (lower === '!side') {
+      current = 'side';
+      continue;
+    }
+    if (line.startsWith('#') || line.startsWith('!')) continue;
+
+    const code = Number(line);
+    if (!/^\d+$/.test(line) || !isPasscode(code)) {
+      throw new Error(`Ligne ${i + 1} : « ${line.slice(0, 40)} » n'est pas un passcode`);
+    }
+    sections[current].push(code);
+  }
+
+  return sections;
+}
+
+/** Écrit un fichier `.ydk`, un passcode par exemplaire. */
+export function serializeYdk(sections: DeckListSections, createdBy = 'YuGiOh Collection Manager'): string {
+  const lines = [
+    `#created by ${createdBy}`,
+    '#main',
+    ...sections.main.map(String),
+    '#extra',
+    ...sections.extra.map(String),
+    '!side',
+    ...sections.side.map(String),
+  ];
+  return `${lines.join('\n')}\n`;
+}
+
+function decodeYdkeSection(encoded: string, label: string): number[] {
+  if (!encoded) return [];
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(encoded)) {
+    throw new Error(`URL ydke invalide : section ${label} mal encodée`);
+  }
+  const buf = Buffer.from(encoded, 'base64');
+  if (buf.length % 4 !== 0) {
+    throw new Error(`URL ydke invalide : section ${label} tronquée`);
+  }
+  const codes: number[] = [];
+  for (let offset = 0; offset < buf.length; offset += 4) {
+    codes.push(buf.readUInt32LE(offset));
+  }
+  return codes;
+}
+
+function encodeYdkeSection(codes: number[]): string {
+  const buf = Buffer.alloc(codes.length * 4);
+  codes.forEach((code, i) => buf.writeUInt32LE(code, i * 4));
+  return buf.toString('base64');
+}
+
+/** Lit une URL `ydke://main!extra!side!`. */
+export function parseYdke(url: string): DeckListSections {
+  const trimmed = url.trim();
+  if (!trimmed.toLowerCase().startsWith(YDKE_PREFIX)) {
+    throw new Error('URL ydke invalide : préfixe ydke:// attendu');
+  }
+  const parts = trimmed.slice(YDKE_PREFIX.length).split('!');
+  if (parts.length < 3) {
+    throw new Error('URL ydke invalide : trois sections attendues');
+  }
+  return {
+    main: decodeYdkeSection(parts[0], 'main'),
+    extra: decodeYdkeSection(parts[1], 'extra'),
+    side: decodeYdkeSection(parts[2], 'side'),
+  };
+}
+
+/** Écrit une URL `ydke://`, avec le `!` final qu'attend EDOPro. */
+export function serializeYdke(sections: DeckListSections): string {
+  return `${YDKE_PREFIX}${encodeYdkeSection(sections.main)}!${encodeYdkeSection(
+    sections.extra
+  )}!${encodeYdkeSection(sections.side)}!`;
+}
+
+/** Reconnaît le format d'après le contenu collé par l'utilisateur. */
+export function detectDeckListFormat(content: string): DeckListFormat {
+  return content.trim().toLowerCase().startsWith(YDKE_PREFIX) ? 'ydke' : 'ydk';
+}
+
+/** Lit l'un ou l'autre format. */
+export function parseDeckList(content: string): DeckListSections {
+  return detectDeckListFormat(content) === 'ydke' ? parseYdke(content) : parseYdk(content);
+}
@@ -0,0 +1,32 @@
+/**
+ * Valeurs autorisées pour le détail d'un exemplaire de collection (état,
+ * édition) — partagées entre la validation serveur et les listes déroulantes
+ * du web.
+ */
+
+import type { CardCondition, CardEdition } from './types';
+
+/** Échelle Cardmarket, de la meilleure à la pire. */
+export const CARD_CONDITIONS: CardCondition[] = ['MT', 'NM', 'EX', 'GD', 'LP', 'PL', 'PO'];
+
+export const CONDITION_LABELS: Record<CardCondition, string> = {
+  MT: 'Mint',
+  NM: 'Near Mint',
+  EX: 'Excellent',
+  GD: 'Good',
+  LP: 'Light Played',
+  PL: 'Played',
+  PO: 'Poor',
+};
+
+export const CARD_EDITIONS: CardEdition[] = ['1st', 'unlimited', 'limited'];
+
+export const EDITION_LABELS: Record<CardEdition, string> = {
+  '1st': '1ère édition',
+  unlimited: 'Unlimited',
+  limited: 'Limited',
+};
+
+/** Valeurs par défaut en base quand l'utilisateur ne précise rien. */
+export const DEFAULT_CONDITION: CardCondition = 'NM';
+export const DEFAULT_EDITION: CardEdition = 'unlimited';
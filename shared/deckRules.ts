@@ -0,0 +1,181 @@
+/**
+ * Règles de construction d'un deck — source unique pour `/decks/:id/validate`,
+ * le lancement d'un duel moteur, le constructeur IA et le DeckEditor web.
+ *
+ * Avant, trois jeux de règles cohabitaient : `DeckModel.validateDeck` ne
+ * comptait que les tailles Main/Extra, `deckLoader` vérifiait banlist et max 3
+ * pour le moteur seul, et le DeckEditor refaisait le tout à sa façon. Un deck
+ * « valide » à l'écran pouvait donc être refusé au lancement du duel.
+ *
+ * Le moteur de règles est pur : l'appelant fournit les cartes (passcode, nom,
+ * section, quantité, type) et, s'il y a lieu, la limite banlist de chacune.
+ * Les `reason` sont en anglais comme les autres messages de l'API ;
+ * `describeViolation` donne le libellé français affiché aux joueurs.
+ */
+
+import { isExtraDeckCard, type ClassifiableCard } from './cards';
+import type { BanStatus, DeckLegalityViolation, DeckSection } from './types';
+
+export const DECK_LIMITS = {
+  mainMin: 40,
+  mainMax: 60,
+  extraMax: 15,
+  sideMax: 15,
+  copies: 3,
+} as const;
+
+export interface DeckRuleCard extends ClassifiableCard {
+  /** Passcode (`cards.card_id`). */
+  card_code: string;
+  name: string;
+  section: DeckSection;
+  quantity: number;
+}
+
+export interface DeckRuleOptions {
+  /**
+   * Limite banlist d'une carte, 0 à 3. Absent : seul le max 3 s'applique
+   * (deck hors banlist).
+   */
+  limitOf?: (card: DeckRuleCard) => number;
+  /** `false` : aucune limite d'exemplaires (duel en mode libre). */
+  enforceCopies?: boolean;
+}
+
+export interface DeckRulesReport {
+  valid: boolean;
+  /** Tailles de sections puis `reason` de chaque violation. */
+  errors: string[];
+  mainDeckCount: number;
+  extraDeckCount: number;
+  sideDeckCount: number;
+  violations: DeckLegalityViolation[];
+}
+
+export function banStatusOf(limit: number): BanStatus {
+  if (limit <= 0) return 'Forbidden';
+  if (limit === 1) return 'Limited';
+  if (limit === 2) return 'Semi-Limited';
+  return 'Unlimited';
+}
+
+/**
+ * Exemplaires au-delà de la limite, comptés sur Main + Extra + Side. Les
+ * impressions d'une même carte (passcodes d'artworks alternatifs) partagent
+ * leur nom : on regroupe par nom et on retient la limite la plus stricte.
+ */
+export function copyViolations(
+  cards: DeckRuleCard[],
+  limitOf?: (card: DeckRuleCard) => number
+): DeckLegalityViolation[] {
+  const groups = new Map<string, { card: DeckRuleCard; count: number; limit: number }>();
+  for (const card of cards) {
+    const key = card.name.trim().toLowerCase() || card.card_code;
+    const limit = Math.min(DECK_LIMITS.copies, limitOf ? limitOf(card) : DECK_LIMITS.copies);
+    const group = groups.get(key);
+    if (group) {
+      group.count += card.quantity;
+      group.limit = Math.min(group.limit, limit);
+    } else {
+      groups.set(key, { card, count: card.quantity, limit });
+    }
+  }
+
+  const out: DeckLegalityViolation[] = [];
+  for (const { card, count, limit } of groups.values()) {
+    if (count <= limit) continue;
+    const status = banStatusOf(limit);
+    out.push({
+      card_code: card.card_code,
+      card_name: card.name,
+      section: null,
+      rule: limit < DECK_LIMITS.copies ? 'banlist' : 'copies',
+      status,
+      count,
+      limit,
+      reason:
+        status === 'Forbidden'
+          ? `${card.name} is Forbidden`
+          : limit < DECK_LIMITS.copies
+            ? `${card.name} is ${status} (max ${limit}, found ${count})`
+            : `${card.name}: max ${limit} copies (found ${count})`,
+    });
+  }
+  return out;
+}
+
+/**
+ * Monstres d'Extra Deck rangés dans le Main, et inversement. Le Side accepte
+ * les deux.
+ */
+export function sectionViolations(cards: DeckRuleCard[]): DeckLegalityViolation[] {
+  const out: DeckLegalityViolation[] = [];
+  for (const card of cards) {
+    if (card.section === 'side') continue;
+    const extra = isExtraDeckCard(card);
+    if (extra === (card.section === 'extra')) continue;
+    out.push({
+      card_code: card.card_code,
+      card_name: card.name,
+      section: card.section,
+      rule: 'section',
+      status: null,
+      count: card.quantity,
+      limit: 0,
+      reason: extra
+        ? `${card.name} is an Extra Deck monster and cannot be in the Main Deck`
+        : `${card.name} is not an Extra Deck monster`,
+    });
+  }
+  return out;
+}
+
+export function checkDeckRules(cards: DeckRuleCard[], options: DeckRuleOptions = {}): DeckRulesReport {
+  const count = (section: DeckSection) =>
+    cards.filter((c) => c.section === section).reduce((sum, c) => sum + c.quantity, 0);
+  const mainDeckCount = count('main');
+  const extraDeckCount = count('extra');
+  const sideDeckCount = count('side');
+
+  const errors: string[] = [];
+  if (mainDeckCount < DECK_LIMITS.mainMin) {
+    errors.push(`Main Deck must have at least ${DECK_LIMITS.mainMin} cards`);
+  }
+  if (mainDeckCount > DECK_LIMITS.mainMax) {
+    errors.push(`Main Deck cannot exceed ${DECK_LIMITS.mainMax} cards`);
+  }
+  if (extraDeckCount > DECK_LIMITS.extraMax) {
+    errors.push(`Extra Deck cannot exceed ${DECK_LIMITS.extraMax} cards`);
+  }
+  if (sideDeckCount > DECK_LIMITS.sideMax) {
+    errors.push(`Side Deck cannot exceed ${DECK_LIMITS.sideMax} cards`);
+  }
+
+  const violations = [
+    ...sectionViolations(cards),
+    ...(options.enforceCopies === false ? [] : copyViolations(cards, options.limitOf)),
+  ];
+  errors.push(...violations.map((v) => v.reason));
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    mainDeckCount,
+    extraDeckCount,
+    sideDeckCount,
+    violations,
+  };
+}
+
+/** Libellé français d'une violation, pour l'affichage. */
+export function describeViolation(v: DeckLegalityViolation): string {
+  if (v.rule === 'section') {
+    return v.section === 'main'
+      ? `${v.card_name} : carte Extra rangée dans le Main`
+      : `${v.card_name} : carte non-Extra rangée dans l'Extra`;
+  }
+  if (v.status === 'Forbidden') return `${v.card_name} : Forbidden (interdite)`;
+  const label =
+    v.status === 'Limited' ? 'Limitée (max 1)' : v.status === 'Semi-Limited' ? 'Semi-Limitée (max 2)' : `max ${v.limit}`;
+  return `${v.card_name} : ${label} — ${v.count} exemplaires trouvés`;
+}
@@ -481,6 +481,160 @@ export interface DuelAnnounceSearchResult {
   name: string;
 }
 
+// ─── Rejeu ──────────────────────────────────────────────────────────────────
+
+/** Décision prise à partir d'une image du rejeu, racontée en clair. */
+export interface DuelReplayDecision {
+  seat: DuelSeat;
+  /** Phrase de l'invite telle que le joueur l'a vue. */
+  prompt: string;
+  /** Libellés des options retenues (« Passer » pour un refus). */
+  choice: string[];
+}
+
+/**
+ * Une image du rejeu : l'état de la partie au moment où un joueur devait
+ * décider, ou la position finale pour la dernière.
+ *
+ * Le plateau est la vue **spectateur** : ce qui était public à ce moment-là.
+ * Les deux mains sont à part, détaillées — le front ne les affiche que si
+ * l'on demande à les révéler.
+ */
+export interface DuelReplayFrame {
+  index: number;
+  board: DuelBoardView;
+  /** Mains des sièges 0 et 1. */
+  hands: [DuelCardView[], DuelCardView[]];
+  /** Lignes de journal apparues depuis l'image précédente. */
+  log: DuelLogEntry[];
+  /** Absente sur l'image finale. */
+  decision?: DuelReplayDecision;
+}
+
+export interface DuelReplayPlayer {
+  id: number;
+  username: string;
+}
+
+/**
+ * Réponse de `GET /duels/:id/replay` — la partie reconstruite par le moteur à
+ * partir de sa graine et de son journal de décisions.
+ */
+export interface DuelReplay {
+  duelId: number;
+  /** Joueurs par siège : le siège 0 est celui qui a commencé. */
+  players: [DuelReplayPlayer, DuelReplayPlayer];
+  frames: DuelReplayFrame[];
+  /** Première image de chaque tour, pour sauter directement à un tour. */
+  turns: Array<{ turn: number; frame: number }>;
+  winner: DuelSeat | null;
+  winReason?: string;
+  /**
+   * Faux quand le journal n'a pas pu être rejoué jusqu'au bout — moteur mis à
+   * jour depuis la partie, journal incomplet. Les images déjà obtenues restent
+   * exploitables ; `error` dit où ça a cassé.
+   */
+  complete: boolean;
+  error?: string;
+}
+
+// ─── Adversaire automatique ─────────────────────────────────────────────────
+
+/**
+ * Politiques de jeu du bot — voir `server/src/services/duelBot/policies.ts`.
+ * 'pass' est le goldfish du labo de combos : jamais proposé comme adversaire.
+ */
+export type DuelBotPolicyId = 'rules' | 'random' | 'pass';
+
+/** Une politique telle que la propose l'écran « Affronter le bot ». */
+export interface DuelBotPolicyInfo {
+  id: DuelBotPolicyId;
+  label: string;
+  description: string;
+}
+
+// ─── Labo de combos (goldfish) ──────────────────────────────────────────────
+
+/** Une décision du joueur dans le labo, à laquelle on peut revenir. */
+export interface DuelLabDecision {
+  /** Rang dans le journal : revenir ici annule cette décision et les suivantes. */
+  seq: number;
+  turn: number;
+  /** Phrase de l'invite telle que le joueur l'a vue. */
+  prompt: string;
+  /** Libellés des options retenues (« Passer » pour un refus). */
+  choice: string[];
+}
+
+/** Réponse de `GET /duels/:id/engine/lab` — les décisions du joueur, dans l'ordre. */
+export interface DuelLabHistory {
+  duelId: number;
+  decisions: DuelLabDecision[];
+}
+
+// ─── Puzzles ────────────────────────────────────────────────────────────────
+
+/**
+ * Seul objectif pour l'instant : gagner pendant le tour 1, que le joueur
+ * commence avec le droit d'attaquer. Le tour passé, le puzzle est perdu.
+ */
+export type DuelPuzzleGoal = 'win_this_turn';
+
+/** Une carte posée sur le terrain au départ du puzzle. */
+export interface DuelPuzzleCard {
+  code: number;
+  /**
+   * 'attack' / 'defense' : face recto ; 'set' : face verso (défense pour un
+   * monstre, posée pour une magie/piège). Absent : 'attack' pour un monstre,
+   * face recto pour une magie.
+   */
+  position?: 'attack' | 'defense' | 'set';
+}
+
+/** Un camp du puzzle. Mêmes indices de zones que `DuelSideView`. */
+export interface DuelPuzzleSide {
+  lp: number;
+  hand: number[];
+  /** Main Deck, la première carte sur le dessus. Pas de mélange. */
+  deck: number[];
+  extra: number[];
+  /** 5 zones principales puis les 2 zones monstre supplémentaires ; null = vide. */
+  monsters: Array<DuelPuzzleCard | null>;
+  /** 5 zones magie/piège puis la zone terrain ; null = vide. */
+  spells: Array<DuelPuzzleCard | null>;
+  graveyard: number[];
+  banished: number[];
+}
+
+/** Le format d'un puzzle : deux plateaux et un objectif, sans script. */
+export interface DuelPuzzleSetup {
+  goal: DuelPuzzleGoal;
+  /** Le joueur : siège 0, il commence. */
+  player: DuelPuzzleSide;
+  /** L'adversaire passe son tour sans rien jouer (bot en politique 'pass'). */
+  opponent: DuelPuzzleSide;
+}
+
+/** Progression d'un joueur sur un puzzle. */
+export interface DuelPuzzleProgress {
+  attempts: number;
+  /** Première résolution ; null tant que le puzzle résiste. */
+  solvedAt: string | null;
+}
+
+export interface DuelPuzzle {
+  id: number;
+  title: string;
+  description: string;
+  /** 1 (facile) à 5. */
+  difficulty: number;
+  setup: DuelPuzzleSetup;
+  createdAt: string;
+  updatedAt: string;
+  /** Renseigné pour l'utilisateur connecté. */
+  progress?: DuelPuzzleProgress;
+}
+
 // ─── Pile ou face au démarrage ──────────────────────────────────────────────
 
 /**
@@ -0,0 +1,138 @@
+/**
+ * Plans de side par matchup — application pure, partagée par l'API (validation
+ * à l'enregistrement, plans devenus caducs) et l'écran de sideboard web.
+ *
+ * Un plan part toujours du deck enregistré : les cartes sortantes quittent le
+ * Main ou l'Extra pour le Side, les entrantes quittent le Side pour le Main ou
+ * l'Extra selon leur type. La composition totale ne change pas, seules les
+ * tailles de sections bougent — d'où le contrôle des limites (Side 15 compris)
+ * après application.
+ */
+
+import { DECK_LIMITS } from './deckRules';
+import type { DeckSidePlan, DeckSidePlanMove } from './types';
+
+export const MAX_SIDE_PLANS = 20;
+export const MAX_SIDE_PLAN_NAME_LENGTH = 60;
+
+/** Composition : un `cards.id` par exemplaire, comme la soumission de sideboard. */
+export interface SidePlanSections {
+  main: number[];
+  extra: number[];
+  side: number[];
+}
+
+export interface SidePlanContext {
+  /** Carte d'Extra Deck : une entrante y retourne au lieu du Main. */
+  isExtra: (cardId: number) => boolean;
+  /** Nom affiché dans les problèmes, `#id` par défaut. */
+  nameOf?: (cardId: number) => string;
+}
+
+export interface SidePlanResult {
+  sections: SidePlanSections;
+  /** Vide : plan applicable. */
+  problems: string[];
+}
+
+/** Retire `quantity` exemplaires de `cardId` ; renvoie le nombre réellement retiré. */
+function take(list: number[], cardId: number, quantity: number): number {
+  let taken = 0;
+  for (let i = list.length - 1; i >= 0 && taken < quantity; i--) {
+    if (list[i] === cardId) {
+      list.splice(i, 1);
+      taken++;
+    }
+  }
+  return taken;
+}
+
+const total = (moves: DeckSidePlanMove[]) => moves.reduce((n, m) => n + m.quantity, 0);
+
+export function applySidePlan(
+  sections: SidePlanSections,
+  plan: DeckSidePlan,
+  { isExtra, nameOf = (id) => `#${id}` }: SidePlanContext
+): SidePlanResult {
+  const main = [...sections.main];
+  const extra = [...sections.extra];
+  const side = [...sections.side];
+  const problems: string[] = [];
+
+  for (const move of plan.out) {
+    const from = isExtra(move.card_id) ? extra : main;
+    const taken = take(from, move.card_id, move.quantity);
+    if (taken < move.quantity) {
+      problems.push(
+        `${nameOf(move.card_id)} : ${move.quantity} à sortir, ${taken} dans le ${from === extra ? 'Extra' : 'Main'} Deck`
+      );
+    }
+    for (let i = 0; i < taken; i++) side.push(move.card_id);
+  }
+
+  // Les entrantes ne puisent que dans le Side d'origine : une carte que le plan
+  // vient de sortir n'y rentre pas aussitôt
+  for (const move of plan.in) {
+    const available = sections.side.filter((id) => id === move.card_id).length;
+    const taken = take(side, move.card_id, Math.min(move.quantity, available));
+    if (taken < move.quantity) {
+      problems.push(`${nameOf(move.card_id)} : ${move.quantity} à rentrer, ${available} dans le Side Deck`);
+    }
+    const to = isExtra(move.card_id) ? extra : main;
+    for (let i = 0; i < taken; i++) to.push(move.card_id);
+  }
+
+  if (main.length < DECK_LIMITS.mainMin || main.length > DECK_LIMITS.mainMax) {
+    problems.push(
+      `Main Deck : ${main.length} cartes après le side (attendu ${DECK_LIMITS.mainMin}-${DECK_LIMITS.mainMax})`
+    );
+  }
+  if (extra.length > DECK_LIMITS.extraMax) {
+    problems.push(`Extra Deck : ${extra.length} cartes après le side (max ${DECK_LIMITS.extraMax})`);
+  }
+  if (side.length > DECK_LIMITS.sideMax) {
+    problems.push(`Side Deck : ${side.length} cartes après le side (max ${DECK_LIMITS.sideMax})`);
+  }
+
+  return { sections: { main, extra, side }, problems };
+}
+
+/** « -2 / +2 » : bilan d'un plan pour l'affichage. */
+export function describeSidePlan(plan: DeckSidePlan): string {
+  return `-${total(plan.out)} / +${total(plan.in)}`;
+}
+
+function normalizeMoves(value: unknown): DeckSidePlanMove[] | null {
+  if (!Array.isArray(value)) return null;
+  const byId = new Map<number, number>();
+  for (const entry of value) {
+    const cardId = (entry as any)?.card_id;
+    const quantity = (entry as any)?.quantity;
+    if (!Number.isInteger(cardId) || cardId <= 0) return null;
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > DECK_LIMITS.sideMax) return null;
+    byId.set(cardId, (byId.get(cardId) ?? 0) + quantity);
+  }
+  return [...byId].map(([card_id, quantity]) => ({ card_id, quantity }));
+}
+
+/**
+ * Forme des plans reçus : noms uniques et non vides, au moins un mouvement,
+ * quantités entières (les doublons d'une même carte sont cumulés). null si le
+ * corps est invalide ; le contenu du deck est vérifié par `applySidePlan`.
+ */
+export function normalizeSidePlans(value: unknown): DeckSidePlan[] | null {
+  if (!Array.isArray(value) || value.length > MAX_SIDE_PLANS) return null;
+  const names = new Set<string>();
+  const plans: DeckSidePlan[] = [];
+  for (const raw of value) {
+    const name = typeof raw?.name === 'string' ? raw.name.trim() : '';
+    if (!name || name.length > MAX_SIDE_PLAN_NAME_LENGTH || names.has(name.toLowerCase())) return null;
+    names.add(name.toLowerCase());
+
+    const out = normalizeMoves(raw.out ?? []);
+    const cardsIn = normalizeMoves(raw.in ?? []);
+    if (!out || !cardsIn || out.length + cardsIn.length === 0) return null;
+    plans.push({ name, out, in: cardsIn });
+  }
+  return plans;
+}
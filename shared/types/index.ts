@@ -10,6 +10,8 @@ export interface User {
   role?: UserRole;
   is_active?: boolean;
   disabled_at?: Date | null;
+  /** Migration 033 — compte du bot de duel, pas une personne. */
+  is_bot?: boolean;
   created_at: Date;
   updated_at: Date;
   // ─── Présence temps réel (migration 013) ────────────────────────────────
@@ -84,6 +86,31 @@ export interface CardPrices {
   coolstuffinc_price?: string;
 }
 
+/** Photo quotidienne de la valeur d'une collection. */
+export interface CollectionValuePoint {
+  date: string; // YYYY-MM-DD
+  total_value_eur: number;
+  total_cards: number;
+}
+
+/** Prix Cardmarket d'une carte à une date donnée. */
+export interface CardPricePoint {
+  date: string; // YYYY-MM-DD
+  price_eur: number;
+}
+
+/** Carte de la collection dont la valeur a le plus bougé sur la période. */
+export interface PriceMover {
+  card_id: number; // cards.id
+  name: string;
+  image_url_small?: string;
+  quantity: number;
+  old_price_eur: number;
+  new_price_eur: number;
+  /** (new - old) × quantity */
+  delta_eur: number;
+}
+
 /** Stats agrégées d'une collection user, calculées côté serveur pour éviter N requêtes. */
 export interface CollectionStats {
   total_cards: number;
@@ -97,6 +124,12 @@ export interface CollectionStats {
   rarities: string[];
   /** Nombre de cartes (quantité cumulée) par rareté — sert à afficher la stat filtrée. */
   rarity_counts: Record<string, number>;
+  /** Somme des prix d'achat × quantité, sur les seules lignes dont le prix d'achat est connu. */
+  cost_basis_eur: number;
+  /** Valeur Cardmarket − prix d'achat, sur les lignes où les deux sont connus. */
+  unrealized_gain_eur: number;
+  /** Nombre de cartes (quantité) couvertes par le prix de revient. */
+  cost_basis_cards: number;
 }
 
 /** Stats agrégées d'un deck. */
@@ -109,8 +142,58 @@ export interface DeckStats {
   copies_count: number;
 }
 
+/** Ligne de la liste d'achats d'un deck : une carte dont il manque des exemplaires. */
+export interface DeckShortfallLine {
+  card_id: number; // cards.id
+  name: string;
+  image_url_small?: string;
+  /** Exemplaires demandés par le deck (main + extra + side). */
+  needed: number;
+  owned: number;
+  /** Exemplaires déjà engagés dans d'autres decks montés (0 si non comptés). */
+  committed: number;
+  missing: number;
+  /** Impression la moins chère d'après `card_sets` (prix YGOProDeck, USD). */
+  cheapest_printing: { set_code: string; set_name: string; set_rarity: string; set_price: number } | null;
+  /** Prix Cardmarket unitaire ; null si la carte n'est pas cotée. */
+  unit_price_eur: number | null;
+  cost_eur: number | null;
+}
+
+export interface DeckShortfall {
+  deck_id: number;
+  deck_name: string;
+  include_committed: boolean;
+  lines: DeckShortfallLine[];
+  missing_cards: number;
+  total_cost_eur: number;
+  /** Exemplaires manquants sans cote, absents de `total_cost_eur`. */
+  unpriced_cards: number;
+}
+
+/** Répartition d'une carte entre la collection et les decks de l'utilisateur. */
+export interface CardAllocation {
+  card_id: number; // cards.id
+  name: string;
+  image_url_small?: string;
+  owned: number;
+  /** Somme des quantités dans les decks montés — ce qui immobilise la collection. */
+  allocated: number;
+  /** Somme des quantités dans tous les decks, montés ou non. */
+  planned: number;
+  /** allocated > owned : plusieurs decks montés se disputent les mêmes exemplaires. */
+  over_committed: boolean;
+  decks: Array<{ id: number; name: string; quantity: number; is_built: boolean }>;
+}
+
 export type CardLanguage = 'EN' | 'FR' | 'DE' | 'IT' | 'PT' | 'SP' | 'JP' | 'KR';
 
+/** État d'une carte, échelle Cardmarket (Mint → Poor). */
+export type CardCondition = 'MT' | 'NM' | 'EX' | 'GD' | 'LP' | 'PL' | 'PO';
+
+/** Mention d'édition imprimée sous l'illustration. */
+export type CardEdition = '1st' | 'unlimited' | 'limited';
+
 export interface UserCard {
   id: number;
   user_id: number;
@@ -118,7 +201,15 @@ export interface UserCard {
   set_code: string;
   rarity: string;
   language: CardLanguage;
+  condition: CardCondition;
+  edition: CardEdition;
+  /** Prix unitaire payé, en euros. Moyenne pondérée quand des exemplaires s'ajoutent. */
+  purchase_price_eur?: number | null;
+  purchase_date?: string | null; // YYYY-MM-DD
+  notes?: string | null;
   quantity: number;
+  /** Exemplaires proposés dans le classeur d'échange (≤ quantity). */
+  for_trade?: number;
   created_at: Date;
   updated_at: Date;
   card?: Card;
@@ -138,11 +229,156 @@ export interface Deck {
   extra_deck?: DeckCard[];
   /** Side Deck (migration 012). Optionnel — les decks legacy n'en ont pas. */
   side_deck?: DeckCard[];
+  /** Migration 021 — monté physiquement : ses cartes sont immobilisées dans la collection. */
+  is_built?: boolean;
   likes_count?: number;
   dislikes_count?: number;
   comments_count?: number;
   user_reaction?: 'like' | 'dislike' | null;
   is_wishlisted?: boolean;
+  /** Migration 028 — deck d'origine d'un fork ; null s'il a été supprimé ou n'est plus visible. */
+  forked_from?: DeckForkOrigin | null;
+  forks_count?: number;
+  /** Migration 029 — archétypes dominants détectés, du plus au moins représenté. */
+  archetypes?: string[];
+  archetype_split?: DeckArchetypeShare[];
+  /** Tags libres du propriétaire (minuscules). */
+  tags?: string[];
+  /** Recherche publique, connecté : part du deck déjà en collection (0-100). */
+  completion?: number;
+  /** Recherche publique, connecté : coût des cartes manquantes en euros. */
+  missing_value_eur?: number;
+}
+
+/** Part d'un archétype dans le Main + Extra. */
+export interface DeckArchetypeShare {
+  name: string;
+  copies: number;
+  /** 0..1 */
+  share: number;
+}
+
+/** Archétype ou tag proposé comme filtre, avec son nombre de decks publics. */
+export interface DeckFacet {
+  name: string;
+  count: number;
+}
+
+// ─── Consistance (main de départ) ───────────────────────────
+
+/** Rôle d'une carte dans la main de départ ; une carte peut en cumuler plusieurs. */
+export type DeckCardRole = 'starter' | 'extender' | 'handtrap' | 'brick';
+
+export interface DeckCardRoles {
+  /** `cards.id` d'une carte du Main Deck. */
+  card_id: number;
+  roles: DeckCardRole[];
+}
+
+/** « au moins `min` » et / ou « au plus `max` » cartes du rôle en main. */
+export interface DeckRoleRequirement {
+  role: DeckCardRole;
+  min?: number;
+  max?: number;
+}
+
+export interface DeckConsistencyScenario {
+  label: string;
+  /** Toutes doivent être remplies ; une carte ne compte que pour un seul `min`. */
+  requirements: DeckRoleRequirement[];
+}
+
+export interface DeckConsistencyResult {
+  label: string;
+  /** Main de 5 cartes. */
+  going_first: number;
+  /** Main de 6 cartes. */
+  going_second: number;
+}
+
+export interface DeckConsistency {
+  deck_id: number;
+  /** Taille du Main Deck. */
+  deck_size: number;
+  roles: DeckCardRoles[];
+  /** Exemplaires du Main Deck portant chaque rôle. */
+  role_counts: Record<DeckCardRole, number>;
+  scenarios: DeckConsistencyScenario[];
+  /** true : scénarios par défaut, le propriétaire n'en a pas enregistré. */
+  default_scenarios: boolean;
+  results: DeckConsistencyResult[];
+}
+
+export interface DeckSampleHand {
+  going_first: boolean;
+  cards: Array<{ card_id: number; name: string; roles: DeckCardRole[] }>;
+}
+
+/** Monte-Carlo : mêmes scénarios, estimés sur `trials` mains tirées au hasard. */
+export interface DeckConsistencySample {
+  trials: number;
+  seed: number;
+  results: DeckConsistencyResult[];
+  hands: DeckSampleHand[];
+}
+
+// ─── Plans de side (matchups) ───────────────────────────────
+
+export interface DeckSidePlanMove {
+  /** `cards.id`. */
+  card_id: number;
+  quantity: number;
+}
+
+/** « vs Snake-Eye : -2 X, +2 Y » — appliqué au deck enregistré, pas à la manche précédente. */
+export interface DeckSidePlan {
+  name: string;
+  /** Sortis du Main ou de l'Extra vers le Side. */
+  out: DeckSidePlanMove[];
+  /** Entrés depuis le Side. */
+  in: DeckSidePlanMove[];
+}
+
+export interface DeckSidePlanStatus extends DeckSidePlan {
+  /** Vide si le plan s'applique au deck actuel ; sinon ce qui coince (deck modifié depuis). */
+  problems: string[];
+}
+
+export interface DeckSidePlans {
+  deck_id: number;
+  plans: DeckSidePlanStatus[];
+}
+
+// ─── Lignes de combo (labo goldfish) ────────────────────────
+
+/** Une ligne enregistrée depuis le labo : de quoi rejouer la partie à l'identique. */
+export interface DeckComboLine {
+  id: number;
+  deck_id: number;
+  user: { id: number; username: string };
+  name: string;
+  go_first: boolean;
+  /** Main choisie (passcodes) ; vide = tirage à la graine. */
+  opening_hand: number[];
+  /** Décisions du joueur dans la ligne, celles du goldfish non comptées. */
+  decisions: number;
+  created_at: string;
+}
+
+export interface DeckForkOrigin {
+  id: number;
+  name: string;
+  user: { id: number; username: string };
+}
+
+/** Nœud de l'arbre des forks d'un deck (forks visibles seulement). */
+export interface DeckForkNode {
+  id: number;
+  name: string;
+  is_public: boolean;
+  forked_at: Date | null;
+  user: { id: number; username: string };
+  children: DeckForkNode[];
 }
 
 export interface DeckCard {
@@ -200,10 +436,16 @@ export interface DeckComment {
 export interface Notification {
   id: number;
   user_id: number;
-  type: 'follow' | 'like' | 'dislike' | 'comment' | 'reply';
+  type: 'follow' | 'like' | 'dislike' | 'comment' | 'reply' | TradeNotificationType | 'price_alert';
   from_user_id?: number;
   deck_id?: number;
   comment_id?: number;
+  /** Migration 022 — offre d'échange concernée (notifications `trade_*`). */
+  trade_id?: number;
+  /** Migration 024 — carte surveillée et prix relevé (notifications `price_alert`). */
+  card_id?: number;
+  price_eur?: number;
+  card?: { id: number; name: string; image_url_small?: string };
   is_read: boolean;
   created_at: Date;
   from_user?: Partial<User>;
@@ -244,6 +486,7 @@ export interface UpdateDeckRequest {
   name?: string;
   respect_banlist?: boolean;
   is_public?: boolean;
+  tags?: string[];
 }
 
 export interface AddCardToDeckRequest {
@@ -283,6 +526,149 @@ export interface DeckFilters extends PaginationParams {
   user_id?: number;
   is_public?: boolean;
   respect_banlist?: boolean;
+  /** Archétype détecté (insensible à la casse). */
+  archetype?: string;
+  /** Tag du propriétaire. */
+  tag?: string;
+  /** Passcodes que le deck doit tous jouer (main, extra ou side). */
+  include_cards?: string[];
+  /** Passcodes qu'il ne doit pas jouer. */
+  exclude_cards?: string[];
+  /** Part minimale du deck déjà en collection, 0-100 (connecté). */
+  min_owned?: number;
+  /** Coût maximal des cartes manquantes, en euros (connecté). */
+  max_missing_eur?: number;
+  sort?: PublicDeckSort;
+}
+
+/** `completion` : les decks les plus proches de la collection d'abord. */
+export type PublicDeckSort = 'recent' | 'likes' | 'completion';
+
+// ─── Banlists ───────────────────────────────────────────────
+
+/** `custom` : liste maison importée par un joueur. */
+export type BanlistFormat = 'tcg' | 'ocg' | 'goat' | 'custom';
+
+/**
+ * Format de validation : id d'une liste précise, ou clé de format pour la
+ * dernière liste de ce format entrée en vigueur.
+ */
+export type BanlistFormatId = number | Exclude<BanlistFormat, 'custom'>;
+
+export type BanStatus = 'Forbidden' | 'Limited' | 'Semi-Limited' | 'Unlimited';
+
+export interface Banlist {
+  id: number;
+  format: BanlistFormat;
+  name: string;
+  effective_date: string; // YYYY-MM-DD
+  /** Seules les cartes listées sont autorisées. */
+  whitelist: boolean;
+  created_by: number | null;
+  entry_count: number;
+}
+
+export interface BanlistEntry {
+  card_code: string;
+  /** Nom en base, null si la carte n'a jamais été mise en cache. */
+  name: string | null;
+  limit: number;
+}
+
+/** Passage d'une carte d'une limite à une autre entre deux listes. */
+export interface BanlistChange {
+  card_code: string;
+  name: string;
+  from: number;
+  to: number;
+}
+
+export type DeckSection = 'main' | 'extra' | 'side';
+
+/**
+ * `banlist` : au-delà de la limite de la liste ; `copies` : plus de 3
+ * exemplaires ; `section` : monstre d'Extra dans le Main ou l'inverse.
+ */
+export type DeckRule = 'banlist' | 'copies' | 'section';
+
+/** Violation d'une carte, cf. `shared/deckRules.ts`. */
+export interface DeckLegalityViolation {
+  card_code: string;
+  card_name: string;
+  /** Section fautive ; null quand les exemplaires sont comptés sur tout le deck. */
+  section: DeckSection | null;
+  rule: DeckRule;
+  /** Statut banlist retenu ; null pour une erreur de section. */
+  status: BanStatus | null;
+  count: number;
+  limit: number;
+  reason: string;
+}
+
+/** Ce qu'une liste change, et lesquels de mes decks elle rend illégaux. */
+export interface BanlistImpact {
+  banlist: Banlist;
+  /** Liste précédente du même format ; null pour une première liste ou une liste maison. */
+  previous: Banlist | null;
+  changes: BanlistChange[];
+  decks: Array<{
+    deck_id: number;
+    deck_name: string;
+    violations: DeckLegalityViolation[];
+    /** Le deck était légal sous la liste précédente. */
+    newly_broken: boolean;
+  }>;
+}
+
+// ─── Historique des versions de deck (migration 027) ──────────────────────
+
+/** Ce qui a produit une version : éditeur, import .ydk, restauration… */
+export type DeckVersionSource = 'edit' | 'replace' | 'import' | 'clear' | 'restore' | 'initial' | 'fork';
+
+/** Une ligne d'un instantané. `card_id` = id interne, `card_code` = passcode. */
+export interface DeckVersionCard {
+  card_id: number;
+  card_code: string;
+  name: string;
+  section: DeckSection;
+  quantity: number;
+}
+
+export interface DeckVersionChange {
+  card_code: string;
+  name: string;
+  /** Exemplaires ajoutés (ou retirés, dans `removed`). */
+  quantity: number;
+}
+
+export type DeckVersionDiff = Record<DeckSection, { added: DeckVersionChange[]; removed: DeckVersionChange[] }>;
+
+export interface DeckVersion {
+  id: number;
+  deck_id: number;
+  /** Numéro croissant par deck, à partir de 1. */
+  version: number;
+  source: DeckVersionSource;
+  /** Version restaurée, pour `source = 'restore'`. */
+  restored_from: number | null;
+  created_by: { id: number; username: string } | null;
+  created_at: Date;
+  main_count: number;
+  extra_count: number;
+  side_count: number;
+  /** Différences avec la version précédente (tout est ajouté pour la première). */
+  changes?: DeckVersionDiff;
+  cards?: DeckVersionCard[];
+}
+
+/** Ce qui a changé sur le deck d'origine depuis le fork. */
+export interface DeckUpstreamChanges {
+  upstream: DeckForkOrigin;
+  /** Version de l'origine au moment du fork (null : origine jamais sauvegardée). */
+  forked_from_version: number | null;
+  upstream_version: number | null;
+  forked_at: Date | null;
+  changes: DeckVersionDiff;
 }
 
 export interface PaginatedResponse<T> {
@@ -391,6 +777,17 @@ export interface Duel {
    * Choisi par le challenger au moment du defi, immuable ensuite.
    */
   rules_mode?: 'standard' | 'free';
+  /** Migration 026 — banlist figée au défi ; null = dernière liste TCG. */
+  banlist_id?: number | null;
+  banlist_name?: string | null;
+  /** Migration 033 — siège adverse tenu par le bot, avec cette politique ; null entre humains. */
+  bot_policy?: 'rules' | 'random' | 'pass' | null;
+  /** Migration 034 — labo de combos : adversaire passif, annulation permise. */
+  goldfish?: boolean;
+  /** Migration 034 — main choisie, en passcodes, dans l'ordre de pioche ; null = tirage à la graine. */
+  opening_hand?: number[] | null;
+  /** Migration 035 — duel ouvert depuis ce puzzle ; null sinon. */
+  puzzle_id?: number | null;
 }
 
 // ─── Match multi-manches (Bo3) ─────────────────────────────────────────
@@ -508,3 +905,132 @@ export interface NewsTopicMeta {
   description: string;
   subscribed: boolean;
 }
+
+// ─── Échanges ───────────────────────────────────────────────
+
+/**
+ * Cycle de vie d'une offre. `countered` : l'autre camp a répondu par une
+ * nouvelle offre (rattachée via `parent_id`). `accepted` est terminal : les
+ * cartes ont déjà changé de collection.
+ */
+export type TradeStatus = 'pending' | 'accepted' | 'declined' | 'cancelled' | 'countered';
+
+export type TradeNotificationType =
+  | 'trade_offer'
+  | 'trade_counter'
+  | 'trade_accepted'
+  | 'trade_declined'
+  | 'trade_cancelled';
+
+/** Lot d'une offre : `quantity` exemplaires d'une impression donnés par `from_user_id`. */
+export interface TradeItem {
+  id: number;
+  trade_id: number;
+  from_user_id: number;
+  card_id: number; // cards.id
+  set_code: string;
+  rarity: string;
+  language: CardLanguage;
+  condition: CardCondition;
+  edition: CardEdition;
+  quantity: number;
+  name: string;
+  image_url_small?: string;
+  /** Prix Cardmarket unitaire ; null si la carte n'est pas cotée. */
+  unit_price_eur: number | null;
+}
+
+/** Valeur de chaque camp au prix Cardmarket, pour juger l'équilibre de l'offre. */
+export interface TradeBalance {
+  proposer_gives_eur: number;
+  recipient_gives_eur: number;
+  /** recipient_gives - proposer_gives : positif = l'offre avantage le proposant. */
+  difference_eur: number;
+  /** Exemplaires sans cote, absents des deux totaux. */
+  unpriced_cards: number;
+}
+
+export interface Trade {
+  id: number;
+  proposer_id: number;
+  recipient_id: number;
+  status: TradeStatus;
+  parent_id: number | null;
+  message: string | null;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+  proposer?: Partial<User>;
+  recipient?: Partial<User>;
+  items: TradeItem[];
+  balance: TradeBalance;
+}
+
+/** Une ligne de collection désignée dans une offre. */
+export interface TradeOfferLine {
+  user_card_id: number;
+  quantity: number;
+}
+
+export interface CreateTradeRequest {
+  recipient_id: number;
+  /** Lignes de la collection du proposant. */
+  offered: TradeOfferLine[];
+  /** Lignes de la collection du destinataire. */
+  requested: TradeOfferLine[];
+  message?: string;
+}
+
+/** Ligne de collection proposable dans un échange. */
+export interface TradeableCard {
+  user_card_id: number;
+  card_id: number;
+  name: string;
+  image_url_small?: string;
+  set_code: string;
+  rarity: string;
+  language: CardLanguage;
+  condition: CardCondition;
+  edition: CardEdition;
+  quantity: number;
+  /** Exemplaires marqués « à l'échange » dans le classeur (≤ quantity). */
+  for_trade: number;
+  unit_price_eur: number | null;
+}
+
+// ─── Classeur d'échange (haves / wants) ─────────────────────
+
+/** Carte recherchée, toutes impressions confondues. */
+export interface WantListEntry {
+  card_id: number; // cards.id
+  name: string;
+  image_url_small?: string;
+  quantity: number;
+  unit_price_eur: number | null;
+  /** Alerte quand le prix Cardmarket passe à ce montant ou en dessous. */
+  target_price_eur: number | null;
+  /** Prix annoncé par la dernière alerte ; null tant qu'elle est réarmée. */
+  alerted_price_eur: number | null;
+  created_at: Date;
+}
+
+/** Vitrine publique : exemplaires à l'échange et liste de recherche. */
+export interface TradeBinder {
+  user_id: number;
+  /** Lignes de collection dont `for_trade` > 0 ; `quantity` = exemplaires proposés. */
+  haves: TradeableCard[];
+  wants: WantListEntry[];
+}
+
+/**
+ * Utilisateur suivi dont le classeur croise le mien. `is_mutual` : il me suit
+ * aussi, condition pour lui proposer un échange.
+ */
+export interface BinderMatch {
+  user: Partial<User>;
+  is_mutual: boolean;
+  /** Ses cartes à l'échange que je recherche. */
+  they_have: TradeableCard[];
+  /** Mes cartes à l'échange qu'il recherche. */
+  they_want: TradeableCard[];
+}